@@ -64,12 +64,20 @@ export {
   ProjectPathSchema,
   OrgColorSchema,
   ORG_COLORS,
+  ProjectTemplateVariableSchema,
+  ProjectTemplateSchema,
+  ScaffoldProjectInputSchema,
+  ScaffoldProjectResultSchema,
   type Project,
   type CreateProject,
   type UpdateProject,
   type ProjectWithParent,
   type ProjectPath,
   type OrgColor,
+  type ProjectTemplateVariable,
+  type ProjectTemplate,
+  type ScaffoldProjectInput,
+  type ScaffoldProjectResult,
 } from './schemas/project.js';
 
 // =============================================================================
@@ -81,10 +89,30 @@ export {
   CreateMeetingSchema,
   MeetingAttendeeSchema,
   MeetingWithAttendeesSchema,
+  MeetingAgendaInputSchema,
+  MeetingAgendaItemSchema,
+  MeetingAgendaSectionSchema,
+  MeetingAgendaSchema,
+  MeetingSeriesSchema,
+  MeetingSeriesInputSchema,
+  MeetingSeriesInstanceSchema,
+  MeetingSeriesTimelineSchema,
+  CreateNextMeetingInputSchema,
+  CreateNextMeetingResultSchema,
   type Meeting,
   type CreateMeeting,
   type MeetingAttendee,
   type MeetingWithAttendees,
+  type MeetingAgendaInput,
+  type MeetingAgendaItem,
+  type MeetingAgendaSection,
+  type MeetingAgenda,
+  type MeetingSeries,
+  type MeetingSeriesInput,
+  type MeetingSeriesInstance,
+  type MeetingSeriesTimeline,
+  type CreateNextMeetingInput,
+  type CreateNextMeetingResult,
 } from './schemas/meeting.js';
 
 // =============================================================================
@@ -103,6 +131,8 @@ export {
   CreateItemAttachmentSchema,
   ItemPersonSchema,
   BlockerInfoSchema,
+  DependencyGraphNodeSchema,
+  DependencyGraphSchema,
   CheckInSchema,
   CreateCheckInSchema,
   ItemDetailSchema,
@@ -124,6 +154,8 @@ export {
   type CreateItemAttachment,
   type ItemPerson,
   type BlockerInfo,
+  type DependencyGraphNode,
+  type DependencyGraph,
   type CheckIn,
   type CreateCheckIn,
   type ItemDetail,
@@ -162,6 +194,149 @@ export {
   type RoutineOverdueResponse,
 } from './schemas/routine.js';
 
+export {
+  RRuleFrequencySchema,
+  RecurrenceRuleInputSchema,
+  isRRuleText,
+  parseRRule,
+  describeRRule,
+  describeRecurrence,
+  type RRuleFrequency,
+  type RRuleWeekday,
+  type ParsedRRule,
+} from './schemas/recurrence.js';
+
+// =============================================================================
+// QUICK-ADD
+// =============================================================================
+
+export {
+  QuickAddTokenTypeSchema,
+  QuickAddDraftSchema,
+  parseQuickAdd,
+  parseDatePhrase,
+  formatLocalDate,
+  type QuickAddTokenType,
+  type QuickAddDraft,
+  type QuickAddOptions,
+} from './schemas/quick-add.js';
+
+// =============================================================================
+// SAVED VIEWS
+// =============================================================================
+
+export {
+  SavedViewSchema,
+  CreateSavedViewSchema,
+  UpdateSavedViewSchema,
+  ItemFilterInputSchema,
+  type SavedView,
+  type CreateSavedView,
+  type UpdateSavedView,
+  type ItemFilterInput,
+} from './schemas/view.js';
+
+// =============================================================================
+// ITEM TEMPLATES
+// =============================================================================
+
+export {
+  ItemTemplatePersonSchema,
+  ItemTemplateCheckinSchema,
+  ItemTemplateStepSchema,
+  ItemTemplateSchema,
+  CreateItemTemplateSchema,
+  UpdateItemTemplateSchema,
+  InstantiateItemTemplateSchema,
+  type ItemTemplatePerson,
+  type ItemTemplateCheckin,
+  type ItemTemplateStep,
+  type ItemTemplate,
+  type CreateItemTemplate,
+  type UpdateItemTemplate,
+  type InstantiateItemTemplate,
+} from './schemas/item-template.js';
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+export {
+  DayCapacitySchema,
+  SetCapacitySchema,
+  PlanningWeekInputSchema,
+  PlannedTaskSchema,
+  PlannedCheckinSchema,
+  PlannedRoutineSchema,
+  PlanDaySchema,
+  PlanSuggestionSchema,
+  WeekPlanSchema,
+  type DayCapacity,
+  type SetCapacity,
+  type PlanningWeekInput,
+  type PlannedTask,
+  type PlannedCheckin,
+  type PlannedRoutine,
+  type PlanDay,
+  type PlanSuggestion,
+  type WeekPlan,
+} from './schemas/planning.js';
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+export {
+  ImportFormatSchema,
+  CsvColumnMappingSchema,
+  ImportInputSchema,
+  ImportRowSchema,
+  ImportPreviewSchema,
+  ImportResultSchema,
+  type ImportFormat,
+  type CsvColumnMapping,
+  type ImportInput,
+  type ImportRow,
+  type ImportPreview,
+  type ImportResult,
+} from './schemas/import.js';
+
+// =============================================================================
+// BACKUP
+// =============================================================================
+
+export {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupValueSchema,
+  BackupRowSchema,
+  BackupArchiveSchema,
+  RestoreInputSchema,
+  RestoreResultSchema,
+  BackupSnapshotSchema,
+  type BackupValue,
+  type BackupRow,
+  type BackupArchive,
+  type RestoreInput,
+  type RestoreResult,
+  type BackupSnapshot,
+} from './schemas/backup.js';
+
+// =============================================================================
+// INVOICES
+// =============================================================================
+
+export {
+  InvoiceStatusSchema,
+  InvoiceLineItemSchema,
+  InvoiceSchema,
+  GenerateInvoiceSchema,
+  type InvoiceStatus,
+  type InvoiceLineItem,
+  type Invoice,
+  type GenerateInvoice,
+} from './schemas/invoice.js';
+
 // =============================================================================
 // GMAIL
 // =============================================================================
@@ -206,12 +381,25 @@ export {
   CalendarEventListResponseSchema,
   CalendarStatusSchema,
   CalendarInfoSchema,
+  CalendarDateTimeSchema,
+  CalendarEventInputSchema,
+  CreateCalendarEventSchema,
+  UpdateCalendarEventSchema,
+  DeleteCalendarEventSchema,
+  CalendarBlockSchema,
+  ScheduleBlockSchema,
   type CalendarAttendee,
   type CalendarEvent,
   type CalendarList,
   type CalendarEventListResponse,
   type CalendarStatus,
   type CalendarInfo,
+  type CalendarEventInput,
+  type CreateCalendarEvent,
+  type UpdateCalendarEvent,
+  type DeleteCalendarEvent,
+  type CalendarBlock,
+  type ScheduleBlock,
 } from './schemas/calendar.js';
 
 // =============================================================================
@@ -249,17 +437,50 @@ export {
   TreeNodeSchema,
   FileSearchResultSchema,
   FileContentSchema,
+  FileReadResultSchema,
+  FileRevisionSourceSchema,
+  FileRevisionSchema,
+  FileSaveResultSchema,
   FileListInputSchema,
   FileTreeInputSchema,
   FileSearchInputSchema,
   FileGetInputSchema,
+  FileSaveInputSchema,
+  FileRevisionInputSchema,
+  FileRestoreInputSchema,
   type FileType,
   type FileEntry,
   type TreeNode,
   type FileSearchResult,
   type FileContent,
+  type FileReadResult,
+  type FileRevisionSource,
+  type FileRevision,
+  type FileSaveResult,
   type FileListInput,
   type FileTreeInput,
   type FileSearchInput,
   type FileGetInput,
+  type FileSaveInput,
+  type FileRevisionInput,
+  type FileRestoreInput,
 } from './schemas/files.js';
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+export {
+  SearchDocTypeSchema,
+  SearchHighlightSchema,
+  SearchResultSchema,
+  SearchResponseSchema,
+  SearchInputSchema,
+  SearchRebuildResultSchema,
+  type SearchDocType,
+  type SearchHighlight,
+  type SearchResult,
+  type SearchResponse,
+  type SearchInput,
+  type SearchRebuildResult,
+} from './schemas/search.js';
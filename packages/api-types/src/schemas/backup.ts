@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+// =============================================================================
+// ARCHIVE
+// =============================================================================
+
+export const BACKUP_FORMAT = 'knowledgework-backup';
+export const BACKUP_VERSION = 1;
+
+/** Column values as JSON: dates are ISO strings */
+export const BackupValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+export type BackupValue = z.infer<typeof BackupValueSchema>;
+
+export const BackupRowSchema = z.record(BackupValueSchema);
+export type BackupRow = z.infer<typeof BackupRowSchema>;
+
+/**
+ * Every table in the database, keyed by Prisma model name (Item, CheckIn, ...).
+ * Rows use the model's field names, not the column names.
+ */
+export const BackupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION), // Archive layout
+  schemaVersion: z.string(), // Latest database migration when exported
+  exportedAt: z.string(),
+  tables: z.record(z.array(BackupRowSchema)),
+});
+export type BackupArchive = z.infer<typeof BackupArchiveSchema>;
+
+// =============================================================================
+// RESTORE
+// =============================================================================
+
+export const RestoreInputSchema = z.object({
+  archive: BackupArchiveSchema.optional(),
+  snapshot: z.string().optional(), // Name of a stored snapshot, instead of an archive
+  dryRun: z.boolean().default(false), // Validate and count without touching the database
+}).refine(input => (input.archive === undefined) !== (input.snapshot === undefined), {
+  message: 'Provide either archive or snapshot',
+});
+export type RestoreInput = z.infer<typeof RestoreInputSchema>;
+
+export const RestoreResultSchema = z.object({
+  dryRun: z.boolean(),
+  schemaVersion: z.string(),
+  exportedAt: z.string(),
+  tables: z.array(z.object({
+    name: z.string(),
+    rows: z.number(),
+  })),
+  safetySnapshot: z.string().nullable(), // Snapshot of the data that was replaced
+});
+export type RestoreResult = z.infer<typeof RestoreResultSchema>;
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+export const BackupSnapshotSchema = z.object({
+  name: z.string(), // File name in the backup directory
+  createdAt: z.string(),
+  size: z.number(), // Bytes
+});
+export type BackupSnapshot = z.infer<typeof BackupSnapshotSchema>;
@@ -58,6 +58,61 @@ export const CalendarListSchema = z.object({
 });
 export type CalendarList = z.infer<typeof CalendarListSchema>;
 
+// =============================================================================
+// MUTATION SCHEMAS
+// =============================================================================
+
+/** ISO datetime; without an offset it's read as server local time */
+export const CalendarDateTimeSchema = z.string().refine(v => !Number.isNaN(Date.parse(v)), 'Invalid date-time');
+
+export const CalendarEventInputSchema = z.object({
+  summary: z.string().min(1),
+  description: z.string().nullable().optional(),
+  location: z.string().nullable().optional(),
+  start: CalendarDateTimeSchema,
+  end: CalendarDateTimeSchema,
+});
+export type CalendarEventInput = z.infer<typeof CalendarEventInputSchema>;
+
+export const CreateCalendarEventSchema = CalendarEventInputSchema.extend({
+  calendarId: z.string().optional().default('primary'),
+});
+export type CreateCalendarEvent = z.infer<typeof CreateCalendarEventSchema>;
+
+export const UpdateCalendarEventSchema = z.object({
+  id: z.string().min(1),
+  calendarId: z.string().optional().default('primary'),
+  data: CalendarEventInputSchema.partial(),
+});
+export type UpdateCalendarEvent = z.infer<typeof UpdateCalendarEventSchema>;
+
+export const DeleteCalendarEventSchema = z.object({
+  id: z.string().min(1),
+  calendarId: z.string().optional().default('primary'),
+});
+export type DeleteCalendarEvent = z.infer<typeof DeleteCalendarEventSchema>;
+
+// =============================================================================
+// TASK TIME BLOCKS
+// =============================================================================
+
+/** A focus block booked for an item, kept in the item's metadata.calendarBlock */
+export const CalendarBlockSchema = z.object({
+  eventId: z.string(),
+  calendarId: z.string(),
+  start: z.string(), // ISO datetime
+  end: z.string(),
+});
+export type CalendarBlock = z.infer<typeof CalendarBlockSchema>;
+
+export const ScheduleBlockSchema = z.object({
+  id: z.union([z.number(), z.string()]),
+  start: CalendarDateTimeSchema,
+  minutes: z.number().int().positive().max(24 * 60).optional(), // Default: the item's estimate, else 60
+  calendarId: z.string().optional(), // Default: the first configured calendar
+});
+export type ScheduleBlock = z.infer<typeof ScheduleBlockSchema>;
+
 // =============================================================================
 // RESPONSE SCHEMAS
 // =============================================================================
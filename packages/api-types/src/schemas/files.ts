@@ -94,6 +94,51 @@ export const FileContentSchema = z.object({
 
 export type FileContent = z.infer<typeof FileContentSchema>;
 
+// =============================================================================
+// EDITING & REVISIONS
+// =============================================================================
+
+/** A file as loaded into the editor: the raw text plus the hash to save against */
+export const FileReadResultSchema = z.object({
+  path: z.string(),
+  raw: z.string(),
+  /** SHA-256 of raw; send back as baseHash when saving */
+  hash: z.string(),
+  mtime: z.string(),
+});
+
+export type FileReadResult = z.infer<typeof FileReadResultSchema>;
+
+/**
+ * Where a revision came from: an editor save, a restore from history, or a
+ * change made outside the editor (agent, git, text editor) that was noticed
+ * before the next save overwrote it.
+ */
+export const FileRevisionSourceSchema = z.enum(['edit', 'restore', 'external']);
+export type FileRevisionSource = z.infer<typeof FileRevisionSourceSchema>;
+
+export const FileRevisionSchema = z.object({
+  /** Unique within the file */
+  id: z.string(),
+  hash: z.string(),
+  size: z.number(),
+  savedAt: z.string(),
+  source: FileRevisionSourceSchema,
+  /** Actor label of whoever saved it (null for external changes) */
+  actor: z.string().nullable(),
+});
+
+export type FileRevision = z.infer<typeof FileRevisionSchema>;
+
+export const FileSaveResultSchema = z.object({
+  path: z.string(),
+  hash: z.string(),
+  /** The revision recorded for this save (null when the content was unchanged) */
+  revision: FileRevisionSchema.nullable(),
+});
+
+export type FileSaveResult = z.infer<typeof FileSaveResultSchema>;
+
 // =============================================================================
 // INPUT SCHEMAS
 // =============================================================================
@@ -137,3 +182,33 @@ export const FileGetInputSchema = z.object({
 });
 
 export type FileGetInput = z.infer<typeof FileGetInputSchema>;
+
+export const FileSaveInputSchema = z.object({
+  /** File path (relative to KB root) */
+  path: z.string().min(1),
+  /** Full raw content to write */
+  content: z.string(),
+  /**
+   * Hash the client loaded (FileReadResult.hash). The save is rejected with
+   * CONFLICT if the file has changed since. null means "create, must not
+   * exist"; omit only to overwrite unconditionally.
+   */
+  baseHash: z.string().nullable().optional(),
+});
+
+export type FileSaveInput = z.infer<typeof FileSaveInputSchema>;
+
+export const FileRevisionInputSchema = z.object({
+  /** File path (relative to KB root) */
+  path: z.string().min(1),
+  revisionId: z.string().min(1),
+});
+
+export type FileRevisionInput = z.infer<typeof FileRevisionInputSchema>;
+
+export const FileRestoreInputSchema = FileRevisionInputSchema.extend({
+  /** Hash of the current file, as for FileSaveInput */
+  baseHash: z.string().optional(),
+});
+
+export type FileRestoreInput = z.infer<typeof FileRestoreInputSchema>;
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+// =============================================================================
+// IMPORT INPUT
+// =============================================================================
+
+export const ImportFormatSchema = z.enum([
+  'todoist-json', // Sync API backup or REST/v1 task list
+  'todoist-csv', // Project template export (TYPE, CONTENT, PRIORITY, INDENT, ...)
+  'csv', // Any CSV, with a column mapping
+]);
+export type ImportFormat = z.infer<typeof ImportFormatSchema>;
+
+/**
+ * Column header for each field of a generic CSV. Headers match
+ * case-insensitively; without a mapping, columns named after the fields are used.
+ */
+export const CsvColumnMappingSchema = z.object({
+  title: z.string().min(1),
+  id: z.string().optional(), // Row reference that `parent` can point at
+  description: z.string().optional(),
+  dueDate: z.string().optional(),
+  priority: z.string().optional(), // 1-4 or p1-p4
+  status: z.string().optional(),
+  project: z.string().optional(), // Project name or slug
+  owner: z.string().optional(), // Person name
+  tags: z.string().optional(), // Separated by , ; or |
+  parent: z.string().optional(), // Parent row's id, or its title
+  estimate: z.string().optional(), // Minutes
+});
+export type CsvColumnMapping = z.infer<typeof CsvColumnMappingSchema>;
+
+export const ImportInputSchema = z.object({
+  format: ImportFormatSchema,
+  content: z.string().min(1).max(5_000_000), // File contents
+  fileName: z.string().optional(), // Recorded as sourcePath; names the project for todoist-csv
+  mapping: CsvColumnMappingSchema.partial().optional(), // csv only
+  projectId: z.number().optional(), // Project for rows that don't name one
+  orgSlug: z.string().optional(), // Organization to match and create projects in
+  createMissing: z.boolean().default(true), // Create unknown projects, people and tags
+});
+export type ImportInput = z.infer<typeof ImportInputSchema>;
+
+// =============================================================================
+// PREVIEW / RESULT
+// =============================================================================
+
+export const ImportRowSchema = z.object({
+  row: z.number(), // 1-based position in the file
+  ref: z.string(), // Source id, or row number
+  title: z.string(),
+  description: z.string().nullable(),
+  dueDate: z.string().nullable(), // YYYY-MM-DD
+  priority: z.number().nullable(),
+  status: z.string(),
+  estimateMinutes: z.number().nullable(),
+  project: z.string().nullable(), // Resolved or to-be-created project name
+  owner: z.string().nullable(),
+  tags: z.array(z.string()),
+  parent: z.string().nullable(), // Parent's title
+  action: z.enum(['create', 'duplicate']),
+  duplicateOf: z.string().nullable(), // Display id of the existing item, or the earlier row
+});
+export type ImportRow = z.infer<typeof ImportRowSchema>;
+
+export const ImportPreviewSchema = z.object({
+  format: ImportFormatSchema,
+  rows: z.array(ImportRowSchema),
+  toCreate: z.object({
+    items: z.number(),
+    projects: z.array(z.string()),
+    people: z.array(z.string()),
+    tags: z.array(z.string()),
+  }),
+  duplicates: z.number(),
+  warnings: z.array(z.string()),
+});
+export type ImportPreview = z.infer<typeof ImportPreviewSchema>;
+
+export const ImportResultSchema = ImportPreviewSchema.extend({
+  ids: z.array(z.number()),
+  displayIds: z.array(z.string()),
+});
+export type ImportResult = z.infer<typeof ImportResultSchema>;
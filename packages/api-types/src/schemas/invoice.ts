@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+// =============================================================================
+// INVOICE SCHEMAS
+// =============================================================================
+
+export const InvoiceStatusSchema = z.enum(['draft', 'sent', 'paid']);
+export type InvoiceStatus = z.infer<typeof InvoiceStatusSchema>;
+
+/**
+ * One billed line, built from a timecard row (one day's work for the client)
+ */
+export const InvoiceLineItemSchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  description: z.string(),
+  hours: z.number(),
+  rate: z.number(),
+  amount: z.number(),
+});
+export type InvoiceLineItem = z.infer<typeof InvoiceLineItemSchema>;
+
+export const InvoiceSchema = z.object({
+  id: z.number(),
+  number: z.string(), // INV-2026-001
+  orgSlug: z.string(),
+  orgName: z.string(),
+  month: z.string(), // YYYY-MM
+  status: InvoiceStatusSchema,
+  currency: z.string(),
+  hourlyRate: z.number(),
+  lineItems: z.array(InvoiceLineItemSchema),
+  totalHours: z.number(),
+  subtotal: z.number(),
+  vatRate: z.number().nullable(), // Percent, e.g. 20
+  vatAmount: z.number(),
+  total: z.number(),
+  notes: z.string().nullable(),
+  issueDate: z.string(),
+  dueDate: z.string(),
+  sentAt: z.string().nullable(),
+  paidAt: z.string().nullable(),
+  markdownPath: z.string().nullable(),
+  htmlPath: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type Invoice = z.infer<typeof InvoiceSchema>;
+
+export const GenerateInvoiceSchema = z.object({
+  /** Organization slug (the timecard "client") */
+  org: z.string(),
+  /** Month to bill, YYYY-MM */
+  month: z.string().regex(/^\d{4}-\d{2}$/, 'Month must be YYYY-MM'),
+  /** Where hours come from; see timecard.list */
+  source: z.enum(['csv', 'db', 'all']).optional().default('all'),
+  /** VAT percentage to add; omit for no VAT */
+  vatRate: z.number().min(0).max(100).optional(),
+  /** Payment terms in days from the issue date */
+  dueDays: z.number().int().min(0).optional().default(30),
+  notes: z.string().optional(),
+});
+export type GenerateInvoice = z.infer<typeof GenerateInvoiceSchema>;
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { ItemPersonRoleSchema } from './enums.js';
+
+// =============================================================================
+// ITEM TEMPLATE SCHEMAS
+// =============================================================================
+
+export const ItemTemplatePersonSchema = z.object({
+  name: z.string().min(1), // Person name, resolved when the template is used
+  role: ItemPersonRoleSchema,
+});
+export type ItemTemplatePerson = z.infer<typeof ItemTemplatePersonSchema>;
+
+export const ItemTemplateCheckinSchema = z.object({
+  offset: z.number().int(), // Days from the anchor date
+  note: z.string().optional(),
+});
+export type ItemTemplateCheckin = z.infer<typeof ItemTemplateCheckinSchema>;
+
+/**
+ * One task in a template. Dates are offsets in days from the anchor date
+ * chosen when the template is used (negative = before it).
+ */
+export interface ItemTemplateStep {
+  title: string;
+  description?: string;
+  priority?: number;
+  dueOffset?: number;
+  owner?: string;
+  tags?: string[];
+  people?: ItemTemplatePerson[];
+  checkins?: ItemTemplateCheckin[];
+  subtasks?: ItemTemplateStep[];
+}
+
+export const ItemTemplateStepSchema: z.ZodType<ItemTemplateStep> = z.lazy(() =>
+  z.object({
+    title: z.string().min(1),
+    description: z.string().optional(),
+    priority: z.number().int().min(1).max(4).optional(),
+    dueOffset: z.number().int().optional(),
+    owner: z.string().min(1).optional(),
+    tags: z.array(z.string().min(1)).optional(),
+    people: z.array(ItemTemplatePersonSchema).optional(),
+    checkins: z.array(ItemTemplateCheckinSchema).optional(),
+    subtasks: z.array(ItemTemplateStepSchema).optional(),
+  })
+);
+
+export const ItemTemplateSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  root: ItemTemplateStepSchema, // The parent task; its subtasks form the checklist
+  itemCount: z.number(), // Tasks created per use, including the parent
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type ItemTemplate = z.infer<typeof ItemTemplateSchema>;
+
+export const CreateItemTemplateSchema = z.object({
+  name: z.string().min(1).max(60),
+  description: z.string().optional(),
+  root: ItemTemplateStepSchema,
+});
+export type CreateItemTemplate = z.infer<typeof CreateItemTemplateSchema>;
+
+export const UpdateItemTemplateSchema = z.object({
+  name: z.string().min(1).max(60).optional(),
+  description: z.string().nullable().optional(),
+  root: ItemTemplateStepSchema.optional(),
+});
+export type UpdateItemTemplate = z.infer<typeof UpdateItemTemplateSchema>;
+
+// =============================================================================
+// INSTANTIATE
+// =============================================================================
+
+export const InstantiateItemTemplateSchema = z.object({
+  templateId: z.number().optional(),
+  templateName: z.string().optional(),
+  projectId: z.number().nullable().optional(),
+  anchorDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Anchor date must be YYYY-MM-DD').optional(), // Defaults to today
+  title: z.string().min(1).optional(), // Replaces the parent task's title
+});
+export type InstantiateItemTemplate = z.infer<typeof InstantiateItemTemplateSchema>;
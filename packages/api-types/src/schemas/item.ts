@@ -34,6 +34,7 @@ export const ItemSchema = z.object({
   // Timing
   dueDate: z.string().nullable().optional(), // YYYY-MM-DD
   targetPeriod: TargetPeriodSchema,
+  estimateMinutes: z.number().int().positive().nullable().optional(), // Expected effort
 
   // Relationships (IDs)
   ownerId: z.number().nullable().optional(),
@@ -115,6 +116,7 @@ export const CreateItemSchema = z.object({
   priority: z.number().min(1).max(4).nullable().optional(),
   dueDate: z.string().nullable().optional(),
   targetPeriod: TargetPeriodSchema,
+  estimateMinutes: z.number().int().positive().nullable().optional(),
   ownerId: z.number().nullable().optional(),
   projectId: z.number().nullable().optional(),
   parentId: z.number().nullable().optional(),
@@ -218,6 +220,40 @@ export const BlockerInfoSchema = z.object({
 });
 export type BlockerInfo = z.infer<typeof BlockerInfoSchema>;
 
+// =============================================================================
+// DEPENDENCY GRAPH (transitive "blocks" links with critical path)
+// =============================================================================
+
+export const DependencyGraphNodeSchema = z.object({
+  id: z.number(),
+  displayId: z.string(),
+  title: z.string(),
+  status: z.string(),
+  dueDate: z.string().nullable(), // YYYY-MM-DD
+  projectId: z.number().nullable(),
+  external: z.boolean(), // Outside the project, pulled in through a link
+  done: z.boolean(), // complete or cancelled
+  earliestFinish: z.string().nullable(), // YYYY-MM-DD, null for done or cyclic items
+  latestFinish: z.string().nullable(), // YYYY-MM-DD, null when no due date or deadline applies
+  slackDays: z.number().nullable(), // latestFinish - earliestFinish; negative = already late
+  critical: z.boolean(),
+  inCycle: z.boolean(),
+});
+export type DependencyGraphNode = z.infer<typeof DependencyGraphNodeSchema>;
+
+export const DependencyGraphSchema = z.object({
+  projectId: z.number(),
+  deadline: z.string().nullable(), // YYYY-MM-DD
+  nodes: z.array(DependencyGraphNodeSchema),
+  edges: z.array(z.object({
+    from: z.number(), // Blocker
+    to: z.number(), // Blocked item
+  })),
+  criticalPath: z.array(z.number()), // Item ids, first blocker first
+  cycles: z.array(z.array(z.number())),
+});
+export type DependencyGraph = z.infer<typeof DependencyGraphSchema>;
+
 // =============================================================================
 // CHECK-IN
 // =============================================================================
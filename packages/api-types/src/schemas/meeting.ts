@@ -39,3 +39,108 @@ export const MeetingWithAttendeesSchema = MeetingSchema.extend({
   taskCount: z.number().default(0),
 });
 export type MeetingWithAttendees = z.infer<typeof MeetingWithAttendeesSchema>;
+
+// =============================================================================
+// AGENDA
+// =============================================================================
+
+export const MeetingAgendaInputSchema = z.object({
+  path: z.string().min(1), // Meeting note, relative to the knowledge base
+  dryRun: z.boolean().default(false), // Build the agenda without writing the file
+});
+export type MeetingAgendaInput = z.infer<typeof MeetingAgendaInputSchema>;
+
+export const MeetingAgendaItemSchema = z.object({
+  id: z.number().nullable(), // null for an action that was never synced to a task
+  displayId: z.string().nullable(),
+  title: z.string(),
+  status: z.string(),
+  dueDate: z.string().nullable(),
+  ownerName: z.string().nullable(),
+  projectSlug: z.string().nullable(),
+  waitingOn: z.boolean(), // Listed because the attendee is waited on, not the owner
+});
+export type MeetingAgendaItem = z.infer<typeof MeetingAgendaItemSchema>;
+
+export const MeetingAgendaSectionSchema = z.object({
+  kind: z.enum(['carryover', 'attendee', 'project']),
+  heading: z.string(),
+  items: z.array(MeetingAgendaItemSchema),
+  more: z.number(), // Open items left out to keep the section short
+});
+export type MeetingAgendaSection = z.infer<typeof MeetingAgendaSectionSchema>;
+
+export const MeetingAgendaSchema = z.object({
+  path: z.string(),
+  title: z.string(),
+  date: z.string(),
+  previousMeeting: z.object({
+    path: z.string(),
+    title: z.string(),
+    date: z.string(),
+  }).nullable(),
+  sections: z.array(MeetingAgendaSectionSchema),
+  unknownAttendees: z.array(z.string()), // Attendees with no matching person
+  markdown: z.string(), // The ## Agenda section as written
+  written: z.boolean(),
+});
+export type MeetingAgenda = z.infer<typeof MeetingAgendaSchema>;
+
+// =============================================================================
+// SERIES
+// =============================================================================
+
+export const MeetingSeriesSchema = z.object({
+  id: z.number(),
+  slug: z.string(),
+  name: z.string(),
+  orgSlug: z.string().nullable(),
+  meetingCount: z.number(),
+  firstDate: z.string().nullable(),
+  lastDate: z.string().nullable(),
+});
+export type MeetingSeries = z.infer<typeof MeetingSeriesSchema>;
+
+export const MeetingSeriesInputSchema = z.object({
+  slug: z.string().min(1),
+  org: z.string().optional(), // Org slug, needed when several orgs use the slug
+});
+export type MeetingSeriesInput = z.infer<typeof MeetingSeriesInputSchema>;
+
+export const MeetingSeriesInstanceSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  date: z.string(),
+  path: z.string(),
+  status: z.string().nullable(), // From the note; null if the file is gone
+  summary: z.string().nullable(),
+  actions: z.object({
+    total: z.number(),
+    open: z.number(),
+  }),
+});
+export type MeetingSeriesInstance = z.infer<typeof MeetingSeriesInstanceSchema>;
+
+export const MeetingSeriesTimelineSchema = MeetingSeriesSchema.extend({
+  meetings: z.array(MeetingSeriesInstanceSchema), // Oldest first
+});
+export type MeetingSeriesTimeline = z.infer<typeof MeetingSeriesTimelineSchema>;
+
+export const CreateNextMeetingInputSchema = z.object({
+  path: z.string().min(1), // Any note in the series; the latest one is copied
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Default: same gap as the last two
+  dryRun: z.boolean().default(false),
+});
+export type CreateNextMeetingInput = z.infer<typeof CreateNextMeetingInputSchema>;
+
+export const CreateNextMeetingResultSchema = z.object({
+  path: z.string(),
+  title: z.string(),
+  date: z.string(),
+  series: z.string(),
+  previousPath: z.string(),
+  carriedOver: z.array(MeetingAgendaItemSchema), // Open actions listed in the new note
+  content: z.string(),
+  created: z.boolean(),
+});
+export type CreateNextMeetingResult = z.infer<typeof CreateNextMeetingResultSchema>;
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+// =============================================================================
+// CAPACITY
+// =============================================================================
+
+export const DayCapacitySchema = z.object({
+  weekday: z.number().int().min(0).max(6), // 0 = Sunday ... 6 = Saturday
+  minutes: z.number().int().min(0).max(24 * 60), // Working time, meetings included
+});
+export type DayCapacity = z.infer<typeof DayCapacitySchema>;
+
+export const SetCapacitySchema = z.object({
+  days: z.array(DayCapacitySchema).min(1),
+});
+export type SetCapacity = z.infer<typeof SetCapacitySchema>;
+
+// =============================================================================
+// WEEK PLAN
+// =============================================================================
+
+export const PlanningWeekInputSchema = z.object({
+  start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start must be YYYY-MM-DD').optional(), // Defaults to today
+  days: z.number().int().min(1).max(14).default(7),
+  owner: z.string().optional(), // Person name; tasks and routines only, default everyone
+});
+export type PlanningWeekInput = z.infer<typeof PlanningWeekInputSchema>;
+
+export const PlannedTaskSchema = z.object({
+  id: z.number(),
+  displayId: z.string(),
+  title: z.string(),
+  status: z.string(),
+  priority: z.number().nullable(),
+  projectName: z.string().nullable(),
+  estimateMinutes: z.number().nullable(),
+  minutes: z.number(), // estimateMinutes, or the default when unestimated
+});
+export type PlannedTask = z.infer<typeof PlannedTaskSchema>;
+
+export const PlannedCheckinSchema = z.object({
+  id: z.number(), // Item ID
+  displayId: z.string(),
+  title: z.string(),
+  checkinId: z.number(),
+  minutes: z.number(),
+});
+export type PlannedCheckin = z.infer<typeof PlannedCheckinSchema>;
+
+export const PlannedRoutineSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  recurrenceTime: z.string().nullable(),
+  minutes: z.number(),
+});
+export type PlannedRoutine = z.infer<typeof PlannedRoutineSchema>;
+
+export const PlanDaySchema = z.object({
+  date: z.string(), // YYYY-MM-DD
+  weekday: z.number(),
+  capacityMinutes: z.number(),
+  busyMinutes: z.number(), // Calendar events
+  plannedMinutes: z.number(), // Tasks, check-ins and routines
+  freeMinutes: z.number(), // Negative when overloaded
+  overloaded: z.boolean(),
+  tasks: z.array(PlannedTaskSchema),
+  checkins: z.array(PlannedCheckinSchema),
+  routines: z.array(PlannedRoutineSchema),
+});
+export type PlanDay = z.infer<typeof PlanDaySchema>;
+
+export const PlanSuggestionSchema = z.object({
+  itemId: z.number(),
+  displayId: z.string(),
+  title: z.string(),
+  priority: z.number().nullable(),
+  minutes: z.number(),
+  from: z.string(), // YYYY-MM-DD
+  to: z.string(), // YYYY-MM-DD
+});
+export type PlanSuggestion = z.infer<typeof PlanSuggestionSchema>;
+
+export const WeekPlanSchema = z.object({
+  start: z.string(),
+  end: z.string(), // Last day, inclusive
+  days: z.array(PlanDaySchema),
+  suggestions: z.array(PlanSuggestionSchema),
+  calendar: z.enum(['ok', 'not_configured', 'error']), // Whether busyMinutes could be filled in
+});
+export type WeekPlan = z.infer<typeof WeekPlanSchema>;
@@ -66,3 +66,44 @@ export const ProjectPathSchema = z.object({
   fullPath: z.string(), // Either "slug" or "parentSlug/slug" for subprojects
 });
 export type ProjectPath = z.infer<typeof ProjectPathSchema>;
+
+// =============================================================================
+// PROJECT TEMPLATES
+// =============================================================================
+
+export const ProjectTemplateVariableSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  required: z.boolean(),
+  default: z.string().nullable(),
+});
+export type ProjectTemplateVariable = z.infer<typeof ProjectTemplateVariableSchema>;
+
+export const ProjectTemplateSchema = z.object({
+  id: z.string(), // Folder name under templates/projects/
+  name: z.string(),
+  description: z.string().nullable(),
+  variables: z.array(ProjectTemplateVariableSchema),
+  files: z.array(z.string()), // Paths relative to the new project folder
+  taskCount: z.number(),
+});
+export type ProjectTemplate = z.infer<typeof ProjectTemplateSchema>;
+
+export const ScaffoldProjectInputSchema = z.object({
+  template: z.string().min(1),
+  org: z.string().min(1),
+  slug: z.string().min(1).regex(/^[a-z0-9-]+$/, 'Slug must be lowercase alphanumeric with hyphens'),
+  name: z.string().min(1),
+  variables: z.record(z.string()).default({}),
+});
+export type ScaffoldProjectInput = z.infer<typeof ScaffoldProjectInputSchema>;
+
+export const ScaffoldProjectResultSchema = z.object({
+  projectId: z.number(),
+  path: z.string(), // Project folder, relative to KB root
+  workstreams: z.array(z.object({ id: z.number(), slug: z.string(), name: z.string() })),
+  taskIds: z.array(z.number()),
+  files: z.array(z.string()),
+  warnings: z.array(z.string()),
+});
+export type ScaffoldProjectResult = z.infer<typeof ScaffoldProjectResultSchema>;
@@ -0,0 +1,410 @@
+import { z } from 'zod';
+import { RecurrenceRuleInputSchema, describeRRule, parseRRule } from './recurrence.js';
+
+// =============================================================================
+// QUICK-ADD
+// =============================================================================
+//
+// One-line task entry shared by the web create dialog and `tcli create`:
+//
+//   Send proposal #acme/website @bob +waiting:@carol ~sales p2 !friday ^checkin mon 45m
+//
+//   #project, #org/project   project by slug
+//   @person, @"Jane Doe"     owner (@me is left for the client to resolve)
+//   +waiting:@person         waiting on (repeatable)
+//   ~tag                     tag (repeatable)
+//   p1..p4                   priority
+//   !date                    due date
+//   ^date, ^checkin date     check-in date
+//   every <...>              recurrence, turns the task into a routine
+//   ~30m, ~1h30m             estimate
+//   30m, for 2 hours         estimate, only after the last title word
+//
+// Dates: today/tod, tomorrow/tom, weekdays (next occurrence), next <weekday>,
+// next week, in N days/weeks, jan 15, 15 jan, jan15, 2026-01-15. Bare date
+// words are left in the title ("Plan monday standup"); only the ! and ^
+// prefixes pick them up. Likewise "Raise 5m round" keeps its title: a bare
+// duration needs the ~ prefix unless no title words follow it. Names are not
+// looked up here - the server resolves and validates them (items.quickAdd).
+
+export const QuickAddTokenTypeSchema = z.enum([
+  'project',
+  'owner',
+  'waiting',
+  'tag',
+  'priority',
+  'due',
+  'checkin',
+  'recurrence',
+  'estimate',
+]);
+export type QuickAddTokenType = z.infer<typeof QuickAddTokenTypeSchema>;
+
+const DateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+export const QuickAddDraftSchema = z.object({
+  title: z.string(),
+  /** YYYY-MM-DD */
+  dueDate: DateStringSchema.nullable(),
+  priority: z.number().min(1).max(4).nullable(),
+  project: z.object({
+    org: z.string().nullable(),
+    slug: z.string().min(1),
+  }).nullable(),
+  /** Person name, or "me" */
+  owner: z.string().nullable(),
+  waitingOn: z.array(z.string().min(1)),
+  tags: z.array(z.string().min(1)),
+  /** YYYY-MM-DD */
+  checkinDate: DateStringSchema.nullable(),
+  recurrence: z.object({
+    /** RRULE text, e.g. FREQ=WEEKLY;BYDAY=MO */
+    rule: RecurrenceRuleInputSchema,
+    description: z.string(),
+  }).nullable(),
+  estimateMinutes: z.number().int().positive().nullable(),
+  /** The recognised tokens, in input order, for highlighting */
+  tokens: z.array(z.object({
+    type: QuickAddTokenTypeSchema,
+    text: z.string(),
+  })),
+});
+export type QuickAddDraft = z.infer<typeof QuickAddDraftSchema>;
+
+export interface QuickAddOptions {
+  /** Reference date for relative phrases (default: now) */
+  today?: Date;
+}
+
+const DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/** Index for "mon", "tues", "thursday"... or -1 */
+function dayIndex(word: string): number {
+  const lower = word.toLowerCase();
+  if (lower.length < 3) return -1;
+  return DAYS.findIndex(d => d.startsWith(lower));
+}
+
+function monthIndex(word: string): number {
+  const lower = word.toLowerCase();
+  if (lower.length < 3) return -1;
+  return MONTHS.findIndex(m => m.startsWith(lower));
+}
+
+/** Local YYYY-MM-DD (not toISOString, which shifts the day west of UTC) */
+export function formatLocalDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/** Next occurrence of a weekday, never today; `skipWeek` for "next friday" */
+function nextWeekday(today: Date, weekday: number, skipWeek = false): Date {
+  let days = weekday - today.getDay();
+  if (days <= 0) days += 7;
+  if (skipWeek && days < 7) days += 7;
+  return addDays(today, days);
+}
+
+/** Month/day in the coming year: a date already passed means next year */
+function upcomingMonthDay(today: Date, month: number, day: number): Date | null {
+  if (day < 1 || day > 31) return null;
+  const result = new Date(today.getFullYear(), month, day);
+  if (result.getMonth() !== month) return null;
+  if (result < today) result.setFullYear(result.getFullYear() + 1);
+  return result;
+}
+
+/**
+ * Parse a date phrase at the start of `words`. Returns the date and how many
+ * words it used, or null.
+ */
+export function parseDatePhrase(words: string[], today: Date): { date: string; length: number } | null {
+  const [first = '', second = '', third = ''] = words.map(w => w.toLowerCase());
+  const found = (date: Date | null, length: number) => (date ? { date: formatLocalDate(date), length } : null);
+
+  if (first === 'today' || first === 'tod') return found(today, 1);
+  if (first === 'tomorrow' || first === 'tom') return found(addDays(today, 1), 1);
+
+  if (first === 'next') {
+    if (second === 'week') return found(nextWeekday(today, 1), 2);
+    const day = dayIndex(second);
+    if (day !== -1) return found(nextWeekday(today, day, true), 2);
+    return null;
+  }
+
+  if (first === 'in' && /^\d+$/.test(second)) {
+    const amount = parseInt(second, 10);
+    if (/^days?$/.test(third)) return found(addDays(today, amount), 3);
+    if (/^weeks?$/.test(third)) return found(addDays(today, amount * 7), 3);
+    return null;
+  }
+
+  const weekday = dayIndex(first);
+  if (weekday !== -1) return found(nextWeekday(today, weekday), 1);
+
+  const iso = first.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return date.getMonth() === Number(iso[2]) - 1 ? found(date, 1) : null;
+  }
+
+  // jan15 / 15jan
+  const compact = first.match(/^([a-z]{3,9})(\d{1,2})$/) ?? first.match(/^(\d{1,2})([a-z]{3,9})$/);
+  if (compact) {
+    const [monthWord, dayWord] = /^\d/.test(compact[1]) ? [compact[2], compact[1]] : [compact[1], compact[2]];
+    const month = monthIndex(monthWord);
+    if (month !== -1) return found(upcomingMonthDay(today, month, parseInt(dayWord, 10)), 1);
+  }
+
+  // jan 15 / 15 jan
+  if (/^\d{1,2}$/.test(second) && monthIndex(first) !== -1) {
+    return found(upcomingMonthDay(today, monthIndex(first), parseInt(second, 10)), 2);
+  }
+  if (/^\d{1,2}$/.test(first) && monthIndex(second) !== -1) {
+    return found(upcomingMonthDay(today, monthIndex(second), parseInt(first, 10)), 2);
+  }
+
+  return null;
+}
+
+/**
+ * Parse a recurrence phrase following "every". Returns RRULE text and how
+ * many words it used, or null.
+ */
+function parseRecurrencePhrase(words: string[]): { rule: string; length: number } | null {
+  const lower = words.map(w => w.toLowerCase().replace(/,$/, ''));
+  const units: Record<string, string> = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' };
+  const unitOf = (word: string | undefined) => (word ? units[word.replace(/s$/, '')] : undefined);
+
+  if (/^weekdays?$/.test(lower[0])) return { rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', length: 1 };
+  if (/^weekends?$/.test(lower[0])) return { rule: 'FREQ=WEEKLY;BYDAY=SA,SU', length: 1 };
+
+  const single = unitOf(lower[0]);
+  if (single && !lower[0].endsWith('s')) return { rule: `FREQ=${single}`, length: 1 };
+
+  if (lower[0] === 'other' && unitOf(lower[1])) {
+    return { rule: `FREQ=${unitOf(lower[1])};INTERVAL=2`, length: 2 };
+  }
+
+  if (/^\d+$/.test(lower[0]) && unitOf(lower[1])) {
+    const interval = parseInt(lower[0], 10);
+    if (interval < 1) return null;
+    return { rule: interval === 1 ? `FREQ=${unitOf(lower[1])}` : `FREQ=${unitOf(lower[1])};INTERVAL=${interval}`, length: 2 };
+  }
+
+  // every 15th -> monthly on that day
+  const monthDay = lower[0].match(/^(\d{1,2})(st|nd|rd|th)$/);
+  if (monthDay && Number(monthDay[1]) >= 1 && Number(monthDay[1]) <= 31) {
+    return { rule: `FREQ=MONTHLY;BYMONTHDAY=${Number(monthDay[1])}`, length: 1 };
+  }
+
+  // every mon, every mon and thu, every mon,wed,fri
+  const days: number[] = [];
+  let length = 0;
+  for (let i = 0; i < lower.length; i++) {
+    const parts = lower[i].split(',').filter(Boolean);
+    if (lower[i] === 'and' && days.length > 0 && i + 1 < lower.length && dayIndex(lower[i + 1]) !== -1) continue;
+    const indexes = parts.map(dayIndex);
+    if (parts.length === 0 || indexes.includes(-1)) break;
+    days.push(...indexes);
+    length = i + 1;
+  }
+  if (days.length > 0) {
+    const unique = [...new Set(days)].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    return { rule: `FREQ=WEEKLY;BYDAY=${unique.map(d => WEEKDAY_CODES[d]).join(',')}`, length };
+  }
+
+  return null;
+}
+
+/** "45m", "1h", "1h30m", "1.5h", "90min" -> minutes */
+function parseCompactDuration(word: string): number | null {
+  const match = word.toLowerCase().match(/^(?:(\d+(?:\.\d+)?)h(?:rs?)?)?(?:(\d+)m(?:ins?)?)?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const minutes = Math.round(Number(match[1] ?? 0) * 60) + Number(match[2] ?? 0);
+  return minutes > 0 ? minutes : null;
+}
+
+/** "2 hours", "30 minutes", "45 mins" -> minutes */
+function parseSpelledDuration(amount: string, unit: string): number | null {
+  if (!/^\d+(\.\d+)?$/.test(amount)) return null;
+  const value = Number(amount);
+  if (/^(hours?|hrs?)$/i.test(unit)) return Math.round(value * 60) || null;
+  if (/^(minutes?|mins?)$/i.test(unit)) return Math.round(value) || null;
+  return null;
+}
+
+/** Split on whitespace, keeping @"Two Words" style quoted names together */
+function tokenize(input: string): string[] {
+  return input.match(/(?:\+waiting:@|[@#~])"[^"]*"|\S+/g) ?? [];
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*)"$/, '$1').trim();
+}
+
+/**
+ * Parse a quick-add line into a task draft. Unrecognised words make up the
+ * title; the first project/owner/due/check-in/priority token wins, later ones
+ * stay in the title.
+ */
+export function parseQuickAdd(input: string, options: QuickAddOptions = {}): QuickAddDraft {
+  const today = new Date(options.today ?? new Date());
+  today.setHours(0, 0, 0, 0);
+
+  const draft: QuickAddDraft = {
+    title: '',
+    dueDate: null,
+    priority: null,
+    project: null,
+    owner: null,
+    waitingOn: [],
+    tags: [],
+    checkinDate: null,
+    recurrence: null,
+    estimateMinutes: null,
+    tokens: [],
+  };
+
+  const words = tokenize(input);
+  const titleWords: string[] = [];
+  let i = 0;
+
+  const take = (type: QuickAddTokenType, length: number) => {
+    draft.tokens.push({ type, text: words.slice(i, i + length).join(' ') });
+    i += length;
+  };
+
+  // A bare estimate, given back to the title if a title word follows it
+  let bareEstimate: { token: number; words: string[] } | null = null;
+  const dropBareEstimate = () => {
+    if (!bareEstimate) return;
+    titleWords.push(...bareEstimate.words);
+    draft.tokens.splice(bareEstimate.token, 1);
+    draft.estimateMinutes = null;
+    bareEstimate = null;
+  };
+
+  while (i < words.length) {
+    const word = words[i];
+    const lower = word.toLowerCase();
+
+    const waiting = word.match(/^\+waiting:@(.+)$/i);
+    if (waiting && unquote(waiting[1])) {
+      draft.waitingOn.push(unquote(waiting[1]));
+      take('waiting', 1);
+      continue;
+    }
+
+    const project = word.match(/^#([\w-]+)(?:\/([\w-]+))?$/);
+    if (project && !draft.project) {
+      draft.project = project[2]
+        ? { org: project[1].toLowerCase(), slug: project[2].toLowerCase() }
+        : { org: null, slug: project[1].toLowerCase() };
+      take('project', 1);
+      continue;
+    }
+
+    const owner = word.match(/^@(.+)$/);
+    if (owner && unquote(owner[1]) && !draft.owner) {
+      draft.owner = unquote(owner[1]);
+      take('owner', 1);
+      continue;
+    }
+
+    const prefixed = word.startsWith('~') ? parseCompactDuration(word.slice(1)) : null;
+    if (prefixed && (draft.estimateMinutes === null || bareEstimate)) {
+      dropBareEstimate();
+      draft.estimateMinutes = prefixed;
+      take('estimate', 1);
+      continue;
+    }
+
+    const tag = word.match(/^~(.+)$/);
+    if (tag && unquote(tag[1]) && !prefixed) {
+      const name = unquote(tag[1]);
+      if (!draft.tags.includes(name)) draft.tags.push(name);
+      take('tag', 1);
+      continue;
+    }
+
+    if (/^p[1-4]$/i.test(word) && draft.priority === null) {
+      draft.priority = Number(word[1]);
+      take('priority', 1);
+      continue;
+    }
+
+    if (word.startsWith('!') && word.length > 1 && !draft.dueDate) {
+      const phrase = parseDatePhrase([word.slice(1), ...words.slice(i + 1)], today);
+      if (phrase) {
+        draft.dueDate = phrase.date;
+        take('due', phrase.length);
+        continue;
+      }
+    }
+
+    if (word.startsWith('^') && word.length > 1 && !draft.checkinDate) {
+      const rest = word.slice(1);
+      const explicit = /^check-?in$/i.test(rest);
+      const phrase = explicit
+        ? parseDatePhrase(words.slice(i + 1), today)
+        : parseDatePhrase([rest, ...words.slice(i + 1)], today);
+      if (phrase) {
+        draft.checkinDate = phrase.date;
+        take('checkin', phrase.length + (explicit ? 1 : 0));
+        continue;
+      }
+    }
+
+    if (lower === 'every' && !draft.recurrence) {
+      const phrase = parseRecurrencePhrase(words.slice(i + 1));
+      const parsed = phrase ? parseRRule(phrase.rule) : null;
+      if (phrase && parsed?.rule) {
+        draft.recurrence = { rule: phrase.rule, description: describeRRule(parsed.rule) };
+        take('recurrence', phrase.length + 1);
+        continue;
+      }
+    }
+
+    if (draft.estimateMinutes === null) {
+      if (lower === 'for' && i + 1 < words.length) {
+        const compact = parseCompactDuration(words[i + 1]);
+        const spelled = i + 2 < words.length ? parseSpelledDuration(words[i + 1], words[i + 2]) : null;
+        if (compact || spelled) {
+          const length = compact ? 2 : 3;
+          bareEstimate = { token: draft.tokens.length, words: words.slice(i, i + length) };
+          draft.estimateMinutes = compact ?? spelled;
+          take('estimate', length);
+          continue;
+        }
+      }
+      const compact = parseCompactDuration(word);
+      if (compact) {
+        bareEstimate = { token: draft.tokens.length, words: [word] };
+        draft.estimateMinutes = compact;
+        take('estimate', 1);
+        continue;
+      }
+    }
+
+    dropBareEstimate();
+    titleWords.push(word);
+    i++;
+  }
+
+  draft.title = titleWords.join(' ').trim();
+  return draft;
+}
@@ -0,0 +1,426 @@
+import { z } from 'zod';
+import { RecurrenceRuleSchema } from './routine.js';
+
+// =============================================================================
+// RRULE (RFC 5545 subset)
+// =============================================================================
+//
+// Routines store either a legacy keyword (daily, weekly, ...) or RRULE text
+// in recurrenceRule. RRULE text may span lines:
+//
+//   DTSTART:20260105
+//   RRULE:FREQ=WEEKLY;INTERVAL=3;BYDAY=MO
+//   EXDATE:20260126,20260216
+//
+// A bare "FREQ=..." line is also accepted. Rules are date-based, so
+// FREQ=HOURLY/MINUTELY/SECONDLY and BYHOUR/BYMINUTE/BYSECOND/BYWEEKNO/
+// BYYEARDAY are rejected. Without DTSTART, the routine's creation date is
+// the start. YEARLY rules without BYMONTH repeat in DTSTART's month.
+
+export const RRuleFrequencySchema = z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']);
+export type RRuleFrequency = z.infer<typeof RRuleFrequencySchema>;
+
+/** Weekday as in Date.getDay() (0=Sun), with an optional ordinal (2TU = 2nd Tuesday, -1FR = last Friday) */
+export interface RRuleWeekday {
+  weekday: number;
+  n: number | null;
+}
+
+export interface ParsedRRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count: number | null;
+  /** YYYY-MM-DD, inclusive */
+  until: string | null;
+  byDay: RRuleWeekday[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  /** Week start for WEEKLY intervals (0=Sun), default Monday */
+  weekStart: number;
+  /** YYYY-MM-DD */
+  dtstart: string | null;
+  /** YYYY-MM-DD dates excluded from the set */
+  exdates: string[];
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const UNSUPPORTED_PARTS = ['BYHOUR', 'BYMINUTE', 'BYSECOND', 'BYWEEKNO', 'BYYEARDAY'];
+
+/**
+ * True when a recurrenceRule value is RRULE text rather than a legacy keyword
+ */
+export function isRRuleText(value: string | null | undefined): boolean {
+  if (!value) return false;
+  return /^\s*(RRULE:|FREQ=|DTSTART|EXDATE)/i.test(value);
+}
+
+/**
+ * Accept 20260105, 20260105T090000[Z] or 2026-01-05; return YYYY-MM-DD
+ */
+function parseRRuleDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})(T\d{6}Z?)?$/i);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  const date = new Date(Number(y), Number(m) - 1, Number(d));
+  if (date.getMonth() !== Number(m) - 1) return null;
+  return `${y}-${m}-${d}`;
+}
+
+function parseIntList(value: string, min: number, max: number, allowNegative: boolean): number[] | null {
+  const nums = value.split(',').map(v => Number(v.trim()));
+  const valid = nums.every(n =>
+    Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max && (allowNegative || n > 0)
+  );
+  return valid ? nums : null;
+}
+
+function parseRulePart(body: string, rule: Partial<ParsedRRule>, errors: string[]) {
+  for (const part of body.split(';').map(p => p.trim()).filter(Boolean)) {
+    const [rawKey, value = ''] = part.split('=');
+    const key = rawKey.toUpperCase();
+
+    if (UNSUPPORTED_PARTS.includes(key)) {
+      errors.push(`${key} is not supported (routines recur by date)`);
+      continue;
+    }
+
+    switch (key) {
+      case 'FREQ': {
+        const freq = RRuleFrequencySchema.safeParse(value.toUpperCase());
+        if (freq.success) {
+          rule.freq = freq.data;
+        } else {
+          errors.push(`FREQ=${value} is not supported (use DAILY, WEEKLY, MONTHLY or YEARLY)`);
+        }
+        break;
+      }
+      case 'INTERVAL': {
+        const n = Number(value);
+        if (Number.isInteger(n) && n >= 1) rule.interval = n;
+        else errors.push(`INTERVAL must be a positive integer, got "${value}"`);
+        break;
+      }
+      case 'COUNT': {
+        const n = Number(value);
+        if (Number.isInteger(n) && n >= 1) rule.count = n;
+        else errors.push(`COUNT must be a positive integer, got "${value}"`);
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseRRuleDate(value);
+        if (until) rule.until = until;
+        else errors.push(`UNTIL must be a date (YYYYMMDD), got "${value}"`);
+        break;
+      }
+      case 'BYDAY': {
+        const days: RRuleWeekday[] = [];
+        for (const token of value.split(',')) {
+          const match = token.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          const n = match?.[1] ? Number(match[1]) : null;
+          if (!match || n === 0 || (n !== null && Math.abs(n) > 53)) {
+            errors.push(`Invalid BYDAY value "${token}"`);
+            continue;
+          }
+          days.push({ weekday: WEEKDAY_CODES.indexOf(match[2]), n });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseIntList(value, 1, 31, true);
+        if (days) rule.byMonthDay = days;
+        else errors.push(`BYMONTHDAY must be 1-31 or -1 to -31, got "${value}"`);
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntList(value, 1, 12, false);
+        if (months) rule.byMonth = months;
+        else errors.push(`BYMONTH must be 1-12, got "${value}"`);
+        break;
+      }
+      case 'BYSETPOS': {
+        const positions = parseIntList(value, 1, 366, true);
+        if (positions) rule.bySetPos = positions;
+        else errors.push(`BYSETPOS must be non-zero integers, got "${value}"`);
+        break;
+      }
+      case 'WKST': {
+        const index = WEEKDAY_CODES.indexOf(value.toUpperCase());
+        if (index >= 0) rule.weekStart = index;
+        else errors.push(`Invalid WKST value "${value}"`);
+        break;
+      }
+      default:
+        errors.push(`Unknown RRULE part "${key}"`);
+    }
+  }
+}
+
+/**
+ * Parse RRULE text (with optional DTSTART and EXDATE lines).
+ * Returns null with errors when the rule is invalid or unsupported.
+ */
+export function parseRRule(text: string): { rule: ParsedRRule | null; errors: string[] } {
+  const errors: string[] = [];
+  const rule: Partial<ParsedRRule> = {};
+  const exdates: string[] = [];
+  let dtstart: string | null = null;
+
+  for (const rawLine of text.split(/\r?\n/).map(l => l.trim()).filter(Boolean)) {
+    // Drop property parameters, e.g. "DTSTART;VALUE=DATE:20260105"
+    const colon = rawLine.indexOf(':');
+    const name = colon >= 0 ? rawLine.slice(0, colon).split(';')[0].toUpperCase() : 'RRULE';
+    const value = colon >= 0 ? rawLine.slice(colon + 1) : rawLine;
+
+    if (name === 'RRULE') {
+      parseRulePart(value, rule, errors);
+    } else if (name === 'DTSTART') {
+      dtstart = parseRRuleDate(value);
+      if (!dtstart) errors.push(`DTSTART must be a date (YYYYMMDD), got "${value}"`);
+    } else if (name === 'EXDATE') {
+      for (const v of value.split(',')) {
+        const date = parseRRuleDate(v);
+        if (date) exdates.push(date);
+        else errors.push(`EXDATE must be dates (YYYYMMDD), got "${v}"`);
+      }
+    } else {
+      errors.push(`Unknown line "${name}"`);
+    }
+  }
+
+  if (!rule.freq) errors.push('FREQ is required');
+  if (rule.count && rule.until) errors.push('COUNT and UNTIL cannot both be set');
+  if (rule.bySetPos && !rule.byDay && !rule.byMonthDay) {
+    errors.push('BYSETPOS needs BYDAY or BYMONTHDAY');
+  }
+  if (rule.freq === 'WEEKLY' && rule.byMonthDay) {
+    errors.push('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+  }
+  if (rule.byDay?.some(d => d.n !== null) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+    errors.push('Numbered BYDAY values (e.g. 2TU) need FREQ=MONTHLY or FREQ=YEARLY');
+  }
+
+  if (errors.length > 0) {
+    return { rule: null, errors };
+  }
+
+  return {
+    rule: {
+      freq: rule.freq!,
+      interval: rule.interval ?? 1,
+      count: rule.count ?? null,
+      until: rule.until ?? null,
+      byDay: rule.byDay ?? [],
+      byMonthDay: rule.byMonthDay ?? [],
+      byMonth: rule.byMonth ?? [],
+      bySetPos: rule.bySetPos ?? [],
+      weekStart: rule.weekStart ?? 1,
+      dtstart,
+      exdates,
+    },
+    errors,
+  };
+}
+
+// =============================================================================
+// HUMAN-READABLE DESCRIPTIONS
+// =============================================================================
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+function ordinal(n: number): string {
+  if (n === -1) return 'last';
+  if (n < -1) return `${ordinal(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+function joinList(parts: string[], conjunction = 'and'): string {
+  if (parts.length <= 1) return parts[0] ?? '';
+  return `${parts.slice(0, -1).join(', ')} ${conjunction} ${parts[parts.length - 1]}`;
+}
+
+function formatDay(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return `${MONTH_NAMES[m - 1].slice(0, 3)} ${d}, ${y}`;
+}
+
+function describeWeekdays(days: RRuleWeekday[]): string {
+  const set = days.map(d => d.weekday).sort((a, b) => a - b).join(',');
+  if (set === '1,2,3,4,5') return 'weekday';
+  if (set === '0,6') return 'weekend day';
+  if (set === '0,1,2,3,4,5,6') return 'day';
+  return joinList(days.map(d => DAY_NAMES[d.weekday]), 'or');
+}
+
+function describeMonthPart(rule: ParsedRRule): string | null {
+  const positioned = rule.byDay.filter(d => d.n !== null);
+
+  if (rule.bySetPos.length > 0 && rule.byDay.length > 0) {
+    return `the ${joinList(rule.bySetPos.map(ordinal))} ${describeWeekdays(rule.byDay)}`;
+  }
+  if (positioned.length > 0) {
+    return joinList(positioned.map(d => `the ${ordinal(d.n!)} ${DAY_NAMES[d.weekday]}`));
+  }
+  if (rule.byMonthDay.length > 0) {
+    const days = rule.byMonthDay.map(d => (d === -1 ? 'last day' : ordinal(d)));
+    const prefix = rule.bySetPos.length > 0 ? `the ${joinList(rule.bySetPos.map(ordinal))} of ` : '';
+    return `${prefix}the ${joinList(days)}`;
+  }
+  if (rule.byDay.length > 0) {
+    return `every ${describeWeekdays(rule.byDay)}`;
+  }
+  return null;
+}
+
+const FREQ_UNITS: Record<RRuleFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+/**
+ * Describe a parsed RRULE in plain English, e.g.
+ * "Every month on the last weekday" or "Every 3 weeks on Monday, 10 times"
+ */
+export function describeRRule(rule: ParsedRRule): string {
+  const unit = FREQ_UNITS[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  const months = rule.byMonth.map(m => MONTH_NAMES[m - 1]);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      if (rule.byDay.length > 0) {
+        text = rule.interval === 1
+          ? `Every ${describeWeekdays(rule.byDay)}`
+          : `${text}, on ${joinList(rule.byDay.map(d => DAY_NAMES[d.weekday]), 'or')}`;
+      }
+      if (rule.byMonthDay.length > 0) text += ` on the ${joinList(rule.byMonthDay.map(ordinal))}`;
+      if (months.length > 0) text += ` in ${joinList(months)}`;
+      break;
+
+    case 'WEEKLY':
+      if (rule.byDay.length > 0) text += ` on ${joinList(rule.byDay.map(d => DAY_NAMES[d.weekday]))}`;
+      if (months.length > 0) text += ` in ${joinList(months)}`;
+      break;
+
+    case 'MONTHLY': {
+      const part = describeMonthPart(rule);
+      if (part) text += ` on ${part}`;
+      if (months.length > 0) text += ` in ${joinList(months)}`;
+      break;
+    }
+
+    case 'YEARLY': {
+      const part = describeMonthPart(rule);
+      if (months.length > 0) text += ` in ${joinList(months)}`;
+      if (part) text += ` on ${part}`;
+      break;
+    }
+  }
+
+  if (rule.dtstart) text += `, starting ${formatDay(rule.dtstart)}`;
+  if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  if (rule.until) text += `, until ${formatDay(rule.until)}`;
+  if (rule.exdates.length > 0) text += ` (except ${joinList(rule.exdates.map(formatDay))})`;
+
+  return text;
+}
+
+const SHORT_DAYS: Record<string, string> = {
+  sun: 'Sunday', mon: 'Monday', tue: 'Tuesday', wed: 'Wednesday',
+  thu: 'Thursday', fri: 'Friday', sat: 'Saturday',
+};
+
+function parseJsonArray(value: string | null | undefined): (string | number)[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Describe any routine recurrence (legacy keyword or RRULE) in plain English.
+ * recurrenceDays/recurrenceMonths are the JSON strings stored on the routine.
+ */
+export function describeRecurrence(routine: {
+  recurrenceRule: string | null;
+  recurrenceDays?: string | null;
+  recurrenceMonths?: string | null;
+  recurrenceTime?: string | null;
+}): string {
+  const rule = routine.recurrenceRule ?? 'daily';
+  const days = parseJsonArray(routine.recurrenceDays);
+  const months = parseJsonArray(routine.recurrenceMonths).map(Number);
+  let text: string;
+
+  if (isRRuleText(rule)) {
+    const parsed = parseRRule(rule);
+    text = parsed.rule ? describeRRule(parsed.rule) : `Invalid rule: ${parsed.errors[0]}`;
+  } else {
+    switch (rule) {
+      case 'daily':
+        text = 'Every day';
+        break;
+      case 'weekly':
+        text = days.length > 0
+          ? `Every week on ${joinList(days.map(d => SHORT_DAYS[String(d).toLowerCase().slice(0, 3)] ?? String(d)))}`
+          : 'Every week on Monday';
+        break;
+      case 'monthly':
+        text = days.length > 0
+          ? `Every month on the ${joinList(days.map(d => ordinal(Number(d))))}`
+          : 'Every month on the 1st';
+        break;
+      case 'bimonthly':
+        text = months.length > 0
+          ? `On the 1st of ${joinList(months.map(m => MONTH_NAMES[m - 1]))}`
+          : 'Every other month on the 1st';
+        break;
+      case 'yearly':
+        text = days.length === 2
+          ? `Every year on ${MONTH_NAMES[Number(days[0]) - 1]} ${days[1]}`
+          : 'Every year';
+        break;
+      case 'custom':
+        text = days.length > 0 ? `On ${joinList(days.map(d => formatDay(String(d))))}` : 'On specific dates';
+        break;
+      default:
+        text = rule;
+    }
+  }
+
+  return routine.recurrenceTime ? `${text} at ${routine.recurrenceTime}` : text;
+}
+
+// =============================================================================
+// INPUT VALIDATION
+// =============================================================================
+
+/**
+ * recurrenceRule input: a legacy keyword or valid RRULE text
+ */
+export const RecurrenceRuleInputSchema = z.string().trim().min(1).superRefine((value, ctx) => {
+  if (RecurrenceRuleSchema.safeParse(value).success) return;
+
+  if (!isRRuleText(value)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown recurrence rule "${value}" (use ${RecurrenceRuleSchema.options.join(', ')} or an RRULE such as FREQ=MONTHLY;BYDAY=2TU)`,
+    });
+    return;
+  }
+
+  for (const error of parseRRule(value).errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid RRULE: ${error}` });
+  }
+});
@@ -0,0 +1,101 @@
+/**
+ * Search Schemas
+ *
+ * Types for the full-text search index over items and knowledge base content.
+ */
+
+import { z } from 'zod';
+
+// =============================================================================
+// ENUMS
+// =============================================================================
+
+export const SearchDocTypeSchema = z.enum([
+  'item',
+  'checkin',
+  'note',
+  'meeting',
+  'project',
+  'diary',
+]);
+export type SearchDocType = z.infer<typeof SearchDocTypeSchema>;
+
+// =============================================================================
+// SEARCH RESULT
+// =============================================================================
+
+export const SearchHighlightSchema = z.object({
+  /** Start offset (inclusive) into the highlighted string */
+  start: z.number(),
+  /** End offset (exclusive) into the highlighted string */
+  end: z.number(),
+});
+
+export type SearchHighlight = z.infer<typeof SearchHighlightSchema>;
+
+export const SearchResultSchema = z.object({
+  /** Kind of document that matched */
+  type: SearchDocTypeSchema,
+  /** Stable document key (e.g. "item:12", "meeting:acme-corp/meetings/...") */
+  key: z.string(),
+  /** Document title */
+  title: z.string(),
+  /** Excerpt of the body around the best match */
+  snippet: z.string(),
+  /** Matched ranges within `snippet` */
+  highlights: z.array(SearchHighlightSchema),
+  /** Matched ranges within `title` */
+  titleHighlights: z.array(SearchHighlightSchema),
+  /** Relevance score (higher is better) */
+  score: z.number(),
+  /** Item the document belongs to (items, check-ins and notes) */
+  itemId: z.number().nullable(),
+  /** Item status, when the document belongs to an item */
+  itemStatus: z.string().nullable(),
+  /** Item owner name, when the document belongs to an item */
+  itemOwner: z.string().nullable(),
+  /** Source file path relative to KB root (meetings, projects, diary) */
+  path: z.string().nullable(),
+  /** Organization slug, when known */
+  org: z.string().nullable(),
+  /** Project path within the org (e.g. "parent/child"), for project documents */
+  projectPath: z.string().nullable(),
+  /** Date associated with the document (YYYY-MM-DD) */
+  date: z.string().nullable(),
+});
+
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+export const SearchResponseSchema = z.object({
+  query: z.string(),
+  results: z.array(SearchResultSchema),
+  total: z.number(),
+});
+
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+
+// =============================================================================
+// INPUT SCHEMAS
+// =============================================================================
+
+export const SearchInputSchema = z.object({
+  /** Search terms; bare words are prefix-matched, "quoted phrases" match exactly */
+  query: z.string().min(1),
+  /** Restrict to these document types */
+  types: z.array(SearchDocTypeSchema).optional(),
+  /** Restrict to an organization slug */
+  org: z.string().optional(),
+  /** Maximum number of results */
+  limit: z.number().min(1).max(100).optional().default(20),
+});
+
+export type SearchInput = z.infer<typeof SearchInputSchema>;
+
+export const SearchRebuildResultSchema = z.object({
+  /** Number of documents indexed, by type */
+  indexed: z.record(z.string(), z.number()),
+  /** Sources that could not be indexed */
+  errors: z.array(z.string()),
+});
+
+export type SearchRebuildResult = z.infer<typeof SearchRebuildResultSchema>;
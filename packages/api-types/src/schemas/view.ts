@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+// =============================================================================
+// SAVED VIEW SCHEMAS
+// =============================================================================
+
+/**
+ * A named item filter, e.g. "status:pending owner:me due<+7d".
+ * See the filter language notes in docs/API.md.
+ */
+export const SavedViewSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1),
+  query: z.string(),
+  description: z.string().nullable(),
+  pinned: z.boolean(),
+  position: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type SavedView = z.infer<typeof SavedViewSchema>;
+
+export const CreateSavedViewSchema = z.object({
+  name: z.string().min(1).max(60),
+  query: z.string().min(1),
+  description: z.string().optional(),
+  pinned: z.boolean().optional(),
+});
+export type CreateSavedView = z.infer<typeof CreateSavedViewSchema>;
+
+export const UpdateSavedViewSchema = z.object({
+  name: z.string().min(1).max(60).optional(),
+  query: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  pinned: z.boolean().optional(),
+  position: z.number().optional(),
+});
+export type UpdateSavedView = z.infer<typeof UpdateSavedViewSchema>;
+
+// =============================================================================
+// FILTER INPUT
+// =============================================================================
+
+export const ItemFilterInputSchema = z.object({
+  /** Filter string, e.g. "status:pending tag:urgent -blocked" */
+  filter: z.string(),
+  /** Person name that "owner:me" resolves to (defaults to DEFAULT_OWNER on the server) */
+  me: z.string().optional(),
+  limit: z.number().min(1).max(500).optional().default(100),
+  offset: z.number().min(0).optional().default(0),
+});
+export type ItemFilterInput = z.infer<typeof ItemFilterInputSchema>;
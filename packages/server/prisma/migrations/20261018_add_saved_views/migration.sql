@@ -0,0 +1,15 @@
+-- Add saved_views table for named item filters
+
+CREATE TABLE IF NOT EXISTS "saved_views" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "description" TEXT,
+    "pinned" BOOLEAN NOT NULL DEFAULT false,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "saved_views_name_key" ON "saved_views"("name");
+CREATE INDEX IF NOT EXISTS "saved_views_pinned_idx" ON "saved_views"("pinned");
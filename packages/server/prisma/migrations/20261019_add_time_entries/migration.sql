@@ -0,0 +1,17 @@
+-- Add time_entries table for timers and manual time logged against items
+
+CREATE TABLE IF NOT EXISTS "time_entries" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "item_id" INTEGER NOT NULL,
+    "started_at" DATETIME NOT NULL,
+    "ended_at" DATETIME,
+    "minutes" INTEGER,
+    "note" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'timer',
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "time_entries_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "items" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "time_entries_item_id_idx" ON "time_entries"("item_id");
+CREATE INDEX IF NOT EXISTS "time_entries_started_at_idx" ON "time_entries"("started_at");
+CREATE INDEX IF NOT EXISTS "time_entries_ended_at_idx" ON "time_entries"("ended_at");
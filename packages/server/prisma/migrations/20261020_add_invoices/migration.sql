@@ -0,0 +1,34 @@
+-- Add per-organization billing rates and invoices generated from the timecard
+
+ALTER TABLE "organizations" ADD COLUMN "billing_rate" REAL;
+ALTER TABLE "organizations" ADD COLUMN "billing_currency" TEXT;
+
+CREATE TABLE IF NOT EXISTS "invoices" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "number" TEXT NOT NULL,
+    "org_id" INTEGER NOT NULL,
+    "month" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "currency" TEXT NOT NULL DEFAULT 'GBP',
+    "hourly_rate" REAL NOT NULL,
+    "line_items" TEXT NOT NULL,
+    "total_hours" REAL NOT NULL,
+    "subtotal" REAL NOT NULL,
+    "vat_rate" REAL,
+    "vat_amount" REAL NOT NULL DEFAULT 0,
+    "total" REAL NOT NULL,
+    "notes" TEXT,
+    "issue_date" DATETIME NOT NULL,
+    "due_date" DATETIME NOT NULL,
+    "sent_at" DATETIME,
+    "paid_at" DATETIME,
+    "markdown_path" TEXT,
+    "html_path" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "invoices_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_number_key" ON "invoices"("number");
+CREATE UNIQUE INDEX IF NOT EXISTS "invoices_org_id_month_key" ON "invoices"("org_id", "month");
+CREATE INDEX IF NOT EXISTS "invoices_status_idx" ON "invoices"("status");
@@ -0,0 +1,17 @@
+-- Add api_tokens table for web sessions and scoped personal API tokens
+
+CREATE TABLE IF NOT EXISTS "api_tokens" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'api',
+    "scope" TEXT NOT NULL DEFAULT 'read',
+    "expires_at" DATETIME,
+    "last_used_at" DATETIME,
+    "revoked_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "api_tokens_token_hash_key" ON "api_tokens"("token_hash");
+CREATE INDEX IF NOT EXISTS "api_tokens_kind_idx" ON "api_tokens"("kind");
@@ -0,0 +1,20 @@
+-- Add audit_log table: per-actor before/after snapshots for every mutation
+
+CREATE TABLE IF NOT EXISTS "audit_log" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "request_id" TEXT NOT NULL,
+    "entity" TEXT NOT NULL,
+    "entity_id" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "procedure" TEXT NOT NULL,
+    "actor_type" TEXT NOT NULL,
+    "actor_name" TEXT,
+    "before" TEXT,
+    "after" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "audit_log_entity_entity_id_idx" ON "audit_log"("entity", "entity_id");
+CREATE INDEX IF NOT EXISTS "audit_log_actor_type_actor_name_idx" ON "audit_log"("actor_type", "actor_name");
+CREATE INDEX IF NOT EXISTS "audit_log_request_id_idx" ON "audit_log"("request_id");
+CREATE INDEX IF NOT EXISTS "audit_log_created_at_idx" ON "audit_log"("created_at");
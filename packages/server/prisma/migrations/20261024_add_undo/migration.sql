@@ -0,0 +1,4 @@
+-- Link activities to the audit log request that made them, and track reverted changes
+
+ALTER TABLE "activities" ADD COLUMN "request_id" TEXT;
+ALTER TABLE "audit_log" ADD COLUMN "reverted_by" TEXT;
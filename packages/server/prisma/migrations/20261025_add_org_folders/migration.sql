@@ -0,0 +1,15 @@
+-- Drive org folder discovery from the organizations table instead of the
+-- lists hard-coded in meeting-parser.ts and project-sync.ts
+
+ALTER TABLE "organizations" ADD COLUMN "folder_path" TEXT;
+ALTER TABLE "organizations" ADD COLUMN "archived" BOOLEAN NOT NULL DEFAULT false;
+
+-- Org folders have so far been named after the org slug
+UPDATE "organizations" SET "folder_path" = "slug";
+
+-- 'external' is for people outside any org and has no folder
+UPDATE "organizations" SET "folder_path" = NULL WHERE "slug" = 'external';
+
+-- Folders on disk without an org (e.g. pricedout, which project sync scanned
+-- but no org existed for) are matched up by:
+--   npx tsx scripts/migrate-org-folders.ts
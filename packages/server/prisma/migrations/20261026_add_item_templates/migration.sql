@@ -0,0 +1,12 @@
+-- Add reusable item templates (a parent task with subtasks, stored as JSON)
+
+CREATE TABLE IF NOT EXISTS "item_templates" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "definition" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "item_templates_name_key" ON "item_templates"("name");
@@ -0,0 +1,14 @@
+-- Effort estimates on items and working capacity per weekday, for planning.week
+
+ALTER TABLE "items" ADD COLUMN "estimate_minutes" INTEGER;
+
+CREATE TABLE IF NOT EXISTS "day_capacities" (
+    "weekday" INTEGER NOT NULL PRIMARY KEY,
+    "minutes" INTEGER NOT NULL,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- Quick add has been keeping estimates in metadata
+UPDATE "items"
+SET "estimate_minutes" = json_extract("metadata", '$.estimateMinutes')
+WHERE json_valid("metadata") AND json_extract("metadata", '$.estimateMinutes') IS NOT NULL;
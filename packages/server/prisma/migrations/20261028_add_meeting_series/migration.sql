@@ -0,0 +1,18 @@
+-- Recurring meetings: notes with the same `series` frontmatter key are
+-- instances of one series, linked through meetings.series_id
+
+CREATE TABLE IF NOT EXISTS "meeting_series" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "org_id" INTEGER,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "meeting_series_org_id_fkey" FOREIGN KEY ("org_id") REFERENCES "organizations" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "meeting_series_org_id_slug_key" ON "meeting_series"("org_id", "slug");
+
+ALTER TABLE "meetings" ADD COLUMN "series_id" INTEGER REFERENCES "meeting_series"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "meetings_series_id_idx" ON "meetings"("series_id");
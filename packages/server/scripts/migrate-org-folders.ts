@@ -0,0 +1,46 @@
+/**
+ * Migration Script: Match knowledge base folders with organizations
+ *
+ * Meeting and project sync used to scan a hard-coded list of org folders;
+ * they now scan each organization's folderPath. Migration 20261025 sets
+ * folderPath to the slug for existing orgs. This script covers the rest:
+ * - Top-level folders containing projects/ or meetings/ with no org get one
+ * - Orgs whose folder doesn't exist are listed (archive or fix them)
+ *
+ * Run with: npx tsx scripts/migrate-org-folders.ts [--dry-run]
+ *
+ * Safe to run multiple times - folders already claimed by an org are skipped.
+ */
+
+import { getPrisma } from '../src/prisma.js';
+import { getKnowledgeBasePath } from '../src/services/paths.js';
+import { reconcileOrgFolders } from '../src/services/org-folders.js';
+
+async function migrate() {
+  const prisma = getPrisma();
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log(`Matching org folders in ${getKnowledgeBasePath()}${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const result = await reconcileOrgFolders(prisma, getKnowledgeBasePath(), { apply: !dryRun });
+
+  for (const { slug, folder } of result.linked) {
+    console.log(`  ✓ ${slug}: linked to folder ${folder}/`);
+  }
+  for (const { slug, folder } of result.created) {
+    console.log(`  + ${slug}: created for folder ${folder}/`);
+  }
+  for (const { slug, folder } of result.missing) {
+    console.log(`  ✗ ${slug}: folder ${folder}/ not found`);
+  }
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Linked: ${result.linked.length}, created: ${result.created.length}, missing folders: ${result.missing.length}`);
+  if (result.missing.length > 0) {
+    console.log('  Set a folder with `tcli orgs-update <slug> --folder <path>` or archive with --archive');
+  }
+
+  await prisma.$disconnect();
+}
+
+migrate().catch(console.error);
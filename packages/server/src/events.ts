@@ -3,6 +3,7 @@
  *
  * Used by tRPC mutation handlers to notify clients of data changes.
  * Clients connect via socket.io and invalidate React Query cache.
+ * Server-side listeners (e.g. webhooks) can subscribe with onDataChange().
  */
 
 import { Server as SocketServer } from 'socket.io';
@@ -42,6 +43,17 @@ export interface AIContentEvent {
 
 let io: SocketServer | null = null;
 
+type DataChangeListener = (event: DataChangeEvent) => void;
+const dataChangeListeners = new Set<DataChangeListener>();
+
+/**
+ * Subscribe to data change events. Returns an unsubscribe function.
+ */
+export function onDataChange(listener: DataChangeListener): () => void {
+  dataChangeListeners.add(listener);
+  return () => dataChangeListeners.delete(listener);
+}
+
 /**
  * Initialize the socket.io server
  */
@@ -61,6 +73,14 @@ export function initSocketServer(socketServer: SocketServer) {
  * Emit a data change event to all connected clients
  */
 export function emitDataChange(event: DataChangeEvent) {
+  for (const listener of dataChangeListeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error('[events] Data change listener failed:', err);
+    }
+  }
+
   if (!io) {
     console.warn('[socket] Socket server not initialized, skipping emit');
     return;
@@ -19,6 +19,11 @@ if (process.env.KNOWLEDGE_BASE_PATH) {
 
 import { getPrisma, closePrisma } from './prisma.js';
 import { initSocketServer } from './events.js';
+import { startWebhookWorker } from './services/webhooks.js';
+import { startSyncWatcher } from './services/sync-watcher.js';
+import { startSnapshotWorker } from './services/backup.js';
+import { isAuthRequired, resolveToken } from './services/auth.js';
+import { buildICalFeed } from './services/ical-feed.js';
 
 // tRPC router
 import { appRouter, createContext } from './trpc/index.js';
@@ -28,25 +33,41 @@ const app = express();
 const httpServer = createServer(app);
 const PORT = process.env.TASK_SERVICE_PORT || 3004;
 
+// Browser origins allowed to call the API (comma-separated in CORS_ORIGINS)
+const CORS_ORIGINS = process.env.CORS_ORIGINS
+  ? process.env.CORS_ORIGINS.split(',').map(o => o.trim()).filter(Boolean)
+  : ['http://localhost:3000', 'http://localhost:3001'];
+
 // Socket.io for real-time updates
 const io = new SocketServer(httpServer, {
   cors: {
-    origin: ['http://localhost:3000', 'http://localhost:3001'],
+    origin: CORS_ORIGINS,
     methods: ['GET', 'POST'],
   },
 });
+
+// Same token as the tRPC API, passed as { auth: { token } } when connecting
+io.use(async (socket, next) => {
+  if (!isAuthRequired()) return next();
+  const token = socket.handshake.auth?.token;
+  const principal = typeof token === 'string' ? await resolveToken(getPrisma(), token) : null;
+  next(principal ? undefined : new Error('Authentication required'));
+});
 initSocketServer(io);
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+app.use(cors({ origin: CORS_ORIGINS }));
+// Imports and restores send whole files
+app.use(express.json({ limit: '50mb' }));
 
 // Request logging
 app.use((req, res, next) => {
   const start = Date.now();
   res.on('finish', () => {
     const duration = Date.now() - start;
-    console.log(`${req.method} ${req.path} ${res.statusCode} ${duration}ms`);
+    // Feed URLs carry an API token
+    const path = req.path.startsWith('/ical/') ? '/ical/<token>.ics' : req.path;
+    console.log(`${req.method} ${path} ${res.statusCode} ${duration}ms`);
   });
   next();
 });
@@ -56,6 +77,57 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', service: 'task-service', trpc: true });
 });
 
+// iCalendar feed for calendar apps, which can't send headers: the API token
+// goes in the URL. Any valid token works, whether or not auth is required.
+// Query: owner=<person name>, org=<slug>, routines=<occurrences, default 7>,
+// tasks=todo (items as VTODO instead of all-day events)
+app.get('/ical/:file', async (req, res, next) => {
+  try {
+    const prisma = getPrisma();
+    const token = req.params.file.match(/^(.+)\.ics$/)?.[1];
+    const principal = token ? await resolveToken(prisma, token) : null;
+    if (!principal) {
+      res.status(401).json({ success: false, error: 'Invalid or revoked token' });
+      return;
+    }
+
+    const { owner, org, routines, tasks } = req.query;
+    const routineOccurrences = typeof routines === 'string' ? Number(routines) : 7;
+    if (!Number.isInteger(routineOccurrences) || routineOccurrences < 0 || routineOccurrences > 50) {
+      res.status(400).json({ success: false, error: 'routines must be a whole number from 0 to 50' });
+      return;
+    }
+
+    let ownerId: number | undefined;
+    if (typeof owner === 'string') {
+      const person = await prisma.person.findFirst({ where: { name: owner }, select: { id: true } });
+      if (!person) {
+        res.status(404).json({ success: false, error: `Person not found: ${owner}` });
+        return;
+      }
+      ownerId = person.id;
+    }
+
+    if (typeof org === 'string' && !(await prisma.organization.findUnique({ where: { slug: org } }))) {
+      res.status(404).json({ success: false, error: `Organization not found: ${org}` });
+      return;
+    }
+
+    const feed = await buildICalFeed(prisma, {
+      ownerId,
+      orgSlug: typeof org === 'string' ? org : undefined,
+      routineOccurrences,
+      todos: tasks === 'todo',
+    });
+
+    res.type('text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="knowledgework.ics"');
+    res.send(feed);
+  } catch (err) {
+    next(err);
+  }
+});
+
 // tRPC API - type-safe endpoints (primary API)
 app.use(
   '/api/trpc',
@@ -104,14 +176,29 @@ app.use((req, res) => {
 // Initialize Prisma and start server
 getPrisma();  // Prisma client for unified item model
 
+// Deliver data change events to registered webhooks (with retries)
+const stopWebhookWorker = startWebhookWorker(getPrisma());
+
+// Sync meeting, project and README files as they change on disk
+const stopSyncWatcher = startSyncWatcher(getPrisma());
+
+// Write JSON snapshots of the database on a schedule (see services/backup.ts)
+const stopSnapshotWorker = startSnapshotWorker(getPrisma());
+
 const server = httpServer.listen(PORT, () => {
   console.log(`Task service running on http://localhost:${PORT}`);
   console.log(`Socket.io ready for real-time updates`);
+  if (!isAuthRequired()) {
+    console.warn('AUTH_PASSPHRASE is not set: the API accepts unauthenticated requests');
+  }
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down...');
+  stopWebhookWorker();
+  stopSyncWatcher();
+  stopSnapshotWorker();
   server.close(async () => {
     await closePrisma();
     process.exit(0);
@@ -120,6 +207,9 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down...');
+  stopWebhookWorker();
+  stopSyncWatcher();
+  stopSnapshotWorker();
   server.close(async () => {
     await closePrisma();
     process.exit(0);
@@ -0,0 +1,291 @@
+/**
+ * Audit Log
+ *
+ * Every mutation on items, routines, projects, people, organizations and tags
+ * is recorded with the actor that made it and JSON snapshots of each touched
+ * record before and after. The tRPC audit middleware does this for API calls;
+ * services that write directly (meeting sync) call recordAudit themselves.
+ *
+ * Actors are identified by request headers:
+ *   X-KW-Client: web | cli | agent | sync
+ *   X-KW-Actor:  free-form name, e.g. the agent ("nightly-triage")
+ * falling back to the API token's name. In-process callers are "system".
+ */
+
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { parseTaskId } from '@kw/api-types';
+import type { AuthPrincipal } from './auth.js';
+
+// =============================================================================
+// ACTORS
+// =============================================================================
+
+export const ACTOR_TYPES = ['web', 'cli', 'agent', 'sync', 'api', 'system'] as const;
+export type ActorType = (typeof ACTOR_TYPES)[number];
+
+export interface Actor {
+  type: ActorType;
+  name: string | null;
+}
+
+export const SYSTEM_ACTOR: Actor = { type: 'system', name: null };
+
+function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+/**
+ * Work out who is making an HTTP request
+ */
+export function actorFromRequest(headers: IncomingHttpHeaders, principal: AuthPrincipal | null): Actor {
+  const client = headerValue(headers, 'x-kw-client');
+  const name = headerValue(headers, 'x-kw-actor')
+    ?? (principal?.kind === 'api' ? principal.name : undefined)
+    ?? null;
+
+  let type: ActorType = 'api';
+  if (client && (ACTOR_TYPES as readonly string[]).includes(client) && client !== 'system') {
+    type = client as ActorType;
+  } else if (headerValue(headers, 'x-kw-actor')) {
+    type = 'agent';
+  }
+
+  return { type, name };
+}
+
+/**
+ * Short form for Activity.createdBy, e.g. "web" or "agent:nightly-triage"
+ */
+export function actorLabel(actor: Actor | undefined): string {
+  const { type, name } = actor ?? SYSTEM_ACTOR;
+  return name ? `${type}:${name}` : type;
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+export const AUDITED_ENTITIES = ['items', 'routines', 'projects', 'people', 'organizations', 'tags'] as const;
+export type AuditEntity = (typeof AUDITED_ENTITIES)[number];
+
+/** Recent routine completions/skips kept in snapshots */
+const ROUTINE_HISTORY_LIMIT = 20;
+
+export type Snapshot = Record<string, unknown>;
+
+/**
+ * JSON-safe copy of a record (dates become ISO strings)
+ */
+function toSnapshot(record: object): Snapshot {
+  return JSON.parse(JSON.stringify(record)) as Snapshot;
+}
+
+/**
+ * Load the current state of a record. Items include their people, tags,
+ * outgoing links and check-ins so those changes show up in the diff.
+ */
+export async function takeSnapshot(prisma: PrismaClient, entity: AuditEntity, id: number): Promise<Snapshot | null> {
+  switch (entity) {
+    case 'items':
+    case 'routines': {
+      const item = await prisma.item.findUnique({
+        where: { id },
+        include: {
+          itemPeople: { select: { personId: true, role: true }, orderBy: [{ personId: 'asc' }, { role: 'asc' }] },
+          tags: { select: { tagId: true }, orderBy: { tagId: 'asc' } },
+          linksFrom: { select: { toId: true, linkType: true }, orderBy: [{ toId: 'asc' }, { linkType: 'asc' }] },
+          checkIns: { select: { id: true, date: true, note: true, completed: true }, orderBy: { id: 'asc' } },
+        },
+      });
+      if (!item) return null;
+
+      const { itemPeople, tags, linksFrom, ...fields } = item;
+      const snapshot: Record<string, unknown> = {
+        ...fields,
+        people: itemPeople,
+        tagIds: tags.map(t => t.tagId),
+        links: linksFrom,
+      };
+
+      if (entity === 'routines') {
+        const [completions, skips] = await Promise.all([
+          prisma.routineCompletion.findMany({
+            where: { routineId: id },
+            orderBy: { completedDate: 'desc' },
+            take: ROUTINE_HISTORY_LIMIT,
+          }),
+          prisma.routineSkip.findMany({
+            where: { routineId: id },
+            orderBy: { skipDate: 'desc' },
+            take: ROUTINE_HISTORY_LIMIT,
+          }),
+        ]);
+        snapshot.completions = completions.map(c => c.completedDate);
+        snapshot.skips = skips.map(s => s.skipDate);
+      }
+
+      return toSnapshot(snapshot);
+    }
+    case 'projects': {
+      const project = await prisma.project.findUnique({ where: { id } });
+      return project && toSnapshot(project);
+    }
+    case 'people': {
+      const person = await prisma.person.findUnique({ where: { id } });
+      return person && toSnapshot(person);
+    }
+    case 'organizations': {
+      const org = await prisma.organization.findUnique({ where: { id } });
+      return org && toSnapshot(org);
+    }
+    case 'tags': {
+      const tag = await prisma.tag.findUnique({ where: { id } });
+      return tag && toSnapshot(tag);
+    }
+  }
+}
+
+/**
+ * Fields that differ between two snapshots (updatedAt is ignored)
+ */
+export function diffSnapshots(
+  before: Snapshot | null,
+  after: Snapshot | null
+): { field: string; before: unknown; after: unknown }[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  fields.delete('updatedAt');
+
+  const changes: { field: string; before: unknown; after: unknown }[] = [];
+  for (const field of fields) {
+    const a = before?.[field] ?? null;
+    const b = after?.[field] ?? null;
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+// =============================================================================
+// TARGETS
+// =============================================================================
+
+/** Input keys that hold item ids (as numbers or "T-123") in the items router */
+const ITEM_ID_KEYS = ['id', 'itemId', 'fromId', 'toId', 'blockerId'] as const;
+
+/** Item procedures whose input id refers to a child record rather than the item */
+const CHILD_RECORD_PROCEDURES: Record<string, { key: string; model: 'checkIn' | 'timeEntry' }> = {
+  updateCheckin: { key: 'id', model: 'checkIn' },
+  deleteCheckin: { key: 'id', model: 'checkIn' },
+  deleteTimeEntry: { key: 'entryId', model: 'timeEntry' },
+};
+
+function toId(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isInteger(value) ? value : null;
+  if (typeof value === 'string') {
+    const parsed = parseTaskId(value) ?? parseInt(value, 10);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * The records a mutation is about to touch, found from its raw input.
+ * Creates have no targets yet; their ids come from the result.
+ */
+export async function resolveAuditTargets(
+  prisma: PrismaClient,
+  entity: AuditEntity,
+  procedure: string,
+  rawInput: unknown
+): Promise<number[]> {
+  const input = (rawInput && typeof rawInput === 'object' ? rawInput : {}) as Record<string, unknown>;
+  const ids = new Set<number>();
+
+  if (Array.isArray(input.ids)) {
+    for (const value of input.ids) {
+      const id = toId(value);
+      if (id !== null) ids.add(id);
+    }
+  }
+
+  if (entity === 'organizations') {
+    if (typeof input.slug === 'string') {
+      const org = await prisma.organization.findUnique({ where: { slug: input.slug }, select: { id: true } });
+      if (org) ids.add(org.id);
+    }
+    return [...ids];
+  }
+
+  const child = entity === 'items' ? CHILD_RECORD_PROCEDURES[procedure] : undefined;
+  if (child) {
+    const childId = toId(input[child.key]);
+    if (childId !== null) {
+      const record = child.model === 'checkIn'
+        ? await prisma.checkIn.findUnique({ where: { id: childId }, select: { itemId: true } })
+        : await prisma.timeEntry.findUnique({ where: { id: childId }, select: { itemId: true } });
+      if (record) ids.add(record.itemId);
+    }
+    return [...ids];
+  }
+
+  const keys = entity === 'items' ? ITEM_ID_KEYS : (['id'] as const);
+  for (const key of keys) {
+    const id = toId(input[key]);
+    if (id !== null) ids.add(id);
+  }
+  return [...ids];
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+export interface AuditEntry {
+  entity: AuditEntity;
+  entityId: number;
+  before: Snapshot | null;
+  after: Snapshot | null;
+}
+
+export function newRequestId(): string {
+  return crypto.randomUUID();
+}
+
+function actionFor(before: Snapshot | null, after: Snapshot | null): 'create' | 'update' | 'delete' {
+  if (!before) return 'create';
+  if (!after || (after.deletedAt && !before.deletedAt)) return 'delete';
+  return 'update';
+}
+
+/**
+ * Write audit rows for one mutation. Entries whose snapshots are identical
+ * (e.g. a no-op update) are dropped. Returns the number of rows written.
+ */
+export async function recordAudit(
+  prisma: PrismaClient,
+  options: { requestId?: string; procedure: string; actor: Actor; entries: AuditEntry[] }
+): Promise<number> {
+  const requestId = options.requestId ?? newRequestId();
+  const rows = options.entries
+    .filter(e => (e.before || e.after) && diffSnapshots(e.before, e.after).length > 0)
+    .map(e => ({
+      requestId,
+      entity: e.entity,
+      entityId: e.entityId,
+      action: actionFor(e.before, e.after),
+      procedure: options.procedure,
+      actorType: options.actor.type,
+      actorName: options.actor.name,
+      before: e.before ? JSON.stringify(e.before) : null,
+      after: e.after ? JSON.stringify(e.after) : null,
+    }));
+
+  if (rows.length > 0) {
+    await prisma.auditLog.createMany({ data: rows });
+  }
+  return rows.length;
+}
@@ -0,0 +1,102 @@
+/**
+ * Authentication
+ *
+ * Auth is enabled by setting AUTH_PASSPHRASE. The web app exchanges the
+ * passphrase for a session token; tcli and agents use personal API tokens
+ * created on the system page. Both are bearer tokens stored as SHA-256
+ * hashes in the api_tokens table.
+ *
+ * Scopes: "read" tokens may only run queries; "write" tokens may also run
+ * mutations. Web sessions are always "write".
+ */
+
+import crypto from 'crypto';
+import type { PrismaClient, ApiToken } from '../generated/prisma/index.js';
+
+export type TokenScope = 'read' | 'write';
+export type TokenKind = 'api' | 'session';
+
+export interface AuthPrincipal {
+  tokenId: number;
+  name: string;
+  kind: TokenKind;
+  scope: TokenScope;
+}
+
+/** How long a web login lasts */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Only record lastUsedAt this often, to avoid a write on every request */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function isAuthRequired(): boolean {
+  return Boolean(process.env.AUTH_PASSPHRASE);
+}
+
+/**
+ * Compare a login attempt against AUTH_PASSPHRASE in constant time
+ */
+export function verifyPassphrase(attempt: string): boolean {
+  const expected = process.env.AUTH_PASSPHRASE;
+  if (!expected) return false;
+
+  const a = crypto.createHash('sha256').update(attempt).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Pull a bearer token out of an Authorization header value
+ */
+export function extractBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Create a token. The plaintext is returned once and cannot be recovered.
+ */
+export async function issueToken(
+  prisma: PrismaClient,
+  options: { name: string; kind: TokenKind; scope: TokenScope; expiresAt?: Date | null }
+): Promise<{ token: string; record: ApiToken }> {
+  const token = `kw_${crypto.randomBytes(32).toString('base64url')}`;
+  const record = await prisma.apiToken.create({
+    data: {
+      name: options.name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, 10),
+      kind: options.kind,
+      scope: options.scope,
+      expiresAt: options.expiresAt ?? null,
+    },
+  });
+  return { token, record };
+}
+
+/**
+ * Look up a bearer token. Returns null for unknown, revoked or expired tokens.
+ */
+export async function resolveToken(prisma: PrismaClient, token: string): Promise<AuthPrincipal | null> {
+  const record = await prisma.apiToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  const now = new Date();
+
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+    return null;
+  }
+
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({ where: { id: record.id }, data: { lastUsedAt: now } });
+  }
+
+  return {
+    tokenId: record.id,
+    name: record.name,
+    kind: record.kind as TokenKind,
+    scope: record.scope as TokenScope,
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * Backup
+ *
+ * The database as a portable JSON archive: every Prisma model's rows, keyed by
+ * model name, with the latest migration as the schema version. Models are read
+ * from Prisma's data model, so new tables are included without changes here.
+ *
+ * Restore replaces the whole database in one transaction. Foreign keys are
+ * checked once everything is loaded, so tables can go in in any order. The search index
+ * isn't a model; it is rebuilt afterwards.
+ *
+ * Snapshots are archives written to the backup directory (BACKUP_DIR, default
+ * backups/ next to the database) every BACKUP_INTERVAL_HOURS (default 24,
+ * 0 = off), keeping the newest BACKUP_RETENTION (default 14).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  InvoiceStatusSchema,
+  ItemPersonRoleSchema,
+  ItemSchema,
+  ItemTemplateStepSchema,
+  OrgColorSchema,
+  ProjectStatusSchema,
+  type BackupArchive,
+  type BackupRow,
+  type BackupSnapshot,
+  type BackupValue,
+} from '@kw/api-types';
+import { Prisma, type PrismaClient } from '../generated/prisma/index.js';
+import { getDbPath } from '../prisma.js';
+
+const MIGRATIONS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../prisma/migrations');
+const SNAPSHOT_PATTERN = /^kw-backup-[\w-]+\.json$/;
+/** Rows per insert when restoring */
+const RESTORE_BATCH = 500;
+/** Report at most this many problems with an archive */
+const MAX_PROBLEMS = 20;
+
+type ModelDelegate = {
+  findMany(): Promise<Record<string, unknown>[]>;
+  deleteMany(): Promise<unknown>;
+  createMany(args: { data: Record<string, unknown>[] }): Promise<unknown>;
+};
+
+interface BackupModel {
+  name: string;
+  /** Scalar field name -> Prisma type (Int, String, DateTime, ...) */
+  fields: Map<string, string>;
+}
+
+// =============================================================================
+// MODELS
+// =============================================================================
+
+function backupModels(): BackupModel[] {
+  return Prisma.dmmf.datamodel.models.map(model => ({
+    name: model.name,
+    fields: new Map(model.fields.filter(f => f.kind === 'scalar' || f.kind === 'enum').map(f => [f.name, f.type])),
+  }));
+}
+
+/** prisma.item for Item, prisma.checkIn for CheckIn */
+function delegate(prisma: Prisma.TransactionClient | PrismaClient, model: string): ModelDelegate {
+  const key = model[0].toLowerCase() + model.slice(1);
+  return (prisma as unknown as Record<string, ModelDelegate>)[key];
+}
+
+/**
+ * Latest migration folder name, e.g. 20261027_add_planning
+ */
+export function currentSchemaVersion(): string {
+  try {
+    return fs.readdirSync(MIGRATIONS_DIR).filter(name => /^\d{8}/.test(name)).sort().pop() ?? 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+function toBackupValue(value: unknown): BackupValue {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value as BackupValue;
+}
+
+/**
+ * Every row of every model
+ */
+export async function exportDatabase(prisma: PrismaClient): Promise<BackupArchive> {
+  const tables: Record<string, BackupRow[]> = {};
+  for (const model of backupModels()) {
+    const rows = await delegate(prisma, model.name).findMany();
+    tables[model.name] = rows.map(row =>
+      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, toBackupValue(value)]))
+    );
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: currentSchemaVersion(),
+    exportedAt: new Date().toISOString(),
+    tables,
+  };
+}
+
+// =============================================================================
+// RESTORE
+// =============================================================================
+
+function typeMatches(type: string, value: BackupValue): boolean {
+  if (value === null) return true;
+  switch (type) {
+    case 'Int':
+      return Number.isInteger(value);
+    case 'Float':
+      return typeof value === 'number';
+    case 'Boolean':
+      return typeof value === 'boolean';
+    case 'DateTime':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    default:
+      return typeof value === 'string';
+  }
+}
+
+/** A JSON text column whose parsed value must match `schema` */
+function jsonColumn(schema: z.ZodTypeAny) {
+  return z.string().nullable().superRefine((value, ctx) => {
+    if (value === null) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'is not valid JSON' });
+      return;
+    }
+    if (!schema.safeParse(parsed).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'does not match its schema' });
+    }
+  });
+}
+
+/**
+ * Per-model checks on stored values that the Prisma type alone doesn't catch:
+ * enum strings and JSON columns, taken from the @kw/api-types entity schemas.
+ * Partial, so rows from an older schema without a field still pass.
+ */
+const ROW_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  Item: ItemSchema.pick({ status: true, itemType: true }).partial().extend({
+    metadata: jsonColumn(ItemSchema.shape.metadata).optional(),
+  }),
+  ItemPerson: z.object({ role: ItemPersonRoleSchema }).partial(),
+  ItemTemplate: z.object({ definition: jsonColumn(ItemTemplateStepSchema) }).partial(),
+  Invoice: z.object({ status: InvoiceStatusSchema }).partial(),
+  Organization: z.object({ color: OrgColorSchema.nullable() }).partial(),
+  Project: z.object({ status: ProjectStatusSchema.nullable() }).partial(),
+};
+
+/**
+ * Problems that would stop an archive restoring into this database: a newer
+ * schema, unknown tables or fields, values of the wrong type, enum values or
+ * JSON the app can't read. An archive from an older schema restores as long
+ * as its rows still fit.
+ */
+export function validateArchive(archive: BackupArchive): string[] {
+  const problems: string[] = [];
+  const current = currentSchemaVersion();
+  if (current !== 'unknown' && archive.schemaVersion > current) {
+    problems.push(`Archive schema ${archive.schemaVersion} is newer than this database (${current}): update the server first`);
+    return problems;
+  }
+
+  const models = new Map(backupModels().map(m => [m.name, m]));
+  for (const [table, rows] of Object.entries(archive.tables)) {
+    const model = models.get(table);
+    if (!model) {
+      problems.push(`Unknown table: ${table}`);
+      continue;
+    }
+    rows.forEach((row, i) => {
+      const before = problems.length;
+      for (const [field, value] of Object.entries(row)) {
+        const type = model.fields.get(field);
+        if (!type) problems.push(`${table} row ${i + 1}: unknown field ${field}`);
+        else if (!typeMatches(type, value)) problems.push(`${table} row ${i + 1}: ${field} should be ${type}`);
+      }
+      // Values are only worth checking once their types are right
+      const schema = ROW_SCHEMAS[table];
+      if (!schema || problems.length > before) return;
+      const parsed = schema.safeParse(row);
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          const reason = issue.code === z.ZodIssueCode.invalid_enum_value
+            ? `should be one of ${issue.options.join(', ')}`
+            : issue.message;
+          problems.push(`${table} row ${i + 1}: ${issue.path.join('.')} ${reason}`);
+        }
+      }
+    });
+  }
+
+  if (problems.length > MAX_PROBLEMS) {
+    return [...problems.slice(0, MAX_PROBLEMS), `...and ${problems.length - MAX_PROBLEMS} more`];
+  }
+  return problems;
+}
+
+/**
+ * Replace every table with the archive's rows. The archive must have passed
+ * validateArchive. Returns the row count per table.
+ */
+export async function restoreDatabase(
+  prisma: PrismaClient,
+  archive: BackupArchive
+): Promise<{ name: string; rows: number }[]> {
+  const models = backupModels();
+
+  await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`PRAGMA defer_foreign_keys = ON`;
+
+    for (const model of [...models].reverse()) {
+      await delegate(tx, model.name).deleteMany();
+    }
+
+    for (const model of models) {
+      const rows = (archive.tables[model.name] ?? []).map(row =>
+        Object.fromEntries(Object.entries(row).map(([field, value]) => [
+          field,
+          model.fields.get(field) === 'DateTime' && value !== null ? new Date(value as string) : value,
+        ]))
+      );
+      for (let i = 0; i < rows.length; i += RESTORE_BATCH) {
+        await delegate(tx, model.name).createMany({ data: rows.slice(i, i + RESTORE_BATCH) });
+      }
+    }
+
+    // Checked here rather than left to the commit, so the error names the table
+    const broken = await tx.$queryRaw<{ table: string; parent: string }[]>`PRAGMA foreign_key_check`;
+    if (broken.length > 0) {
+      throw new Error(`${broken.length} row(s) refer to missing records (first: ${broken[0].table} -> ${broken[0].parent})`);
+    }
+  }, { timeout: 10 * 60_000 });
+
+  return models.map(model => ({ name: model.name, rows: archive.tables[model.name]?.length ?? 0 }));
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+/** Snapshots to keep (BACKUP_RETENTION) */
+export function snapshotRetention(): number {
+  return Number(process.env.BACKUP_RETENTION ?? 14);
+}
+
+export function getBackupDir(): string {
+  return process.env.BACKUP_DIR || path.join(path.dirname(getDbPath()), 'backups');
+}
+
+/**
+ * Stored snapshots, newest first
+ */
+export function listSnapshots(): BackupSnapshot[] {
+  const dir = getBackupDir();
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(name => SNAPSHOT_PATTERN.test(name))
+    .map(name => {
+      const stat = fs.statSync(path.join(dir, name));
+      return { name, createdAt: stat.mtime.toISOString(), size: stat.size };
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.name.localeCompare(a.name));
+}
+
+/**
+ * Export the database to a new snapshot file. `label` is appended to the
+ * name (e.g. pre-restore).
+ */
+export async function writeSnapshot(prisma: PrismaClient, label?: string): Promise<BackupSnapshot> {
+  const archive = await exportDatabase(prisma);
+  // 2026-10-18T20-24-51-123Z
+  const stamp = archive.exportedAt.replace(/[:.]/g, '-');
+  const name = `kw-backup-${stamp}${label ? `-${label}` : ''}.json`;
+
+  const dir = getBackupDir();
+  fs.mkdirSync(dir, { recursive: true });
+  // Written under another name first so a partial file is never listed
+  const file = path.join(dir, name);
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(archive));
+  fs.renameSync(`${file}.tmp`, file);
+
+  const stat = fs.statSync(file);
+  return { name, createdAt: stat.mtime.toISOString(), size: stat.size };
+}
+
+/**
+ * A stored snapshot's contents, unvalidated. Throws if there is no such snapshot.
+ */
+export function readSnapshot(name: string): unknown {
+  const file = path.join(getBackupDir(), name);
+  if (!SNAPSHOT_PATTERN.test(name) || path.basename(name) !== name || !fs.existsSync(file)) {
+    throw new Error(`Snapshot not found: ${name}`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Delete all but the newest `retention` snapshots. Returns the deleted names.
+ */
+export function pruneSnapshots(retention: number): string[] {
+  const stale = listSnapshots().slice(Math.max(retention, 1));
+  for (const snapshot of stale) {
+    fs.rmSync(path.join(getBackupDir(), snapshot.name), { force: true });
+  }
+  return stale.map(s => s.name);
+}
+
+/**
+ * Write a snapshot whenever the newest is older than the interval, checking
+ * hourly and once shortly after startup. Returns a function that stops it.
+ */
+export function startSnapshotWorker(prisma: PrismaClient, checkIntervalMs = 60 * 60_000): () => void {
+  const intervalHours = Number(process.env.BACKUP_INTERVAL_HOURS ?? 24);
+  if (!(intervalHours > 0)) {
+    return () => {};
+  }
+
+  let running = false;
+  const check = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const latest = listSnapshots()[0];
+      if (!latest || Date.now() - Date.parse(latest.createdAt) >= intervalHours * 60 * 60_000) {
+        const snapshot = await writeSnapshot(prisma);
+        const pruned = pruneSnapshots(snapshotRetention());
+        console.log(`[backup] Wrote ${snapshot.name}${pruned.length > 0 ? `, removed ${pruned.length} old` : ''}`);
+      }
+    } catch (err) {
+      console.error('[backup] Snapshot failed:', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const first = setTimeout(check, 60_000);
+  first.unref();
+  const timer = setInterval(check, checkIntervalMs);
+  timer.unref();
+
+  return () => {
+    clearTimeout(first);
+    clearInterval(timer);
+  };
+}
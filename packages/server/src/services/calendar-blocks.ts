@@ -0,0 +1,177 @@
+/**
+ * Calendar Blocks
+ *
+ * Focus blocks booked on Google Calendar for items. The event is recorded in
+ * the item's metadata as `calendarBlock` ({ eventId, calendarId, start, end })
+ * and follows the item afterwards:
+ * - completed, cancelled or deleted: a block that hasn't started yet is
+ *   deleted; one already under way or past is left as a record. Either way
+ *   the item forgets it.
+ * - due date moved: the block moves by the same number of days, keeping its
+ *   time of day.
+ * - renamed: the event title follows.
+ *
+ * Sync is best-effort. A calendar that isn't connected or fails is logged and
+ * never fails the item change; an event deleted on the calendar side is
+ * dropped from the item.
+ */
+
+import type { calendar_v3 } from 'googleapis';
+import type { CalendarBlock } from '@kw/api-types';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { formatTaskId } from '../types/index.js';
+import { getCalendarClient } from './google-client.js';
+
+/** Block length when neither the request nor the item gives one */
+export const DEFAULT_BLOCK_MINUTES = 60;
+
+const DONE_STATUSES = ['complete', 'cancelled'];
+
+interface BlockItem {
+  id: number;
+  title: string;
+  status: string;
+  dueDate: Date | null;
+  deletedAt: Date | null;
+  metadata: string | null;
+}
+
+// =============================================================================
+// METADATA
+// =============================================================================
+
+function parseMetadata(metadata: string | null): Record<string, unknown> {
+  if (!metadata) return {};
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The block recorded on an item, if any
+ */
+export function readCalendarBlock(metadata: string | null): CalendarBlock | null {
+  const block = parseMetadata(metadata).calendarBlock as Partial<CalendarBlock> | undefined;
+  if (!block?.eventId || !block.calendarId || !block.start || !block.end) return null;
+  return block as CalendarBlock;
+}
+
+/**
+ * Item metadata with the block set (or removed when null). Other keys are kept;
+ * null when nothing is left.
+ */
+export function writeCalendarBlock(metadata: string | null, block: CalendarBlock | null): string | null {
+  const next = parseMetadata(metadata);
+  if (block) next.calendarBlock = block;
+  else delete next.calendarBlock;
+  return Object.keys(next).length > 0 ? JSON.stringify(next) : null;
+}
+
+// =============================================================================
+// EVENTS
+// =============================================================================
+
+export function blockSummary(title: string): string {
+  return `Focus: ${title}`;
+}
+
+/**
+ * Event body for an item's block. The item id goes in a private extended
+ * property so blocks can be recognised on the calendar.
+ */
+export function blockEvent(item: { id: number; title: string }, start: Date, end: Date): calendar_v3.Schema$Event {
+  return {
+    summary: blockSummary(item.title),
+    description: `Time blocked for ${formatTaskId(item.id)}`,
+    start: { dateTime: start.toISOString() },
+    end: { dateTime: end.toISOString() },
+    extendedProperties: { private: { kwItemId: String(item.id) } },
+  };
+}
+
+/** Google answers 404 or 410 for events deleted on the calendar side */
+export function isEventGone(err: unknown): boolean {
+  const code = (err as { code?: number }).code;
+  return code === 404 || code === 410;
+}
+
+/** Tokens granted before event writes were requested get a 403 */
+export function isScopeError(err: unknown): boolean {
+  const error = err as { code?: number; message?: string };
+  return error.code === 403 || !!error.message?.includes('scope');
+}
+
+/**
+ * Move an ISO datetime by whole days in server local time, so a block
+ * keeps its time of day across a daylight-saving change.
+ */
+function shiftDays(iso: string, days: number): string {
+  const date = new Date(iso);
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+}
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+/**
+ * Bring an item's block in line with a change to the item. `before` and
+ * `after` are the item rows either side of the change.
+ */
+export async function syncCalendarBlock(prisma: PrismaClient, before: BlockItem, after: BlockItem): Promise<void> {
+  const block = readCalendarBlock(after.metadata);
+  if (!block) return;
+
+  const closed = (DONE_STATUSES.includes(after.status) && !DONE_STATUSES.includes(before.status))
+    || (after.deletedAt !== null && before.deletedAt === null);
+  const dueMoved = before.dueDate && after.dueDate && before.dueDate.getTime() !== after.dueDate.getTime();
+  const renamed = before.title !== after.title;
+  if (!closed && !dueMoved && !renamed) return;
+
+  // Finding the credentials throws without a knowledge base path
+  const calendar = await getCalendarClient().catch(() => null);
+  if (!calendar) return;
+
+  const forget = () => prisma.item.update({
+    where: { id: after.id },
+    data: { metadata: writeCalendarBlock(after.metadata, null) },
+  });
+
+  try {
+    if (closed) {
+      if (new Date(block.start) > new Date()) {
+        await calendar.events.delete({ calendarId: block.calendarId, eventId: block.eventId });
+      }
+      await forget();
+      return;
+    }
+
+    const patch: calendar_v3.Schema$Event = {};
+    let moved: CalendarBlock | null = null;
+    if (dueMoved) {
+      const days = Math.round((after.dueDate!.getTime() - before.dueDate!.getTime()) / 86_400_000);
+      moved = { ...block, start: shiftDays(block.start, days), end: shiftDays(block.end, days) };
+      patch.start = { dateTime: moved.start };
+      patch.end = { dateTime: moved.end };
+    }
+    if (renamed) patch.summary = blockSummary(after.title);
+
+    await calendar.events.patch({ calendarId: block.calendarId, eventId: block.eventId, requestBody: patch });
+    if (moved) {
+      await prisma.item.update({
+        where: { id: after.id },
+        data: { metadata: writeCalendarBlock(after.metadata, moved) },
+      });
+    }
+  } catch (err) {
+    if (isEventGone(err)) {
+      await forget();
+      return;
+    }
+    console.error(`[calendar] Failed to sync block for ${formatTaskId(after.id)}:`, err);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Dependency Graph
+ *
+ * Follows "blocks" links transitively from a project's items and runs a
+ * simple critical-path analysis over the result. Every open item counts as
+ * one day of work and done items as none, so an item's earliest finish is
+ * today plus the length of the open chain in front of it. The latest finish
+ * comes from due dates (and the project deadline) pushed back through the
+ * items each one blocks; the difference is its slack.
+ *
+ * A link that closes a cycle can't be created through the API (see
+ * findBlockingPath), but imported data may still contain one. Items in a
+ * cycle are reported and left out of the analysis.
+ */
+
+import type { DependencyGraph, DependencyGraphNode } from '@kw/api-types';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { formatTaskId } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DONE_STATUSES = ['complete', 'cancelled'];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toDay(date: Date | string): number {
+  const time = typeof date === 'string' ? Date.parse(`${date}T00:00:00.000Z`) : date.getTime();
+  return Math.floor(time / DAY_MS);
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+async function projectAndDescendantIds(prisma: PrismaClient, projectId: number): Promise<number[]> {
+  const ids = [projectId];
+  let frontier = [projectId];
+  while (frontier.length > 0) {
+    const children = await prisma.project.findMany({
+      where: { parentId: { in: frontier } },
+      select: { id: true },
+    });
+    frontier = children.map(c => c.id).filter(id => !ids.includes(id));
+    ids.push(...frontier);
+  }
+  return ids;
+}
+
+/**
+ * Strongly connected components with more than one item (Tarjan)
+ */
+function findCycles(ids: number[], successors: Map<number, number[]>): number[][] {
+  const index = new Map<number, number>();
+  const lowLink = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const cycles: number[][] = [];
+  let counter = 0;
+
+  const visit = (id: number) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of successors.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (const id of ids) {
+    if (!index.has(id)) visit(id);
+  }
+  return cycles;
+}
+
+// =============================================================================
+// CYCLE CHECK
+// =============================================================================
+
+/**
+ * Chain of "blocks" links from one item to another, or null if there is none.
+ * Adding "to blocks from" would close a cycle exactly when this finds a path.
+ */
+export async function findBlockingPath(
+  prisma: PrismaClient,
+  fromId: number,
+  toId: number
+): Promise<number[] | null> {
+  const previous = new Map<number, number>([[fromId, fromId]]);
+  let frontier = [fromId];
+
+  while (frontier.length > 0) {
+    const links = await prisma.itemLink.findMany({
+      where: { linkType: 'blocks', fromId: { in: frontier } },
+      select: { fromId: true, toId: true },
+    });
+
+    frontier = [];
+    for (const link of links) {
+      if (previous.has(link.toId)) continue;
+      previous.set(link.toId, link.fromId);
+      if (link.toId === toId) {
+        const path = [toId];
+        while (path[0] !== fromId) path.unshift(previous.get(path[0])!);
+        return path;
+      }
+      frontier.push(link.toId);
+    }
+  }
+  return null;
+}
+
+/**
+ * Message for a link that would close a cycle, e.g.
+ * "Would create a cycle: T-3 → T-1 → T-2 → T-3"
+ */
+export function describeCycle(path: number[]): string {
+  return `Would create a cycle: ${[...path, path[0]].map(formatTaskId).join(' → ')}`;
+}
+
+// =============================================================================
+// GRAPH
+// =============================================================================
+
+/**
+ * Build the dependency graph for a project (including its workstreams).
+ * The deadline defaults to the latest due date among the project's open
+ * items in the graph.
+ */
+export async function buildDependencyGraph(
+  prisma: PrismaClient,
+  options: { projectId: number; deadline?: string; today?: string }
+): Promise<DependencyGraph> {
+  const projectIds = await projectAndDescendantIds(prisma, options.projectId);
+  const projectItems = await prisma.item.findMany({
+    where: { projectId: { in: projectIds }, deletedAt: null },
+    select: { id: true },
+  });
+
+  // Follow links in both directions until nothing new turns up
+  const seen = new Set(projectItems.map(i => i.id));
+  const edgeKeys = new Set<string>();
+  const edges: { from: number; to: number }[] = [];
+  let frontier = [...seen];
+  while (frontier.length > 0) {
+    const links = await prisma.itemLink.findMany({
+      where: {
+        linkType: 'blocks',
+        OR: [{ fromId: { in: frontier } }, { toId: { in: frontier } }],
+        from: { deletedAt: null },
+        to: { deletedAt: null },
+      },
+      select: { fromId: true, toId: true },
+    });
+
+    frontier = [];
+    for (const link of links) {
+      const key = `${link.fromId}:${link.toId}`;
+      if (edgeKeys.has(key)) continue;
+      edgeKeys.add(key);
+      edges.push({ from: link.fromId, to: link.toId });
+      for (const id of [link.fromId, link.toId]) {
+        if (!seen.has(id)) {
+          seen.add(id);
+          frontier.push(id);
+        }
+      }
+    }
+  }
+
+  // Only items with at least one link belong in the graph
+  const linkedIds = [...new Set(edges.flatMap(e => [e.from, e.to]))].sort((a, b) => a - b);
+  const items = await prisma.item.findMany({
+    where: { id: { in: linkedIds } },
+    select: { id: true, title: true, status: true, dueDate: true, projectId: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const predecessors = new Map<number, number[]>();
+  const successors = new Map<number, number[]>();
+  for (const edge of edges) {
+    successors.set(edge.from, [...(successors.get(edge.from) ?? []), edge.to]);
+    predecessors.set(edge.to, [...(predecessors.get(edge.to) ?? []), edge.from]);
+  }
+
+  const cycles = findCycles(linkedIds, successors);
+  const inCycle = new Set(cycles.flat());
+  const byId = new Map(items.map(i => [i.id, i]));
+  const isDone = (id: number) => DONE_STATUSES.includes(byId.get(id)!.status);
+  const isInternal = (id: number) => projectIds.includes(byId.get(id)!.projectId ?? -1);
+  const planned = linkedIds.filter(id => !inCycle.has(id) && !isDone(id));
+  const plannedSet = new Set(planned);
+  const plannedPreds = (id: number) => (predecessors.get(id) ?? []).filter(p => plannedSet.has(p));
+  const plannedSuccs = (id: number) => (successors.get(id) ?? []).filter(s => plannedSet.has(s));
+
+  // Topological order of the open, acyclic part
+  const order: number[] = [];
+  const inDegree = new Map(planned.map(id => [id, plannedPreds(id).length]));
+  const queue = planned.filter(id => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of plannedSuccs(id)) {
+      inDegree.set(next, inDegree.get(next)! - 1);
+      if (inDegree.get(next) === 0) queue.push(next);
+    }
+  }
+
+  const deadline = options.deadline ?? items
+    .filter(i => i.dueDate && plannedSet.has(i.id) && isInternal(i.id))
+    .map(i => i.dueDate!.toISOString().split('T')[0])
+    .sort()
+    .pop() ?? null;
+
+  // Forward pass: one day per open item, starting today
+  const today = toDay(options.today ?? new Date());
+  const earliest = new Map<number, number>();
+  for (const id of order) {
+    const after = Math.max(today - 1, ...plannedPreds(id).map(p => earliest.get(p)!));
+    earliest.set(id, after + 1);
+  }
+
+  // Backward pass: the tightest of the item's due date, the deadline and the
+  // day before anything it blocks has to be finished
+  const latest = new Map<number, number>();
+  for (const id of [...order].reverse()) {
+    const item = byId.get(id)!;
+    const limits = plannedSuccs(id)
+      .filter(s => latest.has(s))
+      .map(s => latest.get(s)! - 1);
+    if (item.dueDate) limits.push(toDay(item.dueDate));
+    if (deadline && isInternal(id)) limits.push(toDay(deadline));
+    if (limits.length > 0) latest.set(id, Math.min(...limits));
+  }
+
+  const slack = new Map([...latest].map(([id, day]) => [id, day - earliest.get(id)!]));
+
+  // Critical path: end at the tightest item (or, with no dates at all, the
+  // one finishing last) and walk back through whichever blocker finishes last
+  const byTightness = [...order].sort((a, b) =>
+    (slack.get(a) ?? Infinity) - (slack.get(b) ?? Infinity) || earliest.get(b)! - earliest.get(a)!
+  );
+  const criticalPath: number[] = [];
+  let current: number | undefined = byTightness[0];
+  while (current !== undefined) {
+    criticalPath.unshift(current);
+    current = plannedPreds(current).sort((a, b) => earliest.get(b)! - earliest.get(a)!)[0];
+  }
+  const critical = new Set(criticalPath);
+
+  const nodes: DependencyGraphNode[] = items.map(item => ({
+    id: item.id,
+    displayId: formatTaskId(item.id),
+    title: item.title,
+    status: item.status,
+    dueDate: item.dueDate ? item.dueDate.toISOString().split('T')[0] : null,
+    projectId: item.projectId,
+    external: !isInternal(item.id),
+    done: isDone(item.id),
+    earliestFinish: earliest.has(item.id) ? fromDay(earliest.get(item.id)!) : null,
+    latestFinish: latest.has(item.id) ? fromDay(latest.get(item.id)!) : null,
+    slackDays: slack.get(item.id) ?? null,
+    critical: critical.has(item.id),
+    inCycle: inCycle.has(item.id),
+  }));
+
+  return {
+    projectId: options.projectId,
+    deadline,
+    nodes,
+    edges,
+    criticalPath,
+    cycles,
+  };
+}
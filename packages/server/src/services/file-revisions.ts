@@ -0,0 +1,184 @@
+/**
+ * File revision store
+ *
+ * Keeps earlier versions of knowledge base files edited through the web
+ * editor, under .data/revisions/ in the content directory:
+ *
+ *   .data/revisions/projects/acme/README.md/
+ *     index.json        FileRevision[] (oldest first)
+ *     <sha256>.txt      content, shared by revisions with the same hash
+ *
+ * Saves are optimistic: the client sends the hash of the content it loaded
+ * and the write is refused if the file has changed since. Before a save
+ * overwrites a file that was changed outside the editor, that version is
+ * recorded as an 'external' revision, so nothing written by an agent or
+ * another tool is lost.
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, normalize, sep } from 'path';
+import type { FileRevision, FileRevisionSource } from '@kw/api-types';
+import { computeContentHash } from './hash-utils.js';
+import { getKnowledgeBasePath } from './paths.js';
+
+/** Revisions kept per file; older ones are pruned on save */
+export const MAX_REVISIONS_PER_FILE = 50;
+
+/** Top-level folders the editor may not write into */
+const PROTECTED_DIRS = ['.data', '.git', 'node_modules'];
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SaveFileResult =
+  | { ok: true; hash: string; revision: FileRevision | null }
+  | { ok: false; reason: 'conflict'; currentHash: string | null };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * True if the editor may write this KB-relative path
+ */
+export function isWritablePath(relativePath: string): boolean {
+  const first = normalize(relativePath).split(sep).filter(Boolean)[0];
+  return !!first && first !== '..' && !PROTECTED_DIRS.includes(first);
+}
+
+function revisionDir(relativePath: string): string {
+  return join(getKnowledgeBasePath(), '.data', 'revisions', normalize(relativePath));
+}
+
+function readIndex(dir: string): FileRevision[] {
+  const indexPath = join(dir, 'index.json');
+  if (!existsSync(indexPath)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(indexPath, 'utf-8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(dir: string, revisions: FileRevision[]) {
+  writeFileSync(join(dir, 'index.json'), JSON.stringify(revisions, null, 2), 'utf-8');
+}
+
+/**
+ * Drop revisions beyond the limit and blobs nothing points at any more
+ */
+function prune(dir: string, revisions: FileRevision[]): FileRevision[] {
+  const kept = revisions.slice(-MAX_REVISIONS_PER_FILE);
+  const hashes = new Set(kept.map(r => r.hash));
+  for (const name of readdirSync(dir)) {
+    if (name.endsWith('.txt') && !hashes.has(name.slice(0, -4))) {
+      rmSync(join(dir, name), { force: true });
+    }
+  }
+  return kept;
+}
+
+function readCurrent(absolutePath: string): string | null {
+  if (!existsSync(absolutePath) || statSync(absolutePath).isDirectory()) return null;
+  return readFileSync(absolutePath, 'utf-8');
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Record a version of a file. Nothing is recorded when it matches the latest
+ * revision.
+ */
+export function recordRevision(
+  relativePath: string,
+  content: string,
+  meta: { source: FileRevisionSource; actor: string | null; savedAt?: Date }
+): FileRevision | null {
+  const dir = revisionDir(relativePath);
+  const revisions = readIndex(dir);
+  const hash = computeContentHash(content);
+
+  if (revisions.at(-1)?.hash === hash) return null;
+
+  mkdirSync(dir, { recursive: true });
+  const blob = join(dir, `${hash}.txt`);
+  if (!existsSync(blob)) writeFileSync(blob, content, 'utf-8');
+
+  const savedAt = meta.savedAt ?? new Date();
+  const revision: FileRevision = {
+    id: `${savedAt.getTime().toString(36)}-${hash.slice(0, 8)}`,
+    hash,
+    size: Buffer.byteLength(content, 'utf8'),
+    savedAt: savedAt.toISOString(),
+    source: meta.source,
+    actor: meta.actor,
+  };
+
+  writeIndex(dir, prune(dir, [...revisions, revision]));
+  return revision;
+}
+
+/**
+ * Revisions of a file, newest first
+ */
+export function listRevisions(relativePath: string): FileRevision[] {
+  return readIndex(revisionDir(relativePath)).reverse();
+}
+
+/**
+ * A revision and its content, or null if it does not exist
+ */
+export function readRevision(relativePath: string, revisionId: string): (FileRevision & { content: string }) | null {
+  const dir = revisionDir(relativePath);
+  const revision = readIndex(dir).find(r => r.id === revisionId);
+  if (!revision) return null;
+
+  const blob = join(dir, `${revision.hash}.txt`);
+  if (!existsSync(blob)) return null;
+  return { ...revision, content: readFileSync(blob, 'utf-8') };
+}
+
+/**
+ * Write a file if it still matches baseHash (null = must not exist,
+ * undefined = no check), recording the previous and new versions.
+ */
+export function saveFileWithRevision(
+  absolutePath: string,
+  relativePath: string,
+  content: string,
+  options: { baseHash?: string | null; source: FileRevisionSource; actor: string | null }
+): SaveFileResult {
+  const current = readCurrent(absolutePath);
+  const currentHash = current === null ? null : computeContentHash(current);
+
+  if (options.baseHash !== undefined && options.baseHash !== currentHash) {
+    return { ok: false, reason: 'conflict', currentHash };
+  }
+
+  const hash = computeContentHash(content);
+  if (hash === currentHash) {
+    return { ok: true, hash, revision: null };
+  }
+
+  // Keep whatever is on disk now if the store hasn't seen it (edited elsewhere)
+  if (current !== null) {
+    const latest = readIndex(revisionDir(relativePath)).at(-1);
+    if (latest?.hash !== currentHash) {
+      recordRevision(relativePath, current, {
+        source: 'external',
+        actor: null,
+        savedAt: statSync(absolutePath).mtime,
+      });
+    }
+  }
+
+  mkdirSync(dirname(absolutePath), { recursive: true });
+  writeFileSync(absolutePath, content, 'utf-8');
+
+  const revision = recordRevision(relativePath, content, { source: options.source, actor: options.actor });
+  return { ok: true, hash, revision };
+}
@@ -329,6 +329,15 @@ export async function getCalendarClient(): Promise<calendar_v3.Calendar | null>
   return cachedCalendarClient;
 }
 
+/**
+ * Get configured calendar IDs from env var, defaulting to ['primary'].
+ */
+export function getConfiguredCalendarIds(): string[] {
+  const env = process.env.GOOGLE_CALENDAR_IDS;
+  if (!env) return ['primary'];
+  return env.split(',').map(id => id.trim()).filter(Boolean);
+}
+
 // =============================================================================
 // GMAIL STATUS
 // =============================================================================
@@ -368,12 +377,15 @@ export const CONTACTS_SCOPES = {
 
 export const CALENDAR_SCOPES = {
   READONLY: 'https://www.googleapis.com/auth/calendar.readonly',
+  EVENTS: 'https://www.googleapis.com/auth/calendar.events',
 } as const;
 
-// Default scopes for initial setup (read-only gmail + contacts + calendar)
+// Default scopes for initial setup (read-only gmail + contacts, calendar
+// read plus event writes for task time blocks)
 export const DEFAULT_SCOPES = [
   GMAIL_SCOPES.READONLY,
   GMAIL_SCOPES.LABELS,
   CONTACTS_SCOPES.READONLY,
   CALENDAR_SCOPES.READONLY,
+  CALENDAR_SCOPES.EVENTS,
 ];
@@ -0,0 +1,254 @@
+/**
+ * iCalendar Feed
+ *
+ * Builds the read-only ICS feed served at /ical/<token>.ics, for subscribing
+ * from a calendar app:
+ * - open items with a due date, as all-day VEVENTs (or VTODOs with a DUE date)
+ * - pending check-ins, as all-day VEVENTs
+ * - the next few occurrences of each routine: timed at its recurrence time
+ *   (floating, i.e. the subscriber's local time) or all-day without one
+ *
+ * UIDs are stable across refreshes so calendar apps update entries in place.
+ */
+
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { formatTaskId } from '../types/index.js';
+import { getNextDueDate, isDueOnDate, toDateStr } from './routine-generator-prisma.js';
+import { ROUTINE_MINUTES } from './planning.js';
+
+const PRODID = '-//KnowledgeWork//Task Feed//EN';
+const UID_DOMAIN = 'knowledgework';
+const DONE_STATUSES = ['complete', 'cancelled'];
+
+export interface ICalFeedOptions {
+  ownerId?: number;
+  /** Organization slug; matches items in that organization's projects */
+  orgSlug?: string;
+  /** Upcoming occurrences per routine */
+  routineOccurrences: number;
+  /** Items as VTODO instead of VEVENT */
+  todos?: boolean;
+  /** First day for routine occurrences (default today) */
+  today?: Date;
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with a leading space
+ * (RFC 5545 3.1). Never splits a multi-byte character.
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** 20261020T093000Z */
+function utcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** 2026-10-20 -> 20261020 */
+function dateValue(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0];
+}
+
+/** Task priority 1-4 to iCalendar's 1 (highest) to 9 */
+function icalPriority(priority: number | null): number | null {
+  return priority ? priority * 2 - 1 : null;
+}
+
+type Property = [name: string, value: string | number | null | undefined];
+
+function component(type: 'VEVENT' | 'VTODO', properties: Property[]): string[] {
+  return [
+    `BEGIN:${type}`,
+    ...properties.filter(([, value]) => value !== null && value !== undefined && value !== '').map(([name, value]) => `${name}:${value}`),
+    `END:${type}`,
+  ];
+}
+
+// =============================================================================
+// FEED
+// =============================================================================
+
+/**
+ * Dates (YYYY-MM-DD) of the next `count` occurrences of a routine from
+ * `from`, skipping ones already completed or skipped
+ */
+export function upcomingOccurrences(
+  routine: Parameters<typeof isDueOnDate>[0],
+  from: Date,
+  count: number,
+  handled: Set<string> = new Set()
+): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(from);
+  cursor.setHours(0, 0, 0, 0);
+  const horizon = new Date(cursor);
+  horizon.setFullYear(horizon.getFullYear() + 1);
+
+  while (dates.length < count && cursor < horizon) {
+    const next = getNextDueDate(routine, cursor);
+    if (!next) break;
+    const date = toDateStr(next);
+    if (!handled.has(date)) dates.push(date);
+    cursor.setTime(next.getTime());
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return dates;
+}
+
+export async function buildICalFeed(prisma: PrismaClient, options: ICalFeedOptions): Promise<string> {
+  const today = options.today ?? new Date();
+  const todayStart = new Date(`${toDateStr(today)}T00:00:00.000Z`);
+  const stamp = utcStamp(new Date());
+  const scope = {
+    deletedAt: null,
+    ...(options.ownerId !== undefined && { ownerId: options.ownerId }),
+    ...(options.orgSlug !== undefined && { project: { organization: { slug: options.orgSlug } } }),
+  };
+
+  const [items, checkins, routines] = await Promise.all([
+    prisma.item.findMany({
+      where: { ...scope, itemType: { not: 'routine' }, status: { notIn: DONE_STATUSES }, dueDate: { not: null } },
+      include: { project: { select: { name: true } }, owner: { select: { name: true } } },
+      orderBy: [{ dueDate: 'asc' }, { id: 'asc' }],
+    }),
+    prisma.checkIn.findMany({
+      where: { completed: false, item: { ...scope, status: { notIn: DONE_STATUSES } } },
+      include: { item: { select: { id: true, title: true } } },
+      orderBy: [{ date: 'asc' }, { id: 'asc' }],
+    }),
+    options.routineOccurrences > 0
+      ? prisma.item.findMany({
+        where: { ...scope, itemType: 'routine', recurrenceRule: { not: null } },
+        include: {
+          routineCompletions: { where: { completedDate: { gte: todayStart } }, select: { completedDate: true } },
+          routineSkips: { where: { skipDate: { gte: todayStart } }, select: { skipDate: true } },
+        },
+        orderBy: { id: 'asc' },
+      })
+      : Promise.resolve([]),
+  ]);
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:KnowledgeWork',
+  ];
+
+  for (const item of items) {
+    const displayId = formatTaskId(item.id);
+    const due = item.dueDate!.toISOString().split('T')[0];
+    const description = [
+      displayId,
+      item.project && `Project: ${item.project.name}`,
+      item.owner && `Owner: ${item.owner.name}`,
+      `Status: ${item.status}`,
+    ].filter(Boolean).join('\n');
+
+    const common: Property[] = [
+      ['UID', `item-${item.id}@${UID_DOMAIN}`],
+      ['DTSTAMP', stamp],
+      ['LAST-MODIFIED', utcStamp(item.updatedAt)],
+      ['SUMMARY', escapeText(`${item.title} (${displayId})`)],
+      ['DESCRIPTION', escapeText(description)],
+      ['PRIORITY', icalPriority(item.priority)],
+    ];
+
+    lines.push(...(options.todos
+      ? component('VTODO', [
+        ...common,
+        ['DUE;VALUE=DATE', dateValue(due)],
+        ['STATUS', item.status === 'in_progress' ? 'IN-PROCESS' : 'NEEDS-ACTION'],
+      ])
+      : component('VEVENT', [
+        ...common,
+        ['DTSTART;VALUE=DATE', dateValue(due)],
+        ['DTEND;VALUE=DATE', dateValue(nextDay(due))],
+        ['TRANSP', 'TRANSPARENT'],
+      ])));
+  }
+
+  for (const checkin of checkins) {
+    const date = checkin.date.toISOString().split('T')[0];
+    lines.push(...component('VEVENT', [
+      ['UID', `checkin-${checkin.id}@${UID_DOMAIN}`],
+      ['DTSTAMP', stamp],
+      ['SUMMARY', escapeText(`Check-in: ${checkin.item.title} (${formatTaskId(checkin.item.id)})`)],
+      ['DESCRIPTION', checkin.note ? escapeText(checkin.note) : null],
+      ['DTSTART;VALUE=DATE', dateValue(date)],
+      ['DTEND;VALUE=DATE', dateValue(nextDay(date))],
+      ['TRANSP', 'TRANSPARENT'],
+    ]));
+  }
+
+  for (const routine of routines) {
+    const handled = new Set([
+      ...routine.routineCompletions.map(c => c.completedDate.toISOString().split('T')[0]),
+      ...routine.routineSkips.map(s => s.skipDate.toISOString().split('T')[0]),
+    ]);
+    const time = routine.recurrenceTime?.match(/^(\d{1,2}):(\d{2})$/);
+
+    for (const date of upcomingOccurrences(routine, today, options.routineOccurrences, handled)) {
+      const timing: Property[] = time
+        ? [
+          ['DTSTART', `${dateValue(date)}T${time[1].padStart(2, '0')}${time[2]}00`],
+          ['DURATION', `PT${routine.estimateMinutes ?? ROUTINE_MINUTES}M`],
+        ]
+        : [
+          ['DTSTART;VALUE=DATE', dateValue(date)],
+          ['DTEND;VALUE=DATE', dateValue(nextDay(date))],
+          ['TRANSP', 'TRANSPARENT'],
+        ];
+
+      lines.push(...component('VEVENT', [
+        ['UID', `routine-${routine.id}-${dateValue(date)}@${UID_DOMAIN}`],
+        ['DTSTAMP', stamp],
+        ['SUMMARY', escapeText(routine.title)],
+        ...timing,
+      ]));
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
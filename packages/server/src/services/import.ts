@@ -0,0 +1,829 @@
+/**
+ * Import
+ *
+ * Brings tasks in from other tools. Each format is parsed into the same rows
+ * (title, dates, project/owner/tag names, parent reference), then planned
+ * against the database:
+ * - projects are matched by name or slug, people and tags by name (all
+ *   case-insensitive); unknown ones are created when allowed. New projects
+ *   need an organization.
+ * - a row whose title already exists in the same project, in the database or
+ *   earlier in the file, is a duplicate and skipped; its subtasks attach to
+ *   the existing item.
+ *
+ * The plan is what import.preview returns; import.commit creates it in one
+ * transaction. Items record where they came from in sourceType ('todoist' or
+ * 'import') and sourcePath/sourceLine.
+ *
+ * Parse errors throw a plain Error with a message for the user.
+ */
+
+import {
+  ItemStatusSchema,
+  type CsvColumnMapping,
+  type ImportFormat,
+  type ImportPreview,
+  type ImportRow,
+} from '@kw/api-types';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { formatTaskId } from '../types/index.js';
+import { toDateStr } from './routine-generator-prisma.js';
+import { actorLabel, type Actor } from './audit.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A task read from the file, before anything is looked up */
+export interface ParsedRow {
+  /** Line in a CSV, position in a JSON list (1-based) */
+  row: number;
+  /** Source id, used by parentRef */
+  ref: string;
+  title: string;
+  description: string | null;
+  dueDate: string | null;
+  priority: number | null;
+  status: string;
+  completedAt: Date | null;
+  estimateMinutes: number | null;
+  project: string | null;
+  owner: string | null;
+  tags: string[];
+  /** Parent's ref, or for generic CSV its title */
+  parentRef: string | null;
+  sourcePath: string | null;
+  sourceLine: number | null;
+}
+
+export interface ParsedImport {
+  sourceType: 'todoist' | 'import';
+  rows: ParsedRow[];
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  format: ImportFormat;
+  fileName?: string;
+  mapping?: Partial<CsvColumnMapping>;
+  /** Organization to match and create projects in */
+  orgId: number | null;
+  /** Project for rows that don't name one */
+  defaultProject: { id: number; name: string } | null;
+  createMissing: boolean;
+}
+
+type ProjectRef = { id: number; name: string } | { create: string };
+
+interface PlannedRow extends ParsedRow {
+  projectRef: ProjectRef | null;
+  ownerName: string | null;
+  tagNames: string[];
+  /** Index of the parent row */
+  parentIndex: number | null;
+  /** Existing item the row duplicates */
+  existingId: number | null;
+  /** Earlier row the row duplicates */
+  duplicateIndex: number | null;
+}
+
+export interface ImportPlan {
+  sourceType: 'todoist' | 'import';
+  rows: PlannedRow[];
+  orgId: number | null;
+  /** Names to create, keyed by lower case */
+  newProjects: Map<string, string>;
+  newPeople: Map<string, string>;
+  newTags: Map<string, string>;
+  /** Existing records, keyed by lower-case name */
+  people: Map<string, number>;
+  tags: Map<string, number>;
+  preview: ImportPreview;
+}
+
+export interface ImportCreated {
+  itemIds: number[];
+  projectIds: number[];
+  personIds: number[];
+  tagIds: number[];
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may hold
+ * commas, newlines and "" for a quote). A leading byte-order mark is dropped.
+ * Blank lines are kept as empty rows so indexes stay line-like.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function isBlank(row: string[]): boolean {
+  return row.every(field => field.trim() === '');
+}
+
+// =============================================================================
+// VALUES
+// =============================================================================
+
+const STATUS_ALIASES: Record<string, string> = {
+  done: 'complete',
+  completed: 'complete',
+  closed: 'complete',
+  todo: 'pending',
+  to_do: 'pending',
+  open: 'pending',
+  not_started: 'pending',
+  doing: 'in_progress',
+  started: 'in_progress',
+  waiting: 'blocked',
+  canceled: 'cancelled',
+};
+
+/** YYYY-MM-DD from an ISO date or datetime, or anything Date.parse reads with a year in it */
+function readDate(value: string, warnings: string[], where: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+  const parsed = Date.parse(text);
+  if (/\d{4}/.test(text) && !Number.isNaN(parsed)) return toDateStr(new Date(parsed));
+  warnings.push(`${where}: couldn't read date "${text}", left without a due date`);
+  return null;
+}
+
+/** 1-4 or p1-p4 */
+function readPriority(value: string, warnings: string[], where: string): number | null {
+  const text = value.trim();
+  if (!text) return null;
+  const match = text.match(/^p?([1-4])$/i);
+  if (match) return Number(match[1]);
+  warnings.push(`${where}: unknown priority "${text}", ignored`);
+  return null;
+}
+
+function readStatus(value: string, warnings: string[], where: string): string {
+  const text = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (!text) return 'pending';
+  const status = STATUS_ALIASES[text] ?? text;
+  if (ItemStatusSchema.safeParse(status).success) return status;
+  warnings.push(`${where}: unknown status "${value.trim()}", imported as pending`);
+  return 'pending';
+}
+
+function readMinutes(value: string): number | null {
+  const minutes = Number(value.trim());
+  return value.trim() && Number.isInteger(minutes) && minutes > 0 ? minutes : null;
+}
+
+/** Todoist's API numbers priority backwards: 4 is p1, 1 is p4 (none) */
+function todoistPriority(priority: unknown): number | null {
+  return typeof priority === 'number' && priority >= 2 && priority <= 4 ? 5 - priority : null;
+}
+
+/** "Report.csv" -> "Report" */
+function baseName(fileName: string | undefined): string | null {
+  const name = fileName?.split(/[\\/]/).pop()?.replace(/\.[^.]+$/, '').trim();
+  return name || null;
+}
+
+function emptyRow(row: number, ref: string, title: string): ParsedRow {
+  return {
+    row,
+    ref,
+    title,
+    description: null,
+    dueDate: null,
+    priority: null,
+    status: 'pending',
+    completedAt: null,
+    estimateMinutes: null,
+    project: null,
+    owner: null,
+    tags: [],
+    parentRef: null,
+    sourcePath: null,
+    sourceLine: null,
+  };
+}
+
+// =============================================================================
+// FORMATS
+// =============================================================================
+
+/**
+ * Todoist project template export: one CSV per project with TYPE (task,
+ * note, section), CONTENT, DESCRIPTION, PRIORITY (1 = p1), INDENT for
+ * subtasks, RESPONSIBLE and DATE. Labels are @words in CONTENT. The project
+ * is named after the file.
+ */
+function parseTodoistCsv(content: string, fileName: string | undefined): ParsedImport {
+  const [header = [], ...lines] = parseCsv(content);
+  const columns = new Map(header.map((name, i) => [name.trim().toUpperCase(), i]));
+  if (!columns.has('TYPE') || !columns.has('CONTENT')) {
+    throw new Error('Not a Todoist CSV export: expected TYPE and CONTENT columns');
+  }
+  const get = (line: string[], name: string) => line[columns.get(name) ?? -1]?.trim() ?? '';
+
+  const project = baseName(fileName);
+  const warnings: string[] = [];
+  const rows: ParsedRow[] = [];
+  // Refs of the latest task at each indent level
+  const stack: string[] = [];
+
+  lines.forEach((line, i) => {
+    if (isBlank(line)) return;
+    const lineNumber = i + 2;
+    const where = `Line ${lineNumber}`;
+    const type = get(line, 'TYPE').toLowerCase();
+
+    if (type === 'note') {
+      const last = rows[rows.length - 1];
+      const note = get(line, 'CONTENT');
+      if (last && note) last.description = last.description ? `${last.description}\n\n${note}` : note;
+      return;
+    }
+    if (type === 'section') {
+      stack.length = 0;
+      return;
+    }
+    if (type !== 'task') return;
+
+    const tags: string[] = [];
+    const title = get(line, 'CONTENT')
+      .replace(/(^|\s)@([\w-]+)/g, (_, space: string, label: string) => {
+        tags.push(label);
+        return space;
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!title) {
+      warnings.push(`${where}: task without content, skipped`);
+      return;
+    }
+
+    const indent = Math.max(1, Number(get(line, 'INDENT')) || 1);
+    const ref = `line${lineNumber}`;
+    stack.length = Math.min(stack.length, indent - 1);
+    const parentRef = indent > 1 ? stack[indent - 2] ?? null : null;
+    stack[indent - 1] = ref;
+
+    const date = get(line, 'DATE');
+    const dueDate = /^\d{4}-\d{2}-\d{2}/.test(date) ? date.slice(0, 10) : null;
+    if (date && !dueDate) warnings.push(`${where}: date "${date}" isn't a fixed date, left without a due date`);
+
+    const priority = Number(get(line, 'PRIORITY'));
+    rows.push({
+      ...emptyRow(rows.length + 1, ref, title),
+      description: get(line, 'DESCRIPTION') || null,
+      dueDate,
+      priority: priority >= 1 && priority <= 3 ? priority : null,
+      estimateMinutes: get(line, 'DURATION_UNIT') === 'minute' ? readMinutes(get(line, 'DURATION')) : null,
+      project,
+      owner: get(line, 'RESPONSIBLE').replace(/\s*\(\d+\)$/, '') || null,
+      tags,
+      parentRef,
+      sourcePath: fileName ?? null,
+      sourceLine: lineNumber,
+    });
+  });
+
+  return { sourceType: 'todoist', rows, warnings };
+}
+
+interface TodoistTask {
+  id?: string | number;
+  content?: string;
+  description?: string;
+  priority?: number;
+  due?: { date?: string; is_recurring?: boolean } | null;
+  project_id?: string | number;
+  parent_id?: string | number | null;
+  labels?: unknown[];
+  responsible_uid?: string | number | null;
+  assignee_id?: string | number | null;
+  checked?: boolean;
+  is_completed?: boolean;
+  completed_at?: string | null;
+  is_deleted?: boolean;
+  duration?: { amount?: number; unit?: string } | null;
+}
+
+/**
+ * Todoist JSON: a Sync API backup ({ items, projects, collaborators }) or a
+ * plain task list from the REST API. Project and assignee names come from
+ * the backup; a bare list only has ids, so its tasks go to the default project.
+ */
+function parseTodoistJson(content: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${(err as Error).message}`);
+  }
+
+  const backup = (data && typeof data === 'object' && !Array.isArray(data) ? data : {}) as Record<string, unknown>;
+  const tasks = Array.isArray(data) ? data : backup.items ?? backup.tasks ?? backup.results;
+  if (!Array.isArray(tasks)) {
+    throw new Error('Not a Todoist export: expected a task list or a backup with "items"');
+  }
+
+  // Inbox tasks aren't in a project as far as we're concerned
+  const projects = new Map(
+    (Array.isArray(backup.projects) ? backup.projects : [])
+      .filter((p: Record<string, unknown>) => !p.inbox_project && !p.is_inbox_project)
+      .map((p: Record<string, unknown>) => [String(p.id), String(p.name)])
+  );
+  const people = new Map(
+    (Array.isArray(backup.collaborators) ? backup.collaborators : [])
+      .map((c: Record<string, unknown>) => [String(c.id), String(c.full_name ?? c.name)])
+  );
+
+  const warnings: string[] = [];
+  const rows: ParsedRow[] = [];
+  (tasks as TodoistTask[]).forEach((task, i) => {
+    if (task.is_deleted) return;
+    const where = `Task ${task.id ?? i + 1}`;
+    const title = typeof task.content === 'string' ? task.content.trim() : '';
+    if (!title) {
+      warnings.push(`${where}: task without content, skipped`);
+      return;
+    }
+    if (task.due?.is_recurring) {
+      warnings.push(`${where}: recurring in Todoist, imported with its next due date only`);
+    }
+
+    const done = !!(task.checked || task.is_completed);
+    const assignee = task.responsible_uid ?? task.assignee_id;
+    rows.push({
+      ...emptyRow(rows.length + 1, String(task.id ?? `task${i + 1}`), title),
+      description: task.description || null,
+      dueDate: task.due?.date ? readDate(task.due.date, warnings, where) : null,
+      priority: todoistPriority(task.priority),
+      status: done ? 'complete' : 'pending',
+      completedAt: done ? new Date(task.completed_at ?? Date.now()) : null,
+      estimateMinutes: task.duration?.unit === 'minute' && task.duration.amount ? task.duration.amount : null,
+      project: task.project_id != null ? projects.get(String(task.project_id)) ?? null : null,
+      owner: assignee != null ? people.get(String(assignee)) ?? null : null,
+      tags: (task.labels ?? []).filter((l): l is string => typeof l === 'string'),
+      parentRef: task.parent_id != null ? String(task.parent_id) : null,
+      sourcePath: task.id != null ? `todoist:${task.id}` : null,
+    });
+  });
+
+  return { sourceType: 'todoist', rows, warnings };
+}
+
+/** Headers tried for each field when no mapping is given */
+const COLUMN_ALIASES: Record<keyof CsvColumnMapping, string[]> = {
+  title: ['title', 'name', 'task', 'content', 'summary'],
+  id: ['id', 'ref'],
+  description: ['description', 'notes', 'details'],
+  dueDate: ['duedate', 'due date', 'due_date', 'due', 'deadline'],
+  priority: ['priority'],
+  status: ['status', 'state'],
+  project: ['project'],
+  owner: ['owner', 'assignee', 'responsible'],
+  tags: ['tags', 'labels'],
+  parent: ['parent'],
+  estimate: ['estimate', 'estimateminutes', 'estimate_minutes', 'minutes'],
+};
+
+/**
+ * Any CSV with a header row. Columns are mapped to fields explicitly, or
+ * found by common header names.
+ */
+function parseGenericCsv(
+  content: string,
+  fileName: string | undefined,
+  mapping: Partial<CsvColumnMapping> | undefined
+): ParsedImport {
+  const [header = [], ...lines] = parseCsv(content);
+  const columns = new Map(header.map((name, i) => [name.trim().toLowerCase(), i]));
+
+  const index: Partial<Record<keyof CsvColumnMapping, number>> = {};
+  for (const field of Object.keys(COLUMN_ALIASES) as (keyof CsvColumnMapping)[]) {
+    const mapped = mapping?.[field];
+    if (mapped) {
+      const i = columns.get(mapped.trim().toLowerCase());
+      if (i === undefined) throw new Error(`Column "${mapped}" (for ${field}) not found in the header`);
+      index[field] = i;
+    } else {
+      const alias = COLUMN_ALIASES[field].find(name => columns.has(name));
+      if (alias) index[field] = columns.get(alias);
+    }
+  }
+  if (index.title === undefined) {
+    throw new Error(`No title column: map one, e.g. title=${header[0]?.trim() || 'Name'}`);
+  }
+
+  const get = (line: string[], field: keyof CsvColumnMapping) =>
+    index[field] !== undefined ? line[index[field]!]?.trim() ?? '' : '';
+
+  const warnings: string[] = [];
+  const rows: ParsedRow[] = [];
+  lines.forEach((line, i) => {
+    if (isBlank(line)) return;
+    const lineNumber = i + 2;
+    const where = `Line ${lineNumber}`;
+    const title = get(line, 'title');
+    if (!title) {
+      warnings.push(`${where}: no title, skipped`);
+      return;
+    }
+
+    const dueDate = readDate(get(line, 'dueDate'), warnings, where);
+    const priority = readPriority(get(line, 'priority'), warnings, where);
+    const status = readStatus(get(line, 'status'), warnings, where);
+    rows.push({
+      ...emptyRow(rows.length + 1, get(line, 'id') || `line${lineNumber}`, title),
+      description: get(line, 'description') || null,
+      dueDate,
+      priority,
+      status,
+      completedAt: status === 'complete' ? new Date() : null,
+      estimateMinutes: readMinutes(get(line, 'estimate')),
+      project: get(line, 'project') || null,
+      owner: get(line, 'owner') || null,
+      tags: get(line, 'tags').split(/[,;|]/).map(t => t.trim().replace(/^#/, '')).filter(Boolean),
+      parentRef: get(line, 'parent') || null,
+      sourcePath: fileName ?? null,
+      sourceLine: lineNumber,
+    });
+  });
+
+  return { sourceType: 'import', rows, warnings };
+}
+
+/**
+ * Read a file in one of the supported formats
+ */
+export function parseImport(
+  format: ImportFormat,
+  content: string,
+  options: { fileName?: string; mapping?: Partial<CsvColumnMapping> } = {}
+): ParsedImport {
+  switch (format) {
+    case 'todoist-json':
+      return parseTodoistJson(content);
+    case 'todoist-csv':
+      return parseTodoistCsv(content, options.fileName);
+    case 'csv':
+      return parseGenericCsv(content, options.fileName, options.mapping);
+  }
+}
+
+// =============================================================================
+// PLAN
+// =============================================================================
+
+/** "Q3 Launch!" -> "q3-launch" */
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
+}
+
+function projectKey(ref: ProjectRef | null): string {
+  if (!ref) return 'none';
+  return 'id' in ref ? `id:${ref.id}` : `new:${ref.create.toLowerCase()}`;
+}
+
+/**
+ * Parse a file and work out what importing it would create
+ */
+export async function planImport(prisma: PrismaClient, content: string, options: ImportOptions): Promise<ImportPlan> {
+  const parsed = parseImport(options.format, content, options);
+  const warnings = [...parsed.warnings];
+  const { rows } = parsed;
+
+  // Projects
+  const projectNames = [...new Set(rows.map(r => r.project).filter((p): p is string => !!p))];
+  const projects = projectNames.length > 0
+    ? await prisma.project.findMany({
+      where: options.orgId !== null ? { orgId: options.orgId } : {},
+      select: { id: true, name: true, slug: true, organization: { select: { slug: true } } },
+    })
+    : [];
+  const newProjects = new Map<string, string>();
+  const projectRefs = new Map<string, ProjectRef | null>();
+  for (const name of projectNames) {
+    const lower = name.toLowerCase();
+    const matches = projects.filter(p => p.name.toLowerCase() === lower || p.slug === lower || p.slug === slugify(name));
+    if (matches.length === 1) {
+      projectRefs.set(name, { id: matches[0].id, name: matches[0].name });
+    } else if (matches.length > 1) {
+      const choices = matches.map(p => `${p.organization?.slug ?? '?'}/${p.slug}`).join(', ');
+      warnings.push(`Project "${name}" is ambiguous (${choices}): pick an organization`);
+      projectRefs.set(name, null);
+    } else if (options.createMissing && options.orgId !== null) {
+      if (!newProjects.has(lower)) newProjects.set(lower, name);
+      projectRefs.set(name, { create: newProjects.get(lower)! });
+    } else {
+      warnings.push(options.orgId === null
+        ? `Project "${name}" not found: pick an organization to create it in`
+        : `Project "${name}" not found`);
+      projectRefs.set(name, null);
+    }
+  }
+
+  // People and tags
+  const [people, tags] = await Promise.all([
+    prisma.person.findMany({ select: { id: true, name: true } }),
+    prisma.tag.findMany({ select: { id: true, name: true } }),
+  ]);
+  const personIds = new Map(people.map(p => [p.name.toLowerCase(), p.id]));
+  const tagIds = new Map(tags.map(t => [t.name.toLowerCase(), t.id]));
+  const newPeople = new Map<string, string>();
+  const newTags = new Map<string, string>();
+  const missingPeople = new Set<string>();
+  const missingTags = new Set<string>();
+
+  const resolveName = (
+    name: string,
+    existing: Map<string, number>,
+    created: Map<string, string>,
+    missing: Set<string>
+  ): string | null => {
+    const lower = name.toLowerCase();
+    if (existing.has(lower) || created.has(lower)) return lower;
+    if (options.createMissing) {
+      created.set(lower, name);
+      return lower;
+    }
+    missing.add(name);
+    return null;
+  };
+
+  // Parents: by ref, or for generic CSV by the title of an earlier row
+  const byRef = new Map(rows.map((r, i) => [r.ref, i]));
+  const byTitle = new Map<string, number>();
+  const planned: PlannedRow[] = rows.map((row, i) => {
+    let parentIndex: number | null = null;
+    if (row.parentRef) {
+      parentIndex = byRef.get(row.parentRef) ?? byTitle.get(row.parentRef.toLowerCase()) ?? null;
+      if (parentIndex === i) parentIndex = null;
+      if (parentIndex === null) warnings.push(`Row ${row.row} (${row.title}): parent "${row.parentRef}" not found`);
+    }
+    if (!byTitle.has(row.title.toLowerCase())) byTitle.set(row.title.toLowerCase(), i);
+
+    return {
+      ...row,
+      projectRef: row.project ? projectRefs.get(row.project) ?? null : null,
+      ownerName: row.owner ? resolveName(row.owner, personIds, newPeople, missingPeople) : null,
+      tagNames: [...new Set(row.tags.map(t => resolveName(t, tagIds, newTags, missingTags)).filter((t): t is string => !!t))],
+      parentIndex,
+      existingId: null,
+      duplicateIndex: null,
+    };
+  });
+  if (missingPeople.size > 0) warnings.push(`People not found, left unassigned: ${[...missingPeople].join(', ')}`);
+  if (missingTags.size > 0) warnings.push(`Tags not found, left off: ${[...missingTags].join(', ')}`);
+
+  // Subtasks without a project of their own go with their parent; the rest
+  // fall back to the default project
+  const effectiveProject = (i: number, seen = new Set<number>()): ProjectRef | null => {
+    const row = planned[i];
+    if (row.projectRef) return row.projectRef;
+    if (row.project === null && row.parentIndex !== null && !seen.has(i)) {
+      seen.add(i);
+      return effectiveProject(row.parentIndex, seen);
+    }
+    return options.defaultProject;
+  };
+  planned.forEach((row, i) => { row.projectRef = effectiveProject(i); });
+
+  // A parent loop would never finish creating; break it at the row that closes it
+  planned.forEach((row, i) => {
+    const seen = new Set([i]);
+    for (let p = row.parentIndex; p !== null; p = planned[p].parentIndex) {
+      if (seen.has(p)) {
+        warnings.push(`Row ${row.row} (${row.title}): parent loop, imported at the top level`);
+        row.parentIndex = null;
+        break;
+      }
+      seen.add(p);
+    }
+  });
+
+  // Duplicates: same title in the same project
+  const existingProjectIds = [...new Set(planned.flatMap(r => r.projectRef && 'id' in r.projectRef ? [r.projectRef.id] : []))];
+  const anyUnassigned = planned.some(r => !r.projectRef);
+  const existing = await prisma.item.findMany({
+    where: {
+      deletedAt: null,
+      OR: [
+        { projectId: { in: existingProjectIds } },
+        ...(anyUnassigned ? [{ projectId: null }] : []),
+      ],
+    },
+    select: { id: true, title: true, projectId: true },
+    orderBy: { id: 'asc' },
+  });
+  const existingKeys = new Map<string, number>();
+  for (const item of existing) {
+    const key = `${item.projectId !== null ? `id:${item.projectId}` : 'none'}|${item.title.trim().toLowerCase()}`;
+    if (!existingKeys.has(key)) existingKeys.set(key, item.id);
+  }
+  const seenKeys = new Map<string, number>();
+  planned.forEach((row, i) => {
+    const key = `${projectKey(row.projectRef)}|${row.title.toLowerCase()}`;
+    row.existingId = existingKeys.get(key) ?? null;
+    if (row.existingId === null && seenKeys.has(key)) row.duplicateIndex = seenKeys.get(key)!;
+    if (!seenKeys.has(key)) seenKeys.set(key, i);
+  });
+
+  // Only names that a created row uses are created
+  const creating = planned.filter(r => r.existingId === null && r.duplicateIndex === null);
+  const usedProjects = new Set(creating.flatMap(r => r.projectRef && 'create' in r.projectRef ? [r.projectRef.create.toLowerCase()] : []));
+  const usedPeople = new Set(creating.flatMap(r => r.ownerName ? [r.ownerName] : []));
+  const usedTags = new Set(creating.flatMap(r => r.tagNames));
+  for (const key of newProjects.keys()) if (!usedProjects.has(key)) newProjects.delete(key);
+  for (const key of newPeople.keys()) if (!usedPeople.has(key)) newPeople.delete(key);
+  for (const key of newTags.keys()) if (!usedTags.has(key)) newTags.delete(key);
+
+  const displayName = (lower: string, created: Map<string, string>, known: { name: string }[]) =>
+    created.get(lower) ?? known.find(k => k.name.toLowerCase() === lower)?.name ?? lower;
+
+  const previewRows: ImportRow[] = planned.map(row => ({
+    row: row.row,
+    ref: row.ref,
+    title: row.title,
+    description: row.description,
+    dueDate: row.dueDate,
+    priority: row.priority,
+    status: row.status,
+    estimateMinutes: row.estimateMinutes,
+    project: row.projectRef ? ('id' in row.projectRef ? row.projectRef.name : row.projectRef.create) : null,
+    owner: row.ownerName ? displayName(row.ownerName, newPeople, people) : null,
+    tags: row.tagNames.map(t => displayName(t, newTags, tags)),
+    parent: row.parentIndex !== null ? planned[row.parentIndex].title : null,
+    action: row.existingId === null && row.duplicateIndex === null ? 'create' : 'duplicate',
+    duplicateOf: row.existingId !== null
+      ? formatTaskId(row.existingId)
+      : row.duplicateIndex !== null ? `row ${planned[row.duplicateIndex].row}` : null,
+  }));
+
+  return {
+    sourceType: parsed.sourceType,
+    rows: planned,
+    orgId: options.orgId,
+    newProjects,
+    newPeople,
+    newTags,
+    people: personIds,
+    tags: tagIds,
+    preview: {
+      format: options.format,
+      rows: previewRows,
+      toCreate: {
+        items: creating.length,
+        projects: [...newProjects.values()],
+        people: [...newPeople.values()],
+        tags: [...newTags.values()],
+      },
+      duplicates: planned.length - creating.length,
+      warnings,
+    },
+  };
+}
+
+// =============================================================================
+// COMMIT
+// =============================================================================
+
+/**
+ * Create everything a plan describes in one transaction. Parents are created
+ * before their subtasks.
+ */
+export async function commitImport(
+  prisma: PrismaClient,
+  plan: ImportPlan,
+  options: { fileName?: string; actor?: Actor; requestId?: string }
+): Promise<ImportCreated> {
+  const createdBy = actorLabel(options.actor);
+  const detail = plan.sourceType === 'todoist' ? 'Imported from Todoist' : `Imported from ${options.fileName ?? 'CSV'}`;
+
+  return prisma.$transaction(async (tx) => {
+    const created: ImportCreated = { itemIds: [], projectIds: [], personIds: [], tagIds: [] };
+
+    const projectIds = new Map<string, number>();
+    if (plan.newProjects.size > 0) {
+      const taken = new Set(
+        (await tx.project.findMany({ where: { orgId: plan.orgId }, select: { slug: true } })).map(p => p.slug)
+      );
+      for (const [lower, name] of plan.newProjects) {
+        let slug = slugify(name);
+        for (let n = 2; taken.has(slug); n++) slug = `${slugify(name)}-${n}`;
+        taken.add(slug);
+        const project = await tx.project.create({ data: { slug, name, orgId: plan.orgId, status: 'active' } });
+        projectIds.set(lower, project.id);
+        created.projectIds.push(project.id);
+      }
+    }
+
+    const personIds = new Map(plan.people);
+    for (const [lower, name] of plan.newPeople) {
+      const person = await tx.person.create({ data: { name } });
+      personIds.set(lower, person.id);
+      created.personIds.push(person.id);
+    }
+
+    const tagIds = new Map(plan.tags);
+    for (const [lower, name] of plan.newTags) {
+      const tag = await tx.tag.create({ data: { name } });
+      tagIds.set(lower, tag.id);
+      created.tagIds.push(tag.id);
+    }
+
+    // Item id per row: created, or the existing item a duplicate matched
+    const itemIds = new Map<number, number>();
+    const positions = new Map<number | null, number>();
+
+    const create = async (i: number): Promise<number | null> => {
+      if (itemIds.has(i)) return itemIds.get(i)!;
+      const row = plan.rows[i];
+      if (row.existingId !== null) {
+        itemIds.set(i, row.existingId);
+        return row.existingId;
+      }
+      if (row.duplicateIndex !== null) return create(row.duplicateIndex);
+
+      const parentId = row.parentIndex !== null ? await create(row.parentIndex) : null;
+      const position = positions.get(parentId) ?? 0;
+      positions.set(parentId, position + 1);
+
+      const projectId = row.projectRef
+        ? 'id' in row.projectRef ? row.projectRef.id : projectIds.get(row.projectRef.create.toLowerCase()) ?? null
+        : null;
+      const item = await tx.item.create({
+        data: {
+          title: row.title,
+          description: row.description,
+          itemType: 'task',
+          status: row.status,
+          priority: row.priority,
+          dueDate: row.dueDate ? new Date(`${row.dueDate}T00:00:00.000Z`) : null,
+          completedAt: row.completedAt,
+          estimateMinutes: row.estimateMinutes,
+          ownerId: row.ownerName ? personIds.get(row.ownerName) ?? null : null,
+          projectId,
+          parentId,
+          position,
+          sourceType: plan.sourceType,
+          sourcePath: row.sourcePath,
+          sourceLine: row.sourceLine,
+        },
+      });
+      itemIds.set(i, item.id);
+      created.itemIds.push(item.id);
+
+      if (row.tagNames.length > 0) {
+        await tx.itemTag.createMany({
+          data: row.tagNames.map(name => ({ itemId: item.id, tagId: tagIds.get(name)! })),
+        });
+      }
+      await tx.activity.create({
+        data: { itemId: item.id, action: 'created', detail, createdBy, requestId: options.requestId },
+      });
+      return item.id;
+    };
+
+    for (let i = 0; i < plan.rows.length; i++) {
+      await create(i);
+    }
+    return created;
+  });
+}
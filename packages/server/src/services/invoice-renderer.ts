@@ -0,0 +1,187 @@
+/**
+ * Invoice Renderer
+ *
+ * Renders invoices to Markdown (with frontmatter, like other KB documents)
+ * and standalone HTML, and writes both under the client's folder:
+ *
+ *   <org-slug>/invoices/<number>.md
+ *   <org-slug>/invoices/<number>.html
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Invoice } from '@kw/api-types';
+import { resolveKBPath } from './paths.js';
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+}
+
+function formatHours(hours: number): string {
+  return hours.toFixed(2).replace(/\.?0+$/, '');
+}
+
+function formatLongDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Totals block shared by both renderers: [label, formatted amount] pairs
+ */
+function totalRows(invoice: Invoice): [string, string][] {
+  const rows: [string, string][] = [['Subtotal', formatMoney(invoice.subtotal, invoice.currency)]];
+  if (invoice.vatRate !== null) {
+    rows.push([`VAT (${invoice.vatRate}%)`, formatMoney(invoice.vatAmount, invoice.currency)]);
+  }
+  rows.push(['Total', formatMoney(invoice.total, invoice.currency)]);
+  return rows;
+}
+
+// =============================================================================
+// RENDERERS
+// =============================================================================
+
+export function renderInvoiceMarkdown(invoice: Invoice): string {
+  const lines = [
+    '---',
+    'type: invoice',
+    `number: ${invoice.number}`,
+    `client: ${invoice.orgSlug}`,
+    `month: ${invoice.month}`,
+    `status: ${invoice.status}`,
+    `issued: ${invoice.issueDate}`,
+    `due: ${invoice.dueDate}`,
+    `total: ${invoice.total}`,
+    `currency: ${invoice.currency}`,
+    '---',
+    '',
+    `# Invoice ${invoice.number}`,
+    '',
+    `**Bill to:** ${invoice.orgName}  `,
+    `**Period:** ${invoice.month}  `,
+    `**Issued:** ${formatLongDate(invoice.issueDate)}  `,
+    `**Due:** ${formatLongDate(invoice.dueDate)}`,
+    '',
+    '| Date | Description | Hours | Rate | Amount |',
+    '|------|-------------|------:|-----:|-------:|',
+    ...invoice.lineItems.map((line) =>
+      `| ${line.date} | ${line.description.replace(/\|/g, '\\|') || '—'} | ${formatHours(line.hours)} | ${formatMoney(line.rate, invoice.currency)} | ${formatMoney(line.amount, invoice.currency)} |`
+    ),
+    '',
+    ...totalRows(invoice).map(([label, amount]) =>
+      label === 'Total' ? `**${label}: ${amount}**` : `${label}: ${amount}  `
+    ),
+  ];
+
+  if (invoice.notes) {
+    lines.push('', '## Notes', '', invoice.notes);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const rows = invoice.lineItems
+    .map((line) => `      <tr>
+        <td>${line.date}</td>
+        <td>${escapeHtml(line.description) || '&mdash;'}</td>
+        <td class="num">${formatHours(line.hours)}</td>
+        <td class="num">${formatMoney(line.rate, invoice.currency)}</td>
+        <td class="num">${formatMoney(line.amount, invoice.currency)}</td>
+      </tr>`)
+    .join('\n');
+
+  const totals = totalRows(invoice)
+    .map(([label, amount]) => `      <tr${label === 'Total' ? ' class="total"' : ''}><td colspan="4">${label}</td><td class="num">${amount}</td></tr>`)
+    .join('\n');
+
+  const notes = invoice.notes
+    ? `\n  <h2>Notes</h2>\n  <p>${escapeHtml(invoice.notes).replace(/\n/g, '<br>')}</p>\n`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${invoice.number}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 800px; margin: 40px auto; color: #18181b; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e4e4e7; text-align: left; }
+    .num { text-align: right; white-space: nowrap; }
+    tfoot td { border-bottom: none; }
+    tr.total td { font-weight: 600; border-top: 2px solid #18181b; }
+    .meta { color: #52525b; line-height: 1.6; }
+  </style>
+</head>
+<body>
+  <h1>Invoice ${invoice.number}</h1>
+  <div class="meta">
+    <div><strong>Bill to:</strong> ${escapeHtml(invoice.orgName)}</div>
+    <div><strong>Period:</strong> ${invoice.month}</div>
+    <div><strong>Issued:</strong> ${formatLongDate(invoice.issueDate)}</div>
+    <div><strong>Due:</strong> ${formatLongDate(invoice.dueDate)}</div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Description</th><th class="num">Hours</th><th class="num">Rate</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>
+${rows}
+    </tbody>
+    <tfoot>
+${totals}
+    </tfoot>
+  </table>
+${notes}</body>
+</html>
+`;
+}
+
+// =============================================================================
+// FILES
+// =============================================================================
+
+/**
+ * Write the Markdown and HTML copies of an invoice under the client's folder.
+ * Returns the paths relative to the knowledge base root.
+ */
+export function writeInvoiceFiles(invoice: Invoice): { markdownPath: string; htmlPath: string } {
+  const dir = path.join(invoice.orgSlug, 'invoices');
+  fs.mkdirSync(resolveKBPath(dir), { recursive: true });
+
+  const markdownPath = path.join(dir, `${invoice.number}.md`);
+  const htmlPath = path.join(dir, `${invoice.number}.html`);
+  fs.writeFileSync(resolveKBPath(markdownPath), renderInvoiceMarkdown(invoice), 'utf-8');
+  fs.writeFileSync(resolveKBPath(htmlPath), renderInvoiceHtml(invoice), 'utf-8');
+
+  return { markdownPath, htmlPath };
+}
+
+/**
+ * Remove an invoice's rendered files, ignoring any that are already gone
+ */
+export function removeInvoiceFiles(paths: (string | null)[]): void {
+  for (const relativePath of paths) {
+    if (relativePath) {
+      fs.rmSync(resolveKBPath(relativePath), { force: true });
+    }
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Item Filter Language
+ *
+ * Parses a compact filter string into a Prisma ItemWhereInput, e.g.
+ *
+ *   status:pending owner:me due<+7d tag:urgent project:acme-corp/* -blocked
+ *
+ * Terms are space-separated and ANDed together; prefix a term with "-" to
+ * negate it. Values containing spaces can be quoted: owner:"Jane Doe".
+ *
+ * Fields
+ *   status:pending,in_progress   one or more statuses
+ *   owner:me | owner:none | owner:<name>
+ *   waiting:<name>               waiting on a person (@ prefix optional)
+ *   tag:<name>[,<name>]
+ *   project:<slug> | project:<org>/<slug> | project:<org>/* | project:<org>/<parent>/<slug>
+ *                                a trailing * on a slug matches by prefix
+ *   org:<slug>
+ *   type:task | type:routine     defaults to tasks only
+ *   priority:1 | priority<=2     comparisons: < <= > >= :
+ *   due / created / updated / completed   dates, with the same comparisons
+ *                                values: today, tomorrow, yesterday, +7d, -2w,
+ *                                +1m, YYYY-MM-DD, or none (":" only)
+ *   is:<keyword>                 same as the bare keyword
+ *
+ * Keywords
+ *   open      not complete or cancelled
+ *   done      complete
+ *   overdue   open with a due date before today
+ *   blocked   status blocked, or blocked by an open item
+ *
+ * Any other bare word matches title or description text.
+ */
+
+import { ItemStatusSchema } from '@kw/api-types';
+import type { Prisma } from '../generated/prisma/index.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ItemFilterContext {
+  /** Person name that "owner:me" resolves to */
+  me?: string | null;
+  /** Reference time for relative dates (defaults to now) */
+  now?: Date;
+}
+
+export interface ParsedItemFilter {
+  where: Prisma.ItemWhereInput;
+  errors: string[];
+}
+
+type Operator = ':' | '<' | '<=' | '>' | '>=';
+
+interface FilterTerm {
+  negated: boolean;
+  field: string | null;
+  operator: Operator | null;
+  value: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const CLOSED_STATUSES = ['complete', 'cancelled'];
+
+const DATE_FIELDS: Record<string, 'dueDate' | 'createdAt' | 'updatedAt' | 'completedAt'> = {
+  due: 'dueDate',
+  created: 'createdAt',
+  updated: 'updatedAt',
+  completed: 'completedAt',
+};
+
+const KEYWORDS = ['open', 'done', 'overdue', 'blocked'];
+
+const TERM_PATTERN = /^(-?)([a-z]+)(<=|>=|<|>|:|=)(.*)$/i;
+
+// =============================================================================
+// TOKENIZING
+// =============================================================================
+
+/**
+ * Split on whitespace, keeping quoted sections together and dropping the quotes
+ */
+function tokenize(query: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of query) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) tokens.push(current);
+
+  return tokens;
+}
+
+function parseTerm(token: string): FilterTerm {
+  const match = token.match(TERM_PATTERN);
+  if (match && match[4] !== '') {
+    const operator = (match[3] === '=' ? ':' : match[3]) as Operator;
+    return { negated: match[1] === '-', field: match[2].toLowerCase(), operator, value: match[4] };
+  }
+
+  const negated = token.startsWith('-') && token.length > 1;
+  return { negated, field: null, operator: null, value: negated ? token.slice(1) : token };
+}
+
+// =============================================================================
+// VALUE PARSING
+// =============================================================================
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+/**
+ * Resolve a date value to the start of that day, or null if unrecognised
+ */
+export function parseFilterDate(value: string, now: Date = new Date()): Date | null {
+  const today = startOfDay(now);
+  const lower = value.toLowerCase();
+
+  if (lower === 'today') return today;
+  if (lower === 'tomorrow') return addDays(today, 1);
+  if (lower === 'yesterday') return addDays(today, -1);
+
+  const relative = lower.match(/^([+-]?)(\d+)([dwm])$/);
+  if (relative) {
+    const amount = parseInt(relative[2], 10) * (relative[1] === '-' ? -1 : 1);
+    if (relative[3] === 'm') {
+      const d = new Date(today);
+      d.setMonth(d.getMonth() + amount);
+      return d;
+    }
+    return addDays(today, relative[3] === 'w' ? amount * 7 : amount);
+  }
+
+  const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (absolute) {
+    const d = new Date(parseInt(absolute[1], 10), parseInt(absolute[2], 10) - 1, parseInt(absolute[3], 10));
+    return isNaN(d.getTime()) ? null : d;
+  }
+
+  return null;
+}
+
+function dateCondition(operator: Operator, day: Date): Prisma.DateTimeNullableFilter {
+  const nextDay = addDays(day, 1);
+  switch (operator) {
+    case ':': return { gte: day, lt: nextDay };
+    case '<': return { lt: day };
+    case '<=': return { lt: nextDay };
+    case '>': return { gte: nextDay };
+    case '>=': return { gte: day };
+  }
+}
+
+function numberCondition(operator: Operator, n: number): Prisma.IntNullableFilter {
+  switch (operator) {
+    case ':': return { equals: n };
+    case '<': return { lt: n };
+    case '<=': return { lte: n };
+    case '>': return { gt: n };
+    case '>=': return { gte: n };
+  }
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+// =============================================================================
+// TERM -> WHERE
+// =============================================================================
+
+function keywordClause(keyword: string, now: Date): Prisma.ItemWhereInput {
+  switch (keyword) {
+    case 'open':
+      return { status: { notIn: CLOSED_STATUSES } };
+    case 'done':
+      return { status: 'complete' };
+    case 'overdue':
+      return { status: { notIn: CLOSED_STATUSES }, dueDate: { lt: startOfDay(now) } };
+    case 'blocked':
+    default:
+      return {
+        OR: [
+          { status: 'blocked' },
+          {
+            linksTo: {
+              some: {
+                linkType: 'blocks',
+                from: { deletedAt: null, status: { notIn: CLOSED_STATUSES } },
+              },
+            },
+          },
+        ],
+      };
+  }
+}
+
+function projectClause(value: string): Prisma.ItemWhereInput {
+  const parts = value.split('/').filter(Boolean);
+
+  const slugFilter = (slug: string): Prisma.StringFilter | string =>
+    slug.endsWith('*') ? { startsWith: slug.slice(0, -1) } : slug;
+
+  if (parts.length === 1) {
+    return { project: { slug: slugFilter(parts[0]) } };
+  }
+
+  const organization = { slug: parts[0] };
+  if (parts.length === 2) {
+    if (parts[1] === '*') return { project: { organization } };
+    return { project: { organization, slug: slugFilter(parts[1]) } };
+  }
+
+  // org/parent/child or org/parent/* (the parent itself plus its sub-projects)
+  const [, parent, child] = parts;
+  if (child === '*') {
+    return {
+      project: {
+        organization,
+        OR: [{ slug: parent }, { parent: { slug: parent } }],
+      },
+    };
+  }
+  return { project: { organization, slug: slugFilter(child), parent: { slug: parent } } };
+}
+
+function fieldClause(
+  term: FilterTerm,
+  context: ItemFilterContext,
+  now: Date,
+  errors: string[]
+): Prisma.ItemWhereInput | null {
+  const { field, operator, value } = term;
+  const raw = `${field}${operator}${value}`;
+
+  if (field && field in DATE_FIELDS) {
+    const column = DATE_FIELDS[field];
+    if (value.toLowerCase() === 'none') {
+      if (operator !== ':') {
+        errors.push(`"${raw}": "none" can only be used with ":"`);
+        return null;
+      }
+      return { [column]: null };
+    }
+    const day = parseFilterDate(value, now);
+    if (!day) {
+      errors.push(`"${raw}": unrecognised date "${value}"`);
+      return null;
+    }
+    return { [column]: dateCondition(operator!, day) };
+  }
+
+  if (field === 'priority') {
+    const n = parseInt(value, 10);
+    if (isNaN(n) || n < 1 || n > 4) {
+      errors.push(`"${raw}": priority must be 1-4`);
+      return null;
+    }
+    return { priority: numberCondition(operator!, n) };
+  }
+
+  if (operator !== ':') {
+    errors.push(`"${raw}": "${field}" does not support comparisons`);
+    return null;
+  }
+
+  switch (field) {
+    case 'status': {
+      const statuses = splitList(value);
+      const invalid = statuses.filter(s => !ItemStatusSchema.safeParse(s).success);
+      if (invalid.length > 0) {
+        errors.push(`"${raw}": unknown status ${invalid.map(s => `"${s}"`).join(', ')}`);
+        return null;
+      }
+      return { status: { in: statuses } };
+    }
+
+    case 'owner': {
+      const lower = value.toLowerCase();
+      if (lower === 'none') return { ownerId: null };
+      if (lower === 'me') {
+        if (!context.me) {
+          errors.push('"owner:me" needs a default owner (pass "me" or set DEFAULT_OWNER)');
+          return null;
+        }
+        return { owner: { name: context.me } };
+      }
+      return { owner: { name: { contains: value } } };
+    }
+
+    case 'waiting': {
+      const name = value.replace(/^@/, '');
+      return {
+        itemPeople: {
+          some: {
+            role: 'waiting_on',
+            person: name.toLowerCase() === 'me' && context.me
+              ? { name: context.me }
+              : { name: { contains: name } },
+          },
+        },
+      };
+    }
+
+    case 'tag':
+      return { tags: { some: { tag: { name: { in: splitList(value) } } } } };
+
+    case 'project':
+      return projectClause(value);
+
+    case 'org':
+      return { project: { organization: { slug: value } } };
+
+    case 'type':
+      return { itemType: { in: splitList(value) } };
+
+    case 'is':
+      if (!KEYWORDS.includes(value.toLowerCase())) {
+        errors.push(`"${raw}": expected one of ${KEYWORDS.join(', ')}`);
+        return null;
+      }
+      return keywordClause(value.toLowerCase(), now);
+
+    default:
+      errors.push(`"${raw}": unknown field "${field}"`);
+      return null;
+  }
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Parse a filter string into a Prisma where clause.
+ * Invalid terms are skipped and reported in `errors`.
+ */
+export function parseItemFilter(query: string, context: ItemFilterContext = {}): ParsedItemFilter {
+  const now = context.now ?? new Date();
+  const errors: string[] = [];
+  const clauses: Prisma.ItemWhereInput[] = [{ deletedAt: null }];
+  let hasTypeFilter = false;
+
+  for (const token of tokenize(query)) {
+    const term = parseTerm(token);
+    let clause: Prisma.ItemWhereInput | null;
+
+    if (term.field) {
+      if (term.field === 'type') hasTypeFilter = true;
+      clause = fieldClause(term, context, now, errors);
+    } else if (KEYWORDS.includes(term.value.toLowerCase())) {
+      clause = keywordClause(term.value.toLowerCase(), now);
+    } else {
+      clause = {
+        OR: [
+          { title: { contains: term.value } },
+          { description: { contains: term.value } },
+        ],
+      };
+    }
+
+    if (clause) {
+      clauses.push(term.negated ? { NOT: clause } : clause);
+    }
+  }
+
+  // Routines have their own views; only include them when asked for
+  if (!hasTypeFilter) {
+    clauses.push({ itemType: 'task' });
+  }
+
+  return { where: { AND: clauses }, errors };
+}
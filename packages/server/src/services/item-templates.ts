@@ -0,0 +1,158 @@
+/**
+ * Item Templates
+ *
+ * A template is a parent task with a tree of subtasks, stored as JSON. Using
+ * it creates the whole tree under a project in one transaction. Due dates and
+ * check-ins are day offsets from an anchor date, and people and tags are
+ * stored by name so a template keeps working when records are recreated.
+ */
+
+import type { ItemTemplateStep } from '@kw/api-types';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { actorLabel, type Actor } from './audit.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TemplateReferences {
+  people: Map<string, number>;
+  tags: Map<string, number>;
+  /** Names that don't match a person or tag */
+  problems: string[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function walk(step: ItemTemplateStep, visit: (step: ItemTemplateStep) => void): void {
+  visit(step);
+  for (const subtask of step.subtasks ?? []) walk(subtask, visit);
+}
+
+/**
+ * Number of items a template creates, including the parent
+ */
+export function countTemplateItems(root: ItemTemplateStep): number {
+  let count = 0;
+  walk(root, () => count++);
+  return count;
+}
+
+/**
+ * Anchor date plus a number of days, as a UTC midnight Date
+ */
+export function offsetDate(anchorDate: string, days: number): Date {
+  const date = new Date(`${anchorDate}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+}
+
+/**
+ * Look up every person and tag a template names
+ */
+export async function resolveTemplateReferences(
+  prisma: PrismaClient,
+  root: ItemTemplateStep
+): Promise<TemplateReferences> {
+  const personNames = new Set<string>();
+  const tagNames = new Set<string>();
+  walk(root, (step) => {
+    if (step.owner) personNames.add(step.owner);
+    step.people?.forEach(p => personNames.add(p.name));
+    step.tags?.forEach(t => tagNames.add(t));
+  });
+
+  const [people, tags] = await Promise.all([
+    prisma.person.findMany({ where: { name: { in: [...personNames] } }, select: { id: true, name: true } }),
+    prisma.tag.findMany({ where: { name: { in: [...tagNames] } }, select: { id: true, name: true } }),
+  ]);
+
+  const refs: TemplateReferences = {
+    people: new Map(people.map(p => [p.name, p.id])),
+    tags: new Map(tags.map(t => [t.name, t.id])),
+    problems: [],
+  };
+  const missingPeople = [...personNames].filter(n => !refs.people.has(n));
+  const missingTags = [...tagNames].filter(n => !refs.tags.has(n));
+  if (missingPeople.length > 0) refs.problems.push(`People not found: ${missingPeople.join(', ')}`);
+  if (missingTags.length > 0) refs.problems.push(`Tags not found: ${missingTags.join(', ')}`);
+  return refs;
+}
+
+// =============================================================================
+// INSTANTIATE
+// =============================================================================
+
+/**
+ * Create a template's task tree. References must already be resolved (see
+ * resolveTemplateReferences). Returns the new item ids, parent first.
+ */
+export async function instantiateItemTemplate(
+  prisma: PrismaClient,
+  template: { name: string; root: ItemTemplateStep },
+  refs: TemplateReferences,
+  options: { projectId: number | null; anchorDate: string; title?: string; actor?: Actor; requestId?: string }
+): Promise<number[]> {
+  const createdBy = actorLabel(options.actor);
+
+  return prisma.$transaction(async (tx) => {
+    const ids: number[] = [];
+
+    const create = async (step: ItemTemplateStep, parentId: number | null, position: number) => {
+      const item = await tx.item.create({
+        data: {
+          title: parentId === null && options.title ? options.title : step.title,
+          description: step.description || null,
+          itemType: 'task',
+          status: 'pending',
+          priority: step.priority ?? null,
+          dueDate: step.dueOffset !== undefined ? offsetDate(options.anchorDate, step.dueOffset) : null,
+          ownerId: step.owner ? refs.people.get(step.owner) ?? null : null,
+          projectId: options.projectId,
+          parentId,
+          position,
+        },
+      });
+      ids.push(item.id);
+
+      if (step.tags?.length) {
+        await tx.itemTag.createMany({
+          data: [...new Set(step.tags)].map(name => ({ itemId: item.id, tagId: refs.tags.get(name)! })),
+        });
+      }
+      if (step.people?.length) {
+        const seen = new Set<string>();
+        await tx.itemPerson.createMany({
+          data: step.people
+            .filter(p => !seen.has(`${p.name}:${p.role}`) && seen.add(`${p.name}:${p.role}`))
+            .map(p => ({ itemId: item.id, personId: refs.people.get(p.name)!, role: p.role })),
+        });
+      }
+      if (step.checkins?.length) {
+        await tx.checkIn.createMany({
+          data: step.checkins.map(c => ({ itemId: item.id, date: offsetDate(options.anchorDate, c.offset), note: c.note ?? null })),
+        });
+      }
+
+      await tx.activity.create({
+        data: {
+          itemId: item.id,
+          action: 'created',
+          detail: `From template ${template.name}`,
+          createdBy,
+          requestId: options.requestId,
+        },
+      });
+
+      const subtasks = step.subtasks ?? [];
+      for (let i = 0; i < subtasks.length; i++) {
+        await create(subtasks[i], item.id, i);
+      }
+    };
+
+    await create(template.root, null, 0);
+    return ids;
+  });
+}
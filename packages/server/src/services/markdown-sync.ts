@@ -2,6 +2,7 @@ import { readFile, writeFile } from 'fs/promises';
 import { join } from 'path';
 import { getPrisma } from '../prisma.js';
 import { STATUS_TO_EMOJI, STATUS_TO_ACTION_STATUS } from './status-constants.js';
+import { isReadmeSourceType, writeItemToReadme } from './readme-sync.js';
 
 // Re-export for backwards compatibility
 export { STATUS_TO_EMOJI, STATUS_TO_ACTION_STATUS };
@@ -62,6 +63,20 @@ export async function syncTaskToSource(
     return syncToMeeting(taskData, basePath);
   }
 
+  // README lines with a sync anchor get their title and status rewritten
+  if (isReadmeSourceType(taskData.source_type)) {
+    const anchored = await writeItemToReadme(prisma, task.id, basePath);
+    if (anchored) {
+      return {
+        success: true,
+        source_type: taskData.source_type,
+        source_path: taskData.source_path,
+        message: anchored.message,
+        changes: anchored.changes,
+      };
+    }
+  }
+
   // If task has source file info, sync to that file
   if (taskData.source_path && taskData.source_type) {
     return syncToSourceFile(taskData, basePath);
@@ -0,0 +1,290 @@
+/**
+ * Meeting Agenda Service
+ *
+ * Builds the `## Agenda` section of a meeting note from the task database:
+ *
+ *   - Actions still open from the previous meeting in the series
+ *   - Open tasks each attendee owns or that are waiting on them
+ *   - Open tasks in the meeting's projects
+ *
+ * Each task is listed once, in the first section it fits. The previous
+ * meeting is the latest earlier note in the same series (see
+ * getSeriesMeetings).
+ */
+
+import type { MeetingAgendaItem, MeetingAgendaSection } from '@kw/api-types';
+import { formatTaskId } from '../types/index.js';
+import { getSeriesMeetings, meetingOrgFolder, parseDueDate, type ParsedMeeting } from './meeting-parser.js';
+import { mapActionStatus } from './meeting-sync.js';
+import type { Prisma, PrismaClient } from '../generated/prisma/index.js';
+
+/** Items listed per section before the rest are summarised as "...and N more" */
+export const MAX_SECTION_ITEMS = 10;
+
+const CLOSED_STATUSES = ['complete', 'cancelled'];
+
+const AGENDA_HEADING = '## Agenda';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BuiltAgenda {
+  previousMeeting: ParsedMeeting | null;
+  sections: MeetingAgendaSection[];
+  unknownAttendees: string[];
+  markdown: string;
+}
+
+const openTask = {
+  itemType: 'task',
+  status: { notIn: CLOSED_STATUSES },
+  deletedAt: null,
+} satisfies Prisma.ItemWhereInput;
+
+const itemInclude = {
+  owner: { select: { name: true } },
+  project: { select: { slug: true } },
+} satisfies Prisma.ItemInclude;
+
+type AgendaTask = Prisma.ItemGetPayload<{ include: typeof itemInclude }>;
+
+const taskOrder: Prisma.ItemOrderByWithRelationInput[] = [
+  { priority: { sort: 'asc', nulls: 'last' } },
+  { dueDate: { sort: 'asc', nulls: 'last' } },
+  { id: 'asc' },
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function agendaItem(task: AgendaTask, waitingOn = false): MeetingAgendaItem {
+  return {
+    id: task.id,
+    displayId: formatTaskId(task.id),
+    title: task.title,
+    status: task.status,
+    dueDate: task.dueDate?.toISOString().split('T')[0] || null,
+    ownerName: task.owner?.name || null,
+    projectSlug: task.project?.slug || null,
+    waitingOn,
+  };
+}
+
+/**
+ * Attendee names as written in the frontmatter, matched to people: the full
+ * name, or a first name that belongs to exactly one person
+ */
+async function resolveAttendee(prisma: PrismaClient, name: string) {
+  const exact = await prisma.person.findFirst({ where: { name } });
+  if (exact) return exact;
+
+  const byFirstName = await prisma.person.findMany({ where: { name: { startsWith: `${name} ` } }, take: 2 });
+  return byFirstName.length === 1 ? byFirstName[0] : null;
+}
+
+// =============================================================================
+// PREVIOUS MEETING
+// =============================================================================
+
+/**
+ * The latest earlier meeting in the same series, if any
+ */
+export function findPreviousMeeting(meeting: ParsedMeeting): ParsedMeeting | null {
+  if (!meeting.date) return null;
+  const earlier = getSeriesMeetings(meeting).filter(m => m.date < meeting.date);
+  return earlier.at(-1) ?? null;
+}
+
+/**
+ * Actions from a meeting that aren't done: its open tasks, plus rows of the
+ * action table that were never synced
+ */
+export async function openMeetingActions(prisma: PrismaClient, meeting: ParsedMeeting): Promise<MeetingAgendaItem[]> {
+  const record = await prisma.meeting.findUnique({ where: { path: meeting.path } });
+  const tasks = record
+    ? await prisma.item.findMany({
+        where: { sourceMeetingId: record.id, deletedAt: null },
+        include: itemInclude,
+        orderBy: { id: 'asc' },
+      })
+    : [];
+  const synced = new Set(tasks.map(t => t.title));
+
+  const unsynced = meeting.actions
+    // After sync the third column holds the task ID, so the row is covered above
+    .filter(a => !synced.has(a.action) && !/^T-\d+$/i.test(a.due ?? ''))
+    .filter(a => !CLOSED_STATUSES.includes(mapActionStatus(a.status)))
+    .map((a): MeetingAgendaItem => ({
+      id: null,
+      displayId: null,
+      title: a.action,
+      status: mapActionStatus(a.status),
+      dueDate: parseDueDate(a.due),
+      ownerName: a.owner,
+      projectSlug: a.project ?? null,
+      waitingOn: false,
+    }));
+
+  return [
+    ...tasks.filter(t => !CLOSED_STATUSES.includes(t.status)).map(t => agendaItem(t)),
+    ...unsynced,
+  ];
+}
+
+// =============================================================================
+// BUILD
+// =============================================================================
+
+/**
+ * Collect the agenda for a meeting and render it as markdown
+ */
+export async function buildAgenda(prisma: PrismaClient, meeting: ParsedMeeting): Promise<BuiltAgenda> {
+  const sections: MeetingAgendaSection[] = [];
+  const listed = new Set<number>();
+
+  const addSection = (kind: MeetingAgendaSection['kind'], heading: string, items: MeetingAgendaItem[]) => {
+    const fresh = items.filter(item => item.id === null || !listed.has(item.id));
+    if (fresh.length === 0) return;
+    const shown = fresh.slice(0, MAX_SECTION_ITEMS);
+    for (const item of shown) {
+      if (item.id !== null) listed.add(item.id);
+    }
+    sections.push({ kind, heading, items: shown, more: fresh.length - shown.length });
+  };
+
+  const previousMeeting = findPreviousMeeting(meeting);
+  if (previousMeeting) {
+    addSection('carryover', `Actions from last meeting (${previousMeeting.date})`, await openMeetingActions(prisma, previousMeeting));
+  }
+
+  const unknownAttendees: string[] = [];
+  for (const name of meeting.attendees) {
+    const person = await resolveAttendee(prisma, name);
+    if (!person) {
+      unknownAttendees.push(name);
+      continue;
+    }
+
+    const [owned, waiting] = await Promise.all([
+      prisma.item.findMany({ where: { ...openTask, ownerId: person.id }, include: itemInclude, orderBy: taskOrder }),
+      prisma.item.findMany({
+        where: { ...openTask, itemPeople: { some: { personId: person.id, role: 'waiting_on' } } },
+        include: itemInclude,
+        orderBy: taskOrder,
+      }),
+    ]);
+    addSection('attendee', person.name, [
+      ...owned.map(t => agendaItem(t)),
+      ...waiting.filter(t => t.ownerId !== person.id).map(t => agendaItem(t, true)),
+    ]);
+  }
+
+  const folder = meetingOrgFolder(meeting.path);
+  for (const slug of meeting.projects) {
+    const project = await prisma.project.findFirst({
+      where: {
+        slug,
+        ...(folder ? { organization: { folderPath: folder } } : {}),
+      },
+    });
+    if (!project) continue;
+
+    const tasks = await prisma.item.findMany({
+      where: { ...openTask, projectId: project.id },
+      include: itemInclude,
+      orderBy: taskOrder,
+    });
+    addSection('project', project.name, tasks.map(t => agendaItem(t)));
+  }
+
+  return {
+    previousMeeting,
+    sections,
+    unknownAttendees,
+    markdown: renderAgenda(sections),
+  };
+}
+
+// =============================================================================
+// MARKDOWN
+// =============================================================================
+
+/**
+ * One task as a list line, e.g. "- T-12 Send draft — Bob, due 2031-03-08"
+ */
+export function renderAgendaItem(item: MeetingAgendaItem, section: Pick<MeetingAgendaSection, 'kind' | 'heading'>): string {
+  const details: string[] = [];
+  if (item.waitingOn) {
+    details.push(`waiting on ${section.heading}`);
+    if (item.ownerName) details.push(`owner ${item.ownerName}`);
+  } else if (item.ownerName && section.kind !== 'attendee') {
+    details.push(item.ownerName);
+  }
+  if (item.dueDate) details.push(`due ${item.dueDate}`);
+  if (item.status !== 'pending') details.push(item.status.replace(/_/g, ' '));
+  if (item.id === null) details.push('not synced');
+
+  const label = item.displayId ? `${item.displayId} ${item.title}` : item.title;
+  return `- ${label}${details.length > 0 ? ` — ${details.join(', ')}` : ''}`;
+}
+
+/**
+ * The `## Agenda` section, ending in a newline
+ */
+export function renderAgenda(sections: MeetingAgendaSection[]): string {
+  const lines = [
+    AGENDA_HEADING,
+    '',
+    '<!-- AUTO-GENERATED: rebuilt by meetings.prepareAgenda, edits here are replaced -->',
+  ];
+
+  if (sections.length === 0) {
+    lines.push('', '- Nothing open for the attendees or projects');
+  }
+  for (const section of sections) {
+    lines.push('', `### ${section.heading}`, '');
+    lines.push(...section.items.map(item => renderAgendaItem(item, section)));
+    if (section.more > 0) lines.push(`- ...and ${section.more} more`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Put the agenda into a meeting note: in place of an existing `## Agenda`
+ * section, or else before the first `##` section (after the title)
+ */
+export function writeAgendaSection(content: string, agenda: string): string {
+  const lines = content.split('\n');
+  const block = agenda.trimEnd();
+
+  const start = lines.findIndex(line => line.trimEnd() === AGENDA_HEADING);
+  if (start >= 0) {
+    let end = lines.findIndex((line, i) => i > start && line.startsWith('## '));
+    if (end < 0) end = lines.length;
+
+    // Keep the rule that separated the old section from the next
+    const lastLine = lines.slice(start + 1, end).filter(line => line.trim() !== '').at(-1);
+    const rule = lastLine?.trim() === '---' ? '\n\n---' : '';
+    const before = lines.slice(0, start).join('\n');
+    const after = end < lines.length ? `\n\n${lines.slice(end).join('\n')}` : '\n';
+    return `${before}${start > 0 ? '\n' : ''}${block}${rule}${after}`;
+  }
+
+  // Skip the frontmatter when looking for the first section
+  let bodyStart = 0;
+  if (lines[0] === '---') {
+    const close = lines.indexOf('---', 1);
+    bodyStart = close > 0 ? close + 1 : 0;
+  }
+  const firstSection = lines.findIndex((line, i) => i >= bodyStart && line.startsWith('## '));
+  if (firstSection < 0) {
+    return `${content.trimEnd()}\n\n${block}\n`;
+  }
+
+  const before = lines.slice(0, firstSection).join('\n');
+  const after = lines.slice(firstSection).join('\n');
+  return `${before}${firstSection > 0 ? '\n' : ''}${block}\n\n---\n\n${after}`;
+}
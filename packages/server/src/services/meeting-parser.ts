@@ -9,9 +9,6 @@ import fs from 'fs';
 import path from 'path';
 import { getKnowledgeBasePath, resolveKBPath, getRelativeKBPath } from './paths.js';
 
-// Organisation folders
-const ORGS = ['acme-corp', 'example-org', 'consulting', 'personal', 'other'];
-
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -31,8 +28,12 @@ export interface ParsedMeeting {
   attendees: string[];
   projects: string[];
   primaryProject?: string;
+  series?: string; // Recurring meeting this note is an instance of
+  location?: string;
+  tags: string[];
   status: string;
   actions: ParsedAction[];
+  body: string; // Markdown content without frontmatter
 }
 
 interface Frontmatter {
@@ -44,12 +45,28 @@ interface Frontmatter {
   status?: string;
   location?: string;
   tags?: string[];
+  series?: string;
 }
 
 // ============================================================================
 // PARSING HELPERS
 // ============================================================================
 
+/**
+ * Strip YAML quotes from a scalar ("Catch up re: PDR" is quoted for the colon)
+ */
+function unquote(value: string): string {
+  if (/^".*"$/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+}
+
 /**
  * Simple YAML frontmatter parser (avoids external dependency)
  */
@@ -76,7 +93,7 @@ function parseFrontmatter(content: string): { frontmatter: Frontmatter; body: st
     if (line.match(/^\s+-\s+(.+)$/)) {
       const itemMatch = line.match(/^\s+-\s+(.+)$/);
       if (itemMatch && inArray) {
-        currentArray.push(itemMatch[1].trim());
+        currentArray.push(unquote(itemMatch[1].trim()));
       }
       continue;
     }
@@ -104,7 +121,7 @@ function parseFrontmatter(content: string): { frontmatter: Frontmatter; body: st
           (frontmatter as Record<string, unknown>)[currentKey] = items;
         } else {
           // Simple value
-          (frontmatter as Record<string, unknown>)[currentKey] = value;
+          (frontmatter as Record<string, unknown>)[currentKey] = unquote(value);
         }
       }
     }
@@ -121,7 +138,7 @@ function parseFrontmatter(content: string): { frontmatter: Frontmatter; body: st
 /**
  * Extract sections from markdown by heading
  */
-function extractSections(content: string): Record<string, string> {
+export function extractSections(content: string): Record<string, string> {
   const sections: Record<string, string> = {};
   const lines = content.split('\n');
   let currentSection: string | null = null;
@@ -285,8 +302,12 @@ export function parseMeetingFile(filePath: string): ParsedMeeting | null {
       attendees: frontmatter.attendees || [],
       projects,
       primaryProject,
+      series: frontmatter.series || undefined,
+      location: frontmatter.location || undefined,
+      tags: frontmatter.tags || [],
       status: frontmatter.status || 'completed',
       actions,
+      body,
     };
   } catch (error) {
     console.error(`Error parsing meeting file ${filePath}:`, error);
@@ -295,13 +316,13 @@ export function parseMeetingFile(filePath: string): ParsedMeeting | null {
 }
 
 /**
- * Get all meeting files from the knowledge base
+ * Get all meeting files under the given org folders (see getOrgFolders)
  */
-export function getAllMeetingFiles(): string[] {
+export function getAllMeetingFiles(orgFolders: string[]): string[] {
   const files: string[] = [];
 
-  for (const org of ORGS) {
-    const meetingsDir = resolveKBPath(path.join(org, 'meetings'));
+  for (const folder of orgFolders) {
+    const meetingsDir = resolveKBPath(path.join(folder, 'meetings'));
     if (!fs.existsSync(meetingsDir)) continue;
 
     try {
@@ -332,8 +353,8 @@ export function getAllMeetingFiles(): string[] {
 /**
  * Parse all meetings and return their data
  */
-export function parseAllMeetings(): ParsedMeeting[] {
-  const files = getAllMeetingFiles();
+export function parseAllMeetings(orgFolders: string[]): ParsedMeeting[] {
+  const files = getAllMeetingFiles(orgFolders);
   const meetings: ParsedMeeting[] = [];
 
   for (const file of files) {
@@ -356,3 +377,57 @@ export function getMeetingByPath(relativePath: string): ParsedMeeting | null {
   }
   return parseMeetingFile(fullPath);
 }
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/**
+ * Org folder of a meeting note ("acme-corp/meetings/..." -> "acme-corp")
+ */
+export function meetingOrgFolder(meetingPath: string): string | undefined {
+  const index = meetingPath.indexOf('/meetings/');
+  return index > 0 ? meetingPath.slice(0, index) : undefined;
+}
+
+/**
+ * Title with dates and punctuation removed, for matching instances of a
+ * recurring meeting
+ */
+export function meetingTitleKey(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/\d{4}-\d{2}-\d{2}/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Series slug from a `series` value ("Weekly sync with Acme" -> "weekly-sync-with-acme")
+ */
+export function seriesSlug(series: string): string {
+  return series.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Slug of the series a meeting continues: its `series` key, or for notes
+ * without one, its title with dates dropped. Older notes written before the
+ * series was named still count as earlier instances.
+ */
+export function meetingSeriesSlug(meeting: Pick<ParsedMeeting, 'series' | 'title'>): string {
+  return seriesSlug(meeting.series ?? meetingTitleKey(meeting.title));
+}
+
+/**
+ * Every note in the meeting's series in its org folder (including the
+ * meeting itself), oldest first
+ */
+export function getSeriesMeetings(meeting: ParsedMeeting): ParsedMeeting[] {
+  const folder = meetingOrgFolder(meeting.path);
+  if (!folder) return [meeting];
+
+  const slug = meetingSeriesSlug(meeting);
+  const instances = parseAllMeetings([folder]).filter(m => m.date && meetingSeriesSlug(m) === slug);
+  if (!instances.some(m => m.path === meeting.path)) instances.push(meeting);
+  return instances.sort((a, b) => a.date.localeCompare(b.date) || a.path.localeCompare(b.path));
+}
@@ -0,0 +1,258 @@
+/**
+ * Meeting Series Service
+ *
+ * Recurring meetings ("Weekly sync with Acme") are notes sharing a `series`
+ * frontmatter key; meeting sync links their records to a MeetingSeries row.
+ * This service lists a series' timeline and scaffolds the next note, with
+ * the previous instance's open actions carried over.
+ */
+
+import path from 'path';
+import type { MeetingAgendaItem, MeetingSeriesTimeline } from '@kw/api-types';
+import { openMeetingActions, renderAgendaItem } from './meeting-agenda.js';
+import {
+  extractSections,
+  getMeetingByPath,
+  getSeriesMeetings,
+  meetingOrgFolder,
+  type ParsedMeeting,
+} from './meeting-parser.js';
+import type { Prisma, PrismaClient } from '../generated/prisma/index.js';
+
+/** Gap to the next meeting when the series has no earlier one to go by */
+const DEFAULT_INTERVAL_DAYS = 7;
+/** Longer gaps between the last two meetings are treated as one-offs */
+const MAX_INTERVAL_DAYS = 92;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CARRY_OVER_HEADING = '## Actions from Previous Meetings';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface NextMeetingPlan {
+  path: string;
+  title: string;
+  date: string;
+  series: string;
+  previous: ParsedMeeting;
+  carriedOver: MeetingAgendaItem[];
+  content: string;
+}
+
+const seriesInclude = {
+  organization: { select: { slug: true } },
+  meetings: { select: { date: true }, orderBy: { date: 'asc' } },
+} satisfies Prisma.MeetingSeriesInclude;
+
+type SeriesWithMeetings = Prisma.MeetingSeriesGetPayload<{ include: typeof seriesInclude }>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Series name for a note that doesn't have one: its title without dates
+ */
+function seriesNameFromTitle(title: string): string {
+  return title
+    .replace(/\d{4}-\d{2}-\d{2}/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-–—:|,]+|[\s\-–—:|,]+$/g, '');
+}
+
+/**
+ * Frontmatter scalar, quoted when YAML would misread it
+ */
+function yamlValue(value: string): string {
+  return /[:#]|^[\s"'[{&*!|>%@`-]/.test(value) ? JSON.stringify(value) : value;
+}
+
+/**
+ * The note's Summary section without the rule that ends it
+ */
+function noteSummary(note: ParsedMeeting): string | null {
+  const summary = extractSections(note.body)['Summary'] ?? '';
+  return summary.replace(/(^|\n)-{3,}\s*$/, '').trim() || null;
+}
+
+function seriesSummary(series: SeriesWithMeetings) {
+  const dates = series.meetings.map(m => m.date.toISOString().split('T')[0]);
+  return {
+    id: series.id,
+    slug: series.slug,
+    name: series.name,
+    orgSlug: series.organization?.slug ?? null,
+    meetingCount: dates.length,
+    firstDate: dates[0] ?? null,
+    lastDate: dates.at(-1) ?? null,
+  };
+}
+
+// =============================================================================
+// TIMELINE
+// =============================================================================
+
+/**
+ * Series with their meeting counts and date range, most recently met first
+ */
+export async function listSeries(prisma: PrismaClient, orgSlug?: string) {
+  const series = await prisma.meetingSeries.findMany({
+    where: orgSlug ? { organization: { slug: orgSlug } } : {},
+    include: seriesInclude,
+  });
+  return series
+    .map(seriesSummary)
+    .sort((a, b) => (b.lastDate ?? '').localeCompare(a.lastDate ?? '') || a.name.localeCompare(b.name));
+}
+
+/**
+ * A series and its meetings, oldest first, with each note's summary and how
+ * many of its actions are still open
+ */
+export async function getSeriesTimeline(prisma: PrismaClient, seriesId: number): Promise<MeetingSeriesTimeline | null> {
+  const series = await prisma.meetingSeries.findUnique({ where: { id: seriesId }, include: seriesInclude });
+  if (!series) return null;
+
+  const meetings = await prisma.meeting.findMany({
+    where: { seriesId },
+    include: { sourceItems: { where: { deletedAt: null }, select: { status: true } } },
+    orderBy: [{ date: 'asc' }, { path: 'asc' }],
+  });
+
+  return {
+    ...seriesSummary(series),
+    meetings: meetings.map(meeting => {
+      const note = getMeetingByPath(meeting.path);
+      return {
+        id: meeting.id,
+        title: meeting.title,
+        date: meeting.date.toISOString().split('T')[0],
+        path: meeting.path,
+        status: note?.status ?? null,
+        summary: note ? noteSummary(note) : null,
+        actions: {
+          total: meeting.sourceItems.length,
+          open: meeting.sourceItems.filter(i => i.status !== 'complete' && i.status !== 'cancelled').length,
+        },
+      };
+    }),
+  };
+}
+
+// =============================================================================
+// NEXT MEETING
+// =============================================================================
+
+/**
+ * Work out the next note in a meeting's series: copied from the latest
+ * instance, dated `date` or one interval after it, with its open actions
+ * listed under "Actions from Previous Meetings". Nothing is written.
+ */
+export async function planNextMeeting(prisma: PrismaClient, meeting: ParsedMeeting, date?: string): Promise<NextMeetingPlan> {
+  const instances = getSeriesMeetings(meeting);
+  const latest = instances.at(-1)!;
+  const folder = meetingOrgFolder(latest.path);
+  if (!folder || !latest.date) {
+    throw new Error(`${latest.path} isn't a dated note under <org>/meetings/`);
+  }
+
+  let nextDate = date;
+  if (!nextDate) {
+    const before = instances.at(-2);
+    const gap = before ? daysBetween(before.date, latest.date) : 0;
+    nextDate = addDays(latest.date, gap > 0 && gap <= MAX_INTERVAL_DAYS ? gap : DEFAULT_INTERVAL_DAYS);
+  }
+  if (nextDate <= latest.date) {
+    throw new Error(`The next meeting must be after the latest one (${latest.date})`);
+  }
+
+  const slug = path.basename(latest.path, '.md').replace(/^\d{4}-\d{2}-\d{2}-?/, '') || 'meeting';
+  const [year, month] = nextDate.split('-');
+  const title = latest.title.split(latest.date).join(nextDate);
+  const series = latest.series ?? seriesNameFromTitle(latest.title);
+  const carriedOver = await openMeetingActions(prisma, latest);
+
+  return {
+    path: `${folder}/meetings/${year}/${month}/${nextDate}-${slug}.md`,
+    title,
+    date: nextDate,
+    series,
+    previous: latest,
+    carriedOver,
+    content: renderNextMeeting(latest, { title, date: nextDate, series, carriedOver }),
+  };
+}
+
+/**
+ * Markdown for the next note: the previous note's frontmatter with a new
+ * date and status planned, the carried-over actions and empty sections
+ */
+export function renderNextMeeting(
+  previous: ParsedMeeting,
+  next: { title: string; date: string; series: string; carriedOver: MeetingAgendaItem[] }
+): string {
+  const frontmatter = [
+    `title: ${yamlValue(next.title)}`,
+    `date: ${next.date}`,
+    `series: ${yamlValue(next.series)}`,
+    'attendees:',
+    ...previous.attendees.map(a => `  - ${yamlValue(a)}`),
+  ];
+  if (previous.location) frontmatter.push(`location: ${yamlValue(previous.location)}`);
+  if (previous.tags.length > 0) frontmatter.push('tags:', ...previous.tags.map(t => `  - ${yamlValue(t)}`));
+  if (previous.projects.length > 1) {
+    frontmatter.push('projects:', ...previous.projects.map(p => `  - ${p}`));
+  } else if (previous.primaryProject) {
+    frontmatter.push(`project: ${previous.primaryProject}`);
+  }
+  frontmatter.push('status: planned');
+
+  const carryOver = next.carriedOver.length > 0
+    ? next.carriedOver.map(item => renderAgendaItem(item, { kind: 'carryover', heading: CARRY_OVER_HEADING }))
+    : ['- Nothing left open'];
+
+  return [
+    '---',
+    ...frontmatter,
+    '---',
+    '',
+    `# ${next.title}`,
+    '',
+    CARRY_OVER_HEADING,
+    '',
+    `Open after [[${previous.path.replace(/\.md$/, '')}|${previous.date}]]:`,
+    '',
+    ...carryOver,
+    '',
+    '---',
+    '',
+    '## Summary',
+    '',
+    '---',
+    '',
+    '## Discussion',
+    '',
+    '---',
+    '',
+    '## Decisions',
+    '',
+    '---',
+    '',
+    '## Actions',
+    '',
+    '| Owner | Action |',
+    '|-------|--------|',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,304 @@
+/**
+ * Meeting Sync Service
+ *
+ * Turns the action table of a parsed meeting note (see meeting-parser.ts)
+ * into tasks. Used by sync.meeting and the background sync watcher.
+ */
+
+import { parseDueDate, seriesSlug, type ParsedMeeting } from './meeting-parser.js';
+import { takeSnapshot, recordAudit, type Actor } from './audit.js';
+import type { PrismaClient } from '../generated/prisma/index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MeetingSyncResult {
+  meetingPath: string;
+  meetingTitle: string;
+  actionsFound: number;
+  tasksCreated: number;
+  tasksUpdated: number;
+  tasksSkipped: number;
+  errors: string[];
+  taskIds: number[];
+}
+
+/** Audit log actor for tasks created or updated from meeting notes */
+export const MEETING_SYNC_ACTOR: Actor = { type: 'sync', name: 'meeting-sync' };
+
+// =============================================================================
+// Helper: Map action status to task status
+// =============================================================================
+
+export function mapActionStatus(status: string): string {
+  const lower = status.toLowerCase();
+  if (lower === 'done' || lower === 'complete' || lower === 'completed') return 'complete';
+  if (lower === 'cancelled' || lower === 'canceled') return 'cancelled';
+  if (lower === 'in progress' || lower === 'in-progress' || lower === 'active') return 'in_progress';
+  if (lower === 'blocked') return 'blocked';
+  if (lower === 'deferred') return 'deferred';
+  return 'pending';
+}
+
+// =============================================================================
+// Helper: Meeting series
+// =============================================================================
+
+/**
+ * The series a `series` frontmatter value names, created on first use.
+ * Series are per org, matched by slug.
+ */
+async function findOrCreateSeries(prisma: PrismaClient, name: string, orgFolder: string | undefined): Promise<number> {
+  const org = orgFolder
+    ? await prisma.organization.findFirst({ where: { folderPath: orgFolder }, select: { id: true } })
+    : null;
+  const slug = seriesSlug(name);
+
+  const existing = await prisma.meetingSeries.findFirst({ where: { orgId: org?.id ?? null, slug } });
+  if (existing) return existing.id;
+
+  const created = await prisma.meetingSeries.create({ data: { slug, name, orgId: org?.id ?? null } });
+  return created.id;
+}
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+/**
+ * Create or update tasks from a meeting's action table, and record the
+ * meeting with its projects and attendees
+ */
+export async function syncMeetingActions(prisma: PrismaClient, meeting: ParsedMeeting): Promise<MeetingSyncResult> {
+  const result: MeetingSyncResult = {
+    meetingPath: meeting.path,
+    meetingTitle: meeting.title,
+    actionsFound: meeting.actions.length,
+    tasksCreated: 0,
+    tasksUpdated: 0,
+    tasksSkipped: 0,
+    errors: [],
+    taskIds: [],
+  };
+
+  // Org folder from meeting path (e.g., "acme-corp/meetings/..." -> "acme-corp")
+  const meetingsIndex = meeting.path.indexOf('/meetings/');
+  const meetingOrgFolder = meetingsIndex > 0 ? meeting.path.slice(0, meetingsIndex) : undefined;
+
+  // Find or create meeting in database (always, even with no actions)
+  let meetingRecord = await prisma.meeting.findUnique({
+    where: { path: meeting.path },
+  });
+
+  if (!meetingRecord) {
+    meetingRecord = await prisma.meeting.create({
+      data: {
+        title: meeting.title,
+        date: new Date(meeting.date),
+        path: meeting.path,
+      },
+    });
+
+    // Link projects if available
+    for (let i = 0; i < meeting.projects.length; i++) {
+      const projectSlug = meeting.projects[i];
+      const project = await prisma.project.findFirst({
+        where: {
+          slug: projectSlug,
+          ...(meetingOrgFolder ? { organization: { folderPath: meetingOrgFolder } } : {}),
+        },
+      });
+      if (project) {
+        await prisma.meetingProject.upsert({
+          where: {
+            meetingId_projectId: {
+              meetingId: meetingRecord.id,
+              projectId: project.id,
+            },
+          },
+          create: {
+            meetingId: meetingRecord.id,
+            projectId: project.id,
+            isPrimary: i === 0,
+          },
+          update: {},
+        });
+      }
+    }
+  }
+
+  // Link to the series named in the frontmatter (or unlink if it was removed)
+  const seriesId = meeting.series ? await findOrCreateSeries(prisma, meeting.series, meetingOrgFolder) : null;
+  if (meetingRecord.seriesId !== seriesId) {
+    meetingRecord = await prisma.meeting.update({
+      where: { id: meetingRecord.id },
+      data: { seriesId },
+    });
+  }
+
+  // Sync attendees
+  for (const attendeeName of meeting.attendees) {
+    let person = await prisma.person.findFirst({
+      where: { name: { equals: attendeeName } },
+    });
+    if (!person) {
+      person = await prisma.person.create({
+        data: { name: attendeeName },
+      });
+    }
+    await prisma.meetingAttendee.upsert({
+      where: {
+        meetingId_personId: {
+          meetingId: meetingRecord.id,
+          personId: person.id,
+        },
+      },
+      create: {
+        meetingId: meetingRecord.id,
+        personId: person.id,
+      },
+      update: {},
+    });
+  }
+
+  // If no actions, we're done (meeting and attendees are already synced)
+  if (meeting.actions.length === 0) {
+    return result;
+  }
+
+  // Process each action
+  for (const action of meeting.actions) {
+    try {
+      // Skip completed/cancelled actions
+      const statusLower = action.status.toLowerCase();
+      if (statusLower === 'complete' || statusLower === 'cancelled') {
+        result.tasksSkipped++;
+        continue;
+      }
+
+      // Check if task already exists
+      const existingTask = await prisma.item.findFirst({
+        where: {
+          sourceMeetingId: meetingRecord.id,
+          title: action.action,
+        },
+      });
+
+      if (existingTask) {
+        if (existingTask.deletedAt) {
+          result.tasksSkipped++;
+          continue;
+        }
+        const newStatus = mapActionStatus(action.status);
+        if (existingTask.status !== newStatus && newStatus !== 'complete') {
+          const before = await takeSnapshot(prisma, 'items', existingTask.id);
+          await prisma.item.update({
+            where: { id: existingTask.id },
+            data: { status: newStatus },
+          });
+          await recordAudit(prisma, {
+            procedure: 'sync.meeting',
+            actor: MEETING_SYNC_ACTOR,
+            entries: [{
+              entity: 'items',
+              entityId: existingTask.id,
+              before,
+              after: await takeSnapshot(prisma, 'items', existingTask.id),
+            }],
+          });
+          result.tasksUpdated++;
+          result.taskIds.push(existingTask.id);
+        } else {
+          result.tasksSkipped++;
+          result.taskIds.push(existingTask.id);
+        }
+        continue;
+      }
+
+      // Find or create owner
+      let ownerId: number | null = null;
+      const additionalAssignees: number[] = [];
+
+      if (action.owner) {
+        const ownerNames = action.owner
+          .split(/[,&]|\band\b/i)
+          .map((n) => n.trim())
+          .filter((n) => n.length > 0);
+
+        for (let i = 0; i < ownerNames.length; i++) {
+          const ownerName = ownerNames[i];
+          let person = await prisma.person.findFirst({
+            where: { name: { contains: ownerName } },
+          });
+          if (!person) {
+            person = await prisma.person.create({
+              data: { name: ownerName },
+            });
+          }
+
+          if (i === 0) {
+            ownerId = person.id;
+          } else {
+            additionalAssignees.push(person.id);
+          }
+        }
+      }
+
+      // Find project (scoped to meeting's org)
+      let projectId: number | null = null;
+      const projectSlug = action.project || meeting.primaryProject;
+      if (projectSlug) {
+        const project = await prisma.project.findFirst({
+          where: {
+            slug: projectSlug,
+            ...(meetingOrgFolder ? { organization: { folderPath: meetingOrgFolder } } : {}),
+          },
+        });
+        projectId = project?.id || null;
+      }
+
+      // Parse due date
+      const dueDate = parseDueDate(action.due);
+
+      // Create task
+      const newTask = await prisma.item.create({
+        data: {
+          title: action.action,
+          status: mapActionStatus(action.status),
+          itemType: 'task',
+          dueDate: dueDate ? new Date(dueDate) : null,
+          ownerId,
+          projectId,
+          sourceMeetingId: meetingRecord.id,
+          sourceType: 'meeting',
+          sourcePath: meeting.path,
+        },
+      });
+
+      // Link additional assignees
+      for (const assigneeId of additionalAssignees) {
+        await prisma.itemPerson.create({
+          data: {
+            itemId: newTask.id,
+            personId: assigneeId,
+            role: 'assignee',
+          },
+        });
+      }
+
+      await recordAudit(prisma, {
+        procedure: 'sync.meeting',
+        actor: MEETING_SYNC_ACTOR,
+        entries: [{ entity: 'items', entityId: newTask.id, before: null, after: await takeSnapshot(prisma, 'items', newTask.id) }],
+      });
+
+      result.tasksCreated++;
+      result.taskIds.push(newTask.id);
+    } catch (error) {
+      result.errors.push(`Failed to process action "${action.action}": ${(error as Error).message}`);
+    }
+  }
+
+  return result;
+}
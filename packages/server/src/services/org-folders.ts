@@ -0,0 +1,121 @@
+/**
+ * Organization Folders
+ *
+ * Each organization's projects/ and meetings/ live under its folderPath in
+ * the knowledge base (usually the org slug). Meeting and project sync read
+ * the folders from here, so an org takes part as soon as it is created, and
+ * stops when it is archived.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { PrismaClient } from '../generated/prisma/index.js';
+
+export interface OrgFolder {
+  orgId: number;
+  slug: string;
+  /** Relative to the KB root, without trailing slash */
+  folder: string;
+}
+
+export interface OrgFolderReconcileResult {
+  /** Folders with no matching org; an org was created for each */
+  created: { slug: string; folder: string }[];
+  /** Orgs without a folder whose slug matched a folder on disk */
+  linked: { slug: string; folder: string }[];
+  /** Active orgs whose folder doesn't exist */
+  missing: { slug: string; folder: string }[];
+}
+
+/** Subfolders that mark a top-level KB folder as an org folder */
+const ORG_CONTENT_DIRS = ['projects', 'meetings'];
+
+/**
+ * Normalize a user-supplied folder path: forward slashes, no leading or
+ * trailing slash. Returns null for paths that leave the KB root.
+ */
+export function normalizeFolderPath(folderPath: string): string | null {
+  const normalized = path.posix.normalize(folderPath.replace(/\\/g, '/')).replace(/^\/+|\/+$/g, '');
+  if (!normalized || normalized === '.' || normalized.startsWith('..')) return null;
+  return normalized;
+}
+
+/**
+ * Folders of all active (non-archived) organizations
+ */
+export async function getOrgFolders(prisma: PrismaClient): Promise<OrgFolder[]> {
+  const orgs = await prisma.organization.findMany({
+    where: { archived: false, folderPath: { not: null } },
+    select: { id: true, slug: true, folderPath: true },
+    orderBy: { slug: 'asc' },
+  });
+  return orgs.map(o => ({ orgId: o.id, slug: o.slug, folder: o.folderPath! }));
+}
+
+/**
+ * The org folder a KB-relative path is in (the deepest one if folders nest)
+ */
+export function orgFolderForPath(folders: OrgFolder[], relativePath: string): OrgFolder | null {
+  let match: OrgFolder | null = null;
+  for (const folder of folders) {
+    if (relativePath.startsWith(`${folder.folder}/`) && (!match || folder.folder.length > match.folder.length)) {
+      match = folder;
+    }
+  }
+  return match;
+}
+
+function titleCase(slug: string): string {
+  return slug.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/**
+ * Match top-level KB folders that contain projects/ or meetings/ with
+ * organizations. Orgs with a matching slug but no folder are linked, folders
+ * with no org get one, and orgs whose folder is gone are reported. With
+ * `apply: false` nothing is written.
+ */
+export async function reconcileOrgFolders(
+  prisma: PrismaClient,
+  basePath: string,
+  options: { apply: boolean }
+): Promise<OrgFolderReconcileResult> {
+  const result: OrgFolderReconcileResult = { created: [], linked: [], missing: [] };
+
+  const folders = fs.readdirSync(basePath, { withFileTypes: true })
+    .filter(e => e.isDirectory() && !e.name.startsWith('.') && e.name !== 'node_modules')
+    .filter(e => ORG_CONTENT_DIRS.some(d => fs.existsSync(path.join(basePath, e.name, d))))
+    .map(e => e.name)
+    .sort();
+
+  const orgs = await prisma.organization.findMany({
+    select: { id: true, slug: true, folderPath: true, archived: true },
+  });
+  const claimed = new Set(orgs.map(o => o.folderPath).filter((f): f is string => !!f));
+  const bySlug = new Map(orgs.map(o => [o.slug, o]));
+
+  for (const folder of folders) {
+    if (claimed.has(folder)) continue;
+
+    const org = bySlug.get(folder);
+    if (org && !org.folderPath) {
+      result.linked.push({ slug: org.slug, folder });
+      if (options.apply) {
+        await prisma.organization.update({ where: { id: org.id }, data: { folderPath: folder } });
+      }
+    } else if (!org && /^[a-z0-9-]+$/.test(folder)) {
+      result.created.push({ slug: folder, folder });
+      if (options.apply) {
+        await prisma.organization.create({ data: { slug: folder, name: titleCase(folder), folderPath: folder } });
+      }
+    }
+  }
+
+  for (const org of orgs) {
+    if (org.folderPath && !org.archived && !fs.existsSync(path.join(basePath, org.folderPath))) {
+      result.missing.push({ slug: org.slug, folder: org.folderPath });
+    }
+  }
+
+  return result;
+}
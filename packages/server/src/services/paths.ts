@@ -28,6 +28,14 @@ export function getKnowledgeBasePath(): string {
   return kbPath;
 }
 
+/**
+ * Forget the cached path, so the next call reads KNOWLEDGE_BASE_PATH again.
+ * For tests that point the knowledge base at a temp directory.
+ */
+export function resetKnowledgeBasePathCache(): void {
+  cachedKBPath = null;
+}
+
 /**
  * Resolve a relative path to an absolute path within the knowledge base.
  */
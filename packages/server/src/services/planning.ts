@@ -0,0 +1,285 @@
+/**
+ * Planning
+ *
+ * Lays out a run of days against the capacity set for each weekday: open
+ * tasks due that day, pending check-ins, routines that fall on it and calendar
+ * busy time. A day whose load exceeds its capacity is overloaded, and the
+ * lowest-priority tasks on it are suggested for days that still have room.
+ *
+ * Tasks without an estimate count as DEFAULT_TASK_MINUTES, check-ins as
+ * CHECKIN_MINUTES and routines as their estimate or ROUTINE_MINUTES.
+ */
+
+import type { PlanDay, PlanSuggestion, WeekPlan } from '@kw/api-types';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { formatTaskId } from '../types/index.js';
+import { getCalendarClient, getConfiguredCalendarIds } from './google-client.js';
+import { isDueOnDate } from './routine-generator-prisma.js';
+
+export const DEFAULT_TASK_MINUTES = 30;
+export const CHECKIN_MINUTES = 15;
+export const ROUTINE_MINUTES = 15;
+
+/** Minutes per weekday (Sunday first) until capacity is set */
+export const DEFAULT_CAPACITY = [0, 480, 480, 480, 480, 480, 0];
+
+const DONE_STATUSES = ['complete', 'cancelled'];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00.000Z`).getUTCDay();
+}
+
+/** Lower number = more important; unprioritised work sorts last */
+function priorityRank(priority: number | null): number {
+  return priority ?? 5;
+}
+
+/**
+ * Capacity in minutes for each weekday, Sunday first
+ */
+export async function getCapacity(prisma: PrismaClient): Promise<number[]> {
+  const rows = await prisma.dayCapacity.findMany();
+  const capacity = [...DEFAULT_CAPACITY];
+  for (const row of rows) capacity[row.weekday] = row.minutes;
+  return capacity;
+}
+
+/**
+ * Calendar busy minutes per local date. Overlapping events across calendars
+ * are counted once (the free/busy API merges them per calendar; calendars
+ * are merged here).
+ */
+export async function getBusyMinutes(
+  start: string,
+  days: number
+): Promise<{ busy: Map<string, number>; status: WeekPlan['calendar'] }> {
+  const busy = new Map<string, number>();
+  // Finding the credentials throws without a knowledge base path
+  const calendar = await getCalendarClient().catch(() => null);
+  if (!calendar) return { busy, status: 'not_configured' };
+
+  const timeMin = new Date(`${start}T00:00:00`);
+  const timeMax = new Date(`${addDays(start, days)}T00:00:00`);
+
+  let intervals: Array<[number, number]>;
+  try {
+    const response = await calendar.freebusy.query({
+      requestBody: {
+        timeMin: timeMin.toISOString(),
+        timeMax: timeMax.toISOString(),
+        items: getConfiguredCalendarIds().map(id => ({ id })),
+      },
+    });
+    intervals = Object.values(response.data.calendars ?? {})
+      .flatMap(c => c.busy ?? [])
+      .filter(b => b.start && b.end)
+      .map(b => [new Date(b.start!).getTime(), new Date(b.end!).getTime()] as [number, number])
+      .sort((a, b) => a[0] - b[0]);
+  } catch {
+    return { busy, status: 'error' };
+  }
+
+  // Merge overlaps, then split each interval at local midnights
+  const merged: Array<[number, number]> = [];
+  for (const [from, to] of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else merged.push([from, to]);
+  }
+
+  for (let i = 0; i < days; i++) {
+    const date = addDays(start, i);
+    const dayStart = new Date(`${date}T00:00:00`).getTime();
+    const dayEnd = new Date(`${addDays(date, 1)}T00:00:00`).getTime();
+    let minutes = 0;
+    for (const [from, to] of merged) {
+      const overlap = Math.min(to, dayEnd) - Math.max(from, dayStart);
+      if (overlap > 0) minutes += overlap / 60000;
+    }
+    busy.set(date, Math.round(minutes));
+  }
+
+  return { busy, status: 'ok' };
+}
+
+// =============================================================================
+// WEEK PLAN
+// =============================================================================
+
+/**
+ * Plan `days` days from `start`. `ownerId` limits tasks and routines to one
+ * person; check-ins are always included. `busy` holds calendar minutes per
+ * date (see getBusyMinutes).
+ */
+export async function buildWeekPlan(
+  prisma: PrismaClient,
+  options: {
+    start: string;
+    days: number;
+    ownerId?: number;
+    busy?: Map<string, number>;
+    calendar?: WeekPlan['calendar'];
+  }
+): Promise<WeekPlan> {
+  const { start, days } = options;
+  const end = addDays(start, days - 1);
+  const rangeStart = new Date(`${start}T00:00:00.000Z`);
+  const rangeEnd = new Date(`${addDays(start, days)}T00:00:00.000Z`);
+  const ownerFilter = options.ownerId !== undefined ? { ownerId: options.ownerId } : {};
+
+  const [capacity, tasks, checkins, routines, completions, skips] = await Promise.all([
+    getCapacity(prisma),
+    prisma.item.findMany({
+      where: {
+        itemType: 'task',
+        deletedAt: null,
+        status: { notIn: DONE_STATUSES },
+        dueDate: { gte: rangeStart, lt: rangeEnd },
+        ...ownerFilter,
+      },
+      include: { project: { select: { name: true } } },
+      orderBy: [{ priority: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+    }),
+    prisma.checkIn.findMany({
+      where: {
+        completed: false,
+        date: { gte: rangeStart, lt: rangeEnd },
+        item: { deletedAt: null, status: { notIn: DONE_STATUSES } },
+      },
+      include: { item: { select: { id: true, title: true } } },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.item.findMany({
+      where: {
+        itemType: 'routine',
+        recurrenceRule: { not: null },
+        deletedAt: null,
+        ...ownerFilter,
+      },
+      orderBy: [{ recurrenceTime: 'asc' }, { title: 'asc' }],
+    }),
+    prisma.routineCompletion.findMany({
+      where: { completedDate: { gte: rangeStart, lt: rangeEnd } },
+      select: { routineId: true, completedDate: true },
+    }),
+    prisma.routineSkip.findMany({
+      where: { skipDate: { gte: rangeStart, lt: rangeEnd } },
+      select: { routineId: true, skipDate: true },
+    }),
+  ]);
+
+  const handled = new Set([
+    ...completions.map(c => `${c.routineId}:${c.completedDate.toISOString().split('T')[0]}`),
+    ...skips.map(s => `${s.routineId}:${s.skipDate.toISOString().split('T')[0]}`),
+  ]);
+
+  const planDays: PlanDay[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = addDays(start, i);
+    const weekday = weekdayOf(date);
+    // Midday avoids a timezone offset moving the date for isDueOnDate
+    const localDate = new Date(`${date}T12:00:00`);
+
+    const day: PlanDay = {
+      date,
+      weekday,
+      capacityMinutes: capacity[weekday],
+      busyMinutes: options.busy?.get(date) ?? 0,
+      plannedMinutes: 0,
+      freeMinutes: 0,
+      overloaded: false,
+      tasks: tasks
+        .filter(t => t.dueDate!.toISOString().split('T')[0] === date)
+        .map(t => ({
+          id: t.id,
+          displayId: formatTaskId(t.id),
+          title: t.title,
+          status: t.status,
+          priority: t.priority,
+          projectName: t.project?.name ?? null,
+          estimateMinutes: t.estimateMinutes,
+          minutes: t.estimateMinutes ?? DEFAULT_TASK_MINUTES,
+        })),
+      checkins: checkins
+        .filter(c => c.date.toISOString().split('T')[0] === date)
+        .map(c => ({
+          id: c.item.id,
+          displayId: formatTaskId(c.item.id),
+          title: c.item.title,
+          checkinId: c.id,
+          minutes: CHECKIN_MINUTES,
+        })),
+      routines: routines
+        .filter(r => !handled.has(`${r.id}:${date}`) && isDueOnDate(r, localDate))
+        .map(r => ({
+          id: r.id,
+          title: r.title,
+          recurrenceTime: r.recurrenceTime,
+          minutes: r.estimateMinutes ?? ROUTINE_MINUTES,
+        })),
+    };
+
+    day.plannedMinutes = [...day.tasks, ...day.checkins, ...day.routines].reduce((sum, x) => sum + x.minutes, 0);
+    day.freeMinutes = day.capacityMinutes - day.busyMinutes - day.plannedMinutes;
+    day.overloaded = day.freeMinutes < 0;
+    planDays.push(day);
+  }
+
+  return {
+    start,
+    end,
+    days: planDays,
+    suggestions: suggestMoves(planDays),
+    calendar: options.calendar ?? 'not_configured',
+  };
+}
+
+/**
+ * For each overloaded day, move its least important tasks (never priority 1)
+ * to the nearest later day with room for them, or failing that the nearest
+ * earlier one. Moves are counted against the target day as they are made.
+ */
+export function suggestMoves(days: PlanDay[]): PlanSuggestion[] {
+  const free = days.map(d => d.freeMinutes);
+  const suggestions: PlanSuggestion[] = [];
+
+  days.forEach((day, i) => {
+    const candidates = day.tasks
+      .filter(t => t.priority !== 1)
+      .sort((a, b) => priorityRank(b.priority) - priorityRank(a.priority) || b.minutes - a.minutes);
+
+    for (const task of candidates) {
+      if (free[i] >= 0) break;
+      const order = [
+        ...days.map((_, j) => j).filter(j => j > i),
+        ...days.map((_, j) => j).filter(j => j < i).reverse(),
+      ];
+      const target = order.find(j => free[j] >= task.minutes);
+      if (target === undefined) continue;
+
+      free[i] += task.minutes;
+      free[target] -= task.minutes;
+      suggestions.push({
+        itemId: task.id,
+        displayId: task.displayId,
+        title: task.title,
+        priority: task.priority,
+        minutes: task.minutes,
+        from: day.date,
+        to: days[target].date,
+      });
+    }
+  });
+
+  return suggestions;
+}
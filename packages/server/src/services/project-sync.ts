@@ -7,22 +7,14 @@
 import fs from 'fs';
 import path from 'path';
 import { getPrisma } from '../prisma.js';
-import { resolveKBPath } from './paths.js';
-
-// Organisation folders and their DB identifiers
-const ORGS: { folder: string; dbOrg: string; name: string }[] = [
-  { folder: 'acme-corp', dbOrg: 'acme-corp', name: 'Acme Corp' },
-  { folder: 'example-org', dbOrg: 'example-org', name: 'Centre for Example Org' },
-  { folder: 'consulting', dbOrg: 'consulting', name: 'Consulting' },
-  { folder: 'personal', dbOrg: 'personal', name: 'Personal' },
-  { folder: 'pricedout', dbOrg: 'pricedout', name: 'PricedOut' },
-  { folder: 'other', dbOrg: 'other', name: 'Other' },
-];
-
-interface ProjectInfo {
+import { resolveKBPath, getRelativeKBPath } from './paths.js';
+import { getOrgFolders } from './org-folders.js';
+
+export interface ProjectInfo {
   slug: string;
   name: string;
   org: string;
+  filePath: string; // README or standalone file, relative to KB root
   status: string | null;
   priority: number | null;
   description?: string;
@@ -119,12 +111,12 @@ function extractProjectName(content: string, fallbackSlug: string): string {
 }
 
 /**
- * Scan the knowledge base for all projects
+ * Scan the folders of all active organizations for projects
  */
-export function scanProjects(): ProjectInfo[] {
+export async function scanProjects(): Promise<ProjectInfo[]> {
   const projects: ProjectInfo[] = [];
 
-  for (const { folder, dbOrg } of ORGS) {
+  for (const { folder, slug: dbOrg } of await getOrgFolders(getPrisma())) {
     const projectsDir = resolveKBPath(path.join(folder, 'projects'));
     if (!fs.existsSync(projectsDir)) continue;
 
@@ -146,6 +138,7 @@ export function scanProjects(): ProjectInfo[] {
               slug: entry,
               name: extractProjectName(content, entry),
               org: dbOrg,
+              filePath: getRelativeKBPath(readmePath),
               status: normalizeStatus(frontmatter.status as string | undefined),
               priority: normalizePriority(frontmatter.priority as number | undefined),
               isSubProject: false,
@@ -170,6 +163,7 @@ export function scanProjects(): ProjectInfo[] {
                         slug: subEntry,
                         name: extractProjectName(subContent, subEntry),
                         org: dbOrg,
+                        filePath: getRelativeKBPath(subReadme),
                         status: normalizeStatus(subFrontmatter.status as string | undefined),
                         priority: normalizePriority(subFrontmatter.priority as number | undefined),
                         isSubProject: true,
@@ -196,6 +190,7 @@ export function scanProjects(): ProjectInfo[] {
                     slug: subSlug,
                     name: extractProjectName(subContent, subSlug),
                     org: dbOrg,
+                    filePath: getRelativeKBPath(subPath),
                     status: normalizeStatus(subFrontmatter.status as string | undefined),
                     priority: normalizePriority(subFrontmatter.priority as number | undefined),
                     isSubProject: true,
@@ -217,6 +212,7 @@ export function scanProjects(): ProjectInfo[] {
             slug,
             name: extractProjectName(content, slug),
             org: dbOrg,
+            filePath: getRelativeKBPath(fullPath),
             status: normalizeStatus(frontmatter.status as string | undefined),
             priority: normalizePriority(frontmatter.priority as number | undefined),
             isSubProject: false,
@@ -232,9 +228,10 @@ export function scanProjects(): ProjectInfo[] {
 }
 
 /**
- * Sync projects to the database
+ * Sync projects to the database. Pass `filePaths` (relative to the KB root)
+ * to only sync the projects defined by those files.
  */
-export async function syncProjects(): Promise<SyncResult> {
+export async function syncProjects(options: { filePaths?: string[] } = {}): Promise<SyncResult> {
   const prisma = getPrisma();
   const result: SyncResult = {
     projects_found: 0,
@@ -243,7 +240,11 @@ export async function syncProjects(): Promise<SyncResult> {
     errors: [],
   };
 
-  const projects = scanProjects();
+  let projects = await scanProjects();
+  if (options.filePaths) {
+    const wanted = new Set(options.filePaths);
+    projects = projects.filter(p => wanted.has(p.filePath));
+  }
   result.projects_found = projects.length;
 
   // Use Prisma transaction for atomicity
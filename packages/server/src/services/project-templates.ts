@@ -0,0 +1,386 @@
+/**
+ * Project Templates
+ *
+ * Templates live in the knowledge base at templates/projects/<id>/ and are
+ * copied into a new project folder with {{variables}} filled in:
+ *
+ *   README.md         → the project README (required)
+ *   template.md       → manifest, not copied: name, description, variables and
+ *                       starter tasks in its frontmatter
+ *   <x>.md            → workstream <x>, if its frontmatter has type: workstream
+ *   <dir>/README.md   → workstream <dir>, likewise
+ *
+ * Other files are copied too; only markdown is rendered. Built-in variables
+ * are name, slug, org and date (today, YYYY-MM-DD).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import { ProjectStatusSchema, type ProjectTemplate, type ProjectTemplateVariable } from '@kw/api-types';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { actorLabel, type Actor } from './audit.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProjectTemplateTask {
+  title: string;
+  /** Days after scaffolding */
+  dueInDays: number | null;
+  priority: number | null;
+  /** Person name; unknown names leave the task unassigned */
+  owner: string | null;
+  /** Workstream slug; defaults to the project itself */
+  workstream: string | null;
+  description: string | null;
+}
+
+export interface LoadedProjectTemplate extends ProjectTemplate {
+  /** Files to copy, relative to the template folder */
+  sources: { path: string; content: Buffer }[];
+  tasks: ProjectTemplateTask[];
+}
+
+export interface ScaffoldTarget {
+  orgId: number;
+  /** Org folder relative to the KB root */
+  orgFolder: string;
+  slug: string;
+  name: string;
+}
+
+export interface ScaffoldResult {
+  projectId: number;
+  path: string;
+  workstreams: { id: number; slug: string; name: string }[];
+  taskIds: number[];
+  files: string[];
+  warnings: string[];
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const TEMPLATES_DIR = 'templates/projects';
+const MANIFEST_FILE = 'template.md';
+const BUILTIN_VARIABLES = ['name', 'slug', 'org', 'date'];
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_-]+)\s*\}\}/g;
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+function listFiles(dir: string, prefix = ''): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFiles(path.join(dir, entry.name), relativePath));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+function optionalString(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+function optionalNumber(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : Number(value);
+  return value === undefined || value === null || value === '' || Number.isNaN(n) ? null : n;
+}
+
+function parseVariables(raw: unknown): ProjectTemplateVariable[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((v): v is Record<string, unknown> => !!v && typeof v === 'object' && typeof v.key === 'string')
+    .map(v => ({
+      key: v.key as string,
+      label: optionalString(v.label) ?? (v.key as string),
+      required: v.required === true,
+      default: optionalString(v.default),
+    }));
+}
+
+function parseTasks(raw: unknown): ProjectTemplateTask[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((t): t is Record<string, unknown> => !!t && typeof t === 'object' && typeof t.title === 'string')
+    .map(t => ({
+      title: t.title as string,
+      dueInDays: optionalNumber(t.due),
+      priority: optionalNumber(t.priority),
+      owner: optionalString(t.owner),
+      workstream: optionalString(t.workstream),
+      description: optionalString(t.description),
+    }));
+}
+
+/**
+ * Load one template, or null if there is no templates/projects/<id>/README.md
+ */
+export function loadProjectTemplate(basePath: string, id: string): LoadedProjectTemplate | null {
+  if (!TEMPLATE_ID_PATTERN.test(id)) return null;
+  const dir = path.join(basePath, TEMPLATES_DIR, id);
+  if (!fs.existsSync(path.join(dir, 'README.md'))) return null;
+
+  let manifest: Record<string, unknown> = {};
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  if (fs.existsSync(manifestPath)) {
+    manifest = matter(fs.readFileSync(manifestPath, 'utf-8')).data;
+  }
+
+  const sources = listFiles(dir)
+    .filter(f => f !== MANIFEST_FILE)
+    .map(f => ({ path: f, content: fs.readFileSync(path.join(dir, f)) }));
+  const tasks = parseTasks(manifest.tasks);
+
+  return {
+    id,
+    name: optionalString(manifest.name) ?? id,
+    description: optionalString(manifest.description),
+    variables: parseVariables(manifest.variables).filter(v => !BUILTIN_VARIABLES.includes(v.key)),
+    files: sources.map(s => s.path),
+    taskCount: tasks.length,
+    sources,
+    tasks,
+  };
+}
+
+/**
+ * All project templates in the knowledge base, by id
+ */
+export function listProjectTemplates(basePath: string): ProjectTemplate[] {
+  const dir = path.join(basePath, TEMPLATES_DIR);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(e => e.isDirectory())
+    .map(e => loadProjectTemplate(basePath, e.name))
+    .filter((t): t is LoadedProjectTemplate => t !== null)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(({ sources: _sources, tasks: _tasks, ...template }) => template);
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+function isRendered(filePath: string): boolean {
+  return filePath.endsWith('.md');
+}
+
+/**
+ * Fill in defaults and built-ins. Returns the values and any problems:
+ * required variables left empty, or placeholders the template doesn't declare.
+ */
+export function resolveTemplateVariables(
+  template: LoadedProjectTemplate,
+  builtins: { name: string; slug: string; org: string; date: string },
+  input: Record<string, string>
+): { values: Record<string, string>; problems: string[] } {
+  const values: Record<string, string> = {};
+  const problems: string[] = [];
+
+  for (const variable of template.variables) {
+    const value = input[variable.key]?.trim() || variable.default || '';
+    if (!value && variable.required) {
+      problems.push(`Variable '${variable.key}' (${variable.label}) is required`);
+    }
+    values[variable.key] = value;
+  }
+  Object.assign(values, builtins);
+
+  const used = new Set<string>();
+  const texts = [
+    ...template.sources.filter(s => isRendered(s.path)).map(s => s.content.toString('utf-8')),
+    ...template.tasks.flatMap(t => [t.title, t.owner ?? '', t.description ?? '']),
+  ];
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) used.add(match[1]);
+  }
+  for (const key of [...used].sort()) {
+    if (!(key in values)) problems.push(`Template uses undeclared variable '{{${key}}}'`);
+  }
+  for (const key of Object.keys(input)) {
+    if (!(key in values)) problems.push(`Unknown variable '${key}'`);
+  }
+
+  return { values, problems };
+}
+
+export function renderTemplateText(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+function titleFor(content: string, slug: string): string {
+  const { data, content: body } = matter(content);
+  if (typeof data.title === 'string' && data.title) return data.title;
+  const h1 = body.match(/^# (.+)$/m);
+  if (h1) return h1[1].trim();
+  return slug.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/**
+ * Workstreams among the rendered files, using the same rules as project sync
+ */
+function findWorkstreams(files: Map<string, string>): { slug: string; name: string; path: string }[] {
+  const workstreams: { slug: string; name: string; path: string }[] = [];
+  for (const [filePath, content] of files) {
+    const parts = filePath.split('/');
+    let slug: string | null = null;
+    if (parts.length === 1 && filePath !== 'README.md' && filePath !== 'next-steps.md') {
+      slug = filePath.replace(/\.md$/, '');
+    } else if (parts.length === 2 && parts[1] === 'README.md') {
+      slug = parts[0];
+    }
+    if (!slug) continue;
+
+    const type = matter(content).data.type;
+    if (type === 'workstream' || type === 'sub-project') {
+      workstreams.push({ slug, name: titleFor(content, slug), path: filePath });
+    }
+  }
+  return workstreams;
+}
+
+// =============================================================================
+// SCAFFOLDING
+// =============================================================================
+
+function addDays(days: number): Date {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+}
+
+/**
+ * Create a project from a template: its folder and files, the project and
+ * workstream records, and the starter tasks. The files are written to a
+ * hidden staging folder and moved into place as the last step of the
+ * database transaction, so either everything exists afterwards or nothing
+ * does. The caller checks the target is free and the variables are valid.
+ */
+export async function scaffoldProject(
+  prisma: PrismaClient,
+  basePath: string,
+  template: LoadedProjectTemplate,
+  target: ScaffoldTarget,
+  values: Record<string, string>,
+  options: { actor?: Actor; requestId?: string } = {}
+): Promise<ScaffoldResult> {
+  const projectPath = `${target.orgFolder}/projects/${target.slug}`;
+  const projectsDir = path.join(basePath, target.orgFolder, 'projects');
+  const targetDir = path.join(projectsDir, target.slug);
+  const warnings: string[] = [];
+
+  const rendered = new Map<string, string>();
+  for (const source of template.sources) {
+    if (isRendered(source.path)) {
+      rendered.set(source.path, renderTemplateText(source.content.toString('utf-8'), values));
+    }
+  }
+
+  const readme = matter(rendered.get('README.md') ?? '').data;
+  const status = ProjectStatusSchema.safeParse(readme.status);
+  const priority = optionalNumber(readme.priority);
+  const workstreams = findWorkstreams(rendered);
+
+  const tasks: (ProjectTemplateTask & { ownerId: number | null })[] = [];
+  for (const task of template.tasks) {
+    const owner = task.owner ? renderTemplateText(task.owner, values) : null;
+    let ownerId: number | null = null;
+    if (owner) {
+      const person = await prisma.person.findFirst({ where: { name: owner }, select: { id: true } });
+      if (person) {
+        ownerId = person.id;
+      } else {
+        warnings.push(`No person named '${owner}'; task '${renderTemplateText(task.title, values)}' is unassigned`);
+      }
+    }
+    if (task.workstream && !workstreams.some(w => w.slug === task.workstream)) {
+      warnings.push(`No workstream '${task.workstream}'; task '${renderTemplateText(task.title, values)}' is on the project`);
+    }
+    tasks.push({ ...task, ownerId });
+  }
+
+  fs.mkdirSync(projectsDir, { recursive: true });
+  const stagingDir = fs.mkdtempSync(path.join(projectsDir, `.${target.slug}.scaffold-`));
+
+  try {
+    for (const source of template.sources) {
+      const dest = path.join(stagingDir, source.path);
+      fs.mkdirSync(path.dirname(dest), { recursive: true });
+      fs.writeFileSync(dest, rendered.get(source.path) ?? source.content);
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const project = await tx.project.create({
+        data: {
+          slug: target.slug,
+          name: target.name,
+          orgId: target.orgId,
+          status: status.success ? status.data : null,
+          priority: priority !== null && priority >= 1 && priority <= 4 ? priority : null,
+          description: optionalString(readme.description),
+        },
+      });
+
+      const created: ScaffoldResult['workstreams'] = [];
+      for (const workstream of workstreams) {
+        const child = await tx.project.create({
+          data: { slug: workstream.slug, name: workstream.name, orgId: target.orgId, parentId: project.id },
+        });
+        created.push({ id: child.id, slug: child.slug, name: child.name });
+      }
+
+      const taskIds: number[] = [];
+      for (const task of tasks) {
+        const item = await tx.item.create({
+          data: {
+            title: renderTemplateText(task.title, values),
+            description: task.description ? renderTemplateText(task.description, values) : null,
+            itemType: 'task',
+            status: 'pending',
+            priority: task.priority !== null && task.priority >= 1 && task.priority <= 4 ? task.priority : null,
+            dueDate: task.dueInDays !== null ? addDays(task.dueInDays) : null,
+            ownerId: task.ownerId,
+            projectId: created.find(w => w.slug === task.workstream)?.id ?? project.id,
+          },
+        });
+        await tx.activity.create({
+          data: {
+            itemId: item.id,
+            action: 'created',
+            detail: `From project template ${template.id}`,
+            createdBy: actorLabel(options.actor),
+            requestId: options.requestId,
+          },
+        });
+        taskIds.push(item.id);
+      }
+
+      // Last, so a failure here rolls the records back too
+      fs.renameSync(stagingDir, targetDir);
+
+      return {
+        projectId: project.id,
+        path: projectPath,
+        workstreams: created,
+        taskIds,
+        files: template.sources.map(s => `${projectPath}/${s.path}`),
+        warnings,
+      };
+    });
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+}
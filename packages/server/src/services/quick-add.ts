@@ -0,0 +1,150 @@
+/**
+ * Quick-add resolution
+ *
+ * Turns the names in a QuickAddDraft (parsed by parseQuickAdd in
+ * @kw/api-types) into database ids: the project from #slug or #org/slug,
+ * people from @name / +waiting:@name, and tags from ~name.
+ *
+ * People match on exact name first (case-insensitive), then on a unique
+ * partial match, so "@bob" finds "Bob Smith" unless there are two Bobs.
+ * Problems are reported rather than thrown so the web dialog can pre-fill
+ * what did resolve; items.quickAdd refuses to create until there are none.
+ */
+
+import type { QuickAddDraft } from '@kw/api-types';
+import type { PrismaClient } from '../generated/prisma/index.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface QuickAddContext {
+  /** Person name that "@me" resolves to */
+  me?: string | null;
+}
+
+export interface QuickAddProblem {
+  kind: 'not_found' | 'ambiguous' | 'invalid';
+  message: string;
+}
+
+export interface ResolvedQuickAdd {
+  project: { id: number; name: string; slug: string; org: string | null } | null;
+  owner: { id: number; name: string } | null;
+  waitingOn: { id: number; name: string }[];
+  tags: { id: number; name: string }[];
+  problems: QuickAddProblem[];
+}
+
+// =============================================================================
+// RESOLVERS
+// =============================================================================
+
+async function resolveProject(
+  prisma: PrismaClient,
+  ref: NonNullable<QuickAddDraft['project']>,
+  problems: QuickAddProblem[]
+): Promise<ResolvedQuickAdd['project']> {
+  const label = ref.org ? `#${ref.org}/${ref.slug}` : `#${ref.slug}`;
+  const projects = await prisma.project.findMany({
+    where: {
+      slug: ref.slug,
+      ...(ref.org ? { OR: [{ organization: { slug: ref.org } }, { org: ref.org }] } : {}),
+    },
+    select: { id: true, name: true, slug: true, org: true, organization: { select: { slug: true } } },
+  });
+
+  if (projects.length === 0) {
+    problems.push({ kind: 'not_found', message: `Project not found: ${label}` });
+    return null;
+  }
+  if (projects.length > 1) {
+    const options = projects.map(p => `#${p.organization?.slug ?? p.org}/${p.slug}`);
+    problems.push({ kind: 'ambiguous', message: `Project ${label} is ambiguous: use ${options.join(' or ')}` });
+    return null;
+  }
+
+  const [project] = projects;
+  return {
+    id: project.id,
+    name: project.name,
+    slug: project.slug,
+    org: project.organization?.slug ?? project.org,
+  };
+}
+
+async function resolvePerson(
+  prisma: PrismaClient,
+  name: string,
+  context: QuickAddContext,
+  problems: QuickAddProblem[]
+): Promise<{ id: number; name: string } | null> {
+  let wanted = name;
+  if (name.toLowerCase() === 'me') {
+    if (!context.me) {
+      problems.push({ kind: 'invalid', message: '"@me" needs a default owner (pass "me" or set DEFAULT_OWNER)' });
+      return null;
+    }
+    wanted = context.me;
+  }
+
+  // SQLite LIKE is case-insensitive, so contains also finds exact matches
+  const candidates = await prisma.person.findMany({
+    where: { name: { contains: wanted } },
+    select: { id: true, name: true },
+  });
+  const exact = candidates.filter(p => p.name.toLowerCase() === wanted.toLowerCase());
+  const matches = exact.length > 0 ? exact : candidates;
+
+  if (matches.length === 0) {
+    problems.push({ kind: 'not_found', message: `Person not found: @${name}` });
+    return null;
+  }
+  if (matches.length > 1) {
+    problems.push({
+      kind: 'ambiguous',
+      message: `@${name} matches ${matches.map(p => p.name).join(', ')}`,
+    });
+    return null;
+  }
+  return matches[0];
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Look up the project, people and tags a draft refers to, and check the
+ * combination makes sense.
+ */
+export async function resolveQuickAddDraft(
+  prisma: PrismaClient,
+  draft: QuickAddDraft,
+  context: QuickAddContext = {}
+): Promise<ResolvedQuickAdd> {
+  const problems: QuickAddProblem[] = [];
+
+  const project = draft.project ? await resolveProject(prisma, draft.project, problems) : null;
+  const owner = draft.owner ? await resolvePerson(prisma, draft.owner, context, problems) : null;
+
+  const waitingOn: ResolvedQuickAdd['waitingOn'] = [];
+  for (const name of draft.waitingOn) {
+    const person = await resolvePerson(prisma, name, context, problems);
+    if (person && !waitingOn.some(p => p.id === person.id)) waitingOn.push(person);
+  }
+
+  const tags = draft.tags.length > 0
+    ? await prisma.tag.findMany({ where: { name: { in: draft.tags } }, select: { id: true, name: true } })
+    : [];
+  const missingTags = draft.tags.filter(name => !tags.some(t => t.name === name));
+  if (missingTags.length > 0) {
+    problems.push({ kind: 'not_found', message: `Tags not found: ${missingTags.join(', ')}` });
+  }
+
+  if (draft.recurrence && draft.dueDate) {
+    problems.push({ kind: 'invalid', message: 'A recurring task (routine) cannot have a due date' });
+  }
+
+  return { project, owner, waitingOn, tags, problems };
+}
@@ -1,6 +1,7 @@
 import { readdir, readFile } from 'fs/promises';
 import { join, relative } from 'path';
 import matter from 'gray-matter';
+import { formatTaskId, parseTaskId } from '@kw/api-types';
 
 // Status emoji mappings
 const STATUS_EMOJI_MAP: Record<string, string> = {
@@ -18,6 +19,25 @@ const STATUS_LINE_PATTERN = /^[-*]\s*(✅|🟢|🟡|🔴|🔵|⏳|❌)\s*\*{0,2}
 const CHECKBOX_PATTERN = /^[-*]\s*\[([ xX])\]\s*(.+)$/;
 const SUB_PROJECT_TABLE_PATTERN = /^\|\s*(✅|🟢|🟡|🔴|🔵|⏳|❌)\s*\|\s*\[\[([^\]|]+)(?:\|([^\]]+))?\]\]\s*\|\s*(.+)\s*\|$/;
 
+// Anchor linking a README line to its item, e.g. "- [ ] Write spec <!-- kw:T-42 -->"
+const ANCHOR_PATTERN = /\s*<!--\s*kw:(T-\d+)\s*-->\s*$/i;
+
+/**
+ * The anchor comment appended to a README line once it is synced to an item
+ */
+export function formatReadmeAnchor(itemId: number): string {
+  return `<!-- kw:${formatTaskId(itemId)} -->`;
+}
+
+/**
+ * Split a line into its text and the item id of its anchor, if any
+ */
+export function splitReadmeAnchor(line: string): { text: string; itemId: number | null } {
+  const match = line.match(ANCHOR_PATTERN);
+  if (!match) return { text: line, itemId: null };
+  return { text: line.slice(0, match.index), itemId: parseTaskId(match[1]) };
+}
+
 export interface ExtractedTask {
   id: string;               // Generated ID for tracking
   title: string;
@@ -25,7 +45,8 @@ export interface ExtractedTask {
   status: string;
   source_type: 'status_emoji' | 'checkbox' | 'sub_project' | 'next_steps';
   source_path: string;      // Relative path to README
-  source_line: number;
+  source_line: number;      // 1-indexed line in the file, frontmatter included
+  anchor?: number;          // Item id from a "<!-- kw:T-42 -->" anchor
   project_slug?: string;    // Extracted from path
   org?: string;             // Extracted from path
   section?: string;         // Which section it was found in
@@ -65,7 +86,7 @@ export async function findProjectReadmes(basePath: string): Promise<string[]> {
 
         if (entry.isDirectory()) {
           // Skip certain directories
-          if (['node_modules', '.git', 'context', 'meetings', '.claude', 'knowledge-work-web'].includes(entry.name)) {
+          if (['node_modules', '.git', '.data', 'context', 'meetings', '.claude', 'knowledge-work-web'].includes(entry.name)) {
             continue;
           }
           await scanDir(fullPath);
@@ -91,6 +112,19 @@ export async function findProjectReadmes(basePath: string): Promise<string[]> {
  */
 export async function parseReadme(filePath: string, basePath: string): Promise<ParsedReadme> {
   const relativePath = relative(basePath, filePath);
+  try {
+    return parseReadmeContent(await readFile(filePath, 'utf-8'), relativePath);
+  } catch (err) {
+    return {
+      ...readmeLocation(relativePath),
+      path: relativePath,
+      tasks: [],
+      errors: [`Failed to parse ${relativePath}: ${err}`],
+    };
+  }
+}
+
+function readmeLocation(relativePath: string): { org: string; project_slug: string } {
   const pathParts = relativePath.split('/');
 
   // Extract org and project from path like "acme-corp/projects/inventory-system/README.md"
@@ -99,6 +133,14 @@ export async function parseReadme(filePath: string, basePath: string): Promise<P
   const project_slug = projectIndex >= 0 && pathParts[projectIndex + 1]
     ? pathParts[projectIndex + 1]
     : 'unknown';
+  return { org, project_slug };
+}
+
+/**
+ * Parse README content for tasks
+ */
+export function parseReadmeContent(content: string, relativePath: string): ParsedReadme {
+  const { org, project_slug } = readmeLocation(relativePath);
 
   const result: ParsedReadme = {
     path: relativePath,
@@ -109,18 +151,24 @@ export async function parseReadme(filePath: string, basePath: string): Promise<P
   };
 
   try {
-    const content = await readFile(filePath, 'utf-8');
-    const { data: frontmatter, content: markdown } = matter(content);
+    const { data: frontmatter } = matter(content);
 
     result.title = frontmatter.title || project_slug;
 
-    const lines = markdown.split('\n');
+    const lines = content.split('\n');
     let currentSection = '';
     let currentPhase = '';
     let taskCounter = 0;
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+    // Skip the frontmatter block but keep line numbers relative to the file
+    let start = 0;
+    if (lines[0]?.trim() === '---') {
+      const end = lines.findIndex((l, i) => i > 0 && l.trim() === '---');
+      if (end > 0) start = end + 1;
+    }
+
+    for (let i = start; i < lines.length; i++) {
+      const { text: line, itemId: anchor } = splitReadmeAnchor(lines[i]);
       const lineNum = i + 1; // 1-indexed for display
 
       // Track current section
@@ -150,6 +198,7 @@ export async function parseReadme(filePath: string, basePath: string): Promise<P
           source_type: 'status_emoji',
           source_path: relativePath,
           source_line: lineNum,
+          anchor: anchor ?? undefined,
           project_slug,
           org,
           section: currentSection || undefined,
@@ -172,6 +221,7 @@ export async function parseReadme(filePath: string, basePath: string): Promise<P
           source_type: 'checkbox',
           source_path: relativePath,
           source_line: lineNum,
+          anchor: anchor ?? undefined,
           project_slug,
           org,
           section: currentSection || undefined,
@@ -198,6 +248,7 @@ export async function parseReadme(filePath: string, basePath: string): Promise<P
           source_type: 'sub_project',
           source_path: relativePath,
           source_line: lineNum,
+          anchor: anchor ?? undefined,
           project_slug,
           org,
           section: currentSection || undefined,
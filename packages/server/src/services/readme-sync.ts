@@ -0,0 +1,486 @@
+/**
+ * README task sync
+ *
+ * Two-way reconciliation between the checkbox and status emoji lines in
+ * project READMEs (see readme-parser.ts) and items in the database. Once a
+ * line is synced it carries an anchor comment with its item id:
+ *
+ *   - [ ] Draft the migration plan <!-- kw:T-42 -->
+ *   - 🟢 **API review** — waiting on security <!-- kw:T-43 -->
+ *
+ * so lines can be moved or reworded without losing their item.
+ *
+ * Each synced item keeps a hash of the title and status both sides agreed on
+ * at the last sync (Item.fileHash). Comparing each side with it shows which
+ * one changed: a README edit updates the item, an item edit rewrites the line,
+ * and a line or item that disappeared is deleted on the other side. If both
+ * changed, or one was edited while the other was deleted, the pair is
+ * reported as a conflict and left untouched until a resolution is passed in.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { join, relative } from 'path';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import {
+  findProjectReadmes,
+  formatReadmeAnchor,
+  parseReadmeContent,
+  splitReadmeAnchor,
+  type ExtractedTask,
+} from './readme-parser.js';
+import { EMOJI_TO_STATUS, STATUS_TO_EMOJI } from './status-constants.js';
+import { computeContentHash } from './hash-utils.js';
+import { takeSnapshot, recordAudit, type Actor, type AuditEntry } from './audit.js';
+
+/** Item source types that are kept in sync with README lines */
+export const README_SOURCE_TYPES = ['checkbox', 'status_emoji'] as const;
+
+/** Audit log actor for item changes made by README sync */
+export const README_SYNC_ACTOR: Actor = { type: 'sync', name: 'readme-sync' };
+
+const DONE_STATUSES = ['complete', 'cancelled'];
+const EMOJI_LINE_PATTERN = /^([-*]\s*)(✅|🟢|🟡|🔴|🔵|⏳|❌)\s*(.*)$/;
+const CHECKBOX_LINE_PATTERN = /^([-*]\s*)\[([ xX])\]\s*(.+)$/;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type ReadmeSourceType = (typeof README_SOURCE_TYPES)[number];
+
+interface TaskState {
+  title: string;
+  status: string;
+}
+
+export type ReadmeChangeKind =
+  | 'create_item'
+  | 'update_item'
+  | 'restore_item'
+  | 'delete_item'
+  | 'create_line'
+  | 'update_line'
+  | 'delete_line';
+
+export interface ReadmeChange {
+  kind: ReadmeChangeKind;
+  path: string;
+  itemId: number | null;
+  title: string;
+}
+
+export type ReadmeConflictKind = 'both_changed' | 'deleted_in_readme' | 'deleted_in_db';
+
+export interface ReadmeConflict {
+  /** Pass back with a resolution, e.g. "acme/projects/site/README.md#42" */
+  key: string;
+  kind: ReadmeConflictKind;
+  path: string;
+  itemId: number;
+  /** The line's title and status, or null if the line was deleted */
+  readme: TaskState | null;
+  /** The item's title and status, or null if the item was deleted */
+  db: TaskState | null;
+}
+
+export interface ReadmeResolution {
+  key: string;
+  keep: 'readme' | 'db';
+}
+
+export interface ReadmeSyncResult {
+  filesScanned: number;
+  filesWritten: string[];
+  changes: ReadmeChange[];
+  /** Conflicts that had no resolution and were left alone */
+  conflicts: ReadmeConflict[];
+  /** Items created, updated or deleted, for re-indexing */
+  itemIds: number[];
+  errors: string[];
+}
+
+type SyncedItem = {
+  id: number;
+  title: string;
+  status: string;
+  sourceType: string | null;
+  fileHash: string | null;
+  deletedAt: Date | null;
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function isReadmeSourceType(sourceType: string | null): sourceType is ReadmeSourceType {
+  return README_SOURCE_TYPES.includes(sourceType as ReadmeSourceType);
+}
+
+export function readmeConflictKey(path: string, itemId: number): string {
+  return `${path}#${itemId}`;
+}
+
+/**
+ * What a line shows for a status: the checkbox mark or the emoji
+ */
+function lineMarker(type: ReadmeSourceType, status: string): string {
+  if (type === 'checkbox') return DONE_STATUSES.includes(status) ? 'x' : ' ';
+  return STATUS_TO_EMOJI[status] ?? '🟡';
+}
+
+/**
+ * Hash of what the line shows, so statuses the line can't tell apart
+ * (e.g. pending and in_progress on a checkbox) compare equal
+ */
+function syncKey(type: ReadmeSourceType, state: TaskState): string {
+  return computeContentHash(`${type}\n${state.title}\n${lineMarker(type, state.status)}`);
+}
+
+/**
+ * Title and item status shown by a README line
+ */
+function lineState(type: ReadmeSourceType, task: ExtractedTask, line: string): TaskState {
+  if (type === 'checkbox') {
+    return { title: task.title, status: task.status === 'completed' ? 'complete' : 'pending' };
+  }
+  const emoji = splitReadmeAnchor(line).text.match(EMOJI_LINE_PATTERN)?.[2];
+  return { title: task.title, status: (emoji && EMOJI_TO_STATUS[emoji]) || 'pending' };
+}
+
+/**
+ * The item fields to change so it matches a line. Statuses the line can't
+ * distinguish are left as they are.
+ */
+function itemUpdateFromLine(type: ReadmeSourceType, item: SyncedItem, state: TaskState) {
+  const data: { title: string; status?: string; completedAt?: Date | null } = { title: state.title };
+  if (lineMarker(type, item.status) !== lineMarker(type, state.status)) {
+    data.status = state.status;
+    data.completedAt = state.status === 'complete' ? new Date() : null;
+  }
+  return data;
+}
+
+/**
+ * Rewrite a README line to show an item's title and status, keeping its
+ * list marker, bold styling and description
+ */
+function renderLine(type: ReadmeSourceType, line: string, item: TaskState & { id: number }): string {
+  const text = splitReadmeAnchor(line).text;
+  const anchor = formatReadmeAnchor(item.id);
+
+  if (type === 'checkbox') {
+    const prefix = text.match(CHECKBOX_LINE_PATTERN)?.[1] ?? '- ';
+    return `${prefix}[${lineMarker(type, item.status)}] ${item.title} ${anchor}`;
+  }
+
+  const match = text.match(EMOJI_LINE_PATTERN);
+  const prefix = match?.[1] ?? '- ';
+  const currentEmoji = match?.[2];
+  const rest = match?.[3] ?? '';
+  // Keep an emoji that already means this status (⏳ and 🟡 are both pending)
+  const emoji = currentEmoji && EMOJI_TO_STATUS[currentEmoji] === item.status
+    ? currentEmoji
+    : lineMarker(type, item.status);
+  const bold = rest.startsWith('**');
+  const description = rest.includes('—') ? rest.slice(rest.indexOf('—') + 1).trim() : '';
+  const title = bold ? `**${item.title}**` : item.title;
+  return `${prefix}${emoji} ${title}${description ? ` — ${description}` : ''} ${anchor}`;
+}
+
+/**
+ * Project for a README: the last folder under projects/ in its org's folder
+ */
+async function findReadmeProject(prisma: PrismaClient, path: string): Promise<number | null> {
+  const parts = path.split('/');
+  const projectsIndex = parts.indexOf('projects');
+  const slug = parts[parts.length - 2];
+  if (projectsIndex < 1 || !slug || slug === 'projects') return null;
+
+  const project = await prisma.project.findFirst({
+    where: { slug, organization: { folderPath: parts.slice(0, projectsIndex).join('/') } },
+    select: { id: true },
+  });
+  return project?.id ?? null;
+}
+
+// =============================================================================
+// RECONCILIATION
+// =============================================================================
+
+interface FileContext {
+  prisma: PrismaClient;
+  path: string;
+  apply: boolean;
+  resolutions: Map<string, 'readme' | 'db'>;
+  result: ReadmeSyncResult;
+  audit: AuditEntry[];
+}
+
+async function reconcileFile(ctx: FileContext, absolutePath: string): Promise<void> {
+  const { prisma, path, apply, result } = ctx;
+  const raw = await readFile(absolutePath, 'utf-8');
+  const lines = raw.split('\n');
+  const tasks = parseReadmeContent(raw, path).tasks.filter(t => isReadmeSourceType(t.source_type));
+
+  const items: SyncedItem[] = await prisma.item.findMany({
+    where: { sourcePath: path, sourceType: { in: [...README_SOURCE_TYPES] } },
+    select: { id: true, title: true, status: true, sourceType: true, fileHash: true, deletedAt: true },
+  });
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  // Line index -> replacement (null deletes it); line index -> lines to insert before it
+  const edits = new Map<number, string | null>();
+  const inserts = new Map<number, string[]>();
+  const seen = new Set<number>();
+  let projectId: number | null | undefined;
+
+  const change = (kind: ReadmeChangeKind, itemId: number | null, title: string) => {
+    result.changes.push({ kind, path, itemId, title });
+    if (itemId !== null && !result.itemIds.includes(itemId)) result.itemIds.push(itemId);
+  };
+
+  const updateItem = async (itemId: number, data: Record<string, unknown>) => {
+    const before = await takeSnapshot(prisma, 'items', itemId);
+    await prisma.item.update({ where: { id: itemId }, data: { ...data, lastSyncedAt: new Date() } });
+    ctx.audit.push({ entity: 'items', entityId: itemId, before, after: await takeSnapshot(prisma, 'items', itemId) });
+  };
+
+  for (const task of tasks) {
+    const type = task.source_type as ReadmeSourceType;
+    const index = task.source_line - 1;
+    const state = lineState(type, task, lines[index]);
+    const item = task.anchor ? itemsById.get(task.anchor) : undefined;
+
+    // New line (or an anchor copied from elsewhere): create its item
+    if (!item || seen.has(item.id)) {
+      // Finished work written straight into the README isn't imported
+      if (DONE_STATUSES.includes(state.status)) continue;
+      if (!apply) {
+        change('create_item', null, state.title);
+        continue;
+      }
+      if (projectId === undefined) projectId = await findReadmeProject(prisma, path);
+      const created = await prisma.item.create({
+        data: {
+          title: state.title,
+          description: task.description ?? null,
+          status: state.status,
+          itemType: 'task',
+          projectId,
+          sourceType: type,
+          sourcePath: path,
+          sourceLine: task.source_line,
+          fileHash: syncKey(type, state),
+          lastSyncedAt: new Date(),
+        },
+      });
+      ctx.audit.push({ entity: 'items', entityId: created.id, before: null, after: await takeSnapshot(prisma, 'items', created.id) });
+      edits.set(index, `${splitReadmeAnchor(lines[index]).text} ${formatReadmeAnchor(created.id)}`);
+      change('create_item', created.id, state.title);
+      continue;
+    }
+
+    seen.add(item.id);
+    const key = readmeConflictKey(path, item.id);
+    const lineKey = syncKey(type, state);
+    const itemKey = syncKey(type, item);
+    const lineChanged = lineKey !== item.fileHash;
+
+    // Item deleted in the database
+    if (item.deletedAt) {
+      const keep = lineChanged ? ctx.resolutions.get(key) : 'db';
+      if (!keep) {
+        result.conflicts.push({ key, kind: 'deleted_in_db', path, itemId: item.id, readme: state, db: null });
+      } else if (keep === 'db') {
+        if (apply) edits.set(index, null);
+        change('delete_line', item.id, item.title);
+      } else {
+        if (apply) {
+          await updateItem(item.id, { ...itemUpdateFromLine(type, item, state), deletedAt: null, fileHash: lineKey });
+        }
+        change('restore_item', item.id, state.title);
+      }
+      continue;
+    }
+
+    if (lineKey === itemKey) {
+      if (apply && item.fileHash !== lineKey) {
+        await prisma.item.update({ where: { id: item.id }, data: { fileHash: lineKey, lastSyncedAt: new Date() } });
+      }
+      continue;
+    }
+
+    const itemChanged = itemKey !== item.fileHash;
+    const keep = lineChanged && !itemChanged ? 'readme'
+      : itemChanged && !lineChanged ? 'db'
+        : ctx.resolutions.get(key);
+
+    if (!keep) {
+      result.conflicts.push({
+        key,
+        kind: 'both_changed',
+        path,
+        itemId: item.id,
+        readme: state,
+        db: { title: item.title, status: item.status },
+      });
+    } else if (keep === 'readme') {
+      if (apply) await updateItem(item.id, { ...itemUpdateFromLine(type, item, state), fileHash: lineKey });
+      change('update_item', item.id, state.title);
+    } else {
+      if (apply) {
+        edits.set(index, renderLine(type, lines[index], item));
+        await prisma.item.update({ where: { id: item.id }, data: { fileHash: itemKey, lastSyncedAt: new Date() } });
+      }
+      change('update_line', item.id, item.title);
+    }
+  }
+
+  // Synced items whose line is gone from the README. A line put back goes at
+  // the end of the file, before its trailing newline.
+  const endIndex = lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+  for (const item of items) {
+    if (seen.has(item.id) || item.deletedAt || !item.fileHash || !isReadmeSourceType(item.sourceType)) continue;
+
+    const key = readmeConflictKey(path, item.id);
+    const itemChanged = syncKey(item.sourceType, item) !== item.fileHash;
+    const keep = itemChanged ? ctx.resolutions.get(key) : 'readme';
+
+    if (!keep) {
+      result.conflicts.push({
+        key,
+        kind: 'deleted_in_readme',
+        path,
+        itemId: item.id,
+        readme: null,
+        db: { title: item.title, status: item.status },
+      });
+    } else if (keep === 'readme') {
+      if (apply) await updateItem(item.id, { deletedAt: new Date() });
+      change('delete_item', item.id, item.title);
+    } else {
+      if (apply) {
+        const line = renderLine(item.sourceType, item.sourceType === 'checkbox' ? '- [ ] ' : '- 🟡 ', item);
+        inserts.set(endIndex, [...(inserts.get(endIndex) ?? []), line]);
+        await prisma.item.update({
+          where: { id: item.id },
+          data: { fileHash: syncKey(item.sourceType, item), lastSyncedAt: new Date() },
+        });
+      }
+      change('create_line', item.id, item.title);
+    }
+  }
+
+  if (!apply || (edits.size === 0 && inserts.size === 0)) return;
+
+  const output: string[] = [];
+  for (let i = 0; i <= lines.length; i++) {
+    output.push(...(inserts.get(i) ?? []));
+    if (i === lines.length) break;
+    const edit = edits.get(i);
+    if (edit !== null) output.push(edit ?? lines[i]);
+  }
+  const updated = output.join('\n');
+  await writeFile(absolutePath, updated, 'utf-8');
+  result.filesWritten.push(path);
+
+  // Line numbers shift when lines are added or removed
+  for (const task of parseReadmeContent(updated, path).tasks) {
+    if (task.anchor && itemsById.has(task.anchor)) {
+      await prisma.item.update({ where: { id: task.anchor }, data: { sourceLine: task.source_line } });
+    }
+  }
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Reconcile every project README with the database. With `apply: false`
+ * nothing is written and the result is a preview of the changes and
+ * conflicts. `paths` (relative to basePath) limits the run to those READMEs.
+ */
+export async function syncReadmes(
+  prisma: PrismaClient,
+  basePath: string,
+  options: { apply: boolean; resolutions?: ReadmeResolution[]; paths?: string[] }
+): Promise<ReadmeSyncResult> {
+  const result: ReadmeSyncResult = {
+    filesScanned: 0,
+    filesWritten: [],
+    changes: [],
+    conflicts: [],
+    itemIds: [],
+    errors: [],
+  };
+  const resolutions = new Map((options.resolutions ?? []).map(r => [r.key, r.keep]));
+  const audit: AuditEntry[] = [];
+
+  const only = options.paths ? new Set(options.paths) : null;
+
+  for (const absolutePath of await findProjectReadmes(basePath)) {
+    const path = relative(basePath, absolutePath);
+    if (only && !only.has(path)) continue;
+    result.filesScanned++;
+    try {
+      await reconcileFile({ prisma, path, apply: options.apply, resolutions, result, audit }, absolutePath);
+    } catch (error) {
+      result.errors.push(`Failed to sync ${path}: ${(error as Error).message}`);
+    }
+  }
+
+  if (audit.length > 0) {
+    await recordAudit(prisma, { procedure: 'sync.readmes', actor: README_SYNC_ACTOR, entries: audit });
+  }
+
+  return result;
+}
+
+/**
+ * Rewrite an item's anchored README line after the item was edited.
+ * Returns null if the item has no anchored line; if the line was also
+ * edited since the last sync it is left alone for syncReadmes to report.
+ */
+export async function writeItemToReadme(
+  prisma: PrismaClient,
+  itemId: number,
+  basePath: string
+): Promise<{ updated: boolean; message: string; changes: string[] } | null> {
+  const item = await prisma.item.findUnique({
+    where: { id: itemId },
+    select: { id: true, title: true, status: true, sourceType: true, sourcePath: true, fileHash: true },
+  });
+  if (!item?.sourcePath || !isReadmeSourceType(item.sourceType)) return null;
+
+  const absolutePath = join(basePath, item.sourcePath);
+  let raw: string;
+  try {
+    raw = await readFile(absolutePath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const task = parseReadmeContent(raw, item.sourcePath).tasks.find(t => t.anchor === item.id);
+  if (!task) return null;
+
+  const type = item.sourceType;
+  const lines = raw.split('\n');
+  const index = task.source_line - 1;
+  const lineKey = syncKey(type, lineState(type, task, lines[index]));
+  const itemKey = syncKey(type, item);
+
+  if (lineKey === itemKey) {
+    return { updated: false, message: 'README line already matches', changes: [] };
+  }
+  if (item.fileHash && lineKey !== item.fileHash) {
+    return { updated: false, message: 'README line was also edited; resolve it with README sync', changes: [] };
+  }
+
+  const line = renderLine(type, lines[index], item);
+  lines[index] = line;
+  await writeFile(absolutePath, lines.join('\n'), 'utf-8');
+  await prisma.item.update({ where: { id: item.id }, data: { fileHash: itemKey, lastSyncedAt: new Date() } });
+
+  return { updated: true, message: 'Updated README line', changes: [`Line ${task.source_line}: ${line}`] };
+}
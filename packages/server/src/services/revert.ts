@@ -0,0 +1,228 @@
+/**
+ * Revert
+ *
+ * Reverses item changes recorded in the audit log. Only the fields a change
+ * touched are put back, so later edits to other fields survive; if one of
+ * those fields has been changed again since, the revert reports a conflict
+ * instead of overwriting it (unless forced).
+ *
+ * Creates are reverted by soft-deleting the item; deletes (soft) by clearing
+ * deletedAt like any other field. People, tags, outgoing links, check-ins
+ * and routine completions/skips are restored from the snapshot lists.
+ */
+
+import type { PrismaClient, AuditLog, Prisma } from '../generated/prisma/index.js';
+import {
+  takeSnapshot,
+  diffSnapshots,
+  recordAudit,
+  newRequestId,
+  actorLabel,
+  type Actor,
+  type AuditEntity,
+  type Snapshot,
+} from './audit.js';
+
+/** Entities that can be reverted */
+export const REVERTIBLE_ENTITIES: AuditEntity[] = ['items', 'routines'];
+
+/** Procedures whose own changes are not undone again by items.undo */
+export const REVERT_PROCEDURES = ['items.undo', 'activities.revert'];
+
+/** Item columns stored as DateTime (snapshots hold ISO strings) */
+const DATE_FIELDS = new Set(['dueDate', 'attentionDate', 'lastSyncedAt', 'completedAt', 'deletedAt', 'createdAt']);
+
+/** Snapshot fields that are never written back */
+const READ_ONLY_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+export interface RevertConflict {
+  auditId: number;
+  entityId: number;
+  fields: string[];
+}
+
+function parseSnapshot(json: string | null): Snapshot | null {
+  return json ? (JSON.parse(json) as Snapshot) : null;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fields of each entry that have changed again since the entry was recorded
+ */
+export async function findRevertConflicts(prisma: PrismaClient, entries: AuditLog[]): Promise<RevertConflict[]> {
+  const conflicts: RevertConflict[] = [];
+
+  for (const entry of entries) {
+    const after = parseSnapshot(entry.after);
+    const current = await takeSnapshot(prisma, entry.entity as AuditEntity, entry.entityId);
+
+    if (!current) {
+      conflicts.push({ auditId: entry.id, entityId: entry.entityId, fields: ['(record no longer exists)'] });
+      continue;
+    }
+
+    const fields = entry.action === 'create'
+      ? diffSnapshots(after, current).map(c => c.field)
+      : diffSnapshots(parseSnapshot(entry.before), after)
+        .map(c => c.field)
+        .filter(field => !same(current[field], after?.[field]));
+
+    if (fields.length > 0) {
+      conflicts.push({ auditId: entry.id, entityId: entry.entityId, fields });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Put one item's changed fields back to their snapshot values
+ */
+async function restoreItem(
+  tx: Prisma.TransactionClient,
+  itemId: number,
+  changes: { field: string; before: unknown }[]
+): Promise<void> {
+  const data: Record<string, unknown> = {};
+
+  for (const { field, before } of changes) {
+    switch (field) {
+      case 'people': {
+        const people = (before as { personId: number; role: string }[] | null) ?? [];
+        await tx.itemPerson.deleteMany({ where: { itemId } });
+        const existing = await tx.person.findMany({
+          where: { id: { in: people.map(p => p.personId) } },
+          select: { id: true },
+        });
+        const ids = new Set(existing.map(p => p.id));
+        await tx.itemPerson.createMany({
+          data: people.filter(p => ids.has(p.personId)).map(p => ({ itemId, personId: p.personId, role: p.role })),
+        });
+        break;
+      }
+      case 'tagIds': {
+        const tagIds = (before as number[] | null) ?? [];
+        await tx.itemTag.deleteMany({ where: { itemId } });
+        const existing = await tx.tag.findMany({ where: { id: { in: tagIds } }, select: { id: true } });
+        await tx.itemTag.createMany({ data: existing.map(t => ({ itemId, tagId: t.id })) });
+        break;
+      }
+      case 'links': {
+        const links = (before as { toId: number; linkType: string }[] | null) ?? [];
+        await tx.itemLink.deleteMany({ where: { fromId: itemId } });
+        const existing = await tx.item.findMany({
+          where: { id: { in: links.map(l => l.toId) } },
+          select: { id: true },
+        });
+        const ids = new Set(existing.map(i => i.id));
+        await tx.itemLink.createMany({
+          data: links.filter(l => ids.has(l.toId)).map(l => ({ fromId: itemId, toId: l.toId, linkType: l.linkType })),
+        });
+        break;
+      }
+      case 'checkIns': {
+        const checkIns = (before as { id: number; date: string; note: string | null; completed: boolean }[] | null) ?? [];
+        await tx.checkIn.deleteMany({ where: { itemId, id: { notIn: checkIns.map(c => c.id) } } });
+        for (const c of checkIns) {
+          const values = { date: new Date(c.date), note: c.note, completed: c.completed };
+          await tx.checkIn.upsert({
+            where: { id: c.id },
+            create: { id: c.id, itemId, ...values },
+            update: values,
+          });
+        }
+        break;
+      }
+      case 'completions':
+      case 'skips': {
+        // Only the most recent dates are in snapshots, so reverse the difference
+        // rather than replacing the whole history
+        const change = changes.find(c => c.field === field) as { before: unknown; after?: unknown };
+        const beforeDates = new Set((before as string[] | null) ?? []);
+        const afterDates = new Set(((change.after as string[] | null) ?? []));
+        const added = [...afterDates].filter(d => !beforeDates.has(d)).map(d => new Date(d));
+        const removed = [...beforeDates].filter(d => !afterDates.has(d)).map(d => new Date(d));
+
+        if (field === 'completions') {
+          await tx.routineCompletion.deleteMany({ where: { routineId: itemId, completedDate: { in: added } } });
+          await tx.routineCompletion.createMany({
+            data: removed.map(completedDate => ({ routineId: itemId, completedDate })),
+          });
+        } else {
+          await tx.routineSkip.deleteMany({ where: { routineId: itemId, skipDate: { in: added } } });
+          await tx.routineSkip.createMany({ data: removed.map(skipDate => ({ routineId: itemId, skipDate })) });
+        }
+        break;
+      }
+      default:
+        if (!READ_ONLY_FIELDS.has(field)) {
+          data[field] = DATE_FIELDS.has(field) && typeof before === 'string' ? new Date(before) : before;
+        }
+    }
+  }
+
+  if (Object.keys(data).length > 0) {
+    await tx.item.update({ where: { id: itemId }, data: data as Prisma.ItemUncheckedUpdateInput });
+  }
+}
+
+/**
+ * Reverse a set of audit entries (newest first), record the revert in the
+ * audit and activity logs, and mark the entries as reverted.
+ * Returns the revert's request id and the ids of the items it touched.
+ * Callers check findRevertConflicts first.
+ */
+export async function revertAuditEntries(
+  prisma: PrismaClient,
+  entries: AuditLog[],
+  options: { requestId?: string; procedure: string; actor: Actor }
+): Promise<{ requestId: string; itemIds: number[] }> {
+  const requestId = options.requestId ?? newRequestId();
+  const ordered = [...entries].sort((a, b) => b.id - a.id);
+  const itemIds = [...new Set(ordered.map(e => e.entityId))];
+
+  const before = new Map<number, Snapshot | null>();
+  for (const id of itemIds) {
+    before.set(id, await takeSnapshot(prisma, ordered.find(e => e.entityId === id)!.entity as AuditEntity, id));
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const entry of ordered) {
+      if (entry.action === 'create') {
+        await tx.item.update({ where: { id: entry.entityId }, data: { deletedAt: new Date() } });
+        continue;
+      }
+
+      const changes = diffSnapshots(parseSnapshot(entry.before), parseSnapshot(entry.after));
+      await restoreItem(tx, entry.entityId, changes);
+    }
+
+    await tx.auditLog.updateMany({
+      where: { id: { in: ordered.map(e => e.id) } },
+      data: { revertedBy: requestId },
+    });
+
+    const procedures = [...new Set(ordered.map(e => e.procedure))].join(', ');
+    await tx.activity.createMany({
+      data: itemIds.map(itemId => ({
+        itemId,
+        action: 'reverted',
+        detail: `Reverted ${procedures}`,
+        createdBy: actorLabel(options.actor),
+        requestId,
+      })),
+    });
+  });
+
+  const auditEntries = [];
+  for (const id of itemIds) {
+    const entity = ordered.find(e => e.entityId === id)!.entity as AuditEntity;
+    auditEntries.push({ entity, entityId: id, before: before.get(id) ?? null, after: await takeSnapshot(prisma, entity, id) });
+  }
+  await recordAudit(prisma, { requestId, procedure: options.procedure, actor: options.actor, entries: auditEntries });
+
+  return { requestId, itemIds };
+}
@@ -4,6 +4,7 @@
  * Migrated from routine-generator.ts to use Prisma client with unified Item model.
  */
 
+import { isRRuleText, parseRRule, type ParsedRRule } from '@kw/api-types';
 import { getPrisma } from '../prisma.js';
 import type { Item, Project, Person, RoutineCompletion, RoutineSkip } from '../generated/prisma/index.js';
 
@@ -36,6 +37,15 @@ export interface RoutineWithStatus extends RoutineTemplate {
   completionCount: number;
 }
 
+// Fields needed to evaluate a routine's schedule
+export interface RecurrenceFields {
+  recurrenceRule: string | null;
+  recurrenceDays: string | null;
+  recurrenceMonths: string | null;
+  /** Start for RRULE rules without DTSTART (defaults to today) */
+  createdAt?: Date | null;
+}
+
 // For API response compatibility
 export interface RoutineApiFormat {
   id: number;
@@ -57,6 +67,7 @@ export interface RoutineApiFormat {
   completed_today?: boolean;
   last_completed: string | null;
   completion_count: number;
+  next_due?: string;
 }
 
 // -----------------------------------------------------------------------------
@@ -109,9 +120,14 @@ function toApiFormat(
 // -----------------------------------------------------------------------------
 
 export function isDueOnDate(
-  routine: { recurrenceRule: string | null; recurrenceDays: string | null; recurrenceMonths: string | null },
+  routine: RecurrenceFields,
   date: Date
 ): boolean {
+  if (isRRuleText(routine.recurrenceRule)) {
+    const { rule } = parseRRule(routine.recurrenceRule!);
+    return rule ? rruleOccursOn(rule, date, routine.createdAt ?? new Date()) : false;
+  }
+
   const days = routine.recurrenceDays ? JSON.parse(routine.recurrenceDays) : null;
   const months = routine.recurrenceMonths ? JSON.parse(routine.recurrenceMonths) : null;
 
@@ -163,6 +179,149 @@ export function isDueOnDate(
   }
 }
 
+// -----------------------------------------------------------------------------
+// RRULE evaluation (rules are parsed by @kw/api-types; dates are local days)
+// -----------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayNumber(date: Date): number {
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+function fromDateStr(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * Days of a month matching BYMONTHDAY/BYDAY, or the start's day of month
+ */
+function monthCandidates(rule: ParsedRRule, year: number, month: number, start: Date): number[] {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) {
+    const day = start.getDate();
+    return day <= daysInMonth ? [dayNumber(new Date(year, month, day))] : [];
+  }
+
+  const result: number[] = [];
+  for (let d = 1; d <= daysInMonth; d++) {
+    if (rule.byMonthDay.length > 0
+      && !rule.byMonthDay.includes(d)
+      && !rule.byMonthDay.includes(d - daysInMonth - 1)) {
+      continue;
+    }
+
+    const date = new Date(year, month, d);
+    if (rule.byDay.length > 0) {
+      const fromStart = Math.ceil(d / 7);
+      const fromEnd = Math.ceil((daysInMonth - d + 1) / 7);
+      const matches = rule.byDay.some((bd) =>
+        bd.weekday === date.getDay()
+        && (bd.n === null || (bd.n > 0 ? bd.n === fromStart : -bd.n === fromEnd))
+      );
+      if (!matches) continue;
+    }
+
+    result.push(dayNumber(date));
+  }
+  return result;
+}
+
+/**
+ * Candidate days in the period (day/week/month/year) containing `date`,
+ * after the INTERVAL check and BYSETPOS selection
+ */
+function periodOccurrences(rule: ParsedRRule, date: Date, start: Date): number[] {
+  const inMonths = (d: Date) => rule.byMonth.length === 0 || rule.byMonth.includes(d.getMonth() + 1);
+  let period: number;
+  let candidates: number[];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      period = dayNumber(date) - dayNumber(start);
+      const matches = inMonths(date)
+        && (rule.byDay.length === 0 || rule.byDay.some((bd) => bd.weekday === date.getDay()))
+        && (rule.byMonthDay.length === 0 || monthCandidates(
+          { ...rule, byDay: [] }, date.getFullYear(), date.getMonth(), start
+        ).includes(dayNumber(date)));
+      candidates = matches ? [dayNumber(date)] : [];
+      break;
+    }
+
+    case 'WEEKLY': {
+      const weekStart = (d: Date) => dayNumber(d) - ((d.getDay() - rule.weekStart + 7) % 7);
+      period = (weekStart(date) - weekStart(start)) / 7;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((bd) => bd.weekday) : [start.getDay()];
+      candidates = [];
+      for (let i = 0; i < 7; i++) {
+        const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() - rule.weekStart + 7) % 7) + i);
+        if (weekdays.includes(day.getDay()) && inMonths(day)) {
+          candidates.push(dayNumber(day));
+        }
+      }
+      break;
+    }
+
+    case 'MONTHLY':
+      period = (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+      candidates = inMonths(date) ? monthCandidates(rule, date.getFullYear(), date.getMonth(), start) : [];
+      break;
+
+    case 'YEARLY': {
+      period = date.getFullYear() - start.getFullYear();
+      const months = rule.byMonth.length > 0
+        ? [...rule.byMonth].sort((a, b) => a - b)
+        : [start.getMonth() + 1];
+      candidates = months.flatMap((m) => monthCandidates(rule, date.getFullYear(), m - 1, start));
+      break;
+    }
+  }
+
+  if (period < 0 || period % rule.interval !== 0) {
+    return [];
+  }
+
+  if (rule.bySetPos.length > 0) {
+    const sorted = [...candidates].sort((a, b) => a - b);
+    candidates = rule.bySetPos
+      .map((pos) => sorted[pos > 0 ? pos - 1 : sorted.length + pos])
+      .filter((day): day is number => day !== undefined);
+  }
+
+  return candidates;
+}
+
+/**
+ * Check whether an RRULE has an occurrence on `date`.
+ * `anchor` is the start when the rule has no DTSTART (usually createdAt).
+ */
+export function rruleOccursOn(rule: ParsedRRule, date: Date, anchor: Date): boolean {
+  const start = rule.dtstart ? fromDateStr(rule.dtstart) : new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+  const target = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const targetDay = dayNumber(target);
+  const targetStr = toDateStr(target);
+
+  if (targetDay < dayNumber(start)) return false;
+  if (rule.until && targetStr > rule.until) return false;
+  if (rule.exdates.includes(targetStr)) return false;
+  if (!periodOccurrences(rule, target, start).includes(targetDay)) return false;
+
+  if (rule.count) {
+    // COUNT includes excluded dates (RFC 5545), so count every pattern match
+    let seen = 0;
+    for (let day = new Date(start); dayNumber(day) <= targetDay; day.setDate(day.getDate() + 1)) {
+      if (periodOccurrences(rule, day, start).includes(dayNumber(day))) {
+        seen++;
+        if (seen > rule.count) return false;
+      }
+    }
+  }
+
+  return true;
+}
+
 // -----------------------------------------------------------------------------
 // getRoutines - List all routine templates
 // -----------------------------------------------------------------------------
@@ -203,7 +362,12 @@ export async function getRoutines(): Promise<{ routines: RoutineApiFormat[] }> {
       ? item.routineCompletions[0].completedDate.toISOString().split('T')[0]
       : null;
 
-    return toApiFormat(item, lastCompleted, item._count.routineCompletions);
+    const nextDue = getNextDueDate(item);
+
+    return {
+      ...toApiFormat(item, lastCompleted, item._count.routineCompletions),
+      next_due: nextDue ? toDateStr(nextDue) : undefined,
+    };
   });
 
   return { routines };
@@ -272,6 +436,7 @@ export async function getRoutinesDue(date: Date = new Date()): Promise<RoutineAp
         recurrenceRule: item.recurrenceRule,
         recurrenceDays: item.recurrenceDays,
         recurrenceMonths: item.recurrenceMonths,
+        createdAt: item.createdAt,
       },
       date
     )) {
@@ -408,7 +573,7 @@ export async function uncompleteRoutine(
 // Helper: Normalize date to YYYY-MM-DD string (local timezone)
 // -----------------------------------------------------------------------------
 
-function toDateStr(date: Date): string {
+export function toDateStr(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const day = String(date.getDate()).padStart(2, '0');
@@ -417,26 +582,35 @@ function toDateStr(date: Date): string {
 
 // -----------------------------------------------------------------------------
 // getNextDueDate - Calculate the next date a routine is due (today or later)
+// Returns null when there is none: the rule has ended (COUNT/UNTIL) or is invalid
 // -----------------------------------------------------------------------------
 
+const PERIOD_DAYS: Record<ParsedRRule['freq'], number> = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 };
+
 export function getNextDueDate(
-  routine: { recurrenceRule: string | null; recurrenceDays: string | null; recurrenceMonths: string | null },
+  routine: RecurrenceFields,
   fromDate: Date = new Date()
-): Date {
+): Date | null {
   // Start checking from today
   const checkDate = new Date(fromDate);
   checkDate.setHours(0, 0, 0, 0);
 
-  // Check up to 365 days ahead to find next due date
-  for (let i = 0; i < 365; i++) {
+  // A year covers every simple rule; an RRULE interval can leave a longer gap
+  let horizon = 365;
+  if (isRRuleText(routine.recurrenceRule)) {
+    const { rule } = parseRRule(routine.recurrenceRule!);
+    if (!rule || (rule.until && rule.until < toDateStr(checkDate))) return null;
+    horizon += rule.interval * PERIOD_DAYS[rule.freq];
+  }
+
+  for (let i = 0; i < horizon; i++) {
     if (isDueOnDate(routine, checkDate)) {
       return new Date(checkDate);
     }
     checkDate.setDate(checkDate.getDate() + 1);
   }
 
-  // Fallback: return today if no due date found
-  return fromDate;
+  return null;
 }
 
 // -----------------------------------------------------------------------------
@@ -541,6 +715,7 @@ export async function getOverdueRoutines(asOfDate: Date = new Date()): Promise<A
           recurrenceRule: item.recurrenceRule,
           recurrenceDays: item.recurrenceDays,
           recurrenceMonths: item.recurrenceMonths,
+          createdAt: item.createdAt,
         },
         checkDate
       )) {
@@ -580,7 +755,7 @@ export async function skipRoutineToNextDue(
 ): Promise<{
   success: boolean;
   skipped_count: number;
-  next_due: string;
+  next_due: string | null;
   skipped_dates: string[];
   error?: string;
 }> {
@@ -596,7 +771,7 @@ export async function skipRoutineToNextDue(
   });
 
   if (!routine) {
-    return { success: false, skipped_count: 0, next_due: '', skipped_dates: [], error: 'Routine not found' };
+    return { success: false, skipped_count: 0, next_due: null, skipped_dates: [], error: 'Routine not found' };
   }
 
   const today = new Date(asOfDate);
@@ -609,10 +784,12 @@ export async function skipRoutineToNextDue(
       recurrenceRule: routine.recurrenceRule,
       recurrenceDays: routine.recurrenceDays,
       recurrenceMonths: routine.recurrenceMonths,
+      createdAt: routine.createdAt,
     },
     today
   );
-  const nextDueStr = toDateStr(nextDue);
+  // A routine that has ended catches up to today
+  const nextDueStr = nextDue ? toDateStr(nextDue) : toDateStr(today);
 
   // Get routine creation date
   const createdAt = new Date(routine.createdAt);
@@ -650,6 +827,7 @@ export async function skipRoutineToNextDue(
           recurrenceRule: routine.recurrenceRule,
           recurrenceDays: routine.recurrenceDays,
           recurrenceMonths: routine.recurrenceMonths,
+          createdAt: routine.createdAt,
         },
         checkDate
       ) &&
@@ -682,7 +860,7 @@ export async function skipRoutineToNextDue(
   return {
     success: true,
     skipped_count: skippedCount,
-    next_due: nextDueStr,
+    next_due: nextDue ? nextDueStr : null,
     skipped_dates: datesToSkip,
   };
 }
@@ -698,7 +876,7 @@ export async function completeRoutineToNextDue(
 ): Promise<{
   success: boolean;
   completed_count: number;
-  next_due: string;
+  next_due: string | null;
   completed_dates: string[];
   error?: string;
 }> {
@@ -714,7 +892,7 @@ export async function completeRoutineToNextDue(
   });
 
   if (!routine) {
-    return { success: false, completed_count: 0, next_due: '', completed_dates: [], error: 'Routine not found' };
+    return { success: false, completed_count: 0, next_due: null, completed_dates: [], error: 'Routine not found' };
   }
 
   const today = new Date(asOfDate);
@@ -726,10 +904,12 @@ export async function completeRoutineToNextDue(
       recurrenceRule: routine.recurrenceRule,
       recurrenceDays: routine.recurrenceDays,
       recurrenceMonths: routine.recurrenceMonths,
+      createdAt: routine.createdAt,
     },
     today
   );
-  const nextDueStr = toDateStr(nextDue);
+  // A routine that has ended catches up to today
+  const nextDueStr = nextDue ? toDateStr(nextDue) : toDateStr(today);
 
   // Get routine creation date
   const createdAt = new Date(routine.createdAt);
@@ -766,6 +946,7 @@ export async function completeRoutineToNextDue(
           recurrenceRule: routine.recurrenceRule,
           recurrenceDays: routine.recurrenceDays,
           recurrenceMonths: routine.recurrenceMonths,
+          createdAt: routine.createdAt,
         },
         checkDate
       ) &&
@@ -798,7 +979,7 @@ export async function completeRoutineToNextDue(
   return {
     success: true,
     completed_count: completedCount,
-    next_due: nextDueStr,
+    next_due: nextDue ? nextDueStr : null,
     completed_dates: datesToComplete,
   };
 }
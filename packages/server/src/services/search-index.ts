@@ -0,0 +1,524 @@
+/**
+ * Search Index Service
+ *
+ * Maintains a SQLite FTS5 index over items, check-in notes, activity notes,
+ * meeting files, project READMEs and diary entries.
+ *
+ * Prisma cannot model virtual tables, so the index is created lazily and
+ * queried with raw SQL. Each document has a stable key ("item:12",
+ * "meeting:<path>", ...) so sources can be re-indexed individually as they
+ * change; rebuildSearchIndex() repopulates everything from scratch.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import matter from 'gray-matter';
+import { Prisma, type PrismaClient } from '../generated/prisma/index.js';
+import type { SearchDocType, SearchHighlight, SearchResult } from '@kw/api-types';
+import { getKnowledgeBasePath, getRelativeKBPath, resolveKBPath } from './paths.js';
+import { getAllMeetingFiles, parseMeetingFile, type ParsedMeeting } from './meeting-parser.js';
+import { scanProjects, type ProjectInfo } from './project-sync.js';
+import { getOrgFolders, orgFolderForPath, type OrgFolder } from './org-folders.js';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const TABLE = 'search_index';
+
+/** Activity types that carry free-text notes worth indexing */
+const NOTE_ACTIVITY_TYPES = ['note', 'progress', 'blocker'];
+
+/** Title matches count for more than body matches */
+const TITLE_WEIGHT = 10.0;
+const BODY_WEIGHT = 1.0;
+
+/** Snippet markers - control characters that never appear in indexed text */
+const HIGHLIGHT_OPEN = '\u0002';
+const HIGHLIGHT_CLOSE = '\u0003';
+const SNIPPET_TOKENS = 16;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SearchDocument {
+  key: string;
+  type: SearchDocType;
+  title: string;
+  body: string;
+  itemId?: number | null;
+  path?: string | null;
+  org?: string | null;
+  projectPath?: string | null;
+  date?: string | null;
+}
+
+interface SearchRow {
+  doc_type: SearchDocType;
+  doc_key: string;
+  item_id: number | bigint | string | null;
+  path: string | null;
+  org: string | null;
+  project_path: string | null;
+  date: string | null;
+  title: string;
+  snippet: string;
+  rank: number;
+}
+
+export interface SearchOptions {
+  query: string;
+  types?: SearchDocType[];
+  org?: string;
+  limit?: number;
+}
+
+export interface RebuildResult {
+  indexed: Record<string, number>;
+  errors: string[];
+}
+
+// =============================================================================
+// SCHEMA
+// =============================================================================
+
+let indexReady = false;
+
+/**
+ * Create the FTS5 table if it doesn't exist yet. A newly created table is
+ * populated straight away so the first search doesn't see a partial index.
+ */
+export async function ensureSearchIndex(prisma: PrismaClient): Promise<void> {
+  if (indexReady) return;
+
+  const existing = await prisma.$queryRaw<{ name: string }[]>`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name = ${TABLE}
+  `;
+
+  if (existing.length > 0) {
+    indexReady = true;
+    return;
+  }
+
+  await prisma.$executeRawUnsafe(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS ${TABLE} USING fts5(
+      title,
+      body,
+      doc_type UNINDEXED,
+      doc_key UNINDEXED,
+      item_id UNINDEXED,
+      path UNINDEXED,
+      org UNINDEXED,
+      project_path UNINDEXED,
+      date UNINDEXED,
+      tokenize = 'porter unicode61',
+      prefix = '2 3'
+    )
+  `);
+  indexReady = true;
+  await rebuildSearchIndex(prisma);
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+async function insertDocuments(prisma: Prisma.TransactionClient, docs: SearchDocument[]): Promise<void> {
+  for (const doc of docs) {
+    await prisma.$executeRaw`
+      INSERT INTO search_index (title, body, doc_type, doc_key, item_id, path, org, project_path, date)
+      VALUES (
+        ${doc.title}, ${doc.body}, ${doc.type}, ${doc.key}, ${doc.itemId ?? null},
+        ${doc.path ?? null}, ${doc.org ?? null}, ${doc.projectPath ?? null}, ${doc.date ?? null}
+      )
+    `;
+  }
+}
+
+async function replaceDocument(prisma: PrismaClient, doc: SearchDocument): Promise<void> {
+  await prisma.$executeRaw`DELETE FROM search_index WHERE doc_key = ${doc.key}`;
+  await insertDocuments(prisma, [doc]);
+}
+
+function toDateStr(date: Date | null | undefined): string | null {
+  return date ? date.toISOString().split('T')[0] : null;
+}
+
+/**
+ * Build the documents for an item: the item itself plus its check-in notes
+ * and note-type activities. Returns [] for missing or soft-deleted items.
+ */
+async function buildItemDocuments(prisma: PrismaClient, itemId: number): Promise<SearchDocument[]> {
+  const item = await prisma.item.findUnique({
+    where: { id: itemId },
+    include: {
+      project: { select: { organization: { select: { slug: true } } } },
+      checkIns: { where: { note: { not: null } } },
+      activities: {
+        where: { action: { in: NOTE_ACTIVITY_TYPES }, detail: { not: null } },
+      },
+    },
+  });
+
+  if (!item || item.deletedAt) return [];
+
+  const org = item.project?.organization?.slug ?? null;
+  const docs: SearchDocument[] = [{
+    key: `item:${item.id}`,
+    type: 'item',
+    title: item.title,
+    body: item.description ?? '',
+    itemId: item.id,
+    org,
+    date: toDateStr(item.dueDate),
+  }];
+
+  for (const checkin of item.checkIns) {
+    docs.push({
+      key: `checkin:${checkin.id}`,
+      type: 'checkin',
+      title: item.title,
+      body: checkin.note!,
+      itemId: item.id,
+      org,
+      date: toDateStr(checkin.date),
+    });
+  }
+
+  for (const activity of item.activities) {
+    docs.push({
+      key: `note:${activity.id}`,
+      type: 'note',
+      title: item.title,
+      body: activity.detail!,
+      itemId: item.id,
+      org,
+      date: toDateStr(activity.createdAt),
+    });
+  }
+
+  return docs;
+}
+
+/**
+ * Re-index an item together with its check-in and activity notes.
+ * Soft-deleted items are removed from the index.
+ *
+ * Indexing failures are logged rather than thrown so they never fail the
+ * mutation that triggered them.
+ */
+export async function indexItem(prisma: PrismaClient, itemId: number): Promise<void> {
+  try {
+    await ensureSearchIndex(prisma);
+    const docs = await buildItemDocuments(prisma, itemId);
+    await prisma.$executeRaw`DELETE FROM search_index WHERE item_id = ${itemId}`;
+    await insertDocuments(prisma, docs);
+  } catch (error) {
+    console.error(`[search] Failed to index item ${itemId}:`, error);
+  }
+}
+
+function meetingDocument(meeting: ParsedMeeting, orgFolders: OrgFolder[]): SearchDocument {
+  return {
+    key: `meeting:${meeting.path}`,
+    type: 'meeting',
+    title: meeting.title,
+    body: [meeting.attendees.join(', '), meeting.body].filter(Boolean).join('\n'),
+    path: meeting.path,
+    org: orgFolderForPath(orgFolders, meeting.path)?.slug ?? null,
+    date: meeting.date || null,
+  };
+}
+
+/**
+ * Re-index a parsed meeting file
+ */
+export async function indexMeeting(prisma: PrismaClient, meeting: ParsedMeeting): Promise<void> {
+  try {
+    await ensureSearchIndex(prisma);
+    await replaceDocument(prisma, meetingDocument(meeting, await getOrgFolders(prisma)));
+  } catch (error) {
+    console.error(`[search] Failed to index meeting ${meeting.path}:`, error);
+  }
+}
+
+function projectDocument(project: ProjectInfo): SearchDocument {
+  const content = fs.readFileSync(resolveKBPath(project.filePath), 'utf-8');
+  return {
+    key: `project:${project.filePath}`,
+    type: 'project',
+    title: project.name,
+    body: matter(content).content,
+    path: project.filePath,
+    org: project.org,
+    projectPath: project.parentSlug ? `${project.parentSlug}/${project.slug}` : project.slug,
+  };
+}
+
+/**
+ * Re-index project READMEs (and standalone project files) found by scanProjects()
+ */
+export async function indexProjects(prisma: PrismaClient, projects: ProjectInfo[]): Promise<string[]> {
+  const errors: string[] = [];
+  await ensureSearchIndex(prisma);
+
+  for (const project of projects) {
+    try {
+      await replaceDocument(prisma, projectDocument(project));
+    } catch (error) {
+      errors.push(`Failed to index project ${project.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  return errors;
+}
+
+function diaryDocument(absolutePath: string): SearchDocument {
+  const relativePath = getRelativeKBPath(absolutePath);
+  // diary/YYYY/MM/DD-Dow.md
+  const match = relativePath.match(/diary\/(\d{4})\/(\d{2})\/(\d{2})/);
+  const date = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  const content = fs.readFileSync(absolutePath, 'utf-8');
+
+  return {
+    key: `diary:${relativePath}`,
+    type: 'diary',
+    title: date ? `Diary ${date}` : path.basename(relativePath, '.md'),
+    body: matter(content).content,
+    path: relativePath,
+    date,
+  };
+}
+
+/**
+ * Re-index a single diary file (absolute path, as returned by diary-sync)
+ */
+export async function indexDiaryFile(prisma: PrismaClient, absolutePath: string): Promise<void> {
+  try {
+    await ensureSearchIndex(prisma);
+    await replaceDocument(prisma, diaryDocument(absolutePath));
+  } catch (error) {
+    console.error(`[search] Failed to index diary ${absolutePath}:`, error);
+  }
+}
+
+/**
+ * Drop the meeting, project or diary document for a file that was deleted
+ * or renamed (KB-relative path)
+ */
+export async function removeFileDocument(prisma: PrismaClient, relativePath: string): Promise<void> {
+  try {
+    await ensureSearchIndex(prisma);
+    await prisma.$executeRaw`DELETE FROM search_index WHERE path = ${relativePath} AND item_id IS NULL`;
+  } catch (error) {
+    console.error(`[search] Failed to remove ${relativePath} from the index:`, error);
+  }
+}
+
+function getAllDiaryFiles(): string[] {
+  const diaryDir = resolveKBPath('diary');
+  if (!fs.existsSync(diaryDir)) return [];
+
+  const files: string[] = [];
+  for (const year of fs.readdirSync(diaryDir).filter(f => /^\d{4}$/.test(f))) {
+    const yearDir = path.join(diaryDir, year);
+    for (const month of fs.readdirSync(yearDir).filter(f => /^\d{2}$/.test(f))) {
+      const monthDir = path.join(yearDir, month);
+      for (const file of fs.readdirSync(monthDir).filter(f => /^\d{2}.*\.md$/.test(f))) {
+        files.push(path.join(monthDir, file));
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Drop and repopulate the whole index from the database and knowledge base.
+ * Filesystem sources are skipped (and reported) if the KB is unavailable.
+ */
+export async function rebuildSearchIndex(prisma: PrismaClient): Promise<RebuildResult> {
+  const result: RebuildResult = {
+    indexed: { item: 0, checkin: 0, note: 0, meeting: 0, project: 0, diary: 0 },
+    errors: [],
+  };
+  const docs: SearchDocument[] = [];
+
+  await ensureSearchIndex(prisma);
+
+  const items = await prisma.item.findMany({
+    where: { deletedAt: null },
+    select: { id: true },
+  });
+  for (const { id } of items) {
+    docs.push(...await buildItemDocuments(prisma, id));
+  }
+
+  try {
+    getKnowledgeBasePath();
+
+    const orgFolders = await getOrgFolders(prisma);
+    for (const file of getAllMeetingFiles(orgFolders.map(f => f.folder))) {
+      const meeting = parseMeetingFile(file);
+      if (meeting) docs.push(meetingDocument(meeting, orgFolders));
+    }
+
+    for (const project of await scanProjects()) {
+      try {
+        docs.push(projectDocument(project));
+      } catch (error) {
+        result.errors.push(`Failed to index project ${project.filePath}: ${(error as Error).message}`);
+      }
+    }
+
+    for (const file of getAllDiaryFiles()) {
+      try {
+        docs.push(diaryDocument(file));
+      } catch (error) {
+        result.errors.push(`Failed to index diary ${file}: ${(error as Error).message}`);
+      }
+    }
+  } catch (error) {
+    result.errors.push(`Skipped knowledge base files: ${(error as Error).message}`);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`DELETE FROM search_index`;
+    await insertDocuments(tx, docs);
+  });
+
+  for (const doc of docs) {
+    result.indexed[doc.type]++;
+  }
+
+  return result;
+}
+
+// =============================================================================
+// QUERYING
+// =============================================================================
+
+function tokenize(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Convert user input into an FTS5 MATCH expression.
+ * Bare words become prefix queries ("plan" matches "planning"); "quoted
+ * phrases" must match exactly. All terms are ANDed. Returns null when the
+ * input has no searchable terms.
+ */
+export function buildMatchQuery(query: string): string | null {
+  const terms: string[] = [];
+
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = tokenize(phrase);
+    if (words.length > 0) terms.push(`"${words.join(' ')}"`);
+    return ' ';
+  });
+
+  for (const word of tokenize(rest)) {
+    terms.push(`"${word}"*`);
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+/**
+ * Strip highlight markers from FTS output, returning plain text and the
+ * offsets of each highlighted range.
+ */
+export function extractHighlights(marked: string): { text: string; highlights: SearchHighlight[] } {
+  const highlights: SearchHighlight[] = [];
+  let text = '';
+  let start = -1;
+
+  for (const char of marked) {
+    if (char === HIGHLIGHT_OPEN) {
+      start = text.length;
+    } else if (char === HIGHLIGHT_CLOSE) {
+      if (start >= 0) highlights.push({ start, end: text.length });
+      start = -1;
+    } else {
+      text += char;
+    }
+  }
+
+  return { text, highlights };
+}
+
+/**
+ * Run a ranked full-text search. Results are ordered by bm25 score
+ * (title matches weighted above body matches).
+ */
+export async function searchIndex(
+  prisma: PrismaClient,
+  options: SearchOptions
+): Promise<{ results: SearchResult[]; total: number }> {
+  const match = buildMatchQuery(options.query);
+  if (!match) return { results: [], total: 0 };
+
+  await ensureSearchIndex(prisma);
+
+  const filters: Prisma.Sql[] = [Prisma.sql`search_index MATCH ${match}`];
+  if (options.types && options.types.length > 0) {
+    filters.push(Prisma.sql`doc_type IN (${Prisma.join(options.types)})`);
+  }
+  if (options.org) {
+    filters.push(Prisma.sql`org = ${options.org}`);
+  }
+  const where = Prisma.join(filters, ' AND ');
+
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    SELECT
+      doc_type, doc_key, item_id, path, org, project_path, date,
+      highlight(search_index, 0, ${HIGHLIGHT_OPEN}, ${HIGHLIGHT_CLOSE}) AS title,
+      snippet(search_index, 1, ${HIGHLIGHT_OPEN}, ${HIGHLIGHT_CLOSE}, '…', ${SNIPPET_TOKENS}) AS snippet,
+      bm25(search_index, ${TITLE_WEIGHT}, ${BODY_WEIGHT}) AS rank
+    FROM search_index
+    WHERE ${where}
+    ORDER BY rank
+    LIMIT ${options.limit ?? 20}
+  `;
+
+  const countRows = await prisma.$queryRaw<{ total: number | bigint }[]>`
+    SELECT COUNT(*) AS total FROM search_index WHERE ${where}
+  `;
+
+  // Attach live status/owner for item-backed documents
+  const itemIds = [...new Set(rows.filter(r => r.item_id !== null).map(r => Number(r.item_id)))];
+  const items = itemIds.length > 0
+    ? await prisma.item.findMany({
+        where: { id: { in: itemIds } },
+        select: { id: true, status: true, owner: { select: { name: true } } },
+      })
+    : [];
+  const itemsById = new Map(items.map(i => [i.id, i]));
+
+  const results = rows.map((row): SearchResult => {
+    const title = extractHighlights(row.title);
+    const snippet = extractHighlights(row.snippet);
+    const itemId = row.item_id !== null ? Number(row.item_id) : null;
+    const item = itemId !== null ? itemsById.get(itemId) : undefined;
+
+    return {
+      type: row.doc_type,
+      key: row.doc_key,
+      title: title.text,
+      titleHighlights: title.highlights,
+      snippet: snippet.text,
+      highlights: snippet.highlights,
+      // bm25 is lower-is-better; flip so callers can sort descending
+      score: -Number(row.rank),
+      itemId,
+      itemStatus: item?.status ?? null,
+      itemOwner: item?.owner?.name ?? null,
+      path: row.path,
+      org: row.org,
+      projectPath: row.project_path,
+      date: row.date,
+    };
+  });
+
+  return { results, total: Number(countRows[0]?.total ?? 0) };
+}
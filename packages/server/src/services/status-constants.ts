@@ -17,6 +17,17 @@ export const STATUS_TO_EMOJI: Record<string, string> = {
   'planning': '🔵',
 };
 
+// README status emoji to item status (STATUS_TO_EMOJI is the way back)
+export const EMOJI_TO_STATUS: Record<string, string> = {
+  '✅': 'complete',
+  '🟢': 'in_progress',
+  '🟡': 'pending',
+  '🔴': 'blocked',
+  '🔵': 'pending',
+  '⏳': 'pending',
+  '❌': 'cancelled',
+};
+
 // Status to action table status mappings (for meeting notes)
 export const STATUS_TO_ACTION_STATUS: Record<string, string> = {
   'pending': 'Pending',
@@ -0,0 +1,308 @@
+/**
+ * Sync Watcher
+ *
+ * Watches the knowledge base and keeps the database in step with edits made
+ * outside the app (agents, editors, git pulls). Changed markdown files are
+ * collected for a short debounce window, then each one gets the sync that
+ * applies to it:
+ *
+ *   <org folder>/meetings/YYYY/MM/<file>.md  → meeting actions become tasks
+ *   <org folder>/projects/.../<file>.md      → project and workstream records
+ *   <org folder>/projects/.../README.md      → README checkbox/status lines ↔ items
+ *
+ * Deleted meeting, project and diary files are dropped from the search
+ * index; their records stay until a full sync. While paused, changes keep
+ * queueing and are synced on resume. Every run is kept in a short in-memory
+ * log for the sync status endpoint.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import chokidar from 'chokidar';
+import type { PrismaClient } from '../generated/prisma/index.js';
+import { emitDataChange } from '../events.js';
+import { getMeetingByPath } from './meeting-parser.js';
+import { syncMeetingActions } from './meeting-sync.js';
+import { scanProjects, syncProjects } from './project-sync.js';
+import { syncReadmes } from './readme-sync.js';
+import { getKnowledgeBasePath, resolveKBPath } from './paths.js';
+import { getOrgFolders, orgFolderForPath } from './org-folders.js';
+import { indexItem, indexMeeting, indexProjects, removeFileDocument } from './search-index.js';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/** Quiet period after the last change before a sync runs */
+const DEFAULT_DEBOUNCE_MS = 2000;
+
+/** Runs kept in the status log */
+const LOG_SIZE = 100;
+
+const MEETING_PATTERN = /(^|\/)meetings\/\d{4}\/\d{2}\/[^/]+\.md$/;
+const PROJECT_PATTERN = /(^|\/)projects\/.+\.md$/;
+const DIARY_PATTERN = /^diary\/\d{4}\/\d{2}\/[^/]+\.md$/;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SyncRunLog {
+  id: number;
+  startedAt: string;
+  durationMs: number;
+  paths: string[];
+  meetings: { synced: number; tasksCreated: number; tasksUpdated: number };
+  projects: { created: number; updated: number };
+  readmes: { changes: number; conflicts: number };
+  errors: string[];
+}
+
+export interface SyncWatcherStatus {
+  /** False when the watcher was not started (or SYNC_WATCHER=off) */
+  watching: boolean;
+  paused: boolean;
+  running: boolean;
+  /** Changed files waiting for the next run */
+  pending: string[];
+  lastRunAt: string | null;
+  /** Most recent run first */
+  log: SyncRunLog[];
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+let watching = false;
+let paused = false;
+let running = false;
+let nextRunId = 1;
+const pending = new Set<string>();
+const log: SyncRunLog[] = [];
+
+let scheduleRun: (() => void) | null = null;
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+function emptyRun(paths: string[]): SyncRunLog {
+  return {
+    id: nextRunId++,
+    startedAt: new Date().toISOString(),
+    durationMs: 0,
+    paths,
+    meetings: { synced: 0, tasksCreated: 0, tasksUpdated: 0 },
+    projects: { created: 0, updated: 0 },
+    readmes: { changes: 0, conflicts: 0 },
+    errors: [],
+  };
+}
+
+/**
+ * Whether a KB-relative path is one the watcher syncs
+ */
+export function isSyncedPath(relativePath: string): boolean {
+  return MEETING_PATTERN.test(relativePath) || PROJECT_PATTERN.test(relativePath);
+}
+
+/**
+ * Run the incremental sync for a set of changed files (relative to the KB
+ * root) and add the run to the status log.
+ */
+export async function runIncrementalSync(prisma: PrismaClient, paths: string[]): Promise<SyncRunLog> {
+  const started = Date.now();
+  const run = emptyRun(paths);
+  const itemIds = new Set<number>();
+
+  // Deleted (or renamed-away) files only leave the search index
+  const existing = paths.filter(p => fs.existsSync(resolveKBPath(p)));
+  for (const removedPath of paths.filter(p => !existing.includes(p))) {
+    await removeFileDocument(prisma, removedPath);
+  }
+
+  // Meetings only count directly in an active org's meetings/ folder
+  const orgFolders = await getOrgFolders(prisma);
+  const meetingPaths = existing.filter(p => {
+    const org = orgFolderForPath(orgFolders, p);
+    return !!org && MEETING_PATTERN.test(p) && p.startsWith(`${org.folder}/meetings/`);
+  });
+
+  for (const meetingPath of meetingPaths) {
+    try {
+      const meeting = getMeetingByPath(meetingPath);
+      if (!meeting) continue;
+      const result = await syncMeetingActions(prisma, meeting);
+      run.meetings.synced++;
+      run.meetings.tasksCreated += result.tasksCreated;
+      run.meetings.tasksUpdated += result.tasksUpdated;
+      run.errors.push(...result.errors);
+      result.taskIds.forEach(id => itemIds.add(id));
+      await indexMeeting(prisma, meeting);
+    } catch (error) {
+      run.errors.push(`Failed to sync meeting ${meetingPath}: ${(error as Error).message}`);
+    }
+  }
+  if (run.meetings.synced > 0) {
+    emitDataChange({ entity: 'meetings', mutation: 'update' });
+  }
+
+  const projectPaths = existing.filter(p => PROJECT_PATTERN.test(p));
+  if (projectPaths.length > 0) {
+    try {
+      const result = await syncProjects({ filePaths: projectPaths });
+      run.projects.created = result.projects_created;
+      run.projects.updated = result.projects_updated;
+      run.errors.push(...result.errors);
+
+      if (result.projects_found > 0) {
+        const changed = new Set(projectPaths);
+        run.errors.push(...await indexProjects(prisma, (await scanProjects()).filter(p => changed.has(p.filePath))));
+      }
+      if (result.projects_created + result.projects_updated > 0) {
+        emitDataChange({ entity: 'projects', mutation: 'update' });
+      }
+    } catch (error) {
+      run.errors.push(`Failed to sync projects: ${(error as Error).message}`);
+    }
+
+    // Runs after the project sync so new README items find their project
+    const readmePaths = projectPaths.filter(p => path.posix.basename(p) === 'README.md');
+    if (readmePaths.length > 0) {
+      const result = await syncReadmes(prisma, getKnowledgeBasePath(), { apply: true, paths: readmePaths });
+      run.readmes.changes = result.changes.length;
+      run.readmes.conflicts = result.conflicts.length;
+      run.errors.push(...result.errors);
+      result.itemIds.forEach(id => itemIds.add(id));
+    }
+  }
+
+  if (itemIds.size > 0) {
+    for (const id of itemIds) {
+      await indexItem(prisma, id);
+    }
+    emitDataChange({ entity: 'items', mutation: 'update', ids: [...itemIds] });
+  }
+
+  run.durationMs = Date.now() - started;
+  log.unshift(run);
+  log.length = Math.min(log.length, LOG_SIZE);
+  return run;
+}
+
+async function flushPending(prisma: PrismaClient): Promise<void> {
+  if (running || paused || pending.size === 0) return;
+
+  const paths = [...pending].sort();
+  pending.clear();
+  running = true;
+  try {
+    const run = await runIncrementalSync(prisma, paths);
+    if (run.errors.length > 0) {
+      console.error(`[sync-watcher] ${run.errors.length} error(s) syncing ${paths.join(', ')}:`, run.errors);
+    }
+  } catch (error) {
+    console.error('[sync-watcher] Sync failed:', error);
+  } finally {
+    running = false;
+  }
+
+  // Files that changed during the run
+  if (pending.size > 0) scheduleRun?.();
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+export function getSyncWatcherStatus(): SyncWatcherStatus {
+  return {
+    watching,
+    paused,
+    running,
+    pending: [...pending].sort(),
+    lastRunAt: log[0]?.startedAt ?? null,
+    log: [...log],
+  };
+}
+
+/**
+ * Stop syncing changed files. Changes are still collected.
+ */
+export function pauseSyncWatcher(): SyncWatcherStatus {
+  paused = true;
+  return getSyncWatcherStatus();
+}
+
+/**
+ * Resume syncing, starting with the changes collected while paused
+ */
+export function resumeSyncWatcher(): SyncWatcherStatus {
+  paused = false;
+  scheduleRun?.();
+  return getSyncWatcherStatus();
+}
+
+/**
+ * Watch the knowledge base and sync changed files in the background.
+ * Does nothing if SYNC_WATCHER=off or no knowledge base is configured. Returns a function that stops watching.
+ */
+export function startSyncWatcher(
+  prisma: PrismaClient,
+  options: { debounceMs?: number } = {}
+): () => void {
+  if (process.env.SYNC_WATCHER === 'off' || !process.env.KNOWLEDGE_BASE_PATH) {
+    return () => {};
+  }
+
+  const basePath = getKnowledgeBasePath();
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  let timer: NodeJS.Timeout | null = null;
+
+  scheduleRun = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      flushPending(prisma);
+    }, debounceMs);
+    timer.unref();
+  };
+
+  const watcher = chokidar.watch(basePath, {
+    ignored: (filePath: string) => {
+      const name = path.basename(filePath);
+      return (name.startsWith('.') && filePath !== basePath) || name === 'node_modules';
+    },
+    ignoreInitial: true,
+    awaitWriteFinish: { stabilityThreshold: 300, pollInterval: 100 },
+  });
+
+  const onFile = (filePath: string) => {
+    const relativePath = path.relative(basePath, filePath).split(path.sep).join('/');
+    if (!isSyncedPath(relativePath)) return;
+    pending.add(relativePath);
+    scheduleRun?.();
+  };
+  watcher.on('add', onFile);
+  watcher.on('change', onFile);
+  watcher.on('unlink', (filePath: string) => {
+    const relativePath = path.relative(basePath, filePath).split(path.sep).join('/');
+    if (!isSyncedPath(relativePath) && !DIARY_PATTERN.test(relativePath)) return;
+    pending.add(relativePath);
+    scheduleRun?.();
+  });
+  watcher.on('error', (error) => {
+    console.error('[sync-watcher] Watch error:', error);
+  });
+
+  watching = true;
+  console.log(`Sync watcher watching ${basePath}`);
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    scheduleRun = null;
+    watching = false;
+    watcher.close().catch(() => {});
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * Outbound Webhooks
+ *
+ * Delivers DataChangeEvents to registered URLs as signed JSON. Each event
+ * becomes one WebhookDelivery row per matching webhook; failed deliveries are
+ * retried with exponential backoff by a polling worker, and every attempt's
+ * outcome is kept in the delivery log.
+ *
+ * Requests carry:
+ *   X-KW-Event:     <entity>.<mutation>, or "ping" for test deliveries
+ *   X-KW-Delivery:  delivery id (stable across retries)
+ *   X-KW-Signature: sha256=<hex HMAC of the raw body, keyed by the webhook secret>
+ */
+
+import crypto from 'crypto';
+import type { PrismaClient, Webhook, WebhookDelivery } from '../generated/prisma/index.js';
+import { onDataChange, type DataChangeEvent } from '../events.js';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/** Attempts before a delivery is marked failed */
+export const MAX_ATTEMPTS = 6;
+
+/** First retry delay; doubles on each further attempt (30s, 1m, 2m, 4m, 8m) */
+const BASE_BACKOFF_MS = 30_000;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** How long an attempt holds its delivery; a claim left by a crash lapses after this */
+const CLAIM_MS = REQUEST_TIMEOUT_MS + 20_000;
+
+/**
+ * Mutations often emit the same event twice (once explicitly, once from the
+ * tRPC middleware). Identical events inside this window are delivered once.
+ */
+const COALESCE_WINDOW_MS = 1000;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function generateSecret(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+export function signPayload(secret: string, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Delay before the next attempt, given how many attempts have been made
+ */
+export function backoffDelay(attempts: number): number {
+  return BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+function parseList(json: string | null): string[] | null {
+  return json ? (JSON.parse(json) as string[]) : null;
+}
+
+export function matchesEvent(webhook: Pick<Webhook, 'entities' | 'mutations'>, event: DataChangeEvent): boolean {
+  const entities = parseList(webhook.entities);
+  const mutations = parseList(webhook.mutations);
+  return (!entities || entities.includes(event.entity)) && (!mutations || mutations.includes(event.mutation));
+}
+
+function eventIds(event: DataChangeEvent): number[] {
+  return event.ids ?? (event.id !== undefined ? [event.id] : []);
+}
+
+/**
+ * Load the current state of the changed records. Deleted records that are
+ * gone from the database are simply absent.
+ */
+async function loadEventData(prisma: PrismaClient, event: DataChangeEvent): Promise<unknown[]> {
+  const ids = eventIds(event);
+  if (ids.length === 0) return [];
+  const where = { id: { in: ids } };
+
+  switch (event.entity) {
+    case 'items':
+    case 'routines':
+      return prisma.item.findMany({
+        where,
+        include: {
+          project: { select: { slug: true, name: true, organization: { select: { slug: true } } } },
+          owner: { select: { id: true, name: true } },
+        },
+      });
+    case 'projects':
+      return prisma.project.findMany({
+        where,
+        include: { organization: { select: { slug: true, name: true } } },
+      });
+    case 'people':
+      return prisma.person.findMany({ where });
+    case 'organizations':
+      return prisma.organization.findMany({ where });
+    case 'checkins':
+      return prisma.checkIn.findMany({
+        where,
+        include: { item: { select: { id: true, title: true } } },
+      });
+    default:
+      return [];
+  }
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+/**
+ * Queue a delivery of the event to every active webhook whose filters match,
+ * then make the first attempt. Returns the created delivery ids.
+ */
+export async function dispatchDataChange(prisma: PrismaClient, event: DataChangeEvent): Promise<number[]> {
+  const webhooks = (await prisma.webhook.findMany({ where: { active: true } }))
+    .filter((webhook) => matchesEvent(webhook, event));
+  if (webhooks.length === 0) return [];
+
+  const name = `${event.entity}.${event.mutation}`;
+  const payload = JSON.stringify({
+    event: name,
+    entity: event.entity,
+    mutation: event.mutation,
+    ids: eventIds(event),
+    data: await loadEventData(prisma, event),
+    timestamp: new Date().toISOString(),
+  });
+
+  const deliveryIds: number[] = [];
+  for (const webhook of webhooks) {
+    const delivery = await prisma.webhookDelivery.create({
+      data: { webhookId: webhook.id, event: name, payload, nextAttemptAt: new Date() },
+    });
+    deliveryIds.push(delivery.id);
+  }
+
+  await Promise.all(deliveryIds.map((id) => attemptDelivery(prisma, id)));
+  return deliveryIds;
+}
+
+/**
+ * Queue and attempt a "ping" delivery so a webhook can be checked end to end
+ */
+export async function sendPing(prisma: PrismaClient, webhookId: number): Promise<WebhookDelivery> {
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId,
+      event: 'ping',
+      payload: JSON.stringify({ event: 'ping', webhookId, timestamp: new Date().toISOString() }),
+      nextAttemptAt: new Date(),
+    },
+  });
+  return attemptDelivery(prisma, delivery.id);
+}
+
+/**
+ * POST a delivery once and record the outcome. Non-2xx responses and network
+ * errors schedule a retry until MAX_ATTEMPTS is reached.
+ *
+ * The delivery is claimed first by moving its nextAttemptAt forward, so a
+ * poll running alongside (or the dispatch's own first attempt) can't send it
+ * again; whoever loses the claim returns the row untouched.
+ */
+export async function attemptDelivery(prisma: PrismaClient, deliveryId: number): Promise<WebhookDelivery> {
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { webhook: true },
+  });
+
+  const claim = await prisma.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: { in: ['pending', 'retrying'] },
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+    },
+    data: { nextAttemptAt: new Date(Date.now() + CLAIM_MS) },
+  });
+  if (claim.count === 0) {
+    return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: deliveryId } });
+  }
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const res = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'KnowledgeWork-Webhooks/1.0',
+        'X-KW-Event': delivery.event,
+        'X-KW-Delivery': String(delivery.id),
+        'X-KW-Signature': signPayload(delivery.webhook.secret, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    if (!res.ok) {
+      error = `HTTP ${res.status} ${res.statusText}`.trim();
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const succeeded = error === null;
+  const exhausted = attempts >= MAX_ATTEMPTS;
+
+  return prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      attempts,
+      responseStatus,
+      error,
+      status: succeeded ? 'success' : exhausted ? 'failed' : 'retrying',
+      nextAttemptAt: succeeded || exhausted ? null : new Date(Date.now() + backoffDelay(attempts)),
+      deliveredAt: succeeded ? new Date() : null,
+    },
+  });
+}
+
+/**
+ * Retry every delivery whose backoff has elapsed. Deliveries for webhooks
+ * that have since been deactivated are left waiting.
+ */
+export async function processDueDeliveries(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: { in: ['pending', 'retrying'] },
+      nextAttemptAt: { lte: now },
+      webhook: { active: true },
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: 50,
+  });
+
+  for (const delivery of due) {
+    await attemptDelivery(prisma, delivery.id);
+  }
+  return due.length;
+}
+
+// =============================================================================
+// WORKER
+// =============================================================================
+
+/**
+ * Subscribe to data changes and poll for due retries.
+ * Returns a function that stops the worker.
+ */
+export function startWebhookWorker(prisma: PrismaClient, pollIntervalMs = 15_000): () => void {
+  const recent = new Map<string, number>();
+
+  const unsubscribe = onDataChange((event) => {
+    const key = `${event.entity}:${event.mutation}:${eventIds(event).join(',')}`;
+    const now = Date.now();
+    if (now - (recent.get(key) ?? 0) < COALESCE_WINDOW_MS) return;
+    recent.set(key, now);
+
+    dispatchDataChange(prisma, event).catch((err) => {
+      console.error('[webhooks] Dispatch failed:', err);
+    });
+  });
+
+  // A pass can outlast the poll interval (50 deliveries × request timeout)
+  let running = false;
+  const timer = setInterval(() => {
+    // Forget coalescing keys once they're out of the window
+    const cutoff = Date.now() - COALESCE_WINDOW_MS;
+    for (const [key, at] of recent) {
+      if (at < cutoff) recent.delete(key);
+    }
+
+    if (running) return;
+    running = true;
+    processDueDeliveries(prisma)
+      .catch((err) => {
+        console.error('[webhooks] Retry processing failed:', err);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, pollIntervalMs);
+  timer.unref();
+
+  return () => {
+    unsubscribe();
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Tests for the audit log
+ *
+ * Mutations go through contexts built from fake request headers, so actor
+ * attribution is checked the same way HTTP requests are handled.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { CreateExpressContextOptions } from '@trpc/server/adapters/express';
+import { createCaller, createContext } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { actorFromRequest, actorLabel, diffSnapshots } from '../services/audit.js';
+
+async function callerWithHeaders(headers: Record<string, string>) {
+  const ctx = await createContext({ req: { headers } } as unknown as CreateExpressContextOptions);
+  return createCaller(ctx);
+}
+
+describe('Audit log', () => {
+  const caller = createCaller({ prisma: getPrisma() });
+  const itemIds: number[] = [];
+  const orgSlug = `audit-org-${Date.now()}`;
+  const tagName = `audit-tag-${Date.now()}`;
+  let agent: ReturnType<typeof createCaller>;
+
+  beforeAll(async () => {
+    agent = await callerWithHeaders({ 'x-kw-client': 'agent', 'x-kw-actor': 'nightly-triage' });
+  });
+
+  afterAll(async () => {
+    for (const id of itemIds) {
+      await getPrisma().item.delete({ where: { id } }).catch(() => {});
+    }
+    await getPrisma().tag.deleteMany({ where: { name: tagName } });
+    // Projects first: creating an org also creates its _general project
+    await getPrisma().project.deleteMany({ where: { organization: { slug: orgSlug } } });
+    await getPrisma().organization.deleteMany({ where: { slug: orgSlug } });
+    await getPrisma().auditLog.deleteMany({ where: { actorName: 'nightly-triage' } });
+  });
+
+  describe('helpers', () => {
+    it('should identify actors from headers', () => {
+      expect(actorFromRequest({ 'x-kw-client': 'web' }, null)).toEqual({ type: 'web', name: null });
+      expect(actorFromRequest({ 'x-kw-actor': 'bot' }, null)).toEqual({ type: 'agent', name: 'bot' });
+      expect(actorFromRequest({}, null)).toEqual({ type: 'api', name: null });
+      expect(actorFromRequest({ 'x-kw-client': 'system' }, null).type).toBe('api');
+      expect(
+        actorFromRequest({ 'x-kw-client': 'cli' }, { tokenId: 1, name: 'laptop', kind: 'api', scope: 'write' })
+      ).toEqual({ type: 'cli', name: 'laptop' });
+
+      expect(actorLabel({ type: 'agent', name: 'bot' })).toBe('agent:bot');
+      expect(actorLabel(undefined)).toBe('system');
+    });
+
+    it('should diff snapshots ignoring updatedAt', () => {
+      expect(diffSnapshots(
+        { title: 'a', status: 'pending', updatedAt: '1' },
+        { title: 'a', status: 'complete', updatedAt: '2' }
+      )).toEqual([{ field: 'status', before: 'pending', after: 'complete' }]);
+    });
+  });
+
+  describe('items', () => {
+    it('should record creates, updates and deletes with the actor', async () => {
+      const item = await agent.items.create({ title: 'Audited item' });
+      itemIds.push(item.id);
+      await agent.items.update({ id: item.id, data: { status: 'in_progress', priority: 2 } });
+      await agent.items.delete({ id: item.id });
+
+      const { entries } = await caller.audit.list({ entity: 'items', entityId: `T-${item.id}` });
+      expect(entries.map(e => e.action)).toEqual(['delete', 'update', 'create']);
+      expect(entries.every(e => e.actor.type === 'agent' && e.actor.name === 'nightly-triage')).toBe(true);
+
+      const update = entries[1];
+      expect(update.procedure).toBe('items.update');
+      expect(update.changes).toEqual(expect.arrayContaining([
+        { field: 'status', before: 'pending', after: 'in_progress' },
+        { field: 'priority', before: null, after: 2 },
+      ]));
+
+      const full = await caller.audit.get({ id: entries[2].id });
+      expect(full.before).toBeNull();
+      expect(full.after).toMatchObject({ id: item.id, title: 'Audited item' });
+    });
+
+    it('should attribute activities to the actor', async () => {
+      const item = await agent.items.create({ title: 'Activity attribution' });
+      itemIds.push(item.id);
+      await agent.items.update({ id: item.id, data: { status: 'complete' } });
+
+      const activity = await getPrisma().activity.findFirst({
+        where: { itemId: item.id, action: { not: 'created' } },
+      });
+      expect(activity?.createdBy).toBe('agent:nightly-triage');
+    });
+
+    it('should capture tag changes in the item snapshot', async () => {
+      const tag = await agent.tags.create({ name: tagName });
+      const item = await agent.items.create({ title: 'Tagged item' });
+      itemIds.push(item.id);
+      await agent.items.addTag({ itemId: item.id, tagName });
+
+      const { entries } = await caller.audit.list({ entity: 'items', entityId: item.id, procedure: 'items.addTag' });
+      expect(entries).toHaveLength(1);
+      expect(entries[0].changes).toEqual([{ field: 'tagIds', before: [], after: [tag.id] }]);
+
+      const { entries: tagEntries } = await caller.audit.list({ entity: 'tags', entityId: tag.id });
+      expect(tagEntries.map(e => e.action)).toEqual(['create']);
+    });
+
+    it('should skip mutations that change nothing', async () => {
+      const item = await agent.items.create({ title: 'Unchanged' });
+      itemIds.push(item.id);
+      await agent.items.update({ id: item.id, data: { title: 'Unchanged' } });
+
+      const { entries } = await caller.audit.list({ entity: 'items', entityId: item.id });
+      expect(entries.map(e => e.action)).toEqual(['create']);
+    });
+
+    it('should record in-process callers as system', async () => {
+      const item = await caller.items.create({ title: 'System item' });
+      itemIds.push(item.id);
+
+      const { entries } = await caller.audit.list({ entity: 'items', entityId: item.id });
+      expect(entries[0].actor).toEqual({ type: 'system', name: null });
+    });
+  });
+
+  describe('other entities', () => {
+    it('should resolve organizations by slug', async () => {
+      const org = await agent.organizations.create({ slug: orgSlug, name: 'Audit Org' });
+      await agent.organizations.update({ slug: orgSlug, data: { name: 'Audit Org Renamed' } });
+
+      const { entries } = await caller.audit.list({ entity: 'organizations', entityId: org.id });
+      expect(entries.map(e => e.action)).toEqual(['update', 'create']);
+      expect(entries[0].changes).toContainEqual({ field: 'name', before: 'Audit Org', after: 'Audit Org Renamed' });
+    });
+  });
+
+  describe('queries', () => {
+    it('should filter by actor and time range and summarise actors', async () => {
+      const since = new Date(Date.now() - 60_000).toISOString();
+
+      const { entries } = await caller.audit.list({ actorType: 'agent', actorName: 'nightly-triage', since });
+      expect(entries.length).toBeGreaterThan(0);
+
+      const future = new Date(Date.now() + 60_000).toISOString();
+      const { entries: none } = await caller.audit.list({ actorName: 'nightly-triage', since: future });
+      expect(none).toHaveLength(0);
+
+      const { actors } = await caller.audit.actors({ since });
+      expect(actors).toContainEqual(expect.objectContaining({ type: 'agent', name: 'nightly-triage' }));
+    });
+
+    it('should page with a cursor', async () => {
+      const first = await caller.audit.list({ actorName: 'nightly-triage', limit: 2 });
+      expect(first.entries).toHaveLength(2);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await caller.audit.list({ actorName: 'nightly-triage', limit: 2, cursor: first.nextCursor! });
+      expect(second.entries[0].id).toBeLessThan(first.entries[1].id);
+    });
+
+    it('should validate input', async () => {
+      await expect(caller.audit.list({ entityId: 1 })).rejects.toThrow(/requires entity/);
+      await expect(caller.audit.get({ id: 99999999 })).rejects.toThrow(/not found/);
+    });
+  });
+});
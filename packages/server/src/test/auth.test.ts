@@ -0,0 +1,172 @@
+/**
+ * Tests for authentication and API tokens
+ *
+ * HTTP requests get their auth state from createContext; these tests build
+ * contexts the same way from fake request headers.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { CreateExpressContextOptions } from '@trpc/server/adapters/express';
+import { createCaller, createContext } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { hashToken, extractBearerToken, verifyPassphrase } from '../services/auth.js';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+/** Caller for an HTTP request carrying the given bearer token (or none) */
+async function httpCaller(token?: string) {
+  const req = { headers: token ? { authorization: `Bearer ${token}` } : {} };
+  const ctx = await createContext({ req } as unknown as CreateExpressContextOptions);
+  return createCaller(ctx);
+}
+
+describe('Auth', () => {
+  const originalPassphrase = process.env.AUTH_PASSPHRASE;
+  const tokenIds: number[] = [];
+  let sessionToken: string;
+
+  beforeAll(async () => {
+    process.env.AUTH_PASSPHRASE = PASSPHRASE;
+
+    const login = await (await httpCaller()).auth.login({ passphrase: PASSPHRASE });
+    sessionToken = login.token;
+  });
+
+  afterAll(async () => {
+    if (originalPassphrase === undefined) {
+      delete process.env.AUTH_PASSPHRASE;
+    } else {
+      process.env.AUTH_PASSPHRASE = originalPassphrase;
+    }
+    await getPrisma().apiToken.deleteMany({
+      where: { OR: [{ id: { in: tokenIds } }, { tokenHash: hashToken(sessionToken) }] },
+    });
+  });
+
+  describe('helpers', () => {
+    it('should parse bearer headers', () => {
+      expect(extractBearerToken('Bearer kw_abc')).toBe('kw_abc');
+      expect(extractBearerToken('bearer kw_abc')).toBe('kw_abc');
+      expect(extractBearerToken('Basic abc')).toBeNull();
+      expect(extractBearerToken(undefined)).toBeNull();
+    });
+
+    it('should check the passphrase', () => {
+      expect(verifyPassphrase(PASSPHRASE)).toBe(true);
+      expect(verifyPassphrase('wrong')).toBe(false);
+    });
+  });
+
+  describe('login', () => {
+    it('should reject anonymous requests', async () => {
+      const anonymous = await httpCaller();
+      await expect(anonymous.items.list({})).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await expect(anonymous.auth.status()).resolves.toMatchObject({ required: true, authenticated: false });
+    });
+
+    it('should reject a wrong passphrase', async () => {
+      const anonymous = await httpCaller();
+      await expect(anonymous.auth.login({ passphrase: 'nope' })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+
+    it('should accept the session token and never store it in plain text', async () => {
+      const session = await httpCaller(sessionToken);
+      await expect(session.auth.status()).resolves.toMatchObject({
+        authenticated: true,
+        principal: { kind: 'session', scope: 'write' },
+      });
+      await expect(session.items.list({})).resolves.toBeDefined();
+
+      const stored = await getPrisma().apiToken.findUnique({ where: { tokenHash: hashToken(sessionToken) } });
+      expect(stored?.prefix).toBe(sessionToken.slice(0, 10));
+      expect(JSON.stringify(stored)).not.toContain(sessionToken);
+    });
+
+    it('should let in-process callers through without a token', async () => {
+      const internal = createCaller({ prisma: getPrisma() });
+      await expect(internal.items.list({})).resolves.toBeDefined();
+    });
+  });
+
+  describe('API tokens', () => {
+    it('should allow queries but not mutations with a read-only token', async () => {
+      const session = await httpCaller(sessionToken);
+      const created = await session.auth.createToken({ name: 'Read agent', scope: 'read' });
+      tokenIds.push(created.id);
+      expect(created.token).toMatch(/^kw_/);
+
+      const reader = await httpCaller(created.token);
+      await expect(reader.items.list({})).resolves.toBeDefined();
+      await expect(reader.items.create({ title: 'Should not exist' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should keep full exports from read-only tokens', async () => {
+      const session = await httpCaller(sessionToken);
+      const created = await session.auth.createToken({ name: 'Read exporter', scope: 'read' });
+      tokenIds.push(created.id);
+
+      const reader = await httpCaller(created.token);
+      await expect(reader.export.all()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(reader.export.snapshots()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(session.export.snapshots()).resolves.toHaveProperty('snapshots');
+    });
+
+    it('should hide webhook secrets from read-only tokens', async () => {
+      const session = await httpCaller(sessionToken);
+      const created = await session.auth.createToken({ name: 'Read webhooks', scope: 'read' });
+      tokenIds.push(created.id);
+      const webhook = await session.webhooks.create({ name: 'Auth test', url: 'http://127.0.0.1:9/hook', active: false });
+
+      try {
+        const reader = await httpCaller(created.token);
+        expect((await reader.webhooks.get({ id: webhook.id })).secret).toBeNull();
+        expect((await session.webhooks.get({ id: webhook.id })).secret).toBe(webhook.secret);
+      } finally {
+        await session.webhooks.delete({ id: webhook.id });
+      }
+    });
+
+    it('should allow mutations with a read-write token', async () => {
+      const session = await httpCaller(sessionToken);
+      const created = await session.auth.createToken({ name: 'tcli', scope: 'write' });
+      tokenIds.push(created.id);
+
+      const writer = await httpCaller(created.token);
+      const item = await writer.items.create({ title: 'Created with an API token' });
+      await writer.items.delete({ id: item.id });
+
+      // API tokens can't mint more tokens
+      await expect(writer.auth.createToken({ name: 'Escalation', scope: 'write' }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+      // ...or restore a database holding tokens of their choosing
+      await expect(writer.import.restore({ snapshot: 'kw-backup-missing.json', dryRun: true }))
+        .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should reject revoked and expired tokens', async () => {
+      const session = await httpCaller(sessionToken);
+      const revoked = await session.auth.createToken({ name: 'Revoked', scope: 'read' });
+      const expiring = await session.auth.createToken({ name: 'Expired', scope: 'read', expiresInDays: 1 });
+      tokenIds.push(revoked.id, expiring.id);
+
+      await session.auth.revokeToken({ id: revoked.id });
+      await getPrisma().apiToken.update({ where: { id: expiring.id }, data: { expiresAt: new Date(Date.now() - 1000) } });
+
+      await expect((await httpCaller(revoked.token)).items.list({})).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await expect((await httpCaller(expiring.token)).items.list({})).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+      const { tokens } = await session.auth.listTokens();
+      expect(tokens.map(t => t.id)).not.toContain(revoked.id);
+      expect(tokens.every(t => !('token' in t))).toBe(true);
+    });
+
+    it('should end the session on logout', async () => {
+      const { token } = await (await httpCaller()).auth.login({ passphrase: PASSPHRASE });
+      const session = await httpCaller(token);
+      await session.auth.logout();
+
+      await expect((await httpCaller(token)).items.list({})).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await getPrisma().apiToken.deleteMany({ where: { tokenHash: hashToken(token) } });
+    });
+  });
+});
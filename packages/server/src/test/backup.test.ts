@@ -0,0 +1,165 @@
+/**
+ * Tests for export.all, import.restore and backup snapshots
+ *
+ * Restore replaces every table, so it runs against a private copy of the test
+ * database (VACUUM INTO) rather than the one other test files share.
+ * Snapshots go to a temp BACKUP_DIR.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PrismaClient } from '../generated/prisma/index.js';
+import { PrismaBetterSqlite3 } from '@prisma/adapter-better-sqlite3';
+import { BackupArchiveSchema } from '@kw/api-types';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import {
+  currentSchemaVersion,
+  exportDatabase,
+  listSnapshots,
+  pruneSnapshots,
+  readSnapshot,
+  validateArchive,
+  writeSnapshot,
+} from '../services/backup.js';
+
+const prefix = `backup-test-${Date.now()}`;
+
+describe('Backup', () => {
+  let dir: string;
+  let prisma: PrismaClient;
+  let caller: ReturnType<typeof createCaller>;
+  let itemId: number;
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-backup-'));
+    process.env.BACKUP_DIR = path.join(dir, 'snapshots');
+
+    const copy = path.join(dir, 'items.db');
+    await getPrisma().$executeRawUnsafe(`VACUUM INTO '${copy}'`);
+    prisma = new PrismaClient({ adapter: new PrismaBetterSqlite3({ url: copy }) });
+    caller = createCaller({ prisma });
+
+    const tag = await prisma.tag.create({ data: { name: `${prefix}-tag` } });
+    const item = await prisma.item.create({
+      data: {
+        title: `${prefix} keep me`,
+        dueDate: new Date('2031-04-01T00:00:00.000Z'),
+        tags: { create: { tagId: tag.id } },
+        checkIns: { create: { date: new Date('2031-03-25T00:00:00.000Z'), note: 'Nudge' } },
+      },
+    });
+    itemId = item.id;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+    delete process.env.BACKUP_DIR;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should export every model with dates as ISO strings', async () => {
+    const archive = await caller.export.all();
+
+    expect(BackupArchiveSchema.parse(archive)).toBeTruthy();
+    expect(archive.schemaVersion).toBe(currentSchemaVersion());
+    expect(archive.schemaVersion).toMatch(/^\d{8}_/);
+    expect(Object.keys(archive.tables)).toEqual(expect.arrayContaining(['Item', 'CheckIn', 'ItemTag', 'AuditLog', 'DayCapacity']));
+
+    const item = archive.tables.Item.find(r => r.id === itemId);
+    expect(item).toMatchObject({ title: `${prefix} keep me`, dueDate: '2031-04-01T00:00:00.000Z' });
+    expect(archive.tables.CheckIn.find(r => r.itemId === itemId)?.note).toBe('Nudge');
+  });
+
+  it('should reject archives that don\'t fit this database', async () => {
+    const archive = await exportDatabase(prisma);
+
+    expect(validateArchive(archive)).toEqual([]);
+    expect(validateArchive({ ...archive, schemaVersion: '99991231_future' })[0]).toMatch(/newer than this database/);
+    expect(validateArchive({
+      ...archive,
+      tables: { Widget: [], Item: [{ id: 1, title: 'x', colour: 'red' }, { id: 'two', title: 'y' }] },
+    })).toEqual([
+      'Unknown table: Widget',
+      'Item row 1: unknown field colour',
+      'Item row 2: id should be Int',
+    ]);
+
+    // Values the app couldn't read back are caught before anything is deleted
+    expect(validateArchive({
+      ...archive,
+      tables: { Item: [{ id: 1, status: 'done', metadata: '{"calendarBlock":' }, { id: 2, status: 'pending', metadata: '[1]' }] },
+    })).toEqual([
+      'Item row 1: status should be one of pending, in_progress, complete, blocked, cancelled, deferred',
+      'Item row 1: metadata is not valid JSON',
+      'Item row 2: metadata does not match its schema',
+    ]);
+
+    await expect(caller.import.restore({ archive: { ...archive, tables: { Widget: [] } } }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should replace the database with an archive', async () => {
+    const archive = await exportDatabase(prisma);
+
+    // Changes after the export are undone by the restore
+    await prisma.item.update({ where: { id: itemId }, data: { title: `${prefix} renamed` } });
+    const extra = await prisma.item.create({ data: { title: `${prefix} added later` } });
+
+    const dryRun = await caller.import.restore({ archive, dryRun: true });
+    expect(dryRun).toMatchObject({ dryRun: true, safetySnapshot: null });
+    expect(await prisma.item.findUnique({ where: { id: extra.id } })).not.toBeNull();
+
+    const result = await caller.import.restore({ archive });
+    expect(result.tables.find(t => t.name === 'Item')?.rows).toBe(archive.tables.Item.length);
+    expect(result.safetySnapshot).toMatch(/^kw-backup-.*-pre-restore\.json$/);
+
+    expect(await prisma.item.findUnique({ where: { id: extra.id } })).toBeNull();
+    const item = await prisma.item.findUniqueOrThrow({ where: { id: itemId }, include: { tags: true, checkIns: true } });
+    expect(item.title).toBe(`${prefix} keep me`);
+    expect(item.dueDate?.toISOString()).toBe('2031-04-01T00:00:00.000Z');
+    expect(item.tags).toHaveLength(1);
+    expect(item.checkIns[0].note).toBe('Nudge');
+
+    // The search index follows the restored data
+    const search = await caller.search.query({ query: `${prefix} keep` });
+    expect(search.results.some(r => r.itemId === itemId)).toBe(true);
+
+    // The data from before the restore can be brought back
+    const undo = BackupArchiveSchema.parse(readSnapshot(result.safetySnapshot!));
+    expect(undo.tables.Item.some(r => r.id === extra.id)).toBe(true);
+  });
+
+  it('should leave the database alone when a row can\'t be restored', async () => {
+    const archive = await exportDatabase(prisma);
+    // Tags load after items, so the items are already replaced when this fails
+    const tag = archive.tables.Tag.find(r => r.name === `${prefix}-tag`)!;
+    archive.tables.Tag = [...archive.tables.Tag, { ...tag, name: `${prefix}-copy` }];
+    await prisma.item.update({ where: { id: itemId }, data: { title: `${prefix} current` } });
+
+    await expect(caller.import.restore({ archive })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: expect.stringMatching(/^Restore failed, nothing was changed/),
+    });
+    expect((await prisma.item.findUniqueOrThrow({ where: { id: itemId } })).title).toBe(`${prefix} current`);
+  });
+
+  it('should write, list, prune and restore snapshots', async () => {
+    const first = await writeSnapshot(prisma);
+    const { snapshot: second } = await caller.export.snapshot();
+
+    const names = (await caller.export.snapshots()).snapshots.map(s => s.name);
+    expect(names[0]).toBe(second.name);
+    expect(names).toContain(first.name);
+
+    const pruned = pruneSnapshots(1);
+    expect(pruned).toContain(first.name);
+    expect(listSnapshots().map(s => s.name)).toEqual([second.name]);
+
+    await expect(caller.import.restore({ snapshot: second.name, dryRun: true })).resolves.toMatchObject({ dryRun: true });
+    await expect(caller.import.restore({ snapshot: '../items.db' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(caller.import.restore({ snapshot: first.name })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for Calendar write-back: calendar.createEvent/updateEvent/deleteEvent
+ * and task focus blocks (items.scheduleBlock and the sync that follows)
+ *
+ * The google-client module is mocked, as in trpc-gmail.test.ts; items are
+ * real rows in the test database. items.complete writes the diary, so the
+ * knowledge base points at an empty temp directory.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+
+vi.mock('../services/google-client.js', () => ({
+  getCalendarClient: vi.fn(),
+  getConfiguredCalendarIds: vi.fn(() => ['work@example.com']),
+  isGmailConfigured: vi.fn(),
+  hasCredentials: vi.fn(),
+  hasTokens: vi.fn(),
+  getAuthenticatedEmail: vi.fn(),
+}));
+
+import { getCalendarClient } from '../services/google-client.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
+
+const prefix = `calblock-test-${Date.now()}`;
+
+const events = {
+  insert: vi.fn(),
+  patch: vi.fn(),
+  delete: vi.fn(),
+};
+
+describe('Calendar write-back', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
+
+  beforeAll(() => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-calblock-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getCalendarClient).mockResolvedValue({ events } as any);
+    events.insert.mockImplementation(async ({ requestBody }) => ({ data: { id: 'evt-1', ...requestBody } }));
+    events.patch.mockImplementation(async ({ eventId, requestBody }) => ({ data: { id: eventId, ...requestBody } }));
+    events.delete.mockResolvedValue({ data: {} });
+  });
+
+  afterAll(async () => {
+    await prisma.item.deleteMany({ where: { title: { startsWith: prefix } } });
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+  });
+
+  const createTask = async (title: string, data: { dueDate?: string; estimateMinutes?: number } = {}) =>
+    caller.items.create({ title: `${prefix} ${title}`, ...data });
+
+  const storedBlock = async (id: number) => {
+    const item = await prisma.item.findUnique({ where: { id } });
+    return item?.metadata ? JSON.parse(item.metadata).calendarBlock ?? null : null;
+  };
+
+  describe('calendar events', () => {
+    it('should create, update and delete events', async () => {
+      const created = await caller.calendar.createEvent({
+        summary: 'Review',
+        start: '2031-05-05T10:00:00Z',
+        end: '2031-05-05T11:00:00Z',
+      });
+      expect(created).toMatchObject({ id: 'evt-1', summary: 'Review', start: '2031-05-05T10:00:00.000Z' });
+      expect(events.insert).toHaveBeenCalledWith(expect.objectContaining({ calendarId: 'primary' }));
+
+      const updated = await caller.calendar.updateEvent({ id: 'evt-1', data: { location: 'Room 2' } });
+      expect(events.patch.mock.calls[0][0].requestBody).toEqual({ location: 'Room 2' });
+      expect(updated.location).toBe('Room 2');
+
+      await expect(caller.calendar.deleteEvent({ id: 'evt-1' })).resolves.toEqual({ deleted: true, id: 'evt-1' });
+    });
+
+    it('should map write errors', async () => {
+      await expect(caller.calendar.createEvent({
+        summary: 'Backwards', start: '2031-05-05T11:00:00Z', end: '2031-05-05T10:00:00Z',
+      })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+      events.delete.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { code: 404 }));
+      await expect(caller.calendar.deleteEvent({ id: 'gone' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+      events.insert.mockRejectedValueOnce(Object.assign(new Error('Insufficient Permission'), { code: 403 }));
+      await expect(caller.calendar.createEvent({
+        summary: 'No scope', start: '2031-05-05T10:00:00Z', end: '2031-05-05T11:00:00Z',
+      })).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' });
+
+      vi.mocked(getCalendarClient).mockResolvedValueOnce(null);
+      await expect(caller.calendar.deleteEvent({ id: 'evt-1' })).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' });
+    });
+  });
+
+  describe('items.scheduleBlock', () => {
+    it('should book a block for the estimate and store it on the item', async () => {
+      const task = await createTask('estimated', { estimateMinutes: 90 });
+
+      const result = await caller.items.scheduleBlock({ id: task.id, start: '2031-05-06T09:00:00Z' });
+      expect(result).toMatchObject({ rescheduled: false, block: { eventId: 'evt-1', calendarId: 'work@example.com' } });
+
+      const body = events.insert.mock.calls[0][0].requestBody;
+      expect(body).toMatchObject({
+        summary: `Focus: ${prefix} estimated`,
+        end: { dateTime: '2031-05-06T10:30:00.000Z' },
+        extendedProperties: { private: { kwItemId: String(task.id) } },
+      });
+      expect(await storedBlock(task.id)).toEqual({
+        eventId: 'evt-1',
+        calendarId: 'work@example.com',
+        start: '2031-05-06T09:00:00.000Z',
+        end: '2031-05-06T10:30:00.000Z',
+      });
+      expect((await caller.items.get({ id: task.id })).calendarBlock?.eventId).toBe('evt-1');
+
+      // A second call moves the same event
+      const again = await caller.items.scheduleBlock({ id: task.id, start: '2031-05-07T14:00:00Z', minutes: 30 });
+      expect(again.rescheduled).toBe(true);
+      expect(events.patch).toHaveBeenCalledWith(expect.objectContaining({ eventId: 'evt-1' }));
+      expect(events.insert).toHaveBeenCalledTimes(1);
+      expect((await storedBlock(task.id)).end).toBe('2031-05-07T14:30:00.000Z');
+    });
+
+    it('should require a connected calendar and an open item', async () => {
+      const task = await createTask('refused');
+
+      vi.mocked(getCalendarClient).mockResolvedValueOnce(null);
+      await expect(caller.items.scheduleBlock({ id: task.id, start: '2031-05-06T09:00:00Z' }))
+        .rejects.toMatchObject({ code: 'PRECONDITION_FAILED' });
+
+      await caller.items.update({ id: task.id, data: { status: 'cancelled' } });
+      await expect(caller.items.scheduleBlock({ id: task.id, start: '2031-05-06T09:00:00Z' }))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+      await expect(caller.items.unscheduleBlock({ id: task.id })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should move the block when the task is rescheduled or renamed', async () => {
+      const task = await createTask('moving', { dueDate: '2031-05-06' });
+      await caller.items.scheduleBlock({ id: task.id, start: '2031-05-06T09:00:00Z' });
+      events.patch.mockClear();
+
+      await caller.items.update({ id: task.id, data: { dueDate: '2031-05-09', title: `${prefix} moved` } });
+
+      const block = await storedBlock(task.id);
+      expect(new Date(block.start).getTime() - new Date('2031-05-06T09:00:00Z').getTime()).toBe(3 * 86_400_000);
+      expect(events.patch.mock.calls[0][0].requestBody).toMatchObject({
+        summary: `Focus: ${prefix} moved`,
+        start: { dateTime: block.start },
+      });
+    });
+
+    it('should delete an upcoming block when the task is completed', async () => {
+      const task = await createTask('finished');
+      await caller.items.scheduleBlock({ id: task.id, start: '2031-05-06T09:00:00Z' });
+
+      await caller.items.complete({ id: task.id });
+
+      expect(events.delete).toHaveBeenCalledWith({ calendarId: 'work@example.com', eventId: 'evt-1' });
+      expect(await storedBlock(task.id)).toBeNull();
+    });
+
+    it('should delete an upcoming block when the task is deleted', async () => {
+      const single = await createTask('deleted');
+      const bulk = await createTask('bulk deleted');
+      await caller.items.scheduleBlock({ id: single.id, start: '2031-05-06T09:00:00Z' });
+      await caller.items.scheduleBlock({ id: bulk.id, start: '2031-05-07T09:00:00Z' });
+
+      await caller.items.delete({ id: single.id });
+      await caller.items.bulkDelete({ ids: [bulk.id] });
+
+      expect(events.delete).toHaveBeenCalledTimes(2);
+      expect(await storedBlock(single.id)).toBeNull();
+      expect(await storedBlock(bulk.id)).toBeNull();
+    });
+
+    it('should forget a block deleted on the calendar side', async () => {
+      const task = await createTask('orphaned', { dueDate: '2031-05-06' });
+      await caller.items.scheduleBlock({ id: task.id, start: '2031-05-06T09:00:00Z' });
+
+      events.patch.mockRejectedValueOnce(Object.assign(new Error('Gone'), { code: 410 }));
+      await caller.items.bulkUpdate({ ids: [task.id], data: { dueDate: '2031-05-08' } });
+
+      expect(await storedBlock(task.id)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for the dependency graph: cycle checks on "blocks" links,
+ * items.dependencyGraph and the critical-path analysis behind it
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { buildDependencyGraph } from '../services/dependency-graph.js';
+
+const prefix = `graph-test-${Date.now()}`;
+
+describe('Dependency graph', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  let projectId: number;
+  const ids: Record<string, number> = {};
+
+  beforeAll(async () => {
+    const org = await prisma.organization.findFirstOrThrow();
+    projectId = (await prisma.project.create({ data: { slug: prefix, name: 'Graph Project', orgId: org.id } })).id;
+
+    const item = async (key: string, data: { dueDate?: string; status?: string; external?: boolean } = {}) => {
+      ids[key] = (await prisma.item.create({
+        data: {
+          title: `${prefix} ${key}`,
+          status: data.status ?? 'pending',
+          dueDate: data.dueDate ? new Date(`${data.dueDate}T00:00:00.000Z`) : null,
+          projectId: data.external ? null : projectId,
+        },
+      })).id;
+    };
+    await item('A');
+    await item('B');
+    await item('C');
+    await item('D', { dueDate: '2026-11-06' });
+    await item('E', { external: true });
+    await item('F', { status: 'complete' });
+    await item('Unlinked');
+
+    // E → A → B → D, F → C → D (E is outside the project, F is done)
+    for (const [from, to] of [['E', 'A'], ['A', 'B'], ['B', 'D'], ['F', 'C'], ['C', 'D']]) {
+      await prisma.itemLink.create({ data: { fromId: ids[from], toId: ids[to], linkType: 'blocks' } });
+    }
+  });
+
+  afterAll(async () => {
+    await prisma.item.deleteMany({ where: { title: { startsWith: prefix } } });
+    await prisma.project.deleteMany({ where: { id: projectId } });
+  });
+
+  it('should compute slack and the critical path from due dates', async () => {
+    const graph = await buildDependencyGraph(prisma, { projectId, today: '2026-11-02' });
+    const node = (key: string) => graph.nodes.find(n => n.id === ids[key])!;
+
+    expect(graph.deadline).toBe('2026-11-06');
+    expect(graph.nodes).toHaveLength(6);
+    expect(graph.edges).toHaveLength(5);
+    expect(graph.cycles).toEqual([]);
+    expect(graph.criticalPath).toEqual([ids.E, ids.A, ids.B, ids.D]);
+
+    expect(node('E')).toMatchObject({ external: true, earliestFinish: '2026-11-02', slackDays: 1, critical: true });
+    expect(node('B')).toMatchObject({ earliestFinish: '2026-11-04', latestFinish: '2026-11-05', slackDays: 1 });
+    expect(node('C')).toMatchObject({ earliestFinish: '2026-11-02', slackDays: 3, critical: false });
+    expect(node('D')).toMatchObject({ earliestFinish: '2026-11-05', latestFinish: '2026-11-06', critical: true });
+    expect(node('F')).toMatchObject({ done: true, earliestFinish: null, slackDays: null });
+  });
+
+  it('should report negative slack against an earlier deadline', async () => {
+    const graph = await caller.items.dependencyGraph({ projectId, deadline: '2020-01-01' });
+    const d = graph.nodes.find(n => n.id === ids.D)!;
+    expect(d.latestFinish).toBe('2020-01-01');
+    expect(d.slackDays).toBeLessThan(0);
+
+    await expect(caller.items.dependencyGraph({ projectId: 999999 })).rejects.toThrow(/not found/);
+  });
+
+  it('should refuse blocks links that close a cycle', async () => {
+    const message = `Would create a cycle: T-${ids.A} → T-${ids.B} → T-${ids.D} → T-${ids.A}`;
+    await expect(caller.items.addBlocker({ itemId: ids.A, blockerId: ids.D })).rejects.toThrow(message);
+    await expect(caller.items.addLink({ fromId: ids.D, toId: ids.A, linkType: 'blocks' })).rejects.toThrow(message);
+
+    // Other link types can point either way
+    await caller.items.addLink({ fromId: ids.D, toId: ids.A, linkType: 'related' });
+  });
+
+  it('should report cycles that already exist', async () => {
+    await prisma.itemLink.create({ data: { fromId: ids.D, toId: ids.B, linkType: 'blocks' } });
+
+    const graph = await buildDependencyGraph(prisma, { projectId, today: '2026-11-02' });
+    expect(graph.cycles).toEqual([[ids.B, ids.D]]);
+    expect(graph.nodes.filter(n => n.inCycle).map(n => n.id)).toEqual([ids.B, ids.D]);
+    expect(graph.nodes.find(n => n.id === ids.D)!.earliestFinish).toBeNull();
+  });
+});
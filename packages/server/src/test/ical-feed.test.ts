@@ -0,0 +1,133 @@
+/**
+ * Tests for the iCalendar feed served at /ical/<token>.ics
+ *
+ * Items are due in 2031 and belong to a throwaway owner and organization, so
+ * the owner and org filters keep other test data out of the feed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getPrisma } from '../prisma.js';
+import { buildICalFeed, escapeText, foldLine, upcomingOccurrences } from '../services/ical-feed.js';
+
+const prefix = `ical-test-${Date.now()}`;
+const TODAY = new Date('2031-06-02T12:00:00'); // A Monday
+
+/** Unfold content lines and split into components */
+function parse(feed: string): string[][] {
+  const lines = feed.replace(/\r\n /g, '').split('\r\n');
+  const components: string[][] = [];
+  let current: string[] | null = null;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT' || line === 'BEGIN:VTODO') current = [line];
+    else if (current) {
+      current.push(line);
+      if (line.startsWith('END:')) {
+        components.push(current);
+        current = null;
+      }
+    }
+  }
+  return components;
+}
+
+describe('iCalendar feed', () => {
+  const prisma = getPrisma();
+  let ownerId: number;
+  let otherOwnerId: number;
+  let orgId: number;
+  const ids: Record<string, number> = {};
+
+  beforeAll(async () => {
+    ownerId = (await prisma.person.create({ data: { name: `${prefix} Owner` } })).id;
+    otherOwnerId = (await prisma.person.create({ data: { name: `${prefix} Other` } })).id;
+    const org = await prisma.organization.create({ data: { slug: `${prefix}-org`, name: 'iCal Org' } });
+    orgId = org.id;
+    const project = await prisma.project.create({
+      data: { slug: `${prefix}-project`, name: 'Feed Project', orgId: org.id },
+    });
+
+    const item = async (key: string, data: Record<string, unknown>) => {
+      ids[key] = (await prisma.item.create({
+        data: { title: `${prefix} ${key}`, ownerId, ...data },
+      })).id;
+    };
+    await item('due', { dueDate: new Date('2031-06-05T00:00:00.000Z'), priority: 2, projectId: project.id });
+    await item('done', { dueDate: new Date('2031-06-05T00:00:00.000Z'), status: 'complete' });
+    await item('undated', {});
+    await item('theirs', { dueDate: new Date('2031-06-05T00:00:00.000Z'), ownerId: otherOwnerId });
+    await item('standup', { itemType: 'routine', recurrenceRule: 'weekly', recurrenceDays: '["mon","wed"]', recurrenceTime: '9:30' });
+    await item('review', { itemType: 'routine', recurrenceRule: 'daily' });
+
+    await prisma.checkIn.create({ data: { itemId: ids.undated, date: new Date('2031-06-03T00:00:00.000Z'), note: 'Chase, again' } });
+    await prisma.routineSkip.create({ data: { routineId: ids.standup, skipDate: new Date('2031-06-02T00:00:00.000Z') } });
+  });
+
+  afterAll(async () => {
+    await prisma.item.deleteMany({ where: { title: { startsWith: prefix } } });
+    await prisma.project.deleteMany({ where: { slug: `${prefix}-project` } });
+    await prisma.organization.deleteMany({ where: { id: orgId } });
+    await prisma.person.deleteMany({ where: { id: { in: [ownerId, otherOwnerId] } } });
+  });
+
+  it('should escape text and fold long lines', () => {
+    expect(escapeText('a, b; c\\d\nnext')).toBe('a\\, b\\; c\\\\d\\nnext');
+
+    const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`);
+    const parts = folded.split('\r\n');
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every(p => Buffer.byteLength(p) <= 75)).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+  });
+
+  it('should list due items, check-ins and upcoming routine occurrences', async () => {
+    const feed = await buildICalFeed(prisma, { ownerId, routineOccurrences: 3, today: TODAY });
+    expect(feed.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+
+    const components = parse(feed);
+    const uids = components.map(c => c.find(l => l.startsWith('UID:')));
+    expect(uids).toContain(`UID:item-${ids.due}@knowledgework`);
+    expect(uids).not.toContain(`UID:item-${ids.done}@knowledgework`);
+    expect(uids).not.toContain(`UID:item-${ids.theirs}@knowledgework`);
+
+    const due = components.find(c => c.includes(`UID:item-${ids.due}@knowledgework`))!;
+    expect(due).toEqual(expect.arrayContaining([
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20310605',
+      'DTEND;VALUE=DATE:20310606',
+      'PRIORITY:3',
+    ]));
+    expect(due.find(l => l.startsWith('DESCRIPTION:'))).toContain('Project: Feed Project');
+
+    const checkin = components.find(c => c.some(l => l.startsWith('UID:checkin-')))!;
+    expect(checkin).toEqual(expect.arrayContaining(['DTSTART;VALUE=DATE:20310603', 'DESCRIPTION:Chase\\, again']));
+
+    // Standup: Monday the 2nd was skipped, so Wednesday, Monday, Wednesday
+    const standups = components
+      .filter(c => c.some(l => l.startsWith(`UID:routine-${ids.standup}-`)))
+      .map(c => c.find(l => l.startsWith('DTSTART'))!);
+    expect(standups).toEqual(['DTSTART:20310604T093000', 'DTSTART:20310609T093000', 'DTSTART:20310611T093000']);
+
+    const reviews = components.filter(c => c.some(l => l.startsWith(`UID:routine-${ids.review}-`)));
+    expect(reviews).toHaveLength(3);
+    expect(reviews[0]).toContain('DTSTART;VALUE=DATE:20310602');
+  });
+
+  it('should filter by organization and emit items as VTODOs', async () => {
+    const feed = await buildICalFeed(prisma, { orgSlug: `${prefix}-org`, routineOccurrences: 0, todos: true, today: TODAY });
+    const components = parse(feed);
+
+    expect(components).toHaveLength(1);
+    expect(components[0]).toEqual(expect.arrayContaining([
+      'BEGIN:VTODO',
+      `UID:item-${ids.due}@knowledgework`,
+      'DUE;VALUE=DATE:20310605',
+      'STATUS:NEEDS-ACTION',
+    ]));
+  });
+
+  it('should stop when a routine has no more occurrences', () => {
+    const routine = { recurrenceRule: 'custom', recurrenceDays: '["2031-06-03"]', recurrenceMonths: null, recurrenceTime: null };
+    expect(upcomingOccurrences(routine, TODAY, 5)).toEqual(['2031-06-03']);
+  });
+});
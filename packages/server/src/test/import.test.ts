@@ -0,0 +1,205 @@
+/**
+ * Tests for import.preview / import.commit and the file parsers behind them
+ *
+ * Everything the imports create is named with a per-run prefix and lives in
+ * a throwaway organization, so dedupe only ever sees this file's data.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { parseCsv, parseImport } from '../services/import.js';
+import { formatTaskId } from '../types/index.js';
+
+const prefix = `import-test-${Date.now()}`;
+
+describe('Import', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  let orgId: number;
+  let inboxId: number;
+
+  beforeAll(async () => {
+    const org = await prisma.organization.create({ data: { slug: `${prefix}-org`, name: 'Import Org' } });
+    orgId = org.id;
+    inboxId = (await prisma.project.create({
+      data: { slug: `${prefix}-inbox`, name: `${prefix} Inbox`, orgId },
+    })).id;
+  });
+
+  afterAll(async () => {
+    const items = await prisma.item.findMany({ where: { title: { startsWith: prefix } }, select: { id: true } });
+    const ids = items.map(i => i.id);
+    await prisma.itemTag.deleteMany({ where: { itemId: { in: ids } } });
+    await prisma.activity.deleteMany({ where: { itemId: { in: ids } } });
+    await prisma.item.updateMany({ where: { id: { in: ids } }, data: { parentId: null } });
+    await prisma.item.deleteMany({ where: { id: { in: ids } } });
+    await prisma.tag.deleteMany({ where: { name: { startsWith: prefix } } });
+    await prisma.person.deleteMany({ where: { name: { startsWith: prefix } } });
+    await prisma.project.deleteMany({ where: { orgId } });
+    await prisma.organization.deleteMany({ where: { id: orgId } });
+  });
+
+  describe('parsers', () => {
+    it('should split quoted CSV fields', () => {
+      const rows = parseCsv('\uFEFFa,b,c\r\n"x, y","say ""hi""","two\nlines"\n\nlast,,');
+      expect(rows).toEqual([
+        ['a', 'b', 'c'],
+        ['x, y', 'say "hi"', 'two\nlines'],
+        [''],
+        ['last', '', ''],
+      ]);
+    });
+
+    it('should read a Todoist CSV with subtasks, notes and labels', () => {
+      const csv = [
+        'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+        'task,Plan launch @work,,1,1,Sam (1),Sam (1),2031-03-01,en,Europe/London',
+        'note,Check with marketing,,,,,,,,',
+        'task,Book venue,,4,2,,,every monday,en,',
+        '',
+        'section,Later,,,,,,,,',
+        'task,Retro,,2,1,,,,,',
+      ].join('\n');
+
+      const { sourceType, rows, warnings } = parseImport('todoist-csv', csv, { fileName: 'exports/Launch.csv' });
+      expect(sourceType).toBe('todoist');
+      expect(rows.map(r => [r.title, r.priority, r.parentRef, r.project])).toEqual([
+        ['Plan launch', 1, null, 'Launch'],
+        ['Book venue', null, 'line2', 'Launch'],
+        ['Retro', 2, null, 'Launch'],
+      ]);
+      expect(rows[0]).toMatchObject({
+        tags: ['work'],
+        owner: 'Sam',
+        dueDate: '2031-03-01',
+        description: 'Check with marketing',
+        sourcePath: 'exports/Launch.csv',
+        sourceLine: 2,
+      });
+      expect(warnings).toEqual(['Line 4: date "every monday" isn\'t a fixed date, left without a due date']);
+    });
+
+    it('should reject files in the wrong shape', () => {
+      expect(() => parseImport('todoist-json', '{nope')).toThrow(/Invalid JSON/);
+      expect(() => parseImport('todoist-csv', 'Name,Due\nx,y')).toThrow(/TYPE and CONTENT/);
+      expect(() => parseImport('csv', 'Name,Due\nx,y', { mapping: { title: 'Task' } })).toThrow(/"Task"/);
+    });
+  });
+
+  describe('Todoist JSON', () => {
+    const backup = () => JSON.stringify({
+      projects: [
+        { id: '1', name: 'Inbox', inbox_project: true },
+        { id: '2', name: `${prefix} Garden` },
+      ],
+      collaborators: [{ id: '9', full_name: `${prefix} Alex` }],
+      items: [
+        { id: '101', content: `${prefix} Plant bulbs`, project_id: '2', priority: 4, labels: [`${prefix}-outside`], responsible_uid: '9', due: { date: '2031-10-01' } },
+        { id: '102', content: `${prefix} Buy compost`, project_id: '2', parent_id: '101', priority: 1, duration: { amount: 30, unit: 'minute' } },
+        { id: '103', content: `${prefix} Call plumber`, project_id: '1', checked: true, completed_at: '2031-01-02T10:00:00Z' },
+        { id: '104', content: `${prefix} plant BULBS`, project_id: '2' },
+      ],
+    });
+
+    it('should preview without writing anything', async () => {
+      const preview = await caller.import.preview({ format: 'todoist-json', content: backup(), orgSlug: `${prefix}-org`, projectId: inboxId });
+
+      expect(preview.toCreate).toEqual({
+        items: 3,
+        projects: [`${prefix} Garden`],
+        people: [`${prefix} Alex`],
+        tags: [`${prefix}-outside`],
+      });
+      expect(preview.duplicates).toBe(1);
+      expect(preview.rows.map(r => [r.title, r.project, r.parent, r.action])).toEqual([
+        [`${prefix} Plant bulbs`, `${prefix} Garden`, null, 'create'],
+        [`${prefix} Buy compost`, `${prefix} Garden`, `${prefix} Plant bulbs`, 'create'],
+        [`${prefix} Call plumber`, `${prefix} Inbox`, null, 'create'],
+        [`${prefix} plant BULBS`, `${prefix} Garden`, null, 'duplicate'],
+      ]);
+      expect(preview.rows[0]).toMatchObject({ priority: 1, dueDate: '2031-10-01', owner: `${prefix} Alex` });
+      expect(preview.rows[3].duplicateOf).toBe('row 1');
+
+      expect(await prisma.item.count({ where: { title: { startsWith: prefix } } })).toBe(0);
+      expect(await prisma.project.count({ where: { orgId, name: `${prefix} Garden` } })).toBe(0);
+    });
+
+    it('should create items with their source and skip them on a second run', async () => {
+      const result = await caller.import.commit({ format: 'todoist-json', content: backup(), orgSlug: `${prefix}-org`, projectId: inboxId });
+      expect(result.ids).toHaveLength(3);
+      expect(result.displayIds[0]).toMatch(/^T-\d+$/);
+
+      const [bulbs, compost, plumber] = await Promise.all(result.ids.map(id => prisma.item.findUniqueOrThrow({
+        where: { id },
+        include: { project: true, owner: true, tags: { include: { tag: true } } },
+      })));
+      expect(bulbs).toMatchObject({ sourceType: 'todoist', sourcePath: 'todoist:101', priority: 1 });
+      expect(bulbs.project).toMatchObject({ name: `${prefix} Garden`, slug: `${prefix}-garden`, orgId });
+      expect(bulbs.owner?.name).toBe(`${prefix} Alex`);
+      expect(bulbs.tags.map(t => t.tag.name)).toEqual([`${prefix}-outside`]);
+      expect(compost).toMatchObject({ parentId: bulbs.id, estimateMinutes: 30, priority: null });
+      expect(plumber).toMatchObject({ status: 'complete', projectId: inboxId });
+      expect(plumber.completedAt?.toISOString()).toBe('2031-01-02T10:00:00.000Z');
+
+      const audit = await caller.audit.list({ procedure: 'import.commit', limit: 20 });
+      expect(audit.entries.map(e => `${e.entity}:${e.entityId}`)).toEqual(
+        expect.arrayContaining([`items:${bulbs.id}`, `projects:${bulbs.projectId}`]),
+      );
+
+      const again = await caller.import.preview({ format: 'todoist-json', content: backup(), orgSlug: `${prefix}-org`, projectId: inboxId });
+      expect(again.toCreate).toEqual({ items: 0, projects: [], people: [], tags: [] });
+      expect(again.rows[1].duplicateOf).toBe(formatTaskId(compost.id));
+    });
+  });
+
+  describe('generic CSV', () => {
+    it('should map columns and attach subtasks by parent title', async () => {
+      const csv = [
+        'Task,When,Importance,State,Labels,Parent',
+        `${prefix} Write report,03/15/2031,p2,Done,${prefix}-a; ${prefix}-b,`,
+        `${prefix} Draft outline,,,,,${prefix} Write report`,
+        `${prefix} Review,someday,urgent,stuck,,`,
+      ].join('\n');
+
+      const result = await caller.import.commit({
+        format: 'csv',
+        content: csv,
+        fileName: 'tasks.csv',
+        projectId: inboxId,
+        mapping: { title: 'Task', dueDate: 'When', priority: 'Importance', status: 'State', tags: 'Labels' },
+      });
+
+      expect(result.warnings).toEqual([
+        'Line 4: couldn\'t read date "someday", left without a due date',
+        'Line 4: unknown priority "urgent", ignored',
+        'Line 4: unknown status "stuck", imported as pending',
+      ]);
+      const [report, outline] = await Promise.all(result.ids.slice(0, 2).map(id => prisma.item.findUniqueOrThrow({ where: { id } })));
+      expect(report).toMatchObject({ sourceType: 'import', sourcePath: 'tasks.csv', sourceLine: 2, status: 'complete', priority: 2, projectId: inboxId });
+      expect(report.dueDate?.toISOString().slice(0, 10)).toBe('2031-03-15');
+      expect(outline.parentId).toBe(report.id);
+    });
+
+    it('should leave out unknown names when not creating them', async () => {
+      const preview = await caller.import.preview({
+        format: 'csv',
+        content: `title,project,owner\n${prefix} Orphan,${prefix} Nowhere,${prefix} Nobody`,
+        createMissing: false,
+      });
+
+      expect(preview.rows[0]).toMatchObject({ project: null, owner: null, action: 'create' });
+      expect(preview.warnings).toEqual([
+        `Project "${prefix} Nowhere" not found: pick an organization to create it in`,
+        `People not found, left unassigned: ${prefix} Nobody`,
+      ]);
+    });
+
+    it('should refuse an unknown organization', async () => {
+      await expect(caller.import.preview({ format: 'csv', content: 'title\nx', orgSlug: `${prefix}-missing` }))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' });
+      await expect(caller.import.preview({ format: 'csv', content: 'name;due\nx;y', mapping: { title: 'Title' } }))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+});
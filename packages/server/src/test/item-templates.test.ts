@@ -0,0 +1,139 @@
+/**
+ * Tests for item templates: the itemTemplates router and
+ * items.instantiateTemplate
+ *
+ * Templates name a throwaway person and tag so this file's data can be
+ * cleaned up by name.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { CreateExpressContextOptions } from '@trpc/server/adapters/express';
+import { createCaller, createContext } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { offsetDate } from '../services/item-templates.js';
+
+const prefix = `tpl-test-${Date.now()}`;
+
+describe('Item templates', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const personName = `${prefix} Reviewer`;
+  const tagName = `${prefix}-tag`;
+  const templateName = `${prefix} onboarding`;
+  let projectId: number;
+  let templateId: number;
+  const itemIds: number[] = [];
+
+  beforeAll(async () => {
+    await prisma.person.create({ data: { name: personName } });
+    await prisma.tag.create({ data: { name: tagName } });
+    const org = await prisma.organization.findFirstOrThrow();
+    projectId = (await prisma.project.create({ data: { slug: prefix, name: 'Template Project', orgId: org.id } })).id;
+  });
+
+  afterAll(async () => {
+    await prisma.item.deleteMany({ where: { id: { in: itemIds } } });
+    await prisma.itemTemplate.deleteMany({ where: { name: { startsWith: prefix } } });
+    await prisma.project.deleteMany({ where: { id: projectId } });
+    await prisma.tag.deleteMany({ where: { name: tagName } });
+    await prisma.person.deleteMany({ where: { name: personName } });
+    await prisma.auditLog.deleteMany({ where: { actorName: { startsWith: prefix } } });
+  });
+
+  it('should compute dates from the anchor', () => {
+    expect(offsetDate('2026-10-30', 3).toISOString()).toBe('2026-11-02T00:00:00.000Z');
+    expect(offsetDate('2026-10-01', -1).toISOString()).toBe('2026-09-30T00:00:00.000Z');
+  });
+
+  it('should create, update and list templates', async () => {
+    const template = await caller.itemTemplates.create({
+      name: templateName,
+      description: 'New client checklist',
+      root: {
+        title: 'Onboard client',
+        dueOffset: 10,
+        tags: [tagName],
+        checkins: [{ offset: 5, note: 'Halfway check' }],
+        subtasks: [
+          { title: 'Send welcome pack', dueOffset: 1, priority: 2 },
+          {
+            title: 'Set up access',
+            dueOffset: 3,
+            people: [{ name: personName, role: 'reviewer' }],
+            subtasks: [{ title: 'Create accounts', dueOffset: 2 }],
+          },
+        ],
+      },
+    });
+    templateId = template.id;
+    expect(template.itemCount).toBe(4);
+
+    await expect(caller.itemTemplates.create({ name: templateName, root: { title: 'Dup' } }))
+      .rejects.toThrow(/already exists/);
+    await expect(caller.itemTemplates.create({ name: `${prefix} bad`, root: { title: 'Bad', owner: 'Nobody At All', tags: ['no-such-tag'] } }))
+      .rejects.toThrow(/People not found: Nobody At All; Tags not found: no-such-tag/);
+
+    const updated = await caller.itemTemplates.update({ id: templateId, data: { description: 'Client checklist' } });
+    expect(updated.description).toBe('Client checklist');
+    expect(updated.root.subtasks).toHaveLength(2);
+
+    const { templates } = await caller.itemTemplates.list();
+    expect(templates.map(t => t.name)).toContain(templateName);
+    expect((await caller.itemTemplates.get({ name: templateName })).id).toBe(templateId);
+  });
+
+  it('should instantiate the whole tree with dates from the anchor', async () => {
+    const result = await caller.items.instantiateTemplate({
+      templateName,
+      projectId,
+      anchorDate: '2026-11-02',
+      title: 'Onboard Globex',
+    });
+    itemIds.push(...result.ids);
+
+    expect(result.ids).toHaveLength(4);
+    expect(result.item).toMatchObject({ title: 'Onboard Globex', projectId, dueDate: '2026-11-12' });
+
+    const items = await prisma.item.findMany({
+      where: { id: { in: result.ids } },
+      include: { tags: { include: { tag: true } }, itemPeople: true, checkIns: true },
+      orderBy: { id: 'asc' },
+    });
+    const [root, welcome, access, accounts] = items;
+    expect(root.tags.map(t => t.tag.name)).toEqual([tagName]);
+    expect(root.checkIns.map(c => [c.date.toISOString().slice(0, 10), c.note])).toEqual([['2026-11-07', 'Halfway check']]);
+    expect(welcome).toMatchObject({ parentId: root.id, priority: 2, position: 0, projectId });
+    expect(welcome.dueDate?.toISOString().slice(0, 10)).toBe('2026-11-03');
+    expect(access).toMatchObject({ parentId: root.id, position: 1 });
+    expect(access.itemPeople.map(p => p.role)).toEqual(['reviewer']);
+    expect(accounts).toMatchObject({ parentId: access.id, title: 'Create accounts' });
+  });
+
+  it('should undo an instantiation in one step', async () => {
+    const headers = { 'x-kw-client': 'agent', 'x-kw-actor': `${prefix}-agent` };
+    const agent = createCaller(await createContext({ req: { headers } } as unknown as CreateExpressContextOptions));
+
+    const result = await agent.items.instantiateTemplate({ templateId, projectId });
+    itemIds.push(...result.ids);
+
+    const undone = await agent.items.undo();
+    expect(undone.ids.sort()).toEqual([...result.ids].sort());
+    const remaining = await prisma.item.count({ where: { id: { in: result.ids }, deletedAt: null } });
+    expect(remaining).toBe(0);
+  });
+
+  it('should refuse templates that reference deleted people', async () => {
+    const stale = await prisma.itemTemplate.create({
+      data: { name: `${prefix} stale`, definition: JSON.stringify({ title: 'Stale', owner: 'Gone Person' }) },
+    });
+    await expect(caller.items.instantiateTemplate({ templateId: stale.id }))
+      .rejects.toThrow(/out of date: People not found: Gone Person/);
+    await expect(caller.items.instantiateTemplate({ templateName: `${prefix} missing` }))
+      .rejects.toThrow(/Template not found/);
+  });
+
+  it('should delete templates', async () => {
+    await caller.itemTemplates.delete({ id: templateId });
+    await expect(caller.itemTemplates.get({ id: templateId })).rejects.toThrow(/not found/);
+  });
+});
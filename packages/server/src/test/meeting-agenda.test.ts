@@ -0,0 +1,166 @@
+/**
+ * Tests for meetings.prepareAgenda
+ *
+ * Meeting notes live in a temp knowledge base under a per-run org folder, so
+ * the previous-meeting lookup only sees this file's notes.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { writeAgendaSection } from '../services/meeting-agenda.js';
+import { meetingTitleKey } from '../services/meeting-parser.js';
+import { formatTaskId } from '../types/index.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
+
+const stamp = Date.now();
+const prefix = `agenda-test-${stamp}`;
+const folder = `${prefix}-org`;
+
+function meetingNote(fields: { title: string; date: string; attendees: string[]; status: string }, body: string): string {
+  return [
+    '---',
+    `title: ${fields.title}`,
+    `date: ${fields.date}`,
+    'attendees:',
+    ...fields.attendees.map(a => `  - ${a}`),
+    `project: ${prefix}-proj`,
+    `status: ${fields.status}`,
+    '---',
+    '',
+    `# ${fields.title}`,
+    '',
+    body,
+  ].join('\n');
+}
+
+describe('Meeting agenda', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const lastPath = `${folder}/meetings/2031/03/2031-03-03-weekly-sync.md`;
+  const nextPath = `${folder}/meetings/2031/03/2031-03-10-weekly-sync.md`;
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
+  const ids: Record<string, number> = {};
+
+  beforeAll(async () => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-agenda-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+    fs.mkdirSync(path.join(kbDir, folder, 'meetings/2031/03'), { recursive: true });
+
+    const org = await prisma.organization.create({ data: { slug: folder, name: 'Agenda Org', folderPath: folder } });
+    const project = await prisma.project.create({ data: { slug: `${prefix}-proj`, name: `${prefix} Project`, orgId: org.id } });
+    const alice = await prisma.person.create({ data: { name: `Alice${stamp} Smith` } });
+    const bob = await prisma.person.create({ data: { name: `${prefix} Bob` } });
+
+    const last = await prisma.meeting.create({ data: { title: 'Weekly sync', date: new Date('2031-03-03'), path: lastPath } });
+    const task = (title: string, data: Record<string, unknown> = {}) =>
+      prisma.item.create({ data: { title: `${prefix} ${title}`, ...data } }).then(item => { ids[title] = item.id; });
+
+    await task('Send draft', { ownerId: bob.id, projectId: project.id, sourceMeetingId: last.id, dueDate: new Date('2031-03-08') });
+    await task('Already sent', { ownerId: bob.id, sourceMeetingId: last.id, status: 'complete' });
+    await task('Write proposal', { ownerId: alice.id, priority: 1, status: 'in_progress' });
+    await task('Sign contract', { ownerId: bob.id, itemPeople: { create: { personId: alice.id, role: 'waiting_on' } } });
+    await task('Order kit', { projectId: project.id });
+    await task('Old news', { projectId: project.id, status: 'cancelled' });
+
+    fs.writeFileSync(path.join(kbDir, lastPath), meetingNote(
+      { title: 'Weekly sync', date: '2031-03-03', attendees: [`${prefix} Bob`], status: 'completed' },
+      [
+        '## Actions',
+        '',
+        '| Owner | Action | Due | Status |',
+        '|-------|--------|-----|--------|',
+        `| Bob | ${prefix} Send draft | 8 Mar 2031 | Pending |`,
+        `| Bob | ${prefix} Already sent | | Done |`,
+        `| Carol | ${prefix} Book room | | Pending |`,
+        '',
+      ].join('\n'),
+    ));
+    fs.writeFileSync(path.join(kbDir, nextPath), meetingNote(
+      { title: 'Weekly sync 2031-03-10', date: '2031-03-10', attendees: [`Alice${stamp}`, `${prefix} Bob`, `${prefix} Nobody`], status: 'planned' },
+      '## Summary\n\nTBC\n',
+    ));
+  });
+
+  afterAll(async () => {
+    const items = await prisma.item.findMany({ where: { title: { startsWith: prefix } }, select: { id: true } });
+    await prisma.itemPerson.deleteMany({ where: { itemId: { in: items.map(i => i.id) } } });
+    await prisma.item.deleteMany({ where: { id: { in: items.map(i => i.id) } } });
+    await prisma.meeting.deleteMany({ where: { path: { startsWith: folder } } });
+    await prisma.person.deleteMany({ where: { OR: [{ name: `Alice${stamp} Smith` }, { name: { startsWith: prefix } }] } });
+    await prisma.project.deleteMany({ where: { slug: `${prefix}-proj` } });
+    await prisma.organization.deleteMany({ where: { slug: folder } });
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+  });
+
+  it('should match recurring titles with or without a date', () => {
+    expect(meetingTitleKey('Weekly sync 2031-03-10')).toBe('weekly sync');
+    expect(meetingTitleKey('Weekly Sync:')).toBe('weekly sync');
+  });
+
+  it('should put the agenda after the title, or in place of the old one', () => {
+    const note = '---\ntitle: X\n---\n\n# X\n\n## Summary\n\nTBC\n';
+    const first = writeAgendaSection(note, '## Agenda\n\n- One\n');
+    expect(first).toBe('---\ntitle: X\n---\n\n# X\n\n## Agenda\n\n- One\n\n---\n\n## Summary\n\nTBC\n');
+    expect(writeAgendaSection(first, '## Agenda\n\n- Two\n'))
+      .toBe('---\ntitle: X\n---\n\n# X\n\n## Agenda\n\n- Two\n\n---\n\n## Summary\n\nTBC\n');
+    expect(writeAgendaSection('# X\n', '## Agenda\n\n- One\n')).toBe('# X\n\n## Agenda\n\n- One\n');
+  });
+
+  it('should collect carried-over actions, attendee tasks and project tasks', async () => {
+    const agenda = await caller.meetings.prepareAgenda({ path: nextPath, dryRun: true });
+
+    expect(agenda.previousMeeting).toEqual({ path: lastPath, title: 'Weekly sync', date: '2031-03-03' });
+    expect(agenda.unknownAttendees).toEqual([`${prefix} Nobody`]);
+    expect(agenda.written).toBe(false);
+    expect(agenda.sections.map(s => [s.kind, s.heading, s.items.map(i => i.title)])).toEqual([
+      ['carryover', 'Actions from last meeting (2031-03-03)', [`${prefix} Send draft`, `${prefix} Book room`]],
+      ['attendee', `Alice${stamp} Smith`, [`${prefix} Write proposal`, `${prefix} Sign contract`]],
+      // Bob's open tasks are all listed above, so he gets no section
+      ['project', `${prefix} Project`, [`${prefix} Order kit`]],
+    ]);
+    expect(agenda.sections[0].items[1]).toMatchObject({ id: null, ownerName: 'Carol', status: 'pending' });
+    expect(agenda.sections[1].items[1]).toMatchObject({ id: ids['Sign contract'], waitingOn: true });
+
+    expect(agenda.markdown).toContain(`- ${formatTaskId(ids['Send draft'])} ${prefix} Send draft — ${prefix} Bob, due 2031-03-08`);
+    expect(agenda.markdown).toContain(`- ${formatTaskId(ids['Write proposal'])} ${prefix} Write proposal — in progress`);
+    expect(agenda.markdown).toContain(`- ${formatTaskId(ids['Sign contract'])} ${prefix} Sign contract — waiting on Alice${stamp} Smith, owner ${prefix} Bob`);
+    expect(agenda.markdown).toContain(`- ${prefix} Book room — Carol, not synced`);
+    expect(fs.readFileSync(path.join(kbDir, nextPath), 'utf-8')).not.toContain('## Agenda');
+  });
+
+  it('should write the agenda into the note and keep the old version', async () => {
+    const agenda = await caller.meetings.prepareAgenda({ path: nextPath });
+    expect(agenda.written).toBe(true);
+
+    const content = fs.readFileSync(path.join(kbDir, nextPath), 'utf-8');
+    expect(content).toContain(`# Weekly sync 2031-03-10\n\n## Agenda\n`);
+    expect(content).toContain('\n---\n\n## Summary\n\nTBC\n');
+
+    // Running it again leaves one agenda, and nothing to write
+    const again = await caller.meetings.prepareAgenda({ path: nextPath });
+    expect(again.written).toBe(false);
+    expect(fs.readFileSync(path.join(kbDir, nextPath), 'utf-8').match(/## Agenda/g)).toHaveLength(1);
+
+    const { revisions } = await caller.files.history({ path: nextPath });
+    expect(revisions.map(r => r.source)).toEqual(['edit', 'external']);
+  });
+
+  it('should refuse paths that aren\'t meeting notes', async () => {
+    await expect(caller.meetings.prepareAgenda({ path: `${folder}/meetings/missing.md` }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(caller.meetings.prepareAgenda({ path: '../outside.md' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
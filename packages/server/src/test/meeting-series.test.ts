@@ -0,0 +1,172 @@
+/**
+ * Tests for meeting series: the `series` frontmatter key, meetings.series /
+ * meetings.seriesList and meetings.createNext
+ *
+ * Notes live in a temp knowledge base under a per-run org folder.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { getMeetingByPath, getSeriesMeetings } from '../services/meeting-parser.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
+
+const prefix = `series-test-${Date.now()}`;
+const folder = `${prefix}-org`;
+
+describe('Meeting series', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const firstPath = `${folder}/meetings/2031/04/2031-04-01-acme-sync.md`;
+  const secondPath = `${folder}/meetings/2031/04/2031-04-15-acme-sync.md`;
+  const nextPath = `${folder}/meetings/2031/04/2031-04-29-acme-sync.md`;
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
+  let orgId: number;
+
+  const write = (relativePath: string, lines: string[]) =>
+    fs.writeFileSync(path.join(kbDir, relativePath), lines.join('\n'));
+
+  beforeAll(async () => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-series-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+    fs.mkdirSync(path.join(kbDir, folder, 'meetings/2031/04'), { recursive: true });
+
+    orgId = (await prisma.organization.create({ data: { slug: folder, name: 'Series Org', folderPath: folder } })).id;
+    await prisma.project.create({ data: { slug: `${prefix}-proj`, name: `${prefix} Project`, orgId } });
+
+    // Written before the series had a name: matched by title
+    write(firstPath, [
+      '---',
+      'title: "Acme sync: 2031-04-01"',
+      'date: 2031-04-01',
+      'attendees:',
+      `  - ${prefix} Sam`,
+      'status: completed',
+      '---',
+      '',
+      '# Acme sync',
+    ]);
+    write(secondPath, [
+      '---',
+      'title: Acme sync 2031-04-15',
+      'date: 2031-04-15',
+      'series: Acme sync',
+      'attendees:',
+      `  - ${prefix} Sam`,
+      `  - '${prefix} Jo'`,
+      'location: Online',
+      `project: ${prefix}-proj`,
+      'status: completed',
+      '---',
+      '',
+      '# Acme sync 2031-04-15',
+      '',
+      '## Summary',
+      '',
+      'Agreed the rollout plan.',
+      '',
+      '## Actions',
+      '',
+      '| Owner | Action | Due | Status |',
+      '|-------|--------|-----|--------|',
+      `| ${prefix} Sam | ${prefix} Book room | 2031-04-20 | Pending |`,
+      `| ${prefix} Jo | ${prefix} Send notes | | Done |`,
+      '',
+    ]);
+
+    await caller.sync.meeting({ path: firstPath });
+    await caller.sync.meeting({ path: secondPath });
+  });
+
+  afterAll(async () => {
+    const meetings = await prisma.meeting.findMany({ where: { path: { startsWith: folder } }, select: { id: true } });
+    const meetingIds = meetings.map(m => m.id);
+    await prisma.item.deleteMany({ where: { sourceMeetingId: { in: meetingIds } } });
+    await prisma.meetingAttendee.deleteMany({ where: { meetingId: { in: meetingIds } } });
+    await prisma.meetingProject.deleteMany({ where: { meetingId: { in: meetingIds } } });
+    await prisma.meeting.deleteMany({ where: { id: { in: meetingIds } } });
+    await prisma.meetingSeries.deleteMany({ where: { orgId } });
+    await prisma.person.deleteMany({ where: { name: { startsWith: prefix } } });
+    await prisma.project.deleteMany({ where: { orgId } });
+    await prisma.organization.deleteMany({ where: { id: orgId } });
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+  });
+
+  it('should read the series key and link the synced meeting', async () => {
+    const second = getMeetingByPath(secondPath)!;
+    expect(second).toMatchObject({ series: 'Acme sync', location: 'Online', attendees: [`${prefix} Sam`, `${prefix} Jo`] });
+    expect(getMeetingByPath(firstPath)!.title).toBe('Acme sync: 2031-04-01');
+
+    // The unnamed first meeting still counts as an earlier instance
+    expect(getSeriesMeetings(second).map(m => m.path)).toEqual([firstPath, secondPath]);
+
+    const record = await prisma.meeting.findUniqueOrThrow({ where: { path: secondPath }, include: { series: true } });
+    expect(record.series).toMatchObject({ slug: 'acme-sync', name: 'Acme sync', orgId });
+    expect((await prisma.meeting.findUniqueOrThrow({ where: { path: firstPath } })).seriesId).toBeNull();
+  });
+
+  it('should plan the next meeting from the latest one', async () => {
+    const plan = await caller.meetings.createNext({ path: firstPath, dryRun: true });
+
+    expect(plan).toMatchObject({
+      path: nextPath,
+      title: 'Acme sync 2031-04-29',
+      date: '2031-04-29', // Same two-week gap
+      series: 'Acme sync',
+      previousPath: secondPath,
+      created: false,
+    });
+    expect(plan.carriedOver.map(a => [a.title, a.status])).toEqual([[`${prefix} Book room`, 'pending']]);
+    expect(plan.content).toContain('series: Acme sync\n');
+    expect(plan.content).toContain(`  - ${prefix} Jo\nlocation: Online\nproject: ${prefix}-proj\nstatus: planned\n---`);
+    expect(plan.content).toContain(`Open after [[${secondPath.replace(/\.md$/, '')}|2031-04-15]]:\n\n- ${plan.carriedOver[0].displayId} ${prefix} Book room — ${prefix} Sam, due 2031-04-20\n`);
+    expect(fs.existsSync(path.join(kbDir, nextPath))).toBe(false);
+  });
+
+  it('should create the next note and show it in the series', async () => {
+    const created = await caller.meetings.createNext({ path: secondPath });
+    expect(created.created).toBe(true);
+
+    const note = getMeetingByPath(nextPath)!;
+    expect(note).toMatchObject({ title: 'Acme sync 2031-04-29', status: 'planned', series: 'Acme sync', projects: [`${prefix}-proj`] });
+
+    const timeline = await caller.meetings.series({ slug: 'Acme sync', org: folder });
+    expect(timeline).toMatchObject({ slug: 'acme-sync', orgSlug: folder, meetingCount: 2, firstDate: '2031-04-15', lastDate: '2031-04-29' });
+    expect(timeline.meetings.map(m => [m.path, m.status, m.summary, m.actions])).toEqual([
+      [secondPath, 'completed', 'Agreed the rollout plan.', { total: 2, open: 1 }],
+      [nextPath, 'planned', null, { total: 0, open: 0 }],
+    ]);
+
+    const { series } = await caller.meetings.seriesList({ org: folder });
+    expect(series.map(s => [s.slug, s.meetingCount])).toEqual([['acme-sync', 2]]);
+
+    // The agenda for the new note carries over from the one before
+    const agenda = await caller.meetings.prepareAgenda({ path: nextPath, dryRun: true });
+    expect(agenda.previousMeeting?.path).toBe(secondPath);
+  });
+
+  it('should refuse a date that is taken or not after the latest meeting', async () => {
+    await expect(caller.meetings.createNext({ path: secondPath, date: '2031-04-29' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(caller.meetings.createNext({ path: secondPath, date: '2031-05-13', dryRun: true }))
+      .resolves.toMatchObject({ path: `${folder}/meetings/2031/05/2031-05-13-acme-sync.md` });
+
+    fs.mkdirSync(path.join(kbDir, folder, 'meetings/2031/05'), { recursive: true });
+    fs.writeFileSync(path.join(kbDir, folder, 'meetings/2031/05/2031-05-13-acme-sync.md'), '# Taken\n');
+    await expect(caller.meetings.createNext({ path: secondPath, date: '2031-05-13' }))
+      .rejects.toMatchObject({ code: 'CONFLICT' });
+    await expect(caller.meetings.series({ slug: `${prefix}-missing` }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
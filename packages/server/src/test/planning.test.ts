@@ -0,0 +1,123 @@
+/**
+ * Tests for capacity-aware planning: planning.week, capacity settings and
+ * the suggested moves for overloaded days
+ *
+ * The plan covers Monday 3 and Tuesday 4 March 2031 for a throwaway owner,
+ * so other test data doesn't land in it.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { buildWeekPlan, suggestMoves } from '../services/planning.js';
+import type { PlanDay } from '@kw/api-types';
+
+const prefix = `plan-test-${Date.now()}`;
+const MONDAY = '2031-03-03';
+const TUESDAY = '2031-03-04';
+
+describe('Planning', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const ownerName = `${prefix} Owner`;
+  let ownerId: number;
+  let savedCapacity: { weekday: number; minutes: number }[];
+  const ids: Record<string, number> = {};
+
+  beforeAll(async () => {
+    savedCapacity = await prisma.dayCapacity.findMany({ select: { weekday: true, minutes: true } });
+    ownerId = (await prisma.person.create({ data: { name: ownerName } })).id;
+
+    const task = async (key: string, data: { priority?: number; estimateMinutes?: number; dueDate?: string }) => {
+      ids[key] = (await prisma.item.create({
+        data: {
+          title: `${prefix} ${key}`,
+          ownerId,
+          priority: data.priority ?? null,
+          estimateMinutes: data.estimateMinutes ?? null,
+          dueDate: new Date(`${data.dueDate ?? MONDAY}T00:00:00.000Z`),
+        },
+      })).id;
+    };
+    await task('urgent', { priority: 1, estimateMinutes: 45 });
+    await task('normal', { priority: 3, estimateMinutes: 30 });
+    await task('someday', {});
+
+    ids.routine = (await prisma.item.create({
+      data: { title: `${prefix} standup`, itemType: 'routine', recurrenceRule: 'daily', ownerId, estimateMinutes: 20 },
+    })).id;
+    await prisma.checkIn.create({ data: { itemId: ids.urgent, date: new Date(`${TUESDAY}T00:00:00.000Z`) } });
+  });
+
+  afterAll(async () => {
+    await prisma.item.deleteMany({ where: { title: { startsWith: prefix } } });
+    await prisma.person.deleteMany({ where: { id: ownerId } });
+    await prisma.dayCapacity.deleteMany();
+    await prisma.dayCapacity.createMany({ data: savedCapacity });
+  });
+
+  it('should store capacity per weekday', async () => {
+    const { days } = await caller.planning.setCapacity({
+      days: [{ weekday: 1, minutes: 90 }, { weekday: 2, minutes: 480 }],
+    });
+    expect(days).toHaveLength(7);
+    expect(days[1]).toEqual({ weekday: 1, minutes: 90 });
+
+    const read = await caller.planning.capacity();
+    expect(read.days[2].minutes).toBe(480);
+  });
+
+  it('should lay out tasks, check-ins and routines per day', async () => {
+    const plan = await caller.planning.week({ start: MONDAY, days: 2, owner: ownerName });
+    const [monday, tuesday] = plan.days;
+
+    expect(plan).toMatchObject({ start: MONDAY, end: TUESDAY });
+    expect(monday.tasks.map(t => t.id)).toEqual([ids.urgent, ids.normal, ids.someday]);
+    expect(monday.tasks[2]).toMatchObject({ estimateMinutes: null, minutes: 30 });
+    expect(monday.routines.map(r => r.id)).toEqual([ids.routine]);
+    expect(monday).toMatchObject({ weekday: 1, capacityMinutes: 90, plannedMinutes: 125, freeMinutes: -35, overloaded: true });
+    expect(tuesday.checkins.map(c => c.id)).toEqual([ids.urgent]);
+    expect(tuesday).toMatchObject({ plannedMinutes: 35, overloaded: false });
+
+    await expect(caller.planning.week({ owner: `${prefix} Nobody` })).rejects.toThrow(/Person not found/);
+  });
+
+  it('should suggest moving the lowest-priority work off overloaded days', async () => {
+    const plan = await buildWeekPlan(prisma, { start: MONDAY, days: 2, ownerId });
+    expect(plan.suggestions.map(s => [s.itemId, s.from, s.to])).toEqual([
+      [ids.someday, MONDAY, TUESDAY],
+      [ids.normal, MONDAY, TUESDAY],
+    ]);
+  });
+
+  it('should count calendar busy time against capacity', async () => {
+    const plan = await buildWeekPlan(prisma, {
+      start: MONDAY,
+      days: 2,
+      ownerId,
+      busy: new Map([[TUESDAY, 450]]),
+      calendar: 'ok',
+    });
+    expect(plan.days[1]).toMatchObject({ busyMinutes: 450, freeMinutes: -5, overloaded: true });
+    // Tuesday is full too, so Monday's tasks have nowhere to go
+    expect(plan.suggestions).toEqual([]);
+  });
+
+  it('should fall back to earlier days and never move priority 1 work', () => {
+    const day = (date: string, freeMinutes: number, tasks: PlanDay['tasks']): PlanDay => ({
+      date, weekday: 1, capacityMinutes: 480, busyMinutes: 0, plannedMinutes: 0,
+      freeMinutes, overloaded: freeMinutes < 0, tasks, checkins: [], routines: [],
+    });
+    const task = (id: number, priority: number | null, minutes: number) => ({
+      id, displayId: `T-${id}`, title: `Task ${id}`, status: 'pending', priority, projectName: null, estimateMinutes: minutes, minutes,
+    });
+
+    // Only an earlier day has room, and only for the smaller task
+    const suggestions = suggestMoves([
+      day('2031-03-03', 20, []),
+      day('2031-03-04', -60, [task(1, 1, 60), task(2, 2, 15), task(3, 2, 60)]),
+      day('2031-03-05', 0, []),
+    ]);
+    expect(suggestions.map(s => [s.itemId, s.to])).toEqual([[2, '2031-03-03']]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for quick-add: the shared parser in @kw/api-types and the
+ * items.resolveQuickAdd / items.quickAdd procedures that validate its names.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { parseQuickAdd } from '@kw/api-types';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+
+// Sunday 18 October 2026
+const today = new Date(2026, 9, 18);
+
+describe('parseQuickAdd', () => {
+  it('should pull every token type out of the title', () => {
+    const draft = parseQuickAdd(
+      'Send proposal #acme/website @bob +waiting:@carol ~sales p2 !friday ^checkin mon 45m',
+      { today }
+    );
+
+    expect(draft).toMatchObject({
+      title: 'Send proposal',
+      project: { org: 'acme', slug: 'website' },
+      owner: 'bob',
+      waitingOn: ['carol'],
+      tags: ['sales'],
+      priority: 2,
+      dueDate: '2026-10-23',
+      checkinDate: '2026-10-19',
+      estimateMinutes: 45,
+      recurrence: null,
+    });
+    expect(draft.tokens.map(t => t.type)).toEqual([
+      'project', 'owner', 'waiting', 'tag', 'priority', 'due', 'checkin', 'estimate',
+    ]);
+  });
+
+  it('should parse multi-word dates and quoted names', () => {
+    const draft = parseQuickAdd('Call @"Jane Doe" !next friday ^in 3 days', { today });
+    expect(draft).toMatchObject({
+      title: 'Call',
+      owner: 'Jane Doe',
+      dueDate: '2026-10-30',
+      checkinDate: '2026-10-21',
+    });
+
+    expect(parseQuickAdd('Renew !jan15', { today }).dueDate).toBe('2027-01-15');
+    expect(parseQuickAdd('Renew !2026-11-02', { today }).dueDate).toBe('2026-11-02');
+  });
+
+  it('should turn recurrence phrases into RRULEs', () => {
+    expect(parseQuickAdd('Water plants every mon and thu', { today }).recurrence).toEqual({
+      rule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+      description: 'Every week on Monday and Thursday',
+    });
+    expect(parseQuickAdd('Timesheet every weekday', { today }).recurrence?.rule).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+    expect(parseQuickAdd('Review every 2 weeks', { today }).recurrence?.rule).toBe('FREQ=WEEKLY;INTERVAL=2');
+    expect(parseQuickAdd('Pay rent every 1st', { today }).recurrence?.rule).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+  });
+
+  it('should parse durations', () => {
+    expect(parseQuickAdd('Deep work 1h30m', { today }).estimateMinutes).toBe(90);
+    expect(parseQuickAdd('Deep work for 2 hours', { today }).estimateMinutes).toBe(120);
+    expect(parseQuickAdd('Deep work 45m p2 ~admin', { today })).toMatchObject({ title: 'Deep work', estimateMinutes: 45 });
+  });
+
+  it('should leave durations inside the title unless prefixed', () => {
+    expect(parseQuickAdd('Raise 5m round', { today })).toMatchObject({ title: 'Raise 5m round', estimateMinutes: null, tokens: [] });
+    expect(parseQuickAdd('Run for 2 hours daily', { today })).toMatchObject({ title: 'Run for 2 hours daily', estimateMinutes: null });
+    expect(parseQuickAdd('Raise 5m round ~30m', { today })).toMatchObject({ title: 'Raise 5m round', estimateMinutes: 30, tags: [] });
+    expect(parseQuickAdd('Raise ~1h 5m round', { today })).toMatchObject({ title: 'Raise 5m round', estimateMinutes: 60 });
+  });
+
+  it('should leave bare date words and unknown syntax in the title', () => {
+    const draft = parseQuickAdd('Plan monday standup with p5 team !someday', { today });
+    expect(draft.title).toBe('Plan monday standup with p5 team !someday');
+    expect(draft.tokens).toEqual([]);
+  });
+});
+
+describe('tRPC Items Router - quick add', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const suffix = Date.now().toString(36);
+  const orgSlug = `qa-org-${suffix}`;
+  const projectSlug = `qa-proj-${suffix}`;
+  const tagName = `qa-tag-${suffix}`;
+  const ownerName = `Quinn ${suffix}`;
+  const waitingName = `Wren ${suffix}`;
+  const itemIds: number[] = [];
+  let projectId: number;
+  let ownerId: number;
+  let waitingId: number;
+
+  beforeAll(async () => {
+    const org = await prisma.organization.create({ data: { slug: orgSlug, name: 'Quick Add Org' } });
+    projectId = (await prisma.project.create({
+      data: { slug: projectSlug, name: 'Quick Add Project', orgId: org.id },
+    })).id;
+    ownerId = (await prisma.person.create({ data: { name: ownerName } })).id;
+    waitingId = (await prisma.person.create({ data: { name: waitingName } })).id;
+    await prisma.tag.create({ data: { name: tagName } });
+  });
+
+  afterAll(async () => {
+    await prisma.item.deleteMany({ where: { id: { in: itemIds } } });
+    await prisma.tag.deleteMany({ where: { name: tagName } });
+    await prisma.person.deleteMany({ where: { id: { in: [ownerId, waitingId] } } });
+    await prisma.project.deleteMany({ where: { id: projectId } });
+    await prisma.organization.deleteMany({ where: { slug: orgSlug } });
+  });
+
+  it('should create an item with its tags, waiting-on person and check-in', async () => {
+    const item = await caller.items.quickAdd({
+      text: `Send deck #${orgSlug}/${projectSlug} @"${ownerName}" +waiting:@"${waitingName}" ~${tagName} p1 !2026-11-02 ^2026-10-28 45m`,
+    });
+    itemIds.push(item.id);
+
+    expect(item).toMatchObject({ title: 'Send deck', projectId, ownerId, priority: 1, itemType: 'task' });
+    expect(item.dueDate).toMatch(/^2026-11-02/);
+
+    expect(await prisma.itemTag.count({ where: { itemId: item.id } })).toBe(1);
+    const waiting = await prisma.itemPerson.findFirst({ where: { itemId: item.id } });
+    expect(waiting).toMatchObject({ personId: waitingId, role: 'waiting_on' });
+    const checkin = await prisma.checkIn.findFirst({ where: { itemId: item.id } });
+    expect(checkin?.date.toISOString()).toMatch(/^2026-10-28/);
+
+    const stored = await prisma.item.findUnique({ where: { id: item.id } });
+    expect(stored).toMatchObject({ estimateMinutes: 45, metadata: null });
+  });
+
+  it('should create a routine from a recurrence phrase', async () => {
+    const item = await caller.items.quickAdd({ text: `Standup every weekday #${projectSlug}` });
+    itemIds.push(item.id);
+
+    const stored = await prisma.item.findUnique({ where: { id: item.id } });
+    expect(stored).toMatchObject({
+      itemType: 'routine',
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+      projectId,
+    });
+  });
+
+  it('should resolve @me and let picker ids override the draft', async () => {
+    const item = await caller.items.quickAdd({
+      text: `Prep notes @me #${projectSlug}`,
+      me: ownerName,
+      projectId: null,
+    });
+    itemIds.push(item.id);
+
+    expect(item).toMatchObject({ ownerId, projectId: null });
+  });
+
+  it('should report unknown names without creating anything', async () => {
+    const text = `Ghost task #no-such-${suffix} @nobody-${suffix} ~missing-${suffix}`;
+
+    const preview = await caller.items.resolveQuickAdd({ text });
+    expect(preview.problems).toHaveLength(3);
+    expect(preview.draft.title).toBe('Ghost task');
+
+    const before = await prisma.item.count({ where: { title: 'Ghost task' } });
+    await expect(caller.items.quickAdd({ text })).rejects.toThrow(/Project not found.*Person not found.*Tags not found/);
+    expect(await prisma.item.count({ where: { title: 'Ghost task' } })).toBe(before);
+  });
+
+  it('should reject ambiguous people and empty titles', async () => {
+    await expect(caller.items.quickAdd({ text: `Chat @${suffix}` })).rejects.toThrow(/matches/);
+    await expect(caller.items.quickAdd({ text: `p1 ~${tagName}` })).rejects.toThrow(/Title is required/);
+    await expect(caller.items.quickAdd({})).rejects.toThrow(/Either text or draft/);
+  });
+});
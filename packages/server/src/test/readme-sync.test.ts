@@ -0,0 +1,142 @@
+/**
+ * Tests for two-way README task sync (services/readme-sync.ts) through
+ * sync.readmesPreview / sync.readmes and the anchored line rewrite on
+ * items.update.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
+
+describe('README task sync', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const suffix = Date.now().toString(36);
+  const orgSlug = `rs-org-${suffix}`;
+  const readmePath = `${orgSlug}/projects/site/README.md`;
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
+  let projectId: number;
+
+  const readme = () => fs.readFileSync(path.join(kbDir, readmePath), 'utf-8');
+  const writeReadme = (content: string) => fs.writeFileSync(path.join(kbDir, readmePath), content);
+  const anchorOf = (title: string) => Number(readme().match(new RegExp(`${title}.*<!-- kw:T-(\\d+) -->`))?.[1]);
+
+  beforeAll(async () => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-readme-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+    fs.mkdirSync(path.dirname(path.join(kbDir, readmePath)), { recursive: true });
+    writeReadme([
+      '---',
+      'title: Site',
+      '---',
+      '# Site',
+      '',
+      '## Tasks',
+      '- [ ] Draft copy',
+      '- [x] Pick fonts',
+      '- 🟢 **API review** — with security',
+      '',
+    ].join('\n'));
+
+    const org = await prisma.organization.create({ data: { slug: orgSlug, folderPath: orgSlug, name: 'README Sync Org' } });
+    projectId = (await prisma.project.create({ data: { slug: 'site', name: 'Site', orgId: org.id } })).id;
+  });
+
+  afterAll(async () => {
+    await prisma.item.deleteMany({ where: { sourcePath: readmePath } });
+    await prisma.project.deleteMany({ where: { id: projectId } });
+    await prisma.organization.deleteMany({ where: { slug: orgSlug } });
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+  });
+
+  it('should create items for open lines and anchor them', async () => {
+    const preview = await caller.sync.readmesPreview();
+    expect(preview.changes.map(c => [c.kind, c.title])).toEqual([
+      ['create_item', 'Draft copy'],
+      ['create_item', 'API review'],
+    ]);
+    expect(readme()).not.toContain('kw:');
+
+    await caller.sync.readmes();
+    const draft = await prisma.item.findUnique({ where: { id: anchorOf('Draft copy') } });
+    expect(draft).toMatchObject({ title: 'Draft copy', status: 'pending', projectId, sourceType: 'checkbox', sourceLine: 7 });
+    const review = await prisma.item.findUnique({ where: { id: anchorOf('API review') } });
+    expect(review).toMatchObject({ status: 'in_progress', description: 'with security', sourceType: 'status_emoji' });
+    expect(readme()).toContain('- [x] Pick fonts\n');
+
+    const again = await caller.sync.readmesPreview();
+    expect(again.changes).toEqual([]);
+    expect(again.conflicts).toEqual([]);
+  });
+
+  it('should apply README edits to the item, keyed by anchor not line', async () => {
+    const id = anchorOf('Draft copy');
+    writeReadme(readme()
+      .replace('## Tasks\n', '## Tasks\n- [ ] Book venue\n')
+      .replace('- [ ] Draft copy', '- [x] Draft homepage copy'));
+
+    await caller.sync.readmes();
+    const item = await prisma.item.findUnique({ where: { id } });
+    expect(item).toMatchObject({ title: 'Draft homepage copy', status: 'complete', sourceLine: 8 });
+    expect(item?.completedAt).not.toBeNull();
+  });
+
+  it('should rewrite the README line when the item is edited', async () => {
+    const id = anchorOf('API review');
+    await caller.items.update({ id, data: { title: 'API and auth review', status: 'blocked' } });
+
+    expect(readme()).toContain(`- 🔴 **API and auth review** — with security <!-- kw:T-${id} -->`);
+    expect((await caller.sync.readmesPreview()).changes).toEqual([]);
+  });
+
+  it('should report edits on both sides as a conflict until resolved', async () => {
+    const id = anchorOf('Book venue');
+    await prisma.item.update({ where: { id }, data: { title: 'Book the venue' } });
+    writeReadme(readme().replace('Book venue', 'Book venue and catering'));
+
+    const result = await caller.sync.readmes();
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({
+        kind: 'both_changed',
+        itemId: id,
+        readme: { title: 'Book venue and catering', status: 'pending' },
+        db: { title: 'Book the venue', status: 'pending' },
+      }),
+    ]);
+    expect((await prisma.item.findUnique({ where: { id } }))?.title).toBe('Book the venue');
+
+    await caller.sync.readmes({ resolutions: [{ key: result.conflicts[0].key, keep: 'db' }] });
+    expect(readme()).toContain(`- [ ] Book the venue <!-- kw:T-${id} -->`);
+    expect((await caller.sync.readmesPreview()).conflicts).toEqual([]);
+  });
+
+  it('should carry deletions across in both directions', async () => {
+    const removedLine = anchorOf('Book the venue');
+    const deletedItem = anchorOf('API and auth review');
+
+    writeReadme(readme().split('\n').filter(line => !line.includes(`T-${removedLine} `)).join('\n'));
+    await caller.items.delete({ id: deletedItem });
+
+    const preview = await caller.sync.readmesPreview();
+    expect(preview.changes.map(c => [c.kind, c.itemId]).sort()).toEqual([
+      ['delete_item', removedLine],
+      ['delete_line', deletedItem],
+    ]);
+
+    await caller.sync.readmes();
+    expect((await prisma.item.findUnique({ where: { id: removedLine } }))?.deletedAt).not.toBeNull();
+    expect(readme()).not.toContain('API and auth review');
+  });
+});
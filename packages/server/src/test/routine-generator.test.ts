@@ -5,6 +5,7 @@
  */
 
 import { describe, it, expect, beforeAll } from 'vitest';
+import { parseRRule, describeRRule, describeRecurrence } from '@kw/api-types';
 import { isDueOnDate, getNextDueDate } from '../services/routine-generator-prisma.js';
 
 // =============================================================================
@@ -212,6 +213,94 @@ describe('isDueOnDate', () => {
     });
   });
 
+  describe('RRULE recurrence', () => {
+    // Local dates; rules without DTSTART start from createdAt
+    const day = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+    const rrule = (recurrenceRule: string, createdAt = day(2026, 1, 1)) => ({
+      recurrenceRule,
+      recurrenceDays: null,
+      recurrenceMonths: null,
+      createdAt,
+    });
+
+    it('should match the nth weekday of the month', () => {
+      const routine = rrule('FREQ=MONTHLY;BYDAY=2TU');
+
+      expect(isDueOnDate(routine, day(2026, 1, 13))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 2, 10))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 1, 6))).toBe(false);
+      expect(isDueOnDate(routine, day(2026, 1, 20))).toBe(false);
+    });
+
+    it('should match the last weekday of the month with BYSETPOS', () => {
+      const routine = rrule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1');
+
+      expect(isDueOnDate(routine, day(2026, 1, 30))).toBe(true);  // Friday
+      expect(isDueOnDate(routine, day(2026, 1, 31))).toBe(false); // Saturday
+      expect(isDueOnDate(routine, day(2026, 5, 29))).toBe(true);  // Friday, 31st is Sunday
+      expect(isDueOnDate(routine, day(2026, 6, 30))).toBe(true);  // Tuesday
+    });
+
+    it('should count weekly intervals from the start date', () => {
+      const routine = rrule('DTSTART:20260105\nRRULE:FREQ=WEEKLY;INTERVAL=3');
+
+      expect(isDueOnDate(routine, day(2026, 1, 5))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 1, 12))).toBe(false);
+      expect(isDueOnDate(routine, day(2026, 1, 26))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 1, 27))).toBe(false);
+      expect(isDueOnDate(routine, day(2025, 12, 15))).toBe(false); // before DTSTART
+    });
+
+    it('should use createdAt when there is no DTSTART', () => {
+      const routine = rrule('FREQ=DAILY;INTERVAL=2', day(2026, 3, 1));
+
+      expect(isDueOnDate(routine, day(2026, 3, 1))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 3, 2))).toBe(false);
+      expect(isDueOnDate(routine, day(2026, 3, 3))).toBe(true);
+    });
+
+    it('should stop after COUNT occurrences', () => {
+      const routine = rrule('FREQ=WEEKLY;BYDAY=MO;COUNT=2', day(2026, 1, 1));
+
+      expect(isDueOnDate(routine, day(2026, 1, 5))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 1, 12))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 1, 19))).toBe(false);
+    });
+
+    it('should stop after UNTIL and skip EXDATEs', () => {
+      const routine = rrule('RRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20260130\nEXDATE:20260116');
+
+      expect(isDueOnDate(routine, day(2026, 1, 9))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 1, 16))).toBe(false);
+      expect(isDueOnDate(routine, day(2026, 1, 30))).toBe(true);
+      expect(isDueOnDate(routine, day(2026, 2, 6))).toBe(false);
+    });
+
+    it('should find the next occurrence', () => {
+      const routine = rrule('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=-1');
+
+      const result = getNextDueDate(routine, day(2026, 4, 1));
+      expect(result).toEqual(day(2027, 3, 31));
+    });
+
+    it('should have no next occurrence once the rule has ended', () => {
+      expect(getNextDueDate(rrule('DTSTART:20250101\nRRULE:FREQ=DAILY;COUNT=2'), day(2026, 10, 18))).toBeNull();
+      expect(getNextDueDate(rrule('RRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20260130'), day(2026, 2, 1))).toBeNull();
+      expect(getNextDueDate(rrule('FREQ=HOURLY'), day(2026, 1, 1))).toBeNull();
+    });
+
+    it('should find occurrences more than a year away', () => {
+      const routine = rrule('DTSTART:20250301\nRRULE:FREQ=YEARLY;INTERVAL=2');
+
+      expect(getNextDueDate(routine, day(2025, 3, 2))).toEqual(day(2027, 3, 1));
+    });
+
+    it('should never be due for invalid rules', () => {
+      const routine = rrule('FREQ=HOURLY');
+      expect(isDueOnDate(routine, day(2026, 1, 1))).toBe(false);
+    });
+  });
+
   describe('unknown recurrence rule', () => {
     it('should return false for unknown rules', () => {
       const routine = { recurrenceRule: 'unknown', recurrenceDays: null, recurrenceMonths: null };
@@ -238,7 +327,7 @@ describe('getNextDueDate', () => {
       const fromDate = new Date('2025-01-15');
 
       const result = getNextDueDate(routine, fromDate);
-      expect(result.toISOString().split('T')[0]).toBe('2025-01-15');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-01-15');
     });
   });
 
@@ -250,7 +339,7 @@ describe('getNextDueDate', () => {
 
       const result = getNextDueDate(routine, fromDate);
       // Next Monday is Jan 13, 2025
-      expect(result.toISOString().split('T')[0]).toBe('2025-01-13');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-01-13');
     });
 
     it('should return same day if already on a due day', () => {
@@ -263,7 +352,7 @@ describe('getNextDueDate', () => {
       const fromDate = new Date('2025-01-06');
 
       const result = getNextDueDate(routine, fromDate);
-      expect(result.toISOString().split('T')[0]).toBe('2025-01-06');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-01-06');
     });
 
     it('should find next due day in the week', () => {
@@ -277,7 +366,7 @@ describe('getNextDueDate', () => {
 
       const result = getNextDueDate(routine, fromDate);
       // Next Friday is Jan 10, 2025
-      expect(result.toISOString().split('T')[0]).toBe('2025-01-10');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-01-10');
     });
   });
 
@@ -289,7 +378,7 @@ describe('getNextDueDate', () => {
 
       const result = getNextDueDate(routine, fromDate);
       // February 1, 2025
-      expect(result.toISOString().split('T')[0]).toBe('2025-02-01');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-02-01');
     });
 
     it('should return same day if on the 1st', () => {
@@ -298,7 +387,7 @@ describe('getNextDueDate', () => {
       const fromDate = new Date('2025-02-01');
 
       const result = getNextDueDate(routine, fromDate);
-      expect(result.toISOString().split('T')[0]).toBe('2025-02-01');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-02-01');
     });
 
     it('should find next occurrence with specific days', () => {
@@ -312,7 +401,7 @@ describe('getNextDueDate', () => {
 
       const result = getNextDueDate(routine, fromDate);
       // February 15, 2025
-      expect(result.toISOString().split('T')[0]).toBe('2025-02-15');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-02-15');
     });
   });
 
@@ -328,7 +417,7 @@ describe('getNextDueDate', () => {
 
       const result = getNextDueDate(routine, fromDate);
       // December 25, 2025
-      expect(result.toISOString().split('T')[0]).toBe('2025-12-25');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-12-25');
     });
 
     it('should return same day if on the yearly date', () => {
@@ -341,7 +430,7 @@ describe('getNextDueDate', () => {
       const fromDate = new Date('2025-12-25');
 
       const result = getNextDueDate(routine, fromDate);
-      expect(result.toISOString().split('T')[0]).toBe('2025-12-25');
+      expect(result!.toISOString().split('T')[0]).toBe('2025-12-25');
     });
 
     it('should roll over to next year if past the date', () => {
@@ -355,7 +444,55 @@ describe('getNextDueDate', () => {
 
       const result = getNextDueDate(routine, fromDate);
       // January 15, 2026
-      expect(result.toISOString().split('T')[0]).toBe('2026-01-15');
+      expect(result!.toISOString().split('T')[0]).toBe('2026-01-15');
     });
   });
 });
+
+// =============================================================================
+// PURE FUNCTION TESTS: RRULE parsing and descriptions (@kw/api-types)
+// =============================================================================
+
+describe('parseRRule', () => {
+  it('should reject unsupported or inconsistent rules', () => {
+    expect(parseRRule('FREQ=HOURLY').errors[0]).toMatch(/not supported/);
+    expect(parseRRule('BYDAY=MO').errors).toContain('FREQ is required');
+    expect(parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20260101').errors).toContain('COUNT and UNTIL cannot both be set');
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=2TU').errors[0]).toMatch(/Numbered BYDAY/);
+    expect(parseRRule('FREQ=MONTHLY;BYHOUR=9').errors[0]).toMatch(/BYHOUR is not supported/);
+  });
+
+  it('should parse DTSTART and EXDATE lines', () => {
+    const { rule } = parseRRule('DTSTART;VALUE=DATE:20260105\nRRULE:FREQ=WEEKLY;INTERVAL=3\nEXDATE:20260126,20260216');
+
+    expect(rule).toMatchObject({
+      freq: 'WEEKLY',
+      interval: 3,
+      dtstart: '2026-01-05',
+      exdates: ['2026-01-26', '2026-02-16'],
+    });
+  });
+});
+
+describe('describeRecurrence', () => {
+  const describeText = (text: string) => describeRRule(parseRRule(text).rule!);
+
+  it('should describe RRULEs in plain English', () => {
+    expect(describeText('FREQ=MONTHLY;BYDAY=2TU')).toBe('Every month on the 2nd Tuesday');
+    expect(describeText('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')).toBe('Every month on the last weekday');
+    expect(describeText('FREQ=WEEKLY;INTERVAL=3;BYDAY=MO;COUNT=4')).toBe('Every 3 weeks on Monday, 4 times');
+    expect(describeText('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=-1')).toBe('Every year in March on the last day');
+    expect(describeText('RRULE:FREQ=DAILY;UNTIL=20260331\nEXDATE:20260101')).toBe(
+      'Every day, until Mar 31, 2026 (except Jan 1, 2026)'
+    );
+  });
+
+  it('should describe legacy rules', () => {
+    expect(describeRecurrence({
+      recurrenceRule: 'weekly',
+      recurrenceDays: JSON.stringify(['mon', 'thu']),
+      recurrenceTime: '09:00',
+    })).toBe('Every week on Monday and Thursday at 09:00');
+    expect(describeRecurrence({ recurrenceRule: 'monthly', recurrenceDays: '[1,15]' })).toBe('Every month on the 1st and 15th');
+  });
+});
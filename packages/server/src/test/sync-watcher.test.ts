@@ -0,0 +1,147 @@
+/**
+ * Tests for the background sync watcher (services/sync-watcher.ts): the
+ * incremental sync run for changed files, and sync.watcherStatus /
+ * sync.pauseWatcher / sync.resumeWatcher.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { isSyncedPath, runIncrementalSync } from '../services/sync-watcher.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
+
+describe('Sync watcher', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const suffix = Date.now().toString(36);
+  const orgSlug = `sw-org-${suffix}`;
+  // The org's folder deliberately differs from its slug
+  const orgFolder = `Sync Watcher ${suffix}`;
+  const owner = `Wanda Watcher ${suffix}`;
+  const meetingPath = `${orgFolder}/meetings/2026/10/2026-10-01-kickoff.md`;
+  const readmePath = `${orgFolder}/projects/launch/README.md`;
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
+  let projectId: number;
+
+  const write = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(kbDir, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(kbDir, relativePath), content);
+  };
+
+  beforeAll(async () => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-watcher-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+
+    const org = await prisma.organization.create({ data: { slug: orgSlug, folderPath: orgFolder, name: 'Sync Watcher Org' } });
+    projectId = (await prisma.project.create({ data: { slug: 'launch', name: 'Launch', orgId: org.id } })).id;
+  });
+
+  afterAll(async () => {
+    const meeting = await prisma.meeting.findUnique({ where: { path: meetingPath } });
+    if (meeting) {
+      await prisma.item.deleteMany({ where: { sourceMeetingId: meeting.id } });
+      await prisma.meetingAttendee.deleteMany({ where: { meetingId: meeting.id } });
+      await prisma.meetingProject.deleteMany({ where: { meetingId: meeting.id } });
+      await prisma.meeting.delete({ where: { id: meeting.id } });
+    }
+    await prisma.item.deleteMany({ where: { sourcePath: readmePath } });
+    await prisma.person.deleteMany({ where: { name: owner } });
+    await prisma.project.deleteMany({ where: { id: projectId } });
+    await prisma.organization.deleteMany({ where: { slug: orgSlug } });
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+  });
+
+  it('should only pick up meeting and project files', () => {
+    expect(isSyncedPath(meetingPath)).toBe(true);
+    expect(isSyncedPath(readmePath)).toBe(true);
+    expect(isSyncedPath(`${orgFolder}/projects/launch/plan.md`)).toBe(true);
+    expect(isSyncedPath(`${orgFolder}/meetings/notes.md`)).toBe(false);
+    expect(isSyncedPath('diary/2026/10/01.md')).toBe(false);
+    expect(isSyncedPath(`${orgFolder}/projects/launch/data.csv`)).toBe(false);
+  });
+
+  it('should create tasks from a changed meeting and log the run', async () => {
+    write(meetingPath, [
+      '---',
+      'title: Kickoff',
+      'date: 2026-10-01',
+      'attendees:',
+      `  - ${owner}`,
+      '---',
+      '# Kickoff',
+      '',
+      '## Actions',
+      '',
+      '| Owner | Action | Due | Status |',
+      '|-------|--------|-----|--------|',
+      `| ${owner} | Send kickoff notes | 2026-10-03 | Pending |`,
+      '',
+    ].join('\n'));
+
+    const run = await runIncrementalSync(prisma, [meetingPath]);
+    expect(run.meetings).toEqual({ synced: 1, tasksCreated: 1, tasksUpdated: 0 });
+    expect(run.errors).toEqual([]);
+
+    const meeting = await prisma.meeting.findUnique({ where: { path: meetingPath } });
+    const tasks = await prisma.item.findMany({ where: { sourceMeetingId: meeting?.id } });
+    expect(tasks.map(t => t.title)).toEqual(['Send kickoff notes']);
+
+    const status = await caller.sync.watcherStatus();
+    expect(status.log[0]).toMatchObject({ id: run.id, paths: [meetingPath] });
+    expect(status.lastRunAt).toBe(run.startedAt);
+
+    // Saving the file again doesn't duplicate the task
+    const again = await runIncrementalSync(prisma, [meetingPath]);
+    expect(again.meetings.tasksCreated).toBe(0);
+  });
+
+  it('should sync README tasks for just the changed README', async () => {
+    write(readmePath, '# Launch\n\n## Tasks\n- [ ] Book launch venue\n');
+
+    const run = await runIncrementalSync(prisma, [readmePath]);
+    expect(run.readmes).toEqual({ changes: 1, conflicts: 0 });
+
+    const items = await prisma.item.findMany({ where: { sourcePath: readmePath } });
+    expect(items).toEqual([expect.objectContaining({ title: 'Book launch venue', projectId })]);
+    expect(fs.readFileSync(path.join(kbDir, readmePath), 'utf-8')).toContain(`<!-- kw:T-${items[0].id} -->`);
+
+    // Its own write-back is a no-op on the next run
+    expect((await runIncrementalSync(prisma, [readmePath])).readmes.changes).toBe(0);
+  });
+
+  it('should index a meeting under its org slug', async () => {
+    const results = await caller.search.query({ query: `Watcher ${suffix}`, types: ['meeting'], org: orgSlug });
+    expect(results.results.map(r => r.path)).toEqual([meetingPath]);
+  });
+
+  it('should drop a deleted meeting from the search index', async () => {
+    const search = () => caller.search.query({ query: `Watcher ${suffix}`, types: ['meeting'] });
+    expect((await search()).results.map(r => r.path)).toEqual([meetingPath]);
+
+    fs.rmSync(path.join(kbDir, meetingPath));
+    const run = await runIncrementalSync(prisma, [meetingPath]);
+    expect(run.meetings.synced).toBe(0);
+    expect(run.errors).toEqual([]);
+    expect((await search()).results).toEqual([]);
+  });
+
+  it('should pause and resume', async () => {
+    const paused = await caller.sync.pauseWatcher();
+    expect(paused.paused).toBe(true);
+    expect((await caller.sync.watcherStatus()).paused).toBe(true);
+
+    const resumed = await caller.sync.resumeWatcher();
+    expect(resumed).toMatchObject({ paused: false, watching: false });
+  });
+});
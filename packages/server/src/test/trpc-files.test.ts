@@ -0,0 +1,106 @@
+/**
+ * Tests for editor saves: files.read / files.save hash checks and the
+ * revision history behind files.history / files.revision / files.restore.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
+
+describe('tRPC Files Router - editing and revisions', () => {
+  const caller = createCaller({ prisma: getPrisma() });
+  const notePath = 'notes/plan.md';
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
+
+  beforeAll(() => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-files-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+    fs.mkdirSync(path.join(kbDir, 'notes'));
+    fs.writeFileSync(path.join(kbDir, notePath), '# Plan\n\nFirst draft\n');
+  });
+
+  afterAll(() => {
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+  });
+
+  it('should save against the hash the file was read with', async () => {
+    const file = await caller.files.read({ path: notePath });
+    expect(file.raw).toBe('# Plan\n\nFirst draft\n');
+
+    const saved = await caller.files.save({ path: notePath, content: '# Plan\n\nSecond draft\n', baseHash: file.hash });
+    expect(saved.hash).not.toBe(file.hash);
+    expect(saved.revision).toMatchObject({ source: 'edit', hash: saved.hash });
+    expect(fs.readFileSync(path.join(kbDir, notePath), 'utf-8')).toBe('# Plan\n\nSecond draft\n');
+
+    // The version that was on disk before the first save is kept too
+    const { revisions } = await caller.files.history({ path: notePath });
+    expect(revisions.map(r => r.source)).toEqual(['edit', 'external']);
+    expect(revisions[1].hash).toBe(file.hash);
+  });
+
+  it('should reject a save when the file changed since it was read', async () => {
+    const file = await caller.files.read({ path: notePath });
+    fs.writeFileSync(path.join(kbDir, notePath), '# Plan\n\nAgent edit\n');
+
+    await expect(
+      caller.files.save({ path: notePath, content: '# Plan\n\nMy edit\n', baseHash: file.hash })
+    ).rejects.toThrow(/has changed since it was loaded/);
+    expect(fs.readFileSync(path.join(kbDir, notePath), 'utf-8')).toBe('# Plan\n\nAgent edit\n');
+
+    // Saving against the new hash records the agent's version before overwriting it
+    const current = await caller.files.read({ path: notePath });
+    await caller.files.save({ path: notePath, content: '# Plan\n\nMerged\n', baseHash: current.hash });
+    const { revisions } = await caller.files.history({ path: notePath });
+    expect(revisions.slice(0, 2).map(r => r.source)).toEqual(['edit', 'external']);
+  });
+
+  it('should refuse to create over a file that now exists', async () => {
+    await expect(
+      caller.files.save({ path: notePath, content: 'New', baseHash: null })
+    ).rejects.toThrow(/CONFLICT|has changed/);
+
+    const created = await caller.files.save({ path: 'notes/new.md', content: 'New\n', baseHash: null });
+    expect(fs.existsSync(path.join(kbDir, 'notes/new.md'))).toBe(true);
+    expect(created.revision?.source).toBe('edit');
+  });
+
+  it('should restore an earlier revision and keep the current one', async () => {
+    const { revisions } = await caller.files.history({ path: notePath });
+    const original = revisions[revisions.length - 1];
+    const revision = await caller.files.revision({ path: notePath, revisionId: original.id });
+    expect(revision.content).toBe('# Plan\n\nFirst draft\n');
+
+    const current = await caller.files.read({ path: notePath });
+    await caller.files.restore({ path: notePath, revisionId: original.id, baseHash: current.hash });
+    expect(fs.readFileSync(path.join(kbDir, notePath), 'utf-8')).toBe('# Plan\n\nFirst draft\n');
+
+    const after = await caller.files.history({ path: notePath });
+    expect(after.revisions[0]).toMatchObject({ source: 'restore', hash: original.hash });
+    expect(after.revisions[1].hash).toBe(current.hash);
+
+    await expect(
+      caller.files.revision({ path: notePath, revisionId: 'missing' })
+    ).rejects.toThrow(/not found/);
+  });
+
+  it('should not write into the revision store or outside the knowledge base', async () => {
+    await expect(
+      caller.files.save({ path: '.data/revisions/notes/plan.md/index.json', content: '[]' })
+    ).rejects.toThrow(/Cannot write/);
+    await expect(
+      caller.files.save({ path: '../escape.md', content: 'x' })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for invoice generation from timecard hours
+ *
+ * Points the knowledge base at a temp directory holding a small timecard CSV,
+ * so rendered invoice files can be checked on disk.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { renderInvoiceMarkdown } from '../services/invoice-renderer.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
+
+describe('tRPC Invoices Router', () => {
+  let caller: ReturnType<typeof createCaller>;
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
+  const suffix = Date.now().toString(36);
+  const orgSlug = `invoice-org-${suffix}`;
+  const unratedSlug = `unrated-org-${suffix}`;
+  const invoiceIds: number[] = [];
+
+  beforeAll(async () => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-invoices-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+
+    fs.mkdirSync(path.join(kbDir, 'personal/invoicing'), { recursive: true });
+    fs.writeFileSync(
+      path.join(kbDir, 'personal/invoicing/timecard.csv'),
+      [
+        'date,client,hours,tasks',
+        `2026-02-03,${orgSlug},3,"Kickoff, planning"`,
+        `2026-02-10,${orgSlug},4.5,Build`,
+        `2026-03-02,${orgSlug},2,Out of period`,
+        `2026-02-11,${unratedSlug},1,Other client`,
+      ].join('\n')
+    );
+
+    caller = createCaller({ prisma: getPrisma() });
+    await caller.organizations.create({ slug: orgSlug, name: 'Invoice Org', billingRate: 80, billingCurrency: 'gbp' });
+    await caller.organizations.create({ slug: unratedSlug, name: 'Unrated Org' });
+  });
+
+  afterAll(async () => {
+    const prisma = getPrisma();
+    await prisma.invoice.deleteMany({ where: { id: { in: invoiceIds } } });
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+  });
+
+  it('should store billing rates on organizations', async () => {
+    const org = await caller.organizations.get({ slug: orgSlug });
+    expect(org.billingRate).toBe(80);
+    expect(org.billingCurrency).toBe('GBP');
+  });
+
+  it('should generate a numbered invoice from the month\'s hours', async () => {
+    const invoice = await caller.invoices.generate({ org: orgSlug, month: '2026-02', source: 'csv', vatRate: 20 });
+    invoiceIds.push(invoice.id);
+
+    expect(invoice.number).toMatch(/^INV-\d{4}-\d{3}$/);
+    expect(invoice.status).toBe('draft');
+    expect(invoice.lineItems.map(l => l.date)).toEqual(['2026-02-03', '2026-02-10']);
+    expect(invoice.totalHours).toBe(7.5);
+    expect(invoice.subtotal).toBe(600);
+    expect(invoice.vatAmount).toBe(120);
+    expect(invoice.total).toBe(720);
+  });
+
+  it('should render Markdown and HTML under the client folder', async () => {
+    const invoice = await caller.invoices.get({ id: invoiceIds[0] });
+
+    expect(invoice.markdownPath).toBe(`${orgSlug}/invoices/${invoice.number}.md`);
+    const markdown = fs.readFileSync(path.join(kbDir, invoice.markdownPath!), 'utf-8');
+    expect(markdown).toContain('type: invoice');
+    expect(markdown).toContain('| 2026-02-03 | Kickoff, planning | 3 |');
+    expect(markdown).toContain('VAT (20%)');
+
+    const html = fs.readFileSync(path.join(kbDir, invoice.htmlPath!), 'utf-8');
+    expect(html).toContain(`<title>Invoice ${invoice.number}</title>`);
+  });
+
+  it('should regenerate drafts in place and lock sent invoices', async () => {
+    const regenerated = await caller.invoices.generate({ org: orgSlug, month: '2026-02', source: 'csv' });
+    expect(regenerated.id).toBe(invoiceIds[0]);
+    expect(regenerated.vatRate).toBeNull();
+    expect(regenerated.total).toBe(600);
+
+    const sent = await caller.invoices.updateStatus({ id: regenerated.id, status: 'sent' });
+    expect(sent.sentAt).not.toBeNull();
+
+    await expect(
+      caller.invoices.generate({ org: orgSlug, month: '2026-02', source: 'csv' })
+    ).rejects.toThrow(/already sent/);
+    await expect(caller.invoices.delete({ id: sent.id })).rejects.toThrow(/Cannot delete sent/);
+
+    const paid = await caller.invoices.updateStatus({ id: sent.id, status: 'paid' });
+    expect(paid.paidAt).not.toBeNull();
+    expect(paid.sentAt).toBe(sent.sentAt);
+
+    const { invoices } = await caller.invoices.list({ org: orgSlug, status: 'paid' });
+    expect(invoices.map(i => i.id)).toEqual([sent.id]);
+  });
+
+  it('should number invoices sequentially and delete drafts', async () => {
+    const first = await caller.invoices.get({ id: invoiceIds[0] });
+    const march = await caller.invoices.generate({ org: orgSlug, month: '2026-03', source: 'csv' });
+    invoiceIds.push(march.id);
+
+    const seq = (n: string) => parseInt(n.split('-')[2], 10);
+    expect(seq(march.number)).toBe(seq(first.number) + 1);
+
+    await caller.invoices.delete({ id: march.id });
+    expect(fs.existsSync(path.join(kbDir, march.markdownPath!))).toBe(false);
+    await expect(caller.invoices.get({ id: march.id })).rejects.toThrow(/not found/);
+  });
+
+  it('should require a billing rate and some hours', async () => {
+    await expect(
+      caller.invoices.generate({ org: unratedSlug, month: '2026-02', source: 'csv' })
+    ).rejects.toThrow(/No billing rate/);
+    await expect(
+      caller.invoices.generate({ org: orgSlug, month: '2025-12', source: 'csv' })
+    ).rejects.toThrow(/No timecard hours/);
+  });
+
+  it('should escape pipes in Markdown line items', () => {
+    const markdown = renderInvoiceMarkdown({
+      id: 1, number: 'INV-2026-999', orgSlug: 'x', orgName: 'X', month: '2026-01', status: 'draft',
+      currency: 'GBP', hourlyRate: 10, totalHours: 1, subtotal: 10, vatRate: null, vatAmount: 0, total: 10,
+      lineItems: [{ date: '2026-01-05', description: 'A | B', hours: 1, rate: 10, amount: 10 }],
+      notes: null, issueDate: '2026-02-01', dueDate: '2026-03-03', sentAt: null, paidAt: null,
+      markdownPath: null, htmlPath: null, createdAt: '', updatedAt: '',
+    });
+
+    expect(markdown).toContain('A \\| B');
+    expect(markdown).not.toContain('VAT');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for bulk item operations
+ *
+ * bulkComplete syncs markdown and writes the diary, so the knowledge base
+ * points at an empty temp directory.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { onDataChange, type DataChangeEvent } from '../events.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
+
+describe('tRPC Items Router - bulk operations', () => {
+  const prisma = getPrisma();
+  const caller = createCaller({ prisma });
+  const suffix = Date.now().toString(36);
+  const tagNames = [`bulk-a-${suffix}`, `bulk-b-${suffix}`];
+  const itemIds: number[] = [];
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
+
+  beforeAll(async () => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-bulk-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+    for (const name of tagNames) {
+      await caller.tags.create({ name });
+    }
+  });
+
+  afterAll(async () => {
+    await prisma.item.deleteMany({ where: { id: { in: itemIds } } });
+    await prisma.tag.deleteMany({ where: { name: { in: tagNames } } });
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+  });
+
+  async function createItems(count: number, extra: { projectId?: number } = {}) {
+    const ids: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const item = await caller.items.create({ title: `Bulk ${suffix} ${i}`, ...extra });
+      ids.push(item.id);
+      itemIds.push(item.id);
+    }
+    return ids;
+  }
+
+  async function captureEvents(fn: () => Promise<unknown>) {
+    const events: DataChangeEvent[] = [];
+    const unsubscribe = onDataChange(e => events.push(e));
+    try {
+      await fn();
+    } finally {
+      unsubscribe();
+    }
+    return events;
+  }
+
+  describe('bulkUpdate', () => {
+    it('should update every item with one event and per-item activities', async () => {
+      const ids = await createItems(3);
+
+      const events = await captureEvents(() =>
+        caller.items.bulkUpdate({ ids, data: { priority: 1, status: 'in_progress' } })
+      );
+      expect(events).toEqual([{ entity: 'items', mutation: 'update', ids, id: undefined }]);
+
+      const items = await prisma.item.findMany({ where: { id: { in: ids } } });
+      expect(items.every(i => i.priority === 1 && i.status === 'in_progress')).toBe(true);
+      expect(await prisma.activity.count({ where: { itemId: { in: ids }, action: 'status_changed' } })).toBe(3);
+    });
+
+    it('should accept display ids and fail atomically on missing items', async () => {
+      const ids = await createItems(1);
+      await expect(
+        caller.items.bulkUpdate({ ids: [`T-${ids[0]}`, 99999999], data: { priority: 4 } })
+      ).rejects.toThrow(/T-99999999/);
+
+      const item = await prisma.item.findUnique({ where: { id: ids[0] } });
+      expect(item?.priority).toBeNull();
+    });
+
+    it('should reject empty updates', async () => {
+      const ids = await createItems(1);
+      await expect(caller.items.bulkUpdate({ ids, data: {} })).rejects.toThrow(/No fields/);
+    });
+  });
+
+  describe('bulkComplete', () => {
+    it('should complete items, skip finished ones and unblock dependents', async () => {
+      const [a, b, blocked] = await createItems(3);
+      await caller.items.update({ id: b, data: { status: 'complete' } });
+      await caller.items.addBlocker({ itemId: blocked, blockerId: a });
+      await caller.items.update({ id: blocked, data: { status: 'blocked' } });
+
+      const result = await caller.items.bulkComplete({ ids: [a, b], note: 'Done in bulk' });
+      expect(result.completed).toEqual([`T-${a}`]);
+      expect(result.skipped).toEqual([`T-${b}`]);
+      expect(result.unblockedTasks.map(t => t.id)).toEqual([blocked]);
+      expect(result.ids).toEqual([a, blocked]);
+
+      const item = await prisma.item.findUnique({ where: { id: a } });
+      expect(item?.status).toBe('complete');
+      expect(item?.completedAt).not.toBeNull();
+      expect((await prisma.item.findUnique({ where: { id: blocked } }))?.status).toBe('pending');
+    });
+  });
+
+  describe('bulkMove', () => {
+    it('should move items under a parent', async () => {
+      const [parent, ...children] = await createItems(3);
+
+      const result = await caller.items.bulkMove({ ids: children, parentId: `T-${parent}` });
+      expect(result.moved).toBe(2);
+
+      const moved = await prisma.item.findMany({ where: { id: { in: children } } });
+      expect(moved.every(i => i.parentId === parent)).toBe(true);
+    });
+
+    it('should validate targets', async () => {
+      const ids = await createItems(2);
+      await expect(caller.items.bulkMove({ ids })).rejects.toThrow(/required/);
+      await expect(caller.items.bulkMove({ ids, parentId: ids[0] })).rejects.toThrow(/own parent/);
+      await expect(caller.items.bulkMove({ ids, projectId: 99999999 })).rejects.toThrow(/not found/);
+    });
+
+    it('should refuse to move an item under its own subtask', async () => {
+      const [top, child, grandchild, other] = await createItems(4);
+      await caller.items.bulkMove({ ids: [child], parentId: top });
+      await caller.items.bulkMove({ ids: [grandchild], parentId: child });
+
+      await expect(caller.items.bulkMove({ ids: [other, top], parentId: grandchild }))
+        .rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/own subtask/) });
+      expect((await prisma.item.findUnique({ where: { id: top } }))?.parentId).toBeNull();
+
+      // Moving within the same branch is fine
+      await expect(caller.items.bulkMove({ ids: [grandchild], parentId: top })).resolves.toMatchObject({ moved: 1 });
+    });
+  });
+
+  describe('bulkTag', () => {
+    it('should add and remove tags without duplicating existing ones', async () => {
+      const ids = await createItems(2);
+      await caller.items.addTag({ itemId: ids[0], tagName: tagNames[0] });
+
+      const result = await caller.items.bulkTag({ ids, add: [tagNames[0], tagNames[1]] });
+      expect(result.added).toBe(3);
+
+      const removed = await caller.items.bulkTag({ ids, remove: [tagNames[0]] });
+      expect(removed.removed).toBe(2);
+      expect(await prisma.itemTag.count({ where: { itemId: { in: ids } } })).toBe(2);
+    });
+
+    it('should reject unknown tags', async () => {
+      const ids = await createItems(1);
+      await expect(caller.items.bulkTag({ ids, add: ['no-such-tag-bulk'] })).rejects.toThrow(/no-such-tag-bulk/);
+    });
+  });
+
+  describe('bulkDelete', () => {
+    it('should soft delete with one delete event and undo as one change', async () => {
+      const ids = await createItems(3);
+
+      const events = await captureEvents(() => caller.items.bulkDelete({ ids }));
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ entity: 'items', mutation: 'delete', ids });
+
+      expect(await prisma.item.count({ where: { id: { in: ids }, deletedAt: null } })).toBe(0);
+
+      await caller.items.undo();
+      expect(await prisma.item.count({ where: { id: { in: ids }, deletedAt: null } })).toBe(3);
+    });
+  });
+});
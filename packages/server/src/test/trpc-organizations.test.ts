@@ -5,19 +5,38 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { createCaller } from '../trpc/index.js';
 import { getPrisma } from '../prisma.js';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
 
 describe('tRPC Organizations Router', () => {
   let caller: ReturnType<typeof createCaller>;
   const testOrgSlug = 'test-org-' + Date.now();
+  // Creating an org writes its _general project folder
+  const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+  let kbDir: string;
 
   beforeAll(async () => {
+    kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-orgs-'));
+    process.env.KNOWLEDGE_BASE_PATH = kbDir;
+    resetKnowledgeBasePathCache();
+
     const prisma = getPrisma();
     caller = createCaller({ prisma });
   });
 
   afterAll(async () => {
+    if (previousKBPath === undefined) {
+      delete process.env.KNOWLEDGE_BASE_PATH;
+    } else {
+      process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+    }
+    resetKnowledgeBasePathCache();
+    fs.rmSync(kbDir, { recursive: true, force: true });
+
     // Clean up test organizations and any orphaned test data
     const prisma = getPrisma();
 
@@ -265,4 +284,68 @@ describe('tRPC Organizations Router', () => {
       await prisma.organization.delete({ where: { slug: orgSlug } });
     });
   });
+
+  describe('Org folders', () => {
+    const folderOrg = 'test-folders-' + Date.now();
+    let outerKBPath: string | undefined;
+    let folderKBDir: string;
+
+    // A folder of its own, so discovery only sees these tests' orgs
+    beforeAll(() => {
+      outerKBPath = process.env.KNOWLEDGE_BASE_PATH;
+      folderKBDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-org-folders-'));
+      process.env.KNOWLEDGE_BASE_PATH = folderKBDir;
+      resetKnowledgeBasePathCache();
+    });
+
+    afterAll(() => {
+      process.env.KNOWLEDGE_BASE_PATH = outerKBPath;
+      resetKnowledgeBasePathCache();
+      fs.rmSync(folderKBDir, { recursive: true, force: true });
+    });
+
+    it('should sync a new organization\'s folder straight away', async () => {
+      const org = await caller.organizations.create({ slug: folderOrg, name: 'Folder Org' });
+      expect(org).toMatchObject({ folderPath: folderOrg, archived: false });
+      expect(fs.existsSync(path.join(folderKBDir, folderOrg, 'projects/_general/README.md'))).toBe(true);
+
+      const preview = await caller.sync.filesystemPreview();
+      expect(preview.projects).toContainEqual(expect.objectContaining({ slug: '_general', org: folderOrg }));
+    });
+
+    it('should skip archived organizations', async () => {
+      await caller.organizations.update({ slug: folderOrg, data: { archived: true } });
+      const preview = await caller.sync.filesystemPreview();
+      expect(preview.projects.some(p => p.org === folderOrg)).toBe(false);
+
+      await caller.organizations.update({ slug: folderOrg, data: { archived: false } });
+    });
+
+    it('should reject folders that are taken or outside the knowledge base', async () => {
+      await expect(
+        caller.organizations.create({ slug: 'test-folders-dup-' + Date.now(), name: 'Dup', folderPath: `${folderOrg}/` })
+      ).rejects.toThrow(/already used by organization/);
+      await expect(
+        caller.organizations.update({ slug: folderOrg, data: { folderPath: '../elsewhere' } })
+      ).rejects.toThrow(/Invalid folder path/);
+    });
+
+    it('should match existing folders with organizations', async () => {
+      const newFolder = 'test-recon-' + Date.now();
+      fs.mkdirSync(path.join(folderKBDir, newFolder, 'meetings'), { recursive: true });
+      fs.mkdirSync(path.join(folderKBDir, 'notes'));
+      const missing = 'test-missing-' + Date.now();
+      await getPrisma().organization.create({ data: { slug: missing, name: 'Missing', folderPath: missing } });
+
+      const preview = await caller.organizations.reconcileFolders({ dryRun: true });
+      expect(preview.created).toEqual([{ slug: newFolder, folder: newFolder }]);
+      expect(preview.missing).toContainEqual({ slug: missing, folder: missing });
+      expect(await getPrisma().organization.findUnique({ where: { slug: newFolder } })).toBeNull();
+
+      await caller.organizations.reconcileFolders();
+      const created = await caller.organizations.get({ slug: newFolder });
+      expect(created).toMatchObject({ name: newFolder.split('-').map(w => w[0].toUpperCase() + w.slice(1)).join(' '), folderPath: newFolder });
+      expect((await caller.organizations.reconcileFolders()).created).toEqual([]);
+    });
+  });
 });
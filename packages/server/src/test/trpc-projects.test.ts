@@ -5,10 +5,14 @@
  * and retrieving project details.
  */
 
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { createCaller } from '../trpc/index.js';
 import { getPrisma } from '../prisma.js';
 import type { ProjectWithParent } from '@kw/api-types';
+import { resetKnowledgeBasePathCache } from '../services/paths.js';
 
 describe('tRPC Projects Router', () => {
   let caller: ReturnType<typeof createCaller>;
@@ -226,4 +230,137 @@ describe('tRPC Projects Router', () => {
       }
     });
   });
+
+  describe('Project templates', () => {
+    const prisma = getPrisma();
+    const suffix = Date.now().toString(36);
+    const orgSlug = `tpl-org-${suffix}`;
+    const owner = `Tess Template ${suffix}`;
+    const previousKBPath = process.env.KNOWLEDGE_BASE_PATH;
+    let kbDir: string;
+    let ownerId: number;
+
+    const write = (relativePath: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(kbDir, relativePath)), { recursive: true });
+      fs.writeFileSync(path.join(kbDir, relativePath), content);
+    };
+
+    beforeAll(async () => {
+      kbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kw-templates-'));
+      process.env.KNOWLEDGE_BASE_PATH = kbDir;
+      resetKnowledgeBasePathCache();
+
+      await prisma.organization.create({ data: { slug: orgSlug, folderPath: orgSlug, name: 'Template Org' } });
+      ownerId = (await prisma.person.create({ data: { name: owner } })).id;
+
+      write('templates/projects/engagement/template.md', [
+        '---',
+        'name: Client engagement',
+        'description: Discovery and delivery workstreams',
+        'variables:',
+        '  - key: client',
+        '    label: Client name',
+        '    required: true',
+        '  - key: lead',
+        `    default: ${owner}`,
+        'tasks:',
+        '  - title: Kickoff call with {{client}}',
+        '    due: 3',
+        '    priority: 2',
+        '    owner: "{{lead}}"',
+        '    workstream: discovery',
+        '  - title: Send proposal',
+        '    owner: Nobody Known',
+        '---',
+        '',
+      ].join('\n'));
+      write('templates/projects/engagement/README.md', '---\ntitle: "{{name}}"\nstatus: planning\npriority: 2\n---\n# {{name}}\n\nEngagement with {{client}}, started {{date}}.\n');
+      write('templates/projects/engagement/discovery.md', '---\ntype: workstream\ntitle: Discovery\n---\n# Discovery\n');
+      write('templates/projects/engagement/delivery/README.md', '---\ntype: workstream\n---\n# Delivery for {{client}}\n');
+      write('templates/projects/broken/README.md', '# {{name}} for {{customer}}\n');
+    });
+
+    afterAll(async () => {
+      const projects = await prisma.project.findMany({ where: { organization: { slug: orgSlug } }, select: { id: true } });
+      const projectIds = projects.map(p => p.id);
+      const items = await prisma.item.findMany({ where: { projectId: { in: projectIds } }, select: { id: true } });
+      await prisma.activity.deleteMany({ where: { itemId: { in: items.map(i => i.id) } } });
+      await prisma.item.deleteMany({ where: { projectId: { in: projectIds } } });
+      await prisma.project.deleteMany({ where: { parentId: { in: projectIds } } });
+      await prisma.project.deleteMany({ where: { id: { in: projectIds } } });
+      await prisma.organization.deleteMany({ where: { slug: orgSlug } });
+      await prisma.person.deleteMany({ where: { id: ownerId } });
+      if (previousKBPath === undefined) {
+        delete process.env.KNOWLEDGE_BASE_PATH;
+      } else {
+        process.env.KNOWLEDGE_BASE_PATH = previousKBPath;
+      }
+      resetKnowledgeBasePathCache();
+      fs.rmSync(kbDir, { recursive: true, force: true });
+    });
+
+    it('should list templates with their variables', async () => {
+      const { templates } = await caller.projects.templates();
+      expect(templates.map(t => t.id)).toEqual(['broken', 'engagement']);
+      expect(templates[1]).toMatchObject({
+        name: 'Client engagement',
+        files: ['README.md', 'delivery/README.md', 'discovery.md'],
+        taskCount: 2,
+      });
+      expect(templates[1].variables).toEqual([
+        { key: 'client', label: 'Client name', required: true, default: null },
+        { key: 'lead', label: 'lead', required: false, default: owner },
+      ]);
+    });
+
+    it('should scaffold the folder, workstreams and starter tasks', async () => {
+      const result = await caller.projects.scaffold({
+        template: 'engagement',
+        org: orgSlug,
+        slug: 'globex',
+        name: 'Globex Rollout',
+        variables: { client: 'Globex' },
+      });
+
+      expect(result.path).toBe(`${orgSlug}/projects/globex`);
+      const readme = fs.readFileSync(path.join(kbDir, result.path, 'README.md'), 'utf-8');
+      expect(readme).toContain('Engagement with Globex, started ');
+      expect(readme).not.toContain('{{');
+      expect(fs.readFileSync(path.join(kbDir, result.path, 'delivery/README.md'), 'utf-8')).toContain('# Delivery for Globex');
+      expect(fs.readdirSync(path.join(kbDir, orgSlug, 'projects'))).toEqual(['globex']);
+
+      const project = await caller.projects.get({ slug: 'globex', org: orgSlug });
+      expect(project).toMatchObject({ name: 'Globex Rollout', status: 'planning', priority: 2 });
+      expect(result.workstreams.map(w => [w.slug, w.name])).toEqual([['delivery', 'Delivery for Globex'], ['discovery', 'Discovery']]);
+
+      const tasks = await prisma.item.findMany({ where: { id: { in: result.taskIds } }, orderBy: { id: 'asc' } });
+      const discovery = result.workstreams.find(w => w.slug === 'discovery');
+      expect(tasks[0]).toMatchObject({ title: 'Kickoff call with Globex', priority: 2, ownerId, projectId: discovery?.id });
+      expect(tasks[0].dueDate).not.toBeNull();
+      expect(tasks[1]).toMatchObject({ title: 'Send proposal', ownerId: null, projectId: result.projectId });
+      expect(result.warnings).toEqual([expect.stringContaining("No person named 'Nobody Known'")]);
+
+      const audit = await prisma.auditLog.findMany({ where: { procedure: 'projects.scaffold', entityId: result.projectId, entity: 'projects' } });
+      expect(audit).toHaveLength(1);
+    });
+
+    it('should refuse an existing project and leave nothing behind on failure', async () => {
+      await expect(caller.projects.scaffold({
+        template: 'engagement', org: orgSlug, slug: 'globex', name: 'Again', variables: { client: 'Globex' },
+      })).rejects.toThrow(/already exists/);
+
+      await expect(caller.projects.scaffold({
+        template: 'engagement', org: orgSlug, slug: 'initech', name: 'Initech', variables: {},
+      })).rejects.toThrow(/'client' \(Client name\) is required/);
+      await expect(caller.projects.scaffold({
+        template: 'broken', org: orgSlug, slug: 'initech', name: 'Initech',
+      })).rejects.toThrow(/undeclared variable '\{\{customer\}\}'/);
+      await expect(caller.projects.scaffold({
+        template: 'missing', org: orgSlug, slug: 'initech', name: 'Initech',
+      })).rejects.toThrow(/not found/);
+
+      expect(fs.readdirSync(path.join(kbDir, orgSlug, 'projects'))).toEqual(['globex']);
+      expect(await prisma.project.findFirst({ where: { slug: 'initech', organization: { slug: orgSlug } } })).toBeNull();
+    });
+  });
 });
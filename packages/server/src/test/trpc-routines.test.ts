@@ -159,6 +159,38 @@ describe('tRPC Routines Router', () => {
     });
   });
 
+  describe('routines.create with RRULE', () => {
+    it('should store the rule and report the next due date', async () => {
+      const created = await caller.routines.create({
+        title: `RRULE routine ${Date.now()}`,
+        recurrenceRule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+      });
+
+      try {
+        const routine = await caller.routines.get({ id: created.id });
+        expect(routine.recurrenceRule).toBe('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1');
+
+        const next = new Date(`${routine.nextDue}T00:00:00`);
+        expect(next.getDay()).toBeGreaterThanOrEqual(1);
+        expect(next.getDay()).toBeLessThanOrEqual(5);
+      } finally {
+        await caller.routines.delete({ id: created.id });
+      }
+    });
+
+    it('should reject invalid rules on create and update', async () => {
+      await expect(
+        caller.routines.create({ title: 'Bad rule', recurrenceRule: 'FREQ=MONTHLY;BYDAY=XX' })
+      ).rejects.toThrow(/Invalid BYDAY value/);
+      await expect(
+        caller.routines.create({ title: 'Bad rule', recurrenceRule: 'fortnightly' })
+      ).rejects.toThrow(/Unknown recurrence rule/);
+      await expect(
+        caller.routines.update({ id: 999999, data: { recurrenceRule: 'FREQ=MINUTELY' } })
+      ).rejects.toThrow(/not supported/);
+    });
+  });
+
   describe('Type Safety', () => {
     it('should validate recurrence rule values', async () => {
       const listResult = await caller.routines.list();
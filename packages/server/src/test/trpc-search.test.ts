@@ -0,0 +1,123 @@
+/**
+ * Tests for the full-text search router and FTS5 index
+ *
+ * Items are indexed as they are created/updated, so these tests go through
+ * the items router and then query the search router.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { buildMatchQuery, extractHighlights } from '../services/search-index.js';
+
+describe('Search index helpers', () => {
+  it('should prefix-match bare words', () => {
+    expect(buildMatchQuery('plan budg')).toBe('"plan"* "budg"*');
+  });
+
+  it('should keep quoted phrases exact', () => {
+    expect(buildMatchQuery('"quarterly review" notes')).toBe('"quarterly review" "notes"*');
+  });
+
+  it('should strip FTS syntax from user input', () => {
+    expect(buildMatchQuery('foo AND (bar* OR "baz')).toBe('"foo"* "AND"* "bar"* "OR"* "baz"*');
+    expect(buildMatchQuery('  -*: ')).toBeNull();
+  });
+
+  it('should convert highlight markers into offsets', () => {
+    const { text, highlights } = extractHighlights('a \u0002match\u0003 and \u0002another\u0003');
+    expect(text).toBe('a match and another');
+    expect(highlights).toEqual([
+      { start: 2, end: 7 },
+      { start: 12, end: 19 },
+    ]);
+  });
+});
+
+describe('tRPC Search Router', () => {
+  let caller: ReturnType<typeof createCaller>;
+  const marker = `zq${Date.now().toString(36)}`;
+  let itemId: number;
+
+  beforeAll(async () => {
+    caller = createCaller({ prisma: getPrisma() });
+
+    const item = await caller.items.create({
+      title: `Search ${marker} widget rollout`,
+      description: 'Coordinate the procurement paperwork',
+    });
+    itemId = item.id;
+  });
+
+  afterAll(async () => {
+    if (itemId) {
+      await caller.items.delete({ id: itemId }).catch(() => {});
+    }
+  });
+
+  describe('search.query', () => {
+    it('should find a newly created item by title prefix', async () => {
+      const result = await caller.search.query({ query: marker.slice(0, 6) });
+
+      const hit = result.results.find((r) => r.key === `item:${itemId}`);
+      expect(hit).toBeDefined();
+      expect(hit!.type).toBe('item');
+      expect(hit!.itemId).toBe(itemId);
+      expect(hit!.itemStatus).toBe('pending');
+      expect(hit!.titleHighlights.length).toBeGreaterThan(0);
+    });
+
+    it('should match description text and return snippet highlights', async () => {
+      const result = await caller.search.query({ query: `${marker} procurement` });
+
+      expect(result.total).toBe(1);
+      const [hit] = result.results;
+      expect(hit.snippet).toContain('procurement');
+      const [range] = hit.highlights;
+      expect(hit.snippet.slice(range.start, range.end).toLowerCase()).toBe('procurement');
+    });
+
+    it('should index notes added to an item', async () => {
+      await caller.items.addNote({ id: itemId, note: `Vendor ${marker}note confirmed` });
+
+      const result = await caller.search.query({ query: `${marker}note`, types: ['note'] });
+
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0].type).toBe('note');
+      expect(result.results[0].itemId).toBe(itemId);
+    });
+
+    it('should reflect title updates', async () => {
+      await caller.items.update({ id: itemId, data: { title: `Search ${marker} gadget launch` } });
+
+      const stale = await caller.search.query({ query: `${marker} widget` });
+      const fresh = await caller.search.query({ query: `${marker} gadget`, types: ['item'] });
+
+      expect(stale.total).toBe(0);
+      expect(fresh.results[0]?.itemId).toBe(itemId);
+    });
+
+    it('should drop deleted items from results', async () => {
+      const temp = await caller.items.create({ title: `Temporary ${marker}temp` });
+      await caller.items.delete({ id: temp.id });
+
+      const result = await caller.search.query({ query: `${marker}temp` });
+      expect(result.total).toBe(0);
+    });
+
+    it('should return no results for input without search terms', async () => {
+      const result = await caller.search.query({ query: '***' });
+      expect(result).toEqual({ query: '***', results: [], total: 0 });
+    });
+  });
+
+  describe('search.rebuild', () => {
+    it('should re-index items from the database', async () => {
+      const result = await caller.search.rebuild();
+
+      expect(result.indexed.item).toBeGreaterThan(0);
+      const after = await caller.search.query({ query: marker, types: ['item'] });
+      expect(after.results.some((r) => r.itemId === itemId)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for time tracking on items and the DB-backed timecard
+ *
+ * Items are filed under a throwaway org/project so the timecard summary
+ * can be checked without depending on other data in the test database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+
+describe('Time tracking', () => {
+  let caller: ReturnType<typeof createCaller>;
+  const suffix = Date.now().toString(36);
+  const orgSlug = `timecard-org-${suffix}`;
+  let projectId: number;
+  let itemA: number;
+  let itemB: number;
+
+  beforeAll(async () => {
+    caller = createCaller({ prisma: getPrisma() });
+
+    // Stop anything left running by earlier runs
+    await caller.items.stopTimer().catch(() => {});
+
+    await caller.organizations.create({ slug: orgSlug, name: 'Timecard Org' });
+    const project = await caller.projects.create({ slug: 'billable', name: 'Billable Work', org: orgSlug });
+    projectId = project.id;
+
+    itemA = (await caller.items.create({ title: `Timed A ${suffix}`, projectId })).id;
+    itemB = (await caller.items.create({ title: `Timed B ${suffix}`, projectId })).id;
+  });
+
+  afterAll(async () => {
+    await caller.items.stopTimer().catch(() => {});
+    await caller.projects.delete({ id: projectId, onItems: 'cascade' }).catch(() => {});
+    await caller.organizations.delete({ slug: orgSlug }).catch(() => {});
+  });
+
+  describe('timers', () => {
+    it('should start and stop a timer', async () => {
+      const started = await caller.items.startTimer({ id: itemA, note: 'Drafting' });
+      expect(started.running).toBe(true);
+      expect(started.itemTitle).toBe(`Timed A ${suffix}`);
+
+      const active = await caller.items.activeTimer();
+      expect(active?.id).toBe(started.id);
+
+      const stopped = await caller.items.stopTimer({ id: itemA });
+      expect(stopped.id).toBe(started.id);
+      expect(stopped.running).toBe(false);
+      expect(stopped.note).toBe('Drafting');
+      expect(await caller.items.activeTimer()).toBeNull();
+    });
+
+    it('should stop the running timer when another is started', async () => {
+      const first = await caller.items.startTimer({ id: itemA });
+      const second = await caller.items.startTimer({ id: itemB });
+
+      expect(second.stopped.map(e => e.id)).toEqual([first.id]);
+      expect((await caller.items.activeTimer())?.itemId).toBe(itemB);
+
+      await caller.items.stopTimer();
+    });
+
+    it('should reject a second timer on the same item', async () => {
+      await caller.items.startTimer({ id: itemA });
+      await expect(caller.items.startTimer({ id: itemA })).rejects.toThrow(/already running/);
+      await caller.items.stopTimer({ id: itemA });
+    });
+
+    it('should error when no timer is running', async () => {
+      await expect(caller.items.stopTimer({ id: itemB })).rejects.toThrow(/No timer running/);
+    });
+  });
+
+  describe('logTime', () => {
+    it('should log manual time and total it per item', async () => {
+      const entry = await caller.items.logTime({ id: itemA, minutes: 90, date: '2026-03-02', note: 'Review' });
+      expect(entry.source).toBe('manual');
+      expect(entry.minutes).toBe(90);
+      expect(entry.startedAt.startsWith('2026-03-02')).toBe(true);
+
+      await caller.items.logTime({ id: itemB, minutes: 30, date: '2026-03-02' });
+
+      const { entries, totalMinutes } = await caller.items.timeEntries({ id: itemA });
+      expect(entries.some(e => e.id === entry.id)).toBe(true);
+      expect(totalMinutes).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should delete a time entry', async () => {
+      const entry = await caller.items.logTime({ id: itemB, minutes: 5 });
+      await caller.items.deleteTimeEntry({ entryId: entry.id });
+
+      const { entries } = await caller.items.timeEntries({ id: itemB });
+      expect(entries.some(e => e.id === entry.id)).toBe(false);
+      await expect(caller.items.deleteTimeEntry({ entryId: entry.id })).rejects.toThrow(/not found/);
+    });
+  });
+
+  describe('timecard from time entries', () => {
+    it('should roll entries up by day and organization', async () => {
+      const { entries } = await caller.timecard.list({ source: 'db', client: orgSlug, startDate: '2026-03-02', endDate: '2026-03-02' });
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].hours).toBe(2);
+      expect(entries[0].source).toBe('db');
+      expect(entries[0].tasks).toContain(`Timed A ${suffix}`);
+      expect(entries[0].tasks).toContain(`Timed B ${suffix}`);
+    });
+
+    it('should summarise hours by client and project', async () => {
+      const summary = await caller.timecard.summary({ source: 'db', startDate: '2026-03-02', endDate: '2026-03-02' });
+
+      expect(summary.clientSummaries.find(c => c.client === orgSlug)?.totalHours).toBe(2);
+      expect(summary.projectSummaries.find(p => p.client === orgSlug)).toMatchObject({
+        project: 'billable',
+        projectName: 'Billable Work',
+        totalHours: 2,
+        entryCount: 2,
+      });
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for the item filter language and saved views router
+ *
+ * The parser is tested directly against a fixed reference date; the router
+ * tests create a throwaway owner so filters only match this file's items.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { parseItemFilter, parseFilterDate } from '../services/item-filter.js';
+
+describe('Item filter parser', () => {
+  const now = new Date(2026, 2, 10, 15, 30); // Tue 10 Mar 2026, local time
+
+  it('should resolve relative and absolute dates to the start of the day', () => {
+    expect(parseFilterDate('today', now)).toEqual(new Date(2026, 2, 10));
+    expect(parseFilterDate('+7d', now)).toEqual(new Date(2026, 2, 17));
+    expect(parseFilterDate('-2w', now)).toEqual(new Date(2026, 1, 24));
+    expect(parseFilterDate('+1m', now)).toEqual(new Date(2026, 3, 10));
+    expect(parseFilterDate('2026-04-01', now)).toEqual(new Date(2026, 3, 1));
+    expect(parseFilterDate('someday', now)).toBeNull();
+  });
+
+  it('should AND terms together with the default clauses', () => {
+    const { where, errors } = parseItemFilter('status:pending,blocked owner:me', { me: 'Alice', now });
+
+    expect(errors).toEqual([]);
+    expect(where.AND).toEqual([
+      { deletedAt: null },
+      { status: { in: ['pending', 'blocked'] } },
+      { owner: { name: 'Alice' } },
+      { itemType: 'task' },
+    ]);
+  });
+
+  it('should translate date comparisons into day ranges', () => {
+    const { where } = parseItemFilter('due<+7d completed:today', { now });
+    const clauses = where.AND as object[];
+
+    expect(clauses).toContainEqual({ dueDate: { lt: new Date(2026, 2, 17) } });
+    expect(clauses).toContainEqual({
+      completedAt: { gte: new Date(2026, 2, 10), lt: new Date(2026, 2, 11) },
+    });
+  });
+
+  it('should negate terms prefixed with "-"', () => {
+    const { where } = parseItemFilter('-tag:someday', { now });
+    expect(where.AND).toContainEqual({
+      NOT: { tags: { some: { tag: { name: { in: ['someday'] } } } } },
+    });
+  });
+
+  it('should match projects by org wildcard and slug prefix', () => {
+    const wildcard = parseItemFilter('project:acme-corp/*', { now });
+    expect(wildcard.where.AND).toContainEqual({ project: { organization: { slug: 'acme-corp' } } });
+
+    const prefix = parseItemFilter('project:acme-corp/web*', { now });
+    expect(prefix.where.AND).toContainEqual({
+      project: { organization: { slug: 'acme-corp' }, slug: { startsWith: 'web' } },
+    });
+  });
+
+  it('should only include routines when a type is given', () => {
+    const { where } = parseItemFilter('type:routine', { now });
+    expect(where.AND).toContainEqual({ itemType: { in: ['routine'] } });
+    expect(where.AND).not.toContainEqual({ itemType: 'task' });
+  });
+
+  it('should report invalid terms', () => {
+    const { errors } = parseItemFilter('status:nope due<soon colour:red owner:me tag<2', { now });
+
+    expect(errors).toHaveLength(5);
+    expect(errors[0]).toContain('unknown status "nope"');
+    expect(errors[1]).toContain('unrecognised date "soon"');
+    expect(errors[2]).toContain('unknown field "colour"');
+    expect(errors[3]).toContain('owner:me');
+    expect(errors[4]).toContain('does not support comparisons');
+  });
+});
+
+describe('tRPC Views Router', () => {
+  let caller: ReturnType<typeof createCaller>;
+  const suffix = Date.now().toString(36);
+  const ownerName = `Filter Owner ${suffix}`;
+  let ownerId: number;
+  const itemIds: number[] = [];
+  const viewIds: number[] = [];
+
+  const today = new Date();
+  const inDays = (n: number) => {
+    const d = new Date(today);
+    d.setDate(d.getDate() + n);
+    return d.toISOString().split('T')[0];
+  };
+
+  beforeAll(async () => {
+    caller = createCaller({ prisma: getPrisma() });
+
+    const owner = await caller.people.create({ name: ownerName });
+    ownerId = owner.id;
+
+    const soon = await caller.items.create({ title: `Soon ${suffix}`, ownerId, dueDate: inDays(3), priority: 1 });
+    const later = await caller.items.create({ title: `Later ${suffix}`, ownerId, dueDate: inDays(30) });
+    const blocked = await caller.items.create({ title: `Blocked ${suffix}`, ownerId, dueDate: inDays(2) });
+    const done = await caller.items.create({ title: `Done ${suffix}`, ownerId, status: 'complete' });
+    itemIds.push(soon.id, later.id, blocked.id, done.id);
+
+    // "Soon" blocks "Blocked", so the latter should match the blocked keyword
+    await caller.items.addLink({ fromId: soon.id, toId: blocked.id, linkType: 'blocks' });
+  });
+
+  afterAll(async () => {
+    for (const id of viewIds) {
+      await caller.views.delete({ id }).catch(() => {});
+    }
+    for (const id of itemIds) {
+      await caller.items.delete({ id }).catch(() => {});
+    }
+    if (ownerId) {
+      await caller.people.delete({ id: ownerId }).catch(() => {});
+    }
+  });
+
+  describe('query.filter', () => {
+    it('should resolve owner:me and date comparisons', async () => {
+      const result = await caller.query.filter({ filter: 'open owner:me due<+7d', me: ownerName });
+
+      expect(result.items.map(i => i.title).sort()).toEqual([`Blocked ${suffix}`, `Soon ${suffix}`]);
+      expect(result.total).toBe(2);
+    });
+
+    it('should exclude items blocked by an open item', async () => {
+      const result = await caller.query.filter({ filter: `open owner:me ${suffix} -blocked`, me: ownerName });
+
+      expect(result.items.map(i => i.title).sort()).toEqual([`Later ${suffix}`, `Soon ${suffix}`]);
+    });
+
+    it('should reject invalid filters', async () => {
+      await expect(
+        caller.query.filter({ filter: 'status:someday' })
+      ).rejects.toThrow(/Invalid filter/);
+    });
+  });
+
+  describe('views CRUD', () => {
+    it('should create, run and list a view', async () => {
+      const view = await caller.views.create({
+        name: `urgent-${suffix}`,
+        query: `done ${suffix}`,
+        pinned: true,
+      });
+      viewIds.push(view.id);
+
+      expect(view.pinned).toBe(true);
+
+      const run = await caller.views.run({ name: view.name });
+      expect(run.view.id).toBe(view.id);
+      expect(run.items.map(i => i.title)).toEqual([`Done ${suffix}`]);
+
+      const pinned = await caller.views.list({ pinnedOnly: true });
+      expect(pinned.views.some(v => v.id === view.id)).toBe(true);
+    });
+
+    it('should reject duplicate names and invalid queries', async () => {
+      const view = await caller.views.create({ name: `dup-${suffix}`, query: 'open' });
+      viewIds.push(view.id);
+
+      await expect(
+        caller.views.create({ name: `dup-${suffix}`, query: 'open' })
+      ).rejects.toThrow(/already exists/);
+      await expect(
+        caller.views.update({ id: view.id, data: { query: 'due<whenever' } })
+      ).rejects.toThrow(/Invalid filter/);
+    });
+
+    it('should update and delete a view', async () => {
+      const view = await caller.views.create({ name: `tmp-${suffix}`, query: 'open' });
+
+      const updated = await caller.views.update({ id: view.id, data: { pinned: true, description: 'Temp' } });
+      expect(updated.pinned).toBe(true);
+      expect(updated.description).toBe('Temp');
+
+      await caller.views.delete({ id: view.id });
+      await expect(caller.views.get({ id: view.id })).rejects.toThrow(/not found/);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for undo and activity revert
+ *
+ * Each test uses its own agent name so items.undo only sees that test's
+ * changes.
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import type { CreateExpressContextOptions } from '@trpc/server/adapters/express';
+import { createCaller, createContext } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+
+const prefix = `undo-test-${Date.now()}`;
+
+async function agentCaller(name: string) {
+  const headers = { 'x-kw-client': 'agent', 'x-kw-actor': `${prefix}-${name}` };
+  const ctx = await createContext({ req: { headers } } as unknown as CreateExpressContextOptions);
+  return createCaller(ctx);
+}
+
+describe('Undo', () => {
+  const prisma = getPrisma();
+  const itemIds: number[] = [];
+  const tagName = `${prefix}-tag`;
+
+  afterAll(async () => {
+    for (const id of itemIds) {
+      await prisma.item.delete({ where: { id } }).catch(() => {});
+    }
+    await prisma.tag.deleteMany({ where: { name: tagName } });
+    await prisma.auditLog.deleteMany({ where: { actorName: { startsWith: prefix } } });
+  });
+
+  async function createItem(caller: ReturnType<typeof createCaller>, title: string) {
+    const item = await caller.items.create({ title });
+    itemIds.push(item.id);
+    return item;
+  }
+
+  describe('items.undo', () => {
+    it('should restore an item after an accidental delete', async () => {
+      const agent = await agentCaller('delete');
+      const item = await createItem(agent, 'Deleted by mistake');
+      await agent.items.delete({ id: item.id });
+
+      const result = await agent.items.undo();
+      expect(result.ids).toEqual([item.id]);
+      expect(result.reverted[0].procedure).toBe('items.delete');
+
+      const restored = await prisma.item.findUnique({ where: { id: item.id } });
+      expect(restored?.deletedAt).toBeNull();
+    });
+
+    it('should undo a quick add without touching the change before it', async () => {
+      const agent = await agentCaller('quick-add');
+      const earlier = await createItem(agent, 'Before quick add');
+      await agent.items.update({ id: earlier.id, data: { priority: 2 } });
+      const added = await agent.items.quickAdd({ text: `${prefix} Quick added p1` });
+      itemIds.push(added.id);
+
+      const result = await agent.items.undo({ count: 1 });
+      expect(result.ids).toEqual([added.id]);
+      expect(result.reverted[0].procedure).toBe('items.quickAdd');
+
+      expect((await prisma.item.findUnique({ where: { id: added.id } }))?.deletedAt).not.toBeNull();
+      expect((await prisma.item.findUnique({ where: { id: earlier.id } }))?.priority).toBe(2);
+    });
+
+    it('should undo the last N mutations, newest first', async () => {
+      const agent = await agentCaller('multi');
+      const item = await createItem(agent, 'Multi');
+      await agent.items.update({ id: item.id, data: { priority: 1 } });
+      await agent.items.update({ id: item.id, data: { status: 'in_progress' } });
+
+      await agent.items.undo({ count: 2 });
+
+      const current = await prisma.item.findUnique({ where: { id: item.id } });
+      expect(current).toMatchObject({ priority: null, status: 'pending', deletedAt: null });
+    });
+
+    it('should undo a completion', async () => {
+      const agent = await agentCaller('complete');
+      const item = await createItem(agent, 'Completed too early');
+      await agent.items.update({ id: item.id, data: { status: 'complete' } });
+
+      await agent.items.undo();
+
+      const current = await prisma.item.findUnique({ where: { id: item.id } });
+      expect(current?.status).toBe('pending');
+      expect(current?.completedAt).toBeNull();
+    });
+
+    it('should restore tags', async () => {
+      const agent = await agentCaller('relations');
+      await agent.tags.create({ name: tagName });
+      const item = await createItem(agent, 'Tagged');
+      await agent.items.addTag({ itemId: item.id, tagName });
+
+      await agent.items.undo();
+
+      expect(await prisma.itemTag.count({ where: { itemId: item.id } })).toBe(0);
+    });
+
+    it('should soft-delete an item when undoing its creation', async () => {
+      const agent = await agentCaller('create');
+      const item = await createItem(agent, 'Created by mistake');
+
+      await agent.items.undo();
+
+      const current = await prisma.item.findUnique({ where: { id: item.id } });
+      expect(current?.deletedAt).not.toBeNull();
+    });
+
+    it('should only undo the caller\'s own changes', async () => {
+      const mine = await agentCaller('mine');
+      const other = await agentCaller('other');
+      const item = await createItem(mine, 'Shared');
+      await other.items.update({ id: item.id, data: { title: 'Renamed by someone else' } });
+
+      await expect(other.items.undo({ count: 2 })).resolves.toBeDefined();
+      const current = await prisma.item.findUnique({ where: { id: item.id } });
+      expect(current).toMatchObject({ title: 'Shared', deletedAt: null });
+    });
+
+    it('should refuse to overwrite later changes unless forced', async () => {
+      const agent = await agentCaller('conflict');
+      const other = await agentCaller('conflict-other');
+      const item = await createItem(agent, 'Conflict');
+      await agent.items.update({ id: item.id, data: { status: 'blocked' } });
+      await other.items.update({ id: item.id, data: { status: 'in_progress', priority: 3 } });
+
+      await expect(agent.items.undo()).rejects.toThrow(/status/);
+
+      await agent.items.undo({ force: true });
+      const current = await prisma.item.findUnique({ where: { id: item.id } });
+      // Only the field the undone change touched is put back
+      expect(current).toMatchObject({ status: 'pending', priority: 3 });
+    });
+
+    it('should not undo the same change twice', async () => {
+      const agent = await agentCaller('twice');
+      const item = await createItem(agent, 'Twice');
+      await agent.items.update({ id: item.id, data: { priority: 2 } });
+
+      await agent.items.undo();
+      await agent.items.undo();
+      await expect(agent.items.undo()).rejects.toThrow(/Nothing to undo/);
+    });
+  });
+
+  describe('activities.revert', () => {
+    it('should revert the change behind an activity', async () => {
+      const agent = await agentCaller('revert');
+      const item = await createItem(agent, 'Revert me');
+      await agent.items.update({ id: item.id, data: { status: 'in_progress' } });
+
+      const activity = await prisma.activity.findFirst({
+        where: { itemId: item.id, action: 'status_changed' },
+        orderBy: { id: 'desc' },
+      });
+      expect(activity?.requestId).toBeTruthy();
+
+      const result = await agent.activities.revert({ activityId: activity!.id });
+      expect(result.ids).toEqual([item.id]);
+      expect((await prisma.item.findUnique({ where: { id: item.id } }))?.status).toBe('pending');
+
+      const reverted = await prisma.activity.findFirst({ where: { itemId: item.id, action: 'reverted' } });
+      expect(reverted?.createdBy).toBe(`agent:${prefix}-revert`);
+
+      await expect(agent.activities.revert({ activityId: activity!.id })).rejects.toThrow(/already been reverted/);
+    });
+
+    it('should reject activities without an audit trail', async () => {
+      const caller = createCaller({ prisma });
+      const item = await createItem(caller, 'Legacy');
+      const legacy = await prisma.activity.create({ data: { itemId: item.id, action: 'note', detail: 'old' } });
+
+      await expect(caller.activities.revert({ activityId: legacy.id })).rejects.toThrow(/predates/);
+      await expect(caller.activities.revert({ activityId: 99999999 })).rejects.toThrow(/not found/);
+    });
+  });
+});
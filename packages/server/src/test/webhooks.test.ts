@@ -0,0 +1,217 @@
+/**
+ * Tests for outbound webhooks
+ *
+ * Deliveries go to a local HTTP server that records each request, so the
+ * signature, payload and retry behaviour are checked over a real connection.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createCaller } from '../trpc/index.js';
+import { getPrisma } from '../prisma.js';
+import { emitDataChange } from '../events.js';
+import {
+  signPayload,
+  backoffDelay,
+  matchesEvent,
+  dispatchDataChange,
+  attemptDelivery,
+  processDueDeliveries,
+  startWebhookWorker,
+  MAX_ATTEMPTS,
+} from '../services/webhooks.js';
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks', () => {
+  let caller: ReturnType<typeof createCaller>;
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[] = [];
+  const webhookIds: number[] = [];
+  const itemIds: number[] = [];
+
+  const createWebhook = async (input: Parameters<typeof caller.webhooks.create>[0]) => {
+    const webhook = await caller.webhooks.create(input);
+    webhookIds.push(webhook.id);
+    return webhook;
+  };
+
+  beforeAll(async () => {
+    caller = createCaller({ prisma: getPrisma() });
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        received.push({ path: req.url || '', headers: req.headers, body });
+        res.statusCode = req.url === '/fail' ? 500 : 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    for (const id of webhookIds) {
+      await caller.webhooks.delete({ id }).catch(() => {});
+    }
+    for (const id of itemIds) {
+      await caller.items.delete({ id }).catch(() => {});
+    }
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    // Only the webhooks created by the current test should be active
+    await getPrisma().webhook.updateMany({ where: { id: { in: webhookIds } }, data: { active: false } });
+  });
+
+  describe('helpers', () => {
+    it('should sign payloads with HMAC-SHA256', () => {
+      const expected = crypto.createHmac('sha256', 'secret').update('{"a":1}').digest('hex');
+      expect(signPayload('secret', '{"a":1}')).toBe(`sha256=${expected}`);
+      expect(signPayload('secret', 'x')).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(signPayload('secret', 'x')).not.toBe(signPayload('other', 'x'));
+    });
+
+    it('should double the backoff on each attempt', () => {
+      expect(backoffDelay(1)).toBe(30_000);
+      expect(backoffDelay(2)).toBe(60_000);
+      expect(backoffDelay(4)).toBe(240_000);
+    });
+
+    it('should match entity and mutation filters', () => {
+      const hook = { entities: '["items"]', mutations: '["create"]' };
+      expect(matchesEvent(hook, { entity: 'items', mutation: 'create', id: 1 })).toBe(true);
+      expect(matchesEvent(hook, { entity: 'items', mutation: 'update', id: 1 })).toBe(false);
+      expect(matchesEvent(hook, { entity: 'people', mutation: 'create', id: 1 })).toBe(false);
+      expect(matchesEvent({ entities: null, mutations: null }, { entity: 'people', mutation: 'delete' })).toBe(true);
+    });
+  });
+
+  describe('delivery', () => {
+    it('should deliver signed payloads with the changed record', async () => {
+      const webhook = await createWebhook({ name: 'Items', url: `${baseUrl}/hook`, entities: ['items'] });
+      const item = await caller.items.create({ title: 'Webhook payload item' });
+      itemIds.push(item.id);
+
+      const [deliveryId] = await dispatchDataChange(getPrisma(), { entity: 'items', mutation: 'create', id: item.id });
+
+      expect(received).toHaveLength(1);
+      const [request] = received;
+      expect(request.headers['x-kw-event']).toBe('items.create');
+      expect(request.headers['x-kw-delivery']).toBe(String(deliveryId));
+      expect(request.headers['x-kw-signature']).toBe(signPayload(webhook.secret, request.body));
+
+      const payload = JSON.parse(request.body);
+      expect(payload.ids).toEqual([item.id]);
+      expect(payload.data[0].title).toBe('Webhook payload item');
+
+      const { deliveries } = await caller.webhooks.deliveries({ webhookId: webhook.id });
+      expect(deliveries[0]).toMatchObject({ status: 'success', attempts: 1, responseStatus: 200 });
+    });
+
+    it('should skip webhooks whose filters do not match', async () => {
+      await createWebhook({ name: 'People only', url: `${baseUrl}/hook`, entities: ['people'] });
+
+      const ids = await dispatchDataChange(getPrisma(), { entity: 'items', mutation: 'update', id: 1 });
+
+      expect(ids).toEqual([]);
+      expect(received).toHaveLength(0);
+    });
+
+    it('should retry failures with backoff until attempts run out', async () => {
+      const webhook = await createWebhook({ name: 'Failing', url: `${baseUrl}/fail` });
+
+      const [deliveryId] = await dispatchDataChange(getPrisma(), { entity: 'projects', mutation: 'update', id: 1 });
+      let delivery = await caller.webhooks.getDelivery({ id: deliveryId });
+      expect(delivery.status).toBe('retrying');
+      expect(delivery.error).toContain('500');
+      expect(new Date(delivery.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now());
+
+      // Not due yet: nothing is retried
+      await processDueDeliveries(getPrisma());
+      expect((await caller.webhooks.getDelivery({ id: deliveryId })).attempts).toBe(1);
+
+      // Jump past every backoff
+      for (let i = 1; i < MAX_ATTEMPTS; i++) {
+        await processDueDeliveries(getPrisma(), new Date(Date.now() + 24 * 60 * 60 * 1000));
+      }
+
+      delivery = await caller.webhooks.getDelivery({ id: deliveryId });
+      expect(delivery.status).toBe('failed');
+      expect(delivery.attempts).toBe(MAX_ATTEMPTS);
+      expect(delivery.nextAttemptAt).toBeNull();
+      expect(received.filter(r => r.headers['x-kw-delivery'] === String(deliveryId))).toHaveLength(MAX_ATTEMPTS);
+
+      // A manual redelivery starts a fresh delivery with the same payload
+      await caller.webhooks.update({ id: webhook.id, data: { url: `${baseUrl}/hook` } });
+      const redelivered = await caller.webhooks.redeliver({ id: deliveryId });
+      expect(redelivered.id).not.toBe(deliveryId);
+      expect(redelivered.status).toBe('success');
+    });
+
+    it('should send a due delivery once when attempts overlap', async () => {
+      const webhook = await createWebhook({ name: 'Overlap', url: `${baseUrl}/hook` });
+      const delivery = await getPrisma().webhookDelivery.create({
+        data: { webhookId: webhook.id, event: 'items.update', payload: '{}', nextAttemptAt: new Date() },
+      });
+
+      // The dispatch's first attempt racing two polls
+      await Promise.all([
+        attemptDelivery(getPrisma(), delivery.id),
+        processDueDeliveries(getPrisma()),
+        processDueDeliveries(getPrisma()),
+      ]);
+
+      expect(received.filter(r => r.headers['x-kw-delivery'] === String(delivery.id))).toHaveLength(1);
+      expect(await caller.webhooks.getDelivery({ id: delivery.id })).toMatchObject({ status: 'success', attempts: 1 });
+    });
+
+    it('should coalesce duplicate events from the worker', async () => {
+      await createWebhook({ name: 'Worker', url: `${baseUrl}/hook`, entities: ['people'] });
+      const stop = startWebhookWorker(getPrisma(), 60_000);
+
+      emitDataChange({ entity: 'people', mutation: 'update', id: 999999 });
+      emitDataChange({ entity: 'people', mutation: 'update', id: 999999 });
+
+      await expect.poll(() => received.length, { timeout: 2000 }).toBe(1);
+      stop();
+    });
+  });
+
+  describe('router', () => {
+    it('should hide secrets from the list and ping on test', async () => {
+      const webhook = await createWebhook({ name: 'Ping', url: `${baseUrl}/hook` });
+      expect(webhook.secret).toHaveLength(48);
+
+      const { webhooks } = await caller.webhooks.list();
+      const listed = webhooks.find(w => w.id === webhook.id);
+      expect(listed).toBeDefined();
+      expect(listed).not.toHaveProperty('secret');
+
+      const ping = await caller.webhooks.test({ id: webhook.id });
+      expect(ping.event).toBe('ping');
+      expect(ping.status).toBe('success');
+
+      const rotated = await caller.webhooks.rotateSecret({ id: webhook.id });
+      expect(rotated.secret).not.toBe(webhook.secret);
+    });
+
+    it('should validate filters and report missing webhooks', async () => {
+      await expect(
+        caller.webhooks.create({ name: 'Bad', url: 'not a url' })
+      ).rejects.toThrow();
+      await expect(caller.webhooks.get({ id: 99999999 })).rejects.toThrow(/not found/);
+    });
+  });
+});
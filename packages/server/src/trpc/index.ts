@@ -6,23 +6,35 @@
  */
 
 // Re-export tRPC utilities from trpc.ts (separate file to avoid circular deps)
-export { router, publicProcedure, middleware, createContext, type TRPCContext } from './trpc.js';
+export { router, publicProcedure, protectedProcedure, middleware, createContext, type TRPCContext } from './trpc.js';
 
 // Import routers
 import { router } from './trpc.js';
+import { activitiesRouter } from './routers/activities.js';
+import { auditRouter } from './routers/audit.js';
+import { authRouter } from './routers/auth.js';
+import { exportRouter } from './routers/export.js';
 import { filesRouter } from './routers/files.js';
 import { calendarRouter } from './routers/calendar.js';
 import { gmailRouter } from './routers/gmail.js';
+import { importRouter } from './routers/import.js';
+import { invoicesRouter } from './routers/invoices.js';
+import { itemTemplatesRouter } from './routers/item-templates.js';
 import { itemsRouter } from './routers/items.js';
+import { meetingsRouter } from './routers/meetings.js';
 import { notificationsRouter } from './routers/notifications.js';
 import { organizationsRouter } from './routers/organizations.js';
 import { peopleRouter } from './routers/people.js';
+import { planningRouter } from './routers/planning.js';
 import { projectsRouter } from './routers/projects.js';
 import { queryRouter } from './routers/query.js';
 import { routinesRouter } from './routers/routines.js';
+import { searchRouter } from './routers/search.js';
 import { syncRouter } from './routers/sync.js';
 import { tagsRouter } from './routers/tags.js';
 import { timecardRouter } from './routers/timecard.js';
+import { viewsRouter } from './routers/views.js';
+import { webhooksRouter } from './routers/webhooks.js';
 import { focusRouter } from './routers/focus.js';
 
 // =============================================================================
@@ -30,19 +42,31 @@ import { focusRouter } from './routers/focus.js';
 // =============================================================================
 
 export const appRouter = router({
+  activities: activitiesRouter,
+  audit: auditRouter,
+  auth: authRouter,
   calendar: calendarRouter,
+  export: exportRouter,
   files: filesRouter,
   gmail: gmailRouter,
+  import: importRouter,
+  invoices: invoicesRouter,
   items: itemsRouter,
+  itemTemplates: itemTemplatesRouter,
+  meetings: meetingsRouter,
   notifications: notificationsRouter,
   organizations: organizationsRouter,
   people: peopleRouter,
+  planning: planningRouter,
   projects: projectsRouter,
   query: queryRouter,
   routines: routinesRouter,
+  search: searchRouter,
   sync: syncRouter,
   tags: tagsRouter,
   timecard: timecardRouter,
+  views: viewsRouter,
+  webhooks: webhooksRouter,
   focus: focusRouter,
 });
 
@@ -0,0 +1,91 @@
+/**
+ * Activities Router (tRPC)
+ *
+ * Operations on individual entries of the item activity log. Reverting an
+ * activity undoes the whole mutation that wrote it, using the audit log
+ * snapshots recorded for the same request.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { formatTaskId } from '@kw/api-types';
+import { router, protectedProcedure } from '../trpc.js';
+import { SYSTEM_ACTOR } from '../../services/audit.js';
+import { findRevertConflicts, revertAuditEntries, REVERTIBLE_ENTITIES } from '../../services/revert.js';
+import { indexItem } from '../../services/search-index.js';
+import { emit } from '../../events.js';
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const activitiesRouter = router({
+  /**
+   * Revert the change behind an activity entry, restoring the fields, people,
+   * tags and links it touched. Fails with CONFLICT if any of those have been
+   * changed again since, unless force is set.
+   */
+  revert: protectedProcedure
+    .input(z.object({
+      activityId: z.number(),
+      force: z.boolean().optional().default(false),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const activity = await ctx.prisma.activity.findUnique({ where: { id: input.activityId } });
+      if (!activity) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Activity ${input.activityId} not found` });
+      }
+      if (!activity.requestId) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Activity ${input.activityId} predates the audit log and can't be reverted`,
+        });
+      }
+
+      const entries = await ctx.prisma.auditLog.findMany({
+        where: { requestId: activity.requestId, entity: { in: REVERTIBLE_ENTITIES } },
+      });
+      if (entries.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Activity ${input.activityId} has no recorded changes to revert`,
+        });
+      }
+      if (entries.some(e => e.revertedBy)) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Activity ${input.activityId} has already been reverted`,
+        });
+      }
+
+      const conflicts = await findRevertConflicts(ctx.prisma, entries);
+      if (conflicts.length > 0 && !input.force) {
+        const detail = conflicts
+          .map(c => `${formatTaskId(c.entityId)} (${c.fields.join(', ')})`)
+          .join('; ');
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `Changed since this activity: ${detail}. Use force to revert anyway`,
+        });
+      }
+
+      const { itemIds } = await revertAuditEntries(ctx.prisma, entries, {
+        procedure: 'activities.revert',
+        actor: ctx.actor ?? SYSTEM_ACTOR,
+      });
+
+      for (const id of itemIds) {
+        await indexItem(ctx.prisma, id);
+      }
+      emit.items.batchUpdated(itemIds);
+
+      return {
+        reverted: true,
+        procedure: entries[0].procedure,
+        ids: itemIds,
+        displayIds: itemIds.map(formatTaskId),
+      };
+    }),
+});
+
+export type ActivitiesRouter = typeof activitiesRouter;
@@ -0,0 +1,169 @@
+/**
+ * Audit Router (tRPC)
+ *
+ * Query the audit log written by the audit middleware: who changed which
+ * records, when, and what each record looked like before and after.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../trpc.js';
+import { AUDITED_ENTITIES, ACTOR_TYPES, diffSnapshots, type Snapshot } from '../../services/audit.js';
+import { resolveItemId } from '../utils/id-parser.js';
+import type { AuditLog, Prisma } from '../../generated/prisma/index.js';
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+const AuditEntitySchema = z.enum(AUDITED_ENTITIES);
+const ActorTypeSchema = z.enum(ACTOR_TYPES);
+
+/** ISO date or date-time */
+const TimestampSchema = z.string().refine((s) => !Number.isNaN(Date.parse(s)), {
+  message: 'Expected an ISO date or date-time',
+});
+
+const TimeRangeSchema = z.object({
+  since: TimestampSchema.optional(),
+  until: TimestampSchema.optional(),
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function parseSnapshot(json: string | null): Snapshot | null {
+  return json ? (JSON.parse(json) as Snapshot) : null;
+}
+
+function formatEntry(entry: AuditLog, includeSnapshots = false) {
+  const before = parseSnapshot(entry.before);
+  const after = parseSnapshot(entry.after);
+
+  return {
+    id: entry.id,
+    requestId: entry.requestId,
+    entity: entry.entity as z.infer<typeof AuditEntitySchema>,
+    entityId: entry.entityId,
+    action: entry.action as 'create' | 'update' | 'delete',
+    procedure: entry.procedure,
+    actor: {
+      type: entry.actorType as z.infer<typeof ActorTypeSchema>,
+      name: entry.actorName,
+    },
+    changes: entry.action === 'update' ? diffSnapshots(before, after) : [],
+    createdAt: entry.createdAt.toISOString(),
+    ...(includeSnapshots && { before, after }),
+  };
+}
+
+function timeRangeWhere(range: z.infer<typeof TimeRangeSchema> | undefined): Prisma.AuditLogWhereInput {
+  if (!range?.since && !range?.until) return {};
+  return {
+    createdAt: {
+      ...(range.since && { gte: new Date(range.since) }),
+      ...(range.until && { lte: new Date(range.until) }),
+    },
+  };
+}
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const auditRouter = router({
+  /**
+   * Audit entries, newest first. Filter by record, actor, procedure or time
+   * range; page with the returned nextCursor.
+   */
+  list: protectedProcedure
+    .input(TimeRangeSchema.extend({
+      entity: AuditEntitySchema.optional(),
+      /** Record id; items also accept "T-123" */
+      entityId: z.union([z.number(), z.string()]).optional(),
+      actorType: ActorTypeSchema.optional(),
+      actorName: z.string().optional(),
+      procedure: z.string().optional(),
+      requestId: z.string().optional(),
+      limit: z.number().min(1).max(500).optional().default(100),
+      /** Return entries older than this entry id */
+      cursor: z.number().optional(),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      if (input?.entityId !== undefined && !input.entity) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'entityId requires entity' });
+      }
+
+      let entityId: number | undefined;
+      if (input?.entityId !== undefined) {
+        try {
+          entityId = resolveItemId(input.entityId);
+        } catch (e) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: (e as Error).message });
+        }
+      }
+
+      const limit = input?.limit ?? 100;
+      const entries = await ctx.prisma.auditLog.findMany({
+        where: {
+          ...(input?.entity && { entity: input.entity }),
+          ...(entityId !== undefined && { entityId }),
+          ...(input?.actorType && { actorType: input.actorType }),
+          ...(input?.actorName && { actorName: input.actorName }),
+          ...(input?.procedure && { procedure: input.procedure }),
+          ...(input?.requestId && { requestId: input.requestId }),
+          ...(input?.cursor !== undefined && { id: { lt: input.cursor } }),
+          ...timeRangeWhere(input),
+        },
+        orderBy: { id: 'desc' },
+        take: limit + 1,
+      });
+
+      const page = entries.slice(0, limit);
+      return {
+        entries: page.map((e) => formatEntry(e)),
+        nextCursor: entries.length > limit ? page[page.length - 1].id : null,
+      };
+    }),
+
+  /**
+   * One audit entry with its full before/after snapshots
+   */
+  get: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const entry = await ctx.prisma.auditLog.findUnique({ where: { id: input.id } });
+      if (!entry) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Audit entry ${input.id} not found` });
+      }
+      return formatEntry(entry, true);
+    }),
+
+  /**
+   * Who made changes in a time range, with counts per actor
+   */
+  actors: protectedProcedure
+    .input(TimeRangeSchema.optional())
+    .query(async ({ ctx, input }) => {
+      const groups = await ctx.prisma.auditLog.groupBy({
+        by: ['actorType', 'actorName'],
+        where: timeRangeWhere(input),
+        _count: { _all: true },
+        _max: { createdAt: true },
+      });
+
+      return {
+        actors: groups
+          .map((g) => ({
+            type: g.actorType as z.infer<typeof ActorTypeSchema>,
+            name: g.actorName,
+            changes: g._count._all,
+            lastChangeAt: g._max.createdAt?.toISOString() ?? null,
+          }))
+          .sort((a, b) => b.changes - a.changes),
+      };
+    }),
+});
+
+export type AuditRouter = typeof auditRouter;
@@ -0,0 +1,154 @@
+/**
+ * Auth Router (tRPC)
+ *
+ * Passphrase login for the web app and management of personal API tokens.
+ * See services/auth.ts for how tokens are checked.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, publicProcedure, protectedProcedure, requireSession } from '../trpc.js';
+import { isAuthRequired, verifyPassphrase, issueToken, SESSION_TTL_MS } from '../../services/auth.js';
+import type { ApiToken } from '../../generated/prisma/index.js';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formatToken(token: ApiToken) {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    kind: token.kind as 'api' | 'session',
+    scope: token.scope as 'read' | 'write',
+    expiresAt: token.expiresAt?.toISOString() ?? null,
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    revokedAt: token.revokedAt?.toISOString() ?? null,
+    createdAt: token.createdAt.toISOString(),
+  };
+}
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const authRouter = router({
+  /**
+   * Whether auth is enabled and who the caller is
+   */
+  status: publicProcedure
+    .query(({ ctx }) => {
+      const principal = ctx.auth?.principal ?? null;
+      return {
+        required: isAuthRequired(),
+        authenticated: principal !== null,
+        principal: principal && { name: principal.name, kind: principal.kind, scope: principal.scope },
+      };
+    }),
+
+  /**
+   * Exchange the passphrase for a read-write session token
+   */
+  login: publicProcedure
+    .input(z.object({ passphrase: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      if (!isAuthRequired()) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Authentication is not enabled (AUTH_PASSPHRASE is not set)' });
+      }
+      if (!verifyPassphrase(input.passphrase)) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Incorrect passphrase' });
+      }
+
+      const { token, record } = await issueToken(ctx.prisma, {
+        name: 'Web session',
+        kind: 'session',
+        scope: 'write',
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      });
+
+      return { token, expiresAt: record.expiresAt!.toISOString() };
+    }),
+
+  /**
+   * Revoke the caller's session token
+   */
+  logout: publicProcedure
+    .mutation(async ({ ctx }) => {
+      const principal = ctx.auth?.principal;
+      if (principal?.kind === 'session') {
+        await ctx.prisma.apiToken.update({
+          where: { id: principal.tokenId },
+          data: { revokedAt: new Date() },
+        });
+      }
+      return { success: true };
+    }),
+
+  /**
+   * List API tokens and web sessions. Token values are never returned.
+   */
+  listTokens: protectedProcedure
+    .input(z.object({
+      includeRevoked: z.boolean().optional().default(false),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      const tokens = await ctx.prisma.apiToken.findMany({
+        where: input?.includeRevoked ? {} : { revokedAt: null },
+        orderBy: [{ kind: 'asc' }, { createdAt: 'desc' }],
+      });
+
+      return {
+        tokens: tokens.map(formatToken),
+        currentTokenId: ctx.auth?.principal?.tokenId ?? null,
+      };
+    }),
+
+  /**
+   * Create a personal API token. The token is only returned here.
+   */
+  createToken: protectedProcedure
+    .input(z.object({
+      name: z.string().min(1),
+      scope: z.enum(['read', 'write']),
+      expiresInDays: z.number().int().min(1).max(3650).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      requireSession(ctx, 'manage tokens');
+
+      const { token, record } = await issueToken(ctx.prisma, {
+        name: input.name,
+        kind: 'api',
+        scope: input.scope,
+        expiresAt: input.expiresInDays
+          ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+          : null,
+      });
+
+      return { ...formatToken(record), token };
+    }),
+
+  /**
+   * Revoke a token or web session
+   */
+  revokeToken: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      requireSession(ctx, 'manage tokens');
+
+      try {
+        const token = await ctx.prisma.apiToken.update({
+          where: { id: input.id },
+          data: { revokedAt: new Date() },
+        });
+        return formatToken(token);
+      } catch (e) {
+        if ((e as { code?: string }).code === 'P2025') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Token ${input.id} not found` });
+        }
+        throw e;
+      }
+    }),
+});
+
+export type AuthRouter = typeof authRouter;
@@ -1,7 +1,8 @@
 /**
  * Calendar Router (tRPC)
  *
- * Type-safe API for Google Calendar operations.
+ * Type-safe API for Google Calendar operations. Writes (createEvent,
+ * updateEvent, deleteEvent) need the calendar.events scope.
  * Requires Google OAuth setup via: npx tsx src/scripts/google-auth.ts
  *
  * Supports multiple calendars via GOOGLE_CALENDAR_IDS env var (comma-separated).
@@ -10,34 +11,31 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import {
   CalendarListSchema,
   CalendarInfoSchema,
+  CreateCalendarEventSchema,
+  UpdateCalendarEventSchema,
+  DeleteCalendarEventSchema,
   type CalendarEvent,
+  type CalendarEventInput,
 } from '@kw/api-types';
 import {
   getCalendarClient,
+  getConfiguredCalendarIds,
   isGmailConfigured,
   hasCredentials,
   hasTokens,
   getAuthenticatedEmail,
 } from '../../services/google-client.js';
+import { isEventGone, isScopeError } from '../../services/calendar-blocks.js';
 import type { calendar_v3 } from 'googleapis';
 
 // =============================================================================
 // HELPERS
 // =============================================================================
 
-/**
- * Get configured calendar IDs from env var, defaulting to ['primary'].
- */
-function getConfiguredCalendarIds(): string[] {
-  const env = process.env.GOOGLE_CALENDAR_IDS;
-  if (!env) return ['primary'];
-  return env.split(',').map(id => id.trim()).filter(Boolean);
-}
-
 /**
  * Format a Calendar API event to CalendarEvent.
  */
@@ -141,6 +139,53 @@ async function queryMultipleCalendars(
   return { events: limited, nextPageToken: null };
 }
 
+/**
+ * Calendar client for the write procedures, or PRECONDITION_FAILED
+ */
+async function requireCalendarClient(): Promise<calendar_v3.Calendar> {
+  const calendar = await getCalendarClient().catch(() => null);
+  if (!calendar) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: 'Calendar not configured. Run: npx tsx src/scripts/google-auth.ts',
+    });
+  }
+  return calendar;
+}
+
+/**
+ * Map Calendar API write errors: a missing scope (tokens from before event
+ * writes were requested) or an unknown event.
+ */
+function toWriteError(err: unknown, eventId?: string): unknown {
+  if (isScopeError(err)) {
+    return new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: 'Calendar write scope not authorized. Re-run google-auth.ts to grant event access.',
+    });
+  }
+  if (eventId && isEventGone(err)) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Calendar event ${eventId} not found`,
+    });
+  }
+  return err;
+}
+
+/**
+ * Calendar API event body from event input. Times are sent as UTC instants.
+ */
+function toEventBody(data: Partial<CalendarEventInput>): calendar_v3.Schema$Event {
+  const body: calendar_v3.Schema$Event = {};
+  if (data.summary !== undefined) body.summary = data.summary;
+  if (data.description !== undefined) body.description = data.description;
+  if (data.location !== undefined) body.location = data.location;
+  if (data.start !== undefined) body.start = { dateTime: new Date(data.start).toISOString() };
+  if (data.end !== undefined) body.end = { dateTime: new Date(data.end).toISOString() };
+  return body;
+}
+
 // =============================================================================
 // ROUTER
 // =============================================================================
@@ -149,7 +194,7 @@ export const calendarRouter = router({
   /**
    * Check Calendar configuration and authentication status.
    */
-  status: publicProcedure.query(async () => {
+  status: protectedProcedure.query(async () => {
     const configured = isGmailConfigured();
     const hasCredentialsFile = hasCredentials();
     const hasTokensFile = hasTokens();
@@ -178,7 +223,7 @@ export const calendarRouter = router({
    * List calendar events in a time range.
    * When no explicit calendarId is provided, queries all configured calendars.
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(CalendarListSchema)
     .query(async ({ input }) => {
       const calendar = await getCalendarClient();
@@ -236,7 +281,7 @@ export const calendarRouter = router({
    * Search calendar events by text query.
    * When no explicit calendarId is provided, searches all configured calendars.
    */
-  search: publicProcedure
+  search: protectedProcedure
     .input(z.object({
       query: z.string().min(1),
       timeMin: z.string().optional(),
@@ -296,7 +341,7 @@ export const calendarRouter = router({
   /**
    * Get a single calendar event by ID.
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       id: z.string().min(1),
       calendarId: z.string().optional().default('primary'),
@@ -331,7 +376,7 @@ export const calendarRouter = router({
   /**
    * List all calendars the authenticated user has access to.
    */
-  calendars: publicProcedure.query(async () => {
+  calendars: protectedProcedure.query(async () => {
     const calendar = await getCalendarClient();
     if (!calendar) {
       throw new TRPCError({
@@ -364,6 +409,68 @@ export const calendarRouter = router({
       throw err;
     }
   }),
+
+  /**
+   * Create a timed event.
+   */
+  createEvent: protectedProcedure
+    .input(CreateCalendarEventSchema)
+    .mutation(async ({ input }) => {
+      const { calendarId, ...data } = input;
+      if (new Date(data.end) <= new Date(data.start)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Event must end after it starts' });
+      }
+
+      const calendar = await requireCalendarClient();
+      try {
+        const response = await calendar.events.insert({ calendarId, requestBody: toEventBody(data) });
+        return formatEvent(response.data, calendarId);
+      } catch (err) {
+        throw toWriteError(err);
+      }
+    }),
+
+  /**
+   * Update fields of an event. Fields not given are left as they are.
+   */
+  updateEvent: protectedProcedure
+    .input(UpdateCalendarEventSchema)
+    .mutation(async ({ input }) => {
+      const body = toEventBody(input.data);
+      if (Object.keys(body).length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'No fields to update' });
+      }
+      if (input.data.start && input.data.end && new Date(input.data.end) <= new Date(input.data.start)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Event must end after it starts' });
+      }
+
+      const calendar = await requireCalendarClient();
+      try {
+        const response = await calendar.events.patch({
+          calendarId: input.calendarId,
+          eventId: input.id,
+          requestBody: body,
+        });
+        return formatEvent(response.data, input.calendarId);
+      } catch (err) {
+        throw toWriteError(err, input.id);
+      }
+    }),
+
+  /**
+   * Delete an event.
+   */
+  deleteEvent: protectedProcedure
+    .input(DeleteCalendarEventSchema)
+    .mutation(async ({ input }) => {
+      const calendar = await requireCalendarClient();
+      try {
+        await calendar.events.delete({ calendarId: input.calendarId, eventId: input.id });
+        return { deleted: true, id: input.id };
+      } catch (err) {
+        throw toWriteError(err, input.id);
+      }
+    }),
 });
 
 export type CalendarRouter = typeof calendarRouter;
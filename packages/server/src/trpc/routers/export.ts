@@ -0,0 +1,42 @@
+/**
+ * Export Router (tRPC)
+ *
+ * Full database archives and the snapshots written on a schedule. Restore is
+ * import.restore.
+ */
+
+import { router, protectedProcedure, requireWriteScope } from '../trpc.js';
+import { exportDatabase, listSnapshots, pruneSnapshots, snapshotRetention, writeSnapshot } from '../../services/backup.js';
+
+export const exportRouter = router({
+  /**
+   * Every table as a versioned JSON archive. It holds webhook secrets and
+   * API token rows, so read-only tokens can't fetch it.
+   */
+  all: protectedProcedure
+    .query(async ({ ctx }) => {
+      requireWriteScope(ctx);
+      return exportDatabase(ctx.prisma);
+    }),
+
+  /**
+   * Stored snapshots, newest first
+   */
+  snapshots: protectedProcedure
+    .query(({ ctx }) => {
+      requireWriteScope(ctx);
+      return { snapshots: listSnapshots() };
+    }),
+
+  /**
+   * Write a snapshot now, then apply the retention limit
+   */
+  snapshot: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      const snapshot = await writeSnapshot(ctx.prisma);
+      const pruned = pruneSnapshots(snapshotRetention());
+      return { snapshot, pruned };
+    }),
+});
+
+export type ExportRouter = typeof exportRouter;
@@ -1,21 +1,27 @@
 /**
  * Files Router (tRPC)
  *
- * Type-safe API for browsing and reading files in the knowledge base.
- * All operations are read-only and paths are validated to stay within KB.
+ * Type-safe API for browsing and reading files in the knowledge base, plus
+ * conflict-checked saves with revision history for the web editor (see
+ * services/file-revisions.ts). Paths are validated to stay within KB.
  */
 
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import {
   FileListInputSchema,
   FileTreeInputSchema,
   FileSearchInputSchema,
   FileGetInputSchema,
+  FileSaveInputSchema,
+  FileRevisionInputSchema,
+  FileRestoreInputSchema,
   type FileEntry,
   type TreeNode,
   type FileSearchResult,
   type FileContent,
+  type FileReadResult,
+  type FileSaveResult,
 } from '@kw/api-types';
 import {
   getKnowledgeBasePath,
@@ -23,6 +29,15 @@ import {
   getRelativeKBPath,
   isWithinKB,
 } from '../../services/paths.js';
+import {
+  isWritablePath,
+  listRevisions,
+  readRevision,
+  saveFileWithRevision,
+  type SaveFileResult,
+} from '../../services/file-revisions.js';
+import { actorLabel } from '../../services/audit.js';
+import { computeContentHash } from '../../services/hash-utils.js';
 import { existsSync, readFileSync, readdirSync, statSync, Dirent } from 'fs';
 import { join, extname, dirname } from 'path';
 import matter from 'gray-matter';
@@ -283,6 +298,35 @@ function buildTree(
   }
 }
 
+/**
+ * Validate a path the editor is about to write
+ */
+function validateWritablePath(relativePath: string): string {
+  const absolutePath = validatePath(relativePath);
+  if (!isWritablePath(relativePath)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Cannot write to ${relativePath}` });
+  }
+  if (existsSync(absolutePath) && statSync(absolutePath).isDirectory()) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Path is a directory, not a file' });
+  }
+  return absolutePath;
+}
+
+/**
+ * Turn a save result into the API response, or a CONFLICT error
+ */
+function saveResponse(relativePath: string, result: SaveFileResult): FileSaveResult {
+  if (!result.ok) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: result.currentHash
+        ? `${relativePath} has changed since it was loaded`
+        : `${relativePath} has been deleted since it was loaded`,
+    });
+  }
+  return { path: relativePath, hash: result.hash, revision: result.revision };
+}
+
 // =============================================================================
 // ROUTER
 // =============================================================================
@@ -291,7 +335,7 @@ export const filesRouter = router({
   /**
    * List files and folders in a directory
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(FileListInputSchema)
     .query(({ input }) => {
       const { path: dirPath, includeHidden } = input;
@@ -335,7 +379,7 @@ export const filesRouter = router({
   /**
    * Get file content and metadata
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(FileGetInputSchema)
     .query(({ input }) => {
       const { path: filePath } = input;
@@ -384,10 +428,91 @@ export const filesRouter = router({
       return result;
     }),
 
+  /**
+   * Read a file for editing: raw content and the hash to save against
+   */
+  read: protectedProcedure
+    .input(FileGetInputSchema)
+    .query(({ input }) => {
+      const absolutePath = validatePath(input.path);
+      if (!existsSync(absolutePath) || statSync(absolutePath).isDirectory()) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `File not found: ${input.path}` });
+      }
+
+      const raw = readFileSync(absolutePath, 'utf-8');
+      const result: FileReadResult = {
+        path: input.path,
+        raw,
+        hash: computeContentHash(raw),
+        mtime: statSync(absolutePath).mtime.toISOString(),
+      };
+      return result;
+    }),
+
+  /**
+   * Save a file. Rejected with CONFLICT if it no longer matches baseHash;
+   * the client should re-read it and merge.
+   */
+  save: protectedProcedure
+    .input(FileSaveInputSchema)
+    .mutation(({ ctx, input }) => {
+      const absolutePath = validateWritablePath(input.path);
+      const result = saveFileWithRevision(absolutePath, input.path, input.content, {
+        baseHash: input.baseHash,
+        source: 'edit',
+        actor: actorLabel(ctx.actor),
+      });
+      return saveResponse(input.path, result);
+    }),
+
+  /**
+   * Saved revisions of a file, newest first
+   */
+  history: protectedProcedure
+    .input(FileGetInputSchema)
+    .query(({ input }) => {
+      validatePath(input.path);
+      return { path: input.path, revisions: listRevisions(input.path) };
+    }),
+
+  /**
+   * One revision with its content
+   */
+  revision: protectedProcedure
+    .input(FileRevisionInputSchema)
+    .query(({ input }) => {
+      validatePath(input.path);
+      const revision = readRevision(input.path, input.revisionId);
+      if (!revision) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Revision ${input.revisionId} not found` });
+      }
+      return revision;
+    }),
+
+  /**
+   * Put an earlier revision back. The current content is kept in history.
+   */
+  restore: protectedProcedure
+    .input(FileRestoreInputSchema)
+    .mutation(({ ctx, input }) => {
+      const absolutePath = validateWritablePath(input.path);
+      const revision = readRevision(input.path, input.revisionId);
+      if (!revision) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Revision ${input.revisionId} not found` });
+      }
+
+      const result = saveFileWithRevision(absolutePath, input.path, revision.content, {
+        baseHash: input.baseHash,
+        source: 'restore',
+        actor: actorLabel(ctx.actor),
+      });
+      return saveResponse(input.path, result);
+    }),
+
   /**
    * Get a tree structure of files and folders
    */
-  tree: publicProcedure
+  tree: protectedProcedure
     .input(FileTreeInputSchema)
     .query(({ input }) => {
       const { path: rootPath, depth, includeHidden } = input;
@@ -419,7 +544,7 @@ export const filesRouter = router({
   /**
    * Search for files matching a query
    */
-  search: publicProcedure
+  search: protectedProcedure
     .input(FileSearchInputSchema)
     .query(({ input }) => {
       const { query, path: searchPath, extensions, limit } = input;
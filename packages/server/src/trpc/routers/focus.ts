@@ -6,7 +6,7 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import { resolveKBPath } from '../../services/paths.js';
 import fs from 'fs';
 
@@ -163,7 +163,7 @@ export const focusRouter = router({
   /**
    * List all focus entries with optional date range filter
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(
       z
         .object({
@@ -195,7 +195,7 @@ export const focusRouter = router({
   /**
    * Get a focus entry for a specific date
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(
       z.object({
         date: z.string(),
@@ -210,7 +210,7 @@ export const focusRouter = router({
   /**
    * Create or update a focus entry for a date
    */
-  upsert: publicProcedure
+  upsert: protectedProcedure
     .input(
       z.object({
         date: z.string(),
@@ -259,7 +259,7 @@ export const focusRouter = router({
   /**
    * Get summary statistics for a time period
    */
-  summary: publicProcedure
+  summary: protectedProcedure
     .input(
       z
         .object({
@@ -7,7 +7,7 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import {
   EmailQuerySchema,
   EmailSearchSchema,
@@ -230,7 +230,7 @@ export const gmailRouter = router({
   /**
    * Check Gmail configuration and authentication status.
    */
-  status: publicProcedure.query(async () => {
+  status: protectedProcedure.query(async () => {
     const configured = isGmailConfigured();
     const hasCredentialsFile = hasCredentials();
     const hasTokensFile = hasTokens();
@@ -258,7 +258,7 @@ export const gmailRouter = router({
   /**
    * List emails with optional filters.
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(EmailQuerySchema)
     .query(async ({ input }) => {
       const gmail = await getGmailClient();
@@ -313,7 +313,7 @@ export const gmailRouter = router({
   /**
    * Search emails using Gmail query syntax.
    */
-  search: publicProcedure
+  search: protectedProcedure
     .input(EmailSearchSchema)
     .query(async ({ input }) => {
       const gmail = await getGmailClient();
@@ -360,7 +360,7 @@ export const gmailRouter = router({
   /**
    * Get a single email by ID with full content.
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       id: z.string().min(1),
     }))
@@ -395,7 +395,7 @@ export const gmailRouter = router({
   /**
    * Get all messages in a thread.
    */
-  getThread: publicProcedure
+  getThread: protectedProcedure
     .input(z.object({
       id: z.string().min(1),
     }))
@@ -438,7 +438,7 @@ export const gmailRouter = router({
   /**
    * List available labels.
    */
-  labels: publicProcedure.query(async () => {
+  labels: protectedProcedure.query(async () => {
     const gmail = await getGmailClient();
     if (!gmail) {
       throw new TRPCError({
@@ -467,7 +467,7 @@ export const gmailRouter = router({
   /**
    * Mark an email as read.
    */
-  markAsRead: publicProcedure
+  markAsRead: protectedProcedure
     .input(z.object({
       id: z.string().min(1),
     }))
@@ -504,7 +504,7 @@ export const gmailRouter = router({
   /**
    * Mark an email as unread.
    */
-  markAsUnread: publicProcedure
+  markAsUnread: protectedProcedure
     .input(z.object({
       id: z.string().min(1),
     }))
@@ -541,7 +541,7 @@ export const gmailRouter = router({
   /**
    * Archive an email (remove from INBOX).
    */
-  archive: publicProcedure
+  archive: protectedProcedure
     .input(z.object({
       id: z.string().min(1),
     }))
@@ -578,7 +578,7 @@ export const gmailRouter = router({
   /**
    * Move an email to trash.
    */
-  trash: publicProcedure
+  trash: protectedProcedure
     .input(z.object({
       id: z.string().min(1),
     }))
@@ -612,7 +612,7 @@ export const gmailRouter = router({
   /**
    * Untrash an email.
    */
-  untrash: publicProcedure
+  untrash: protectedProcedure
     .input(z.object({
       id: z.string().min(1),
     }))
@@ -651,7 +651,7 @@ export const gmailRouter = router({
    * Search contacts by name or email.
    * Requires re-authentication with contacts scope.
    */
-  contactsSearch: publicProcedure
+  contactsSearch: protectedProcedure
     .input(ContactSearchSchema)
     .query(async ({ input }) => {
       const people = await getPeopleClient();
@@ -711,7 +711,7 @@ export const gmailRouter = router({
   /**
    * List recent/frequent contacts.
    */
-  contactsList: publicProcedure
+  contactsList: protectedProcedure
     .input(z.object({
       maxResults: z.number().min(1).max(100).optional().default(20),
     }))
@@ -0,0 +1,184 @@
+/**
+ * Import Router (tRPC)
+ *
+ * Todoist exports (JSON or CSV) and generic CSVs. preview shows what would be
+ * created and which rows are duplicates; commit creates it. Both take the
+ * file contents, so they are mutations.
+ *
+ * restore replaces the whole database with an export.all archive.
+ */
+
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, requireSession } from '../trpc.js';
+import { BackupArchiveSchema, ImportInputSchema, RestoreInputSchema, type ImportInput } from '@kw/api-types';
+import type { PrismaClient } from '../../generated/prisma/index.js';
+import { formatTaskId } from '../../types/index.js';
+import { commitImport, planImport, type ImportPlan } from '../../services/import.js';
+import { newRequestId, recordAudit, takeSnapshot, SYSTEM_ACTOR, type AuditEntity } from '../../services/audit.js';
+import { indexItem, rebuildSearchIndex } from '../../services/search-index.js';
+import { readSnapshot, restoreDatabase, validateArchive, writeSnapshot } from '../../services/backup.js';
+import { emitDataChange, type EntityType } from '../../events.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function plan(prisma: PrismaClient, input: ImportInput): Promise<ImportPlan> {
+  let orgId: number | null = null;
+  if (input.orgSlug) {
+    const org = await prisma.organization.findUnique({ where: { slug: input.orgSlug }, select: { id: true } });
+    if (!org) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Organization '${input.orgSlug}' not found` });
+    }
+    orgId = org.id;
+  }
+
+  let defaultProject: { id: number; name: string } | null = null;
+  if (input.projectId != null) {
+    defaultProject = await prisma.project.findUnique({ where: { id: input.projectId }, select: { id: true, name: true } });
+    if (!defaultProject) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Project with ID ${input.projectId} not found` });
+    }
+  }
+
+  try {
+    return await planImport(prisma, input.content, {
+      format: input.format,
+      fileName: input.fileName,
+      mapping: input.mapping,
+      orgId,
+      defaultProject,
+      createMissing: input.createMissing,
+    });
+  } catch (e) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: (e as Error).message });
+  }
+}
+
+// =============================================================================
+// Router
+// =============================================================================
+
+export const importRouter = router({
+  /**
+   * Parse a file and show what importing it would do, without writing anything
+   */
+  preview: protectedProcedure
+    .input(ImportInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      return (await plan(ctx.prisma, input)).preview;
+    }),
+
+  /**
+   * Import a file: create its projects, people, tags and items, skipping
+   * duplicates
+   */
+  commit: protectedProcedure
+    .input(ImportInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const importPlan = await plan(ctx.prisma, input);
+      // import isn't an audited router, so the audit entries are written here,
+      // under the same request id as the items' activity rows
+      const requestId = ctx.requestId ?? newRequestId();
+      const created = await commitImport(ctx.prisma, importPlan, {
+        fileName: input.fileName,
+        actor: ctx.actor,
+        requestId,
+      });
+
+      const entries = [];
+      const touched: [AuditEntity, number[]][] = [
+        ['projects', created.projectIds],
+        ['people', created.personIds],
+        ['tags', created.tagIds],
+        ['items', created.itemIds],
+      ];
+      for (const [entity, ids] of touched) {
+        for (const id of ids) {
+          if (entity === 'items') await indexItem(ctx.prisma, id);
+          entries.push({ entity, entityId: id, before: null, after: await takeSnapshot(ctx.prisma, entity, id) });
+        }
+      }
+      if (entries.length > 0) {
+        await recordAudit(ctx.prisma, {
+          requestId,
+          procedure: 'import.commit',
+          actor: ctx.actor ?? SYSTEM_ACTOR,
+          entries,
+        });
+        emitDataChange({ entity: 'items', mutation: 'create', ids: created.itemIds });
+        if (created.projectIds.length > 0) emitDataChange({ entity: 'projects', mutation: 'create', ids: created.projectIds });
+      }
+
+      return {
+        ...importPlan.preview,
+        ids: created.itemIds,
+        displayIds: created.itemIds.map(formatTaskId),
+      };
+    }),
+
+  /**
+   * Replace the whole database with an archive from export.all, or a stored
+   * snapshot. The current data is snapshotted first. Tokens and sessions come
+   * from the archive too, so only a web session may restore, and it may need
+   * to log in again.
+   */
+  restore: protectedProcedure
+    .input(RestoreInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      requireSession(ctx, 'restore the database');
+
+      let archive = input.archive;
+      if (input.snapshot) {
+        let contents: unknown;
+        try {
+          contents = readSnapshot(input.snapshot);
+        } catch (e) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: (e as Error).message });
+        }
+        const parsed = BackupArchiveSchema.safeParse(contents);
+        if (!parsed.success) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: `Snapshot ${input.snapshot} is not a valid archive` });
+        }
+        archive = parsed.data;
+      }
+
+      const problems = validateArchive(archive!);
+      if (problems.length > 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Archive can't be restored: ${problems.join('; ')}` });
+      }
+
+      const summary = {
+        schemaVersion: archive!.schemaVersion,
+        exportedAt: archive!.exportedAt,
+      };
+      if (input.dryRun) {
+        const tables = Object.entries(archive!.tables).map(([name, rows]) => ({ name, rows: rows.length }));
+        return { dryRun: true, ...summary, tables, safetySnapshot: null };
+      }
+
+      const safety = await writeSnapshot(ctx.prisma, 'pre-restore');
+      let tables;
+      try {
+        tables = await restoreDatabase(ctx.prisma, archive!);
+      } catch (e) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Restore failed, nothing was changed: ${(e as Error).message}`,
+        });
+      }
+
+      const search = await rebuildSearchIndex(ctx.prisma);
+      for (const error of search.errors) {
+        console.warn(`[restore] ${error}`);
+      }
+      const entities: EntityType[] = ['items', 'routines', 'projects', 'people', 'organizations', 'meetings'];
+      for (const entity of entities) {
+        emitDataChange({ entity, mutation: 'update' });
+      }
+
+      return { dryRun: false, ...summary, tables, safetySnapshot: safety.name };
+    }),
+});
+
+export type ImportRouter = typeof importRouter;
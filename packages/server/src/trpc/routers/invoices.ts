@@ -0,0 +1,323 @@
+/**
+ * Invoices Router (tRPC)
+ *
+ * Turns a month of timecard hours for a client into a numbered invoice,
+ * priced at the organization's billing rate. Each invoice is rendered to
+ * Markdown and HTML under the client's folder and tracked through
+ * draft -> sent -> paid.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import {
+  GenerateInvoiceSchema,
+  InvoiceStatusSchema,
+  type Invoice,
+  type InvoiceLineItem,
+  type InvoiceStatus,
+} from '@kw/api-types';
+import { router, protectedProcedure } from '../trpc.js';
+import { timecardRouter } from './timecard.js';
+import { writeInvoiceFiles, removeInvoiceFiles } from '../../services/invoice-renderer.js';
+import type { Invoice as PrismaInvoice, PrismaClient } from '../../generated/prisma/index.js';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+type InvoiceWithOrg = PrismaInvoice & { organization: { slug: string; name: string } };
+
+const invoiceIncludes = {
+  organization: { select: { slug: true, name: true } },
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function formatInvoice(invoice: InvoiceWithOrg): Invoice {
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    orgSlug: invoice.organization.slug,
+    orgName: invoice.organization.name,
+    month: invoice.month,
+    status: invoice.status as InvoiceStatus,
+    currency: invoice.currency,
+    hourlyRate: invoice.hourlyRate,
+    lineItems: JSON.parse(invoice.lineItems) as InvoiceLineItem[],
+    totalHours: invoice.totalHours,
+    subtotal: invoice.subtotal,
+    vatRate: invoice.vatRate,
+    vatAmount: invoice.vatAmount,
+    total: invoice.total,
+    notes: invoice.notes,
+    issueDate: toDateString(invoice.issueDate),
+    dueDate: toDateString(invoice.dueDate),
+    sentAt: invoice.sentAt?.toISOString() ?? null,
+    paidAt: invoice.paidAt?.toISOString() ?? null,
+    markdownPath: invoice.markdownPath,
+    htmlPath: invoice.htmlPath,
+    createdAt: invoice.createdAt.toISOString(),
+    updatedAt: invoice.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Next number in the year's sequence: INV-2026-001, INV-2026-002, ...
+ */
+async function nextInvoiceNumber(prisma: PrismaClient, year: number): Promise<string> {
+  const prefix = `INV-${year}-`;
+  const last = await prisma.invoice.findFirst({
+    where: { number: { startsWith: prefix } },
+    orderBy: { number: 'desc' },
+    select: { number: true },
+  });
+
+  const next = last ? parseInt(last.number.slice(prefix.length), 10) + 1 : 1;
+  return `${prefix}${next.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Render the invoice files and store their paths. Rendering failures are
+ * logged rather than thrown so the invoice record is never lost.
+ */
+async function renderAndSave(prisma: PrismaClient, invoice: InvoiceWithOrg): Promise<Invoice> {
+  const formatted = formatInvoice(invoice);
+
+  try {
+    const paths = writeInvoiceFiles(formatted);
+    const updated = await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: paths,
+      include: invoiceIncludes,
+    });
+    return formatInvoice(updated);
+  } catch (err) {
+    console.warn(`Failed to render invoice ${invoice.number}: ${err}`);
+    return formatted;
+  }
+}
+
+async function findInvoice(prisma: PrismaClient, id: number): Promise<InvoiceWithOrg> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id },
+    include: invoiceIncludes,
+  });
+
+  if (!invoice) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Invoice ${id} not found` });
+  }
+
+  return invoice;
+}
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const invoicesRouter = router({
+  /**
+   * List invoices, newest first
+   */
+  list: protectedProcedure
+    .input(z.object({
+      org: z.string().optional(),
+      status: InvoiceStatusSchema.optional(),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      const invoices = await ctx.prisma.invoice.findMany({
+        where: {
+          ...(input?.org && { organization: { slug: input.org } }),
+          ...(input?.status && { status: input.status }),
+        },
+        include: invoiceIncludes,
+        orderBy: [{ month: 'desc' }, { number: 'desc' }],
+      });
+
+      return {
+        invoices: invoices.map(formatInvoice),
+        count: invoices.length,
+      };
+    }),
+
+  /**
+   * Get an invoice by id or number
+   */
+  get: protectedProcedure
+    .input(z.object({
+      id: z.number().optional(),
+      number: z.string().optional(),
+    }).refine(d => d.id !== undefined || d.number !== undefined, 'Provide id or number'))
+    .query(async ({ ctx, input }) => {
+      const invoice = await ctx.prisma.invoice.findUnique({
+        where: input.id !== undefined ? { id: input.id } : { number: input.number! },
+        include: invoiceIncludes,
+      });
+
+      if (!invoice) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Invoice ${input.number ?? input.id} not found`,
+        });
+      }
+
+      return formatInvoice(invoice);
+    }),
+
+  /**
+   * Generate an invoice for a client's month of timecard hours.
+   * Regenerating a month that still has a draft replaces the draft in place
+   * (keeping its number); sent or paid invoices can't be regenerated.
+   */
+  generate: protectedProcedure
+    .input(GenerateInvoiceSchema)
+    .mutation(async ({ ctx, input }) => {
+      const org = await ctx.prisma.organization.findUnique({
+        where: { slug: input.org },
+      });
+
+      if (!org) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Organization not found: ${input.org}` });
+      }
+      if (org.billingRate === null) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `No billing rate set for ${org.name}`,
+        });
+      }
+
+      const existing = await ctx.prisma.invoice.findUnique({
+        where: { orgId_month: { orgId: org.id, month: input.month } },
+      });
+      if (existing && existing.status !== 'draft') {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `Invoice ${existing.number} for ${input.month} is already ${existing.status}`,
+        });
+      }
+
+      const { entries } = await timecardRouter.createCaller(ctx).list({
+        client: org.slug,
+        startDate: `${input.month}-01`,
+        endDate: `${input.month}-31`,
+        source: input.source,
+        limit: 10000,
+      });
+
+      if (entries.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `No timecard hours for ${org.name} in ${input.month}`,
+        });
+      }
+
+      const rate = org.billingRate;
+      const lineItems: InvoiceLineItem[] = [...entries].reverse().map((entry) => ({
+        date: entry.date,
+        description: entry.tasks,
+        hours: entry.hours,
+        rate,
+        amount: round2(entry.hours * rate),
+      }));
+
+      const subtotal = round2(lineItems.reduce((sum, line) => sum + line.amount, 0));
+      const vatAmount = input.vatRate !== undefined ? round2(subtotal * input.vatRate / 100) : 0;
+
+      const issueDate = new Date(toDateString(new Date()));
+      const dueDate = new Date(issueDate);
+      dueDate.setUTCDate(dueDate.getUTCDate() + input.dueDays);
+
+      const data = {
+        currency: org.billingCurrency || 'GBP',
+        hourlyRate: rate,
+        lineItems: JSON.stringify(lineItems),
+        totalHours: round2(lineItems.reduce((sum, line) => sum + line.hours, 0)),
+        subtotal,
+        vatRate: input.vatRate ?? null,
+        vatAmount,
+        total: round2(subtotal + vatAmount),
+        notes: input.notes ?? null,
+        issueDate,
+        dueDate,
+      };
+
+      const invoice = existing
+        ? await ctx.prisma.invoice.update({
+            where: { id: existing.id },
+            data,
+            include: invoiceIncludes,
+          })
+        : await ctx.prisma.invoice.create({
+            data: {
+              ...data,
+              number: await nextInvoiceNumber(ctx.prisma, issueDate.getUTCFullYear()),
+              orgId: org.id,
+              month: input.month,
+            },
+            include: invoiceIncludes,
+          });
+
+      return renderAndSave(ctx.prisma, invoice);
+    }),
+
+  /**
+   * Move an invoice between draft, sent and paid. Sent/paid timestamps are
+   * recorded the first time each status is reached and cleared on the way back.
+   */
+  updateStatus: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      status: InvoiceStatusSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const invoice = await findInvoice(ctx.prisma, input.id);
+      const now = new Date();
+
+      const updated = await ctx.prisma.invoice.update({
+        where: { id: input.id },
+        data: {
+          status: input.status,
+          sentAt: input.status === 'draft' ? null : invoice.sentAt ?? now,
+          paidAt: input.status === 'paid' ? invoice.paidAt ?? now : null,
+        },
+        include: invoiceIncludes,
+      });
+
+      return renderAndSave(ctx.prisma, updated);
+    }),
+
+  /**
+   * Delete a draft invoice and its rendered files
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const invoice = await findInvoice(ctx.prisma, input.id);
+
+      if (invoice.status !== 'draft') {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Cannot delete ${invoice.status} invoice ${invoice.number}`,
+        });
+      }
+
+      await ctx.prisma.invoice.delete({ where: { id: input.id } });
+
+      try {
+        removeInvoiceFiles([invoice.markdownPath, invoice.htmlPath]);
+      } catch (err) {
+        console.warn(`Failed to remove files for invoice ${invoice.number}: ${err}`);
+      }
+
+      return { deleted: true, id: input.id, number: invoice.number };
+    }),
+});
+
+export type InvoicesRouter = typeof invoicesRouter;
@@ -0,0 +1,189 @@
+/**
+ * Item Templates Router (tRPC)
+ *
+ * Reusable task trees (a parent task with subtasks, people, tags and
+ * check-ins). Use one with items.instantiateTemplate.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../trpc.js';
+import {
+  CreateItemTemplateSchema,
+  UpdateItemTemplateSchema,
+  type ItemTemplate,
+  type ItemTemplateStep,
+} from '@kw/api-types';
+import type { PrismaClient } from '../../generated/prisma/index.js';
+import { countTemplateItems, resolveTemplateReferences } from '../../services/item-templates.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatItemTemplate(template: {
+  id: number;
+  name: string;
+  description: string | null;
+  definition: string;
+  createdAt: Date;
+  updatedAt: Date;
+}): ItemTemplate {
+  const root = JSON.parse(template.definition) as ItemTemplateStep;
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    root,
+    itemCount: countTemplateItems(root),
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Reject templates naming people or tags that don't exist
+ */
+async function assertReferencesExist(prisma: PrismaClient, root: ItemTemplateStep) {
+  const { problems } = await resolveTemplateReferences(prisma, root);
+  if (problems.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: problems.join('; ') });
+  }
+}
+
+const TemplateRefSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+});
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const itemTemplatesRouter = router({
+  /**
+   * List item templates by name
+   */
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      const templates = await ctx.prisma.itemTemplate.findMany({
+        orderBy: { name: 'asc' },
+      });
+
+      return {
+        templates: templates.map(formatItemTemplate),
+        count: templates.length,
+      };
+    }),
+
+  /**
+   * Get an item template by ID or name
+   */
+  get: protectedProcedure
+    .input(TemplateRefSchema)
+    .query(async ({ ctx, input }) => {
+      if (input.id === undefined && !input.name) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Either id or name required' });
+      }
+
+      const template = await ctx.prisma.itemTemplate.findFirst({
+        where: input.id !== undefined ? { id: input.id } : { name: input.name },
+      });
+
+      if (!template) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Template not found: ${input.name ?? input.id}`,
+        });
+      }
+
+      return formatItemTemplate(template);
+    }),
+
+  /**
+   * Create an item template
+   */
+  create: protectedProcedure
+    .input(CreateItemTemplateSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertReferencesExist(ctx.prisma, input.root);
+
+      const existing = await ctx.prisma.itemTemplate.findUnique({
+        where: { name: input.name },
+      });
+
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `Template '${input.name}' already exists`,
+        });
+      }
+
+      const template = await ctx.prisma.itemTemplate.create({
+        data: {
+          name: input.name,
+          description: input.description || null,
+          definition: JSON.stringify(input.root),
+        },
+      });
+
+      return formatItemTemplate(template);
+    }),
+
+  /**
+   * Update an item template. Items already created from it are unchanged.
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      data: UpdateItemTemplateSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.data.root !== undefined) {
+        await assertReferencesExist(ctx.prisma, input.data.root);
+      }
+
+      try {
+        const template = await ctx.prisma.itemTemplate.update({
+          where: { id: input.id },
+          data: {
+            ...(input.data.name !== undefined && { name: input.data.name }),
+            ...(input.data.description !== undefined && { description: input.data.description }),
+            ...(input.data.root !== undefined && { definition: JSON.stringify(input.data.root) }),
+          },
+        });
+
+        return formatItemTemplate(template);
+      } catch (e) {
+        const code = (e as { code?: string }).code;
+        if (code === 'P2025') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Template ${input.id} not found` });
+        }
+        if (code === 'P2002') {
+          throw new TRPCError({ code: 'CONFLICT', message: `Template '${input.data.name}' already exists` });
+        }
+        throw e;
+      }
+    }),
+
+  /**
+   * Delete an item template
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await ctx.prisma.itemTemplate.delete({ where: { id: input.id } });
+        return { deleted: true, id: input.id };
+      } catch (e) {
+        if ((e as { code?: string }).code === 'P2025') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Template ${input.id} not found` });
+        }
+        throw e;
+      }
+    }),
+});
+
+export type ItemTemplatesRouter = typeof itemTemplatesRouter;
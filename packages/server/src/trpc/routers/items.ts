@@ -7,19 +7,45 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import {
   ItemQuerySchema,
   CreateItemSchema,
   UpdateItemSchema,
+  ItemStatusSchema,
+  ItemTypeSchema,
+  QuickAddDraftSchema,
+  InstantiateItemTemplateSchema,
+  ScheduleBlockSchema,
+  parseQuickAdd,
+  type ItemTemplateStep,
   formatTaskId,
+  type QuickAddDraft,
   type ItemWithRelations,
+  type UpdateItem,
 } from '@kw/api-types';
 import { syncTaskToSource } from '../../services/markdown-sync.js';
+import { isReadmeSourceType } from '../../services/readme-sync.js';
 import { logTaskActivity } from '../../services/diary-sync.js';
 import { getKnowledgeBasePath } from '../../services/paths.js';
-import type { Activity, ItemAttachment, ItemPerson, CheckIn, Prisma } from '../../generated/prisma/index.js';
-import { itemIdSchema, resolveItemId } from '../utils/id-parser.js';
+import { indexItem, indexDiaryFile } from '../../services/search-index.js';
+import { actorLabel, SYSTEM_ACTOR, takeSnapshot, recordAudit } from '../../services/audit.js';
+import { resolveQuickAddDraft } from '../../services/quick-add.js';
+import { instantiateItemTemplate, resolveTemplateReferences } from '../../services/item-templates.js';
+import { buildDependencyGraph, describeCycle, findBlockingPath } from '../../services/dependency-graph.js';
+import {
+  blockEvent,
+  isEventGone,
+  isScopeError,
+  readCalendarBlock,
+  syncCalendarBlock,
+  writeCalendarBlock,
+  DEFAULT_BLOCK_MINUTES,
+} from '../../services/calendar-blocks.js';
+import { getCalendarClient, getConfiguredCalendarIds } from '../../services/google-client.js';
+import { findRevertConflicts, revertAuditEntries, REVERTIBLE_ENTITIES, REVERT_PROCEDURES } from '../../services/revert.js';
+import type { Activity, ItemAttachment, ItemPerson, CheckIn, TimeEntry, Prisma, PrismaClient } from '../../generated/prisma/index.js';
+import { itemIdSchema, optionalItemIdSchema, resolveItemId } from '../utils/id-parser.js';
 import { emit } from '../../events.js';
 
 // =============================================================================
@@ -35,6 +61,7 @@ function formatItem(item: {
   priority: number | null;
   dueDate: Date | null;
   targetPeriod: string | null;
+  estimateMinutes?: number | null;
   projectId: number | null;
   ownerId: number | null;
   parentId: number | null;
@@ -71,6 +98,7 @@ function formatItem(item: {
     priority: item.priority,
     dueDate: item.dueDate?.toISOString().split('T')[0] || null,
     targetPeriod: item.targetPeriod,
+    estimateMinutes: item.estimateMinutes ?? null,
     projectId: item.projectId,
     ownerId: item.ownerId,
     parentId: item.parentId,
@@ -130,6 +158,257 @@ const itemIncludes = {
   _count: { select: { children: true } },
 };
 
+function formatTimeEntry(entry: TimeEntry, now: Date = new Date()) {
+  return {
+    id: entry.id,
+    itemId: entry.itemId,
+    displayId: formatTaskId(entry.itemId),
+    startedAt: entry.startedAt.toISOString(),
+    endedAt: entry.endedAt?.toISOString() ?? null,
+    // Running timers report elapsed time so far
+    minutes: entry.minutes ?? Math.floor((now.getTime() - entry.startedAt.getTime()) / 60000),
+    running: entry.endedAt === null,
+    note: entry.note,
+    source: entry.source,
+  };
+}
+
+// =============================================================================
+// HELPER: Field updates and their activity records (update and bulk operations)
+// =============================================================================
+
+interface ActivityRecord {
+  itemId: number;
+  action: string;
+  detail: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  createdBy: string;
+  requestId?: string;
+}
+
+/**
+ * Prisma update data for the fields set in an update payload
+ * (Unchecked to allow direct ID assignment)
+ */
+function buildItemUpdateData(data: UpdateItem): Prisma.ItemUncheckedUpdateInput {
+  const updateData: Prisma.ItemUncheckedUpdateInput = {};
+
+  if (data.title !== undefined) updateData.title = data.title;
+  if (data.description !== undefined) updateData.description = data.description;
+  if (data.status !== undefined) updateData.status = data.status;
+  if (data.priority !== undefined) updateData.priority = data.priority;
+  if (data.dueDate !== undefined) updateData.dueDate = data.dueDate ? new Date(data.dueDate) : null;
+  if (data.targetPeriod !== undefined) updateData.targetPeriod = data.targetPeriod;
+  if (data.estimateMinutes !== undefined) updateData.estimateMinutes = data.estimateMinutes;
+  if (data.ownerId !== undefined) updateData.ownerId = data.ownerId;
+  if (data.projectId !== undefined) updateData.projectId = data.projectId;
+  if (data.parentId !== undefined) updateData.parentId = data.parentId;
+  if (data.sourceMeetingId !== undefined) updateData.sourceMeetingId = data.sourceMeetingId;
+  if (data.metadata !== undefined) updateData.metadata = data.metadata ? JSON.stringify(data.metadata) : null;
+
+  return updateData;
+}
+
+/**
+ * Activity records for the tracked fields an update changes
+ */
+function fieldChangeActivities(
+  oldItem: {
+    id: number;
+    status: string;
+    priority: number | null;
+    dueDate: Date | null;
+    title: string;
+    ownerId: number | null;
+    projectId: number | null;
+    owner: { name: string } | null;
+    project: { name: string } | null;
+  },
+  data: UpdateItem,
+  attribution: { createdBy: string; requestId?: string }
+): ActivityRecord[] {
+  const activities: ActivityRecord[] = [];
+  const record = (action: string, oldValue: string | null, newValue: string | null) =>
+    activities.push({ itemId: oldItem.id, action, detail: null, oldValue, newValue, ...attribution });
+
+  // Status change
+  if (data.status !== undefined && data.status !== oldItem.status) {
+    record('status_changed', oldItem.status, data.status);
+  }
+
+  // Priority change
+  if (data.priority !== undefined && data.priority !== oldItem.priority) {
+    record('priority_changed', oldItem.priority?.toString() || null, data.priority?.toString() || null);
+  }
+
+  // Due date change
+  const oldDueDate = oldItem.dueDate?.toISOString().split('T')[0] || null;
+  const newDueDate = data.dueDate || null;
+  if (data.dueDate !== undefined && newDueDate !== oldDueDate) {
+    record('due_date_changed', oldDueDate, newDueDate);
+  }
+
+  // Title change
+  if (data.title !== undefined && data.title !== oldItem.title) {
+    record('title_changed', oldItem.title, data.title);
+  }
+
+  // Owner change (new value is resolved on display)
+  if (data.ownerId !== undefined && data.ownerId !== oldItem.ownerId) {
+    record('owner_changed', oldItem.owner?.name || null, null);
+  }
+
+  // Project change (new value is resolved on display)
+  if (data.projectId !== undefined && data.projectId !== oldItem.projectId) {
+    record('project_changed', oldItem.project?.name || null, null);
+  }
+
+  return activities;
+}
+
+/**
+ * Remove a completed item's "blocks" links and set items it was the last
+ * blocker of back to pending. Returns the unblocked items.
+ */
+async function releaseBlockedItems(
+  db: Prisma.TransactionClient,
+  completedId: number
+): Promise<Array<{ id: number; title: string }>> {
+  // Find all items that this completing task blocks
+  const blockingLinks = await db.itemLink.findMany({
+    where: {
+      fromId: completedId,
+      linkType: 'blocks',
+    },
+    include: {
+      to: {
+        select: { id: true, title: true, status: true },
+      },
+    },
+  });
+
+  const unblockedItems: Array<{ id: number; title: string }> = [];
+
+  // For each blocked item, check if it has other blockers
+  for (const link of blockingLinks) {
+    const blockedItem = link.to;
+    if (!blockedItem) continue;
+
+    // Delete this blocking link
+    await db.itemLink.delete({
+      where: { id: link.id },
+    });
+
+    // Check if the item has remaining blockers (excluding the one we just removed)
+    const remainingBlockers = await db.itemLink.count({
+      where: {
+        toId: blockedItem.id,
+        linkType: 'blocks',
+      },
+    });
+
+    // Only unblock if no remaining blockers AND status is currently blocked
+    if (remainingBlockers === 0 && blockedItem.status === 'blocked') {
+      await db.item.update({
+        where: { id: blockedItem.id },
+        data: { status: 'pending' },
+      });
+      unblockedItems.push({ id: blockedItem.id, title: blockedItem.title });
+
+      // Log activity on the unblocked item
+      await db.activity.create({
+        data: {
+          itemId: blockedItem.id,
+          action: 'unblocked',
+          detail: `Auto-unblocked: ${formatTaskId(completedId)} was completed`,
+          createdBy: 'system',
+        },
+      });
+    }
+  }
+
+  return unblockedItems;
+}
+
+/** Item ids for bulk operations (numbers or "T-123") */
+const BulkIdsSchema = z.array(itemIdSchema).min(1).max(500);
+
+/**
+ * Load the items for a bulk operation, failing if any are missing or deleted
+ */
+async function loadBulkItems(prisma: PrismaClient, rawIds: number[]) {
+  const ids = [...new Set(rawIds)];
+  const items = await prisma.item.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    include: {
+      owner: { select: { name: true } },
+      project: { select: { name: true, slug: true } },
+    },
+  });
+
+  const found = new Set(items.map(i => i.id));
+  const missing = ids.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Items not found: ${missing.map(formatTaskId).join(', ')}`,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Apply one update payload to several items in a transaction, with the same
+ * activity records items.update writes. Returns the updated ids.
+ */
+async function bulkUpdateItems(
+  prisma: PrismaClient,
+  items: Awaited<ReturnType<typeof loadBulkItems>>,
+  data: UpdateItem,
+  attribution: { createdBy: string; requestId?: string }
+): Promise<number[]> {
+  const updateData = buildItemUpdateData(data);
+
+  await prisma.$transaction(async (tx) => {
+    for (const item of items) {
+      await tx.item.update({ where: { id: item.id }, data: updateData });
+    }
+    await tx.activity.createMany({
+      data: items.flatMap(item => fieldChangeActivities(item, data, attribution)),
+    });
+  });
+
+  const ids = items.map(i => i.id);
+  for (const id of ids) {
+    await indexItem(prisma, id);
+  }
+
+  const withBlocks = items.filter(i => readCalendarBlock(i.metadata));
+  if (withBlocks.length > 0) {
+    const updated = await prisma.item.findMany({ where: { id: { in: withBlocks.map(i => i.id) } } });
+    for (const item of withBlocks) {
+      await syncCalendarBlock(prisma, item, updated.find(u => u.id === item.id)!);
+    }
+  }
+  return ids;
+}
+
+/** Quick-add input: raw text (parsed here) or a draft parsed by the client */
+const QuickAddInputSchema = z.object({
+  text: z.string().optional(),
+  draft: QuickAddDraftSchema.optional(),
+  /** Person name that "@me" resolves to (default: DEFAULT_OWNER) */
+  me: z.string().optional(),
+});
+
+function quickAddDraft(input: z.infer<typeof QuickAddInputSchema>): QuickAddDraft {
+  if (input.draft) return input.draft;
+  if (input.text !== undefined) return parseQuickAdd(input.text);
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'Either text or draft required' });
+}
+
 // =============================================================================
 // ROUTER
 // =============================================================================
@@ -138,7 +417,7 @@ export const itemsRouter = router({
   /**
    * List items with filters
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(ItemQuerySchema)
     .query(async ({ ctx, input }) => {
       const {
@@ -235,7 +514,7 @@ export const itemsRouter = router({
   /**
    * Get a single item by ID
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       id: z.union([z.number(), z.string()]),
       // Pagination for nested data
@@ -344,6 +623,8 @@ export const itemsRouter = router({
           status: link.to.status,
           linkId: link.id,
         })),
+        // Focus block booked with scheduleBlock
+        calendarBlock: readCalendarBlock(item.metadata),
         // Pagination info
         _counts: {
           totalActivities: item._count.activities,
@@ -357,7 +638,7 @@ export const itemsRouter = router({
   /**
    * Create a new item
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(CreateItemSchema)
     .mutation(async ({ ctx, input }) => {
       const item = await ctx.prisma.item.create({
@@ -369,6 +650,7 @@ export const itemsRouter = router({
           priority: input.priority || null,
           dueDate: input.dueDate ? new Date(input.dueDate) : null,
           targetPeriod: input.targetPeriod || null,
+          estimateMinutes: input.estimateMinutes ?? null,
           ownerId: input.ownerId || null,
           projectId: input.projectId || null,
           parentId: input.parentId || null,
@@ -389,20 +671,198 @@ export const itemsRouter = router({
           detail: null,
           oldValue: null,
           newValue: null,
-          createdBy: 'user',
+          createdBy: actorLabel(ctx.actor),
+          requestId: ctx.requestId,
         },
       });
 
+      await indexItem(ctx.prisma, item.id);
+
       // Emit real-time update
       emit.items.created(item.id);
 
       return formatItem(item);
     }),
 
+  /**
+   * Parse quick-add text and look up the project, people and tags it names.
+   * Problems are returned, not thrown, so a form can pre-fill what resolved.
+   */
+  resolveQuickAdd: protectedProcedure
+    .input(QuickAddInputSchema)
+    .query(async ({ ctx, input }) => {
+      const draft = quickAddDraft(input);
+      const resolved = await resolveQuickAddDraft(ctx.prisma, draft, {
+        me: input.me ?? process.env.DEFAULT_OWNER ?? null,
+      });
+      return {
+        draft,
+        ...resolved,
+        problems: resolved.problems.map(p => p.message),
+      };
+    }),
+
+  /**
+   * Create an item from quick-add text or draft, with its tags, waiting-on
+   * people and check-in. A recurrence makes it a routine. projectId/ownerId
+   * (from a picker) take precedence over the draft's #project/@owner.
+   */
+  quickAdd: protectedProcedure
+    .input(QuickAddInputSchema.extend({
+      itemType: ItemTypeSchema.optional(),
+      description: z.string().nullable().optional(),
+      status: ItemStatusSchema.optional(),
+      projectId: z.number().nullable().optional(),
+      ownerId: z.number().nullable().optional(),
+      parentId: optionalItemIdSchema,
+      targetPeriod: z.string().nullable().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const draft = quickAddDraft(input);
+      if (!draft.title.trim()) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Title is required' });
+      }
+      if (input.itemType === 'routine' && !draft.recurrence) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'A routine needs a recurrence, e.g. "every monday"' });
+      }
+
+      const resolved = await resolveQuickAddDraft(ctx.prisma, {
+        ...draft,
+        project: input.projectId !== undefined ? null : draft.project,
+        owner: input.ownerId !== undefined ? null : draft.owner,
+      }, { me: input.me ?? process.env.DEFAULT_OWNER ?? null });
+
+      if (resolved.problems.length > 0) {
+        throw new TRPCError({
+          code: resolved.problems.every(p => p.kind === 'not_found') ? 'NOT_FOUND' : 'BAD_REQUEST',
+          message: resolved.problems.map(p => p.message).join('; '),
+        });
+      }
+
+      const createdBy = actorLabel(ctx.actor);
+      const itemId = await ctx.prisma.$transaction(async (tx) => {
+        const item = await tx.item.create({
+          data: {
+            title: draft.title.trim(),
+            description: input.description || null,
+            itemType: draft.recurrence ? 'routine' : input.itemType || 'task',
+            status: input.status || 'pending',
+            priority: draft.priority,
+            dueDate: draft.dueDate ? new Date(draft.dueDate) : null,
+            recurrenceRule: draft.recurrence?.rule ?? null,
+            projectId: input.projectId !== undefined ? input.projectId : resolved.project?.id ?? null,
+            ownerId: input.ownerId !== undefined ? input.ownerId : resolved.owner?.id ?? null,
+            parentId: input.parentId ?? null,
+            targetPeriod: input.targetPeriod || null,
+            estimateMinutes: draft.estimateMinutes,
+          },
+        });
+
+        if (resolved.tags.length > 0) {
+          await tx.itemTag.createMany({
+            data: resolved.tags.map(tag => ({ itemId: item.id, tagId: tag.id })),
+          });
+        }
+        if (resolved.waitingOn.length > 0) {
+          await tx.itemPerson.createMany({
+            data: resolved.waitingOn.map(person => ({ itemId: item.id, personId: person.id, role: 'waiting_on' })),
+          });
+        }
+        if (draft.checkinDate) {
+          await tx.checkIn.create({ data: { itemId: item.id, date: new Date(draft.checkinDate) } });
+        }
+
+        await tx.activity.create({
+          data: {
+            itemId: item.id,
+            action: 'created',
+            detail: draft.tokens.length > 0 ? 'Quick add' : null,
+            createdBy,
+            requestId: ctx.requestId,
+          },
+        });
+
+        return item.id;
+      });
+
+      await indexItem(ctx.prisma, itemId);
+      emit.items.created(itemId);
+
+      const item = await ctx.prisma.item.findUniqueOrThrow({ where: { id: itemId }, include: itemIncludes });
+      return formatItem(item);
+    }),
+
+  /**
+   * Create an item template's task tree under a project. Due dates and
+   * check-ins are offsets from anchorDate (default today). Returns `ids`
+   * like the bulk operations, so one items.undo removes the whole tree.
+   */
+  instantiateTemplate: protectedProcedure
+    .input(InstantiateItemTemplateSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (input.templateId === undefined && !input.templateName) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Either templateId or templateName required' });
+      }
+
+      const template = await ctx.prisma.itemTemplate.findFirst({
+        where: input.templateId !== undefined ? { id: input.templateId } : { name: input.templateName },
+      });
+      if (!template) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `Template not found: ${input.templateName ?? input.templateId}`,
+        });
+      }
+
+      if (input.projectId != null) {
+        const project = await ctx.prisma.project.findUnique({ where: { id: input.projectId }, select: { id: true } });
+        if (!project) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Project with ID ${input.projectId} not found` });
+        }
+      }
+
+      const root = JSON.parse(template.definition) as ItemTemplateStep;
+      const refs = await resolveTemplateReferences(ctx.prisma, root);
+      if (refs.problems.length > 0) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Template '${template.name}' is out of date: ${refs.problems.join('; ')}`,
+        });
+      }
+
+      const ids = await instantiateItemTemplate(ctx.prisma, { name: template.name, root }, refs, {
+        projectId: input.projectId ?? null,
+        anchorDate: input.anchorDate ?? new Date().toISOString().slice(0, 10),
+        title: input.title,
+        actor: ctx.actor,
+        requestId: ctx.requestId,
+      });
+
+      // The audit middleware only picks up the single id returned by create* and quickAdd
+      const entries = [];
+      for (const id of ids) {
+        await indexItem(ctx.prisma, id);
+        entries.push({ entity: 'items' as const, entityId: id, before: null, after: await takeSnapshot(ctx.prisma, 'items', id) });
+      }
+      await recordAudit(ctx.prisma, {
+        requestId: ctx.requestId,
+        procedure: 'items.instantiateTemplate',
+        actor: ctx.actor ?? SYSTEM_ACTOR,
+        entries,
+      });
+
+      const item = await ctx.prisma.item.findUniqueOrThrow({ where: { id: ids[0] }, include: itemIncludes });
+      return {
+        item: formatItem(item),
+        ids,
+        displayIds: ids.map(formatTaskId),
+      };
+    }),
+
   /**
    * Update an item
    */
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       id: z.union([z.number(), z.string()]),
       data: UpdateItemSchema,
@@ -426,22 +886,7 @@ export const itemsRouter = router({
         });
       }
 
-      const data = input.data;
-
-      // Build update data (use Unchecked to allow direct ID assignment)
-      const updateData: Prisma.ItemUncheckedUpdateInput = {};
-
-      if (data.title !== undefined) updateData.title = data.title;
-      if (data.description !== undefined) updateData.description = data.description;
-      if (data.status !== undefined) updateData.status = data.status;
-      if (data.priority !== undefined) updateData.priority = data.priority;
-      if (data.dueDate !== undefined) updateData.dueDate = data.dueDate ? new Date(data.dueDate) : null;
-      if (data.targetPeriod !== undefined) updateData.targetPeriod = data.targetPeriod;
-      if (data.ownerId !== undefined) updateData.ownerId = data.ownerId;
-      if (data.projectId !== undefined) updateData.projectId = data.projectId;
-      if (data.parentId !== undefined) updateData.parentId = data.parentId;
-      if (data.sourceMeetingId !== undefined) updateData.sourceMeetingId = data.sourceMeetingId;
-      if (data.metadata !== undefined) updateData.metadata = data.metadata ? JSON.stringify(data.metadata) : null;
+      const updateData = buildItemUpdateData(input.data);
 
       if (Object.keys(updateData).length === 0) {
         throw new TRPCError({
@@ -458,88 +903,10 @@ export const itemsRouter = router({
         });
 
         // Track activities for each changed field
-        const activities: Array<{
-          itemId: number;
-          action: string;
-          detail: string | null;
-          oldValue: string | null;
-          newValue: string | null;
-          createdBy: string;
-        }> = [];
-
-        // Status change
-        if (data.status !== undefined && data.status !== oldItem.status) {
-          activities.push({
-            itemId: id,
-            action: 'status_changed',
-            detail: null,
-            oldValue: oldItem.status,
-            newValue: data.status,
-            createdBy: 'user',
-          });
-        }
-
-        // Priority change
-        if (data.priority !== undefined && data.priority !== oldItem.priority) {
-          activities.push({
-            itemId: id,
-            action: 'priority_changed',
-            detail: null,
-            oldValue: oldItem.priority?.toString() || null,
-            newValue: data.priority?.toString() || null,
-            createdBy: 'user',
-          });
-        }
-
-        // Due date change
-        const oldDueDate = oldItem.dueDate?.toISOString().split('T')[0] || null;
-        const newDueDate = data.dueDate || null;
-        if (data.dueDate !== undefined && newDueDate !== oldDueDate) {
-          activities.push({
-            itemId: id,
-            action: 'due_date_changed',
-            detail: null,
-            oldValue: oldDueDate,
-            newValue: newDueDate,
-            createdBy: 'user',
-          });
-        }
-
-        // Title change
-        if (data.title !== undefined && data.title !== oldItem.title) {
-          activities.push({
-            itemId: id,
-            action: 'title_changed',
-            detail: null,
-            oldValue: oldItem.title,
-            newValue: data.title,
-            createdBy: 'user',
-          });
-        }
-
-        // Owner change
-        if (data.ownerId !== undefined && data.ownerId !== oldItem.ownerId) {
-          activities.push({
-            itemId: id,
-            action: 'owner_changed',
-            detail: null,
-            oldValue: oldItem.owner?.name || null,
-            newValue: null, // Will be resolved on display
-            createdBy: 'user',
-          });
-        }
-
-        // Project change
-        if (data.projectId !== undefined && data.projectId !== oldItem.projectId) {
-          activities.push({
-            itemId: id,
-            action: 'project_changed',
-            detail: null,
-            oldValue: oldItem.project?.name || null,
-            newValue: null, // Will be resolved on display
-            createdBy: 'user',
-          });
-        }
+        const activities = fieldChangeActivities(oldItem, input.data, {
+          createdBy: actorLabel(ctx.actor),
+          requestId: ctx.requestId,
+        });
 
         // Create all activity records
         if (activities.length > 0) {
@@ -548,6 +915,14 @@ export const itemsRouter = router({
           });
         }
 
+        await indexItem(ctx.prisma, id);
+        await syncCalendarBlock(ctx.prisma, oldItem, item);
+
+        // Keep an anchored README line in step with the title and status
+        if (isReadmeSourceType(item.sourceType) && (input.data.title !== undefined || input.data.status !== undefined)) {
+          await syncTaskToSource(id, getKnowledgeBasePath());
+        }
+
         // Emit real-time update
         emit.items.updated(id);
 
@@ -566,7 +941,7 @@ export const itemsRouter = router({
   /**
    * Complete an item (mark status as complete)
    */
-  complete: publicProcedure
+  complete: protectedProcedure
     .input(z.object({
       id: z.union([z.number(), z.string()]),
       note: z.string().optional(),
@@ -604,58 +979,9 @@ export const itemsRouter = router({
       });
 
       // Unblock dependent items using ItemLink system (many-to-many)
-      // Find all items that this completing task blocks
-      const blockingLinks = await ctx.prisma.itemLink.findMany({
-        where: {
-          fromId: id,
-          linkType: 'blocks',
-        },
-        include: {
-          to: {
-            select: { id: true, title: true, status: true },
-          },
-        },
-      });
+      const unblockedItems = await releaseBlockedItems(ctx.prisma, id);
 
-      const unblockedItems: Array<{ id: number; title: string }> = [];
-
-      // For each blocked item, check if it has other blockers
-      for (const link of blockingLinks) {
-        const blockedItem = link.to;
-        if (!blockedItem) continue;
-
-        // Delete this blocking link
-        await ctx.prisma.itemLink.delete({
-          where: { id: link.id },
-        });
-
-        // Check if the item has remaining blockers (excluding the one we just removed)
-        const remainingBlockers = await ctx.prisma.itemLink.count({
-          where: {
-            toId: blockedItem.id,
-            linkType: 'blocks',
-          },
-        });
-
-        // Only unblock if no remaining blockers AND status is currently blocked
-        if (remainingBlockers === 0 && blockedItem.status === 'blocked') {
-          await ctx.prisma.item.update({
-            where: { id: blockedItem.id },
-            data: { status: 'pending' },
-          });
-          unblockedItems.push({ id: blockedItem.id, title: blockedItem.title });
-
-          // Log activity on the unblocked item
-          await ctx.prisma.activity.create({
-            data: {
-              itemId: blockedItem.id,
-              action: 'unblocked',
-              detail: `Auto-unblocked: ${formatTaskId(id)} was completed`,
-              createdBy: 'system',
-            },
-          });
-        }
-      }
+      await syncCalendarBlock(ctx.prisma, item, { ...item, status: 'complete' });
 
       // Always log completion activity
       await ctx.prisma.activity.create({
@@ -665,7 +991,8 @@ export const itemsRouter = router({
           detail: input.note || null,
           oldValue: oldStatus,
           newValue: 'complete',
-          createdBy: 'user',
+          createdBy: actorLabel(ctx.actor),
+          requestId: ctx.requestId,
         },
       });
 
@@ -680,7 +1007,7 @@ export const itemsRouter = router({
       };
 
       // Log to diary
-      logTaskActivity(basePath, {
+      const diaryResult = logTaskActivity(basePath, {
         taskId: id,
         displayId: formatTaskId(id),
         title: item.title,
@@ -688,6 +1015,9 @@ export const itemsRouter = router({
         projectName: item.project?.name,
         projectSlug: item.project?.slug,
       });
+      if (diaryResult.success) {
+        await indexDiaryFile(ctx.prisma, diaryResult.diaryPath);
+      }
 
       // Get updated item
       const updatedItem = await ctx.prisma.item.findUnique({
@@ -717,7 +1047,7 @@ export const itemsRouter = router({
   /**
    * Delete an item (soft delete)
    */
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       id: z.union([z.number(), z.string()]),
     }))
@@ -725,11 +1055,14 @@ export const itemsRouter = router({
       const id = resolveItemId(input.id);
 
       try {
-        await ctx.prisma.item.update({
+        const item = await ctx.prisma.item.update({
           where: { id, deletedAt: null },
           data: { deletedAt: new Date() },
         });
 
+        await indexItem(ctx.prisma, id);
+        await syncCalendarBlock(ctx.prisma, { ...item, deletedAt: null }, item);
+
         // Emit real-time update
         emit.items.deleted(id);
 
@@ -748,7 +1081,7 @@ export const itemsRouter = router({
   /**
    * Restore a soft-deleted item
    */
-  restore: publicProcedure
+  restore: protectedProcedure
     .input(z.object({
       id: z.union([z.number(), z.string()]),
     }))
@@ -782,6 +1115,8 @@ export const itemsRouter = router({
         include: itemIncludes,
       });
 
+      await indexItem(ctx.prisma, id);
+
       // Emit real-time update
       emit.items.created(id);
 
@@ -791,10 +1126,333 @@ export const itemsRouter = router({
       };
     }),
 
+  /**
+   * Undo the caller's last N item/routine mutations, newest first.
+   * Each mutation is undone as a whole (e.g. every item in a bulk complete).
+   * Stops with CONFLICT if a field it would restore has been changed again
+   * since, unless force is set.
+   */
+  undo: protectedProcedure
+    .input(z.object({
+      count: z.number().int().min(1).max(20).optional().default(1),
+      force: z.boolean().optional().default(false),
+    }).optional())
+    .mutation(async ({ ctx, input }) => {
+      const actor = ctx.actor ?? SYSTEM_ACTOR;
+      const revertible = {
+        entity: { in: REVERTIBLE_ENTITIES },
+        revertedBy: null,
+        procedure: { notIn: REVERT_PROCEDURES },
+      };
+
+      const requests = await ctx.prisma.auditLog.findMany({
+        where: { ...revertible, actorType: actor.type, actorName: actor.name },
+        orderBy: { id: 'desc' },
+        distinct: ['requestId'],
+        take: input?.count ?? 1,
+        select: { requestId: true },
+      });
+
+      if (requests.length === 0) {
+        throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Nothing to undo' });
+      }
+
+      const reverted: { procedure: string; itemIds: number[] }[] = [];
+      const ids = new Set<number>();
+
+      for (const { requestId } of requests) {
+        const entries = await ctx.prisma.auditLog.findMany({ where: { ...revertible, requestId } });
+        const conflicts = await findRevertConflicts(ctx.prisma, entries);
+
+        if (conflicts.length > 0 && !input?.force) {
+          const detail = conflicts
+            .map(c => `${formatTaskId(c.entityId)} (${c.fields.join(', ')})`)
+            .join('; ');
+          const undone = reverted.length > 0 ? `Undid ${reverted.length}, then stopped: ` : '';
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: `${undone}${entries[0].procedure} can't be undone cleanly, changed since: ${detail}. Use force to undo anyway`,
+          });
+        }
+
+        const result = await revertAuditEntries(ctx.prisma, entries, {
+          requestId: ctx.requestId,
+          procedure: 'items.undo',
+          actor,
+        });
+        reverted.push({ procedure: entries[0].procedure, itemIds: result.itemIds });
+        result.itemIds.forEach(id => ids.add(id));
+      }
+
+      for (const id of ids) {
+        await indexItem(ctx.prisma, id);
+      }
+
+      return {
+        ids: [...ids],
+        reverted: reverted.map(r => ({ ...r, displayIds: r.itemIds.map(formatTaskId) })),
+      };
+    }),
+
+  // ===========================================================================
+  // BULK OPERATIONS
+  // Each runs in one transaction and returns `ids`, so the auto-emit
+  // middleware sends a single DataChangeEvent and the audit log records
+  // them as one request (undone together by items.undo).
+  // ===========================================================================
+
+  /**
+   * Apply the same field updates to several items
+   */
+  bulkUpdate: protectedProcedure
+    .input(z.object({
+      ids: BulkIdsSchema,
+      data: UpdateItemSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (Object.keys(buildItemUpdateData(input.data)).length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'No fields to update' });
+      }
+
+      const items = await loadBulkItems(ctx.prisma, input.ids);
+      const ids = await bulkUpdateItems(ctx.prisma, items, input.data, {
+        createdBy: actorLabel(ctx.actor),
+        requestId: ctx.requestId,
+      });
+
+      return { ids, displayIds: ids.map(formatTaskId), updated: ids.length };
+    }),
+
+  /**
+   * Move several items to another project and/or parent
+   */
+  bulkMove: protectedProcedure
+    .input(z.object({
+      ids: BulkIdsSchema,
+      /** Target project, or null to clear */
+      projectId: z.number().nullable().optional(),
+      /** Target parent item, or null to make top-level */
+      parentId: z.union([z.number(), z.string()]).nullable().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.projectId === undefined && input.parentId === undefined) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Either projectId or parentId required' });
+      }
+
+      const items = await loadBulkItems(ctx.prisma, input.ids);
+      const parentId = input.parentId == null ? input.parentId : resolveItemId(input.parentId);
+
+      if (input.projectId != null) {
+        const project = await ctx.prisma.project.findUnique({ where: { id: input.projectId }, select: { id: true } });
+        if (!project) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Project ${input.projectId} not found` });
+        }
+      }
+
+      if (parentId != null) {
+        if (items.some(i => i.id === parentId)) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: `${formatTaskId(parentId)} can't be its own parent` });
+        }
+        const parent = await ctx.prisma.item.findFirst({ where: { id: parentId, deletedAt: null }, select: { id: true, parentId: true } });
+        if (!parent) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Parent ${formatTaskId(parentId)} not found` });
+        }
+
+        // Moving an item under one of its own subtasks would make a loop
+        const movedIds = new Set(items.map(i => i.id));
+        const seen = new Set<number>([parent.id]);
+        let ancestorId = parent.parentId;
+        while (ancestorId != null && !seen.has(ancestorId)) {
+          if (movedIds.has(ancestorId)) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `${formatTaskId(ancestorId)} can't move under its own subtask ${formatTaskId(parentId)}`,
+            });
+          }
+          seen.add(ancestorId);
+          const ancestor = await ctx.prisma.item.findUnique({ where: { id: ancestorId }, select: { parentId: true } });
+          ancestorId = ancestor?.parentId ?? null;
+        }
+      }
+
+      const ids = await bulkUpdateItems(
+        ctx.prisma,
+        items,
+        {
+          ...(input.projectId !== undefined && { projectId: input.projectId }),
+          ...(parentId !== undefined && { parentId }),
+        },
+        { createdBy: actorLabel(ctx.actor), requestId: ctx.requestId }
+      );
+
+      return { ids, displayIds: ids.map(formatTaskId), moved: ids.length };
+    }),
+
+  /**
+   * Complete several items: clears their pending check-ins and unblocks
+   * items they were the last blocker of. Already-complete items are skipped.
+   * `ids` includes the unblocked items.
+   */
+  bulkComplete: protectedProcedure
+    .input(z.object({
+      ids: BulkIdsSchema,
+      note: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const items = await loadBulkItems(ctx.prisma, input.ids);
+      const toComplete = items.filter(i => i.status !== 'complete');
+      const skipped = items.filter(i => i.status === 'complete').map(i => formatTaskId(i.id));
+
+      const unblockedItems: Array<{ id: number; title: string }> = [];
+      let clearedCheckIns = 0;
+
+      await ctx.prisma.$transaction(async (tx) => {
+        for (const item of toComplete) {
+          await tx.item.update({
+            where: { id: item.id },
+            data: { status: 'complete', completedAt: new Date() },
+          });
+
+          const cleared = await tx.checkIn.updateMany({
+            where: { itemId: item.id, completed: false },
+            data: { completed: true },
+          });
+          clearedCheckIns += cleared.count;
+
+          unblockedItems.push(...await releaseBlockedItems(tx, item.id));
+        }
+
+        await tx.activity.createMany({
+          data: toComplete.map(item => ({
+            itemId: item.id,
+            action: 'status_changed',
+            detail: input.note || null,
+            oldValue: item.status,
+            newValue: 'complete',
+            createdBy: actorLabel(ctx.actor),
+            requestId: ctx.requestId,
+          })),
+        });
+      });
+
+      // Sync to source markdown and log to diary, as items.complete does
+      const basePath = getKnowledgeBasePath();
+      let markdownSynced = 0;
+      for (const item of toComplete) {
+        const syncResult = await syncTaskToSource(item.id, basePath);
+        if (syncResult.success) markdownSynced++;
+
+        const diaryResult = logTaskActivity(basePath, {
+          taskId: item.id,
+          displayId: formatTaskId(item.id),
+          title: item.title,
+          action: 'completed',
+          projectName: item.project?.name,
+          projectSlug: item.project?.slug,
+        });
+        if (diaryResult.success) {
+          await indexDiaryFile(ctx.prisma, diaryResult.diaryPath);
+        }
+      }
+
+      const completedIds = toComplete.map(i => i.id);
+      for (const item of toComplete) {
+        await indexItem(ctx.prisma, item.id);
+        await syncCalendarBlock(ctx.prisma, item, { ...item, status: 'complete' });
+      }
+
+      return {
+        ids: [...new Set([...completedIds, ...unblockedItems.map(t => t.id)])],
+        completed: completedIds.map(formatTaskId),
+        skipped,
+        markdownSynced,
+        unblockedTasks: unblockedItems.map(t => ({
+          id: t.id,
+          displayId: formatTaskId(t.id),
+          title: t.title,
+        })),
+        clearedCheckIns,
+      };
+    }),
+
+  /**
+   * Add and/or remove tags (by name) on several items
+   */
+  bulkTag: protectedProcedure
+    .input(z.object({
+      ids: BulkIdsSchema,
+      add: z.array(z.string()).optional().default([]),
+      remove: z.array(z.string()).optional().default([]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.add.length === 0 && input.remove.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Either add or remove required' });
+      }
+
+      const items = await loadBulkItems(ctx.prisma, input.ids);
+      const ids = items.map(i => i.id);
+
+      const names = [...new Set([...input.add, ...input.remove])];
+      const tags = await ctx.prisma.tag.findMany({ where: { name: { in: names } } });
+      const missing = names.filter(n => !tags.some(t => t.name === n));
+      if (missing.length > 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Tags not found: ${missing.join(', ')}` });
+      }
+
+      const addIds = tags.filter(t => input.add.includes(t.name)).map(t => t.id);
+      const removeIds = tags.filter(t => input.remove.includes(t.name)).map(t => t.id);
+
+      const { added, removed } = await ctx.prisma.$transaction(async (tx) => {
+        const existing = await tx.itemTag.findMany({
+          where: { itemId: { in: ids }, tagId: { in: addIds } },
+        });
+        const has = new Set(existing.map(e => `${e.itemId}:${e.tagId}`));
+        const created = await tx.itemTag.createMany({
+          data: ids.flatMap(itemId =>
+            addIds.filter(tagId => !has.has(`${itemId}:${tagId}`)).map(tagId => ({ itemId, tagId }))
+          ),
+        });
+
+        const deleted = await tx.itemTag.deleteMany({
+          where: { itemId: { in: ids }, tagId: { in: removeIds } },
+        });
+
+        return { added: created.count, removed: deleted.count };
+      });
+
+      return { ids, displayIds: ids.map(formatTaskId), added, removed };
+    }),
+
+  /**
+   * Soft delete several items
+   */
+  bulkDelete: protectedProcedure
+    .input(z.object({
+      ids: BulkIdsSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const items = await loadBulkItems(ctx.prisma, input.ids);
+      const ids = items.map(i => i.id);
+
+      await ctx.prisma.$transaction(async (tx) => {
+        await tx.item.updateMany({
+          where: { id: { in: ids }, deletedAt: null },
+          data: { deletedAt: new Date() },
+        });
+      });
+
+      for (const item of items) {
+        await indexItem(ctx.prisma, item.id);
+        await syncCalendarBlock(ctx.prisma, item, { ...item, deletedAt: new Date() });
+      }
+
+      return { deleted: ids.length, ids, displayIds: ids.map(formatTaskId) };
+    }),
+
   /**
    * Add a note (activity) to an item
    */
-  addNote: publicProcedure
+  addNote: protectedProcedure
     .input(z.object({
       id: z.union([z.number(), z.string()]),
       note: z.string().min(1),
@@ -821,10 +1479,13 @@ export const itemsRouter = router({
           itemId: id,
           action: input.updateType,
           detail: input.note,
-          createdBy: 'user',
+          createdBy: actorLabel(ctx.actor),
+          requestId: ctx.requestId,
         },
       });
 
+      await indexItem(ctx.prisma, id);
+
       // Emit real-time update
       emit.items.updated(id);
 
@@ -841,7 +1502,7 @@ export const itemsRouter = router({
   /**
    * Complete a check-in for an item
    */
-  completeCheckin: publicProcedure
+  completeCheckin: protectedProcedure
     .input(z.object({
       id: z.union([z.number(), z.string()]),
       checkinId: z.number().optional(),
@@ -891,7 +1552,7 @@ export const itemsRouter = router({
   /**
    * Get items with check-ins due
    */
-  checkins: publicProcedure
+  checkins: protectedProcedure
     .input(z.object({
       includeFuture: z.boolean().optional().default(false),
     }))
@@ -927,7 +1588,7 @@ export const itemsRouter = router({
   /**
    * Get all items blocking a specific item (items that must complete first)
    */
-  getBlockers: publicProcedure
+  getBlockers: protectedProcedure
     .input(z.object({
       id: z.union([z.string(), z.number()]),
     }))
@@ -968,7 +1629,7 @@ export const itemsRouter = router({
   /**
    * Get all items blocked by a specific item (items waiting for this one)
    */
-  getBlocking: publicProcedure
+  getBlocking: protectedProcedure
     .input(z.object({
       id: z.union([z.string(), z.number()]),
     }))
@@ -1009,7 +1670,7 @@ export const itemsRouter = router({
   /**
    * Add a blocker to an item (create "blocks" link)
    */
-  addBlocker: publicProcedure
+  addBlocker: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       blockerId: z.union([z.string(), z.number()]),
@@ -1036,6 +1697,12 @@ export const itemsRouter = router({
         throw new TRPCError({ code: 'BAD_REQUEST', message: 'An item cannot block itself' });
       }
 
+      // Prevent cycles: the item must not already (transitively) block its blocker
+      const cycle = await findBlockingPath(ctx.prisma, itemId, blockerId);
+      if (cycle) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: describeCycle(cycle) });
+      }
+
       try {
         // Create link: blocker blocks item (blocker is "from", item is "to")
         const link = await ctx.prisma.itemLink.create({
@@ -1052,7 +1719,8 @@ export const itemsRouter = router({
             itemId,
             action: 'blocked',
             detail: `Blocked by ${formatTaskId(blockerId)}: ${blocker.title}`,
-            createdBy: 'user',
+            createdBy: actorLabel(ctx.actor),
+            requestId: ctx.requestId,
           },
         });
 
@@ -1078,7 +1746,7 @@ export const itemsRouter = router({
   /**
    * Remove a blocker from an item (delete "blocks" link)
    */
-  removeBlocker: publicProcedure
+  removeBlocker: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       blockerId: z.union([z.string(), z.number()]),
@@ -1102,7 +1770,8 @@ export const itemsRouter = router({
             itemId,
             action: 'unblocked',
             detail: `No longer blocked by ${formatTaskId(blockerId)}`,
-            createdBy: 'user',
+            createdBy: actorLabel(ctx.actor),
+            requestId: ctx.requestId,
           },
         });
       }
@@ -1116,6 +1785,33 @@ export const itemsRouter = router({
       };
     }),
 
+  /**
+   * Full "blocks" graph around a project's items (including its workstreams),
+   * followed transitively, with slack and the critical path to the deadline.
+   * The deadline defaults to the latest due date among the project's open
+   * items in the graph.
+   */
+  dependencyGraph: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      deadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Deadline must be YYYY-MM-DD').optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const project = await ctx.prisma.project.findUnique({
+        where: { id: input.projectId },
+        select: { id: true },
+      });
+
+      if (!project) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Project ${input.projectId} not found` });
+      }
+
+      return buildDependencyGraph(ctx.prisma, {
+        projectId: input.projectId,
+        deadline: input.deadline,
+      });
+    }),
+
   // ===========================================================================
   // ITEM LINKS (blocks, related, duplicate)
   // ===========================================================================
@@ -1123,7 +1819,7 @@ export const itemsRouter = router({
   /**
    * Add a link between two items
    */
-  addLink: publicProcedure
+  addLink: protectedProcedure
     .input(z.object({
       fromId: z.union([z.string(), z.number()]),
       toId: z.union([z.string(), z.number()]),
@@ -1146,6 +1842,16 @@ export const itemsRouter = router({
         throw new TRPCError({ code: 'NOT_FOUND', message: `Item ${formatTaskId(toId)} not found` });
       }
 
+      if (input.linkType === 'blocks') {
+        if (fromId === toId) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'An item cannot block itself' });
+        }
+        const cycle = await findBlockingPath(ctx.prisma, toId, fromId);
+        if (cycle) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: describeCycle(cycle) });
+        }
+      }
+
       try {
         const link = await ctx.prisma.itemLink.create({
           data: {
@@ -1179,7 +1885,7 @@ export const itemsRouter = router({
   /**
    * Remove a link between two items
    */
-  removeLink: publicProcedure
+  removeLink: protectedProcedure
     .input(z.object({
       fromId: z.union([z.string(), z.number()]),
       toId: z.union([z.string(), z.number()]),
@@ -1212,7 +1918,7 @@ export const itemsRouter = router({
   /**
    * Get all links for an item
    */
-  getLinks: publicProcedure
+  getLinks: protectedProcedure
     .input(z.object({
       id: z.union([z.string(), z.number()]),
     }))
@@ -1259,7 +1965,7 @@ export const itemsRouter = router({
   /**
    * Add a person with a role to an item
    */
-  addPerson: publicProcedure
+  addPerson: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       personId: z.number().optional(),
@@ -1335,7 +2041,7 @@ export const itemsRouter = router({
   /**
    * Remove a person role from an item
    */
-  removePerson: publicProcedure
+  removePerson: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       personId: z.number().optional(),
@@ -1384,7 +2090,7 @@ export const itemsRouter = router({
   /**
    * Get all people associated with an item
    */
-  getPeople: publicProcedure
+  getPeople: protectedProcedure
     .input(z.object({
       id: z.union([z.string(), z.number()]),
     }))
@@ -1429,7 +2135,7 @@ export const itemsRouter = router({
   /**
    * Add a check-in date to an item
    */
-  addCheckin: publicProcedure
+  addCheckin: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       date: z.string(), // YYYY-MM-DD
@@ -1455,6 +2161,10 @@ export const itemsRouter = router({
         },
       });
 
+      if (checkin.note) {
+        await indexItem(ctx.prisma, itemId);
+      }
+
       // Emit real-time updates
       emit.checkins.created(checkin.id);
       emit.items.updated(itemId);
@@ -1473,7 +2183,7 @@ export const itemsRouter = router({
   /**
    * List check-ins for an item
    */
-  listCheckins: publicProcedure
+  listCheckins: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       includeCompleted: z.boolean().optional().default(false),
@@ -1505,7 +2215,7 @@ export const itemsRouter = router({
   /**
    * Update a check-in (reschedule)
    */
-  updateCheckin: publicProcedure
+  updateCheckin: protectedProcedure
     .input(z.object({
       id: z.number(),
       date: z.string().optional(), // YYYY-MM-DD
@@ -1529,6 +2239,10 @@ export const itemsRouter = router({
           include: { item: { select: { id: true, title: true } } },
         });
 
+        if (input.note !== undefined) {
+          await indexItem(ctx.prisma, checkin.itemId);
+        }
+
         // Emit real-time updates
         emit.checkins.updated(checkin.id);
         emit.items.updated(checkin.itemId);
@@ -1553,7 +2267,7 @@ export const itemsRouter = router({
   /**
    * Reschedule check-in(s) for an item - completes existing and creates new
    */
-  rescheduleCheckin: publicProcedure
+  rescheduleCheckin: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       newDate: z.string(), // YYYY-MM-DD
@@ -1606,7 +2320,7 @@ export const itemsRouter = router({
   /**
    * Delete a check-in
    */
-  deleteCheckin: publicProcedure
+  deleteCheckin: protectedProcedure
     .input(z.object({
       id: z.number(),
     }))
@@ -1625,6 +2339,7 @@ export const itemsRouter = router({
         // Emit real-time updates
         emit.checkins.deleted(input.id);
         if (checkin) {
+          await indexItem(ctx.prisma, checkin.itemId);
           emit.items.updated(checkin.itemId);
         }
 
@@ -1644,7 +2359,7 @@ export const itemsRouter = router({
   /**
    * Add a tag to an item
    */
-  addTag: publicProcedure
+  addTag: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       tagId: z.number().optional(),
@@ -1717,7 +2432,7 @@ export const itemsRouter = router({
   /**
    * Remove a tag from an item
    */
-  removeTag: publicProcedure
+  removeTag: protectedProcedure
     .input(z.object({
       itemId: z.union([z.string(), z.number()]),
       tagId: z.number().optional(),
@@ -1762,7 +2477,7 @@ export const itemsRouter = router({
   /**
    * Get all tags for an item
    */
-  getTags: publicProcedure
+  getTags: protectedProcedure
     .input(z.object({
       id: z.union([z.string(), z.number()]),
     }))
@@ -1787,6 +2502,323 @@ export const itemsRouter = router({
         })),
       };
     }),
+
+  // ===========================================================================
+  // TIME TRACKING
+  // ===========================================================================
+
+  /**
+   * Start a timer on an item. Only one timer runs at a time, so any timer
+   * running on another item is stopped first.
+   */
+  startTimer: protectedProcedure
+    .input(z.object({
+      id: itemIdSchema,
+      note: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const itemId = input.id;
+
+      const item = await ctx.prisma.item.findUnique({
+        where: { id: itemId },
+        select: { id: true, title: true, deletedAt: true },
+      });
+      if (!item || item.deletedAt) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Item ${formatTaskId(itemId)} not found` });
+      }
+
+      const now = new Date();
+      const running = await ctx.prisma.timeEntry.findMany({ where: { endedAt: null } });
+      if (running.some(e => e.itemId === itemId)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `A timer is already running on ${formatTaskId(itemId)}`,
+        });
+      }
+
+      const stopped = await ctx.prisma.$transaction(
+        running.map(e => ctx.prisma.timeEntry.update({
+          where: { id: e.id },
+          data: { endedAt: now, minutes: Math.round((now.getTime() - e.startedAt.getTime()) / 60000) },
+        }))
+      );
+
+      const entry = await ctx.prisma.timeEntry.create({
+        data: { itemId, startedAt: now, note: input.note, source: 'timer' },
+      });
+
+      return {
+        ...formatTimeEntry(entry, now),
+        itemTitle: item.title,
+        stopped: stopped.map(e => formatTimeEntry(e, now)),
+      };
+    }),
+
+  /**
+   * Stop the running timer. Without an id, stops whichever timer is running.
+   */
+  stopTimer: protectedProcedure
+    .input(z.object({
+      id: optionalItemIdSchema,
+      note: z.string().optional(),
+    }).optional())
+    .mutation(async ({ ctx, input }) => {
+      const itemId = input?.id;
+
+      const running = await ctx.prisma.timeEntry.findFirst({
+        where: { endedAt: null, ...(itemId !== undefined && { itemId }) },
+        orderBy: { startedAt: 'desc' },
+        include: { item: { select: { title: true } } },
+      });
+      if (!running) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: itemId !== undefined
+            ? `No timer running on ${formatTaskId(itemId)}`
+            : 'No timer running',
+        });
+      }
+
+      const now = new Date();
+      const entry = await ctx.prisma.timeEntry.update({
+        where: { id: running.id },
+        data: {
+          endedAt: now,
+          minutes: Math.round((now.getTime() - running.startedAt.getTime()) / 60000),
+          ...(input?.note !== undefined && { note: input.note }),
+        },
+      });
+
+      emit.items.updated(entry.itemId);
+
+      return { ...formatTimeEntry(entry, now), itemTitle: running.item.title };
+    }),
+
+  /**
+   * Log time against an item manually (e.g. work done without a timer)
+   */
+  logTime: protectedProcedure
+    .input(z.object({
+      id: itemIdSchema,
+      minutes: z.number().int().positive(),
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // YYYY-MM-DD, defaults to today
+      note: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const itemId = input.id;
+
+      const item = await ctx.prisma.item.findUnique({
+        where: { id: itemId },
+        select: { id: true, title: true, deletedAt: true },
+      });
+      if (!item || item.deletedAt) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Item ${formatTaskId(itemId)} not found` });
+      }
+
+      const startedAt = new Date(input.date ?? new Date().toISOString().split('T')[0]);
+      const entry = await ctx.prisma.timeEntry.create({
+        data: {
+          itemId,
+          startedAt,
+          endedAt: new Date(startedAt.getTime() + input.minutes * 60000),
+          minutes: input.minutes,
+          note: input.note,
+          source: 'manual',
+        },
+      });
+
+      return { ...formatTimeEntry(entry), itemTitle: item.title };
+    }),
+
+  /**
+   * List time entries for an item, with the total logged so far
+   */
+  timeEntries: protectedProcedure
+    .input(z.object({
+      id: itemIdSchema,
+    }))
+    .query(async ({ ctx, input }) => {
+      const itemId = input.id;
+
+      const entries = await ctx.prisma.timeEntry.findMany({
+        where: { itemId },
+        orderBy: { startedAt: 'desc' },
+      });
+
+      const now = new Date();
+      const formatted = entries.map(e => formatTimeEntry(e, now));
+
+      return {
+        itemId,
+        displayId: formatTaskId(itemId),
+        totalMinutes: formatted.reduce((sum, e) => sum + e.minutes, 0),
+        entries: formatted,
+      };
+    }),
+
+  /**
+   * Get the currently running timer, if any
+   */
+  activeTimer: protectedProcedure
+    .query(async ({ ctx }) => {
+      const running = await ctx.prisma.timeEntry.findFirst({
+        where: { endedAt: null },
+        orderBy: { startedAt: 'desc' },
+        include: { item: { select: { title: true } } },
+      });
+
+      if (!running) {
+        return null;
+      }
+
+      return { ...formatTimeEntry(running), itemTitle: running.item.title };
+    }),
+
+  /**
+   * Delete a time entry
+   */
+  deleteTimeEntry: protectedProcedure
+    .input(z.object({
+      entryId: z.number(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const entry = await ctx.prisma.timeEntry.delete({
+          where: { id: input.entryId },
+        });
+        return { deleted: true, entryId: entry.id, itemId: entry.itemId };
+      } catch (e) {
+        if ((e as { code?: string }).code === 'P2025') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Time entry ${input.entryId} not found` });
+        }
+        throw e;
+      }
+    }),
+
+  // ===========================================================================
+  // CALENDAR BLOCKS
+  // ===========================================================================
+
+  /**
+   * Book a focus block for an item on Google Calendar, or move the one it
+   * already has. The length defaults to the item's estimate. Afterwards the
+   * block follows the item: see services/calendar-blocks.ts.
+   */
+  scheduleBlock: protectedProcedure
+    .input(ScheduleBlockSchema)
+    .mutation(async ({ ctx, input }) => {
+      const id = resolveItemId(input.id);
+      const item = await ctx.prisma.item.findFirst({ where: { id, deletedAt: null } });
+
+      if (!item) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Item ${formatTaskId(id)} not found` });
+      }
+      if (item.status === 'complete' || item.status === 'cancelled') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `${formatTaskId(id)} is ${item.status}` });
+      }
+
+      const calendar = await getCalendarClient().catch(() => null);
+      if (!calendar) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Calendar not configured. Run: npx tsx src/scripts/google-auth.ts',
+        });
+      }
+
+      const start = new Date(input.start);
+      const end = new Date(start.getTime() + (input.minutes ?? item.estimateMinutes ?? DEFAULT_BLOCK_MINUTES) * 60_000);
+      const existing = readCalendarBlock(item.metadata);
+      const calendarId = input.calendarId ?? existing?.calendarId ?? getConfiguredCalendarIds()[0];
+      const requestBody = blockEvent(item, start, end);
+
+      let eventId: string | null = null;
+      try {
+        if (existing && existing.calendarId === calendarId) {
+          try {
+            const response = await calendar.events.patch({ calendarId, eventId: existing.eventId, requestBody });
+            eventId = response.data.id ?? existing.eventId;
+          } catch (err) {
+            if (!isEventGone(err)) throw err;
+          }
+        } else if (existing) {
+          // Moving to another calendar: drop the old event
+          await calendar.events.delete({ calendarId: existing.calendarId, eventId: existing.eventId })
+            .catch(err => { if (!isEventGone(err)) throw err; });
+        }
+
+        if (!eventId) {
+          const response = await calendar.events.insert({ calendarId, requestBody });
+          eventId = response.data.id!;
+        }
+      } catch (err) {
+        if (isScopeError(err)) {
+          throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: 'Calendar write scope not authorized. Re-run google-auth.ts to grant event access.',
+          });
+        }
+        throw err;
+      }
+
+      const block = { eventId, calendarId, start: start.toISOString(), end: end.toISOString() };
+      await ctx.prisma.item.update({
+        where: { id },
+        data: { metadata: writeCalendarBlock(item.metadata, block) },
+      });
+
+      emit.items.updated(id);
+
+      return {
+        id,
+        displayId: formatTaskId(id),
+        block,
+        rescheduled: existing !== null,
+      };
+    }),
+
+  /**
+   * Remove an item's focus block from the calendar
+   */
+  unscheduleBlock: protectedProcedure
+    .input(z.object({
+      id: z.union([z.number(), z.string()]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const id = resolveItemId(input.id);
+      const item = await ctx.prisma.item.findFirst({ where: { id, deletedAt: null } });
+
+      if (!item) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Item ${formatTaskId(id)} not found` });
+      }
+
+      const block = readCalendarBlock(item.metadata);
+      if (!block) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `${formatTaskId(id)} has no calendar block` });
+      }
+
+      const calendar = await getCalendarClient().catch(() => null);
+      if (!calendar) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Calendar not configured. Run: npx tsx src/scripts/google-auth.ts',
+        });
+      }
+
+      try {
+        await calendar.events.delete({ calendarId: block.calendarId, eventId: block.eventId });
+      } catch (err) {
+        if (!isEventGone(err)) throw err;
+      }
+
+      await ctx.prisma.item.update({
+        where: { id },
+        data: { metadata: writeCalendarBlock(item.metadata, null) },
+      });
+
+      emit.items.updated(id);
+
+      return { id, displayId: formatTaskId(id), deleted: true };
+    }),
 });
 
 export type ItemsRouter = typeof itemsRouter;
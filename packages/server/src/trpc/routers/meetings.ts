@@ -0,0 +1,172 @@
+/**
+ * Meetings Router (tRPC)
+ *
+ * Preparing meeting notes from the task database, and recurring meeting
+ * series. Syncing actions out of a note is sync.meeting.
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import {
+  CreateNextMeetingInputSchema,
+  MeetingAgendaInputSchema,
+  MeetingSeriesInputSchema,
+  type CreateNextMeetingResult,
+  type MeetingAgenda,
+} from '@kw/api-types';
+import { router, protectedProcedure } from '../trpc.js';
+import { actorLabel } from '../../services/audit.js';
+import { isWritablePath, saveFileWithRevision } from '../../services/file-revisions.js';
+import { buildAgenda, writeAgendaSection } from '../../services/meeting-agenda.js';
+import { getMeetingByPath, seriesSlug } from '../../services/meeting-parser.js';
+import { getSeriesTimeline, listSeries, planNextMeeting } from '../../services/meeting-series.js';
+import { syncMeetingActions } from '../../services/meeting-sync.js';
+import { isWithinKB, resolveKBPath } from '../../services/paths.js';
+import { indexMeeting } from '../../services/search-index.js';
+
+/**
+ * Parse a meeting note the caller may write to
+ */
+function readMeetingNote(relativePath: string) {
+  const absolutePath = resolveKBPath(relativePath);
+  if (!isWithinKB(absolutePath) || !isWritablePath(relativePath)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Not a meeting note: ${relativePath}` });
+  }
+
+  const meeting = getMeetingByPath(relativePath);
+  if (!meeting) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Meeting not found at path: ${relativePath}`,
+    });
+  }
+  return { meeting, absolutePath };
+}
+
+export const meetingsRouter = router({
+  /**
+   * Build an agenda for a meeting note from open actions of the previous
+   * meeting, the attendees' tasks and the meeting's projects, and write it as
+   * the note's `## Agenda` section (replacing any earlier one). The previous
+   * version of the note is kept in its file history.
+   */
+  prepareAgenda: protectedProcedure
+    .input(MeetingAgendaInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { meeting, absolutePath } = readMeetingNote(input.path);
+      const agenda = await buildAgenda(ctx.prisma, meeting);
+
+      let written = false;
+      if (!input.dryRun) {
+        const content = fs.readFileSync(absolutePath, 'utf-8');
+        const updated = writeAgendaSection(content, agenda.markdown);
+        if (updated !== content) {
+          saveFileWithRevision(absolutePath, input.path, updated, { source: 'edit', actor: actorLabel(ctx.actor) });
+          written = true;
+        }
+      }
+
+      const previous = agenda.previousMeeting;
+      const response: MeetingAgenda = {
+        path: meeting.path,
+        title: meeting.title,
+        date: meeting.date,
+        previousMeeting: previous ? { path: previous.path, title: previous.title, date: previous.date } : null,
+        sections: agenda.sections,
+        unknownAttendees: agenda.unknownAttendees,
+        markdown: agenda.markdown,
+        written,
+      };
+      return response;
+    }),
+
+  // ===========================================================================
+  // SERIES
+  // ===========================================================================
+
+  /**
+   * Meeting series, most recently met first
+   */
+  seriesList: protectedProcedure
+    .input(z.object({ org: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      return { series: await listSeries(ctx.prisma, input?.org) };
+    }),
+
+  /**
+   * A series' meetings, oldest first, with their summaries and open actions
+   */
+  series: protectedProcedure
+    .input(MeetingSeriesInputSchema)
+    .query(async ({ ctx, input }) => {
+      const slug = seriesSlug(input.slug);
+      const matches = await ctx.prisma.meetingSeries.findMany({
+        where: { slug, ...(input.org ? { organization: { slug: input.org } } : {}) },
+        select: { id: true },
+      });
+
+      if (matches.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Meeting series not found: ${slug}` });
+      }
+      if (matches.length > 1) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Series ${slug} exists in several organizations: pass org` });
+      }
+      return (await getSeriesTimeline(ctx.prisma, matches[0].id))!;
+    }),
+
+  /**
+   * Create the next note in a meeting's series from the latest one: same
+   * attendees, projects and series, status planned, and the latest
+   * meeting's open actions listed under "Actions from Previous Meetings".
+   * The new note is synced so it shows in the series straight away.
+   */
+  createNext: protectedProcedure
+    .input(CreateNextMeetingInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { meeting } = readMeetingNote(input.path);
+
+      let plan;
+      try {
+        plan = await planNextMeeting(ctx.prisma, meeting, input.date);
+      } catch (e) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: (e as Error).message });
+      }
+
+      const absolutePath = resolveKBPath(plan.path);
+      if (fs.existsSync(absolutePath)) {
+        throw new TRPCError({ code: 'CONFLICT', message: `${plan.path} already exists` });
+      }
+
+      if (!input.dryRun) {
+        const saved = saveFileWithRevision(absolutePath, plan.path, plan.content, {
+          baseHash: null,
+          source: 'edit',
+          actor: actorLabel(ctx.actor),
+        });
+        if (!saved.ok) {
+          throw new TRPCError({ code: 'CONFLICT', message: `${plan.path} already exists` });
+        }
+
+        const created = getMeetingByPath(plan.path);
+        if (created) {
+          await syncMeetingActions(ctx.prisma, created);
+          await indexMeeting(ctx.prisma, created);
+        }
+      }
+
+      const result: CreateNextMeetingResult = {
+        path: plan.path,
+        title: plan.title,
+        date: plan.date,
+        series: plan.series,
+        previousPath: plan.previous.path,
+        carriedOver: plan.carriedOver,
+        content: plan.content,
+        created: !input.dryRun,
+      };
+      return result;
+    }),
+});
+
+export type MeetingsRouter = typeof meetingsRouter;
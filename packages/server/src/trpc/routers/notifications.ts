@@ -6,7 +6,7 @@
  */
 
 import { z } from 'zod';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import { emit } from '../../events.js';
 
 // =============================================================================
@@ -42,7 +42,7 @@ export const notificationsRouter = router({
    * - Memory/context updates
    * - Internal system files
    */
-  aiContentCreated: publicProcedure
+  aiContentCreated: protectedProcedure
     .input(AIContentNotificationSchema)
     .mutation(({ input }) => {
       const { contentType, title, filePath, message } = input;
@@ -8,8 +8,10 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { mkdir, writeFile } from 'fs/promises';
-import { router, publicProcedure } from '../trpc.js';
-import { resolveKBPath } from '../../services/paths.js';
+import { router, protectedProcedure } from '../trpc.js';
+import type { PrismaClient } from '../../generated/prisma/index.js';
+import { getKnowledgeBasePath, resolveKBPath } from '../../services/paths.js';
+import { normalizeFolderPath, reconcileOrgFolders } from '../../services/org-folders.js';
 
 // =============================================================================
 // Schemas
@@ -21,6 +23,10 @@ const OrganizationSchema = z.object({
   name: z.string(),
   shortName: z.string().nullable(),
   description: z.string().nullable(),
+  billingRate: z.number().nullable(),
+  billingCurrency: z.string().nullable(),
+  folderPath: z.string().nullable(),
+  archived: z.boolean(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -30,6 +36,9 @@ const CreateOrganizationSchema = z.object({
   name: z.string().min(1),
   shortName: z.string().optional(),
   description: z.string().optional(),
+  billingRate: z.number().positive().optional(),
+  billingCurrency: z.string().length(3).toUpperCase().optional(),
+  folderPath: z.string().min(1).optional(), // Defaults to the slug
 });
 
 const UpdateOrganizationSchema = z.object({
@@ -37,8 +46,45 @@ const UpdateOrganizationSchema = z.object({
   shortName: z.string().nullable().optional(),
   description: z.string().nullable().optional(),
   color: z.enum(['indigo', 'teal', 'rose', 'orange']).nullable().optional(),
+  billingRate: z.number().positive().nullable().optional(),
+  billingCurrency: z.string().length(3).toUpperCase().nullable().optional(),
+  folderPath: z.string().min(1).nullable().optional(),
+  archived: z.boolean().optional(),
 });
 
+// =============================================================================
+// Helper: Validate an org folder path
+// =============================================================================
+
+/**
+ * Normalize a folder path and check no other org uses it
+ */
+async function checkFolderPath(
+  prisma: PrismaClient,
+  folderPath: string,
+  exceptOrgId?: number
+): Promise<string> {
+  const folder = normalizeFolderPath(folderPath);
+  if (!folder) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Invalid folder path: ${folderPath}`,
+    });
+  }
+
+  const other = await prisma.organization.findFirst({
+    where: { folderPath: folder, ...(exceptOrgId !== undefined && { id: { not: exceptOrgId } }) },
+    select: { slug: true },
+  });
+  if (other) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `Folder '${folder}' is already used by organization '${other.slug}'`,
+    });
+  }
+  return folder;
+}
+
 // =============================================================================
 // Helper: Format organization for API response
 // =============================================================================
@@ -50,6 +96,10 @@ function formatOrganization(org: {
   shortName: string | null;
   description: string | null;
   color: string | null;
+  billingRate: number | null;
+  billingCurrency: string | null;
+  folderPath: string | null;
+  archived: boolean;
   createdAt: Date;
   updatedAt: Date;
 }) {
@@ -60,6 +110,10 @@ function formatOrganization(org: {
     shortName: org.shortName,
     description: org.description,
     color: org.color as 'indigo' | 'teal' | 'rose' | 'orange' | null,
+    billingRate: org.billingRate,
+    billingCurrency: org.billingCurrency,
+    folderPath: org.folderPath,
+    archived: org.archived,
     createdAt: org.createdAt.toISOString(),
     updatedAt: org.updatedAt.toISOString(),
   };
@@ -73,7 +127,7 @@ export const organizationsRouter = router({
   /**
    * List all organizations
    */
-  list: publicProcedure
+  list: protectedProcedure
     .query(async ({ ctx }) => {
       const orgs = await ctx.prisma.organization.findMany({
         orderBy: { name: 'asc' },
@@ -88,7 +142,7 @@ export const organizationsRouter = router({
   /**
    * Get a specific organization by slug
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       slug: z.string(),
     }))
@@ -122,7 +176,7 @@ export const organizationsRouter = router({
   /**
    * Create a new organization
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(CreateOrganizationSchema)
     .mutation(async ({ ctx, input }) => {
       // Check if slug already exists
@@ -137,12 +191,18 @@ export const organizationsRouter = router({
         });
       }
 
+      // Meeting and project sync pick the org up from its folder straight away
+      const folderPath = await checkFolderPath(ctx.prisma, input.folderPath ?? input.slug);
+
       const org = await ctx.prisma.organization.create({
         data: {
           slug: input.slug,
           name: input.name,
           shortName: input.shortName || null,
           description: input.description || null,
+          billingRate: input.billingRate ?? null,
+          billingCurrency: input.billingCurrency ?? null,
+          folderPath,
         },
       });
 
@@ -159,7 +219,7 @@ export const organizationsRouter = router({
 
       // Create filesystem folder and README for _general project
       try {
-        const generalDir = resolveKBPath(`${input.slug}/projects/_general`);
+        const generalDir = resolveKBPath(`${folderPath}/projects/_general`);
         await mkdir(generalDir, { recursive: true });
 
         const readmeContent = `---
@@ -186,7 +246,7 @@ General tasks and activities for ${input.name} that aren't tied to a specific pr
   /**
    * Update an organization
    */
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       slug: z.string(),
       data: UpdateOrganizationSchema,
@@ -203,23 +263,44 @@ General tasks and activities for ${input.name} that aren't tied to a specific pr
         });
       }
 
+      const folderPath = input.data.folderPath
+        ? await checkFolderPath(ctx.prisma, input.data.folderPath, org.id)
+        : input.data.folderPath;
+
       const updated = await ctx.prisma.organization.update({
         where: { slug: input.slug },
         data: {
+          ...(folderPath !== undefined && { folderPath }),
+          ...(input.data.archived !== undefined && { archived: input.data.archived }),
           ...(input.data.name !== undefined && { name: input.data.name }),
           ...(input.data.shortName !== undefined && { shortName: input.data.shortName }),
           ...(input.data.description !== undefined && { description: input.data.description }),
           ...(input.data.color !== undefined && { color: input.data.color }),
+          ...(input.data.billingRate !== undefined && { billingRate: input.data.billingRate }),
+          ...(input.data.billingCurrency !== undefined && { billingCurrency: input.data.billingCurrency }),
         },
       });
 
       return formatOrganization(updated);
     }),
 
+  /**
+   * Match top-level KB folders containing projects/ or meetings/ with
+   * organizations: link orgs to folders named after their slug, create orgs
+   * for unclaimed folders, and report orgs whose folder is missing
+   */
+  reconcileFolders: protectedProcedure
+    .input(z.object({
+      dryRun: z.boolean().default(false),
+    }).optional())
+    .mutation(({ ctx, input }) =>
+      reconcileOrgFolders(ctx.prisma, getKnowledgeBasePath(), { apply: !input?.dryRun })
+    ),
+
   /**
    * Delete an organization (only if no projects/people reference it)
    */
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       slug: z.string(),
     }))
@@ -266,7 +347,7 @@ General tasks and activities for ${input.name} that aren't tied to a specific pr
    * - Unlinks all people (sets orgId to null)
    * - Deletes the organization
    */
-  deleteForce: publicProcedure
+  deleteForce: protectedProcedure
     .input(z.object({
       slug: z.string(),
       deleteItems: z.boolean().default(true),  // Soft-delete items
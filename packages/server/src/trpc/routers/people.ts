@@ -6,7 +6,7 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import {
   PersonSchema,
   CreatePersonSchema,
@@ -54,7 +54,7 @@ export const peopleRouter = router({
   /**
    * List all people with task counts
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(z.object({
       search: z.string().optional(),
       org: z.string().optional(),
@@ -133,7 +133,7 @@ export const peopleRouter = router({
   /**
    * Get a single person by ID
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       id: z.number(),
     }))
@@ -229,7 +229,7 @@ export const peopleRouter = router({
   /**
    * Create a new person
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(CreatePersonSchema)
     .mutation(async ({ ctx, input }) => {
       // Look up organization by slug if provided
@@ -266,7 +266,7 @@ export const peopleRouter = router({
   /**
    * Update a person
    */
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       id: z.number(),
       data: UpdatePersonSchema,
@@ -315,7 +315,7 @@ export const peopleRouter = router({
   /**
    * Find person by name
    */
-  findByName: publicProcedure
+  findByName: protectedProcedure
     .input(z.object({
       name: z.string(),
     }))
@@ -333,7 +333,7 @@ export const peopleRouter = router({
   /**
    * Delete a person
    */
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       id: z.number(),
     }))
@@ -0,0 +1,83 @@
+/**
+ * Planning Router (tRPC)
+ *
+ * Capacity-aware day-by-day plan (due tasks, check-ins, routines and
+ * calendar busy time) and the working capacity set for each weekday.
+ */
+
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../trpc.js';
+import { PlanningWeekInputSchema, SetCapacitySchema } from '@kw/api-types';
+import { buildWeekPlan, getBusyMinutes, getCapacity } from '../../services/planning.js';
+import { toDateStr } from '../../services/routine-generator-prisma.js';
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const planningRouter = router({
+  /**
+   * Plan the next few days (default 7 from today). Overloaded days come
+   * with suggested moves for their lowest-priority tasks; calendar busy
+   * time is counted when Google Calendar is connected.
+   */
+  week: protectedProcedure
+    .input(PlanningWeekInputSchema)
+    .query(async ({ ctx, input }) => {
+      let ownerId: number | undefined;
+      if (input.owner) {
+        const person = await ctx.prisma.person.findFirst({
+          where: { name: input.owner },
+          select: { id: true },
+        });
+        if (!person) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Person not found: ${input.owner}` });
+        }
+        ownerId = person.id;
+      }
+
+      const start = input.start ?? toDateStr(new Date());
+      const { busy, status } = await getBusyMinutes(start, input.days);
+
+      return buildWeekPlan(ctx.prisma, {
+        start,
+        days: input.days,
+        ownerId,
+        busy,
+        calendar: status,
+      });
+    }),
+
+  /**
+   * Working minutes for each weekday, Sunday first
+   */
+  capacity: protectedProcedure
+    .query(async ({ ctx }) => {
+      const capacity = await getCapacity(ctx.prisma);
+      return {
+        days: capacity.map((minutes, weekday) => ({ weekday, minutes })),
+      };
+    }),
+
+  /**
+   * Set working minutes for some weekdays. Others are unchanged.
+   */
+  setCapacity: protectedProcedure
+    .input(SetCapacitySchema)
+    .mutation(async ({ ctx, input }) => {
+      await ctx.prisma.$transaction(
+        input.days.map(day => ctx.prisma.dayCapacity.upsert({
+          where: { weekday: day.weekday },
+          create: { weekday: day.weekday, minutes: day.minutes },
+          update: { minutes: day.minutes },
+        }))
+      );
+
+      const capacity = await getCapacity(ctx.prisma);
+      return {
+        days: capacity.map((minutes, weekday) => ({ weekday, minutes })),
+      };
+    }),
+});
+
+export type PlanningRouter = typeof planningRouter;
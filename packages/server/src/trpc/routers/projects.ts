@@ -6,19 +6,32 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import fs from 'fs';
+import { router, protectedProcedure } from '../trpc.js';
 import {
   ProjectSchema,
   CreateProjectSchema,
   UpdateProjectSchema,
   ProjectOrgSchema,
   ORG_COLORS,
+  ScaffoldProjectInputSchema,
   type Project,
   type ProjectWithParent,
   type ProjectPath,
   type OrgColor,
 } from '@kw/api-types';
 import type { Prisma } from '../../generated/prisma/index.js';
+import { getKnowledgeBasePath, resolveKBPath } from '../../services/paths.js';
+import {
+  listProjectTemplates,
+  loadProjectTemplate,
+  resolveTemplateVariables,
+  scaffoldProject,
+} from '../../services/project-templates.js';
+import { scanProjects } from '../../services/project-sync.js';
+import { indexItem, indexProjects } from '../../services/search-index.js';
+import { takeSnapshot, recordAudit, SYSTEM_ACTOR, type AuditEntry } from '../../services/audit.js';
+import { emit } from '../../events.js';
 
 // =============================================================================
 // HELPER: Format Prisma project to API response
@@ -76,7 +89,7 @@ export const projectsRouter = router({
   /**
    * List all projects
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(z.object({
       org: ProjectOrgSchema.optional(),
       status: z.string().optional(),
@@ -126,7 +139,7 @@ export const projectsRouter = router({
   /**
    * Get a single project by slug
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       slug: z.string(),
       org: z.string(),
@@ -189,7 +202,7 @@ export const projectsRouter = router({
   /**
    * Create a new project
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(CreateProjectSchema)
     .mutation(async ({ ctx, input }) => {
       // Look up organization by slug - must exist
@@ -221,10 +234,99 @@ export const projectsRouter = router({
       return formatProject(project);
     }),
 
+  /**
+   * List project templates (templates/projects/ in the knowledge base)
+   */
+  templates: protectedProcedure
+    .query(() => {
+      return { templates: listProjectTemplates(getKnowledgeBasePath()) };
+    }),
+
+  /**
+   * Create a project from a template: the folder and README, workstream
+   * child projects and starter tasks, all or nothing
+   */
+  scaffold: protectedProcedure
+    .input(ScaffoldProjectInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const basePath = getKnowledgeBasePath();
+      const template = loadProjectTemplate(basePath, input.template);
+      if (!template) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Project template '${input.template}' not found` });
+      }
+
+      const organization = await ctx.prisma.organization.findUnique({ where: { slug: input.org } });
+      if (!organization) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Organization '${input.org}' not found` });
+      }
+      if (!organization.folderPath) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Organization '${input.org}' has no folder. Set one with orgs-update --folder`,
+        });
+      }
+
+      const existing = await ctx.prisma.project.findFirst({
+        where: { slug: input.slug, orgId: organization.id },
+      });
+      const projectPath = `${organization.folderPath}/projects/${input.slug}`;
+      if (existing || fs.existsSync(resolveKBPath(projectPath))) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: existing
+            ? `Project '${input.slug}' already exists in ${input.org}`
+            : `Folder ${projectPath}/ already exists`,
+        });
+      }
+
+      const { values, problems } = resolveTemplateVariables(template, {
+        name: input.name,
+        slug: input.slug,
+        org: organization.slug,
+        date: new Date().toISOString().slice(0, 10),
+      }, input.variables);
+      if (problems.length > 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: problems.join('; ') });
+      }
+
+      const result = await scaffoldProject(ctx.prisma, basePath, template, {
+        orgId: organization.id,
+        orgFolder: organization.folderPath,
+        slug: input.slug,
+        name: input.name,
+      }, values, { actor: ctx.actor, requestId: ctx.requestId });
+
+      const files = new Set(result.files);
+      await indexProjects(ctx.prisma, (await scanProjects()).filter(p => files.has(p.filePath)));
+      for (const id of result.taskIds) {
+        await indexItem(ctx.prisma, id);
+      }
+
+      // The audit middleware only sees ids returned by create* procedures
+      const entries: AuditEntry[] = [];
+      for (const id of [result.projectId, ...result.workstreams.map(w => w.id)]) {
+        entries.push({ entity: 'projects', entityId: id, before: null, after: await takeSnapshot(ctx.prisma, 'projects', id) });
+      }
+      for (const id of result.taskIds) {
+        entries.push({ entity: 'items', entityId: id, before: null, after: await takeSnapshot(ctx.prisma, 'items', id) });
+      }
+      await recordAudit(ctx.prisma, {
+        requestId: ctx.requestId,
+        procedure: 'projects.scaffold',
+        actor: ctx.actor ?? SYSTEM_ACTOR,
+        entries,
+      });
+
+      // Projects are covered by the router's auto-emit
+      result.taskIds.forEach(id => emit.items.created(id));
+
+      return result;
+    }),
+
   /**
    * Update a project
    */
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       id: z.number(),
       data: UpdateProjectSchema,
@@ -276,7 +378,7 @@ export const projectsRouter = router({
   /**
    * Resolve a project slug to its full path (for URL construction)
    */
-  resolvePath: publicProcedure
+  resolvePath: protectedProcedure
     .input(z.object({
       slug: z.string(),
       org: z.string(),
@@ -320,7 +422,7 @@ export const projectsRouter = router({
    * - orphan: Move items and child projects to parent (or unset if no parent)
    * - fail: Fail if project has any references (default)
    */
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       id: z.number(),
       onItems: z.enum(['cascade', 'orphan', 'fail']).default('fail'),
@@ -437,7 +539,7 @@ export const projectsRouter = router({
   /**
    * List projects with task statistics (for dashboard project progress)
    */
-  withTaskStats: publicProcedure
+  withTaskStats: protectedProcedure
     .input(z.object({
       status: z.string().optional(),
       sortBy: z.enum(['activity', 'name', 'priority']).optional().default('activity'),
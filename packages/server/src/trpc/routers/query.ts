@@ -1,12 +1,15 @@
 /**
  * Query Router (tRPC)
  *
- * Common query shortcuts for items (today, overdue, waiting, search).
+ * Common query shortcuts for items (today, overdue, waiting, search),
+ * plus ad-hoc filtering with the item filter language.
  */
 
 import { z } from 'zod';
-import { router, publicProcedure } from '../trpc.js';
-import { formatTaskId, type ItemWithRelations } from '@kw/api-types';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../trpc.js';
+import { formatTaskId, ItemFilterInputSchema, type ItemWithRelations } from '@kw/api-types';
+import { parseItemFilter } from '../../services/item-filter.js';
 import type { Prisma } from '../../generated/prisma/index.js';
 
 // =============================================================================
@@ -22,6 +25,7 @@ function formatItem(item: {
   priority: number | null;
   dueDate: Date | null;
   targetPeriod: string | null;
+  estimateMinutes?: number | null;
   projectId: number | null;
   ownerId: number | null;
   parentId: number | null;
@@ -53,6 +57,7 @@ function formatItem(item: {
     priority: item.priority,
     dueDate: item.dueDate?.toISOString().split('T')[0] || null,
     targetPeriod: item.targetPeriod,
+    estimateMinutes: item.estimateMinutes ?? null,
     projectId: item.projectId,
     ownerId: item.ownerId,
     parentId: item.parentId,
@@ -109,7 +114,7 @@ export const queryRouter = router({
   /**
    * Get items due today
    */
-  today: publicProcedure
+  today: protectedProcedure
     .input(z.object({
       ownerName: z.string().optional(),
     }).optional())
@@ -150,7 +155,7 @@ export const queryRouter = router({
   /**
    * Get overdue items
    */
-  overdue: publicProcedure
+  overdue: protectedProcedure
     .input(z.object({
       ownerName: z.string().optional(),
     }).optional())
@@ -188,7 +193,7 @@ export const queryRouter = router({
   /**
    * Get items waiting on others
    */
-  waiting: publicProcedure
+  waiting: protectedProcedure
     .query(async ({ ctx }) => {
       // Get items where there's a waiting_on relationship
       const waitingRelations = await ctx.prisma.itemPerson.findMany({
@@ -234,7 +239,7 @@ export const queryRouter = router({
   /**
    * Search items by text
    */
-  search: publicProcedure
+  search: protectedProcedure
     .input(z.object({
       query: z.string().min(1),
       includeCompleted: z.boolean().optional().default(false),
@@ -271,10 +276,49 @@ export const queryRouter = router({
       };
     }),
 
+  /**
+   * Filter items with the filter language, e.g.
+   * "status:pending owner:me due<+7d tag:urgent project:acme-corp/* -blocked"
+   */
+  filter: protectedProcedure
+    .input(ItemFilterInputSchema)
+    .query(async ({ ctx, input }) => {
+      const { where, errors } = parseItemFilter(input.filter, {
+        me: input.me ?? process.env.DEFAULT_OWNER ?? null,
+      });
+
+      if (errors.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Invalid filter: ${errors.join('; ')}`,
+        });
+      }
+
+      const [items, total] = await Promise.all([
+        ctx.prisma.item.findMany({
+          where,
+          include: itemIncludes,
+          orderBy: [
+            { priority: { sort: 'asc', nulls: 'last' } },
+            { dueDate: { sort: 'asc', nulls: 'last' } },
+          ],
+          take: input.limit,
+          skip: input.offset,
+        }),
+        ctx.prisma.item.count({ where }),
+      ]);
+
+      return {
+        filter: input.filter,
+        items: items.map(formatItem),
+        total,
+      };
+    }),
+
   /**
    * Get high priority items
    */
-  highPriority: publicProcedure
+  highPriority: protectedProcedure
     .input(z.object({
       ownerName: z.string().optional(),
       limit: z.number().optional().default(20),
@@ -311,7 +355,7 @@ export const queryRouter = router({
   /**
    * Dashboard summary stats
    */
-  dashboard: publicProcedure
+  dashboard: protectedProcedure
     .input(z.object({
       ownerName: z.string().optional(),
     }).optional())
@@ -364,7 +408,7 @@ export const queryRouter = router({
   /**
    * Get recent activity feed (status changes, completions, notes)
    */
-  activityFeed: publicProcedure
+  activityFeed: protectedProcedure
     .input(z.object({
       limit: z.number().optional().default(30),
       offset: z.number().optional().default(0),
@@ -423,7 +467,7 @@ export const queryRouter = router({
   /**
    * Get tasks due in the next N days (for weekly planning)
    */
-  upcoming: publicProcedure
+  upcoming: protectedProcedure
     .input(z.object({
       days: z.number().optional().default(7),
       ownerName: z.string().optional(),
@@ -486,7 +530,7 @@ export const queryRouter = router({
    * Get blocked items (for action panel)
    * Uses ItemLink system for many-to-many blocking relationships
    */
-  blocked: publicProcedure
+  blocked: protectedProcedure
     .input(z.object({
       limit: z.number().optional().default(20),
     }).optional())
@@ -539,7 +583,7 @@ export const queryRouter = router({
   /**
    * Get in-progress items (for today's focus)
    */
-  inProgress: publicProcedure
+  inProgress: protectedProcedure
     .input(z.object({
       limit: z.number().optional().default(10),
     }).optional())
@@ -7,7 +7,7 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import {
   getRoutines,
   getRoutinesDue,
@@ -19,17 +19,19 @@ import {
   skipRoutineToNextDue,
   completeRoutineToNextDue,
   getRoutineHistory,
+  getNextDueDate,
+  toDateStr,
 } from '../../services/routine-generator-prisma.js';
 import { logRoutineCompletion } from '../../services/diary-sync.js';
 import { getKnowledgeBasePath } from '../../services/paths.js';
+import { indexDiaryFile } from '../../services/search-index.js';
+import { RecurrenceRuleInputSchema } from '@kw/api-types';
 import type { Prisma } from '../../generated/prisma/index.js';
 
 // =============================================================================
 // Schemas
 // =============================================================================
 
-const RecurrenceRuleSchema = z.enum(['daily', 'weekly', 'monthly', 'bimonthly', 'yearly', 'custom']);
-
 const RoutineSchema = z.object({
   id: z.number(),
   title: z.string(),
@@ -50,6 +52,7 @@ const RoutineSchema = z.object({
   completedToday: z.boolean().optional(),
   lastCompleted: z.string().nullable(),
   completionCount: z.number(),
+  nextDue: z.string().nullable(),
 });
 
 const CreateRoutineSchema = z.object({
@@ -58,7 +61,8 @@ const CreateRoutineSchema = z.object({
   priority: z.number().min(1).max(4).optional(),
   ownerId: z.number().optional(),
   projectId: z.number().optional(),
-  recurrenceRule: RecurrenceRuleSchema,
+  // Legacy keyword or RRULE text, e.g. "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"
+  recurrenceRule: RecurrenceRuleInputSchema,
   recurrenceTime: z.string().optional(),
   recurrenceDays: z.array(z.union([z.string(), z.number()])).optional(),
   recurrenceMonths: z.array(z.number()).optional(),
@@ -70,7 +74,7 @@ const UpdateRoutineSchema = z.object({
   priority: z.number().min(1).max(4).nullable().optional(),
   ownerId: z.number().nullable().optional(),
   projectId: z.number().nullable().optional(),
-  recurrenceRule: RecurrenceRuleSchema.optional(),
+  recurrenceRule: RecurrenceRuleInputSchema.optional(),
   recurrenceTime: z.string().nullable().optional(),
   recurrenceDays: z.array(z.union([z.string(), z.number()])).nullable().optional(),
   recurrenceMonths: z.array(z.number()).nullable().optional(),
@@ -101,6 +105,7 @@ interface RawRoutineData {
   completed_today?: boolean;
   last_completed: string | null;
   completion_count: number;
+  next_due?: string;
 }
 
 function formatRoutine(r: RawRoutineData) {
@@ -124,6 +129,7 @@ function formatRoutine(r: RawRoutineData) {
     completedToday: r.completed_today,
     lastCompleted: r.last_completed,
     completionCount: r.completion_count,
+    nextDue: r.next_due ?? null,
   };
 }
 
@@ -135,7 +141,7 @@ export const routinesRouter = router({
   /**
    * List all routine templates
    */
-  list: publicProcedure
+  list: protectedProcedure
     .query(async () => {
       const { routines } = await getRoutines();
       return {
@@ -147,7 +153,7 @@ export const routinesRouter = router({
   /**
    * Get routines due on a date (default: today)
    */
-  due: publicProcedure
+  due: protectedProcedure
     .input(z.object({
       date: z.string().optional(),
     }).optional())
@@ -171,7 +177,7 @@ export const routinesRouter = router({
   /**
    * Get overdue routines
    */
-  overdue: publicProcedure
+  overdue: protectedProcedure
     .query(async () => {
       const overdue = await getOverdueRoutines();
 
@@ -192,7 +198,7 @@ export const routinesRouter = router({
   /**
    * Get a specific routine with history
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       id: z.number(),
     }))
@@ -229,6 +235,7 @@ export const routinesRouter = router({
       const projectFullPath = routine.project?.parent?.slug
         ? `${routine.project.parent.slug}/${routine.project.slug}`
         : routine.project?.slug || null;
+      const nextDue = getNextDueDate(routine);
 
       return {
         id: routine.id,
@@ -246,6 +253,7 @@ export const routinesRouter = router({
         recurrenceTime: routine.recurrenceTime,
         recurrenceDays: routine.recurrenceDays,
         recurrenceMonths: routine.recurrenceMonths,
+        nextDue: nextDue ? toDateStr(nextDue) : null,
         createdAt: routine.createdAt.toISOString(),
         updatedAt: routine.updatedAt.toISOString(),
         history,
@@ -255,7 +263,7 @@ export const routinesRouter = router({
   /**
    * Create a new routine
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(CreateRoutineSchema)
     .mutation(async ({ ctx, input }) => {
       const routine = await ctx.prisma.item.create({
@@ -284,7 +292,7 @@ export const routinesRouter = router({
   /**
    * Update a routine
    */
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       id: z.number(),
       data: UpdateRoutineSchema,
@@ -343,7 +351,7 @@ export const routinesRouter = router({
   /**
    * Delete a routine
    */
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       id: z.number(),
     }))
@@ -376,7 +384,7 @@ export const routinesRouter = router({
   /**
    * Complete a routine for a date (default: today)
    */
-  complete: publicProcedure
+  complete: protectedProcedure
     .input(z.object({
       id: z.number(),
       date: z.string().optional(),
@@ -417,6 +425,9 @@ export const routinesRouter = router({
         const basePath = getKnowledgeBasePath();
         const diaryResult = logRoutineCompletion(basePath, routine.title, completionDate);
         diarySync = { synced: diaryResult.success, diaryPath: diaryResult.diaryPath };
+        if (diaryResult.success) {
+          await indexDiaryFile(ctx.prisma, diaryResult.diaryPath);
+        }
       }
 
       return {
@@ -431,7 +442,7 @@ export const routinesRouter = router({
   /**
    * Uncomplete a routine for a date
    */
-  uncomplete: publicProcedure
+  uncomplete: protectedProcedure
     .input(z.object({
       id: z.number(),
       date: z.string().optional(),
@@ -450,7 +461,7 @@ export const routinesRouter = router({
   /**
    * Skip a routine for a date
    */
-  skip: publicProcedure
+  skip: protectedProcedure
     .input(z.object({
       id: z.number(),
       date: z.string().optional(),
@@ -478,7 +489,7 @@ export const routinesRouter = router({
   /**
    * Unskip a routine for a date
    */
-  unskip: publicProcedure
+  unskip: protectedProcedure
     .input(z.object({
       id: z.number(),
       date: z.string().optional(),
@@ -497,7 +508,7 @@ export const routinesRouter = router({
   /**
    * Skip all overdue instances, advancing to next due date
    */
-  skipAllOverdue: publicProcedure
+  skipAllOverdue: protectedProcedure
     .input(z.object({
       id: z.number(),
     }))
@@ -522,7 +533,7 @@ export const routinesRouter = router({
   /**
    * Complete all overdue instances, advancing to next due date
    */
-  completeAllOverdue: publicProcedure
+  completeAllOverdue: protectedProcedure
     .input(z.object({
       id: z.number(),
     }))
@@ -0,0 +1,41 @@
+/**
+ * Search Router (tRPC)
+ *
+ * Full-text search over items, notes, meetings, project READMEs and diary
+ * entries, backed by the SQLite FTS5 index in services/search-index.ts.
+ */
+
+import { router, protectedProcedure } from '../trpc.js';
+import { SearchInputSchema } from '@kw/api-types';
+import { searchIndex, rebuildSearchIndex } from '../../services/search-index.js';
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const searchRouter = router({
+  /**
+   * Ranked full-text search with snippets and highlight offsets
+   */
+  query: protectedProcedure
+    .input(SearchInputSchema)
+    .query(async ({ ctx, input }) => {
+      const { results, total } = await searchIndex(ctx.prisma, input);
+
+      return {
+        query: input.query,
+        results,
+        total,
+      };
+    }),
+
+  /**
+   * Drop and rebuild the search index from the database and knowledge base
+   */
+  rebuild: protectedProcedure
+    .mutation(async ({ ctx }) => {
+      return rebuildSearchIndex(ctx.prisma);
+    }),
+});
+
+export type SearchRouter = typeof searchRouter;
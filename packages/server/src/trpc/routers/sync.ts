@@ -4,48 +4,30 @@
  * Type-safe API for sync operations:
  * - Meeting sync: Parse meeting markdown → create tasks
  * - Filesystem sync: Bidirectional sync between workstream files and DB
+ * - README sync: Two-way sync between README checkbox/status lines and items
+ * - Watcher: Status, log and pause/resume of the background file sync
  */
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
-import {
-  getMeetingByPath,
-  parseDueDate,
-  type ParsedMeeting,
-} from '../../services/meeting-parser.js';
+import { router, protectedProcedure } from '../trpc.js';
+import { getMeetingByPath } from '../../services/meeting-parser.js';
+import { syncMeetingActions } from '../../services/meeting-sync.js';
 import { scanProjects, syncProjects } from '../../services/project-sync.js';
-import { formatTaskId } from '@kw/api-types';
-import type { PrismaClient } from '../../generated/prisma/index.js';
-
-// =============================================================================
-// Types
-// =============================================================================
-
-interface SyncResult {
-  meetingPath: string;
-  meetingTitle: string;
-  actionsFound: number;
-  tasksCreated: number;
-  tasksUpdated: number;
-  tasksSkipped: number;
-  errors: string[];
-  taskIds: number[];
-}
-
-// =============================================================================
-// Helper: Map action status to task status
-// =============================================================================
-
-function mapActionStatus(status: string): string {
-  const lower = status.toLowerCase();
-  if (lower === 'done' || lower === 'complete' || lower === 'completed') return 'complete';
-  if (lower === 'cancelled' || lower === 'canceled') return 'cancelled';
-  if (lower === 'in progress' || lower === 'in-progress' || lower === 'active') return 'in_progress';
-  if (lower === 'blocked') return 'blocked';
-  if (lower === 'deferred') return 'deferred';
-  return 'pending';
-}
+import { syncReadmes } from '../../services/readme-sync.js';
+import { getKnowledgeBasePath } from '../../services/paths.js';
+import {
+  getSyncWatcherStatus,
+  pauseSyncWatcher,
+  resumeSyncWatcher,
+} from '../../services/sync-watcher.js';
+import { indexItem, indexMeeting, indexProjects, rebuildSearchIndex } from '../../services/search-index.js';
+
+/** How to settle a README sync conflict: keep the README line or the item */
+const ReadmeResolutionSchema = z.object({
+  key: z.string(),
+  keep: z.enum(['readme', 'db']),
+});
 
 // =============================================================================
 // ROUTER
@@ -59,13 +41,16 @@ export const syncRouter = router({
   /**
    * Preview what would be synced from all sources
    */
-  allPreview: publicProcedure
+  allPreview: protectedProcedure
     .query(async ({ ctx }) => {
       // Get count of meetings
       const meetingCount = await ctx.prisma.meeting.count();
 
       // Get filesystem preview (projects including workstreams)
-      const projects = scanProjects();
+      const projects = await scanProjects();
+
+      // README lines and items that have drifted apart
+      const readmes = await syncReadmes(ctx.prisma, getKnowledgeBasePath(), { apply: false });
 
       return {
         meetings: {
@@ -75,17 +60,34 @@ export const syncRouter = router({
         projects: {
           count: projects.length,
         },
+        readmes: {
+          changes: readmes.changes,
+          conflicts: readmes.conflicts,
+        },
       };
     }),
 
   /**
-   * Sync all sources (meetings + filesystem)
+   * Sync all sources (meetings + filesystem + README tasks). README conflicts
+   * without a resolution are left as they are.
    */
-  all: publicProcedure
-    .mutation(async () => {
+  all: protectedProcedure
+    .input(z.object({
+      readmeResolutions: z.array(ReadmeResolutionSchema).optional(),
+    }).optional())
+    .mutation(async ({ ctx, input }) => {
       // Sync projects (including workstreams as child projects)
       const projectResult = await syncProjects();
 
+      // Then README tasks, so new items find their project
+      const readmeResult = await syncReadmes(ctx.prisma, getKnowledgeBasePath(), {
+        apply: true,
+        resolutions: input?.readmeResolutions,
+      });
+
+      // Refresh the full-text index from all sources
+      const searchResult = await rebuildSearchIndex(ctx.prisma);
+
       return {
         meetings: {
           tasksCreated: 0,
@@ -97,6 +99,15 @@ export const syncRouter = router({
           projectsUpdated: projectResult.projects_updated,
           errors: projectResult.errors.length,
         },
+        readmes: {
+          changes: readmeResult.changes.length,
+          conflicts: readmeResult.conflicts.length,
+          errors: readmeResult.errors.length,
+        },
+        search: {
+          documentsIndexed: Object.values(searchResult.indexed).reduce((sum, n) => sum + n, 0),
+          errors: searchResult.errors.length,
+        },
       };
     }),
 
@@ -107,7 +118,7 @@ export const syncRouter = router({
   /**
    * Preview what would be synced from a meeting
    */
-  meetingPreview: publicProcedure
+  meetingPreview: protectedProcedure
     .input(z.object({
       path: z.string(),
     }))
@@ -173,7 +184,7 @@ export const syncRouter = router({
   /**
    * Sync actions from a meeting file to the database
    */
-  meeting: publicProcedure
+  meeting: protectedProcedure
     .input(z.object({
       path: z.string(),
       dryRun: z.boolean().optional().default(false),
@@ -205,6 +216,12 @@ export const syncRouter = router({
       // Actually sync the meeting
       const result = await syncMeetingActions(ctx.prisma, meeting);
 
+      // Keep the search index current for the meeting and its tasks
+      await indexMeeting(ctx.prisma, meeting);
+      for (const taskId of result.taskIds) {
+        await indexItem(ctx.prisma, taskId);
+      }
+
       return {
         ...result,
         dryRun: false,
@@ -218,9 +235,9 @@ export const syncRouter = router({
   /**
    * Preview projects found in filesystem (including workstreams as child projects)
    */
-  filesystemPreview: publicProcedure
-    .query(() => {
-      const projects = scanProjects();
+  filesystemPreview: protectedProcedure
+    .query(async () => {
+      const projects = await scanProjects();
 
       return {
         total: projects.length,
@@ -238,227 +255,69 @@ export const syncRouter = router({
   /**
    * Sync all projects (including workstreams) from filesystem to database
    */
-  filesystem: publicProcedure
-    .mutation(async () => {
+  filesystem: protectedProcedure
+    .mutation(async ({ ctx }) => {
       const result = await syncProjects();
+      const searchErrors = await indexProjects(ctx.prisma, await scanProjects());
 
       return {
         projectsFound: result.projects_found,
         projectsCreated: result.projects_created,
         projectsUpdated: result.projects_updated,
-        errors: result.errors,
+        errors: [...result.errors, ...searchErrors],
       };
     }),
-});
 
-// =============================================================================
-// Helper: Sync meeting actions (extracted from sync-prisma.ts)
-// =============================================================================
+  // ===========================================================================
+  // README SYNC
+  // ===========================================================================
 
-async function syncMeetingActions(prisma: PrismaClient, meeting: ParsedMeeting): Promise<SyncResult> {
-  const result: SyncResult = {
-    meetingPath: meeting.path,
-    meetingTitle: meeting.title,
-    actionsFound: meeting.actions.length,
-    tasksCreated: 0,
-    tasksUpdated: 0,
-    tasksSkipped: 0,
-    errors: [],
-    taskIds: [],
-  };
-
-  // Extract org from meeting path (e.g., "acme-corp/meetings/..." -> "acme-corp")
-  const meetingOrg = meeting.path.split('/')[0] || undefined;
-
-  // Find or create meeting in database (always, even with no actions)
-  let meetingRecord = await prisma.meeting.findUnique({
-    where: { path: meeting.path },
-  });
-
-  if (!meetingRecord) {
-    meetingRecord = await prisma.meeting.create({
-      data: {
-        title: meeting.title,
-        date: new Date(meeting.date),
-        path: meeting.path,
-      },
-    });
-
-    // Link projects if available
-    for (let i = 0; i < meeting.projects.length; i++) {
-      const projectSlug = meeting.projects[i];
-      const project = await prisma.project.findFirst({
-        where: {
-          slug: projectSlug,
-          ...(meetingOrg ? { organization: { slug: meetingOrg } } : {}),
-        },
-      });
-      if (project) {
-        await prisma.meetingProject.upsert({
-          where: {
-            meetingId_projectId: {
-              meetingId: meetingRecord.id,
-              projectId: project.id,
-            },
-          },
-          create: {
-            meetingId: meetingRecord.id,
-            projectId: project.id,
-            isPrimary: i === 0,
-          },
-          update: {},
-        });
-      }
-    }
-  }
-
-  // Sync attendees
-  for (const attendeeName of meeting.attendees) {
-    let person = await prisma.person.findFirst({
-      where: { name: { equals: attendeeName } },
-    });
-    if (!person) {
-      person = await prisma.person.create({
-        data: { name: attendeeName },
-      });
-    }
-    await prisma.meetingAttendee.upsert({
-      where: {
-        meetingId_personId: {
-          meetingId: meetingRecord.id,
-          personId: person.id,
-        },
-      },
-      create: {
-        meetingId: meetingRecord.id,
-        personId: person.id,
-      },
-      update: {},
-    });
-  }
-
-  // If no actions, we're done (meeting and attendees are already synced)
-  if (meeting.actions.length === 0) {
-    return result;
-  }
-
-  // Process each action
-  for (const action of meeting.actions) {
-    try {
-      // Skip completed/cancelled actions
-      const statusLower = action.status.toLowerCase();
-      if (statusLower === 'complete' || statusLower === 'cancelled') {
-        result.tasksSkipped++;
-        continue;
-      }
+  /**
+   * Preview README task sync: the changes it would make and the conflicts
+   * that need a decision
+   */
+  readmesPreview: protectedProcedure
+    .query(({ ctx }) => syncReadmes(ctx.prisma, getKnowledgeBasePath(), { apply: false })),
 
-      // Check if task already exists
-      const existingTask = await prisma.item.findFirst({
-        where: {
-          sourceMeetingId: meetingRecord.id,
-          title: action.action,
-        },
+  /**
+   * Reconcile README checkbox/status lines with their items
+   */
+  readmes: protectedProcedure
+    .input(z.object({
+      resolutions: z.array(ReadmeResolutionSchema).optional(),
+    }).optional())
+    .mutation(async ({ ctx, input }) => {
+      const result = await syncReadmes(ctx.prisma, getKnowledgeBasePath(), {
+        apply: true,
+        resolutions: input?.resolutions,
       });
-
-      if (existingTask) {
-        if (existingTask.deletedAt) {
-          result.tasksSkipped++;
-          continue;
-        }
-        const newStatus = mapActionStatus(action.status);
-        if (existingTask.status !== newStatus && newStatus !== 'complete') {
-          await prisma.item.update({
-            where: { id: existingTask.id },
-            data: { status: newStatus },
-          });
-          result.tasksUpdated++;
-          result.taskIds.push(existingTask.id);
-        } else {
-          result.tasksSkipped++;
-          result.taskIds.push(existingTask.id);
-        }
-        continue;
-      }
-
-      // Find or create owner
-      let ownerId: number | null = null;
-      const additionalAssignees: number[] = [];
-
-      if (action.owner) {
-        const ownerNames = action.owner
-          .split(/[,&]|\band\b/i)
-          .map((n) => n.trim())
-          .filter((n) => n.length > 0);
-
-        for (let i = 0; i < ownerNames.length; i++) {
-          const ownerName = ownerNames[i];
-          let person = await prisma.person.findFirst({
-            where: { name: { contains: ownerName } },
-          });
-          if (!person) {
-            person = await prisma.person.create({
-              data: { name: ownerName },
-            });
-          }
-
-          if (i === 0) {
-            ownerId = person.id;
-          } else {
-            additionalAssignees.push(person.id);
-          }
-        }
-      }
-
-      // Find project (scoped to meeting's org)
-      let projectId: number | null = null;
-      const projectSlug = action.project || meeting.primaryProject;
-      if (projectSlug) {
-        const project = await prisma.project.findFirst({
-          where: {
-            slug: projectSlug,
-            ...(meetingOrg ? { organization: { slug: meetingOrg } } : {}),
-          },
-        });
-        projectId = project?.id || null;
+      for (const itemId of result.itemIds) {
+        await indexItem(ctx.prisma, itemId);
       }
+      return result;
+    }),
 
-      // Parse due date
-      const dueDate = parseDueDate(action.due);
-
-      // Create task
-      const newTask = await prisma.item.create({
-        data: {
-          title: action.action,
-          status: mapActionStatus(action.status),
-          itemType: 'task',
-          dueDate: dueDate ? new Date(dueDate) : null,
-          ownerId,
-          projectId,
-          sourceMeetingId: meetingRecord.id,
-          sourceType: 'meeting',
-          sourcePath: meeting.path,
-        },
-      });
+  // ===========================================================================
+  // WATCHER
+  // ===========================================================================
 
-      // Link additional assignees
-      for (const assigneeId of additionalAssignees) {
-        await prisma.itemPerson.create({
-          data: {
-            itemId: newTask.id,
-            personId: assigneeId,
-            role: 'assignee',
-          },
-        });
-      }
+  /**
+   * Background sync state, queued files and the log of recent runs
+   */
+  watcherStatus: protectedProcedure
+    .query(() => getSyncWatcherStatus()),
 
-      result.tasksCreated++;
-      result.taskIds.push(newTask.id);
-    } catch (error) {
-      result.errors.push(`Failed to process action "${action.action}": ${(error as Error).message}`);
-    }
-  }
+  /**
+   * Stop syncing changed files until resumed. Changes keep queueing.
+   */
+  pauseWatcher: protectedProcedure
+    .mutation(() => pauseSyncWatcher()),
 
-  return result;
-}
+  /**
+   * Resume background sync and process anything queued while paused
+   */
+  resumeWatcher: protectedProcedure
+    .mutation(() => resumeSyncWatcher()),
+});
 
 export type SyncRouter = typeof syncRouter;
@@ -6,7 +6,7 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import type { Prisma } from '../../generated/prisma/index.js';
 
 // =============================================================================
@@ -17,7 +17,7 @@ export const tagsRouter = router({
   /**
    * List all tags
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(z.object({
       search: z.string().optional(),
       limit: z.number().optional().default(100),
@@ -53,7 +53,7 @@ export const tagsRouter = router({
   /**
    * Get a single tag by ID or name
    */
-  get: publicProcedure
+  get: protectedProcedure
     .input(z.object({
       id: z.number().optional(),
       name: z.string().optional(),
@@ -102,7 +102,7 @@ export const tagsRouter = router({
   /**
    * Create a new tag
    */
-  create: publicProcedure
+  create: protectedProcedure
     .input(z.object({
       name: z.string().min(1),
       color: z.string().optional(),
@@ -138,7 +138,7 @@ export const tagsRouter = router({
   /**
    * Update a tag
    */
-  update: publicProcedure
+  update: protectedProcedure
     .input(z.object({
       id: z.number(),
       name: z.string().min(1).optional(),
@@ -183,7 +183,7 @@ export const tagsRouter = router({
   /**
    * Delete a tag
    */
-  delete: publicProcedure
+  delete: protectedProcedure
     .input(z.object({
       id: z.number(),
     }))
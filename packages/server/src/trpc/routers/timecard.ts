@@ -1,24 +1,29 @@
 /**
  * Timecard Router (tRPC)
  *
- * Read-only API for viewing timecard data from CSV.
+ * Read-only API for viewing timecard data. Hours come from the hand-maintained
+ * CSV, from time entries logged against items, or both.
  */
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, publicProcedure } from '../trpc.js';
+import { router, protectedProcedure } from '../trpc.js';
 import { resolveKBPath } from '../../services/paths.js';
+import type { PrismaClient } from '../../generated/prisma/index.js';
 import fs from 'fs';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
+export type TimecardSource = 'csv' | 'db';
+
 export interface TimecardEntry {
   date: string;
   client: string;
   hours: number;
   tasks: string;
+  source: TimecardSource;
 }
 
 export interface ClientSummary {
@@ -27,6 +32,14 @@ export interface ClientSummary {
   entryCount: number;
 }
 
+export interface ProjectSummary {
+  client: string;
+  project: string; // Project slug
+  projectName: string;
+  totalHours: number;
+  entryCount: number;
+}
+
 export interface MonthSummary {
   month: string; // YYYY-MM
   clients: ClientSummary[];
@@ -63,12 +76,16 @@ function parseCSVLine(line: string): string[] {
 }
 
 /**
- * Read and parse the timecard CSV file
+ * Read and parse the timecard CSV file.
+ * A missing file is an error unless the CSV is optional (combined with DB time).
  */
-function readTimecardCSV(): TimecardEntry[] {
+function readTimecardCSV(required = true): TimecardEntry[] {
   const csvPath = resolveKBPath('personal/invoicing/timecard.csv');
 
   if (!fs.existsSync(csvPath)) {
+    if (!required) {
+      return [];
+    }
     throw new TRPCError({
       code: 'NOT_FOUND',
       message: 'Timecard CSV file not found',
@@ -89,6 +106,7 @@ function readTimecardCSV(): TimecardEntry[] {
         client,
         hours: parseFloat(hours) || 0,
         tasks: tasks || '',
+        source: 'csv' as const,
       };
     })
     .filter((entry) => entry.date && entry.client);
@@ -97,6 +115,75 @@ function readTimecardCSV(): TimecardEntry[] {
   return entries.sort((a, b) => b.date.localeCompare(a.date));
 }
 
+// =============================================================================
+// TIME ENTRIES
+// =============================================================================
+
+const UNASSIGNED_CLIENT = 'unassigned';
+
+/**
+ * Load finished time entries with the org/project they were logged against
+ */
+async function loadTimeEntries(prisma: PrismaClient) {
+  const entries = await prisma.timeEntry.findMany({
+    where: { endedAt: { not: null } },
+    include: {
+      item: {
+        select: {
+          title: true,
+          project: {
+            select: { slug: true, name: true, organization: { select: { slug: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  return entries.map((e) => ({
+    date: e.startedAt.toISOString().split('T')[0],
+    client: e.item.project?.organization?.slug || UNASSIGNED_CLIENT,
+    project: e.item.project ? { slug: e.item.project.slug, name: e.item.project.name } : null,
+    hours: (e.minutes ?? 0) / 60,
+    title: e.item.title,
+  }));
+}
+
+/**
+ * Roll time entries up into one timecard row per day and client, matching
+ * the shape of the CSV rows. Tasks lists the distinct item titles worked on.
+ */
+function toTimecardEntries(entries: Awaited<ReturnType<typeof loadTimeEntries>>): TimecardEntry[] {
+  const rows = new Map<string, { date: string; client: string; hours: number; titles: Set<string> }>();
+  for (const entry of entries) {
+    const key = `${entry.date}|${entry.client}`;
+    const row = rows.get(key) ?? { date: entry.date, client: entry.client, hours: 0, titles: new Set<string>() };
+    row.hours += entry.hours;
+    row.titles.add(entry.title);
+    rows.set(key, row);
+  }
+
+  return [...rows.values()].map((row) => ({
+    date: row.date,
+    client: row.client,
+    hours: Math.round(row.hours * 100) / 100,
+    tasks: [...row.titles].join('; '),
+    source: 'db' as const,
+  }));
+}
+
+const sourceSchema = z.enum(['csv', 'db', 'all']).optional().default('all');
+
+/**
+ * Read timecard rows from the requested source(s), newest first, along with
+ * the underlying time entries they were built from
+ */
+async function readEntries(prisma: PrismaClient, source: 'csv' | 'db' | 'all') {
+  const timeEntries = source === 'csv' ? [] : await loadTimeEntries(prisma);
+  const csv = source === 'db' ? [] : readTimecardCSV(source === 'csv');
+  const entries = [...csv, ...toTimecardEntries(timeEntries)].sort((a, b) => b.date.localeCompare(a.date));
+  return { entries, timeEntries };
+}
+
 // =============================================================================
 // ROUTER
 // =============================================================================
@@ -105,21 +192,22 @@ export const timecardRouter = router({
   /**
    * List all timecard entries with optional filters
    */
-  list: publicProcedure
+  list: protectedProcedure
     .input(
       z
         .object({
           startDate: z.string().optional(),
           endDate: z.string().optional(),
           client: z.string().optional(),
+          source: sourceSchema,
           limit: z.number().optional().default(1000),
         })
         .optional()
     )
-    .query(async ({ input }) => {
-      const { startDate, endDate, client, limit } = input || {};
+    .query(async ({ ctx, input }) => {
+      const { startDate, endDate, client, source = 'all', limit } = input || {};
 
-      let entries = readTimecardCSV();
+      let { entries } = await readEntries(ctx.prisma, source);
 
       // Apply filters
       if (startDate) {
@@ -139,21 +227,24 @@ export const timecardRouter = router({
     }),
 
   /**
-   * Get summary statistics
+   * Get summary statistics. Project totals are only available for time
+   * logged against items, since CSV rows have no project.
    */
-  summary: publicProcedure
+  summary: protectedProcedure
     .input(
       z
         .object({
           startDate: z.string().optional(),
           endDate: z.string().optional(),
+          source: sourceSchema,
         })
         .optional()
     )
-    .query(async ({ input }) => {
-      const { startDate, endDate } = input || {};
+    .query(async ({ ctx, input }) => {
+      const { startDate, endDate, source = 'all' } = input || {};
 
-      let entries = readTimecardCSV();
+      const loaded = await readEntries(ctx.prisma, source);
+      let entries = loaded.entries;
 
       // Apply date filters
       if (startDate) {
@@ -211,14 +302,40 @@ export const timecardRouter = router({
         })
         .sort((a, b) => b.month.localeCompare(a.month));
 
+      // Calculate project totals from item time entries
+      const projectTotals = new Map<string, ProjectSummary>();
+      for (const entry of loaded.timeEntries) {
+        if (!entry.project) continue;
+        if (startDate && entry.date < startDate) continue;
+        if (endDate && entry.date > endDate) continue;
+
+        const key = `${entry.client}/${entry.project.slug}`;
+        const summary = projectTotals.get(key) ?? {
+          client: entry.client,
+          project: entry.project.slug,
+          projectName: entry.project.name,
+          totalHours: 0,
+          entryCount: 0,
+        };
+        summary.totalHours += entry.hours;
+        summary.entryCount += 1;
+        projectTotals.set(key, summary);
+      }
+
+      const projectSummaries = [...projectTotals.values()]
+        .map((p) => ({ ...p, totalHours: Math.round(p.totalHours * 10) / 10 }))
+        .sort((a, b) => b.totalHours - a.totalHours);
+
       // Get unique clients
       const clients = [...new Set(entries.map((e) => e.client))].sort();
 
       return {
+        source,
         totalHours: Math.round(entries.reduce((sum, e) => sum + e.hours, 0) * 10) / 10,
         entryCount: entries.length,
         clients,
         clientSummaries,
+        projectSummaries,
         monthlySummaries,
       };
     }),
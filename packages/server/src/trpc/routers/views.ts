@@ -0,0 +1,247 @@
+/**
+ * Views Router (tRPC)
+ *
+ * Saved views are named item filters (see services/item-filter.ts) that can
+ * be pinned in the web sidebar and run from the CLI with `tcli view <name>`.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure } from '../trpc.js';
+import {
+  CreateSavedViewSchema,
+  UpdateSavedViewSchema,
+  type SavedView,
+} from '@kw/api-types';
+import { parseItemFilter } from '../../services/item-filter.js';
+import { queryRouter } from './query.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatView(view: {
+  id: number;
+  name: string;
+  query: string;
+  description: string | null;
+  pinned: boolean;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}): SavedView {
+  return {
+    id: view.id,
+    name: view.name,
+    query: view.query,
+    description: view.description,
+    pinned: view.pinned,
+    position: view.position,
+    createdAt: view.createdAt.toISOString(),
+    updatedAt: view.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Reject filters with syntax errors before they are saved.
+ * "owner:me" is resolved when the view runs, so any name will do here.
+ */
+function assertValidFilter(query: string) {
+  const { errors } = parseItemFilter(query, { me: 'me' });
+  if (errors.length > 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Invalid filter: ${errors.join('; ')}`,
+    });
+  }
+}
+
+const ViewRefSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+});
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const viewsRouter = router({
+  /**
+   * List saved views (pinned first, then by position and name)
+   */
+  list: protectedProcedure
+    .input(z.object({
+      pinnedOnly: z.boolean().optional().default(false),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      const views = await ctx.prisma.savedView.findMany({
+        where: input?.pinnedOnly ? { pinned: true } : undefined,
+        orderBy: [{ pinned: 'desc' }, { position: 'asc' }, { name: 'asc' }],
+      });
+
+      return {
+        views: views.map(formatView),
+        count: views.length,
+      };
+    }),
+
+  /**
+   * Get a saved view by ID or name
+   */
+  get: protectedProcedure
+    .input(ViewRefSchema)
+    .query(async ({ ctx, input }) => {
+      if (input.id === undefined && !input.name) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Either id or name required' });
+      }
+
+      const view = await ctx.prisma.savedView.findFirst({
+        where: input.id !== undefined ? { id: input.id } : { name: input.name },
+      });
+
+      if (!view) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `View not found: ${input.name ?? input.id}`,
+        });
+      }
+
+      return formatView(view);
+    }),
+
+  /**
+   * Create a saved view
+   */
+  create: protectedProcedure
+    .input(CreateSavedViewSchema)
+    .mutation(async ({ ctx, input }) => {
+      assertValidFilter(input.query);
+
+      const existing = await ctx.prisma.savedView.findUnique({
+        where: { name: input.name },
+      });
+
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `View '${input.name}' already exists`,
+        });
+      }
+
+      // New pinned views go to the end of the sidebar list
+      const last = await ctx.prisma.savedView.findFirst({
+        orderBy: { position: 'desc' },
+        select: { position: true },
+      });
+
+      const view = await ctx.prisma.savedView.create({
+        data: {
+          name: input.name,
+          query: input.query,
+          description: input.description || null,
+          pinned: input.pinned ?? false,
+          position: (last?.position ?? -1) + 1,
+        },
+      });
+
+      return formatView(view);
+    }),
+
+  /**
+   * Update a saved view
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      data: UpdateSavedViewSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.data.query !== undefined) {
+        assertValidFilter(input.data.query);
+      }
+
+      try {
+        const view = await ctx.prisma.savedView.update({
+          where: { id: input.id },
+          data: {
+            ...(input.data.name !== undefined && { name: input.data.name }),
+            ...(input.data.query !== undefined && { query: input.data.query }),
+            ...(input.data.description !== undefined && { description: input.data.description }),
+            ...(input.data.pinned !== undefined && { pinned: input.data.pinned }),
+            ...(input.data.position !== undefined && { position: input.data.position }),
+          },
+        });
+
+        return formatView(view);
+      } catch (e) {
+        const code = (e as { code?: string }).code;
+        if (code === 'P2025') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `View ${input.id} not found` });
+        }
+        if (code === 'P2002') {
+          throw new TRPCError({ code: 'CONFLICT', message: `View '${input.data.name}' already exists` });
+        }
+        throw e;
+      }
+    }),
+
+  /**
+   * Delete a saved view
+   */
+  delete: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await ctx.prisma.savedView.delete({ where: { id: input.id } });
+        return { deleted: true, id: input.id };
+      } catch (e) {
+        if ((e as { code?: string }).code === 'P2025') {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `View ${input.id} not found` });
+        }
+        throw e;
+      }
+    }),
+
+  /**
+   * Run a saved view, returning matching items
+   */
+  run: protectedProcedure
+    .input(ViewRefSchema.extend({
+      me: z.string().optional(),
+      limit: z.number().min(1).max(500).optional().default(100),
+      offset: z.number().min(0).optional().default(0),
+    }))
+    .query(async ({ ctx, input }) => {
+      if (input.id === undefined && !input.name) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Either id or name required' });
+      }
+
+      const view = await ctx.prisma.savedView.findFirst({
+        where: input.id !== undefined ? { id: input.id } : { name: input.name },
+      });
+
+      if (!view) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `View not found: ${input.name ?? input.id}`,
+        });
+      }
+
+      const result = await queryRouter.createCaller(ctx).filter({
+        filter: view.query,
+        me: input.me,
+        limit: input.limit,
+        offset: input.offset,
+      });
+
+      return {
+        view: formatView(view),
+        items: result.items,
+        total: result.total,
+      };
+    }),
+});
+
+export type ViewsRouter = typeof viewsRouter;
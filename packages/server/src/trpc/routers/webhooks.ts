@@ -0,0 +1,276 @@
+/**
+ * Webhooks Router (tRPC)
+ *
+ * Register URLs to receive signed data change events, and inspect or retry
+ * deliveries. See services/webhooks.ts for the payload and signature format.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, protectedProcedure, hasWriteScope } from '../trpc.js';
+import { generateSecret, sendPing, attemptDelivery } from '../../services/webhooks.js';
+import type { Webhook, WebhookDelivery } from '../../generated/prisma/index.js';
+
+// =============================================================================
+// SCHEMAS
+// =============================================================================
+
+const EntitySchema = z.enum(['items', 'people', 'projects', 'organizations', 'checkins', 'routines', 'meetings']);
+const MutationSchema = z.enum(['create', 'update', 'delete']);
+const DeliveryStatusSchema = z.enum(['pending', 'success', 'retrying', 'failed']);
+
+const CreateWebhookSchema = z.object({
+  name: z.string().min(1),
+  url: z.string().url(),
+  /** Entity types to send; omit for all */
+  entities: z.array(EntitySchema).min(1).optional(),
+  /** Mutation types to send; omit for all */
+  mutations: z.array(MutationSchema).min(1).optional(),
+  /** Signing secret; generated when omitted */
+  secret: z.string().min(16).optional(),
+  active: z.boolean().optional(),
+});
+
+const UpdateWebhookSchema = z.object({
+  name: z.string().min(1).optional(),
+  url: z.string().url().optional(),
+  entities: z.array(EntitySchema).min(1).nullable().optional(),
+  mutations: z.array(MutationSchema).min(1).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formatWebhook(webhook: Webhook) {
+  return {
+    id: webhook.id,
+    name: webhook.name,
+    url: webhook.url,
+    entities: webhook.entities ? (JSON.parse(webhook.entities) as string[]) : null,
+    mutations: webhook.mutations ? (JSON.parse(webhook.mutations) as string[]) : null,
+    active: webhook.active,
+    createdAt: webhook.createdAt.toISOString(),
+    updatedAt: webhook.updatedAt.toISOString(),
+  };
+}
+
+function formatDelivery(delivery: WebhookDelivery & { webhook?: { name: string } }) {
+  return {
+    id: delivery.id,
+    webhookId: delivery.webhookId,
+    webhookName: delivery.webhook?.name ?? null,
+    event: delivery.event,
+    status: delivery.status as z.infer<typeof DeliveryStatusSchema>,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    error: delivery.error,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+function notFound(id: number): TRPCError {
+  return new TRPCError({ code: 'NOT_FOUND', message: `Webhook ${id} not found` });
+}
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const webhooksRouter = router({
+  /**
+   * List webhooks with the status of their most recent delivery.
+   * Secrets are only returned by get and create.
+   */
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      const webhooks = await ctx.prisma.webhook.findMany({
+        orderBy: { name: 'asc' },
+        include: {
+          deliveries: { orderBy: { createdAt: 'desc' }, take: 1 },
+        },
+      });
+
+      return {
+        webhooks: webhooks.map((w) => ({
+          ...formatWebhook(w),
+          lastDelivery: w.deliveries[0] ? formatDelivery(w.deliveries[0]) : null,
+        })),
+        count: webhooks.length,
+      };
+    }),
+
+  /**
+   * Get a webhook, including its signing secret unless the caller has a
+   * read-only token (secret is then null)
+   */
+  get: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const webhook = await ctx.prisma.webhook.findUnique({ where: { id: input.id } });
+      if (!webhook) throw notFound(input.id);
+
+      return { ...formatWebhook(webhook), secret: hasWriteScope(ctx) ? webhook.secret : null };
+    }),
+
+  /**
+   * Register a webhook. The response includes the signing secret.
+   */
+  create: protectedProcedure
+    .input(CreateWebhookSchema)
+    .mutation(async ({ ctx, input }) => {
+      const webhook = await ctx.prisma.webhook.create({
+        data: {
+          name: input.name,
+          url: input.url,
+          secret: input.secret ?? generateSecret(),
+          entities: input.entities ? JSON.stringify(input.entities) : null,
+          mutations: input.mutations ? JSON.stringify(input.mutations) : null,
+          active: input.active ?? true,
+        },
+      });
+
+      return { ...formatWebhook(webhook), secret: webhook.secret };
+    }),
+
+  /**
+   * Update a webhook. Pass null filters to receive every entity/mutation.
+   */
+  update: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      data: UpdateWebhookSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { data } = input;
+      try {
+        const webhook = await ctx.prisma.webhook.update({
+          where: { id: input.id },
+          data: {
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.url !== undefined && { url: data.url }),
+            ...(data.entities !== undefined && { entities: data.entities ? JSON.stringify(data.entities) : null }),
+            ...(data.mutations !== undefined && { mutations: data.mutations ? JSON.stringify(data.mutations) : null }),
+            ...(data.active !== undefined && { active: data.active }),
+          },
+        });
+        return formatWebhook(webhook);
+      } catch (e) {
+        if ((e as { code?: string }).code === 'P2025') throw notFound(input.id);
+        throw e;
+      }
+    }),
+
+  /**
+   * Replace a webhook's signing secret
+   */
+  rotateSecret: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const webhook = await ctx.prisma.webhook.update({
+          where: { id: input.id },
+          data: { secret: generateSecret() },
+        });
+        return { ...formatWebhook(webhook), secret: webhook.secret };
+      } catch (e) {
+        if ((e as { code?: string }).code === 'P2025') throw notFound(input.id);
+        throw e;
+      }
+    }),
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await ctx.prisma.webhook.delete({ where: { id: input.id } });
+        return { deleted: true, id: input.id };
+      } catch (e) {
+        if ((e as { code?: string }).code === 'P2025') throw notFound(input.id);
+        throw e;
+      }
+    }),
+
+  /**
+   * Send a signed "ping" delivery and return its outcome
+   */
+  test: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = await ctx.prisma.webhook.findUnique({ where: { id: input.id } });
+      if (!webhook) throw notFound(input.id);
+
+      return formatDelivery(await sendPing(ctx.prisma, webhook.id));
+    }),
+
+  /**
+   * Delivery log, newest first
+   */
+  deliveries: protectedProcedure
+    .input(z.object({
+      webhookId: z.number().optional(),
+      status: DeliveryStatusSchema.optional(),
+      limit: z.number().min(1).max(500).optional().default(50),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      const deliveries = await ctx.prisma.webhookDelivery.findMany({
+        where: {
+          ...(input?.webhookId !== undefined && { webhookId: input.webhookId }),
+          ...(input?.status && { status: input.status }),
+        },
+        include: { webhook: { select: { name: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: input?.limit ?? 50,
+      });
+
+      return { deliveries: deliveries.map(formatDelivery) };
+    }),
+
+  /**
+   * Get a delivery including the payload that was sent
+   */
+  getDelivery: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const delivery = await ctx.prisma.webhookDelivery.findUnique({
+        where: { id: input.id },
+        include: { webhook: { select: { name: true } } },
+      });
+      if (!delivery) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Delivery ${input.id} not found` });
+      }
+
+      return { ...formatDelivery(delivery), payload: JSON.parse(delivery.payload) as unknown };
+    }),
+
+  /**
+   * Send a delivery's payload again as a new delivery (the original is kept in the log)
+   */
+  redeliver: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const original = await ctx.prisma.webhookDelivery.findUnique({ where: { id: input.id } });
+      if (!original) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Delivery ${input.id} not found` });
+      }
+
+      const copy = await ctx.prisma.webhookDelivery.create({
+        data: {
+          webhookId: original.webhookId,
+          event: original.event,
+          payload: original.payload,
+          nextAttemptAt: new Date(),
+        },
+      });
+
+      return formatDelivery(await attemptDelivery(ctx.prisma, copy.id));
+    }),
+});
+
+export type WebhooksRouter = typeof webhooksRouter;
@@ -4,11 +4,25 @@
  * Separate file to avoid circular dependencies with routers.
  */
 
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
+import type { CreateExpressContextOptions } from '@trpc/server/adapters/express';
 import superjson from 'superjson';
 import { getPrisma } from '../prisma.js';
 import type { PrismaClient } from '../generated/prisma/index.js';
 import { emitDataChange, type EntityType, type MutationType } from '../events.js';
+import { isAuthRequired, extractBearerToken, resolveToken, type AuthPrincipal } from '../services/auth.js';
+import {
+  actorFromRequest,
+  resolveAuditTargets,
+  takeSnapshot,
+  recordAudit,
+  newRequestId,
+  AUDITED_ENTITIES,
+  SYSTEM_ACTOR,
+  type Actor,
+  type AuditEntity,
+  type Snapshot,
+} from '../services/audit.js';
 
 // =============================================================================
 // CONTEXT
@@ -16,11 +30,32 @@ import { emitDataChange, type EntityType, type MutationType } from '../events.js
 
 export interface TRPCContext {
   prisma: PrismaClient;
+  /**
+   * Set for HTTP requests. In-process callers (tests, createCaller from
+   * other routers) omit it and are trusted.
+   */
+  auth?: {
+    required: boolean;
+    principal: AuthPrincipal | null;
+  };
+  /** Who is making the request, for the audit log. Omitted means "system". */
+  actor?: Actor;
+  /** Audit log request id, set by the audit middleware for audited mutations */
+  requestId?: string;
 }
 
-export async function createContext(): Promise<TRPCContext> {
+export async function createContext(opts?: CreateExpressContextOptions): Promise<TRPCContext> {
+  const prisma = getPrisma();
+  const token = extractBearerToken(opts?.req.headers.authorization);
+  const principal = token ? await resolveToken(prisma, token) : null;
+
   return {
-    prisma: getPrisma(),
+    prisma,
+    auth: {
+      required: isAuthRequired(),
+      principal,
+    },
+    actor: opts ? actorFromRequest(opts.req.headers, principal) : undefined,
   };
 }
 
@@ -68,11 +103,12 @@ const autoEmitMiddleware = t.middleware(async ({ path, type, next }) => {
     return result; // Unknown router, skip emit
   }
 
-  // Determine mutation type from procedure name
+  // Determine mutation type from procedure name (e.g. "create", "bulkDelete")
+  const procedure = procedureName.toLowerCase();
   let mutation: MutationType = 'update'; // default
-  if (procedureName.includes('create') || procedureName.includes('add')) {
+  if (procedure.includes('create') || procedure.includes('add')) {
     mutation = 'create';
-  } else if (procedureName.includes('delete') || procedureName.includes('remove')) {
+  } else if (procedure.includes('delete') || procedure.includes('remove')) {
     mutation = 'delete';
   }
 
@@ -87,6 +123,112 @@ const autoEmitMiddleware = t.middleware(async ({ path, type, next }) => {
   return result;
 });
 
+// =============================================================================
+// AUTH MIDDLEWARE
+// =============================================================================
+
+/**
+ * Reject unauthenticated requests when AUTH_PASSPHRASE is set, and mutations
+ * from read-only tokens.
+ */
+const authMiddleware = t.middleware(({ ctx, type, next }) => {
+  const auth = ctx.auth;
+  if (!auth?.required) {
+    return next();
+  }
+
+  if (!auth.principal) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  if (type === 'mutation' && auth.principal.scope !== 'write') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Token "${auth.principal.name}" is read-only`,
+    });
+  }
+
+  return next();
+});
+
+/**
+ * Whether the caller could also make mutations: no auth, an in-process
+ * caller, a web session or a read-write token
+ */
+export function hasWriteScope(ctx: TRPCContext): boolean {
+  const principal = ctx.auth?.principal;
+  return !principal || principal.scope === 'write';
+}
+
+/**
+ * For queries that return secrets (signing keys, token hashes), which a
+ * read-only token shouldn't see
+ */
+export function requireWriteScope(ctx: TRPCContext): void {
+  if (!hasWriteScope(ctx)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Token "${ctx.auth!.principal!.name}" is read-only` });
+  }
+}
+
+/**
+ * Some things only a web session (or an in-process caller) may do, so a
+ * leaked API token can't mint tokens or swap in a database with its own.
+ */
+export function requireSession(ctx: TRPCContext, action: string): void {
+  if (ctx.auth?.principal?.kind === 'api') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `API tokens cannot ${action}; log in to the web app` });
+  }
+}
+
+// =============================================================================
+// AUDIT MIDDLEWARE
+// =============================================================================
+
+/**
+ * Record who changed what on audited routers, with snapshots of each touched
+ * record before and after the mutation. Failing to write the audit row is
+ * logged rather than failing a mutation that has already been applied.
+ */
+const auditMiddleware = t.middleware(async ({ ctx, path, type, getRawInput, next }) => {
+  const [routerName, procedureName] = path.split('.');
+  if (type !== 'mutation' || !(AUDITED_ENTITIES as readonly string[]).includes(routerName)) {
+    return next();
+  }
+
+  const entity = routerName as AuditEntity;
+  const requestId = newRequestId();
+  const targetIds = await resolveAuditTargets(ctx.prisma, entity, procedureName, await getRawInput());
+  const before = new Map<number, Snapshot | null>();
+  for (const id of targetIds) {
+    before.set(id, await takeSnapshot(ctx.prisma, entity, id));
+  }
+
+  const result = await next({ ctx: { requestId } });
+  if (!result.ok) {
+    return result;
+  }
+
+  // Created records only get an id once the mutation has run
+  const data = result.data as Record<string, unknown> | undefined;
+  const creates = procedureName.startsWith('create') || procedureName === 'quickAdd';
+  if (creates && typeof data?.id === 'number' && !before.has(data.id)) {
+    before.set(data.id, null);
+  }
+
+  try {
+    const entries = [];
+    for (const [id, snapshot] of before) {
+      entries.push({ entity, entityId: id, before: snapshot, after: await takeSnapshot(ctx.prisma, entity, id) });
+    }
+    await recordAudit(ctx.prisma, { requestId, procedure: path, actor: ctx.actor ?? SYSTEM_ACTOR, entries });
+  } catch (err) {
+    console.error(`[audit] Failed to record ${path}:`, err);
+  }
+
+  return result;
+});
+
 export const router = t.router;
 export const publicProcedure = t.procedure.use(autoEmitMiddleware);
+export const protectedProcedure = t.procedure.use(authMiddleware).use(auditMiddleware).use(autoEmitMiddleware);
 export const middleware = t.middleware;
@@ -62,44 +62,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PUT - Update a file
-export async function PUT(request: NextRequest) {
-  try {
-    const { path: filePath, raw, content, frontmatter } = await request.json();
-
-    if (!filePath) {
-      return NextResponse.json({ error: "Path required" }, { status: 400 });
-    }
-
-    if (!validatePath(filePath)) {
-      return NextResponse.json({ error: "Invalid path" }, { status: 403 });
-    }
-
-    const fullPath = path.join(KB_ROOT, filePath);
-
-    // Ensure directory exists
-    await fs.mkdir(path.dirname(fullPath), { recursive: true });
-
-    // If raw content provided, save directly
-    // Otherwise reconstruct from content + frontmatter
-    let fileContent: string;
-    if (raw !== undefined) {
-      fileContent = raw;
-    } else if (frontmatter && Object.keys(frontmatter).length > 0) {
-      fileContent = matter.stringify(content || "", frontmatter);
-    } else {
-      fileContent = content || "";
-    }
-
-    await fs.writeFile(fullPath, fileContent, "utf-8");
-
-    return NextResponse.json({ success: true, path: filePath });
-  } catch (error) {
-    console.error("Save error:", error);
-    return NextResponse.json({ error: "Save failed" }, { status: 500 });
-  }
-}
-
 // POST - Create a new file
 export async function POST(request: NextRequest) {
   try {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getDiaryEntries, getProjects, getMeetings } from "@/lib/knowledge-base";
 import { searchTasks, isTaskDbAvailable, getTaskById, type Task } from "@/lib/task-db";
+import { taskServiceHeaders } from "@/lib/auth";
 
 interface SearchResult {
   type: "diary" | "project" | "meeting" | "task" | "person" | "organization" | "workstream" | "file";
@@ -407,7 +408,7 @@ export async function GET(request: NextRequest) {
       try {
         const peopleResponse = await fetch(
           `http://localhost:3004/api/trpc/people.list?input=${encodeURIComponent(JSON.stringify({ json: {} }))}`,
-          { cache: "no-store" }
+          { cache: "no-store", headers: taskServiceHeaders() }
         );
         if (peopleResponse.ok) {
           const peopleData = await peopleResponse.json();
@@ -480,7 +481,7 @@ export async function GET(request: NextRequest) {
       try {
         const orgsResponse = await fetch(
           `http://localhost:3004/api/trpc/organizations.list?input=${encodeURIComponent(JSON.stringify({ json: {} }))}`,
-          { cache: "no-store" }
+          { cache: "no-store", headers: taskServiceHeaders() }
         );
         if (orgsResponse.ok) {
           const orgsData = await orgsResponse.json();
@@ -555,7 +556,7 @@ export async function GET(request: NextRequest) {
               limit: 30
             }
           }))}`,
-          { cache: "no-store" }
+          { cache: "no-store", headers: taskServiceHeaders() }
         );
         if (filesResponse.ok) {
           const filesData = await filesResponse.json();
@@ -1,71 +1,22 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { Editor } from "@/components/editor";
+import { FileConflictDialog } from "@/components/file-conflict-dialog";
+import { FileHistoryPanel } from "@/components/file-history-panel";
+import { useFileEditing } from "@/hooks/use-file-editing";
 import { ChevronRight, ExternalLink } from "lucide-react";
 
-interface FileData {
-  path: string;
-  raw: string;
-}
-
 export default function EditPage() {
   const params = useParams();
-  const [file, setFile] = useState<FileData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
 
   const pathSegments = params.path as string[];
   const relativePath = pathSegments.join("/");
 
-  // Load file content
-  useEffect(() => {
-    const loadFile = async () => {
-      setLoading(true);
-      setError(null);
-
-      try {
-        const response = await fetch(`/api/file?path=${encodeURIComponent(relativePath)}`);
-        if (!response.ok) {
-          throw new Error("Failed to load file");
-        }
-        const data = await response.json();
-        setFile(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Unknown error");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadFile();
-  }, [relativePath]);
-
-  // Save handler - saves raw content directly
-  const handleSave = useCallback(
-    async (content: string) => {
-      const response = await fetch("/api/file", {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          path: relativePath,
-          raw: content,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to save");
-      }
-
-      // Refresh file data
-      const updated = await fetch(`/api/file?path=${encodeURIComponent(relativePath)}`);
-      const data = await updated.json();
-      setFile(data);
-    },
-    [relativePath]
-  );
+  // Saves are checked against the hash the file was loaded with
+  const { file, isLoading: loading, error, save, conflict, resolveConflict, dismissConflict } =
+    useFileEditing(relativePath);
 
   // Build breadcrumb
   const pathParts = relativePath.split("/").filter(Boolean);
@@ -90,7 +41,7 @@ export default function EditPage() {
           ← Back to file
         </Link>
         <div className="p-4 rounded-lg bg-red-900/20 border border-red-900/50">
-          <p className="text-[13px] text-red-400">{error || "File not found"}</p>
+          <p className="text-[13px] text-red-400">{error?.message || "File not found"}</p>
         </div>
       </div>
     );
@@ -136,7 +87,18 @@ export default function EditPage() {
       </div>
 
       {/* Editor */}
-      <Editor content={file.raw} onSave={handleSave} />
+      <Editor
+        content={file.raw}
+        onSave={save}
+        actions={<FileHistoryPanel path={relativePath} current={file} />}
+      />
+
+      <FileConflictDialog
+        path={relativePath}
+        conflict={conflict}
+        onResolve={resolveConflict}
+        onCancel={dismissConflict}
+      />
     </div>
   );
 }
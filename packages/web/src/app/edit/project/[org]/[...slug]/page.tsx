@@ -4,21 +4,19 @@ import { useEffect, useState, useCallback } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { ProjectEditor } from "@/components/project-editor";
+import { FileConflictDialog } from "@/components/file-conflict-dialog";
+import { FileHistoryPanel } from "@/components/file-history-panel";
+import { useFileEditing } from "@/hooks/use-file-editing";
 import { ChevronRight, ExternalLink } from "lucide-react";
 import matter from "gray-matter";
 
-interface FileData {
-  path: string;
-  raw: string;
-  frontmatter: Record<string, unknown>;
-  content: string;
-}
-
 export default function EditProjectPage() {
   const params = useParams();
-  const [file, setFile] = useState<FileData | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [filePath, setFilePath] = useState<string | null>(null);
+  const [searching, setSearching] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Bumped when the file is replaced from outside the form (merge or restore)
+  const [reloadKey, setReloadKey] = useState(0);
 
   const org = params.org as string;
   const slugArray = params.slug as string[];
@@ -41,19 +39,18 @@ export default function EditProjectPage() {
         `${org}/projects/${projectSlug}.md`,
       ];
 
-  // Load file content
+  // Find which of the possible files exists
   useEffect(() => {
-    const loadFile = async () => {
-      setLoading(true);
+    const findFile = async () => {
+      setSearching(true);
       setError(null);
 
       for (const tryPath of possiblePaths) {
         try {
           const response = await fetch(`/api/file?path=${encodeURIComponent(tryPath)}`);
           if (response.ok) {
-            const data = await response.json();
-            setFile(data);
-            setLoading(false);
+            setFilePath(tryPath);
+            setSearching(false);
             return;
           }
         } catch {
@@ -62,37 +59,23 @@ export default function EditProjectPage() {
       }
 
       setError("Project file not found");
-      setLoading(false);
+      setSearching(false);
     };
 
-    loadFile();
+    findFile();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [org, JSON.stringify(slugArray)]);
 
-  // Save handler
-  const handleSave = useCallback(
-    async (content: string) => {
-      if (!file) return;
-
-      const response = await fetch("/api/file", {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          path: file.path,
-          raw: content,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to save");
-      }
+  const { file, isLoading, save, conflict, resolveConflict, dismissConflict } = useFileEditing(filePath);
+  const loading = searching || isLoading;
 
-      // Refresh file data
-      const updated = await fetch(`/api/file?path=${encodeURIComponent(file.path)}`);
-      const data = await updated.json();
-      setFile(data);
+  const handleResolve = useCallback(
+    async (merged: string) => {
+      const saved = await resolveConflict(merged);
+      if (saved) setReloadKey((key) => key + 1);
+      return saved;
     },
-    [file]
+    [resolveConflict]
   );
 
   // Build view URL
@@ -126,8 +109,9 @@ export default function EditProjectPage() {
   }
 
   // Get project name from frontmatter or content
-  const titleFromFrontmatter = file.frontmatter?.title as string | undefined;
-  const titleFromContent = file.content.match(/^#\s+(.+)$/m)?.[1];
+  const { data: frontmatter, content } = matter(file.raw);
+  const titleFromFrontmatter = frontmatter.title as string | undefined;
+  const titleFromContent = content.match(/^#\s+(.+)$/m)?.[1];
   const projectName = titleFromFrontmatter || titleFromContent || (isWorkstream ? workstreamSlug : projectSlug);
 
   return (
@@ -159,22 +143,37 @@ export default function EditProjectPage() {
           <h1 className="text-xl font-semibold tracking-tight">Edit: {projectName}</h1>
           <p className="text-[13px] text-zinc-500">{file.path}</p>
         </div>
-        <Link
-          href={viewUrl}
-          className="flex items-center gap-1.5 px-3 py-1.5 rounded text-[12px] text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
-        >
-          <ExternalLink className="h-3.5 w-3.5" />
-          View
-        </Link>
+        <div className="flex items-center gap-1">
+          <FileHistoryPanel
+            path={file.path}
+            current={file}
+            onRestored={() => setReloadKey((key) => key + 1)}
+          />
+          <Link
+            href={viewUrl}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded text-[12px] text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+          >
+            <ExternalLink className="h-3.5 w-3.5" />
+            View
+          </Link>
+        </div>
       </div>
 
       {/* Editor */}
       <ProjectEditor
+        key={reloadKey}
         path={file.path}
         rawContent={file.raw}
-        frontmatter={file.frontmatter as { title?: string; status?: string; priority?: number; tags?: string[]; type?: string; parent?: string; }}
-        content={file.content}
-        onSave={handleSave}
+        frontmatter={frontmatter as { title?: string; status?: string; priority?: number; tags?: string[]; type?: string; parent?: string; }}
+        content={content}
+        onSave={save}
+      />
+
+      <FileConflictDialog
+        path={file.path}
+        conflict={conflict}
+        onResolve={handleResolve}
+        onCancel={dismissConflict}
       />
     </div>
   );
@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Lock } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { setAuthToken } from "@/lib/auth";
+
+export default function LoginPage() {
+  const [passphrase, setPassphrase] = useState("");
+  const statusQuery = trpc.auth.status.useQuery();
+
+  const loginMutation = trpc.auth.login.useMutation({
+    onSuccess: ({ token }) => {
+      setAuthToken(token);
+      // Full reload so every query and the realtime socket pick up the token
+      const next = new URLSearchParams(window.location.search).get("next");
+      window.location.href = next && next.startsWith("/") ? next : "/";
+    },
+  });
+
+  const authDisabled = statusQuery.data && !statusQuery.data.required;
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh] p-6">
+      <div className="w-full max-w-sm p-6 rounded-lg bg-zinc-800/50 border border-zinc-700">
+        <h1 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Log in
+        </h1>
+
+        {authDisabled ? (
+          <div className="text-sm text-zinc-400">
+            Authentication is not enabled on the task service (AUTH_PASSPHRASE is not set).{" "}
+            <Link href="/" className="text-blue-400 hover:underline">
+              Continue
+            </Link>
+          </div>
+        ) : (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              loginMutation.mutate({ passphrase });
+            }}
+          >
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoFocus
+              autoComplete="current-password"
+              className="w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-700 rounded focus:outline-none focus:border-zinc-500"
+            />
+            {loginMutation.error && (
+              <div className="text-xs text-red-400">{loginMutation.error.message}</div>
+            )}
+            <button
+              type="submit"
+              disabled={!passphrase || loginMutation.isPending}
+              className="w-full px-3 py-2 rounded text-sm bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+            >
+              {loginMutation.isPending ? "Logging in..." : "Log in"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { getMeetings } from "@/lib/knowledge-base";
+import { getMeetings, getSeriesSlug } from "@/lib/knowledge-base";
 import { getTasksForMeeting, getMeetingByPath, isTaskDbAvailable, resolveProjectPaths, type ProjectPath } from "@/lib/task-db";
 import { getOrgNameServer } from "@/lib/organizations-server";
 import { format } from "date-fns";
@@ -10,7 +10,8 @@ import { PersonGroupedTaskList } from "@/components/task-list";
 import { TaskListConnected } from "@/components/task-list/task-list-connected";
 import { MeetingSyncButton } from "@/components/meeting-sync-button";
 import { PageHeaderActions } from "@/components/page-header-actions";
-import { Calendar, MapPin, FolderKanban, ListTodo } from "lucide-react";
+import { getMeetingSeriesUrl } from "@/lib/urls";
+import { Calendar, MapPin, FolderKanban, ListTodo, Repeat } from "lucide-react";
 
 interface Props {
   params: Promise<{
@@ -95,6 +96,17 @@ export default async function MeetingPage({ params }: Props) {
           <Calendar className="h-3.5 w-3.5" />
           <span>{format(meetingDate, "EEEE, d MMMM yyyy")}</span>
         </div>
+        {meeting.frontmatter.series && (
+          <div className="flex items-center gap-1.5">
+            <Repeat className="h-3.5 w-3.5" />
+            <Link
+              href={getMeetingSeriesUrl(org, getSeriesSlug(meeting.frontmatter.series))}
+              className="hover:text-zinc-200"
+            >
+              {meeting.frontmatter.series}
+            </Link>
+          </div>
+        )}
         {meeting.frontmatter.location && (
           <div className="flex items-center gap-1.5">
             <MapPin className="h-3.5 w-3.5 flex-shrink-0" />
@@ -143,6 +155,20 @@ export default async function MeetingPage({ params }: Props) {
         <FilterableTagList type="tag" values={meeting.frontmatter.tags} size="md" />
       )}
 
+      {/* Carried over from the last meeting in the series */}
+      {meeting.sections.previousActions && (
+        <Section title="Actions from Previous Meetings">
+          <Markdown content={meeting.sections.previousActions} />
+        </Section>
+      )}
+
+      {/* Agenda */}
+      {meeting.sections.agenda && (
+        <Section title="Agenda">
+          <Markdown content={meeting.sections.agenda} />
+        </Section>
+      )}
+
       {/* Summary */}
       {meeting.sections.summary && (
         <div className="p-4 rounded-lg bg-zinc-800/50 border border-zinc-800">
@@ -26,7 +26,7 @@ interface MeetingNote {
     location?: string;
     tags?: string[];
     project?: string;
-    status: "completed" | "ongoing" | "cancelled";
+    status: "planned" | "completed" | "ongoing" | "cancelled";
   };
   content: string;
   sections: {
@@ -0,0 +1,121 @@
+import { getMeetings, getMeetingsInSeries, getSeriesSlug } from "@/lib/knowledge-base";
+import { getTasksForMeeting, isTaskDbAvailable } from "@/lib/task-db";
+import { getOrgNameServer } from "@/lib/organizations-server";
+import { getMeetingUrl } from "@/lib/urls";
+import { format } from "date-fns";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Markdown } from "@/components/markdown";
+import { Repeat, ListTodo } from "lucide-react";
+
+interface Props {
+  params: Promise<{
+    org: string;
+    series: string;
+  }>;
+}
+
+export async function generateStaticParams() {
+  const meetings = await getMeetings();
+  const params = new Map<string, { org: string; series: string }>();
+  for (const meeting of meetings) {
+    if (!meeting.frontmatter.series) continue;
+    const series = getSeriesSlug(meeting.frontmatter.series);
+    params.set(`${meeting.org}/${series}`, { org: meeting.org, series });
+  }
+  return [...params.values()];
+}
+
+const statusColors: Record<string, string> = {
+  planned: "bg-blue-500/20 text-blue-400",
+  ongoing: "bg-amber-500/20 text-amber-400",
+  cancelled: "bg-zinc-500/20 text-zinc-400",
+};
+
+export default async function MeetingSeriesPage({ params }: Props) {
+  const { org, series } = await params;
+  const meetings = await getMeetingsInSeries(org, series);
+
+  if (meetings.length === 0) {
+    notFound();
+  }
+
+  // Open actions per meeting, from the task database if it's there
+  const openActions = new Map<string, number>();
+  if (isTaskDbAvailable()) {
+    for (const meeting of meetings) {
+      const tasks = getTasksForMeeting(meeting.path);
+      openActions.set(meeting.path, tasks.filter(t => t.status !== "complete" && t.status !== "cancelled").length);
+    }
+  }
+
+  const latest = meetings[meetings.length - 1];
+  // Newest first
+  const timeline = [...meetings].reverse();
+
+  return (
+    <div className="p-5 space-y-5 max-w-4xl">
+      {/* Header */}
+      <div>
+        <Link
+          href="/meetings"
+          className="text-[12px] text-zinc-500 hover:text-zinc-300 mb-1 inline-block"
+        >
+          ← Meetings
+        </Link>
+        <h1 className="text-xl font-semibold tracking-tight flex items-center gap-2">
+          <Repeat className="h-4 w-4 text-zinc-500" />
+          {latest.frontmatter.series}
+        </h1>
+        <p className="text-[13px] text-zinc-500">
+          {getOrgNameServer(org)} · {meetings.length} meeting{meetings.length === 1 ? "" : "s"} since{" "}
+          {format(new Date(meetings[0].frontmatter.date), "d MMMM yyyy")}
+        </p>
+      </div>
+
+      {/* Timeline */}
+      <ol className="relative border-l border-zinc-800 ml-2 space-y-4">
+        {timeline.map((meeting) => {
+          const open = openActions.get(meeting.path) ?? 0;
+          const status = meeting.frontmatter.status;
+          const notes = status === "planned"
+            ? meeting.sections.previousActions || meeting.sections.agenda
+            : meeting.sections.summary;
+
+          return (
+            <li key={meeting.path} className="ml-4">
+              <span className="absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full bg-zinc-600" />
+              <div className="p-4 rounded-lg bg-zinc-800/30 border border-zinc-800/50">
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <Link
+                    href={getMeetingUrl({ path: meeting.path })}
+                    className="text-[14px] font-medium text-zinc-200 hover:text-white"
+                  >
+                    {meeting.frontmatter.title}
+                  </Link>
+                  <div className="flex items-center gap-2 text-[11px] whitespace-nowrap">
+                    {statusColors[status] && (
+                      <span className={`px-1.5 py-0.5 rounded ${statusColors[status]}`}>{status}</span>
+                    )}
+                    {open > 0 && (
+                      <span className="flex items-center gap-1 text-amber-400">
+                        <ListTodo className="h-3 w-3" />
+                        {open} open
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <p className="text-[12px] text-zinc-500 mb-2">
+                  {format(new Date(meeting.frontmatter.date), "EEEE, d MMMM yyyy")}
+                </p>
+                {notes && (
+                  <Markdown content={notes} className="text-[13px] text-zinc-300 leading-relaxed" />
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { PageHeaderActions } from "@/components/page-header-actions";
 import { ExternalLinks } from "@/components/external-links";
 import { ProjectHeaderSettings } from "@/components/project-header-settings";
 import { ProjectFilesTree } from "@/components/project-files-tree";
+import { DependencyGraphSection } from "@/components/dependency-graph";
 import { CheckCircle2, Circle, AlertCircle, Clock, CornerDownRight, FileText, ChevronRight, Folder, FolderOpen, Sparkles } from "lucide-react";
 
 interface Props {
@@ -717,6 +718,9 @@ async function ProjectView({
         </CollapsibleSection>
       )}
 
+      {/* Blocking links and the critical path to the deadline */}
+      {projectTasks.length > 0 && <DependencyGraphSection org={org} slug={project.slug} />}
+
       {/* Workstreams */}
       {hasWorkstreams && (
         <div className="p-4 rounded-lg bg-zinc-800/30 border border-zinc-800/50">
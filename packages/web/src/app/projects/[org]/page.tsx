@@ -9,6 +9,7 @@ import { PersonGroupedTaskList } from "@/components/task-list";
 import { Folder, FileText, CheckCircle2, Circle, AlertCircle, Clock, CornerDownRight, Calendar } from "lucide-react";
 
 import type { Task } from "@/lib/task-db";
+import { taskServiceHeaders } from "@/lib/auth";
 
 // Fetch tasks for an org (server-side)
 async function getOrgTasks(orgSlug: string): Promise<Task[]> {
@@ -24,7 +25,7 @@ async function getOrgTasks(orgSlug: string): Promise<Task[]> {
           }
         })
       )}`,
-      { cache: "no-store" }
+      { cache: "no-store", headers: taskServiceHeaders() }
     );
     if (!response.ok) return [];
     const data = await response.json();
@@ -12,6 +12,7 @@ import {
 import { trpc } from "@/lib/trpc";
 import { useOrganizations, getOrgColorClasses, type Organization } from "@/lib/organizations";
 import { OrgSettingsDialog } from "@/components/org-settings-dialog";
+import { NewProjectDialog } from "@/components/new-project-dialog";
 import {
   Badge,
   TodayBadge,
@@ -267,6 +268,8 @@ export default function ProjectsPage() {
 
         {/* View controls */}
         <div className="flex items-center gap-3">
+          <NewProjectDialog />
+
           {/* View toggle */}
           <div className="flex items-center bg-zinc-800 rounded p-0.5">
             <button
@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { useToast } from "@/components/toast";
 import { trpc } from "@/lib/trpc";
+import { describeRecurrence, describeRRule, isRRuleText, parseRRule } from "@kw/api-types";
 
 interface Routine {
   id: number;
@@ -35,10 +36,11 @@ interface Routine {
   projectFullPath: string | null;
   lastCompleted: string | null;
   completionCount: number;
+  nextDue: string | null;
 }
 
-// Calculate the next due date for a routine
-function getNextDueDate(routine: Routine): Date {
+// Calculate the next due date for a routine (null once an RRULE schedule has ended)
+function getNextDueDate(routine: Routine): Date | null {
   const now = new Date();
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
@@ -168,8 +170,14 @@ function getNextDueDate(routine: Routine): Date {
       return today;
     }
 
-    default:
-      return today;
+    default: {
+      // RRULE schedules are evaluated by the server
+      if (routine.nextDue) {
+        const [year, month, day] = routine.nextDue.split("-").map(Number);
+        return new Date(year, month - 1, day);
+      }
+      return null;
+    }
   }
 }
 
@@ -244,9 +252,10 @@ export default function RoutinesPage() {
   // Sort routines by next due date
   const sortedRoutines = useMemo(() => {
     return [...routines].sort((a, b) => {
-      const dateA = getNextDueDate(a);
-      const dateB = getNextDueDate(b);
-      return dateA.getTime() - dateB.getTime();
+      // Ended routines sort last
+      const dateA = getNextDueDate(a)?.getTime() ?? Infinity;
+      const dateB = getNextDueDate(b)?.getTime() ?? Infinity;
+      return dateA - dateB;
     });
   }, [routines]);
 
@@ -365,11 +374,11 @@ export default function RoutinesPage() {
                     <div className="flex items-center gap-2">
                       <span className="text-[15px] font-medium">{routine.title}</span>
                       <span className="px-2 py-0.5 text-[11px] rounded bg-purple-500/20 text-purple-300 capitalize">
-                        {routine.recurrenceRule}
+                        {isRRuleText(routine.recurrenceRule) ? "custom" : routine.recurrenceRule}
                       </span>
                       {(() => {
                         const nextDue = getNextDueDate(routine);
-                        const nextDueText = formatNextDue(nextDue);
+                        const nextDueText = nextDue ? formatNextDue(nextDue) : "Ended";
                         const isToday = nextDueText === "Today";
                         return (
                           <span
@@ -393,12 +402,10 @@ export default function RoutinesPage() {
                           {routine.recurrenceTime}
                         </span>
                       )}
-                      {routine.recurrenceDays && (
-                        <span className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          {formatDays(routine.recurrenceRule, routine.recurrenceDays)}
-                        </span>
-                      )}
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {describeRecurrence({ ...routine, recurrenceTime: null })}
+                      </span>
                       {routine.projectName && routine.projectOrg && (
                         <Link
                           href={`/projects/${routine.projectOrg}/${routine.projectFullPath || routine.projectSlug}`}
@@ -491,27 +498,6 @@ export default function RoutinesPage() {
   );
 }
 
-function formatDays(rule: string, daysJson: string): string {
-  try {
-    const days = JSON.parse(daysJson);
-    if (rule === "weekly") {
-      return days.map((d: string) => d.charAt(0).toUpperCase() + d.slice(1, 3)).join(", ");
-    }
-    if (rule === "monthly") {
-      return days.map((d: number) => ordinal(d)).join(", ");
-    }
-    return daysJson;
-  } catch {
-    return daysJson;
-  }
-}
-
-function ordinal(n: number): string {
-  const s = ["th", "st", "nd", "rd"];
-  const v = n % 100;
-  return n + (s[(v - 20) % 10] || s[v] || s[0]);
-}
-
 interface RoutineFormProps {
   routine?: Routine;
   projects: Project[];
@@ -522,15 +508,20 @@ interface RoutineFormProps {
 function RoutineForm({ routine, projects, onSave, onCancel }: RoutineFormProps) {
   const [title, setTitle] = useState(routine?.title || "");
   const [description, setDescription] = useState(routine?.description || "");
-  const [recurrenceRule, setRecurrenceRule] = useState(routine?.recurrenceRule || "daily");
+  const existingRRule = isRRuleText(routine?.recurrenceRule) ? routine!.recurrenceRule : null;
+  const [recurrenceRule, setRecurrenceRule] = useState(existingRRule ? "rrule" : routine?.recurrenceRule || "daily");
+  const [rruleText, setRRuleText] = useState(existingRRule || "");
   const [recurrenceTime, setRecurrenceTime] = useState(routine?.recurrenceTime || "");
   const [recurrenceDays, setRecurrenceDays] = useState(routine?.recurrenceDays || "");
   const [projectId, setProjectId] = useState<number | null>(routine?.projectId || null);
   const [saving, setSaving] = useState(false);
 
+  const rrule = recurrenceRule === "rrule" ? parseRRule(rruleText) : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim()) return;
+    if (rrule && !rrule.rule) return;
 
     setSaving(true);
 
@@ -551,7 +542,7 @@ function RoutineForm({ routine, projects, onSave, onCancel }: RoutineFormProps)
     onSave({
       title: title.trim(),
       description: description.trim() || undefined,
-      recurrenceRule: recurrenceRule,
+      recurrenceRule: recurrenceRule === "rrule" ? rruleText.trim() : recurrenceRule,
       recurrenceTime: recurrenceTime || undefined,
       recurrenceDays: parsedDays || undefined,
       projectId: projectId || undefined,
@@ -599,6 +590,7 @@ function RoutineForm({ routine, projects, onSave, onCancel }: RoutineFormProps)
               <option value="monthly">Monthly</option>
               <option value="bimonthly">Bimonthly</option>
               <option value="yearly">Yearly</option>
+              <option value="rrule">Custom (RRULE)</option>
             </select>
           </div>
 
@@ -613,6 +605,27 @@ function RoutineForm({ routine, projects, onSave, onCancel }: RoutineFormProps)
           </div>
         </div>
 
+        {recurrenceRule === "rrule" && (
+          <div>
+            <label className="block text-[12px] text-zinc-400 mb-1">
+              Rule (e.g., FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1)
+            </label>
+            <textarea
+              value={rruleText}
+              onChange={(e) => setRRuleText(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 bg-zinc-900 border border-zinc-700 rounded-md text-[13px] font-mono focus:outline-none focus:border-purple-500"
+              placeholder={"FREQ=WEEKLY;INTERVAL=3;BYDAY=MO\nEXDATE:20261228"}
+              spellCheck={false}
+            />
+            {rruleText.trim() && rrule && (
+              <p className={`mt-1 text-[12px] ${rrule.rule ? "text-zinc-400" : "text-red-400"}`}>
+                {rrule.rule ? describeRRule(rrule.rule) : rrule.errors.join("; ")}
+              </p>
+            )}
+          </div>
+        )}
+
         {(recurrenceRule === "weekly" || recurrenceRule === "monthly") && (
           <div>
             <label className="block text-[12px] text-zinc-400 mb-1">
@@ -655,7 +668,7 @@ function RoutineForm({ routine, projects, onSave, onCancel }: RoutineFormProps)
         </button>
         <button
           type="submit"
-          disabled={saving || !title.trim()}
+          disabled={saving || !title.trim() || (rrule !== null && !rrule.rule)}
           className="px-3 py-1.5 text-[13px] bg-purple-600 hover:bg-purple-500 rounded-md transition-colors disabled:opacity-50"
         >
           {saving ? "Saving..." : routine ? "Update" : "Create"}
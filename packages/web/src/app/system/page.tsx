@@ -11,6 +11,8 @@ import {
   Terminal,
   Zap,
 } from "lucide-react";
+import { WebhooksPanel } from "@/components/webhooks-panel";
+import { ApiTokensPanel } from "@/components/api-tokens-panel";
 
 interface ProcessInfo {
   pid: number;
@@ -405,6 +407,12 @@ export default function SystemPage() {
         </p>
       </div>
 
+      {/* Login and API tokens */}
+      <ApiTokensPanel />
+
+      {/* Webhooks */}
+      <WebhooksPanel />
+
       {/* Help */}
       <div className="p-4 bg-zinc-800/30 rounded-lg text-sm text-zinc-400">
         <h3 className="font-medium text-zinc-300 mb-2">Troubleshooting</h3>
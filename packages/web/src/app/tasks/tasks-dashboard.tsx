@@ -5,7 +5,8 @@ import { useSearchParams } from "next/navigation";
 import { TaskList, GroupedTaskList, DEFAULT_OWNER_NAME } from "@/components/task-list";
 import { RoutinesSection } from "@/components/routines-section";
 import { CreateTaskDialog } from "@/components/create-task-dialog";
-import { SyncConfirmationModal } from "@/components/sync-confirmation-modal";
+import { SyncConfirmationModal, type ReadmeResolution } from "@/components/sync-confirmation-modal";
+import { SyncWatcherStatus } from "@/components/sync-watcher-status";
 import type { Task } from "@/lib/task-db";
 import { trpc, type ItemWithRelations } from "@/lib/trpc";
 import {
@@ -211,7 +212,8 @@ export function TasksDashboard({ allTasks: initialAllTasks = [], overdueTasks: i
   const syncAllMutation = trpc.sync.all.useMutation({
     onSuccess: (data) => {
       setSyncResult(
-        `Synced: ${data.meetings?.tasksCreated || 0} tasks created, ${data.projects?.projectsCreated || 0} projects added`
+        `Synced: ${data.meetings?.tasksCreated || 0} tasks created, ${data.projects?.projectsCreated || 0} projects added, ${data.readmes.changes} README changes` +
+          (data.readmes.conflicts > 0 ? ` (${data.readmes.conflicts} conflicts skipped)` : "")
       );
       refreshTasks();
     },
@@ -223,10 +225,10 @@ export function TasksDashboard({ allTasks: initialAllTasks = [], overdueTasks: i
     },
   });
 
-  const handleSyncAll = () => {
+  const handleSyncAll = (readmeResolutions: ReadmeResolution[]) => {
     setSyncing(true);
     setSyncResult(null);
-    syncAllMutation.mutate();
+    syncAllMutation.mutate({ readmeResolutions });
   };
 
   if (initialLoading) {
@@ -316,6 +318,7 @@ export function TasksDashboard({ allTasks: initialAllTasks = [], overdueTasks: i
               <RefreshCcw className="h-4 w-4" />
               <span className="hidden sm:inline">Routines</span>
             </Link>
+            <SyncWatcherStatus />
             <button
               onClick={() => setSyncAllModalOpen(true)}
               disabled={syncing}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2, Pin, PinOff, Filter, CheckCircle } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { GroupedTaskList, DEFAULT_OWNER_NAME } from "@/components/task-list";
+import { itemToTask } from "@/components/task-list/task-list-connected";
+import { useToast } from "@/components/toast";
+
+export default function SavedViewPage({ params }: { params: Promise<{ name: string }> }) {
+  const [viewName, setViewName] = useState<string | null>(null);
+  // Unsaved edits to the filter; null while it matches the saved query
+  const [draftQuery, setDraftQuery] = useState<string | null>(null);
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+
+  // Unwrap params
+  useEffect(() => {
+    params.then(({ name }) => setViewName(decodeURIComponent(name)));
+  }, [params]);
+
+  const viewQuery = trpc.views.run.useQuery(
+    { name: viewName!, me: DEFAULT_OWNER_NAME },
+    { enabled: viewName !== null, retry: false }
+  );
+
+  const refresh = async () => {
+    await utils.views.invalidate();
+  };
+
+  const updateMutation = trpc.views.update.useMutation({
+    onSuccess: () => {
+      setDraftQuery(null);
+      refresh();
+    },
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  if (viewName === null || viewQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-zinc-500" />
+      </div>
+    );
+  }
+
+  if (viewQuery.error || !viewQuery.data) {
+    return (
+      <div className="p-6">
+        <Link href="/tasks" className="flex items-center gap-1.5 text-[13px] text-zinc-400 hover:text-zinc-200 mb-4">
+          <ArrowLeft className="h-4 w-4" />
+          Tasks
+        </Link>
+        <p className="text-red-400 text-sm">{viewQuery.error?.message || "View not found"}</p>
+      </div>
+    );
+  }
+
+  const { view, items, total } = viewQuery.data;
+  const tasks = items.map(itemToTask);
+  const filterText = draftQuery ?? view.query;
+  const queryChanged = filterText.trim() !== view.query;
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <div className="border-b border-zinc-800 bg-zinc-950/50 px-4 sm:px-6 py-4 sm:py-5">
+        <Link href="/tasks" className="flex items-center gap-1.5 text-[12px] text-zinc-500 hover:text-zinc-300 mb-2">
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Tasks
+        </Link>
+        <div className="flex items-center gap-3">
+          <div>
+            <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">{view.name}</h1>
+            <p className="text-[12px] sm:text-[13px] text-zinc-500 mt-0.5">
+              {total} matching task{total !== 1 ? "s" : ""}
+              {view.description && <span> · {view.description}</span>}
+            </p>
+          </div>
+          <button
+            onClick={() => updateMutation.mutate({ id: view.id, data: { pinned: !view.pinned } })}
+            disabled={updateMutation.isPending}
+            className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-[12px] bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md transition-colors disabled:opacity-50"
+            title={view.pinned ? "Remove from sidebar" : "Pin to sidebar"}
+          >
+            {view.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+            {view.pinned ? "Unpin" : "Pin"}
+          </button>
+        </div>
+
+        {/* Filter editor */}
+        <form
+          className="mt-3 flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (queryChanged && filterText.trim()) {
+              updateMutation.mutate({ id: view.id, data: { query: filterText.trim() } });
+            }
+          }}
+        >
+          <Filter className="h-4 w-4 text-zinc-500 flex-shrink-0" />
+          <input
+            value={filterText}
+            onChange={(e) => setDraftQuery(e.target.value)}
+            className="flex-1 px-2.5 py-1.5 text-[13px] font-mono bg-zinc-900 border border-zinc-700 rounded-md focus:outline-none focus:border-zinc-500"
+            spellCheck={false}
+          />
+          {queryChanged && (
+            <button
+              type="submit"
+              disabled={updateMutation.isPending}
+              className="px-3 py-1.5 text-[12px] bg-blue-600 hover:bg-blue-500 text-white rounded-md transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          )}
+        </form>
+      </div>
+
+      {/* Task List */}
+      <div className="p-6">
+        {tasks.length === 0 ? (
+          <div className="text-center py-12 text-zinc-500">
+            <CheckCircle className="h-12 w-12 mx-auto mb-4 opacity-20" />
+            <p>No tasks match this view</p>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-zinc-800 bg-zinc-900/50 p-4">
+            <GroupedTaskList
+              tasks={tasks}
+              groupBy="date"
+              showCompletedToggle={false}
+              onRefresh={() => viewQuery.refetch()}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
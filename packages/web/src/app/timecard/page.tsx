@@ -11,8 +11,13 @@ import {
   ChevronRight,
   Focus,
   TrendingUp,
+  Timer,
+  FolderKanban,
+  FileText,
 } from "lucide-react";
+import Link from "next/link";
 import { trpc } from "@/lib/trpc";
+import { useToast } from "@/components/toast";
 
 // Default client colors (cycles through for orgs not in the list)
 const CLIENT_COLOR_PALETTE = [
@@ -251,11 +256,12 @@ function FocusTracker() {
 function TimecardContent() {
   const [clientFilter, setClientFilter] = useState<string>("all");
   const [monthFilter, setMonthFilter] = useState<string>("all");
+  const [sourceFilter, setSourceFilter] = useState<"all" | "csv" | "db">("all");
   const [expandedMonths, setExpandedMonths] = useState<Set<string>>(new Set());
 
   // Fetch data
-  const summaryQuery = trpc.timecard.summary.useQuery();
-  const listQuery = trpc.timecard.list.useQuery();
+  const summaryQuery = trpc.timecard.summary.useQuery({ source: sourceFilter });
+  const listQuery = trpc.timecard.list.useQuery({ source: sourceFilter });
   const orgsQuery = trpc.organizations.list.useQuery();
 
   // Build org display names and colors from database
@@ -283,6 +289,15 @@ function TimecardContent() {
   const summary = summaryQuery.data;
   const entries = listQuery.data?.entries || [];
 
+  // Project totals only exist for time tracked on tasks
+  const projectSummaries = useMemo(
+    () =>
+      (summary?.projectSummaries || []).filter(
+        (p) => clientFilter === "all" || p.client === clientFilter
+      ),
+    [summary, clientFilter]
+  );
+
   // Get available months from entries
   const availableMonths = useMemo(() => {
     const months = new Set<string>();
@@ -442,8 +457,41 @@ function TimecardContent() {
             ))}
           </select>
         </div>
+
+        <div className="flex items-center gap-2">
+          <label className="text-[12px] text-zinc-500">Source:</label>
+          <select
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value as "all" | "csv" | "db")}
+            className="px-3 py-1.5 bg-zinc-900 border border-zinc-700 rounded-md text-[13px] focus:outline-none focus:border-blue-500"
+          >
+            <option value="all">CSV + Tracked</option>
+            <option value="csv">Timecard CSV</option>
+            <option value="db">Tracked on tasks</option>
+          </select>
+        </div>
       </div>
 
+      {/* Project totals (tracked time only) */}
+      {projectSummaries.length > 0 && (
+        <div className="px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center gap-2 text-zinc-500 text-[12px] uppercase tracking-wider mb-3">
+            <FolderKanban className="h-4 w-4" />
+            Tracked by Project
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {projectSummaries.map((p) => (
+              <span
+                key={`${p.client}/${p.project}`}
+                className={`px-2 py-1 rounded text-[12px] ${getClientColor(p.client)}`}
+              >
+                {p.projectName}: {formatHours(p.totalHours)}h
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Monthly Breakdown with Entries */}
       <div className="p-6 space-y-4">
         {Object.entries(entriesByMonth)
@@ -528,6 +576,11 @@ function TimecardContent() {
                               {formatHours(entry.hours)}
                             </td>
                             <td className="px-4 py-2 text-[13px] text-zinc-400 max-w-md truncate">
+                              {entry.source === "db" && (
+                                <span title="Tracked on tasks">
+                                  <Timer className="h-3.5 w-3.5 inline-block mr-1.5 text-blue-400" />
+                                </span>
+                              )}
                               {entry.tasks || "—"}
                             </td>
                           </tr>
@@ -551,12 +604,243 @@ function TimecardContent() {
   );
 }
 
+// ============================================================================
+// Invoices Tab Content
+// ============================================================================
+
+const INVOICE_STATUS_COLORS: Record<string, string> = {
+  draft: "bg-zinc-700 text-zinc-300",
+  sent: "bg-blue-500/20 text-blue-300",
+  paid: "bg-green-500/20 text-green-300",
+};
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-GB", { style: "currency", currency }).format(amount);
+}
+
+function previousMonth(): string {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function InvoicesContent() {
+  const [org, setOrg] = useState("");
+  const [month, setMonth] = useState(previousMonth);
+  const [vatEnabled, setVatEnabled] = useState(false);
+  const [vatRate, setVatRate] = useState("20");
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+
+  const invoicesQuery = trpc.invoices.list.useQuery();
+  const orgsQuery = trpc.organizations.list.useQuery();
+  const billableOrgs = (orgsQuery.data?.organizations || []).filter((o) => o.billingRate !== null);
+  const selectedOrg = org || billableOrgs[0]?.slug || "";
+
+  const generateMutation = trpc.invoices.generate.useMutation({
+    onSuccess: (invoice) => {
+      showToast(`Generated ${invoice.number}`, "success");
+      utils.invoices.invalidate();
+    },
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const statusMutation = trpc.invoices.updateStatus.useMutation({
+    onSuccess: () => utils.invoices.invalidate(),
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const deleteMutation = trpc.invoices.delete.useMutation({
+    onSuccess: () => utils.invoices.invalidate(),
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  if (invoicesQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-zinc-500" />
+      </div>
+    );
+  }
+
+  if (invoicesQuery.isError) {
+    return <div className="p-6 text-red-400">Could not load invoices</div>;
+  }
+
+  const invoices = invoicesQuery.data?.invoices || [];
+  const outstanding = invoices.filter((i) => i.status === "sent");
+
+  return (
+    <div>
+      {/* Generate */}
+      <div className="px-6 py-4 border-b border-zinc-800 flex flex-wrap items-center gap-4">
+        <FileText className="h-4 w-4 text-zinc-500" />
+
+        {billableOrgs.length === 0 ? (
+          <p className="text-[13px] text-zinc-500">
+            Set a billing rate in an organization&apos;s settings to generate invoices.
+          </p>
+        ) : (
+          <form
+            className="flex flex-wrap items-center gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              generateMutation.mutate({
+                org: selectedOrg,
+                month,
+                vatRate: vatEnabled ? parseFloat(vatRate) || 0 : undefined,
+              });
+            }}
+          >
+            <div className="flex items-center gap-2">
+              <label className="text-[12px] text-zinc-500">Client:</label>
+              <select
+                value={selectedOrg}
+                onChange={(e) => setOrg(e.target.value)}
+                className="px-3 py-1.5 bg-zinc-900 border border-zinc-700 rounded-md text-[13px] focus:outline-none focus:border-blue-500"
+              >
+                {billableOrgs.map((o) => (
+                  <option key={o.slug} value={o.slug}>
+                    {o.name} ({formatMoney(o.billingRate!, o.billingCurrency || "GBP")}/h)
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <label className="text-[12px] text-zinc-500">Month:</label>
+              <input
+                type="month"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                className="px-3 py-1.5 bg-zinc-900 border border-zinc-700 rounded-md text-[13px] focus:outline-none focus:border-blue-500"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-[12px] text-zinc-500">
+              <input
+                type="checkbox"
+                checked={vatEnabled}
+                onChange={(e) => setVatEnabled(e.target.checked)}
+              />
+              VAT
+              {vatEnabled && (
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={vatRate}
+                  onChange={(e) => setVatRate(e.target.value)}
+                  className="w-16 px-2 py-1 bg-zinc-900 border border-zinc-700 rounded-md text-[13px] text-zinc-200 focus:outline-none focus:border-blue-500"
+                />
+              )}
+              {vatEnabled && "%"}
+            </label>
+
+            <button
+              type="submit"
+              disabled={generateMutation.isPending || !month}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-[12px] bg-blue-600 hover:bg-blue-500 text-white rounded-md transition-colors disabled:opacity-50"
+            >
+              {generateMutation.isPending && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+              Generate
+            </button>
+          </form>
+        )}
+
+        {outstanding.length > 0 && (
+          <span className="ml-auto text-[12px] text-zinc-500">
+            {outstanding.length} awaiting payment
+          </span>
+        )}
+      </div>
+
+      {/* Invoice list */}
+      <div className="p-6">
+        {invoices.length === 0 ? (
+          <div className="text-center py-12 text-zinc-500">
+            <FileText className="h-12 w-12 mx-auto mb-4 opacity-20" />
+            <p>No invoices yet</p>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-zinc-800 bg-zinc-900/50 overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="text-[11px] text-zinc-500 uppercase tracking-wider">
+                  <th className="text-left px-4 py-2">Number</th>
+                  <th className="text-left px-4 py-2">Client</th>
+                  <th className="text-left px-4 py-2">Period</th>
+                  <th className="text-right px-4 py-2">Hours</th>
+                  <th className="text-right px-4 py-2">Total</th>
+                  <th className="text-left px-4 py-2">Due</th>
+                  <th className="text-left px-4 py-2">Status</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {invoices.map((invoice) => (
+                  <tr key={invoice.id} className="border-t border-zinc-800/50 hover:bg-zinc-800/30">
+                    <td className="px-4 py-2 text-[13px] font-mono">
+                      {invoice.markdownPath ? (
+                        <Link href={`/browse/${invoice.markdownPath}`} className="hover:text-blue-400">
+                          {invoice.number}
+                        </Link>
+                      ) : (
+                        invoice.number
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-[13px]">{invoice.orgName}</td>
+                    <td className="px-4 py-2 text-[13px] text-zinc-400">{getMonthName(invoice.month)}</td>
+                    <td className="px-4 py-2 text-[13px] text-right font-mono">{formatHours(invoice.totalHours)}</td>
+                    <td className="px-4 py-2 text-[13px] text-right font-mono">
+                      {formatMoney(invoice.total, invoice.currency)}
+                    </td>
+                    <td className="px-4 py-2 text-[13px] text-zinc-400">{formatDate(invoice.dueDate)}</td>
+                    <td className="px-4 py-2">
+                      <select
+                        value={invoice.status}
+                        onChange={(e) =>
+                          statusMutation.mutate({
+                            id: invoice.id,
+                            status: e.target.value as "draft" | "sent" | "paid",
+                          })
+                        }
+                        className={`px-2 py-0.5 rounded text-[12px] border-0 focus:outline-none ${INVOICE_STATUS_COLORS[invoice.status]}`}
+                      >
+                        <option value="draft">Draft</option>
+                        <option value="sent">Sent</option>
+                        <option value="paid">Paid</option>
+                      </select>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {invoice.status === "draft" && (
+                        <button
+                          onClick={() => deleteMutation.mutate({ id: invoice.id })}
+                          disabled={deleteMutation.isPending}
+                          className="text-[12px] text-zinc-500 hover:text-red-400 disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Main Page Component
 // ============================================================================
 
 export default function TimecardPage() {
-  const [activeTab, setActiveTab] = useState<"timecard" | "focus">("timecard");
+  const [activeTab, setActiveTab] = useState<"timecard" | "invoices" | "focus">("timecard");
 
   // Fetch summary for header stats
   const summaryQuery = trpc.timecard.summary.useQuery();
@@ -570,10 +854,10 @@ export default function TimecardPage() {
           <div>
             <h1 className="text-2xl font-semibold tracking-tight flex items-center gap-2">
               <Clock className="h-6 w-6 text-blue-400" />
-              {activeTab === "timecard" ? "Timecard" : "Focus Tracker"}
+              {activeTab === "timecard" ? "Timecard" : activeTab === "invoices" ? "Invoices" : "Focus Tracker"}
             </h1>
             <p className="text-[13px] text-zinc-500 mt-1">
-              {activeTab === "timecard" ? (
+              {activeTab !== "focus" ? (
                 <>
                   {summaryQuery.data?.entryCount || 0} entries · {formatHours(summaryQuery.data?.totalHours || 0)} hours total
                 </>
@@ -601,6 +885,17 @@ export default function TimecardPage() {
             <Clock className="h-4 w-4 inline-block mr-2" />
             Timecard
           </button>
+          <button
+            onClick={() => setActiveTab("invoices")}
+            className={`px-4 py-3 text-[13px] font-medium border-b-2 transition-colors ${
+              activeTab === "invoices"
+                ? "border-blue-500 text-blue-400"
+                : "border-transparent text-zinc-500 hover:text-zinc-300"
+            }`}
+          >
+            <FileText className="h-4 w-4 inline-block mr-2" />
+            Invoices
+          </button>
           <button
             onClick={() => setActiveTab("focus")}
             className={`px-4 py-3 text-[13px] font-medium border-b-2 transition-colors ${
@@ -616,7 +911,9 @@ export default function TimecardPage() {
       </div>
 
       {/* Tab Content */}
-      {activeTab === "timecard" ? <TimecardContent /> : <FocusTracker />}
+      {activeTab === "timecard" && <TimecardContent />}
+      {activeTab === "invoices" && <InvoicesContent />}
+      {activeTab === "focus" && <FocusTracker />}
     </div>
   );
 }
@@ -10,6 +10,7 @@
 import { useEffect, useRef } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { io, Socket } from "socket.io-client";
+import { getAuthToken } from "@/lib/auth";
 import { toast } from "sonner";
 import { FileText, FolderKanban, GitBranch, Users, Sparkles } from "lucide-react";
 
@@ -66,6 +67,7 @@ export function AIContentNotifier() {
     // Connect to socket.io server
     const socket = io(taskServiceUrl, {
       transports: ["websocket", "polling"],
+      auth: { token: getAuthToken() },
       reconnection: true,
       reconnectionAttempts: 5,
       reconnectionDelay: 1000,
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound, Plus, Trash2, Copy, LogOut } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "@/components/toast";
+import { clearAuthToken } from "@/lib/auth";
+
+function formatDate(iso: string | null): string {
+  if (!iso) return "never";
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+/** iCalendar feed URL for a token (served by the task service, not the web app) */
+function feedUrl(token: string): string {
+  const base = process.env.NEXT_PUBLIC_TASK_SERVICE_URL || "http://localhost:3004";
+  return `${base}/ical/${token}.ics`;
+}
+
+/**
+ * Login status, web sessions and personal API tokens, shown on the system page
+ */
+export function ApiTokensPanel() {
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<"read" | "write">("read");
+  const [expiresInDays, setExpiresInDays] = useState("");
+  // Most recently created token, shown once so it can be copied
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+
+  const statusQuery = trpc.auth.status.useQuery();
+  const tokensQuery = trpc.auth.listTokens.useQuery();
+
+  const createMutation = trpc.auth.createToken.useMutation({
+    onSuccess: (token) => {
+      setNewToken(token.token);
+      setShowForm(false);
+      setName("");
+      setExpiresInDays("");
+      utils.auth.listTokens.invalidate();
+    },
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const revokeMutation = trpc.auth.revokeToken.useMutation({
+    onSuccess: () => utils.auth.listTokens.invalidate(),
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const logoutMutation = trpc.auth.logout.useMutation({
+    onSettled: () => {
+      clearAuthToken();
+      window.location.href = "/login";
+    },
+  });
+
+  const status = statusQuery.data;
+  const tokens = tokensQuery.data?.tokens || [];
+  const currentTokenId = tokensQuery.data?.currentTokenId ?? null;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-medium flex items-center gap-2">
+          <KeyRound className="h-4 w-4" />
+          Access ({tokens.length})
+        </h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+          >
+            <Plus className="h-3 w-3" />
+            New token
+          </button>
+          {status?.principal?.kind === "session" && (
+            <button
+              onClick={() => logoutMutation.mutate()}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+            >
+              <LogOut className="h-3 w-3" />
+              Log out
+            </button>
+          )}
+        </div>
+      </div>
+
+      {status && !status.required && (
+        <div className="mb-3 p-3 rounded-lg bg-yellow-900/20 border border-yellow-500/30 text-xs text-yellow-300">
+          Authentication is disabled: anything that can reach the task service can read and change your data.
+          Set AUTH_PASSPHRASE in the server&apos;s .env to require a login and API tokens.
+        </div>
+      )}
+
+      {newToken && (
+        <div className="mb-3 p-3 rounded-lg bg-blue-900/20 border border-blue-500/30 text-xs text-blue-300">
+          <div className="mb-1">New token (shown once; use it as KW_API_TOKEN for tcli or as a Bearer token):</div>
+          <div className="flex items-center gap-2">
+            <code className="px-1.5 py-0.5 bg-zinc-900 rounded font-mono text-zinc-200 break-all">{newToken}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newToken)}
+              className="p-1 rounded hover:bg-zinc-800"
+              title="Copy"
+            >
+              <Copy className="h-3 w-3" />
+            </button>
+            <button onClick={() => setNewToken(null)} className="ml-auto text-zinc-500 hover:text-zinc-300">
+              Dismiss
+            </button>
+          </div>
+          <div className="mt-2 text-zinc-400">
+            Calendar feed (subscribe from your calendar app; add ?owner=Name or ?org=slug to filter):
+          </div>
+          <div className="flex items-center gap-2">
+            <code className="px-1.5 py-0.5 bg-zinc-900 rounded font-mono text-zinc-300 break-all">{feedUrl(newToken)}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(feedUrl(newToken))}
+              className="p-1 rounded hover:bg-zinc-800"
+              title="Copy"
+            >
+              <Copy className="h-3 w-3" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          className="mb-3 p-3 rounded-lg bg-zinc-800/30 flex flex-wrap items-center gap-2 text-xs"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate({
+              name: name.trim(),
+              scope,
+              expiresInDays: expiresInDays ? parseInt(expiresInDays, 10) : undefined,
+            });
+          }}
+        >
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (e.g. tcli on laptop)"
+            className="flex-1 min-w-[160px] px-2 py-1.5 bg-zinc-900 border border-zinc-700 rounded focus:outline-none focus:border-zinc-500"
+          />
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as "read" | "write")}
+            className="px-2 py-1.5 bg-zinc-900 border border-zinc-700 rounded"
+          >
+            <option value="read">Read only</option>
+            <option value="write">Read &amp; write</option>
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            placeholder="Expires in days"
+            className="w-32 px-2 py-1.5 bg-zinc-900 border border-zinc-700 rounded focus:outline-none focus:border-zinc-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || createMutation.isPending}
+            className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+          >
+            Create
+          </button>
+        </form>
+      )}
+
+      {tokens.length === 0 ? (
+        <div className="p-3 text-center text-zinc-500 text-sm bg-zinc-800/30 rounded-lg">
+          No API tokens or sessions
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {tokens.map((token) => (
+            <div key={token.id} className="flex items-center gap-3 p-2 rounded-lg bg-zinc-800/30 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-zinc-300">{token.name}</span>
+                  <span className="text-xs font-mono text-zinc-500">{token.prefix}…</span>
+                  <span className={`text-xs ${token.scope === "write" ? "text-orange-400" : "text-green-400"}`}>
+                    {token.scope === "write" ? "read-write" : "read-only"}
+                  </span>
+                  {token.id === currentTokenId && <span className="text-xs text-blue-400">this session</span>}
+                </div>
+                <div className="text-xs text-zinc-500">
+                  {token.kind === "session" ? "Web session" : "API token"} · created {formatDate(token.createdAt)} · last
+                  used {formatDate(token.lastUsedAt)}
+                  {token.expiresAt && ` · expires ${formatDate(token.expiresAt)}`}
+                </div>
+              </div>
+              <button
+                onClick={() => {
+                  if (confirm(`Revoke "${token.name}"? Anything using it will lose access.`)) {
+                    revokeMutation.mutate({ id: token.id });
+                  }
+                }}
+                className="p-1 rounded text-red-400 hover:bg-red-600/20"
+                title="Revoke"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
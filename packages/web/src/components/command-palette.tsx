@@ -27,6 +27,9 @@ import {
   Building2,
   GitBranch,
 } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { getMeetingUrl, getPersonUrl, getProjectUrl, getTaskUrl } from "@/lib/urls";
+import type { SearchResult as IndexResult } from "@kw/api-types";
 
 interface SearchResult {
   type: "diary" | "project" | "meeting" | "page" | "task" | "person" | "organization" | "workstream";
@@ -61,6 +64,54 @@ const staticPages: SearchResult[] = [
   { type: "page", title: "Search", href: "/search", description: "Full-text search" },
 ];
 
+/**
+ * Map a full-text search hit onto a palette entry. Item, check-in and note
+ * hits all point at the task they belong to.
+ */
+function fromIndexResult(result: IndexResult): SearchResult | null {
+  switch (result.type) {
+    case "item":
+    case "checkin":
+    case "note":
+      if (result.itemId === null) return null;
+      return {
+        type: "task",
+        title: result.title,
+        href: getTaskUrl(result.itemId),
+        description: result.type === "item" ? undefined : result.snippet,
+        taskId: `T-${result.itemId}`,
+        taskStatus: result.itemStatus ?? undefined,
+        taskOwner: result.itemOwner ?? undefined,
+      };
+    case "meeting":
+      if (!result.path) return null;
+      return {
+        type: "meeting",
+        title: result.title,
+        href: getMeetingUrl({ path: result.path }),
+        description: result.date ?? undefined,
+      };
+    case "project":
+      if (!result.org || !result.projectPath) return null;
+      return {
+        type: "project",
+        title: result.title,
+        href: getProjectUrl(result.org, result.projectPath),
+        org: result.org,
+      };
+    case "diary": {
+      if (!result.date) return null;
+      const [year, month, day] = result.date.split("-");
+      return {
+        type: "diary",
+        title: result.title,
+        href: `/diary/${year}/${month}/${day}`,
+        description: result.snippet,
+      };
+    }
+  }
+}
+
 const iconMap = {
   page: LayoutDashboard,
   diary: Calendar,
@@ -96,6 +147,7 @@ export function CommandPalette() {
   const [results, setResults] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const router = useRouter();
+  const utils = trpc.useUtils();
 
   // Keyboard shortcut
   useEffect(() => {
@@ -120,11 +172,47 @@ export function CommandPalette() {
     const searchContent = async () => {
       setLoading(true);
       try {
-        const response = await fetch(`/api/search?q=${encodeURIComponent(search)}`);
-        if (response.ok) {
-          const data = await response.json();
-          setResults(data.results || []);
+        const query = search.trim();
+        const [indexed, people, orgs] = await Promise.all([
+          utils.search.query.fetch({ query, limit: 30 }),
+          utils.people.list.fetch({ search: query, limit: 5 }),
+          utils.organizations.list.fetch(),
+        ]);
+
+        // Several hits can point at the same task (title + notes) - keep the best
+        const seen = new Set<string>();
+        const contentResults: SearchResult[] = [];
+        for (const hit of indexed.results) {
+          const result = fromIndexResult(hit);
+          if (!result || seen.has(result.href)) continue;
+          seen.add(result.href);
+          contentResults.push(result);
         }
+
+        const queryLower = query.toLowerCase();
+        setResults([
+          ...contentResults,
+          ...people.people.map((person): SearchResult => ({
+            type: "person",
+            title: person.name,
+            href: getPersonUrl(person.id),
+            personOrg: person.org ?? undefined,
+            personEmail: person.email ?? undefined,
+          })),
+          ...orgs.organizations
+            .filter((org) =>
+              org.name.toLowerCase().includes(queryLower) ||
+              org.slug.includes(queryLower) ||
+              org.shortName?.toLowerCase().includes(queryLower)
+            )
+            .map((org): SearchResult => ({
+              type: "organization",
+              title: org.name,
+              href: `/projects/${org.slug}`,
+              orgSlug: org.slug,
+              orgShortName: org.shortName ?? undefined,
+            })),
+        ]);
       } catch (error) {
         console.error("Search error:", error);
       } finally {
@@ -134,7 +222,7 @@ export function CommandPalette() {
 
     const debounce = setTimeout(searchContent, 200);
     return () => clearTimeout(debounce);
-  }, [search]);
+  }, [search, utils]);
 
   const handleSelect = useCallback(
     (href: string) => {
@@ -9,6 +9,12 @@ import {
   Plus,
   Loader2,
   AlertCircle,
+  Tag,
+  Hourglass,
+  CalendarClock,
+  Repeat,
+  Timer,
+  X,
 } from "lucide-react";
 import {
   Dialog,
@@ -24,12 +30,34 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { parseTaskInput } from "@/lib/date-parser";
+import { parseQuickAdd, type QuickAddDraft } from "@kw/api-types";
+import { formatDisplayDate, formatMinutes } from "@/lib/date-parser";
 import { Combobox } from "@/components/ui/combobox";
 import { trpc } from "@/lib/trpc";
 import { TaskDetailModal } from "@/components/task-detail-popover";
 import { SmartTaskInput, type SmartTaskInputRef } from "@/components/smart-task-input";
 
+/** Quick-add parts that have no field of their own in the dialog */
+type QuickAddExtras = Pick<QuickAddDraft, "tags" | "waitingOn" | "checkinDate" | "recurrence" | "estimateMinutes">;
+
+const NO_EXTRAS: QuickAddExtras = {
+  tags: [],
+  waitingOn: [],
+  checkinDate: null,
+  recurrence: null,
+  estimateMinutes: null,
+};
+
+function mergeExtras(prev: QuickAddExtras, draft: QuickAddDraft): QuickAddExtras {
+  return {
+    tags: [...new Set([...prev.tags, ...draft.tags])],
+    waitingOn: [...new Set([...prev.waitingOn, ...draft.waitingOn])],
+    checkinDate: draft.checkinDate ?? prev.checkinDate,
+    recurrence: draft.recurrence ?? prev.recurrence,
+    estimateMinutes: draft.estimateMinutes ?? prev.estimateMinutes,
+  };
+}
+
 interface CreateTaskDialogProps {
   children?: React.ReactNode;
   onTaskCreated?: (taskId: number) => void;
@@ -68,7 +96,10 @@ export function CreateTaskDialog({
   const [projectId, setProjectId] = useState<string>(defaultProjectId ? String(defaultProjectId) : "_none");
   const [ownerId, setOwnerId] = useState<string>(defaultOwnerId ? String(defaultOwnerId) : "_none");
   const [blockedByTaskId, setBlockedByTaskId] = useState<string>("_none");
+  const [extras, setExtras] = useState<QuickAddExtras>(NO_EXTRAS);
+  const [quickAddProblems, setQuickAddProblems] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const utils = trpc.useUtils();
 
   // tRPC queries for reference data
   const projectsQuery = trpc.projects.list.useQuery(undefined, { enabled: open });
@@ -81,8 +112,8 @@ export function CreateTaskDialog({
   // tRPC mutation for adding blocker
   const addBlockerMutation = trpc.items.addBlocker.useMutation();
 
-  // tRPC mutation for creating task
-  const createMutation = trpc.items.create.useMutation({
+  // tRPC mutation for creating task (quickAdd also applies tags, waiting-on and check-in)
+  const createMutation = trpc.items.quickAdd.useMutation({
     onSuccess: async (data) => {
       // If a blocker was selected, add the blocker relationship
       if (blockedByTaskId && blockedByTaskId !== "_none") {
@@ -126,24 +157,49 @@ export function CreateTaskDialog({
       setProjectId(defaultProjectId ? String(defaultProjectId) : "_none");
       setOwnerId(defaultOwnerId ? String(defaultOwnerId) : "_none");
       setBlockedByTaskId("_none");
+      setExtras(NO_EXTRAS);
+      setQuickAddProblems([]);
       setError(null);
       setShowTokenWarning(false);
     }
   }, [open, defaultProjectId, defaultOwnerId]);
 
-  const handleTitleBlur = () => {
-    const parsed = parseTaskInput(title);
-    if (parsed.dueDate && !dueDate) {
-      setDueDate(parsed.dueDate);
+  // Parse quick-add tokens out of the title; the server resolves the names
+  const handleTitleBlur = async () => {
+    const draft = parseQuickAdd(title);
+    if (draft.tokens.length === 0) return;
+
+    setTitle(draft.title);
+    if (draft.dueDate && !dueDate) {
+      setDueDate(draft.dueDate);
     }
-    if (parsed.priority && priority === "_none") {
-      setPriority(String(parsed.priority));
+    if (draft.priority && priority === "_none") {
+      setPriority(String(draft.priority));
+    }
+    setExtras((prev) => mergeExtras(prev, draft));
+
+    let owner = draft.owner;
+    if (owner?.toLowerCase() === "me" && defaultOwnerId) {
+      setOwnerId(String(defaultOwnerId));
+      owner = null;
     }
-    if (parsed.title !== title) {
-      setTitle(parsed.title);
+
+    if (!draft.project && !owner && draft.waitingOn.length === 0 && draft.tags.length === 0) return;
+    try {
+      const resolved = await utils.items.resolveQuickAdd.fetch({ draft: { ...draft, owner } });
+      if (resolved.project) setProjectId(String(resolved.project.id));
+      if (resolved.owner) setOwnerId(String(resolved.owner.id));
+      setQuickAddProblems(resolved.problems);
+    } catch (err) {
+      setQuickAddProblems([err instanceof Error ? err.message : "Could not check quick-add names"]);
     }
   };
 
+  const removeExtra = (change: Partial<QuickAddExtras>) => {
+    setExtras((prev) => ({ ...prev, ...change }));
+    setQuickAddProblems([]);
+  };
+
   const handleCreate = (force = false) => {
     if (!title.trim()) {
       setError("Title is required");
@@ -159,13 +215,19 @@ export function CreateTaskDialog({
     setError(null);
 
     createMutation.mutate({
-      title: title.trim(),
+      draft: {
+        ...extras,
+        title: title.trim(),
+        dueDate: dueDate || null,
+        priority: priority && priority !== "_none" ? parseInt(priority, 10) : null,
+        project: null,
+        owner: null,
+        tokens: [],
+      },
       description: description || undefined,
       status: blockedByTaskId && blockedByTaskId !== "_none" ? "blocked" : "pending",
-      dueDate: dueDate || undefined,
-      priority: priority && priority !== "_none" ? parseInt(priority, 10) : undefined,
-      projectId: projectId && projectId !== "_none" ? parseInt(projectId, 10) : undefined,
-      ownerId: ownerId && ownerId !== "_none" ? parseInt(ownerId, 10) : undefined,
+      projectId: projectId && projectId !== "_none" ? parseInt(projectId, 10) : null,
+      ownerId: ownerId && ownerId !== "_none" ? parseInt(ownerId, 10) : null,
       // Blocker is added via items.addBlocker API in onSuccess callback
     });
   };
@@ -219,8 +281,30 @@ export function CreateTaskDialog({
                 }
               }}
             />
+            {(extras.tags.length > 0 || extras.waitingOn.length > 0 || extras.checkinDate || extras.recurrence || extras.estimateMinutes) && (
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {extras.tags.map((tag) => (
+                  <ExtraChip key={`tag-${tag}`} icon={Tag} label={tag} onRemove={() => removeExtra({ tags: extras.tags.filter((t) => t !== tag) })} />
+                ))}
+                {extras.waitingOn.map((name) => (
+                  <ExtraChip key={`waiting-${name}`} icon={Hourglass} label={`Waiting on ${name}`} onRemove={() => removeExtra({ waitingOn: extras.waitingOn.filter((n) => n !== name) })} />
+                ))}
+                {extras.checkinDate && (
+                  <ExtraChip icon={CalendarClock} label={`Check in ${formatDisplayDate(extras.checkinDate)}`} onRemove={() => removeExtra({ checkinDate: null })} />
+                )}
+                {extras.recurrence && (
+                  <ExtraChip icon={Repeat} label={extras.recurrence.description} onRemove={() => removeExtra({ recurrence: null })} />
+                )}
+                {extras.estimateMinutes && (
+                  <ExtraChip icon={Timer} label={formatMinutes(extras.estimateMinutes)} onRemove={() => removeExtra({ estimateMinutes: null })} />
+                )}
+              </div>
+            )}
+            {quickAddProblems.map((problem) => (
+              <p key={problem} className="text-[10px] text-amber-400 mt-0.5">{problem}</p>
+            ))}
             <p className="text-[9px] text-zinc-600 mt-0.5">
-              @me/@none, #project, p1-p4, !tomorrow/!monday/!jan15 for dates
+              @me/@none, #project, p1-p4, !tomorrow/!monday/!jan15 for dates, ~tag, +waiting:@name, ^checkin friday, every monday, 30m
             </p>
           </div>
 
@@ -438,3 +522,23 @@ export function CreateTaskDialog({
   </>
   );
 }
+
+function ExtraChip({
+  icon: Icon,
+  label,
+  onRemove,
+}: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  onRemove: () => void;
+}) {
+  return (
+    <span className="inline-flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded border bg-zinc-700/40 text-zinc-300 border-zinc-600">
+      <Icon className="h-3 w-3" />
+      <span>{label}</span>
+      <button type="button" onClick={onRemove} className="ml-0.5 hover:opacity-70">
+        <X className="h-3 w-3" />
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { CollapsibleSection } from "./collapsible-section";
+import type { DependencyGraph as Graph, DependencyGraphNode } from "@kw/api-types";
+
+const NODE_WIDTH = 168;
+const NODE_HEIGHT = 44;
+const COLUMN_GAP = 56;
+const ROW_GAP = 12;
+
+/**
+ * Columns by longest chain of blockers in front of each item. Items in a
+ * cycle stop the relaxation once every column has been tried.
+ */
+function layout(graph: Graph) {
+  const depth = new Map(graph.nodes.map((n) => [n.id, 0]));
+  for (let pass = 0; pass < graph.nodes.length; pass++) {
+    let changed = false;
+    for (const edge of graph.edges) {
+      const next = depth.get(edge.from)! + 1;
+      if (next > depth.get(edge.to)! && next < graph.nodes.length) {
+        depth.set(edge.to, next);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const columns: DependencyGraphNode[][] = [];
+  for (const node of graph.nodes) {
+    const column = depth.get(node.id)!;
+    (columns[column] ??= []).push(node);
+  }
+
+  const positions = new Map<number, { x: number; y: number }>();
+  columns.forEach((column, i) => {
+    column.forEach((node, j) => {
+      positions.set(node.id, { x: i * (NODE_WIDTH + COLUMN_GAP), y: j * (NODE_HEIGHT + ROW_GAP) });
+    });
+  });
+
+  const rows = Math.max(...columns.map((c) => c?.length ?? 0));
+  return {
+    positions,
+    width: columns.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: rows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP,
+  };
+}
+
+/** Everything upstream and downstream of an item */
+function connected(graph: Graph, id: number): Set<number> {
+  const result = new Set([id]);
+  for (const direction of ["from", "to"] as const) {
+    const other = direction === "from" ? "to" : "from";
+    const queue = [id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of graph.edges) {
+        if (edge[other] === current && !result.has(edge[direction])) {
+          result.add(edge[direction]);
+          queue.push(edge[direction]);
+        }
+      }
+    }
+  }
+  return result;
+}
+
+function nodeStyle(node: DependencyGraphNode) {
+  if (node.inCycle) return { fill: "rgba(239,68,68,0.12)", stroke: "#ef4444", dash: "4 3" };
+  if (node.done) return { fill: "rgba(39,39,42,0.4)", stroke: "#3f3f46", dash: undefined };
+  if (node.critical) return { fill: "rgba(245,158,11,0.12)", stroke: "#f59e0b", dash: undefined };
+  return { fill: "rgba(39,39,42,0.8)", stroke: "#52525b", dash: node.external ? "4 3" : undefined };
+}
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function slackLabel(node: DependencyGraphNode) {
+  if (node.done) return node.status;
+  if (node.inCycle) return "in cycle";
+  if (node.slackDays === null) return node.earliestFinish ? `done by ${node.earliestFinish}` : "";
+  if (node.slackDays < 0) return `${-node.slackDays}d late`;
+  return `${node.slackDays}d slack`;
+}
+
+/**
+ * "Blocks" graph for a project: every item its tasks wait on or hold up,
+ * laid out left to right. The critical path to the deadline is highlighted;
+ * hover an item to trace its chain, click to open it.
+ */
+export function DependencyGraphSection({ org, slug }: { org: string; slug: string }) {
+  const router = useRouter();
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const projectQuery = trpc.projects.get.useQuery({ org, slug }, { retry: false });
+  const projectId = projectQuery.data?.id;
+  const graphQuery = trpc.items.dependencyGraph.useQuery(
+    { projectId: projectId ?? 0 },
+    { enabled: projectId !== undefined }
+  );
+
+  const graph = graphQuery.data;
+  const geometry = useMemo(() => (graph ? layout(graph) : null), [graph]);
+  const highlighted = useMemo(
+    () => (graph && hovered !== null ? connected(graph, hovered) : null),
+    [graph, hovered]
+  );
+
+  if (!graph || !geometry || graph.nodes.length === 0) return null;
+
+  const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+  const criticalEdges = new Set(
+    graph.criticalPath.slice(1).map((id, i) => `${graph.criticalPath[i]}:${id}`)
+  );
+  const end = byId.get(graph.criticalPath[graph.criticalPath.length - 1]);
+
+  return (
+    <CollapsibleSection title={`Dependencies (${graph.nodes.length})`} defaultOpen={true}>
+      <div className="space-y-3">
+        {graph.cycles.length > 0 && (
+          <div className="flex items-center gap-2 px-3 py-2 rounded bg-red-500/10 border border-red-500/20 text-red-400 text-[12px]">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {graph.cycles.length === 1 ? "A cycle" : `${graph.cycles.length} cycles`} in the blocking links:{" "}
+            {graph.cycles.map((cycle) => cycle.map((id) => byId.get(id)?.displayId).join(" → ")).join("; ")}
+          </div>
+        )}
+
+        {end && (
+          <p className="text-[12px] text-zinc-400">
+            {graph.deadline ? `Gating the ${graph.deadline} deadline: ` : "Longest chain: "}
+            <span className="text-amber-400">
+              {graph.criticalPath.map((id) => byId.get(id)?.displayId).join(" → ")}
+            </span>
+            {end.earliestFinish && <> · finishes {end.earliestFinish}</>}
+            {end.slackDays !== null && (
+              <span className={end.slackDays < 0 ? "text-red-400" : "text-zinc-500"}> ({slackLabel(end)})</span>
+            )}
+          </p>
+        )}
+
+        <div className="overflow-x-auto">
+          <svg width={geometry.width} height={geometry.height} className="block">
+            <defs>
+              <marker id="dep-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L8,4 L0,8 z" fill="#71717a" />
+              </marker>
+              <marker id="dep-arrow-critical" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L8,4 L0,8 z" fill="#f59e0b" />
+              </marker>
+            </defs>
+
+            {graph.edges.map((edge) => {
+              const from = geometry.positions.get(edge.from)!;
+              const to = geometry.positions.get(edge.to)!;
+              const critical = criticalEdges.has(`${edge.from}:${edge.to}`);
+              const dimmed = highlighted && !(highlighted.has(edge.from) && highlighted.has(edge.to));
+              const x1 = from.x + NODE_WIDTH;
+              const y1 = from.y + NODE_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = to.y + NODE_HEIGHT / 2;
+              const bend = Math.max(Math.abs(x2 - x1) / 2, 24);
+              return (
+                <path
+                  key={`${edge.from}:${edge.to}`}
+                  d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                  fill="none"
+                  stroke={critical ? "#f59e0b" : "#71717a"}
+                  strokeWidth={critical ? 2 : 1}
+                  opacity={dimmed ? 0.15 : 1}
+                  markerEnd={`url(#${critical ? "dep-arrow-critical" : "dep-arrow"})`}
+                />
+              );
+            })}
+
+            {graph.nodes.map((node) => {
+              const { x, y } = geometry.positions.get(node.id)!;
+              const style = nodeStyle(node);
+              const dimmed = highlighted && !highlighted.has(node.id);
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${x},${y})`}
+                  opacity={dimmed ? 0.3 : 1}
+                  className="cursor-pointer"
+                  onMouseEnter={() => setHovered(node.id)}
+                  onMouseLeave={() => setHovered(null)}
+                  onClick={() => router.push(`/tasks/${node.displayId}`)}
+                >
+                  <title>
+                    {`${node.displayId}: ${node.title}${node.dueDate ? `\nDue ${node.dueDate}` : ""}${node.latestFinish ? `\nMust finish by ${node.latestFinish}` : ""}${node.external ? "\nOutside this project" : ""}`}
+                  </title>
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={6}
+                    fill={style.fill}
+                    stroke={style.stroke}
+                    strokeDasharray={style.dash}
+                  />
+                  <text x={8} y={17} fontSize={11} fill={node.done ? "#71717a" : "#e4e4e7"}>
+                    <tspan fill="#71717a" fontFamily="monospace">{node.displayId}</tspan>{" "}
+                    {truncate(node.title, 18)}
+                  </text>
+                  <text
+                    x={8}
+                    y={34}
+                    fontSize={10}
+                    fill={node.slackDays !== null && node.slackDays < 0 ? "#f87171" : node.critical ? "#fbbf24" : "#71717a"}
+                  >
+                    {slackLabel(node)}
+                    {node.dueDate && !node.done ? ` · due ${node.dueDate}` : ""}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      </div>
+    </CollapsibleSection>
+  );
+}
@@ -10,10 +10,13 @@ import { useToast } from "./toast";
 
 interface EditorProps {
   content: string;
-  onSave?: (content: string) => Promise<void>;
+  /** Resolve to false if the save was held back (e.g. for a conflict) */
+  onSave?: (content: string) => Promise<void | boolean>;
+  /** Extra toolbar actions, shown before the save button */
+  actions?: React.ReactNode;
 }
 
-export function Editor({ content, onSave }: EditorProps) {
+export function Editor({ content, onSave, actions }: EditorProps) {
   const { showToast } = useToast();
   const [value, setValue] = useState(content);
   const [saving, setSaving] = useState(false);
@@ -35,7 +38,7 @@ export function Editor({ content, onSave }: EditorProps) {
 
     setSaving(true);
     try {
-      await onSave(value);
+      if ((await onSave(value)) === false) return;
       setHasChanges(false);
       showToast("File saved");
     } catch (error) {
@@ -66,20 +69,23 @@ export function Editor({ content, onSave }: EditorProps) {
         <span className="text-[11px] text-zinc-500 uppercase tracking-wider">
           Markdown
         </span>
-        {onSave && (
-          <button
-            onClick={handleSave}
-            disabled={saving || !hasChanges}
-            className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-[12px] font-medium transition-colors ${
-              hasChanges
-                ? "bg-blue-600 text-white hover:bg-blue-500"
-                : "bg-zinc-800 text-zinc-500"
-            }`}
-          >
-            <Save className="h-3.5 w-3.5" />
-            {saving ? "Saving..." : hasChanges ? "Save (⌘S)" : "Saved"}
-          </button>
-        )}
+        <div className="flex items-center gap-1">
+          {actions}
+          {onSave && (
+            <button
+              onClick={handleSave}
+              disabled={saving || !hasChanges}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-[12px] font-medium transition-colors ${
+                hasChanges
+                  ? "bg-blue-600 text-white hover:bg-blue-500"
+                  : "bg-zinc-800 text-zinc-500"
+              }`}
+            >
+              <Save className="h-3.5 w-3.5" />
+              {saving ? "Saving..." : hasChanges ? "Save (⌘S)" : "Saved"}
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Editor */}
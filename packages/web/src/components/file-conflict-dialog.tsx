@@ -0,0 +1,185 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { GitMerge, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { FileConflict } from "@/hooks/use-file-editing";
+import { mergeThreeWay, mergedText } from "@/lib/text-merge";
+
+type Choice = "mine" | "theirs" | "both";
+
+interface FileConflictDialogProps {
+  path: string;
+  conflict: FileConflict | null;
+  onResolve: (merged: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const CHOICE_LABELS: Record<Choice, string> = {
+  mine: "Use yours",
+  theirs: "Use disk",
+  both: "Keep both",
+};
+
+function ChunkLines({ lines, className }: { lines: string[]; className: string }) {
+  if (lines.length === 0) {
+    return <div className="px-2 py-1 text-zinc-600 italic">(removed)</div>;
+  }
+  return (
+    <pre className={`px-2 py-1 whitespace-pre-wrap break-words ${className}`}>
+      {lines.join("\n")}
+    </pre>
+  );
+}
+
+/**
+ * Three-way merge view for a save that was rejected because the file changed
+ * on disk. Non-overlapping edits are merged automatically; each overlapping
+ * chunk is resolved by picking a side, and the result can be edited before
+ * saving.
+ */
+export function FileConflictDialog({ path, conflict, onResolve, onCancel }: FileConflictDialogProps) {
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-4xl p-0 bg-zinc-900 border-zinc-700 max-h-[85vh] flex flex-col">
+        <DialogTitle className="sr-only">Resolve save conflict</DialogTitle>
+        {conflict && (
+          <ConflictMerge
+            key={conflict.theirsHash}
+            path={path}
+            conflict={conflict}
+            onResolve={onResolve}
+            onCancel={onCancel}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ConflictMerge({
+  path,
+  conflict,
+  onResolve,
+  onCancel,
+}: FileConflictDialogProps & { conflict: FileConflict }) {
+  const chunks = useMemo(
+    () => mergeThreeWay(conflict.base, conflict.mine, conflict.theirs),
+    [conflict]
+  );
+  const [choices, setChoices] = useState<Record<number, Choice>>({});
+  const [draft, setDraft] = useState(() => mergedText(chunks));
+  const [saving, setSaving] = useState(false);
+
+  const conflictIndexes = chunks.flatMap((chunk, i) => (chunk.type === "conflict" ? [i] : []));
+  const unresolved = draft.includes("<<<<<<< yours");
+
+  const choose = (index: number, choice: Choice) => {
+    const next = { ...choices, [index]: choice };
+    setChoices(next);
+    setDraft(mergedText(chunks, next));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onResolve(draft);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="px-4 py-3 border-b border-zinc-800">
+        <div className="flex items-center gap-2">
+          <GitMerge className="h-4 w-4 text-amber-400" />
+          <h3 className="text-[14px] font-medium text-zinc-100">File changed on disk</h3>
+        </div>
+        <p className="mt-1 text-[12px] text-zinc-500">
+          {path} was modified after you opened it.{" "}
+          {conflictIndexes.length === 0
+            ? "The changes don't overlap and have been merged."
+            : `${conflictIndexes.length} overlapping change${conflictIndexes.length === 1 ? "" : "s"} need${conflictIndexes.length === 1 ? "s" : ""} a decision.`}
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {conflictIndexes.map((index, n) => {
+          const chunk = chunks[index];
+          if (chunk.type !== "conflict") return null;
+          return (
+            <div key={index} className="rounded border border-zinc-800 text-[12px] font-mono">
+              <div className="flex items-center justify-between px-2 py-1.5 border-b border-zinc-800 bg-zinc-950/50 font-sans">
+                <span className="text-[11px] text-zinc-500 uppercase tracking-wider">
+                  Conflict {n + 1}
+                </span>
+                <div className="flex gap-1">
+                  {(Object.keys(CHOICE_LABELS) as Choice[]).map((choice) => (
+                    <button
+                      key={choice}
+                      onClick={() => choose(index, choice)}
+                      className={`px-2 py-0.5 rounded text-[11px] transition-colors ${
+                        choices[index] === choice
+                          ? "bg-blue-600 text-white"
+                          : "bg-zinc-800 text-zinc-400 hover:text-zinc-200"
+                      }`}
+                    >
+                      {CHOICE_LABELS[choice]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 divide-x divide-zinc-800">
+                <div>
+                  <div className="px-2 pt-1 text-[10px] text-zinc-500 font-sans">Yours</div>
+                  <ChunkLines lines={chunk.mine} className="text-emerald-300" />
+                </div>
+                <div>
+                  <div className="px-2 pt-1 text-[10px] text-zinc-500 font-sans">On disk</div>
+                  <ChunkLines lines={chunk.theirs} className="text-sky-300" />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <div>
+          <div className="mb-1 text-[11px] text-zinc-500 uppercase tracking-wider">Result</div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-64 p-2 rounded border border-zinc-800 bg-zinc-950 text-[12px] font-mono text-zinc-200 focus:outline-none focus:border-zinc-600"
+          />
+        </div>
+      </div>
+
+      <div className="px-4 py-3 border-t border-zinc-800 flex items-center justify-between">
+        <span className="text-[11px] text-zinc-500">
+          {unresolved ? "Resolve or remove the conflict markers to save" : ""}
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded text-[12px] text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || unresolved}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded text-[12px] font-medium bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50"
+          >
+            {saving && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Save merged
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { TRPCClientError } from "@trpc/client";
+import type { FileRevision } from "@kw/api-types";
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { diffLines } from "@/lib/text-merge";
+import { useToast } from "./toast";
+
+interface FileHistoryPanelProps {
+  path: string;
+  /** Content and hash of the file as loaded in the editor */
+  current: { raw: string; hash: string };
+  /** Called after a revision has been restored */
+  onRestored?: () => void;
+}
+
+const SOURCE_LABELS: Record<FileRevision["source"], string> = {
+  edit: "Edited",
+  restore: "Restored",
+  external: "Changed outside editor",
+};
+
+function RevisionDiff({ before, after }: { before: string; after: string }) {
+  const ops = useMemo(() => diffLines(before, after), [before, after]);
+  if (ops.every((op) => op.type === "equal")) {
+    return <p className="p-3 text-[12px] text-zinc-500">Same as the current version.</p>;
+  }
+  return (
+    <pre className="text-[12px] font-mono leading-5">
+      {ops.map((op, i) => (
+        <div
+          key={i}
+          className={
+            op.type === "insert"
+              ? "bg-emerald-950/60 text-emerald-300"
+              : op.type === "delete"
+                ? "bg-red-950/60 text-red-300"
+                : "text-zinc-500"
+          }
+        >
+          <span className="inline-block w-5 text-center select-none">
+            {op.type === "insert" ? "+" : op.type === "delete" ? "-" : " "}
+          </span>
+          {op.line || " "}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+/**
+ * Button and dialog listing a file's saved revisions. Selecting one shows
+ * what restoring it would change relative to the current content.
+ */
+export function FileHistoryPanel({ path, current, onRestored }: FileHistoryPanelProps) {
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const historyQuery = trpc.files.history.useQuery({ path }, { enabled: open });
+  const revisions = historyQuery.data?.revisions ?? [];
+  const selected = revisions.find((r) => r.id === selectedId) ?? null;
+
+  const revisionQuery = trpc.files.revision.useQuery(
+    { path, revisionId: selectedId || "" },
+    { enabled: open && !!selectedId }
+  );
+
+  const restoreMutation = trpc.files.restore.useMutation({
+    onSuccess: () => {
+      utils.files.read.invalidate({ path });
+      utils.files.history.invalidate({ path });
+      showToast("Revision restored");
+      setOpen(false);
+      onRestored?.();
+    },
+    onError: (error) => {
+      if (error instanceof TRPCClientError && error.data?.code === "CONFLICT") {
+        showToast("The file has changed since it was loaded - reload before restoring", "error");
+      } else {
+        showToast(error.message || "Failed to restore revision", "error");
+      }
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded text-[12px] text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+      >
+        <History className="h-3.5 w-3.5" />
+        History
+      </button>
+
+      <DialogContent className="sm:max-w-5xl p-0 bg-zinc-900 border-zinc-700 h-[80vh] flex flex-col gap-0">
+        <DialogTitle className="sr-only">File history</DialogTitle>
+
+        <div className="px-4 py-3 border-b border-zinc-800 flex items-center gap-2">
+          <History className="h-4 w-4 text-blue-400" />
+          <h3 className="text-[14px] font-medium text-zinc-100">History</h3>
+          <span className="text-[12px] text-zinc-500 truncate">{path}</span>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Revision list */}
+          <div className="w-64 shrink-0 border-r border-zinc-800 overflow-y-auto">
+            {historyQuery.isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-3 text-[12px] text-zinc-500">
+                No saved revisions yet. Versions are kept each time the file is saved here.
+              </p>
+            ) : (
+              revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-3 py-2 border-b border-zinc-800/60 transition-colors ${
+                    revision.id === selectedId ? "bg-zinc-800" : "hover:bg-zinc-800/50"
+                  }`}
+                >
+                  <div className="text-[12px] text-zinc-200">
+                    {formatDistanceToNow(new Date(revision.savedAt), { addSuffix: true })}
+                  </div>
+                  <div className="text-[11px] text-zinc-500">
+                    {SOURCE_LABELS[revision.source]}
+                    {revision.actor && ` by ${revision.actor}`}
+                    {revision.hash === current.hash && " · current"}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Diff against current */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {!selected ? (
+              <p className="p-3 text-[12px] text-zinc-500">
+                Select a revision to compare it with the current version.
+              </p>
+            ) : (
+              <>
+                <div className="px-3 py-2 border-b border-zinc-800 flex items-center justify-between">
+                  <span className="text-[11px] text-zinc-500">
+                    Changes restoring {new Date(selected.savedAt).toLocaleString()} would make
+                  </span>
+                  <button
+                    onClick={() =>
+                      restoreMutation.mutate({ path, revisionId: selected.id, baseHash: current.hash })
+                    }
+                    disabled={restoreMutation.isPending || selected.hash === current.hash}
+                    className="flex items-center gap-1.5 px-3 py-1 rounded text-[12px] font-medium bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50"
+                  >
+                    {restoreMutation.isPending ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    )}
+                    Restore
+                  </button>
+                </div>
+                <div className="flex-1 overflow-auto">
+                  {revisionQuery.data ? (
+                    <RevisionDiff before={current.raw} after={revisionQuery.data.content} />
+                  ) : (
+                    <div className="flex justify-center py-6">
+                      <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -30,7 +30,7 @@ interface MeetingNote {
     tags?: string[];
     project?: string;           // Single project (backward compat)
     projects?: string[];        // Multiple projects
-    status: "completed" | "ongoing" | "cancelled";
+    status: "planned" | "completed" | "ongoing" | "cancelled";
   };
   content: string;
   sections: {
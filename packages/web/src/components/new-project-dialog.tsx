@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { FolderPlus, Loader2, AlertCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "./toast";
+
+const inputClass =
+  "w-full px-3 py-2 text-[13px] bg-zinc-800 border border-zinc-700 rounded text-zinc-200 placeholder:text-zinc-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+const labelClass = "text-[11px] font-medium text-zinc-400 uppercase tracking-wider";
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * "New project from template" — picks a template from the knowledge base's
+ * templates/projects/, fills in its variables and scaffolds the project.
+ */
+export function NewProjectDialog() {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+  const [open, setOpen] = useState(false);
+  const [selectedTemplate, setSelectedTemplate] = useState("");
+  const [selectedOrg, setSelectedOrg] = useState("");
+  const [name, setName] = useState("");
+  const [slug, setSlug] = useState("");
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const templatesQuery = trpc.projects.templates.useQuery(undefined, { enabled: open });
+  const orgsQuery = trpc.organizations.list.useQuery(undefined, { enabled: open });
+
+  const templates = templatesQuery.data?.templates ?? [];
+  const orgs = (orgsQuery.data?.organizations ?? []).filter((o) => o.folderPath && !o.archived);
+
+  // Default to the first template and org until one is picked
+  const templateId = selectedTemplate || templates[0]?.id || "";
+  const org = selectedOrg || orgs[0]?.slug || "";
+  const template = templates.find((t) => t.id === templateId);
+
+  const scaffoldMutation = trpc.projects.scaffold.useMutation({
+    onSuccess: (result) => {
+      setOpen(false);
+      utils.projects.invalidate();
+      utils.items.invalidate();
+      const tasks = `${result.taskIds.length} task${result.taskIds.length === 1 ? "" : "s"}`;
+      showToast(`Created ${result.path} with ${tasks}`, "success");
+      result.warnings.forEach((warning) => showToast(warning, "info"));
+      router.push(`/projects/${org}/${slug}`);
+    },
+    onError: (err) => setError(err.message || "Failed to create project"),
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setName("");
+      setSlug("");
+      setSlugEdited(false);
+      setVariables({});
+      setError(null);
+    }
+  };
+
+  const handleCreate = () => {
+    setError(null);
+    scaffoldMutation.mutate({ template: templateId, org, slug, name: name.trim(), variables });
+  };
+
+  const missingRequired = template?.variables.some((v) => v.required && !v.default && !variables[v.key]?.trim());
+  const canCreate = !!template && !!org && !!name.trim() && !!slug && !missingRequired && !scaffoldMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-1.5 px-2.5 py-1 rounded text-[11px] bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors">
+          <FolderPlus className="h-3 w-3" />
+          New from template
+        </button>
+      </DialogTrigger>
+      <DialogContent className="bg-zinc-900 border-zinc-700">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">New project from template</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-center gap-2 px-3 py-2 rounded bg-red-500/10 border border-red-500/20 text-red-400 text-[12px]">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {templatesQuery.isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="py-2 text-[12px] text-zinc-500">
+            No templates yet. Add one as a folder with a README.md under templates/projects/ in the knowledge base.
+          </p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-1.5">
+              <label className={labelClass}>Template</label>
+              <select value={templateId} onChange={(e) => setSelectedTemplate(e.target.value)} className={inputClass}>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+              {template && (
+                <p className="text-[10px] text-zinc-500">
+                  {template.description && `${template.description} · `}
+                  {template.files.length} file{template.files.length === 1 ? "" : "s"}, {template.taskCount} starter task{template.taskCount === 1 ? "" : "s"}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <label className={labelClass}>Organization</label>
+              <select value={org} onChange={(e) => setSelectedOrg(e.target.value)} className={inputClass}>
+                {orgs.map((o) => (
+                  <option key={o.slug} value={o.slug}>{o.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1.5">
+              <label className={labelClass}>Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  if (!slugEdited) setSlug(slugify(e.target.value));
+                }}
+                className={inputClass}
+                placeholder="Project name"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label className={labelClass}>Slug</label>
+              <input
+                type="text"
+                value={slug}
+                onChange={(e) => {
+                  setSlug(slugify(e.target.value));
+                  setSlugEdited(true);
+                }}
+                className={`${inputClass} font-mono`}
+                placeholder="project-slug"
+              />
+              {org && slug && (
+                <p className="text-[10px] text-zinc-500 font-mono">
+                  {orgs.find((o) => o.slug === org)?.folderPath}/projects/{slug}/
+                </p>
+              )}
+            </div>
+
+            {template?.variables.map((variable) => (
+              <div key={variable.key} className="space-y-1.5">
+                <label className={labelClass}>
+                  {variable.label}
+                  {variable.required && <span className="text-red-400"> *</span>}
+                </label>
+                <input
+                  type="text"
+                  value={variables[variable.key] ?? ""}
+                  onChange={(e) => setVariables({ ...variables, [variable.key]: e.target.value })}
+                  className={inputClass}
+                  placeholder={variable.default ?? ""}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <button
+            onClick={() => handleOpenChange(false)}
+            className="px-4 py-2 text-[13px] text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="flex items-center gap-2 px-4 py-2 text-[13px] bg-blue-600 hover:bg-blue-500 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {scaffoldMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Create Project
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -36,6 +36,10 @@ export function OrgSettingsDialog({
   const [shortName, setShortName] = useState("");
   const [description, setDescription] = useState("");
   const [color, setColor] = useState<"indigo" | "teal" | "rose" | "orange">("indigo");
+  const [billingRate, setBillingRate] = useState("");
+  const [billingCurrency, setBillingCurrency] = useState("");
+  const [folderPath, setFolderPath] = useState("");
+  const [archived, setArchived] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const utils = trpc.useUtils();
@@ -53,6 +57,10 @@ export function OrgSettingsDialog({
       setShortName(orgQuery.data.shortName || "");
       setDescription(orgQuery.data.description || "");
       setColor((orgQuery.data.color as typeof color) || "indigo");
+      setBillingRate(orgQuery.data.billingRate?.toString() || "");
+      setBillingCurrency(orgQuery.data.billingCurrency || "");
+      setFolderPath(orgQuery.data.folderPath || "");
+      setArchived(orgQuery.data.archived);
     }
   }, [orgQuery.data]);
 
@@ -77,6 +85,10 @@ export function OrgSettingsDialog({
         shortName: shortName.trim() || null,
         description: description.trim() || null,
         color: color,
+        billingRate: billingRate.trim() ? parseFloat(billingRate) : null,
+        billingCurrency: billingCurrency.trim() || null,
+        folderPath: folderPath.trim() || null,
+        archived,
       },
     });
   };
@@ -175,6 +187,59 @@ export function OrgSettingsDialog({
             </div>
           </div>
 
+          {/* Billing */}
+          <div className="space-y-1.5">
+            <label className="text-[11px] font-medium text-zinc-400 uppercase tracking-wider">
+              Billing Rate
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={billingRate}
+                onChange={(e) => setBillingRate(e.target.value)}
+                className="flex-1 px-3 py-2 text-[13px] bg-zinc-800 border border-zinc-700 rounded text-zinc-200 placeholder:text-zinc-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                placeholder="Hourly rate"
+              />
+              <input
+                type="text"
+                value={billingCurrency}
+                onChange={(e) => setBillingCurrency(e.target.value.toUpperCase())}
+                maxLength={3}
+                className="w-20 px-3 py-2 text-[13px] bg-zinc-800 border border-zinc-700 rounded text-zinc-200 placeholder:text-zinc-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                placeholder="GBP"
+              />
+            </div>
+            <p className="text-[10px] text-zinc-500">Used when generating invoices from the timecard</p>
+          </div>
+
+          {/* Folder */}
+          <div className="space-y-1.5">
+            <label className="text-[11px] font-medium text-zinc-400 uppercase tracking-wider">
+              Folder
+            </label>
+            <input
+              type="text"
+              value={folderPath}
+              onChange={(e) => setFolderPath(e.target.value)}
+              className="w-full px-3 py-2 text-[13px] font-mono bg-zinc-800 border border-zinc-700 rounded text-zinc-200 placeholder:text-zinc-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder={orgSlug}
+            />
+            <p className="text-[10px] text-zinc-500">
+              Knowledge base folder with this org&apos;s projects/ and meetings/. Leave empty to skip it when syncing.
+            </p>
+            <label className="flex items-center gap-2 pt-1 text-[12px] text-zinc-300">
+              <input
+                type="checkbox"
+                checked={archived}
+                onChange={(e) => setArchived(e.target.checked)}
+                className="rounded border-zinc-600 bg-zinc-800"
+              />
+              Archived (not synced)
+            </label>
+          </div>
+
           {/* Description */}
           <div className="space-y-1.5">
             <label className="text-[11px] font-medium text-zinc-400 uppercase tracking-wider">
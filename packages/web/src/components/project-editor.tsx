@@ -34,7 +34,8 @@ interface ProjectEditorProps {
   rawContent: string;
   frontmatter: ProjectFrontmatter;
   content: string;
-  onSave: (raw: string) => Promise<void>;
+  /** Resolves to false if the save was held back for a conflict */
+  onSave: (raw: string) => Promise<void | boolean>;
 }
 
 const statusOptions = [
@@ -158,7 +159,7 @@ export function ProjectEditor({
     try {
       const updatedContent = rebuildContent(initialContent, statusItems, lastUpdated);
       const newRaw = matter.stringify(updatedContent, frontmatter);
-      await onSave(newRaw);
+      if ((await onSave(newRaw)) === false) return;
       setHasChanges(false);
       showToast("Project saved");
     } catch (error) {
@@ -172,7 +173,7 @@ export function ProjectEditor({
   // Handle raw markdown save
   const handleMarkdownSave = useCallback(
     async (content: string) => {
-      await onSave(content);
+      if ((await onSave(content)) === false) return false;
       // Update form state from new content
       const { data, content: body } = matter(content);
       setFrontmatter(data as ProjectFrontmatter);
@@ -4,6 +4,7 @@ import { useState } from "react";
 import { Check, Clock, RefreshCcw, Loader2, Folder, SkipForward, AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
 import Link from "next/link";
 import { trpc } from "@/lib/trpc";
+import { describeRecurrence, isRRuleText } from "@kw/api-types";
 
 interface Routine {
   id: number;
@@ -12,6 +13,8 @@ interface Routine {
   priority: number | null;
   recurrenceRule: string;
   recurrenceTime: string | null;
+  recurrenceDays: string | null;
+  recurrenceMonths: string | null;
   ownerName: string | null;
   projectSlug: string | null;
   projectName: string | null;
@@ -20,6 +23,11 @@ interface Routine {
   completionCount: number;
 }
 
+// RRULE text is too long for a badge; the full description is in the tooltip
+function ruleLabel(rule: string): string {
+  return isRRuleText(rule) ? "custom" : rule;
+}
+
 interface OverdueRoutine {
   id: number;
   title: string;
@@ -154,7 +162,7 @@ export function RoutinesSection() {
                   <div className="flex-1 min-w-0">
                     <div className="text-[13px] text-amber-200">{routine.title}</div>
                     <div className="text-[11px] text-amber-400/70">
-                      {routine.daysOverdue} missed ({routine.recurrenceRule})
+                      {routine.daysOverdue} missed ({ruleLabel(routine.recurrenceRule)})
                     </div>
                   </div>
                   <button
@@ -297,8 +305,11 @@ function RoutineItem({
         </div>
       </div>
 
-      <div className="flex-shrink-0 text-[11px] text-zinc-500 capitalize">
-        {routine.recurrenceRule}
+      <div
+        className="flex-shrink-0 text-[11px] text-zinc-500 capitalize"
+        title={describeRecurrence(routine)}
+      >
+        {ruleLabel(routine.recurrenceRule)}
       </div>
 
       {/* Skip button - only show for pending routines */}
@@ -20,8 +20,10 @@ import {
   PanelLeftOpen,
   Columns2,
   Layers,
+  Filter,
 } from "lucide-react";
 import { useTerminal } from "./terminal-sidebar";
+import { trpc } from "@/lib/trpc";
 
 const navItems = [
   { href: "/", icon: LayoutDashboard, label: "Dashboard" },
@@ -49,6 +51,10 @@ export function Sidebar() {
     setSidebarCollapsed,
   } = useTerminal();
 
+  // Saved views pinned from the view page
+  const pinnedViewsQuery = trpc.views.list.useQuery({ pinnedOnly: true });
+  const pinnedViews = pinnedViewsQuery.data?.views ?? [];
+
   const isActive = (href: string) => {
     if (href === "/") {
       return pathname === "/";
@@ -90,6 +96,37 @@ export function Sidebar() {
           );
         })}
 
+        {/* Pinned saved views */}
+        {pinnedViews.length > 0 && (
+          <div className="pt-2 mt-2 border-t border-border/50 space-y-0.5">
+            {!collapsed && (
+              <div className="px-2.5 pb-1 text-[10px] uppercase tracking-wider text-zinc-600">Views</div>
+            )}
+            {pinnedViews.map((view) => {
+              const href = `/tasks/views/${encodeURIComponent(view.name)}`;
+              const active = pathname === href;
+              return (
+                <Link
+                  key={view.id}
+                  href={href}
+                  onClick={() => {
+                    if (layoutMode === "tabbed") showWebUI();
+                  }}
+                  className={`flex items-center ${collapsed ? "justify-center" : "gap-2.5"} ${collapsed ? "px-1.5" : "px-2.5"} py-1.5 rounded-md text-[13px] transition-colors ${
+                    active
+                      ? "bg-zinc-800 text-zinc-100"
+                      : "text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800/50"
+                  }`}
+                  title={collapsed ? view.name : view.query}
+                >
+                  <Filter className={`h-3.5 w-3.5 flex-shrink-0 ${active ? "text-zinc-100" : ""}`} />
+                  {!collapsed && <span className="truncate">{view.name}</span>}
+                </Link>
+              );
+            })}
+          </div>
+        )}
+
         {/* Terminal toggle */}
         <button
           onClick={toggleTerminal}
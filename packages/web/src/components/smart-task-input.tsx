@@ -5,6 +5,7 @@ import { useState, useRef, useCallback, useEffect, useImperativeHandle, forwardR
 import { cn } from "@/lib/utils";
 import { InlineDropdown, filterDropdownItems, type InlineDropdownItem } from "@/components/ui/inline-dropdown";
 import { X, User, Folder, Flag, Calendar } from "lucide-react";
+import { parseDatePhrase } from "@kw/api-types";
 
 interface Person {
   id: number;
@@ -68,94 +69,9 @@ const PRIORITY_OPTIONS: InlineDropdownItem[] = [
   { value: "4", label: "P4 - Low" },
 ];
 
-// Date keywords to recognize
-const DATE_KEYWORDS: Record<string, () => string> = {
-  'today': () => new Date().toISOString().split('T')[0],
-  'tod': () => new Date().toISOString().split('T')[0],
-  'tomorrow': () => {
-    const d = new Date();
-    d.setDate(d.getDate() + 1);
-    return d.toISOString().split('T')[0];
-  },
-  'tom': () => {
-    const d = new Date();
-    d.setDate(d.getDate() + 1);
-    return d.toISOString().split('T')[0];
-  },
-};
-
-// Get next weekday
-function getNextWeekday(dayIndex: number): string {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const currentDay = today.getDay();
-  let daysToAdd = dayIndex - currentDay;
-  if (daysToAdd <= 0) {
-    daysToAdd += 7;
-  }
-  today.setDate(today.getDate() + daysToAdd);
-  return today.toISOString().split('T')[0];
-}
-
-// Add weekdays
-const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-const WEEKDAYS_SHORT = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-WEEKDAYS.forEach((day, i) => {
-  DATE_KEYWORDS[day] = () => getNextWeekday(i);
-});
-WEEKDAYS_SHORT.forEach((day, i) => {
-  DATE_KEYWORDS[day] = () => getNextWeekday(i);
-});
-
-// Months for parsing dates like "!jan15" or "!15jan"
-const MONTHS_SHORT = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
-
 // Parse explicit date with ! prefix (returns date string or null)
 function parseExplicitDate(keyword: string): string | null {
-  const lower = keyword.toLowerCase();
-
-  // Check simple keywords first
-  if (DATE_KEYWORDS[lower]) {
-    return DATE_KEYWORDS[lower]();
-  }
-
-  // ISO format: 2026-01-15
-  if (/^\d{4}-\d{2}-\d{2}$/.test(lower)) {
-    return lower;
-  }
-
-  // Month-day format: jan15, 15jan
-  const monthDayMatch = lower.match(/^(\d{1,2})(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)$/) ||
-    lower.match(/^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)(\d{1,2})$/);
-
-  if (monthDayMatch) {
-    let monthStr: string;
-    let day: number;
-
-    if (isNaN(parseInt(monthDayMatch[1], 10))) {
-      // "jan15" format
-      monthStr = monthDayMatch[1];
-      day = parseInt(monthDayMatch[2], 10);
-    } else {
-      // "15jan" format
-      day = parseInt(monthDayMatch[1], 10);
-      monthStr = monthDayMatch[2];
-    }
-
-    const monthIndex = MONTHS_SHORT.indexOf(monthStr);
-    if (monthIndex !== -1 && day >= 1 && day <= 31) {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const result = new Date(today.getFullYear(), monthIndex, day);
-      // If the date is in the past, assume next year
-      if (result < today) {
-        result.setFullYear(result.getFullYear() + 1);
-      }
-      return result.toISOString().split('T')[0];
-    }
-  }
-
-  return null;
+  return parseDatePhrase([keyword], new Date())?.date ?? null;
 }
 
 // Format date for display
@@ -7,6 +7,8 @@ import {
   FolderPlus,
   CheckCircle,
   AlertCircle,
+  FileText,
+  GitMerge,
 } from "lucide-react";
 import {
   Dialog,
@@ -15,19 +17,48 @@ import {
 } from "@/components/ui/dialog";
 import { trpc } from "@/lib/trpc";
 
+type ReadmeKeep = "readme" | "db";
+
+export interface ReadmeResolution {
+  key: string;
+  keep: ReadmeKeep;
+}
+
 interface SyncConfirmationModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onConfirm: () => void;
+  /** Called with the chosen side for each README conflict the user settled */
+  onConfirm: (readmeResolutions: ReadmeResolution[]) => void;
   type: "all";
 }
 
+const README_CHANGE_LABELS: Record<string, string> = {
+  create_item: "new tasks from README",
+  update_item: "tasks updated from README",
+  restore_item: "deleted tasks restored",
+  delete_item: "tasks removed from README",
+  create_line: "lines put back in README",
+  update_line: "README lines updated",
+  delete_line: "README lines for deleted tasks",
+};
+
+const README_CONFLICT_LABELS: Record<string, string> = {
+  both_changed: "Changed in both",
+  deleted_in_readme: "Removed from README, task changed",
+  deleted_in_db: "Task deleted, README line changed",
+};
+
+function describeState(state: { title: string; status: string } | null) {
+  return state ? `${state.title} (${state.status.replace("_", " ")})` : "Deleted";
+}
+
 export function SyncConfirmationModal({
   open,
   onOpenChange,
   onConfirm,
 }: SyncConfirmationModalProps) {
   const [confirming, setConfirming] = useState(false);
+  const [choices, setChoices] = useState<Record<string, ReadmeKeep>>({});
 
   // Fetch preview using tRPC
   const previewQuery = trpc.sync.allPreview.useQuery(undefined, {
@@ -37,18 +68,28 @@ export function SyncConfirmationModal({
   useEffect(() => {
     if (!open) {
       setConfirming(false);
+      setChoices({});
     }
   }, [open]);
 
   const handleConfirm = async () => {
     setConfirming(true);
-    await onConfirm();
+    await onConfirm(Object.entries(choices).map(([key, keep]) => ({ key, keep })));
     setConfirming(false);
     onOpenChange(false);
   };
 
   const preview = previewQuery.data;
-  const hasChanges = preview && preview.projects.count > 0;
+  const readmeConflicts = preview?.readmes.conflicts ?? [];
+  const readmeChangeCounts = (preview?.readmes.changes ?? []).reduce<Record<string, number>>(
+    (counts, change) => ({ ...counts, [change.kind]: (counts[change.kind] || 0) + 1 }),
+    {}
+  );
+  const hasChanges = preview && (
+    preview.projects.count > 0 ||
+    preview.readmes.changes.length > 0 ||
+    readmeConflicts.length > 0
+  );
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -117,8 +158,66 @@ export function SyncConfirmationModal({
                     </div>
                   </div>
 
+                  {Object.keys(readmeChangeCounts).length > 0 && (
+                    <div className="p-3 rounded-lg bg-zinc-800/50 border border-zinc-700">
+                      <div className="flex items-center gap-2 mb-2">
+                        <FileText className="h-4 w-4 text-emerald-400" />
+                        <span className="text-[11px] text-zinc-500 uppercase">README tasks</span>
+                      </div>
+                      <ul className="space-y-0.5 text-[12px] text-zinc-300">
+                        {Object.entries(readmeChangeCounts).map(([kind, count]) => (
+                          <li key={kind}>
+                            {count} {README_CHANGE_LABELS[kind] ?? kind}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {readmeConflicts.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <GitMerge className="h-4 w-4 text-amber-400" />
+                        <span className="text-[12px] text-zinc-300">
+                          {readmeConflicts.length} README conflict{readmeConflicts.length === 1 ? "" : "s"}
+                        </span>
+                        <span className="text-[11px] text-zinc-500">
+                          Unresolved conflicts are skipped
+                        </span>
+                      </div>
+                      {readmeConflicts.map((conflict) => (
+                        <div
+                          key={conflict.key}
+                          className="p-2.5 rounded border border-amber-900/50 bg-amber-950/20 text-[12px]"
+                        >
+                          <div className="flex items-center justify-between gap-2 mb-1.5">
+                            <span className="text-zinc-400 truncate">
+                              {README_CONFLICT_LABELS[conflict.kind]} · T-{conflict.itemId} · {conflict.path}
+                            </span>
+                          </div>
+                          {([
+                            ["readme", "README", conflict.readme],
+                            ["db", "Task", conflict.db],
+                          ] as const).map(([keep, label, state]) => (
+                            <label key={keep} className="flex items-center gap-2 py-0.5 cursor-pointer">
+                              <input
+                                type="radio"
+                                name={conflict.key}
+                                checked={choices[conflict.key] === keep}
+                                onChange={() => setChoices((c) => ({ ...c, [conflict.key]: keep }))}
+                              />
+                              <span className="w-14 text-zinc-500">{label}</span>
+                              <span className="text-zinc-200">{describeState(state)}</span>
+                            </label>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <p className="text-[12px] text-zinc-500">
-                    This will sync projects (including workstreams) from the filesystem to the database.
+                    This will sync projects (including workstreams) from the filesystem to the database,
+                    and README checkboxes and status lines with their tasks.
                     Meeting sync is done individually via the web interface.
                   </p>
                 </>
@@ -145,7 +244,7 @@ export function SyncConfirmationModal({
             ) : (
               <RefreshCw className="h-3 w-3" />
             )}
-            {hasChanges ? "Sync Workstreams" : "Nothing to sync"}
+            {hasChanges ? "Sync All" : "Nothing to sync"}
           </button>
         </div>
       </DialogContent>
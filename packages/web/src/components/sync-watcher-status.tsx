@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { Eye, EyeOff, Loader2, Pause, Play } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "./toast";
+
+interface RunSummary {
+  meetings: { synced: number; tasksCreated: number; tasksUpdated: number };
+  projects: { created: number; updated: number };
+  readmes: { changes: number; conflicts: number };
+}
+
+function summarize(run: RunSummary): string {
+  const parts: string[] = [];
+  if (run.meetings.synced) {
+    parts.push(`${run.meetings.tasksCreated} tasks created, ${run.meetings.tasksUpdated} updated from meetings`);
+  }
+  if (run.projects.created || run.projects.updated) {
+    parts.push(`${run.projects.created} projects added, ${run.projects.updated} updated`);
+  }
+  if (run.readmes.changes) parts.push(`${run.readmes.changes} README changes`);
+  if (run.readmes.conflicts) parts.push(`${run.readmes.conflicts} README conflicts`);
+  return parts.join(" · ") || "No changes";
+}
+
+/**
+ * Header button showing whether the server is syncing file changes in the
+ * background. Opens a dialog with the recent run log and pause/resume.
+ */
+export function SyncWatcherStatus() {
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+  const [open, setOpen] = useState(false);
+
+  const statusQuery = trpc.sync.watcherStatus.useQuery(undefined, {
+    refetchInterval: open ? 3000 : 30000,
+  });
+  const status = statusQuery.data;
+
+  const mutationOptions = {
+    onSuccess: () => utils.sync.watcherStatus.invalidate(),
+    onError: (error: { message: string }) => showToast(error.message, "error"),
+  };
+  const pauseMutation = trpc.sync.pauseWatcher.useMutation(mutationOptions);
+  const resumeMutation = trpc.sync.resumeWatcher.useMutation(mutationOptions);
+
+  if (!status?.watching) return null;
+
+  const label = status.running ? "Syncing" : status.paused ? "Auto-sync paused" : "Auto-sync";
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <button
+        onClick={() => setOpen(true)}
+        className={`flex items-center gap-1.5 px-2 sm:px-3 py-1.5 text-[11px] sm:text-[13px] rounded-md transition-colors ${
+          status.paused
+            ? "bg-amber-900/30 hover:bg-amber-900/50 border border-amber-800/50 text-amber-300"
+            : "bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+        }`}
+        title={status.lastRunAt ? `Last sync ${formatDistanceToNow(new Date(status.lastRunAt), { addSuffix: true })}` : "Watching for file changes"}
+      >
+        {status.running ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : status.paused ? (
+          <EyeOff className="h-4 w-4" />
+        ) : (
+          <Eye className="h-4 w-4" />
+        )}
+        <span className="hidden sm:inline">{label}</span>
+      </button>
+
+      <DialogContent className="sm:max-w-2xl p-0 bg-zinc-900 border-zinc-700 max-h-[80vh] flex flex-col gap-0">
+        <DialogTitle className="sr-only">Background sync</DialogTitle>
+
+        <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+          <div>
+            <h3 className="text-[14px] font-medium text-zinc-100">Background sync</h3>
+            <p className="text-[12px] text-zinc-500">
+              Meeting, project and README files are synced when they change on disk.
+              {status.pending.length > 0 && ` ${status.pending.length} file${status.pending.length === 1 ? "" : "s"} waiting.`}
+            </p>
+          </div>
+          {status.paused ? (
+            <button
+              onClick={() => resumeMutation.mutate()}
+              disabled={resumeMutation.isPending}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded text-[12px] font-medium bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50"
+            >
+              <Play className="h-3.5 w-3.5" />
+              Resume
+            </button>
+          ) : (
+            <button
+              onClick={() => pauseMutation.mutate()}
+              disabled={pauseMutation.isPending}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded text-[12px] bg-zinc-800 text-zinc-300 hover:bg-zinc-700 disabled:opacity-50"
+            >
+              <Pause className="h-3.5 w-3.5" />
+              Pause
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {status.log.length === 0 ? (
+            <p className="p-4 text-[12px] text-zinc-500">No files have changed since the server started.</p>
+          ) : (
+            status.log.map((run) => (
+              <div key={run.id} className="px-4 py-2 border-b border-zinc-800/60">
+                <div className="flex items-center justify-between text-[12px]">
+                  <span className={run.errors.length > 0 ? "text-red-400" : "text-zinc-200"}>
+                    {summarize(run)}
+                  </span>
+                  <span className="text-[11px] text-zinc-500">
+                    {formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })}
+                  </span>
+                </div>
+                <div className="mt-0.5 text-[11px] text-zinc-500 font-mono truncate">
+                  {run.paths.join(", ")}
+                </div>
+                {run.errors.map((error, i) => (
+                  <div key={i} className="mt-0.5 text-[11px] text-red-400/80">{error}</div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -29,6 +29,7 @@ import {
   PenLine,
   FolderSync,
   CircleDot,
+  Timer,
 } from "lucide-react";
 import {
   Dialog,
@@ -48,12 +49,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { parseTaskInput, formatDisplayDate, getPriorityBorderColor } from "@/lib/date-parser";
+import { parseTaskInput, formatDisplayDate, formatMinutes, getPriorityBorderColor } from "@/lib/date-parser";
 import { useTerminal } from "./terminal-sidebar";
 import { buildContextString } from "@/lib/prompts";
 import { MeetingLink } from "./meeting-link";
 import { Combobox } from "@/components/ui/combobox";
 import { trpc } from "@/lib/trpc";
+import { useUndoToast } from "@/hooks/use-undo-toast";
 import { SmartTaskInput, type SmartTaskInputRef } from "@/components/smart-task-input";
 
 // Relative time formatting
@@ -148,6 +150,7 @@ export interface TaskDetail {
   checkinBy: string | null;
   checkinId: number | null;
   targetPeriod: string | null;
+  estimateMinutes: number | null;
   ownerId: number | null;
   ownerName: string | null;
   projectId: number | null;
@@ -205,6 +208,7 @@ export function transformTaskData(data: any): TaskDetail {
     checkinBy: data.checkinBy ?? null,
     checkinId: data.checkinId ?? null,
     targetPeriod: data.targetPeriod ?? null,
+    estimateMinutes: data.estimateMinutes ?? null,
     ownerId: data.ownerId ?? null,
     ownerName: data.ownerName ?? null,
     projectId: data.projectId ?? null,
@@ -362,6 +366,7 @@ export function TaskDetailContent({ task, onClose, onUpdate, onRefetchTask }: Ta
   const [askAIOpen, setAskAIOpen] = useState(false);
   const [askAIPrompt, setAskAIPrompt] = useState("");
   const terminal = useTerminal();
+  const showUndoToast = useUndoToast({ onUndone: onUpdate });
 
   // tRPC mutations
   const updateMutation = trpc.items.update.useMutation({
@@ -375,7 +380,8 @@ export function TaskDetailContent({ task, onClose, onUpdate, onRefetchTask }: Ta
   });
 
   const deleteMutation = trpc.items.delete.useMutation({
-    onSuccess: () => {
+    onSuccess: (result) => {
+      showUndoToast(`Deleted ${result.displayId}`);
       onUpdate();
       onClose();
     },
@@ -888,6 +894,13 @@ function DetailsTab({ task, onUpdate, onRefetchTask, onSwitchToActivity }: { tas
           </MetaItem>
         )}
 
+        {/* Estimate */}
+        {task.estimateMinutes && (
+          <MetaItem icon={Timer} label="Estimate">
+            {formatMinutes(task.estimateMinutes)}
+          </MetaItem>
+        )}
+
         {/* Target Period */}
         {task.targetPeriod && (
           <MetaItem icon={Clock} label="Target">
@@ -1290,6 +1303,7 @@ function EditTab({
   const [description, setDescription] = useState(task.description || "");
   const [status, setStatus] = useState(task.status);
   const [dueDate, setDueDate] = useState(task.dueDate || "");
+  const [estimate, setEstimate] = useState(task.estimateMinutes ? String(task.estimateMinutes) : "");
   const [newCheckinDate, setNewCheckinDate] = useState("");
   const [priority, setPriority] = useState<string>(task.priority ? String(task.priority) : "_none");
   const [projectId, setProjectId] = useState<string>(task.projectId ? String(task.projectId) : "_none");
@@ -1394,6 +1408,7 @@ function EditTab({
           description: description || null,
           status: status as 'pending' | 'in_progress' | 'complete' | 'blocked' | 'cancelled' | 'deferred',
           dueDate: dueDate || null,
+          estimateMinutes: parseInt(estimate, 10) > 0 ? parseInt(estimate, 10) : null,
           priority: priority && priority !== "_none" ? parseInt(priority, 10) : null,
           projectId: projectId && projectId !== "_none" ? parseInt(projectId, 10) : null,
           ownerId: ownerId && ownerId !== "_none" ? parseInt(ownerId, 10) : null,
@@ -1584,6 +1599,23 @@ function EditTab({
         </div>
       </div>
 
+      {/* Estimate */}
+      <div>
+        <label className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1 flex items-center gap-1">
+          <Timer className="h-3 w-3" />
+          Estimate (minutes)
+        </label>
+        <input
+          type="number"
+          min={0}
+          step={15}
+          value={estimate}
+          onChange={(e) => setEstimate(e.target.value)}
+          placeholder="e.g. 45"
+          className="w-32 h-8 px-2 text-[12px] bg-zinc-800 border border-zinc-700 rounded text-zinc-200 placeholder:text-zinc-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
       {/* Check-ins (for following up on tasks) */}
       <div>
         <label className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1 flex items-center gap-1">
@@ -1,12 +1,13 @@
 "use client";
 
-import { Eye, EyeOff, X } from "lucide-react";
+import { Eye, EyeOff, X, ListChecks } from "lucide-react";
 import { useState, useCallback } from "react";
 import type { Task } from "@/lib/task-db";
 import { useRouter } from "next/navigation";
 import { CreateTaskDialog } from "./create-task-dialog";
 import { TaskRow } from "./task-list/task-row";
 import { CheckInRow } from "./task-list/checkin-row";
+import { BulkActionBar } from "./task-list/bulk-action-bar";
 import {
   statusConfig,
   DEFAULT_OWNER_NAME,
@@ -67,6 +68,26 @@ export function TaskList({
   // If toggle is hidden, assume parent already filtered - don't filter again
   const [showCompleted, setShowCompleted] = useState(showCompletedToggle ? defaultShowCompleted : true);
   const [ownerFilter, setOwnerFilter] = useState<string | null>(defaultOwnerFilter);
+  // Multi-select for bulk actions
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  const toggleSelected = useCallback((id: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const stopSelecting = useCallback(() => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  }, []);
 
   // Filter tasks (only filter completed if we're managing the toggle ourselves)
   const filteredTasks = tasks.filter((task) => {
@@ -122,7 +143,7 @@ export function TaskList({
   return (
     <div>
       {/* Toolbar */}
-      {(showCompletedToggle || showCreateButton) && (
+      {(showCompletedToggle || showCreateButton || interactive) && (
         <div className="flex items-center gap-3 mb-2 text-[11px]">
           {showCreateButton && (
             <CreateTaskDialog
@@ -157,22 +178,65 @@ export function TaskList({
               {ownerFilter}
             </button>
           )}
+          {interactive && (
+            <>
+              <button
+                onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+                className={`flex items-center gap-1 px-2 py-1 rounded transition-colors ${
+                  selecting
+                    ? "bg-zinc-700 text-zinc-200"
+                    : "text-zinc-500 hover:text-zinc-300"
+                }`}
+              >
+                <ListChecks className="h-3 w-3" />
+                Select
+              </button>
+              {selecting && (
+                <button
+                  onClick={() => setSelectedIds(new Set(filteredTasks.map((t) => t.id)))}
+                  className="px-2 py-1 rounded text-zinc-500 hover:text-zinc-300 transition-colors"
+                >
+                  All ({filteredTasks.length})
+                </button>
+              )}
+            </>
+          )}
         </div>
       )}
 
+      {selecting && selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedIds={[...selectedIds]}
+          onClear={() => setSelectedIds(new Set())}
+          onDone={handleRefresh}
+        />
+      )}
+
       <div className="space-y-1.5">
         {displayItems.map((item, index) =>
           item.type === "task" ? (
-            <TaskRow
-              key={`task-${item.task.id}`}
-              task={item.task}
-              showProject={showProject}
-              showMeeting={showMeeting}
-              compact={compact}
-              interactive={interactive}
-              showOwnerInTitle={highlightOtherOwners && item.task.ownerName !== DEFAULT_OWNER_NAME}
-              onRefresh={handleRefresh}
-            />
+            <div key={`task-${item.task.id}`} className={selecting ? "flex items-start gap-2" : undefined}>
+              {selecting && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(item.task.id)}
+                  onChange={() => toggleSelected(item.task.id)}
+                  className="mt-2.5 h-3.5 w-3.5 flex-shrink-0 accent-blue-500"
+                  aria-label={`Select ${item.task.title}`}
+                />
+              )}
+              <div className={selecting ? "flex-1 min-w-0" : undefined}>
+                <TaskRow
+                  task={item.task}
+                  showProject={showProject}
+                  showMeeting={showMeeting}
+                  compact={compact}
+                  interactive={interactive}
+                  showOwnerInTitle={highlightOtherOwners && item.task.ownerName !== DEFAULT_OWNER_NAME}
+                  onRefresh={handleRefresh}
+                />
+              </div>
+            </div>
           ) : (
             <CheckInRow
               key={`checkin-${item.task.id}-${index}`}
@@ -0,0 +1,153 @@
+"use client";
+
+import { CheckCircle2, FolderInput, Tag, Trash2, X, Loader2 } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "@/components/toast";
+import { useUndoToast } from "@/hooks/use-undo-toast";
+import { statusConfig } from "./config";
+import type { TaskStatus } from "./use-task-mutations";
+
+export interface BulkActionBarProps {
+  selectedIds: number[];
+  onClear: () => void;
+  onDone: () => void;
+}
+
+const selectClass =
+  "px-2 py-1 bg-zinc-900 border border-zinc-700 rounded text-[11px] text-zinc-300 focus:outline-none focus:border-zinc-500";
+
+/**
+ * Actions for the tasks selected in a TaskList. Each action is one bulk
+ * mutation, so it can be undone from the toast in one step.
+ */
+export function BulkActionBar({ selectedIds, onClear, onDone }: BulkActionBarProps) {
+  const { showToast } = useToast();
+  const showUndoToast = useUndoToast({ onUndone: onDone });
+  const utils = trpc.useUtils();
+
+  const projectsQuery = trpc.projects.list.useQuery(undefined);
+  const tagsQuery = trpc.tags.list.useQuery(undefined);
+
+  const count = selectedIds.length;
+  const noun = count === 1 ? "task" : "tasks";
+
+  const handlers = (verb: string) => ({
+    onSuccess: () => {
+      utils.items.invalidate();
+      showUndoToast(`${verb} ${count} ${noun}`);
+      onClear();
+      onDone();
+    },
+    onError: (error: { message: string }) => showToast(error.message, "error"),
+  });
+
+  const completeMutation = trpc.items.bulkComplete.useMutation(handlers("Completed"));
+  const updateMutation = trpc.items.bulkUpdate.useMutation(handlers("Updated"));
+  const moveMutation = trpc.items.bulkMove.useMutation(handlers("Moved"));
+  const tagMutation = trpc.items.bulkTag.useMutation(handlers("Tagged"));
+  const deleteMutation = trpc.items.bulkDelete.useMutation(handlers("Deleted"));
+
+  const isPending =
+    completeMutation.isPending ||
+    updateMutation.isPending ||
+    moveMutation.isPending ||
+    tagMutation.isPending ||
+    deleteMutation.isPending;
+
+  const projects = projectsQuery.data?.projects || [];
+  const tags = tagsQuery.data || [];
+
+  return (
+    <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 mb-2 px-2 py-1.5 rounded-lg bg-zinc-800/90 border border-zinc-700 backdrop-blur-sm text-[11px]">
+      <span className="text-zinc-300 font-medium">
+        {count} selected
+      </span>
+
+      <button
+        onClick={() => completeMutation.mutate({ ids: selectedIds })}
+        disabled={isPending}
+        className="flex items-center gap-1 px-2 py-1 rounded text-emerald-400 hover:bg-emerald-600/20 disabled:opacity-50"
+      >
+        <CheckCircle2 className="h-3 w-3" />
+        Complete
+      </button>
+
+      <select
+        value=""
+        disabled={isPending}
+        onChange={(e) =>
+          updateMutation.mutate({ ids: selectedIds, data: { status: e.target.value as TaskStatus } })
+        }
+        className={selectClass}
+      >
+        <option value="" disabled>Set status…</option>
+        {Object.entries(statusConfig).map(([value, config]) => (
+          <option key={value} value={value}>{config.label}</option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1">
+        <FolderInput className="h-3 w-3 text-zinc-500" />
+        <select
+          value=""
+          disabled={isPending}
+          onChange={(e) =>
+            moveMutation.mutate({
+              ids: selectedIds,
+              projectId: e.target.value === "_none" ? null : parseInt(e.target.value, 10),
+            })
+          }
+          className={selectClass}
+        >
+          <option value="" disabled>Move to…</option>
+          <option value="_none">No project</option>
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.isGeneral ? `${p.org} (General)` : p.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex items-center gap-1">
+          <Tag className="h-3 w-3 text-zinc-500" />
+          <select
+            value=""
+            disabled={isPending}
+            onChange={(e) => tagMutation.mutate({ ids: selectedIds, add: [e.target.value] })}
+            className={selectClass}
+          >
+            <option value="" disabled>Add tag…</option>
+            {tags.map((t) => (
+              <option key={t.id} value={t.name}>{t.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <button
+        onClick={() => {
+          if (confirm(`Delete ${count} ${noun}?`)) {
+            deleteMutation.mutate({ ids: selectedIds });
+          }
+        }}
+        disabled={isPending}
+        className="flex items-center gap-1 px-2 py-1 rounded text-red-400 hover:bg-red-600/20 disabled:opacity-50"
+      >
+        <Trash2 className="h-3 w-3" />
+        Delete
+      </button>
+
+      {isPending && <Loader2 className="h-3 w-3 animate-spin text-zinc-400" />}
+
+      <button
+        onClick={onClear}
+        className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700"
+      >
+        <X className="h-3 w-3" />
+        Clear
+      </button>
+    </div>
+  );
+}
@@ -8,4 +8,5 @@ export * from "./config";
 export * from "./use-task-mutations";
 export * from "./task-row";
 export * from "./checkin-row";
+export * from "./bulk-action-bar";
 export * from "./task-list-connected";
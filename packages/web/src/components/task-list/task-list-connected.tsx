@@ -127,7 +127,7 @@ function taskToItem(task: Task): ItemWithRelations {
 /**
  * Transform ItemWithRelations (tRPC type) to Task (for TaskList component)
  */
-function itemToTask(item: ItemWithRelations): Task {
+export function itemToTask(item: ItemWithRelations): Task {
   return {
     id: item.id,
     displayId: item.displayId,
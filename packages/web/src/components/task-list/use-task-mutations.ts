@@ -8,6 +8,7 @@
 
 import { useState, useCallback } from "react";
 import { trpc } from "@/lib/trpc";
+import { useUndoToast } from "@/hooks/use-undo-toast";
 
 export type TaskStatus =
   | "pending"
@@ -61,6 +62,7 @@ export function useTaskMutations(
 ): UseTaskMutationsResult {
   const { onSuccess, onError } = options;
   const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const showUndoToast = useUndoToast({ onUndone: onSuccess });
 
   // Auto-clear feedback after 3 seconds
   const setFeedbackWithAutoClear = useCallback((newFeedback: Feedback) => {
@@ -76,6 +78,10 @@ export function useTaskMutations(
         type: "success",
         message: `Marked as ${statusDisplay}`,
       });
+      // Closing a task removes it from most lists, so offer a way back
+      if (variables.data.status === "complete" || variables.data.status === "cancelled") {
+        showUndoToast(`Marked as ${statusDisplay}`);
+      }
       onSuccess?.();
     },
     onError: (error) => {
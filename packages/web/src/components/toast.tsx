@@ -5,14 +5,20 @@ import { Check, X, AlertCircle, Info } from "lucide-react";
 
 type ToastType = "success" | "error" | "info";
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface Toast {
   id: string;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  showToast: (message: string, type?: ToastType) => void;
+  showToast: (message: string, type?: ToastType, action?: ToastAction) => void;
 }
 
 const ToastContext = createContext<ToastContextType | null>(null);
@@ -29,13 +35,15 @@ export function useToast() {
 }
 
 const TOAST_DURATION = 3000;
+// Long enough to notice and hit the action button
+const ACTION_TOAST_DURATION = 8000;
 
 export function ToastProvider({ children }: { children: React.ReactNode }) {
   const [toasts, setToasts] = useState<Toast[]>([]);
 
-  const showToast = useCallback((message: string, type: ToastType = "success") => {
+  const showToast = useCallback((message: string, type: ToastType = "success", action?: ToastAction) => {
     const id = `toast-${Date.now()}`;
-    setToasts((prev) => [...prev, { id, message, type }]);
+    setToasts((prev) => [...prev, { id, message, type, action }]);
   }, []);
 
   const removeToast = useCallback((id: string) => {
@@ -66,10 +74,10 @@ function ToastItem({ toast, onRemove }: { toast: Toast; onRemove: () => void })
   useEffect(() => {
     const timer = setTimeout(() => {
       setIsLeaving(true);
-    }, TOAST_DURATION);
+    }, toast.action ? ACTION_TOAST_DURATION : TOAST_DURATION);
 
     return () => clearTimeout(timer);
-  }, []);
+  }, [toast.action]);
 
   useEffect(() => {
     if (isLeaving) {
@@ -106,6 +114,17 @@ function ToastItem({ toast, onRemove }: { toast: Toast; onRemove: () => void })
     >
       <Icon className={`h-4 w-4 flex-shrink-0 ${iconColors[toast.type]}`} />
       <span className="text-[13px]">{toast.message}</span>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action?.onClick();
+            setIsLeaving(true);
+          }}
+          className="px-1.5 py-0.5 rounded text-[12px] font-medium underline underline-offset-2 hover:bg-white/10"
+        >
+          {toast.action.label}
+        </button>
+      )}
       <button
         onClick={() => setIsLeaving(true)}
         className="p-0.5 rounded hover:bg-white/10 ml-1"
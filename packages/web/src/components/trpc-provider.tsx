@@ -8,10 +8,24 @@
  */
 
 import { useState } from "react";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryCache, MutationCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { TRPCClientError } from "@trpc/client";
 import { trpc, getTRPCClient } from "@/lib/trpc";
+import { clearAuthToken, redirectToLogin } from "@/lib/auth";
 import { useRealtimeSync } from "@/hooks/use-realtime-sync";
 
+function isUnauthorized(error: unknown): boolean {
+  return error instanceof TRPCClientError && error.data?.code === "UNAUTHORIZED";
+}
+
+// The task service requires a login (AUTH_PASSPHRASE) and our token is missing or expired
+function handleAuthError(error: unknown) {
+  if (isUnauthorized(error)) {
+    clearAuthToken();
+    redirectToLogin();
+  }
+}
+
 // Component to initialize real-time sync (must be inside QueryClientProvider)
 function RealtimeSync() {
   useRealtimeSync();
@@ -22,13 +36,15 @@ export function TRPCProvider({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(
     () =>
       new QueryClient({
+        queryCache: new QueryCache({ onError: handleAuthError }),
+        mutationCache: new MutationCache({ onError: handleAuthError }),
         defaultOptions: {
           queries: {
             // With SSR, we usually want to set some default staleTime
             // above 0 to avoid refetching immediately on the client
             staleTime: 5 * 1000,
-            // Retry failed requests up to 3 times
-            retry: 3,
+            // Retry failed requests up to 3 times (a missing login won't fix itself)
+            retry: (failureCount, error) => !isUnauthorized(error) && failureCount < 3,
             // Refetch when window regains focus (get fresh data when returning)
             refetchOnWindowFocus: true,
             // IMPORTANT: Stop polling when window is in background (battery saver)
@@ -0,0 +1,271 @@
+"use client";
+
+import { useState } from "react";
+import { Webhook, Plus, Trash2, Send, RotateCcw, Copy } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "@/components/toast";
+
+const ENTITY_OPTIONS = ["items", "projects", "people", "organizations", "checkins", "routines", "meetings"] as const;
+type Entity = (typeof ENTITY_OPTIONS)[number];
+
+const DELIVERY_STATUS_COLORS: Record<string, string> = {
+  success: "text-green-400",
+  retrying: "text-yellow-400",
+  pending: "text-zinc-400",
+  failed: "text-red-400",
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/**
+ * Webhook registrations and their delivery log, shown on the system page
+ */
+export function WebhooksPanel() {
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [entities, setEntities] = useState<Set<Entity>>(new Set());
+  // Secret of the most recently created webhook, shown once so it can be copied
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+
+  const webhooksQuery = trpc.webhooks.list.useQuery();
+  const deliveriesQuery = trpc.webhooks.deliveries.useQuery({ limit: 25 }, { refetchInterval: 10000 });
+
+  const refresh = () => utils.webhooks.invalidate();
+
+  const createMutation = trpc.webhooks.create.useMutation({
+    onSuccess: (webhook) => {
+      setNewSecret(webhook.secret);
+      setShowForm(false);
+      setName("");
+      setUrl("");
+      setEntities(new Set());
+      refresh();
+    },
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const updateMutation = trpc.webhooks.update.useMutation({
+    onSuccess: refresh,
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const deleteMutation = trpc.webhooks.delete.useMutation({
+    onSuccess: refresh,
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const testMutation = trpc.webhooks.test.useMutation({
+    onSuccess: (delivery) => {
+      showToast(
+        delivery.status === "success" ? "Ping delivered" : `Ping failed: ${delivery.error}`,
+        delivery.status === "success" ? "success" : "error"
+      );
+      refresh();
+    },
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const redeliverMutation = trpc.webhooks.redeliver.useMutation({
+    onSuccess: refresh,
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  const toggleEntity = (entity: Entity) => {
+    setEntities((prev) => {
+      const next = new Set(prev);
+      if (next.has(entity)) {
+        next.delete(entity);
+      } else {
+        next.add(entity);
+      }
+      return next;
+    });
+  };
+
+  const webhooks = webhooksQuery.data?.webhooks || [];
+  const deliveries = deliveriesQuery.data?.deliveries || [];
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-medium flex items-center gap-2">
+          <Webhook className="h-4 w-4" />
+          Webhooks ({webhooks.length})
+        </h2>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+        >
+          <Plus className="h-3 w-3" />
+          Add
+        </button>
+      </div>
+
+      {newSecret && (
+        <div className="mb-3 p-3 rounded-lg bg-blue-900/20 border border-blue-500/30 text-xs text-blue-300">
+          <div className="mb-1">Signing secret (verify the X-KW-Signature header with HMAC-SHA256):</div>
+          <div className="flex items-center gap-2">
+            <code className="px-1.5 py-0.5 bg-zinc-900 rounded font-mono text-zinc-200 break-all">{newSecret}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newSecret)}
+              className="p-1 rounded hover:bg-zinc-800"
+              title="Copy"
+            >
+              <Copy className="h-3 w-3" />
+            </button>
+            <button onClick={() => setNewSecret(null)} className="ml-auto text-zinc-500 hover:text-zinc-300">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          className="mb-3 p-3 rounded-lg bg-zinc-800/30 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate({
+              name: name.trim(),
+              url: url.trim(),
+              entities: entities.size > 0 ? [...entities] : undefined,
+            });
+          }}
+        >
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              className="w-40 px-2 py-1.5 text-xs bg-zinc-900 border border-zinc-700 rounded focus:outline-none focus:border-zinc-500"
+            />
+            <input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/kw"
+              className="flex-1 px-2 py-1.5 text-xs font-mono bg-zinc-900 border border-zinc-700 rounded focus:outline-none focus:border-zinc-500"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+            <span className="text-zinc-500">Entities (none = all):</span>
+            {ENTITY_OPTIONS.map((entity) => (
+              <label key={entity} className="flex items-center gap-1">
+                <input type="checkbox" checked={entities.has(entity)} onChange={() => toggleEntity(entity)} />
+                {entity}
+              </label>
+            ))}
+            <button
+              type="submit"
+              disabled={!name.trim() || !url.trim() || createMutation.isPending}
+              className="ml-auto px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+            >
+              Create
+            </button>
+          </div>
+        </form>
+      )}
+
+      {webhooks.length === 0 ? (
+        <div className="p-3 text-center text-zinc-500 text-sm bg-zinc-800/30 rounded-lg">
+          No webhooks registered
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {webhooks.map((webhook) => (
+            <div key={webhook.id} className="flex items-center gap-3 p-2 rounded-lg bg-zinc-800/30 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={webhook.active ? "text-zinc-300" : "text-zinc-500 line-through"}>{webhook.name}</span>
+                  {webhook.lastDelivery && (
+                    <span className={`text-xs ${DELIVERY_STATUS_COLORS[webhook.lastDelivery.status]}`}>
+                      {webhook.lastDelivery.status}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-zinc-500 font-mono truncate">{webhook.url}</div>
+                <div className="text-xs text-zinc-600">
+                  {webhook.entities?.join(", ") || "all entities"} · {webhook.mutations?.join(", ") || "all mutations"}
+                </div>
+              </div>
+              <button
+                onClick={() => updateMutation.mutate({ id: webhook.id, data: { active: !webhook.active } })}
+                className="px-2 py-1 rounded text-xs text-zinc-400 hover:bg-zinc-700"
+              >
+                {webhook.active ? "Disable" : "Enable"}
+              </button>
+              <button
+                onClick={() => testMutation.mutate({ id: webhook.id })}
+                disabled={testMutation.isPending}
+                className="p-1 rounded text-zinc-400 hover:bg-zinc-700 disabled:opacity-50"
+                title="Send test ping"
+              >
+                <Send className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete webhook "${webhook.name}" and its delivery log?`)) {
+                    deleteMutation.mutate({ id: webhook.id });
+                  }
+                }}
+                className="p-1 rounded text-red-400 hover:bg-red-600/20"
+                title="Delete"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {deliveries.length > 0 && (
+        <div className="mt-3">
+          <h3 className="text-xs font-medium text-zinc-400 mb-2">Recent deliveries</h3>
+          <div className="rounded-lg bg-zinc-800/30 overflow-hidden">
+            <table className="w-full text-xs">
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id} className="border-t border-zinc-800 first:border-t-0">
+                    <td className="px-2 py-1.5 text-zinc-500 whitespace-nowrap">{formatTime(delivery.createdAt)}</td>
+                    <td className="px-2 py-1.5 text-zinc-300">{delivery.webhookName}</td>
+                    <td className="px-2 py-1.5 font-mono text-zinc-400">{delivery.event}</td>
+                    <td className={`px-2 py-1.5 ${DELIVERY_STATUS_COLORS[delivery.status]}`}>
+                      {delivery.status}
+                      {delivery.attempts > 1 && ` (${delivery.attempts} attempts)`}
+                    </td>
+                    <td className="px-2 py-1.5 text-zinc-500 truncate max-w-[200px]" title={delivery.error || undefined}>
+                      {delivery.error || delivery.responseStatus}
+                      {delivery.status === "retrying" && delivery.nextAttemptAt && ` · next ${formatTime(delivery.nextAttemptAt)}`}
+                    </td>
+                    <td className="px-2 py-1.5 text-right">
+                      {delivery.status !== "success" && (
+                        <button
+                          onClick={() => redeliverMutation.mutate({ id: delivery.id })}
+                          disabled={redeliverMutation.isPending}
+                          className="p-1 rounded text-zinc-400 hover:bg-zinc-700 disabled:opacity-50"
+                          title="Redeliver"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,28 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
-import { Calendar, ArrowRight, Bell } from "lucide-react";
+import { Calendar, ArrowRight, Bell, Repeat, Settings2, Loader2 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
-import { format, isTomorrow, parseISO, addDays, isToday } from "date-fns";
+import { format, isTomorrow, parseISO, addDays } from "date-fns";
+import type { PlanDay, PlannedTask, PlannedCheckin, PlanSuggestion } from "@kw/api-types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { formatMinutes } from "@/lib/date-parser";
 import { useTaskModal } from "./task-modal-context";
+import { useToast } from "./toast";
 import { DEFAULT_OWNER_NAME } from "./task-list/config";
 
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+// Monday first in the capacity dialog
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
 function PriorityDot({ priority }: { priority: number | null | undefined }) {
   if (!priority) return <span className="w-1.5 h-1.5 rounded-full bg-zinc-600" />;
   const colors: Record<number, string> = {
@@ -24,25 +40,8 @@ function formatDayLabel(dateStr: string): string {
   return format(date, "EEEE, d MMM");
 }
 
-interface TaskItem {
-  id: number;
-  displayId: string;
-  title: string;
-  priority?: number | null;
-  projectName?: string | null;
-}
-
-interface CheckinItem {
-  id: number;
-  displayId: string;
-  title: string;
-  priority?: number | null;
-  checkinId: number;
-  checkinBy: string;
-}
-
 interface TaskRowProps {
-  task: TaskItem;
+  task: PlannedTask;
 }
 
 function TaskRow({ task }: TaskRowProps) {
@@ -50,8 +49,10 @@ function TaskRow({ task }: TaskRowProps) {
 
   return (
     <button
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData("text/plain", String(task.id))}
       onClick={() => openTaskModal(task.id, task.displayId)}
-      className="w-full flex items-center gap-2 py-1 px-1 -mx-1 rounded hover:bg-zinc-700/50 transition-colors group text-left"
+      className="w-full flex items-center gap-2 py-1 px-1 -mx-1 rounded hover:bg-zinc-700/50 transition-colors group text-left cursor-grab active:cursor-grabbing"
     >
       <PriorityDot priority={task.priority} />
       <span className="text-[12px] text-zinc-300 group-hover:text-zinc-100 truncate flex-1">
@@ -62,12 +63,15 @@ function TaskRow({ task }: TaskRowProps) {
           {task.projectName}
         </span>
       )}
+      <span className={`text-[10px] ${task.estimateMinutes ? "text-zinc-500" : "text-zinc-700"}`}>
+        {formatMinutes(task.minutes)}
+      </span>
     </button>
   );
 }
 
 interface CheckinRowProps {
-  checkin: CheckinItem;
+  checkin: PlannedCheckin;
 }
 
 function CheckinRow({ checkin }: CheckinRowProps) {
@@ -87,82 +91,152 @@ function CheckinRow({ checkin }: CheckinRowProps) {
   );
 }
 
-export function WeeklyPlan() {
-  // Get upcoming tasks (next 7 days, we'll filter out today)
-  const upcomingQuery = trpc.query.upcoming.useQuery({ days: 7 });
-
-  // Get upcoming check-ins (next 7 days)
-  const checkinsQuery = trpc.items.checkins.useQuery({ includeFuture: true });
-
-  const grouped = upcomingQuery.data?.grouped || [];
-  const allCheckins = checkinsQuery.data || [];
-
-  // Filter out today from the grouped data and filter to my tasks only
-  const filteredGrouped = grouped
-    .filter((g) => !isToday(parseISO(g.date)))
-    .map((g) => ({
-      ...g,
-      items: g.items.filter((item) => item.ownerName === DEFAULT_OWNER_NAME),
-    }))
-    .filter((g) => g.items.length > 0);
-
-  // Check-ins are always owned by me, so no need to filter by owner
-
-  // Group check-ins by date (excluding today and past)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const checkinsByDate: Record<string, CheckinItem[]> = {};
-  for (const checkin of allCheckins) {
-    if (!checkin.checkinBy) continue;
-    const checkinDate = parseISO(checkin.checkinBy);
-    if (checkinDate <= today) continue; // Skip today and past
-
-    const dateKey = checkin.checkinBy;
-    if (!checkinsByDate[dateKey]) {
-      checkinsByDate[dateKey] = [];
+/**
+ * Load against capacity: calendar time, then planned work
+ */
+function LoadBar({ day }: { day: PlanDay }) {
+  const load = day.busyMinutes + day.plannedMinutes;
+  const scale = Math.max(load, day.capacityMinutes, 1);
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="relative h-1 w-16 rounded-full bg-zinc-800 overflow-hidden">
+        <div
+          className="absolute inset-y-0 left-0 bg-zinc-500"
+          style={{ width: `${(day.busyMinutes / scale) * 100}%` }}
+        />
+        <div
+          className={`absolute inset-y-0 ${day.overloaded ? "bg-red-400" : "bg-blue-400"}`}
+          style={{ left: `${(day.busyMinutes / scale) * 100}%`, width: `${(day.plannedMinutes / scale) * 100}%` }}
+        />
+      </div>
+      <span className={`text-[10px] ${day.overloaded ? "text-red-400" : "text-zinc-600"}`}>
+        {formatMinutes(load)} / {formatMinutes(day.capacityMinutes)}
+      </span>
+    </div>
+  );
+}
+
+function CapacityDialog() {
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+  const [open, setOpen] = useState(false);
+  const [hours, setHours] = useState<string[]>([]);
+
+  const capacityQuery = trpc.planning.capacity.useQuery();
+  const setCapacityMutation = trpc.planning.setCapacity.useMutation({
+    onSuccess: () => {
+      setOpen(false);
+      utils.planning.invalidate();
+      showToast("Capacity saved", "success");
+    },
+    onError: (err) => showToast(err.message || "Failed to save capacity", "error"),
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setHours((capacityQuery.data?.days ?? []).map((d) => String(d.minutes / 60)));
     }
-    checkinsByDate[dateKey].push({
-      id: checkin.id,
-      displayId: checkin.displayId,
-      title: checkin.title,
-      priority: checkin.priority,
-      checkinId: checkin.checkinId || 0,
-      checkinBy: checkin.checkinBy,
+    setOpen(next);
+  };
+
+  const handleSave = () => {
+    setCapacityMutation.mutate({
+      days: hours.map((h, weekday) => ({
+        weekday,
+        minutes: Math.min(Math.max(Math.round((parseFloat(h) || 0) * 60), 0), 24 * 60),
+      })),
     });
-  }
+  };
 
-  // Merge tasks and check-ins for each day (next 6 days)
-  const next6Days: string[] = [];
-  for (let i = 1; i <= 6; i++) {
-    const date = addDays(today, i);
-    next6Days.push(format(date, "yyyy-MM-dd"));
-  }
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <button className="text-zinc-500 hover:text-zinc-300" title="Working hours per day">
+          <Settings2 className="h-3 w-3" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="bg-zinc-900 border-zinc-700">
+        <DialogHeader>
+          <DialogTitle className="text-zinc-100">Working hours</DialogTitle>
+        </DialogHeader>
+        <p className="text-[12px] text-zinc-500">
+          Hours available each day, meetings included. Days with more due work than this are flagged.
+        </p>
+        <div className="space-y-2 py-2">
+          {WEEKDAY_ORDER.map((weekday) => (
+            <div key={weekday} className="flex items-center justify-between">
+              <label className="text-[13px] text-zinc-300">{WEEKDAYS[weekday]}</label>
+              <input
+                type="number"
+                min={0}
+                max={24}
+                step={0.5}
+                value={hours[weekday] ?? ""}
+                onChange={(e) => setHours(hours.map((h, i) => (i === weekday ? e.target.value : h)))}
+                className="w-20 px-2 py-1 text-[13px] bg-zinc-800 border border-zinc-700 rounded text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <button
+            onClick={() => setOpen(false)}
+            className="px-4 py-2 text-[13px] text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={hours.length !== 7 || setCapacityMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 text-[13px] bg-blue-600 hover:bg-blue-500 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {setCapacityMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
 
-  // Build merged day data
-  const dayData: Array<{
-    date: string;
-    tasks: TaskItem[];
-    checkins: CheckinItem[];
-  }> = [];
-
-  for (const dateStr of next6Days) {
-    const tasksForDay = filteredGrouped.find((g) => g.date === dateStr)?.items || [];
-    const checkinsForDay = checkinsByDate[dateStr] || [];
-
-    if (tasksForDay.length > 0 || checkinsForDay.length > 0) {
-      dayData.push({
-        date: dateStr,
-        tasks: tasksForDay,
-        checkins: checkinsForDay,
-      });
-    }
-  }
+export function WeeklyPlan() {
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Next 6 days, starting tomorrow (today has its own section)
+  const start = format(addDays(new Date(), 1), "yyyy-MM-dd");
+  const weekQuery = trpc.planning.week.useQuery({ start, days: 6, owner: DEFAULT_OWNER_NAME });
+
+  const rescheduleMutation = trpc.items.update.useMutation({
+    onSuccess: (item) => {
+      utils.planning.invalidate();
+      utils.query.invalidate();
+      showToast(`Moved ${item.displayId} to ${formatDayLabel(item.dueDate!)}`, "success");
+    },
+    onError: (err) => showToast(err.message || "Failed to reschedule", "error"),
+  });
 
-  const totalTasks = dayData.reduce((acc, d) => acc + d.tasks.length, 0);
-  const totalCheckins = dayData.reduce((acc, d) => acc + d.checkins.length, 0);
+  const reschedule = (itemId: number, dueDate: string) => {
+    rescheduleMutation.mutate({ id: itemId, data: { dueDate } });
+  };
+
+  const handleDrop = (e: React.DragEvent, day: PlanDay) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const itemId = parseInt(e.dataTransfer.getData("text/plain"), 10);
+    if (!itemId || day.tasks.some((t) => t.id === itemId)) return;
+    reschedule(itemId, day.date);
+  };
 
-  if (dayData.length === 0) {
+  const days = weekQuery.data?.days ?? [];
+  const suggestions = weekQuery.data?.suggestions ?? [];
+  const totalTasks = days.reduce((acc, d) => acc + d.tasks.length, 0);
+  const totalCheckins = days.reduce((acc, d) => acc + d.checkins.length, 0);
+  const overloadedDays = days.filter((d) => d.overloaded).length;
+
+  if (totalTasks === 0 && totalCheckins === 0) {
     return (
       <div className="p-4 rounded-lg bg-zinc-800/30 border border-zinc-800/50">
         <div className="flex items-center gap-2 text-zinc-400">
@@ -170,7 +244,7 @@ export function WeeklyPlan() {
           <span className="text-[13px]">No upcoming items</span>
         </div>
         <p className="text-[12px] text-zinc-500 mt-1">
-          Tasks and check-ins for the next 6 days will appear here
+          {weekQuery.error?.message ?? "Tasks and check-ins for the next 6 days will appear here"}
         </p>
       </div>
     );
@@ -183,12 +257,16 @@ export function WeeklyPlan() {
           <Calendar className="h-3.5 w-3.5 text-zinc-400" />
           <span className="text-[11px] font-medium text-zinc-400 uppercase tracking-wider">
             Next 6 Days
-            {(totalTasks > 0 || totalCheckins > 0) && (
-              <span className="ml-1 text-zinc-500">
-                ({totalTasks} tasks{totalCheckins > 0 && `, ${totalCheckins} Check-ins`})
-              </span>
-            )}
+            <span className="ml-1 text-zinc-500">
+              ({totalTasks} tasks{totalCheckins > 0 && `, ${totalCheckins} Check-ins`})
+            </span>
           </span>
+          {overloadedDays > 0 && (
+            <span className="text-[10px] text-red-400">
+              {overloadedDays} overloaded
+            </span>
+          )}
+          <CapacityDialog />
         </div>
         <Link
           href="/tasks?filter=upcoming"
@@ -199,39 +277,102 @@ export function WeeklyPlan() {
       </div>
 
       <div className="space-y-3">
-        {dayData.map(({ date, tasks, checkins }) => (
-          <div key={date} className="p-3 rounded-lg bg-zinc-800/30 border border-zinc-800/50">
-            <div className="flex items-center justify-between mb-2">
-              <span className={`text-[11px] font-medium ${
-                isTomorrow(parseISO(date))
-                  ? "text-blue-400"
-                  : "text-zinc-400"
-              }`}>
-                {formatDayLabel(date)}
-              </span>
-              <span className="text-[10px] text-zinc-600">
-                {tasks.length + checkins.length} item{tasks.length + checkins.length !== 1 ? "s" : ""}
-              </span>
-            </div>
-            <div className="space-y-1">
-              {/* Tasks first */}
-              {tasks.map((task) => (
-                <TaskRow
-                  key={task.id}
-                  task={task}
-                />
-              ))}
-              {/* Then check-ins */}
-              {checkins.map((checkin) => (
-                <CheckinRow
-                  key={`checkin-${checkin.id}-${checkin.checkinId}`}
-                  checkin={checkin}
+        {days.map((day) => {
+          const daySuggestions = suggestions.filter((s) => s.from === day.date);
+          const isEmpty = day.tasks.length === 0 && day.checkins.length === 0;
+
+          return (
+            <div
+              key={day.date}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(day.date);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === day.date ? null : current))}
+              onDrop={(e) => handleDrop(e, day)}
+              className={`p-3 rounded-lg border transition-colors ${
+                dropTarget === day.date
+                  ? "bg-blue-500/10 border-blue-500/40"
+                  : day.overloaded
+                    ? "bg-red-500/5 border-red-500/20"
+                    : "bg-zinc-800/30 border-zinc-800/50"
+              }`}
+            >
+              <div className={`flex items-center justify-between ${isEmpty && day.routines.length === 0 ? "" : "mb-2"}`}>
+                <span className={`text-[11px] font-medium ${
+                  isTomorrow(parseISO(day.date))
+                    ? "text-blue-400"
+                    : "text-zinc-400"
+                }`}>
+                  {formatDayLabel(day.date)}
+                </span>
+                <LoadBar day={day} />
+              </div>
+              <div className="space-y-1">
+                {/* Tasks first */}
+                {day.tasks.map((task) => (
+                  <TaskRow key={task.id} task={task} />
+                ))}
+                {/* Then check-ins */}
+                {day.checkins.map((checkin) => (
+                  <CheckinRow
+                    key={`checkin-${checkin.id}-${checkin.checkinId}`}
+                    checkin={checkin}
+                  />
+                ))}
+                {day.routines.length > 0 && (
+                  <div
+                    className="flex items-center gap-2 py-1 text-[11px] text-zinc-500"
+                    title={day.routines.map((r) => r.title).join("\n")}
+                  >
+                    <Repeat className="w-3 h-3" />
+                    {day.routines.length} routine{day.routines.length !== 1 ? "s" : ""}
+                    <span className="text-zinc-600">
+                      {formatMinutes(day.routines.reduce((acc, r) => acc + r.minutes, 0))}
+                    </span>
+                  </div>
+                )}
+              </div>
+              {daySuggestions.length > 0 && (
+                <SuggestionList
+                  suggestions={daySuggestions}
+                  onMove={(s) => reschedule(s.itemId, s.to)}
+                  disabled={rescheduleMutation.isPending}
                 />
-              ))}
+              )}
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
 }
+
+function SuggestionList({
+  suggestions,
+  onMove,
+  disabled,
+}: {
+  suggestions: PlanSuggestion[];
+  onMove: (suggestion: PlanSuggestion) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="mt-2 pt-2 border-t border-red-500/10 space-y-1">
+      {suggestions.map((s) => (
+        <div key={s.itemId} className="flex items-center gap-2 text-[11px] text-zinc-500">
+          <span className="truncate flex-1">
+            Move <span className="text-zinc-400">{s.title}</span> to {formatDayLabel(s.to)}
+          </span>
+          <button
+            onClick={() => onMove(s)}
+            disabled={disabled}
+            className="px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-300 hover:bg-zinc-700 disabled:opacity-50"
+          >
+            Move
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { TRPCClientError } from "@trpc/client";
+import { trpc } from "@/lib/trpc";
+
+export interface FileConflict {
+  /** What the editor loaded */
+  base: string;
+  /** What the user tried to save */
+  mine: string;
+  /** What is on disk now */
+  theirs: string;
+  /** Hash of theirs, to save the merge against */
+  theirsHash: string;
+}
+
+function isConflict(error: unknown): boolean {
+  return error instanceof TRPCClientError && error.data?.code === "CONFLICT";
+}
+
+/**
+ * Load a knowledge base file for editing and save it against the hash it was
+ * loaded with. A save that would overwrite someone else's change resolves to
+ * false and exposes `conflict` for a merge view instead of clobbering it.
+ */
+export function useFileEditing(path: string | null) {
+  const utils = trpc.useUtils();
+  const [conflict, setConflict] = useState<FileConflict | null>(null);
+
+  const fileQuery = trpc.files.read.useQuery(
+    { path: path || "" },
+    { enabled: !!path, refetchOnWindowFocus: false }
+  );
+  const saveMutation = trpc.files.save.useMutation();
+  const file = fileQuery.data ?? null;
+
+  const save = useCallback(
+    async (content: string, base = file ? { raw: file.raw, hash: file.hash } : null): Promise<boolean> => {
+      if (!path || !base) return false;
+      try {
+        await saveMutation.mutateAsync({ path, content, baseHash: base.hash });
+      } catch (error) {
+        if (!isConflict(error)) throw error;
+        const current = await utils.files.read.fetch({ path }, { staleTime: 0 });
+        setConflict({ base: base.raw, mine: content, theirs: current.raw, theirsHash: current.hash });
+        return false;
+      }
+      setConflict(null);
+      await utils.files.read.invalidate({ path });
+      utils.files.history.invalidate({ path });
+      return true;
+    },
+    [path, file, saveMutation, utils]
+  );
+
+  /** Save the merged result of a conflict */
+  const resolveConflict = useCallback(
+    (merged: string) =>
+      conflict ? save(merged, { raw: conflict.theirs, hash: conflict.theirsHash }) : Promise.resolve(false),
+    [conflict, save]
+  );
+
+  return {
+    file,
+    isLoading: fileQuery.isLoading,
+    error: fileQuery.error,
+    save,
+    conflict,
+    resolveConflict,
+    dismissConflict: () => setConflict(null),
+  };
+}
@@ -10,6 +10,7 @@
 import { useEffect, useRef } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { io, Socket } from "socket.io-client";
+import { getAuthToken } from "@/lib/auth";
 
 // Event types matching server
 type EntityType =
@@ -52,6 +53,7 @@ export function useRealtimeSync() {
     // Connect to socket.io server
     const socket = io(taskServiceUrl, {
       transports: ["websocket", "polling"],
+      auth: { token: getAuthToken() },
       reconnection: true,
       reconnectionAttempts: 5,
       reconnectionDelay: 1000,
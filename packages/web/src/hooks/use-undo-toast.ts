@@ -0,0 +1,34 @@
+"use client";
+
+import { useCallback } from "react";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "@/components/toast";
+
+/**
+ * Show a success toast with an "Undo" button that reverses the most recent
+ * item change made from the web (items.undo).
+ */
+export function useUndoToast(options: { onUndone?: () => void } = {}) {
+  const { onUndone } = options;
+  const { showToast } = useToast();
+  const utils = trpc.useUtils();
+
+  const undoMutation = trpc.items.undo.useMutation({
+    onSuccess: () => {
+      utils.items.invalidate();
+      showToast("Undone", "info");
+      onUndone?.();
+    },
+    onError: (error) => showToast(error.message, "error"),
+  });
+
+  return useCallback(
+    (message: string) => {
+      showToast(message, "success", {
+        label: "Undo",
+        onClick: () => undoMutation.mutate({ count: 1 }),
+      });
+    },
+    [showToast, undoMutation]
+  );
+}
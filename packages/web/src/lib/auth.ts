@@ -0,0 +1,40 @@
+/**
+ * Auth token storage for the browser
+ *
+ * When the task service has AUTH_PASSPHRASE set, /login exchanges the
+ * passphrase for a session token. It's kept in localStorage and sent as a
+ * bearer token on tRPC requests and socket connections.
+ */
+
+const TOKEN_STORAGE_KEY = "kw-auth-token";
+
+export function getAuthToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+export function setAuthToken(token: string): void {
+  localStorage.setItem(TOKEN_STORAGE_KEY, token);
+}
+
+export function clearAuthToken(): void {
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+/**
+ * Send the user to the login page, returning them to the current page afterwards
+ */
+export function redirectToLogin(): void {
+  if (window.location.pathname === "/login") return;
+  const next = window.location.pathname + window.location.search;
+  window.location.href = `/login?next=${encodeURIComponent(next)}`;
+}
+
+/**
+ * Headers for server-side fetches to the task service (route handlers and
+ * server components), authenticated with TASK_SERVICE_TOKEN when set
+ */
+export function taskServiceHeaders(): HeadersInit {
+  const token = process.env.TASK_SERVICE_TOKEN;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
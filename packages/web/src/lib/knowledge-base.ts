@@ -61,10 +61,13 @@ export interface MeetingNote {
     tags?: string[];
     project?: string;           // Single project (backward compat)
     projects?: string[];        // Multiple projects
-    status: 'completed' | 'ongoing' | 'cancelled';
+    series?: string;            // Recurring meeting this is an instance of
+    status: 'planned' | 'completed' | 'ongoing' | 'cancelled';
   };
   content: string;
   sections: {
+    agenda?: string;
+    previousActions?: string;   // Actions from Previous Meetings
     summary?: string;
     discussion?: string;
     decisions?: string;
@@ -584,10 +587,13 @@ export async function parseMeetingNote(filePath: string, org: string): Promise<M
         tags: frontmatter.tags,
         project: primaryProject,
         projects,
+        series: frontmatter.series,
         status: frontmatter.status || 'completed',
       },
       content,
       sections: {
+        agenda: sections['Agenda'],
+        previousActions: sections['Actions from Previous Meetings'],
         summary: sections['Summary'],
         discussion: sections['Discussion'],
         decisions: sections['Decisions'],
@@ -896,6 +902,19 @@ export async function getProjectFiles(projectPath: string): Promise<ProjectFileE
   });
 }
 
+// Series slug from a `series` value ("Weekly sync with Acme" -> "weekly-sync-with-acme")
+export function getSeriesSlug(series: string): string {
+  return series.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// Get the meetings of a series in an org, oldest first
+export async function getMeetingsInSeries(org: string, seriesSlug: string): Promise<MeetingNote[]> {
+  const meetings = await getMeetings();
+  return meetings
+    .filter(m => m.org === org && m.frontmatter.series && getSeriesSlug(m.frontmatter.series) === seriesSlug)
+    .reverse();
+}
+
 // Get meetings for a specific project
 // Checks both single project and projects array
 export async function getMeetingsForProject(projectSlug: string): Promise<MeetingNote[]> {
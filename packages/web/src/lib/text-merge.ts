@@ -0,0 +1,176 @@
+/**
+ * Line-based diff and three-way merge
+ *
+ * Used by the file editor: the history panel diffs revisions, and when a
+ * save is rejected because the file changed underneath us, the version we
+ * loaded (base), our edit (mine) and the file on disk (theirs) are merged.
+ * Changes on only one side merge cleanly; overlapping changes become
+ * conflict chunks for the user to pick from.
+ */
+
+export type DiffOp =
+  | { type: "equal"; line: string }
+  | { type: "insert"; line: string }
+  | { type: "delete"; line: string };
+
+export type MergeChunk =
+  | { type: "resolved"; lines: string[] }
+  | { type: "conflict"; base: string[]; mine: string[]; theirs: string[] };
+
+/** Above this many cells the LCS table is skipped and the middle is replaced wholesale */
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split("\n");
+}
+
+/**
+ * For each line of `a`, the index of the matching line in `b` (or -1),
+ * from a longest common subsequence.
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const matches = new Array<number>(a.length).fill(-1);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) return matches;
+
+  // lengths[i][j] = LCS of a[start+i..endA) and b[start+j..endB)
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) lengths.push(new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = a[start + i] === b[start + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Line diff from `before` to `after`
+ */
+export function diffLines(before: string, after: string): DiffOp[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const matches = matchLines(a, b);
+  const ops: DiffOp[] = [];
+
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (matches[i] === -1) {
+      ops.push({ type: "delete", line: a[i] });
+      continue;
+    }
+    while (j < matches[i]) ops.push({ type: "insert", line: b[j++] });
+    ops.push({ type: "equal", line: a[i] });
+    j++;
+  }
+  while (j < b.length) ops.push({ type: "insert", line: b[j++] });
+  return ops;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Three-way merge of two edits of `base`
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeChunk[] {
+  const o = splitLines(base);
+  const a = splitLines(mine);
+  const b = splitLines(theirs);
+  const toMine = matchLines(o, a);
+  const toTheirs = matchLines(o, b);
+  const chunks: MergeChunk[] = [];
+
+  const pushResolved = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === "resolved") last.lines.push(...lines);
+    else chunks.push({ type: "resolved", lines: [...lines] });
+  };
+
+  let io = 0;
+  let ia = 0;
+  let ib = 0;
+  while (io < o.length || ia < a.length || ib < b.length) {
+    // Stable: base line kept in the same place on both sides
+    if (io < o.length && toMine[io] === ia && toTheirs[io] === ib) {
+      pushResolved([o[io]]);
+      io++;
+      ia++;
+      ib++;
+      continue;
+    }
+
+    // Unstable region up to the next base line both sides kept
+    let next = io;
+    while (next < o.length && (toMine[next] === -1 || toTheirs[next] === -1)) next++;
+    const endA = next < o.length ? toMine[next] : a.length;
+    const endB = next < o.length ? toTheirs[next] : b.length;
+
+    const baseLines = o.slice(io, next);
+    const mineLines = a.slice(ia, endA);
+    const theirLines = b.slice(ib, endB);
+
+    if (sameLines(mineLines, baseLines)) pushResolved(theirLines);
+    else if (sameLines(theirLines, baseLines) || sameLines(mineLines, theirLines)) pushResolved(mineLines);
+    else chunks.push({ type: "conflict", base: baseLines, mine: mineLines, theirs: theirLines });
+
+    io = next;
+    ia = endA;
+    ib = endB;
+  }
+
+  return chunks;
+}
+
+/**
+ * Join merge chunks back into text. Unresolved conflicts get git-style
+ * markers so they can be finished by hand in the editor.
+ */
+export function mergedText(chunks: MergeChunk[], choices: Record<number, "mine" | "theirs" | "both"> = {}): string {
+  const lines: string[] = [];
+  chunks.forEach((chunk, index) => {
+    if (chunk.type === "resolved") {
+      lines.push(...chunk.lines);
+      return;
+    }
+    const choice = choices[index];
+    if (choice === "mine") lines.push(...chunk.mine);
+    else if (choice === "theirs") lines.push(...chunk.theirs);
+    else if (choice === "both") lines.push(...chunk.mine, ...chunk.theirs);
+    else lines.push("<<<<<<< yours", ...chunk.mine, "=======", ...chunk.theirs, ">>>>>>> on disk");
+  });
+  return lines.join("\n");
+}
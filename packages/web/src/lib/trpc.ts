@@ -8,6 +8,7 @@
 import { createTRPCReact } from '@trpc/react-query';
 import { httpBatchLink, loggerLink } from '@trpc/client';
 import superjson from 'superjson';
+import { getAuthToken } from './auth';
 
 // Import the AppRouter type from server package
 // This is the source of truth for all API types
@@ -55,6 +56,13 @@ export function getTRPCClient() {
       httpBatchLink({
         url: `${TASK_SERVICE_URL}/api/trpc`,
         transformer: superjson,
+        headers() {
+          const token = getAuthToken();
+          return {
+            'X-KW-Client': 'web',
+            ...(token && { Authorization: `Bearer ${token}` }),
+          };
+        },
       }),
     ],
   });
@@ -65,6 +65,13 @@ export function parseMeetingPath(path: string): string {
   return `/meetings/${cleanPath.replace(/\/meetings\//, "/")}`;
 }
 
+/**
+ * Generate a meeting series URL from the org and series slug
+ */
+export function getMeetingSeriesUrl(org: string, seriesSlug: string): string {
+  return `/meetings/series/${org}/${seriesSlug}`;
+}
+
 /**
  * Generate a project URL
  */
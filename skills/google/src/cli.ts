@@ -707,6 +707,45 @@ calendar
     }
   });
 
+calendar
+  .command('create <summary> <start> <end>')
+  .description('Create an event (start/end as ISO datetimes, e.g. 2026-01-20T14:00)')
+  .option('--description <text>', 'Event description')
+  .option('--location <text>', 'Event location')
+  .option('--calendar <id>', 'Calendar ID (default: primary)')
+  .action(async (summary, start, end, options) => {
+    try {
+      const event = await trpc.calendar.createEvent.mutate({
+        summary,
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        description: options.description,
+        location: options.location,
+        calendarId: options.calendar,
+      });
+
+      console.log(`Created: ${event.summary} (${formatDateTime(event.start)} - ${formatTime(event.end)})`);
+      console.log(`Event ID: ${event.id}`);
+    } catch (error) {
+      console.log(formatError(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+calendar
+  .command('delete <id>')
+  .description('Delete an event by ID')
+  .option('--calendar <id>', 'Calendar ID (default: primary)')
+  .action(async (id, options) => {
+    try {
+      await trpc.calendar.deleteEvent.mutate({ id, calendarId: options.calendar });
+      console.log(`Deleted event ${id}`);
+    } catch (error) {
+      console.log(formatError(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
 // =============================================================================
 // Parse and Run
 // =============================================================================
@@ -62,10 +62,17 @@ fi
 # tRPC expects batched format: {"0":{"json":{...input...}}}
 PAYLOAD="{\"0\":{\"json\":${INPUT_JSON}}}"
 
+# API token, needed when the server has AUTH_PASSPHRASE set
+AUTH_ARGS=()
+if [ -n "$KW_API_TOKEN" ]; then
+    AUTH_ARGS=(-H "Authorization: Bearer ${KW_API_TOKEN}")
+fi
+
 # Call the tRPC endpoint
 # tRPC mutations use POST with batched JSON format
 RESPONSE=$(curl -s -X POST \
     -H "Content-Type: application/json" \
+    "${AUTH_ARGS[@]}" \
     -d "$PAYLOAD" \
     "${SERVER_URL}/api/trpc/notifications.aiContentCreated?batch=1" 2>&1)
 
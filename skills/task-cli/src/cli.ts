@@ -5,9 +5,10 @@
  * tRPC-based CLI for task management with end-to-end type safety.
  */
 
+import { readFileSync, writeFileSync } from 'fs';
 import { Command } from 'commander';
-import { trpc, formatTaskId, parseTaskId } from './client.js';
-import { formatItemList, formatItemLine, formatItemDetail, formatError } from './format.js';
+import { trpc, formatTaskId, parseTaskId, describeRecurrence, isRRuleText, parseQuickAdd, type ItemTemplateStep, type DependencyGraphNode, type PlanDay, type ImportFormat, type ImportRow, type CsvColumnMapping, type BackupArchive } from './client.js';
+import { formatItemList, formatItemLine, formatItemDetail, formatSearchResults, formatError } from './format.js';
 
 /**
  * Parse a project argument. Requires fully qualified org/slug format
@@ -90,6 +91,32 @@ function parseDueDate(dueArg: string): string | null {
   return dueArg;
 }
 
+/**
+ * Parse a duration such as 90, 45m, 1.5h or 1h30m into whole minutes.
+ * Returns null if the duration isn't recognised.
+ */
+function parseDuration(durationArg: string): number | null {
+  const lower = durationArg.toLowerCase().replace(/\s+/g, '');
+
+  if (/^\d+$/.test(lower)) return parseInt(lower, 10);
+
+  const match = lower.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+)m)?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const minutes = Math.round(parseFloat(match[1] || '0') * 60) + parseInt(match[2] || '0', 10);
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Format minutes as e.g. "1h 30m"
+ */
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+}
+
 /**
  * Extract a readable error message from tRPC or generic errors.
  */
@@ -105,6 +132,11 @@ function getErrorMessage(error: unknown): string {
     } catch {
       // Not JSON, use as-is
     }
+    if (error.message === 'Authentication required') {
+      return process.env.KW_API_TOKEN
+        ? 'KW_API_TOKEN was rejected (revoked or expired); create a new token on the System page'
+        : 'The task service requires authentication; set KW_API_TOKEN to a token from the System page';
+    }
     return error.message;
   }
   return String(error);
@@ -440,7 +472,7 @@ program
         const project = a.item.projectName ? ` [${a.item.projectName}]` : '';
         const title = a.item.title.length > 35 ? a.item.title.slice(0, 35) + '...' : a.item.title;
 
-        console.log(`${dateStr} ${timeStr}  ${a.item.displayId.padEnd(7)}  ${actionDesc.padEnd(20)}  ${title}${project}`);
+        console.log(`${dateStr} ${timeStr}  ${a.item.displayId.padEnd(7)}  ${actionDesc.padEnd(20)}  ${title}${project}  #${a.id}`);
       }
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
@@ -494,14 +526,15 @@ program
   .action(async (ids) => {
     try {
       const idList = ids.split(',').map((id: string) => parseTaskId(id.trim()) ?? parseInt(id.trim()));
-      const results: string[] = [];
-
-      for (const id of idList) {
-        const result = await trpc.items.delete.mutate({ id });
-        results.push(`${formatTaskId(result.id)}: deleted`);
+      // Several ids go through one bulk call (one transaction, undone together)
+      if (idList.length > 1) {
+        const result = await trpc.items.bulkDelete.mutate({ ids: idList });
+        console.log(result.displayIds.map((id: string) => `${id}: deleted`).join('\n'));
+        return;
       }
 
-      console.log(results.join('\n'));
+      const result = await trpc.items.delete.mutate({ id: idList[0] });
+      console.log(`${formatTaskId(result.id)}: deleted`);
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
       process.exit(1);
@@ -532,6 +565,51 @@ program
     }
   });
 
+// ============================================================================
+// Undo Command
+// ============================================================================
+
+program
+  .command('undo [count]')
+  .description('Undo your last item changes (default 1; each command run counts as one)')
+  .option('--force', 'Undo even if the fields have been changed again since')
+  .action(async (count, options) => {
+    try {
+      const result = await trpc.items.undo.mutate({
+        count: count ? parseInt(count) : 1,
+        force: options.force || false,
+      });
+
+      for (const r of result.reverted) {
+        console.log(`Undid ${r.procedure}: ${r.displayIds.join(', ')}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Activity Revert Command
+// ============================================================================
+
+program
+  .command('revert <activityId>')
+  .description('Revert the change behind an activity entry (see: activity)')
+  .option('--force', 'Revert even if the fields have been changed again since')
+  .action(async (activityId, options) => {
+    try {
+      const result = await trpc.activities.revert.mutate({
+        activityId: parseInt(activityId),
+        force: options.force || false,
+      });
+      console.log(`Reverted ${result.procedure}: ${result.displayIds.join(', ')}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Note Command
 // ============================================================================
@@ -566,14 +644,20 @@ program
   .action(async (ids) => {
     try {
       const idList = ids.split(',').map((id: string) => parseTaskId(id.trim()) ?? parseInt(id.trim()));
-      const results: string[] = [];
-
-      for (const id of idList) {
-        const item = await trpc.items.complete.mutate({ id });
-        results.push(`${formatTaskId(item.id)}: ${item.title} → complete`);
+      // Several ids go through one bulk call (one transaction, undone together)
+      if (idList.length > 1) {
+        const result = await trpc.items.bulkComplete.mutate({ ids: idList });
+        const results = [
+          ...result.completed.map((id: string) => `${id}: complete`),
+          ...result.skipped.map((id: string) => `${id}: already complete`),
+          ...result.unblockedTasks.map((t: { displayId: string; title: string }) => `${t.displayId}: ${t.title} → unblocked`),
+        ];
+        console.log(results.join('\n'));
+        return;
       }
 
-      console.log(results.join('\n'));
+      const item = await trpc.items.complete.mutate({ id: idList[0] });
+      console.log(`${formatTaskId(item.id)}: ${item.title} → complete`);
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
       process.exit(1);
@@ -591,6 +675,7 @@ program
   .option('--priority <n>', 'New priority (1-4)', parseInt)
   .option('--due <date>', 'New due date (YYYY-MM-DD, or "none" to clear)')
   .option('--target <period>', 'Target period (e.g., 2026-Q1, 2026-01)')
+  .option('--estimate <duration>', 'Effort estimate (e.g. 45m, 1h30m, or "none" to clear)')
   .option('--title <text>', 'New title')
   .option('--description <text>', 'Description')
   .option('--parent <id>', 'Parent item ID (for subtasks)')
@@ -614,6 +699,14 @@ program
         data.dueDate = parseDueDate(options.due);
       }
       if (options.target) data.targetPeriod = options.target;
+      if (options.estimate) {
+        const minutes = options.estimate === 'none' ? null : parseDuration(options.estimate);
+        if (minutes === null && options.estimate !== 'none') {
+          console.log(formatError(`Invalid estimate: ${options.estimate}. Use e.g. 45m, 1.5h, 1h30m`));
+          process.exit(1);
+        }
+        data.estimateMinutes = minutes;
+      }
       if (options.title) data.title = options.title;
       if (options.description) data.description = options.description;
       if (options.parent) data.parentId = parseTaskId(options.parent) ?? parseInt(options.parent);
@@ -670,12 +763,16 @@ program
 
       const results: string[] = [];
 
+      // Update item fields if any, in one bulk call for several ids
+      if (!noDataUpdate && idList.length > 1) {
+        const result = await trpc.items.bulkUpdate.mutate({ ids: idList, data });
+        results.push(...result.displayIds.map((id: string) => `${id}: updated`));
+      } else if (!noDataUpdate) {
+        const item = await trpc.items.update.mutate({ id: idList[0], data });
+        results.push(`${formatTaskId(item.id)}: updated`);
+      }
+
       for (const id of idList) {
-        // Update item fields if any
-        if (!noDataUpdate) {
-          const item = await trpc.items.update.mutate({ id, data });
-          results.push(`${formatTaskId(item.id)}: updated`);
-        }
 
         // Add blockers using ItemLink API
         for (const blockerId of blockersToAdd) {
@@ -711,6 +808,69 @@ program
 // Create Command
 // ============================================================================
 
+/**
+ * Add blockers to an item from a comma-separated list of IDs
+ */
+async function addBlockers(itemId: number, blockedBy: string) {
+  const blockerIds = blockedBy.split(',').map((id: string) => parseTaskId(id.trim()) ?? parseInt(id.trim()));
+  for (const blockerId of blockerIds) {
+    try {
+      await trpc.items.addBlocker.mutate({ itemId, blockerId });
+      console.log(`  → blocked by ${formatTaskId(blockerId)}`);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : '';
+      if (!msg.includes('already blocks')) {
+        console.log(formatError(`Failed to add blocker ${formatTaskId(blockerId)}: ${msg}`));
+      }
+    }
+  }
+}
+
+/**
+ * `create --quick`: parse the title with the shared quick-add parser and let
+ * the server resolve and validate the names. Explicit options win over tokens.
+ */
+async function createQuickItem(type: string, title: string, options: Record<string, string | number | boolean | undefined>) {
+  const draft = parseQuickAdd(title);
+  if (typeof options.owner === 'string') draft.owner = options.owner;
+  if (typeof options.project === 'string') draft.project = parseProjectArg(options.project);
+  if (typeof options.due === 'string') draft.dueDate = parseDueDate(options.due);
+  if (typeof options.priority === 'number') draft.priority = options.priority;
+
+  const extras: string[] = [];
+  if (draft.tags.length > 0) extras.push(`tags: ${draft.tags.join(', ')}`);
+  if (draft.checkinDate) extras.push(`check-in: ${draft.checkinDate}`);
+  if (draft.recurrence) extras.push(`repeats: ${draft.recurrence.description}`);
+  if (draft.estimateMinutes) extras.push(`estimate: ${draft.estimateMinutes}m`);
+
+  if (options.dryRun) {
+    const preview = await trpc.items.resolveQuickAdd.query({ draft });
+    console.log(`Title:    ${draft.title || '(empty)'}`);
+    if (preview.project) console.log(`Project:  ${preview.project.org ? `${preview.project.org}/` : ''}${preview.project.slug} (${preview.project.name})`);
+    if (preview.owner) console.log(`Owner:    ${preview.owner.name}`);
+    if (draft.dueDate) console.log(`Due:      ${draft.dueDate}`);
+    if (draft.priority) console.log(`Priority: P${draft.priority}`);
+    if (preview.waitingOn.length > 0) console.log(`Waiting:  ${preview.waitingOn.map((p: { name: string }) => p.name).join(', ')}`);
+    for (const extra of extras) console.log(`  ${extra}`);
+    for (const problem of preview.problems) console.log(formatError(problem));
+    return null;
+  }
+
+  const item = await trpc.items.quickAdd.mutate({
+    draft,
+    itemType: type as 'task' | 'routine',
+    description: typeof options.description === 'string' ? options.description : undefined,
+    parentId: typeof options.parent === 'string' ? (parseTaskId(options.parent) ?? parseInt(options.parent)) : undefined,
+    targetPeriod: typeof options.target === 'string' ? options.target : undefined,
+    status: options.blockedBy ? 'blocked' : undefined,
+  });
+
+  console.log(`Created: ${formatItemLine(item)}`);
+  if (draft.waitingOn.length > 0) console.log(`  waiting on: ${draft.waitingOn.join(', ')}`);
+  for (const extra of extras) console.log(`  ${extra}`);
+  return item;
+}
+
 program
   .command('create <type> <title>')
   .description('Create a new item (type: task, routine)')
@@ -719,11 +879,20 @@ program
   .option('--due <date>', 'Due date (YYYY-MM-DD)')
   .option('--target <period>', 'Target period (e.g., 2026-Q1)')
   .option('--priority <n>', 'Priority (1-4)', parseInt)
+  .option('--estimate <duration>', 'Effort estimate (e.g. 45m, 1h30m)')
   .option('--description <text>', 'Description')
   .option('--parent <id>', 'Parent item ID (for subtasks)')
   .option('--blocked-by <ids>', 'IDs of items blocking this one (comma-separated)')
+  .option('-q, --quick', 'Parse the title for #project @owner +waiting:@name ~tag p1 !due ^checkin "every <...>" 30m')
+  .option('--dry-run', 'With --quick: show what the title resolves to without creating')
   .action(async (type, title, options) => {
     try {
+      if (options.quick) {
+        const item = await createQuickItem(type, title, options);
+        if (item && options.blockedBy) await addBlockers(item.id, options.blockedBy);
+        return;
+      }
+
       // First resolve owner name to ID if provided
       let ownerId: number | undefined;
       if (options.owner) {
@@ -746,6 +915,16 @@ program
         }
       }
 
+      let estimateMinutes: number | undefined;
+      if (options.estimate) {
+        const minutes = parseDuration(options.estimate);
+        if (minutes === null) {
+          console.log(formatError(`Invalid estimate: ${options.estimate}. Use e.g. 45m, 1.5h, 1h30m`));
+          process.exit(1);
+        }
+        estimateMinutes = minutes;
+      }
+
       const item = await trpc.items.create.mutate({
         title,
         itemType: type as 'task' | 'routine',
@@ -754,6 +933,7 @@ program
         dueDate: options.due ? parseDueDate(options.due) : undefined,
         targetPeriod: options.target,
         priority: options.priority,
+        estimateMinutes,
         description: options.description,
         parentId: options.parent ? (parseTaskId(options.parent) ?? parseInt(options.parent)) : undefined,
         // Set status to blocked if blockers are specified
@@ -764,18 +944,7 @@ program
 
       // Add blockers using ItemLink API (supports comma-separated IDs)
       if (options.blockedBy) {
-        const blockerIds = options.blockedBy.split(',').map((id: string) => parseTaskId(id.trim()) ?? parseInt(id.trim()));
-        for (const blockerId of blockerIds) {
-          try {
-            await trpc.items.addBlocker.mutate({ itemId: item.id, blockerId });
-            console.log(`  → blocked by ${formatTaskId(blockerId)}`);
-          } catch (e) {
-            const msg = e instanceof Error ? e.message : '';
-            if (!msg.includes('already blocks')) {
-              console.log(formatError(`Failed to add blocker ${formatTaskId(blockerId)}: ${msg}`));
-            }
-          }
-        }
+        await addBlockers(item.id, options.blockedBy);
       }
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
@@ -929,11 +1098,22 @@ program
 
 program
   .command('search <query>')
-  .description('Search items by title')
-  .action(async (query) => {
-    try {
-      const result = await trpc.query.search.query({ query });
-      console.log(formatItemList(result.items));
+  .description('Full-text search across tasks, notes, meetings, projects and diary')
+  .option('--type <types>', 'Comma-separated types: item,checkin,note,meeting,project,diary')
+  .option('--org <org>', 'Filter by organization slug')
+  .option('--limit <n>', 'Maximum results', '20')
+  .action(async (query, options) => {
+    try {
+      type SearchDocType = 'item' | 'checkin' | 'note' | 'meeting' | 'project' | 'diary';
+      const result = await trpc.search.query.query({
+        query,
+        types: options.type
+          ? options.type.split(',').map((t: string) => t.trim()) as SearchDocType[]
+          : undefined,
+        org: options.org,
+        limit: parseInt(options.limit, 10),
+      });
+      console.log(formatSearchResults(result.results, result.total));
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
       process.exit(1);
@@ -941,60 +1121,48 @@ program
   });
 
 // ============================================================================
-// Checkins Command
+// Filter & Saved View Commands
 // ============================================================================
 
 program
-  .command('checkins')
-  .description('Show tasks where check-in is due')
-  .action(async () => {
-    try {
-      const items = await trpc.items.checkins.query({});
-      console.log(formatItemList(items));
+  .command('filter <query>')
+  .description('List tasks matching a filter (e.g. "status:pending owner:me due<+7d -blocked")')
+  .option('--me <name>', 'Person that owner:me resolves to (default: server DEFAULT_OWNER)')
+  .option('--limit <n>', 'Max results', '100')
+  .action(async (query, options) => {
+    try {
+      const result = await trpc.query.filter.query({
+        filter: query,
+        me: options.me,
+        limit: parseInt(options.limit, 10),
+      });
+      console.log(formatItemList(result.items));
+      if (result.total > result.items.length) {
+        console.log(`\n(showing ${result.items.length} of ${result.total})`);
+      }
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
       process.exit(1);
     }
   });
 
-// ============================================================================
-// Routines Command Group
-// ============================================================================
-
-const routines = program
-  .command('routines')
-  .description('Manage recurring routines');
-
-// routines due - Show routines due today
-routines
-  .command('due')
-  .description('Show routines due today (or specified date)')
-  .option('--date <date>', 'Date to check (YYYY-MM-DD)')
-  .action(async (options) => {
+program
+  .command('view <name>')
+  .description('Run a saved view')
+  .option('--me <name>', 'Person that owner:me resolves to (default: server DEFAULT_OWNER)')
+  .option('--limit <n>', 'Max results', '100')
+  .action(async (name, options) => {
     try {
-      const result = await trpc.routines.due.query(options.date ? { date: options.date } : {});
-
-      console.log(`Routines for ${result.date}`);
+      const result = await trpc.views.run.query({
+        name,
+        me: options.me,
+        limit: parseInt(options.limit, 10),
+      });
+      console.log(`${result.view.name}: ${result.view.query}`);
       console.log('─'.repeat(60));
-
-      if (result.pending.length > 0) {
-        console.log(`\nPending (${result.pendingCount}):`);
-        for (const r of result.pending) {
-          const priority = r.priority ? `p${r.priority}` : '  ';
-          const project = r.projectName ? ` [${r.projectName}]` : '';
-          console.log(`  ${r.id.toString().padStart(4)}  ${priority}  ${r.title}${project}`);
-        }
-      }
-
-      if (result.completed.length > 0) {
-        console.log(`\nCompleted (${result.completedCount}):`);
-        for (const r of result.completed) {
-          console.log(`  ${r.id.toString().padStart(4)}  ✓   ${r.title}`);
-        }
-      }
-
-      if (result.total === 0) {
-        console.log('No routines due.');
+      console.log(formatItemList(result.items));
+      if (result.total > result.items.length) {
+        console.log(`\n(showing ${result.items.length} of ${result.total})`);
       }
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
@@ -1002,26 +1170,17 @@ routines
     }
   });
 
-// routines overdue - Show overdue routines
-routines
-  .command('overdue')
-  .description('Show overdue routines')
+program
+  .command('views')
+  .description('List saved views')
   .action(async () => {
     try {
-      const result = await trpc.routines.overdue.query();
-
-      if (result.totalOverdue === 0) {
-        console.log('No overdue routines.');
-        return;
-      }
-
-      console.log(`${result.totalOverdue} overdue routines (${result.totalMissedInstances} missed instances)`);
+      const result = await trpc.views.list.query();
+      console.log(`${result.count} saved views`);
       console.log('─'.repeat(60));
-
-      for (const r of result.routines) {
-        console.log(`\n${r.id}: ${r.title}`);
-        console.log(`   Rule: ${r.recurrenceRule}`);
-        console.log(`   Overdue: ${r.daysOverdue} day(s) - ${r.overdueDates.join(', ')}`);
+      for (const view of result.views) {
+        const pin = view.pinned ? '*' : ' ';
+        console.log(`${pin} ${view.name.padEnd(24)} ${view.query}`);
       }
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
@@ -1029,99 +1188,109 @@ routines
     }
   });
 
-// routines complete - Complete a routine
-routines
-  .command('complete <id>')
-  .description('Mark a routine as complete for today')
-  .option('--date <date>', 'Date to complete for (YYYY-MM-DD)')
-  .option('--notes <notes>', 'Completion notes')
-  .action(async (id, options) => {
+program
+  .command('views-create <name> <query>')
+  .description('Save a filter as a named view')
+  .option('--description <text>', 'Description')
+  .option('--pin', 'Pin to the web sidebar')
+  .action(async (name, query, options) => {
     try {
-      const routineId = parseInt(id);
-      const result = await trpc.routines.complete.mutate({
-        id: routineId,
-        date: options.date,
-        notes: options.notes,
+      const view = await trpc.views.create.mutate({
+        name,
+        query,
+        description: options.description,
+        pinned: options.pin || false,
       });
-
-      if (result.alreadyCompleted) {
-        console.log(`Routine ${result.routineId} was already completed for ${result.date}`);
-      } else {
-        console.log(`Routine ${result.routineId} completed for ${result.date}`);
-        if (result.diarySync.synced) {
-          console.log(`  Logged to diary: ${result.diarySync.diaryPath}`);
-        }
-      }
+      console.log(`Created view: ${view.name}${view.pinned ? ' (pinned)' : ''}`);
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
       process.exit(1);
     }
   });
 
-// routines skip - Skip a routine
-routines
-  .command('skip <id>')
-  .description('Skip a routine for today')
-  .option('--date <date>', 'Date to skip (YYYY-MM-DD)')
-  .option('--notes <notes>', 'Skip reason')
-  .action(async (id, options) => {
+program
+  .command('views-update <name>')
+  .description('Update a saved view')
+  .option('--name <name>', 'New name')
+  .option('--query <query>', 'New filter')
+  .option('--description <text>', 'New description (use empty string to clear)')
+  .option('--pin', 'Pin to the web sidebar')
+  .option('--unpin', 'Remove from the web sidebar')
+  .action(async (name, options) => {
     try {
-      const routineId = parseInt(id);
-      const result = await trpc.routines.skip.mutate({
-        id: routineId,
-        date: options.date,
-        notes: options.notes,
-      });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const data: any = {};
+      if (options.name) data.name = options.name;
+      if (options.query) data.query = options.query;
+      if (options.description !== undefined) {
+        data.description = options.description === '' ? null : options.description;
+      }
+      if (options.pin) data.pinned = true;
+      if (options.unpin) data.pinned = false;
 
-      if (result.alreadySkipped) {
-        console.log(`Routine ${result.routineId} was already skipped for ${result.date}`);
-      } else {
-        console.log(`Routine ${result.routineId} skipped for ${result.date}`);
+      if (Object.keys(data).length === 0) {
+        console.log(formatError('No updates specified'));
+        process.exit(1);
       }
+
+      const view = await trpc.views.get.query({ name });
+      const updated = await trpc.views.update.mutate({ id: view.id, data });
+      console.log(`Updated view: ${updated.name}`);
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
       process.exit(1);
     }
   });
 
-// routines skip-all-overdue - Skip all overdue instances
-routines
-  .command('skip-all-overdue <id>')
-  .description('Skip all overdue instances of a routine')
-  .action(async (id) => {
+program
+  .command('views-delete <name>')
+  .description('Delete a saved view')
+  .action(async (name) => {
     try {
-      const routineId = parseInt(id);
-      const result = await trpc.routines.skipAllOverdue.mutate({ id: routineId });
-
-      if (result.skippedCount === 0) {
-        console.log(`Routine ${result.routineId} has no overdue instances`);
-      } else {
-        console.log(`Routine ${result.routineId}: skipped ${result.skippedCount} overdue instance(s)`);
-        console.log(`  Dates skipped: ${result.datesSkipped?.join(', ')}`);
-        console.log(`  Next due: ${result.nextDue}`);
-      }
+      const view = await trpc.views.get.query({ name });
+      await trpc.views.delete.mutate({ id: view.id });
+      console.log(`Deleted view: ${view.name}`);
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
       process.exit(1);
     }
   });
 
-// routines list - List all routine templates
-routines
-  .command('list')
-  .description('List all routine templates')
-  .action(async () => {
-    try {
-      const result = await trpc.routines.list.query();
+// ============================================================================
+// Item Templates
+// ============================================================================
 
-      console.log(`${result.count} routines`);
-      console.log('─'.repeat(60));
+function printTemplateStep(step: ItemTemplateStep, depth: number): void {
+  const details: string[] = [];
+  if (step.dueOffset !== undefined) details.push(`due ${step.dueOffset >= 0 ? '+' : ''}${step.dueOffset}d`);
+  if (step.priority) details.push(`P${step.priority}`);
+  if (step.owner) details.push(`@${step.owner}`);
+  for (const p of step.people ?? []) details.push(`${p.role}:${p.name}`);
+  for (const tag of step.tags ?? []) details.push(`~${tag}`);
+  for (const c of step.checkins ?? []) details.push(`check-in ${c.offset >= 0 ? '+' : ''}${c.offset}d`);
+  console.log(`${'  '.repeat(depth)}- ${step.title}${details.length ? `  (${details.join(', ')})` : ''}`);
+  for (const subtask of step.subtasks ?? []) printTemplateStep(subtask, depth + 1);
+}
 
-      for (const r of result.routines) {
-        const priority = r.priority ? `p${r.priority}` : '  ';
-        const project = r.projectName ? ` [${r.projectName}]` : '';
-        const lastDone = r.lastCompleted ? ` (last: ${r.lastCompleted})` : '';
-        console.log(`${r.id.toString().padStart(4)}  ${priority}  ${r.recurrenceRule.padEnd(10)}  ${r.title}${project}${lastDone}`);
+program
+  .command('templates [name]')
+  .description('List item templates, or show one as a tree')
+  .action(async (name) => {
+    try {
+      if (name) {
+        const template = await trpc.itemTemplates.get.query({ name });
+        console.log(`${template.name} (${template.itemCount} items)`);
+        if (template.description) console.log(template.description);
+        console.log('─'.repeat(60));
+        printTemplateStep(template.root, 0);
+      } else {
+        const result = await trpc.itemTemplates.list.query();
+        console.log(`${result.count} item templates`);
+        console.log('─'.repeat(60));
+        for (const template of result.templates) {
+          const description = template.description ? ` - ${template.description}` : '';
+          console.log(`${template.name.padEnd(24)} ${String(template.itemCount).padStart(3)} items${description}`);
+        }
       }
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
@@ -1129,11 +1298,387 @@ routines
     }
   });
 
-// routines get - Get a specific routine with history
-routines
-  .command('get <id>')
-  .description('Get routine details with completion history')
-  .action(async (id) => {
+program
+  .command('templates-create <name> <file>')
+  .description('Create or replace an item template from a JSON file (the parent task with its subtasks)')
+  .option('--description <text>', 'Description')
+  .action(async (name, file, options) => {
+    try {
+      const root = JSON.parse(readFileSync(file, 'utf-8')) as ItemTemplateStep;
+      const existing = (await trpc.itemTemplates.list.query()).templates.find((t: { name: string }) => t.name === name);
+      const template = existing
+        ? await trpc.itemTemplates.update.mutate({ id: existing.id, data: { root, description: options.description } })
+        : await trpc.itemTemplates.create.mutate({ name, root, description: options.description });
+      console.log(`${existing ? 'Updated' : 'Created'} template: ${template.name} (${template.itemCount} items)`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('templates-delete <name>')
+  .description('Delete an item template')
+  .action(async (name) => {
+    try {
+      const template = await trpc.itemTemplates.get.query({ name });
+      await trpc.itemTemplates.delete.mutate({ id: template.id });
+      console.log(`Deleted template: ${template.name}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('template-use <name>')
+  .description('Create a task tree from an item template')
+  .option('--project <org/slug>', 'Project (e.g. myorg/_general)')
+  .option('--anchor <date>', 'Date the offsets count from (default: today)')
+  .option('--title <title>', 'Title for the parent task (default: the template\'s)')
+  .action(async (name, options) => {
+    try {
+      const result = await trpc.items.instantiateTemplate.mutate({
+        templateName: name,
+        projectId: options.project ? await resolveProjectId(options.project) : undefined,
+        anchorDate: options.anchor ? parseDueDate(options.anchor) ?? undefined : undefined,
+        title: options.title,
+      });
+      console.log(`Created ${result.ids.length} items from template ${name}:`);
+      console.log(formatItemLine(result.item));
+      console.log(`  Subtasks: ${result.displayIds.slice(1).join(', ') || '(none)'}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Checkins Command
+// ============================================================================
+
+program
+  .command('checkins')
+  .description('Show tasks where check-in is due')
+  .action(async () => {
+    try {
+      const items = await trpc.items.checkins.query({});
+      console.log(formatItemList(items));
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Timer Command Group
+// ============================================================================
+
+const timer = program
+  .command('timer')
+  .description('Track time against tasks');
+
+// timer start - Start a timer on a task
+timer
+  .command('start <id>')
+  .description('Start a timer on a task (stops any running timer)')
+  .option('--note <text>', 'Note for the time entry')
+  .action(async (id, options) => {
+    try {
+      const result = await trpc.items.startTimer.mutate({ id, note: options.note });
+
+      for (const stopped of result.stopped) {
+        console.log(`Stopped timer on ${stopped.displayId} (${formatMinutes(stopped.minutes)})`);
+      }
+      console.log(`Timer started on ${result.displayId}: ${result.itemTitle}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// timer stop - Stop the running timer
+timer
+  .command('stop [id]')
+  .description('Stop the running timer')
+  .option('--note <text>', 'Note for the time entry')
+  .action(async (id, options) => {
+    try {
+      const result = await trpc.items.stopTimer.mutate({ id, note: options.note });
+      console.log(`Stopped timer on ${result.displayId}: ${result.itemTitle} (${formatMinutes(result.minutes)})`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// timer status - Show the running timer
+timer
+  .command('status')
+  .description('Show the running timer')
+  .action(async () => {
+    try {
+      const result = await trpc.items.activeTimer.query();
+
+      if (!result) {
+        console.log('No timer running');
+        return;
+      }
+
+      const note = result.note ? ` - ${result.note}` : '';
+      console.log(`${result.displayId}: ${result.itemTitle} (${formatMinutes(result.minutes)} so far)${note}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// timer log - Log time manually
+timer
+  .command('log <id> <duration>')
+  .description('Log time against a task (e.g. 45m, 1.5h, 1h30m)')
+  .option('--date <date>', 'Date worked (YYYY-MM-DD, defaults to today)')
+  .option('--note <text>', 'Note for the time entry')
+  .action(async (id, duration, options) => {
+    try {
+      const minutes = parseDuration(duration);
+      if (minutes === null) {
+        console.log(formatError(`Invalid duration: ${duration}`));
+        process.exit(1);
+      }
+
+      const result = await trpc.items.logTime.mutate({
+        id,
+        minutes,
+        date: options.date,
+        note: options.note,
+      });
+      console.log(`Logged ${formatMinutes(result.minutes)} on ${result.displayId}: ${result.itemTitle} (${result.startedAt.split('T')[0]})`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// timer list - Show time entries for a task
+timer
+  .command('list <id>')
+  .description('Show time logged against a task')
+  .action(async (id) => {
+    try {
+      const result = await trpc.items.timeEntries.query({ id });
+
+      console.log(`${result.displayId}: ${formatMinutes(result.totalMinutes)} logged`);
+      console.log('─'.repeat(60));
+
+      if (result.entries.length === 0) {
+        console.log('No time entries.');
+        return;
+      }
+
+      for (const e of result.entries) {
+        const state = e.running ? 'running' : e.source;
+        const note = e.note ? ` - ${e.note}` : '';
+        console.log(`  ${e.id.toString().padStart(4)}  ${e.startedAt.split('T')[0]}  ${formatMinutes(e.minutes).padStart(7)}  ${state}${note}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// timer delete - Delete a time entry
+timer
+  .command('delete <entryId>')
+  .description('Delete a time entry')
+  .action(async (entryId) => {
+    try {
+      const result = await trpc.items.deleteTimeEntry.mutate({ entryId: parseInt(entryId) });
+      console.log(`Deleted time entry ${result.entryId} from ${formatTaskId(result.itemId)}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Routines Command Group
+// ============================================================================
+
+const routines = program
+  .command('routines')
+  .description('Manage recurring routines');
+
+// routines due - Show routines due today
+routines
+  .command('due')
+  .description('Show routines due today (or specified date)')
+  .option('--date <date>', 'Date to check (YYYY-MM-DD)')
+  .action(async (options) => {
+    try {
+      const result = await trpc.routines.due.query(options.date ? { date: options.date } : {});
+
+      console.log(`Routines for ${result.date}`);
+      console.log('─'.repeat(60));
+
+      if (result.pending.length > 0) {
+        console.log(`\nPending (${result.pendingCount}):`);
+        for (const r of result.pending) {
+          const priority = r.priority ? `p${r.priority}` : '  ';
+          const project = r.projectName ? ` [${r.projectName}]` : '';
+          console.log(`  ${r.id.toString().padStart(4)}  ${priority}  ${r.title}${project}`);
+        }
+      }
+
+      if (result.completed.length > 0) {
+        console.log(`\nCompleted (${result.completedCount}):`);
+        for (const r of result.completed) {
+          console.log(`  ${r.id.toString().padStart(4)}  ✓   ${r.title}`);
+        }
+      }
+
+      if (result.total === 0) {
+        console.log('No routines due.');
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// routines overdue - Show overdue routines
+routines
+  .command('overdue')
+  .description('Show overdue routines')
+  .action(async () => {
+    try {
+      const result = await trpc.routines.overdue.query();
+
+      if (result.totalOverdue === 0) {
+        console.log('No overdue routines.');
+        return;
+      }
+
+      console.log(`${result.totalOverdue} overdue routines (${result.totalMissedInstances} missed instances)`);
+      console.log('─'.repeat(60));
+
+      for (const r of result.routines) {
+        console.log(`\n${r.id}: ${r.title}`);
+        console.log(`   Rule: ${describeRecurrence({ recurrenceRule: r.recurrenceRule })}`);
+        console.log(`   Overdue: ${r.daysOverdue} day(s) - ${r.overdueDates.join(', ')}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// routines complete - Complete a routine
+routines
+  .command('complete <id>')
+  .description('Mark a routine as complete for today')
+  .option('--date <date>', 'Date to complete for (YYYY-MM-DD)')
+  .option('--notes <notes>', 'Completion notes')
+  .action(async (id, options) => {
+    try {
+      const routineId = parseInt(id);
+      const result = await trpc.routines.complete.mutate({
+        id: routineId,
+        date: options.date,
+        notes: options.notes,
+      });
+
+      if (result.alreadyCompleted) {
+        console.log(`Routine ${result.routineId} was already completed for ${result.date}`);
+      } else {
+        console.log(`Routine ${result.routineId} completed for ${result.date}`);
+        if (result.diarySync.synced) {
+          console.log(`  Logged to diary: ${result.diarySync.diaryPath}`);
+        }
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// routines skip - Skip a routine
+routines
+  .command('skip <id>')
+  .description('Skip a routine for today')
+  .option('--date <date>', 'Date to skip (YYYY-MM-DD)')
+  .option('--notes <notes>', 'Skip reason')
+  .action(async (id, options) => {
+    try {
+      const routineId = parseInt(id);
+      const result = await trpc.routines.skip.mutate({
+        id: routineId,
+        date: options.date,
+        notes: options.notes,
+      });
+
+      if (result.alreadySkipped) {
+        console.log(`Routine ${result.routineId} was already skipped for ${result.date}`);
+      } else {
+        console.log(`Routine ${result.routineId} skipped for ${result.date}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// routines skip-all-overdue - Skip all overdue instances
+routines
+  .command('skip-all-overdue <id>')
+  .description('Skip all overdue instances of a routine')
+  .action(async (id) => {
+    try {
+      const routineId = parseInt(id);
+      const result = await trpc.routines.skipAllOverdue.mutate({ id: routineId });
+
+      if (result.skippedCount === 0) {
+        console.log(`Routine ${result.routineId} has no overdue instances`);
+      } else {
+        console.log(`Routine ${result.routineId}: skipped ${result.skippedCount} overdue instance(s)`);
+        console.log(`  Dates skipped: ${result.datesSkipped?.join(', ')}`);
+        console.log(`  Next due: ${result.nextDue ?? 'none (ended)'}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// routines list - List all routine templates
+routines
+  .command('list')
+  .description('List all routine templates')
+  .action(async () => {
+    try {
+      const result = await trpc.routines.list.query();
+
+      console.log(`${result.count} routines`);
+      console.log('─'.repeat(60));
+
+      for (const r of result.routines) {
+        const priority = r.priority ? `p${r.priority}` : '  ';
+        const project = r.projectName ? ` [${r.projectName}]` : '';
+        const lastDone = r.lastCompleted ? ` (last: ${r.lastCompleted})` : '';
+        const rule = isRRuleText(r.recurrenceRule) ? 'custom' : r.recurrenceRule;
+        console.log(`${r.id.toString().padStart(4)}  ${priority}  ${rule.padEnd(10)}  ${r.title}${project}${lastDone}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// routines get - Get a specific routine with history
+routines
+  .command('get <id>')
+  .description('Get routine details with completion history')
+  .action(async (id) => {
     try {
       const routineId = parseInt(id);
       const result = await trpc.routines.get.query({ id: routineId });
@@ -1144,9 +1689,10 @@ routines
       console.log(`Priority:     ${result.priority ? `P${result.priority}` : '-'}`);
       console.log(`Owner:        ${result.ownerName || '-'}`);
       console.log(`Project:      ${result.projectFullPath || '-'}`);
-      console.log(`Rule:         ${result.recurrenceRule}`);
-      if (result.recurrenceTime) console.log(`Time:         ${result.recurrenceTime}`);
+      console.log(`Schedule:     ${describeRecurrence(result)}`);
+      console.log(`Rule:         ${result.recurrenceRule?.replace(/\n/g, ' ')}`);
       if (result.recurrenceDays) console.log(`Days:         ${result.recurrenceDays}`);
+      console.log(`Next due:     ${result.nextDue ?? 'none (ended)'}`);
 
       if (result.history && result.history.length > 0) {
         console.log(`\nRecent completions:`);
@@ -1165,7 +1711,7 @@ routines
 routines
   .command('create <title>')
   .description('Create a new routine')
-  .requiredOption('--rule <rule>', 'Recurrence rule (daily, weekly, monthly, bimonthly, yearly)')
+  .requiredOption('--rule <rule>', 'Recurrence rule (daily, weekly, monthly, bimonthly, yearly) or RRULE, e.g. "FREQ=MONTHLY;BYDAY=2TU"')
   .option('--time <time>', 'Time of day (HH:MM)')
   .option('--days <days>', 'Days (for custom, comma-separated: mon,tue,wed or 1,2,3)')
   .option('--priority <n>', 'Priority (1-4)', parseInt)
@@ -1225,7 +1771,7 @@ routines
   .command('update <id>')
   .description('Update a routine')
   .option('--title <text>', 'New title')
-  .option('--rule <rule>', 'Recurrence rule')
+  .option('--rule <rule>', 'Recurrence rule or RRULE')
   .option('--time <time>', 'Time of day')
   .option('--days <days>', 'Days (comma-separated)')
   .option('--priority <n>', 'Priority (1-4)', parseInt)
@@ -1382,15 +1928,233 @@ sync
         console.log(`\nTask IDs: ${result.taskIds.map(formatTaskId).join(', ')}`);
       }
 
-      if (result.errors.length > 0) {
-        console.log('\nErrors:');
-        for (const e of result.errors) {
-          console.log(`  ${e}`);
-        }
+      if (result.errors.length > 0) {
+        console.log('\nErrors:');
+        for (const e of result.errors) {
+          console.log(`  ${e}`);
+        }
+      }
+
+      if (result.dryRun) {
+        console.log('\n(Dry run - no changes made)');
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// sync filesystem-preview - Preview projects found in filesystem
+sync
+  .command('filesystem-preview')
+  .description('Preview projects found in filesystem (including workstreams)')
+  .action(async () => {
+    try {
+      const result = await trpc.sync.filesystemPreview.query();
+
+      console.log(`${result.total} projects found`);
+      console.log('─'.repeat(60));
+
+      for (const p of result.projects) {
+        const status = p.status ? `[${p.status}]` : '';
+        const parent = p.isSubProject ? `  (child of ${p.parentSlug})` : '';
+        console.log(`  ${p.slug.padEnd(30)} ${status.padEnd(12)} ${p.name} (${p.org})${parent}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// sync filesystem - Sync all projects (including workstreams) to database
+sync
+  .command('filesystem')
+  .description('Sync all projects (including workstreams) to database')
+  .action(async () => {
+    try {
+      const result = await trpc.sync.filesystem.mutate();
+
+      console.log('Project sync complete');
+      console.log('─'.repeat(60));
+      console.log(`Projects found: ${result.projectsFound}`);
+      console.log(`  Created: ${result.projectsCreated}`);
+      console.log(`  Updated: ${result.projectsUpdated}`);
+
+      if (result.errors.length > 0) {
+        console.log(`\n${result.errors.length} errors:`);
+        for (const e of result.errors) {
+          console.log(`  ${e}`);
+        }
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// sync readmes - Two-way sync between README checkbox/status lines and tasks
+sync
+  .command('readmes')
+  .description('Sync README checkboxes and status lines with their tasks (both ways)')
+  .option('--dry-run', 'Preview changes and conflicts without applying them')
+  .option('--keep-readme <ids>', 'Resolve conflicts for these tasks with the README version (comma-separated)')
+  .option('--keep-db <ids>', 'Resolve conflicts for these tasks with the task version (comma-separated)')
+  .action(async (options) => {
+    try {
+      const parseIds = (ids?: string) =>
+        (ids ? ids.split(',') : []).map((id: string) => parseTaskId(id.trim()) ?? parseInt(id.trim()));
+      const keepReadme = parseIds(options.keepReadme);
+      const keepDb = parseIds(options.keepDb);
+
+      // Conflicts are keyed by README path and task; look the keys up first
+      const preview = await trpc.sync.readmesPreview.query();
+      const resolutions: { key: string; keep: 'readme' | 'db' }[] = preview.conflicts.flatMap((c: { key: string; itemId: number }) =>
+        keepReadme.includes(c.itemId) ? [{ key: c.key, keep: 'readme' as const }]
+          : keepDb.includes(c.itemId) ? [{ key: c.key, keep: 'db' as const }]
+            : []
+      );
+
+      const result = options.dryRun ? preview : await trpc.sync.readmes.mutate({ resolutions });
+
+      console.log(`README sync: ${result.filesScanned} files`);
+      console.log('─'.repeat(60));
+      for (const c of result.changes) {
+        const id = c.itemId ? formatTaskId(c.itemId) : 'new';
+        console.log(`  ${c.kind.padEnd(13)} ${id.padEnd(8)} ${c.title}  (${c.path})`);
+      }
+      if (result.changes.length === 0) {
+        console.log('  No changes');
+      }
+
+      const unresolved = options.dryRun
+        ? result.conflicts.filter((c: { key: string }) => !resolutions.some(r => r.key === c.key))
+        : result.conflicts;
+      if (unresolved.length > 0) {
+        console.log(`\n${unresolved.length} conflicts (skipped; use --keep-readme or --keep-db):`);
+        for (const c of unresolved) {
+          const readme = c.readme ? `"${c.readme.title}" [${c.readme.status}]` : 'deleted';
+          const db = c.db ? `"${c.db.title}" [${c.db.status}]` : 'deleted';
+          console.log(`  ${formatTaskId(c.itemId)} ${c.kind}: README ${readme} / task ${db}  (${c.path})`);
+        }
+      }
+
+      if (result.errors.length > 0) {
+        console.log('\nErrors:');
+        for (const e of result.errors) {
+          console.log(`  ${e}`);
+        }
+      }
+
+      if (options.dryRun) {
+        console.log('\n(Dry run - no changes made)');
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// sync status - Background sync watcher state and recent runs
+sync
+  .command('status')
+  .description('Show the background file sync state and recent runs')
+  .option('-n, --limit <n>', 'Number of runs to show', '10')
+  .action(async (options) => {
+    try {
+      const status = await trpc.sync.watcherStatus.query();
+
+      if (!status.watching) {
+        console.log('Background sync is off (SYNC_WATCHER=off or no KNOWLEDGE_BASE_PATH)');
+      } else {
+        console.log(`Background sync: ${status.paused ? 'paused' : status.running ? 'running' : 'watching'}`);
+      }
+      if (status.pending.length > 0) {
+        console.log(`Waiting: ${status.pending.join(', ')}`);
+      }
+      console.log('─'.repeat(60));
+
+      const runs = status.log.slice(0, parseInt(options.limit));
+      if (runs.length === 0) {
+        console.log('  No runs yet');
+      }
+      for (const run of runs) {
+        const counts = [
+          `${run.meetings.tasksCreated}+${run.meetings.tasksUpdated} meeting tasks`,
+          `${run.projects.created}+${run.projects.updated} projects`,
+          `${run.readmes.changes} README changes`,
+        ];
+        if (run.readmes.conflicts > 0) counts.push(`${run.readmes.conflicts} conflicts`);
+        console.log(`  ${run.startedAt.slice(0, 19).replace('T', ' ')}  ${counts.join(', ')}`);
+        console.log(`    ${run.paths.join(', ')}`);
+        for (const e of run.errors) {
+          console.log(`    ! ${e}`);
+        }
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// sync pause / resume - Switch the background file sync off and on
+sync
+  .command('pause')
+  .description('Pause background file sync (changes are queued until resumed)')
+  .action(async () => {
+    try {
+      await trpc.sync.pauseWatcher.mutate();
+      console.log('Background sync paused');
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+sync
+  .command('resume')
+  .description('Resume background file sync')
+  .action(async () => {
+    try {
+      const status = await trpc.sync.resumeWatcher.mutate();
+      const queued = status.pending.length > 0 ? ` (${status.pending.length} queued files will sync shortly)` : '';
+      console.log(`Background sync resumed${queued}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Meetings Command Group
+// ============================================================================
+
+const meetings = program
+  .command('meetings')
+  .description('Prepare meeting notes and recurring meeting series');
+
+// meetings agenda - Write an agenda into a meeting note
+meetings
+  .command('agenda <path>')
+  .description('Write an ## Agenda section into a meeting note from open tasks')
+  .option('--dry-run', 'Print the agenda without writing the note')
+  .action(async (path, options) => {
+    try {
+      const result = await trpc.meetings.prepareAgenda.mutate({ path, dryRun: options.dryRun });
+
+      console.log(`Meeting: ${result.title} (${result.date})`);
+      if (result.previousMeeting) {
+        console.log(`Previous: ${result.previousMeeting.path} (${result.previousMeeting.date})`);
       }
+      console.log('─'.repeat(60));
+      console.log(result.markdown.trimEnd());
 
-      if (result.dryRun) {
-        console.log('\n(Dry run - no changes made)');
+      if (result.unknownAttendees.length > 0) {
+        console.log(`\nNo matching person for: ${result.unknownAttendees.join(', ')}`);
+      }
+      if (options.dryRun) {
+        console.log('\n(Dry run - note not changed)');
+      } else {
+        console.log(result.written ? `\nAgenda written to ${result.path}` : '\nAgenda already up to date');
       }
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
@@ -1398,21 +2162,27 @@ sync
     }
   });
 
-// sync filesystem-preview - Preview projects found in filesystem
-sync
-  .command('filesystem-preview')
-  .description('Preview projects found in filesystem (including workstreams)')
-  .action(async () => {
+// meetings next - Create the next note in a recurring meeting series
+meetings
+  .command('next <path>')
+  .description('Create the next meeting in a series, carrying over open actions')
+  .option('--date <date>', 'Date of the next meeting (YYYY-MM-DD, default: one interval after the latest)')
+  .option('--dry-run', 'Print the note without creating it')
+  .action(async (path, options) => {
     try {
-      const result = await trpc.sync.filesystemPreview.query();
+      const result = await trpc.meetings.createNext.mutate({ path, date: options.date, dryRun: options.dryRun });
 
-      console.log(`${result.total} projects found`);
-      console.log('─'.repeat(60));
+      console.log(`Series:   ${result.series}`);
+      console.log(`Previous: ${result.previousPath}`);
+      console.log(`Next:     ${result.path} (${result.date})`);
+      console.log(`Carried over: ${result.carriedOver.length} open action${result.carriedOver.length === 1 ? '' : 's'}`);
 
-      for (const p of result.projects) {
-        const status = p.status ? `[${p.status}]` : '';
-        const parent = p.isSubProject ? `  (child of ${p.parentSlug})` : '';
-        console.log(`  ${p.slug.padEnd(30)} ${status.padEnd(12)} ${p.name} (${p.org})${parent}`);
+      if (options.dryRun) {
+        console.log('─'.repeat(60));
+        console.log(result.content.trimEnd());
+        console.log('\n(Dry run - note not created)');
+      } else {
+        console.log(`\nCreated ${result.path}`);
       }
     } catch (error) {
       console.log(formatError(getErrorMessage(error)));
@@ -1420,24 +2190,36 @@ sync
     }
   });
 
-// sync filesystem - Sync all projects (including workstreams) to database
-sync
-  .command('filesystem')
-  .description('Sync all projects (including workstreams) to database')
-  .action(async () => {
+// meetings series - List series, or show one series' timeline
+meetings
+  .command('series [slug]')
+  .description('List recurring meeting series, or show the meetings in one')
+  .option('--org <org>', 'Filter by organization')
+  .action(async (slug, options) => {
     try {
-      const result = await trpc.sync.filesystem.mutate();
+      if (!slug) {
+        const { series } = await trpc.meetings.seriesList.query({ org: options.org });
+        if (series.length === 0) {
+          console.log('No meeting series found');
+          return;
+        }
+        for (const s of series) {
+          const range = s.firstDate ? `${s.firstDate} → ${s.lastDate}` : '-';
+          console.log(`${s.slug.padEnd(30)} ${(s.orgSlug ?? '-').padEnd(15)} ${String(s.meetingCount).padStart(3)}  ${range}`);
+        }
+        return;
+      }
 
-      console.log('Project sync complete');
+      const timeline = await trpc.meetings.series.query({ slug, org: options.org });
+      console.log(`${timeline.name} (${timeline.orgSlug ?? '-'}/${timeline.slug})`);
       console.log('─'.repeat(60));
-      console.log(`Projects found: ${result.projectsFound}`);
-      console.log(`  Created: ${result.projectsCreated}`);
-      console.log(`  Updated: ${result.projectsUpdated}`);
-
-      if (result.errors.length > 0) {
-        console.log(`\n${result.errors.length} errors:`);
-        for (const e of result.errors) {
-          console.log(`  ${e}`);
+      for (const meeting of timeline.meetings) {
+        const status = meeting.status ? ` [${meeting.status}]` : '';
+        const actions = meeting.actions.total > 0 ? ` — ${meeting.actions.open}/${meeting.actions.total} actions open` : '';
+        console.log(`${meeting.date}  ${meeting.title}${status}${actions}`);
+        console.log(`            ${meeting.path}`);
+        if (meeting.summary) {
+          console.log(`            ${meeting.summary.split('\n')[0]}`);
         }
       }
     } catch (error) {
@@ -1505,8 +2287,43 @@ program
   .option('--priority <n>', 'Priority (1-4)', parseInt)
   .option('--parent <slug>', 'Parent project slug')
   .option('--description <text>', 'Description')
+  .option('--template <id>', 'Scaffold from a project template (templates/projects/<id> in the knowledge base)')
+  .option('--var <key=value>', 'Template variable (repeatable)', (value: string, previous: string[]) => [...previous, value], [] as string[])
   .action(async (slug, name, options) => {
     try {
+      if (options.template) {
+        const variables: Record<string, string> = {};
+        for (const pair of options.var as string[]) {
+          const eq = pair.indexOf('=');
+          if (eq < 1) {
+            console.log(formatError(`Invalid --var '${pair}', expected key=value`));
+            process.exit(1);
+          }
+          variables[pair.slice(0, eq)] = pair.slice(eq + 1);
+        }
+
+        const result = await trpc.projects.scaffold.mutate({
+          template: options.template,
+          org: options.org,
+          slug,
+          name,
+          variables,
+        });
+
+        console.log(`Created project: ${options.org}/${slug} - ${name} (from template ${options.template})`);
+        console.log(`  Folder: ${result.path}/ (${result.files.length} files)`);
+        for (const w of result.workstreams) {
+          console.log(`  Workstream: ${w.slug} - ${w.name}`);
+        }
+        if (result.taskIds.length > 0) {
+          console.log(`  Tasks: ${result.taskIds.map((id: number) => `T-${id}`).join(', ')}`);
+        }
+        for (const warning of result.warnings) {
+          console.log(`  ⚠ ${warning}`);
+        }
+        return;
+      }
+
       // Resolve parent slug to ID if provided
       let parentId: number | undefined;
       if (options.parent) {
@@ -1536,6 +2353,29 @@ program
     }
   });
 
+// projects-templates - List project templates
+program
+  .command('projects-templates')
+  .description('List project templates and their variables')
+  .action(async () => {
+    try {
+      const { templates } = await trpc.projects.templates.query();
+      if (templates.length === 0) {
+        console.log('No project templates (add folders under templates/projects/ in the knowledge base)');
+      }
+      for (const t of templates) {
+        console.log(`${t.id.padEnd(20)} ${t.name}${t.description ? ` - ${t.description}` : ''}`);
+        for (const v of t.variables) {
+          const extra = v.required ? ' (required)' : v.default ? ` (default: ${v.default})` : '';
+          console.log(`  --var ${v.key}=...`.padEnd(28) + `${v.label}${extra}`);
+        }
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
 // projects-update - Update a project
 program
   .command('projects-update <slug>')
@@ -1638,6 +2478,7 @@ program
         console.log('─'.repeat(40));
         if (org.shortName) console.log(`Short name:  ${org.shortName}`);
         if (org.description) console.log(`Description: ${org.description}`);
+        console.log(`Folder:      ${org.folderPath ? `${org.folderPath}/` : '(none)'}${org.archived ? '  [archived]' : ''}`);
         console.log(`Projects:    ${org.projectCount}`);
         console.log(`People:      ${org.peopleCount}`);
         console.log(`Created:     ${org.createdAt.split('T')[0]}`);
@@ -1648,7 +2489,8 @@ program
         for (const org of result.organizations) {
           const shortName = org.shortName ? ` (${org.shortName})` : '';
           const description = org.description ? ` - ${org.description.slice(0, 40)}` : '';
-          console.log(`${org.slug.padEnd(20)} ${org.name}${shortName}${description}`);
+          const archived = org.archived ? ' [archived]' : '';
+          console.log(`${org.slug.padEnd(20)} ${org.name}${shortName}${archived}${description}`);
         }
       }
     } catch (error) {
@@ -1663,6 +2505,7 @@ program
   .description('Create a new organization')
   .option('--short-name <name>', 'Short name (e.g., YA, ExOrg)')
   .option('--description <text>', 'Description')
+  .option('--folder <path>', 'Knowledge base folder for projects/ and meetings/ (default: slug)')
   .action(async (slug, name, options) => {
     try {
       const org = await trpc.organizations.create.mutate({
@@ -1670,6 +2513,7 @@ program
         name,
         shortName: options.shortName,
         description: options.description,
+        folderPath: options.folder,
       });
 
       console.log(`Created organization: ${org.slug} - ${org.name}`);
@@ -1687,6 +2531,9 @@ program
   .option('--name <name>', 'New name')
   .option('--short-name <name>', 'New short name (use empty string to clear)')
   .option('--description <text>', 'New description')
+  .option('--folder <path>', 'Knowledge base folder (use empty string to stop syncing it)')
+  .option('--archive', 'Archive: skip the org in meeting/project sync')
+  .option('--unarchive', 'Include the org in sync again')
   .action(async (slug, options) => {
     try {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1698,6 +2545,11 @@ program
       if (options.description !== undefined) {
         data.description = options.description === '' ? null : options.description;
       }
+      if (options.folder !== undefined) {
+        data.folderPath = options.folder === '' ? null : options.folder;
+      }
+      if (options.archive) data.archived = true;
+      if (options.unarchive) data.archived = false;
 
       if (Object.keys(data).length === 0) {
         console.log(formatError('No updates specified'));
@@ -1929,6 +2781,397 @@ program
     }
   });
 
+program
+  .command('dependencies <project>')
+  .description('Show the blocking graph and critical path for a project (org/slug)')
+  .option('--deadline <date>', 'Deadline to measure slack against (default: latest due date)')
+  .action(async (project: string, options: { deadline?: string }) => {
+    try {
+      const projectId = await resolveProjectId(project);
+      const deadline = options.deadline ? parseDueDate(options.deadline) ?? undefined : undefined;
+      const graph = await trpc.items.dependencyGraph.query({ projectId, deadline });
+
+      if (graph.nodes.length === 0) {
+        console.log('No blocking links in this project');
+        return;
+      }
+
+      const byId = new Map<number, DependencyGraphNode>(graph.nodes.map((n: DependencyGraphNode) => [n.id, n]));
+      console.log(`${graph.nodes.length} linked items, deadline ${graph.deadline ?? 'none'}`);
+      console.log('─'.repeat(60));
+
+      for (const cycle of graph.cycles) {
+        console.log(formatError(`Cycle: ${cycle.map((id: number) => byId.get(id)?.displayId).join(' → ')}`));
+      }
+
+      console.log('Critical path:');
+      for (const id of graph.criticalPath) {
+        const node = byId.get(id)!;
+        const slack = node.slackDays === null ? '' : `  slack ${node.slackDays}d`;
+        console.log(`  ${node.displayId}  ${node.title.slice(0, 40)}  finish ${node.earliestFinish}${slack}`);
+      }
+
+      const others = graph.nodes.filter((n: DependencyGraphNode) => !n.critical && !n.done);
+      if (others.length > 0) {
+        console.log('\nOther open items:');
+        for (const node of others) {
+          const slack = node.inCycle ? '  in cycle' : node.slackDays === null ? '' : `  slack ${node.slackDays}d`;
+          const external = node.external ? '  (other project)' : '';
+          console.log(`  ${node.displayId}  ${node.title.slice(0, 40)}${slack}${external}`);
+        }
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Planning Commands
+// ============================================================================
+
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+program
+  .command('plan')
+  .description('Show load against capacity per day, with suggested moves for overloaded days')
+  .option('--start <date>', 'First day (default: today)')
+  .option('--days <n>', 'Number of days (max 14)', parseInt)
+  .option('--owner <name>', 'Only tasks and routines for this person')
+  .action(async (options: { start?: string; days?: number; owner?: string }) => {
+    try {
+      const plan = await trpc.planning.week.query({
+        start: options.start ? parseDueDate(options.start) ?? undefined : undefined,
+        days: options.days,
+        owner: options.owner,
+      });
+
+      for (const day of plan.days as PlanDay[]) {
+        const load = day.busyMinutes + day.plannedMinutes;
+        const flag = day.overloaded ? '  OVERLOADED' : '';
+        const busy = day.busyMinutes > 0 ? ` (${formatMinutes(day.busyMinutes)} meetings)` : '';
+        console.log(`\n${WEEKDAY_NAMES[day.weekday]} ${day.date}  ${formatMinutes(load)} / ${formatMinutes(day.capacityMinutes)}${busy}${flag}`);
+        for (const task of day.tasks) {
+          const priority = task.priority ? `P${task.priority} ` : '';
+          console.log(`  ${task.displayId}  ${priority}${task.title.slice(0, 50)}  ${formatMinutes(task.minutes)}${task.estimateMinutes ? '' : '?'}`);
+        }
+        for (const checkin of day.checkins) {
+          console.log(`  ${checkin.displayId}  check-in: ${checkin.title.slice(0, 40)}`);
+        }
+        if (day.routines.length > 0) {
+          const minutes = day.routines.reduce((sum, r) => sum + r.minutes, 0);
+          console.log(`  ${day.routines.length} routine(s)  ${formatMinutes(minutes)}`);
+        }
+      }
+
+      if (plan.calendar === 'error') {
+        console.log('\n(Calendar busy time unavailable)');
+      }
+
+      if (plan.suggestions.length > 0) {
+        console.log('\nSuggested moves:');
+        for (const s of plan.suggestions) {
+          console.log(`  ${s.displayId}  ${s.title.slice(0, 40)}  ${s.from} → ${s.to}  (task update ${s.displayId} --due ${s.to})`);
+        }
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('capacity [weekday] [hours]')
+  .description('Show working hours per weekday, or set one (e.g. capacity fri 4)')
+  .action(async (weekday?: string, hours?: string) => {
+    try {
+      let result;
+      if (weekday) {
+        const index = WEEKDAY_NAMES.indexOf(weekday.toLowerCase().slice(0, 3));
+        const value = hours === undefined ? NaN : parseFloat(hours);
+        if (index === -1 || isNaN(value) || value < 0 || value > 24) {
+          console.log(formatError('Usage: capacity <mon|tue|...|sun> <hours 0-24>'));
+          process.exit(1);
+        }
+        result = await trpc.planning.setCapacity.mutate({
+          days: [{ weekday: index, minutes: Math.round(value * 60) }],
+        });
+      } else {
+        result = await trpc.planning.capacity.query();
+      }
+
+      // Monday first
+      for (const day of [...result.days.slice(1), result.days[0]]) {
+        console.log(`  ${WEEKDAY_NAMES[day.weekday]}  ${day.minutes === 0 ? '-' : formatMinutes(day.minutes)}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Calendar Block Commands
+// ============================================================================
+
+program
+  .command('schedule <id> <date> <time>')
+  .description('Book a focus block on Google Calendar (e.g. schedule T-42 tomorrow 09:30)')
+  .option('--length <duration>', 'Block length (default: the estimate, else 1h)')
+  .option('--calendar <id>', 'Calendar ID (default: first configured calendar)')
+  .action(async (id: string, dateArg: string, time: string, options: { length?: string; calendar?: string }) => {
+    try {
+      const date = parseDueDate(dateArg);
+      const timeMatch = time.match(/^(\d{1,2}):(\d{2})$/);
+      if (!date || !timeMatch) {
+        console.log(formatError('Usage: schedule <id> <date> <HH:MM>'));
+        process.exit(1);
+      }
+
+      let minutes: number | undefined;
+      if (options.length) {
+        const parsed = parseDuration(options.length);
+        if (parsed === null) {
+          console.log(formatError(`Invalid length: ${options.length}. Use e.g. 45m, 1.5h, 1h30m`));
+          process.exit(1);
+        }
+        minutes = parsed;
+      }
+
+      // Local time on this machine
+      const start = new Date(`${date}T${timeMatch[1].padStart(2, '0')}:${timeMatch[2]}:00`);
+      const result = await trpc.items.scheduleBlock.mutate({
+        id: parseTaskId(id) ?? parseInt(id),
+        start: start.toISOString(),
+        minutes,
+        calendarId: options.calendar,
+      });
+
+      const end = new Date(result.block.end);
+      const span = `${start.toLocaleString()} - ${end.toLocaleTimeString()}`;
+      console.log(`${result.rescheduled ? 'Moved' : 'Booked'} block for ${result.displayId}: ${span}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('unschedule <id>')
+  .description('Remove an item\'s focus block from the calendar')
+  .action(async (id: string) => {
+    try {
+      const result = await trpc.items.unscheduleBlock.mutate({ id: parseTaskId(id) ?? parseInt(id) });
+      console.log(`Removed block for ${result.displayId}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Import Commands
+// ============================================================================
+
+const IMPORT_FORMATS: ImportFormat[] = ['todoist-json', 'todoist-csv', 'csv'];
+
+/**
+ * Guess the format from the file: JSON is a Todoist export, and a CSV with
+ * Todoist's TYPE and CONTENT columns is a Todoist project export.
+ */
+function detectImportFormat(file: string, content: string): ImportFormat {
+  if (file.toLowerCase().endsWith('.json') || content.trimStart().startsWith('{') || content.trimStart().startsWith('[')) {
+    return 'todoist-json';
+  }
+  const header = content.replace(/^\uFEFF/, '').split(/\r?\n/)[0].toUpperCase().split(',').map(h => h.trim().replace(/^"|"$/g, ''));
+  return header.includes('TYPE') && header.includes('CONTENT') ? 'todoist-csv' : 'csv';
+}
+
+program
+  .command('import <file>')
+  .description('Import tasks from a Todoist export (JSON or CSV) or any CSV. Shows a preview unless --commit is given')
+  .option('--format <format>', `File format: ${IMPORT_FORMATS.join(', ')} (default: detected)`)
+  .option('--map <columns>', 'CSV columns for fields, e.g. title=Name,dueDate=Due,owner=Assignee')
+  .option('--project <org/slug>', 'Project for rows that don\'t name one')
+  .option('--org <slug>', 'Organization to match and create projects in')
+  .option('--no-create', 'Don\'t create missing projects, people or tags')
+  .option('--commit', 'Create the items (default: preview only)')
+  .action(async (file: string, options: {
+    format?: string;
+    map?: string;
+    project?: string;
+    org?: string;
+    create: boolean;
+    commit?: boolean;
+  }) => {
+    try {
+      const content = readFileSync(file, 'utf-8');
+      const format = (options.format ?? detectImportFormat(file, content)) as ImportFormat;
+      if (!IMPORT_FORMATS.includes(format)) {
+        console.log(formatError(`Unknown format: ${options.format}. Use ${IMPORT_FORMATS.join(', ')}`));
+        process.exit(1);
+      }
+
+      let mapping: Partial<CsvColumnMapping> | undefined;
+      if (options.map) {
+        mapping = {};
+        for (const pair of options.map.split(',')) {
+          const [field, column] = pair.split('=').map(s => s.trim());
+          if (!field || !column) {
+            console.log(formatError(`Invalid mapping: ${pair}. Use field=Column`));
+            process.exit(1);
+          }
+          mapping[field as keyof CsvColumnMapping] = column;
+        }
+      }
+
+      const input = {
+        format,
+        content,
+        fileName: file.split(/[\\/]/).pop(),
+        mapping,
+        projectId: options.project ? await resolveProjectId(options.project) : undefined,
+        orgSlug: options.org,
+        createMissing: options.create,
+      };
+      const result = options.commit
+        ? await trpc.import.commit.mutate(input)
+        : await trpc.import.preview.mutate(input);
+
+      for (const row of result.rows as ImportRow[]) {
+        const mark = row.action === 'create' ? '+' : '=';
+        const indent = row.parent ? '    ' : '  ';
+        const details = [
+          row.project && `[${row.project}]`,
+          row.priority && `P${row.priority}`,
+          row.dueDate && `due ${row.dueDate}`,
+          row.owner && `@${row.owner}`,
+          row.status !== 'pending' && row.status,
+          row.duplicateOf && `duplicate of ${row.duplicateOf}`,
+        ].filter(Boolean).join('  ');
+        console.log(`${mark}${indent}${row.title.slice(0, 50)}  ${details}`);
+      }
+
+      const { toCreate } = result;
+      console.log('─'.repeat(60));
+      console.log(`${toCreate.items} to create, ${result.duplicates} duplicate(s) skipped (${format})`);
+      if (toCreate.projects.length > 0) console.log(`New projects: ${toCreate.projects.join(', ')}`);
+      if (toCreate.people.length > 0) console.log(`New people: ${toCreate.people.join(', ')}`);
+      if (toCreate.tags.length > 0) console.log(`New tags: ${toCreate.tags.join(', ')}`);
+      for (const warning of result.warnings) {
+        console.log(`Warning: ${warning}`);
+      }
+
+      if ('ids' in result) {
+        console.log(`\nImported ${result.ids.length} item(s)`);
+      } else if (toCreate.items > 0) {
+        console.log('\nPreview only: run again with --commit to import');
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Backup Commands
+// ============================================================================
+
+const backup = program
+  .command('backup')
+  .description('Export, restore and snapshot the whole database');
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+backup
+  .command('export')
+  .description('Write every table to a JSON archive')
+  .option('--out <file>', 'Output file (default: kw-backup-<date>.json)')
+  .action(async (options: { out?: string }) => {
+    try {
+      const archive = await trpc.export.all.query() as BackupArchive;
+      const file = options.out ?? `kw-backup-${archive.exportedAt.slice(0, 10)}.json`;
+      const json = JSON.stringify(archive);
+      writeFileSync(file, json);
+
+      const rows = Object.values(archive.tables).reduce((sum, t) => sum + t.length, 0);
+      console.log(`Exported ${rows} rows from ${Object.keys(archive.tables).length} tables to ${file} (${formatBytes(json.length)})`);
+      console.log(`Schema: ${archive.schemaVersion}`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+backup
+  .command('restore [file]')
+  .description('Replace the whole database with an archive. Shows what it holds unless --yes is given')
+  .option('--snapshot <name>', 'Restore a stored snapshot instead of a file')
+  .option('--yes', 'Really replace the database')
+  .action(async (file: string | undefined, options: { snapshot?: string; yes?: boolean }) => {
+    try {
+      if (!file === !options.snapshot) {
+        console.log(formatError('Usage: backup restore <file> or backup restore --snapshot <name>'));
+        process.exit(1);
+      }
+
+      const result = await trpc.import.restore.mutate({
+        ...(file ? { archive: JSON.parse(readFileSync(file, 'utf-8')) } : { snapshot: options.snapshot }),
+        dryRun: !options.yes,
+      });
+
+      console.log(`Archive from ${result.exportedAt} (schema ${result.schemaVersion})`);
+      for (const table of result.tables) {
+        if (table.rows > 0) console.log(`  ${table.name.padEnd(20)} ${String(table.rows).padStart(6)}`);
+      }
+      if (result.dryRun) {
+        console.log('\nNothing changed: run again with --yes to replace the database');
+      } else {
+        console.log(`\nRestored. Previous data saved as snapshot ${result.safetySnapshot}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+backup
+  .command('snapshots')
+  .description('List stored snapshots, newest first')
+  .action(async () => {
+    try {
+      const { snapshots } = await trpc.export.snapshots.query();
+      if (snapshots.length === 0) {
+        console.log('No snapshots');
+        return;
+      }
+      for (const snapshot of snapshots) {
+        console.log(`  ${snapshot.name}  ${formatBytes(snapshot.size).padStart(9)}`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
+backup
+  .command('snapshot')
+  .description('Write a snapshot now')
+  .action(async () => {
+    try {
+      const { snapshot, pruned } = await trpc.export.snapshot.mutate();
+      console.log(`Wrote ${snapshot.name} (${formatBytes(snapshot.size)})`);
+      if (pruned.length > 0) console.log(`Removed ${pruned.length} old snapshot(s)`);
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Item Person Commands
 // ============================================================================
@@ -2241,6 +3484,63 @@ program
     }
   });
 
+// ============================================================================
+// Audit Command
+// ============================================================================
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '–';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 30 ? text.slice(0, 27) + '...' : text;
+}
+
+program
+  .command('audit')
+  .description('Show who changed what (audit log), newest first')
+  .option('--actor <name>', 'Only changes by this agent/token name')
+  .option('--type <type>', 'Only changes by actor type (web, cli, agent, sync, api, system)')
+  .option('--entity <entity>', 'Only this entity type (items, routines, projects, people, organizations, tags)')
+  .option('--id <id>', 'Only this record (requires --entity; items accept T-123)')
+  .option('--since <date>', 'Only changes since date/time (YYYY-MM-DD or ISO)')
+  .option('--limit <n>', 'Number of entries to show', parseInt)
+  .action(async (options) => {
+    try {
+      const result = await trpc.audit.list.query({
+        actorName: options.actor,
+        actorType: options.type,
+        entity: options.entity,
+        entityId: options.id,
+        since: options.since,
+        limit: options.limit || 50,
+      });
+
+      if (result.entries.length === 0) {
+        console.log('No audit entries');
+        return;
+      }
+
+      for (const entry of result.entries) {
+        const date = new Date(entry.createdAt);
+        const when = `${date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' })} ${date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`;
+        const actor = entry.actor.name ? `${entry.actor.type}:${entry.actor.name}` : entry.actor.type;
+        const target = entry.entity === 'items' || entry.entity === 'routines'
+          ? formatTaskId(entry.entityId)
+          : `${entry.entity}#${entry.entityId}`;
+        const changes = entry.changes
+          .map((c: { field: string; before: unknown; after: unknown }) => `${c.field}: ${formatAuditValue(c.before)} → ${formatAuditValue(c.after)}`)
+          .join(', ');
+
+        console.log(`${when}  ${actor.padEnd(22)}  ${entry.procedure.padEnd(20)}  ${target.padEnd(10)}  ${entry.action}${changes ? '  ' + changes : ''}`);
+      }
+      if (result.nextCursor) {
+        console.log(`… more entries (use --limit or --since to see further back)`);
+      }
+    } catch (error) {
+      console.log(formatError(getErrorMessage(error)));
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Subtasks Command
 // ============================================================================
@@ -13,16 +13,28 @@ import type { AppRouter } from '../lib/server/trpc/index.js';
 
 const TASK_SERVICE_URL = process.env.TASK_SERVICE_URL || 'http://localhost:3004';
 
+// API token from the web app's System page; required when the server has AUTH_PASSPHRASE set
+const KW_API_TOKEN = process.env.KW_API_TOKEN;
+
+// Agents set KW_ACTOR to their name so their changes are attributed to them in the audit log
+const KW_ACTOR = process.env.KW_ACTOR;
+
 // Create the tRPC client
 export const trpc = createTRPCClient<AppRouter>({
   links: [
     httpBatchLink({
       url: `${TASK_SERVICE_URL}/api/trpc`,
       transformer: superjson,
+      headers: () => ({
+        'X-KW-Client': KW_ACTOR ? 'agent' : 'cli',
+        ...(KW_ACTOR && { 'X-KW-Actor': KW_ACTOR }),
+        ...(KW_API_TOKEN && { Authorization: `Bearer ${KW_API_TOKEN}` }),
+      }),
     }),
   ],
 });
 
 // Re-export types for convenience
 export type { AppRouter };
-export { formatTaskId, parseTaskId } from '@kw/api-types';
+export { formatTaskId, parseTaskId, describeRecurrence, isRRuleText, parseQuickAdd } from '@kw/api-types';
+export type { ItemTemplateStep, DependencyGraphNode, PlanDay, ImportFormat, ImportRow, CsvColumnMapping, BackupArchive } from '@kw/api-types';
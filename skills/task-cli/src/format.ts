@@ -251,6 +251,60 @@ export function formatItemDetail(item: FormattableItem): string {
   return lines.join('\n');
 }
 
+// Minimal shape of a search.query result
+type FormattableSearchResult = {
+  type: string;
+  title: string;
+  snippet: string;
+  highlights: { start: number; end: number }[];
+  itemId: number | null;
+  itemStatus: string | null;
+  path: string | null;
+  org: string | null;
+};
+
+const TYPE_WIDTH = 8;
+
+// Wrap highlighted ranges in [brackets]
+function markHighlights(text: string, highlights: { start: number; end: number }[]): string {
+  let result = '';
+  let last = 0;
+  for (const { start, end } of highlights) {
+    result += text.slice(last, start) + '[' + text.slice(start, end) + ']';
+    last = end;
+  }
+  return result + text.slice(last);
+}
+
+// Format full-text search results with snippets
+export function formatSearchResults(results: FormattableSearchResult[], total: number): string {
+  if (results.length === 0) {
+    return 'No matches found.';
+  }
+
+  const lines: string[] = [];
+  for (const result of results) {
+    const id = pad(result.itemId !== null ? `T-${result.itemId}` : '', ID_WIDTH);
+    const type = pad(result.type, TYPE_WIDTH);
+    const status = pad(result.itemStatus ? formatStatus(result.itemStatus) : '', STATUS_WIDTH);
+    const title = pad(result.title, TITLE_WIDTH);
+    const location = result.path || result.org || '';
+
+    lines.push(`${id}  ${type}  ${status}  ${title}  ${location}`);
+    if (result.snippet) {
+      const snippet = markHighlights(result.snippet, result.highlights).replace(/\s+/g, ' ').trim();
+      lines.push(`${' '.repeat(ID_WIDTH)}  ${snippet}`);
+    }
+  }
+
+  const separator = '─'.repeat(80);
+  const summary = total > results.length
+    ? `${results.length} of ${total} matches`
+    : `${total} matches`;
+
+  return [...lines, separator, summary].join('\n');
+}
+
 // Format error
 export function formatError(message: string): string {
   return `Error: ${message}`;